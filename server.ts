@@ -1,7 +1,28 @@
+import "dotenv/config";
 import express from "express";
 import { createServer as createViteServer } from "vite";
 import path from "path";
 import { fileURLToPath } from "url";
+import { salesRouter } from "./server/sales";
+import { ledgerRouter } from "./server/ledger";
+import { inventoryRouter } from "./server/inventory";
+import { categoriesRouter } from "./server/categories";
+import { purchasingRouter } from "./server/purchasing";
+import { customersRouter } from "./server/customers";
+import { shiftsRouter } from "./server/shifts";
+import { mobileMoneyRouter } from "./server/mobileMoney";
+import { returnsRouter } from "./server/returns";
+import { quotesRouter } from "./server/quotes";
+import { printingRouter } from "./server/printing";
+import { brandingRouter } from "./server/branding";
+import { fitmentRouter } from "./server/fitment";
+import { warrantyRouter } from "./server/warranty";
+import { batchesRouter } from "./server/batches";
+import { locationsRouter } from "./server/locations";
+import { stocktakesRouter } from "./server/stocktakes";
+import { receiptPageRouter } from "./server/receiptPage";
+import { dataBackend } from "./server/db";
+import { localAccessPin, localSessionRouter, requireAuth } from "./server/auth";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -10,11 +31,39 @@ async function startServer() {
   const app = express();
   const PORT = 3000;
 
+  app.use(express.json({ limit: "1mb" }));
+
   // API routes can go here
   app.get("/api/health", (req, res) => {
-    res.json({ status: "ok" });
+    res.json({ status: "ok", backend: dataBackend });
   });
 
+  app.use("/api/auth/local", localSessionRouter);
+
+  // Everything below the health check and local sign-in needs a signed-in user
+  app.use("/api", requireAuth);
+
+  app.use("/api/sales", salesRouter);
+  app.use("/api/ledger", ledgerRouter);
+  app.use("/api/inventory", inventoryRouter);
+  app.use("/api/categories", categoriesRouter);
+  app.use("/api/purchasing", purchasingRouter);
+  app.use("/api/customers", customersRouter);
+  app.use("/api/shifts", shiftsRouter);
+  app.use("/api/mobile-money", mobileMoneyRouter);
+  app.use("/api/returns", returnsRouter);
+  app.use("/api/quotes", quotesRouter);
+  app.use("/api/printing", printingRouter);
+  app.use("/api/branding", brandingRouter);
+  app.use("/api/fitment", fitmentRouter);
+  app.use("/api/warranty", warrantyRouter);
+  app.use("/api/batches", batchesRouter);
+  app.use("/api/locations", locationsRouter);
+  app.use("/api/stocktakes", stocktakesRouter);
+
+  // Public receipt verification, opened from the QR code on printed receipts
+  app.use("/r", receiptPageRouter);
+
   // Vite middleware for development
   if (process.env.NODE_ENV !== "production") {
     const vite = await createViteServer({
@@ -30,8 +79,14 @@ async function startServer() {
     });
   }
 
-  app.listen(PORT, "0.0.0.0", () => {
-    console.log(`Server running on http://0.0.0.0:${PORT}`);
+  // A SQLite install without LOCAL_ACCESS_PIN has nothing to stop the LAN signing in, so it stays on this box.
+  const HOST = dataBackend === "sqlite" && !localAccessPin ? "127.0.0.1" : "0.0.0.0";
+  if (HOST === "127.0.0.1") {
+    console.warn("LOCAL_ACCESS_PIN is not set; listening on 127.0.0.1 only. Set it to serve other tills.");
+  }
+
+  app.listen(PORT, HOST, () => {
+    console.log(`Server running on http://${HOST}:${PORT}`);
   });
 }
 
@@ -0,0 +1,127 @@
+import express from "express";
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { supabaseAdmin, isServerConfigured } from "./supabaseAdmin";
+import { dataBackend } from "./db";
+import { respond, RequestError } from "./respond";
+
+export interface SessionUser {
+  id: string;
+  name: string; // Written to audit columns (performed_by, adjusted_by, ...)
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SessionUser;
+    }
+  }
+}
+
+const bearerToken = (req: express.Request) => {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") || "");
+  return match ? match[1] : null;
+};
+
+const unauthorized = (res: express.Response, message: string) => {
+  res.status(401).json({ error: message });
+};
+
+// The SQLite backend has no Supabase auth: tills sign in with a name and LOCAL_ACCESS_PIN and get
+// a signed session token instead. Without a PIN the server only listens on 127.0.0.1 (see server.ts).
+export const localAccessPin = process.env.LOCAL_ACCESS_PIN || "";
+
+const LOCAL_SESSION_HOURS = 12;
+const MAX_FAILED_SIGN_INS = 5;
+const SIGN_IN_LOCKOUT_MS = 60_000;
+
+// Sessions are signed with a per-process secret, so a restart signs every till out.
+const localSecret = randomBytes(32);
+
+const signature = (payload: string) => createHmac("sha256", localSecret).update(`session:${payload}`).digest("base64url");
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+function signLocalSession(name: string): string {
+  const payload = Buffer.from(JSON.stringify({ name, exp: Date.now() + LOCAL_SESSION_HOURS * 3600_000 })).toString("base64url");
+  return `${payload}.${signature(payload)}`;
+}
+
+function verifyLocalSession(token: string): SessionUser | null {
+  const [payload, signed, ...rest] = token.split(".");
+  if (!payload || !signed || rest.length > 0) return null;
+  if (!timingSafeEqual(digest(signed), digest(signature(payload)))) return null;
+  try {
+    const { name, exp } = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (typeof name !== "string" || typeof exp !== "number" || exp < Date.now()) return null;
+    return { id: `local:${name}`, name };
+  } catch {
+    return null;
+  }
+}
+
+// Failed PINs per client address; a 4-digit PIN would otherwise fall to a short loop.
+const failedSignIns = new Map<string, { count: number; until: number }>();
+
+export const localSessionRouter = express.Router();
+
+localSessionRouter.post("/", respond("Local sign-in", async req => {
+  if (dataBackend !== "sqlite") throw new RequestError("Local sign-in is only available with DATA_BACKEND=sqlite.", 404);
+  const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+  if (!name) throw new RequestError("name is required.");
+
+  const client = req.ip || "unknown";
+  const failed = failedSignIns.get(client);
+  if (failed && failed.count >= MAX_FAILED_SIGN_INS && failed.until > Date.now()) {
+    throw new RequestError("Too many wrong PINs. Try again in a minute.", 429);
+  }
+  const pin = typeof req.body?.pin === "string" ? req.body.pin : "";
+  if (localAccessPin && !timingSafeEqual(digest(pin), digest(localAccessPin))) {
+    const count = failed && failed.until > Date.now() ? failed.count + 1 : 1;
+    failedSignIns.set(client, { count, until: Date.now() + SIGN_IN_LOCKOUT_MS });
+    throw new RequestError("Wrong PIN.", 401);
+  }
+  failedSignIns.delete(client);
+  return { token: signLocalSession(name), name };
+}));
+
+// Who is doing this, for audit columns. Request bodies never say; the signed-in session does.
+export function sessionUser(req: express.Request): string {
+  if (!req.user) throw new RequestError("Sign in to continue.", 401);
+  return req.user.name;
+}
+
+// Every /api route runs as the signed-in user. The store talks to Supabase with the service role
+// key, which bypasses RLS, so this check is what keeps the network out of the books.
+export const requireAuth: express.RequestHandler = async (req, res, next) => {
+  const token = bearerToken(req);
+  if (dataBackend === "sqlite") {
+    const user = token ? verifyLocalSession(token) : null;
+    if (!user) {
+      unauthorized(res, token ? "Your session has expired. Sign in again." : "Sign in to continue.");
+      return;
+    }
+    req.user = user;
+    next();
+    return;
+  }
+  if (!isServerConfigured) {
+    res.status(503).json({ error: "The data backend is not configured on the server." });
+    return;
+  }
+  if (!token) {
+    unauthorized(res, "Sign in to continue.");
+    return;
+  }
+  try {
+    const { data, error } = await supabaseAdmin.auth.getUser(token);
+    if (error || !data.user) {
+      unauthorized(res, "Your session has expired. Sign in again.");
+      return;
+    }
+    req.user = { id: data.user.id, name: data.user.email || data.user.id };
+    next();
+  } catch (err: any) {
+    console.error("Session check failed:", err);
+    res.status(503).json({ error: "Could not verify your session." });
+  }
+};
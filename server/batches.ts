@@ -0,0 +1,39 @@
+import express from "express";
+import { store } from "./db";
+import { respond, RequestError } from "./respond";
+import { sessionUser } from "./auth";
+import type { StockBatchStatus } from "../src/types";
+
+const isNonEmptyString = (val: unknown): val is string =>
+  typeof val === "string" && val.trim().length > 0;
+
+const BATCH_STATUSES: StockBatchStatus[] = ["available", "quarantined"];
+
+export const batchesRouter = express.Router();
+
+batchesRouter.get("/", respond("Batch fetch", req => {
+  const status = req.query.status as StockBatchStatus | undefined;
+  if (status !== undefined && !BATCH_STATUSES.includes(status)) {
+    throw new RequestError(`status must be one of ${BATCH_STATUSES.join(", ")}.`);
+  }
+  return store.listBatches({
+    itemId: typeof req.query.itemId === "string" ? req.query.itemId : undefined,
+    status,
+    locationId: typeof req.query.locationId === "string" && req.query.locationId ? req.query.locationId : undefined
+  });
+}));
+
+// Takes the rest of the lot out of stock and writes its cost off against the item's category.
+batchesRouter.post("/:id/quarantine", respond("Batch quarantine", async req => {
+  if (req.body?.reason !== undefined && typeof req.body.reason !== "string") {
+    throw new RequestError("reason must be a string when provided.");
+  }
+  const outcome = await store.quarantineBatch({
+    batchId: req.params.id,
+    reason: isNonEmptyString(req.body?.reason) ? req.body.reason.trim() : "Expired",
+    user: sessionUser(req)
+  });
+  if (outcome.status === "not_found") throw new RequestError("Batch not found.", 404);
+  if (outcome.status === "invalid") throw new RequestError(outcome.message, 409);
+  return outcome.batch;
+}));
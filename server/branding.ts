@@ -0,0 +1,71 @@
+import express from "express";
+import { store } from "./db";
+import { respond, RequestError } from "./respond";
+import { sessionUser } from "./auth";
+import { isHexColor, isPdfScheme, PDF_SCHEMES, RECEIPT_LOGO_DOTS } from "../src/lib/branding";
+
+const isNonEmptyString = (val: unknown): val is string =>
+  typeof val === "string" && val.trim().length > 0;
+
+const optionalString = (val: unknown) => (isNonEmptyString(val) ? val.trim() : null);
+
+// Well inside the 1mb JSON body limit once base64 encoded.
+const MAX_LOGO_LENGTH = 300_000;
+const MAX_LOGO_ROWS = 400;
+
+const TEXT_FIELDS = ["address", "phone", "email", "tin", "vrn", "receiptFooter"];
+
+export function validateBranding(body: any): string[] {
+  const errors: string[] = [];
+  if (!isNonEmptyString(body?.businessName)) errors.push("businessName is required.");
+  for (const field of TEXT_FIELDS) {
+    if (body?.[field] != null && typeof body[field] !== "string") errors.push(`${field} must be a string when provided.`);
+  }
+  if (!isHexColor(body?.accentColor)) errors.push("accentColor must be a #rrggbb colour.");
+  if (!isPdfScheme(body?.pdfScheme)) {
+    errors.push(`pdfScheme must be one of ${PDF_SCHEMES.map(s => s.code).join(", ")}.`);
+  }
+  if (body?.logo != null) {
+    if (typeof body.logo !== "string" || !/^data:image\/(png|jpeg);base64,[A-Za-z0-9+/=]+$/.test(body.logo)) {
+      errors.push("logo must be a PNG or JPEG data: URL.");
+    } else if (body.logo.length > MAX_LOGO_LENGTH) {
+      errors.push(`logo must be under ${Math.floor(MAX_LOGO_LENGTH / 1000)} KB once encoded.`);
+    }
+  }
+  if (body?.logoRaster != null) {
+    const { width, height, data } = body.logoRaster;
+    if (!Number.isInteger(width) || width <= 0 || width > RECEIPT_LOGO_DOTS || width % 8 !== 0) {
+      errors.push(`logoRaster.width must be a multiple of 8 up to ${RECEIPT_LOGO_DOTS}.`);
+    } else if (!Number.isInteger(height) || height <= 0 || height > MAX_LOGO_ROWS) {
+      errors.push(`logoRaster.height must be between 1 and ${MAX_LOGO_ROWS}.`);
+    } else if (typeof data !== "string" || Buffer.from(data, "base64").length !== (width / 8) * height) {
+      errors.push("logoRaster.data must be base64 of width / 8 * height bytes.");
+    }
+  }
+  return errors;
+}
+
+export const brandingRouter = express.Router();
+
+brandingRouter.get("/", respond("Branding fetch", async () => store.getBranding()));
+
+// Replaces the whole profile; blank fields fall back to the defaults.
+brandingRouter.put("/", respond("Branding update", async req => {
+  const errors = validateBranding(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const body = req.body;
+  return store.setBranding({
+    business_name: body.businessName.trim(),
+    logo: body.logo || null,
+    logo_raster: body.logo ? body.logoRaster || null : null,
+    address: optionalString(body.address),
+    phone: optionalString(body.phone),
+    email: optionalString(body.email),
+    tin: optionalString(body.tin),
+    vrn: optionalString(body.vrn),
+    receipt_footer: optionalString(body.receiptFooter),
+    accent_color: body.accentColor.toUpperCase(),
+    pdf_scheme: body.pdfScheme,
+    updated_by: sessionUser(req)
+  });
+}));
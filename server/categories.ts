@@ -0,0 +1,16 @@
+import express from "express";
+import { store } from "./db";
+import { respond, RequestError } from "./respond";
+
+export const categoriesRouter = express.Router();
+
+categoriesRouter.get("/", respond("Category fetch", () => store.listCategories()));
+
+// Per-category revenue, profit, expenses and capital health (the business_summary view).
+categoriesRouter.get("/summary", respond("Business summary fetch", () => store.listBusinessSummaries()));
+
+categoriesRouter.get("/summary/:categoryId", respond("Business summary fetch", async req => {
+  const summary = await store.getBusinessSummary(req.params.categoryId);
+  if (!summary) throw new RequestError(`No business summary for category ${req.params.categoryId}.`, 404);
+  return summary;
+}));
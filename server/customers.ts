@@ -0,0 +1,95 @@
+import express from "express";
+import { store } from "./db";
+import { respond, RequestError } from "./respond";
+import { sessionUser } from "./auth";
+import { buildAgingReport, CUSTOMER_PAYMENT_METHODS } from "../src/lib/customers";
+import type { CustomerPaymentRequest } from "../src/types";
+
+const isNonEmptyString = (val: unknown): val is string =>
+  typeof val === "string" && val.trim().length > 0;
+
+const isNonNegativeNumber = (val: unknown): val is number =>
+  typeof val === "number" && Number.isFinite(val) && val >= 0;
+
+const optionalString = (val: unknown) => (isNonEmptyString(val) ? val.trim() : null);
+
+export function validateCustomer(body: any, partial = false): string[] {
+  const errors: string[] = [];
+  if ((!partial || body?.name !== undefined) && !isNonEmptyString(body?.name)) {
+    errors.push("name is required.");
+  }
+  if (body?.email && (typeof body.email !== "string" || !body.email.includes("@"))) {
+    errors.push("email must be an email address.");
+  }
+  if (body?.credit_limit !== undefined && !isNonNegativeNumber(body.credit_limit)) {
+    errors.push("credit_limit must be a non-negative number.");
+  }
+  return errors;
+}
+
+export function validateCustomerPayment(body: any): string[] {
+  const errors: string[] = [];
+  if (typeof body?.amount !== "number" || !Number.isFinite(body.amount) || body.amount <= 0) {
+    errors.push("amount must be a positive number.");
+  }
+  if (!CUSTOMER_PAYMENT_METHODS.includes(body?.method)) {
+    errors.push(`method must be one of ${CUSTOMER_PAYMENT_METHODS.join(", ")}.`);
+  }
+  return errors;
+}
+
+export const customersRouter = express.Router();
+
+customersRouter.get("/", respond("Customer fetch", () => store.listCustomers()));
+
+customersRouter.post("/", respond("Customer create", req => {
+  const errors = validateCustomer(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const { name, phone, email, tax_id, address, credit_limit } = req.body;
+  return store.createCustomer({
+    name: name.trim(),
+    phone: optionalString(phone),
+    email: optionalString(email),
+    tax_id: optionalString(tax_id),
+    address: optionalString(address),
+    credit_limit: credit_limit ?? 0,
+    active: true
+  });
+}, 201));
+
+// Open charges bucketed by age as of now.
+customersRouter.get("/aging", respond("Customer aging", async () => {
+  const [customers, openCharges] = await Promise.all([
+    store.listCustomers(),
+    store.listCustomerTransactions({ openOnly: true })
+  ]);
+  return buildAgingReport(customers, openCharges);
+}));
+
+customersRouter.patch("/:id", respond("Customer update", async req => {
+  const errors = validateCustomer(req.body, true);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const { id, created_at, balance, ...patch } = req.body || {};
+  await store.updateCustomer(req.params.id, patch);
+  return { id: req.params.id };
+}));
+
+customersRouter.get("/:id/transactions", respond("Customer statement fetch", req =>
+  store.listCustomerTransactions({ customerId: req.params.id })
+));
+
+customersRouter.post("/:id/payments", respond("Customer payment", async req => {
+  const errors = validateCustomerPayment(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const request = req.body as CustomerPaymentRequest;
+  const outcome = await store.receiveCustomerPayment(req.params.id, {
+    amount: request.amount,
+    method: request.method,
+    reference: optionalString(request.reference),
+    receivedBy: sessionUser(req),
+    note: optionalString(request.note)
+  });
+  if (outcome.status === "not_found") throw new RequestError("Customer not found.", 404);
+  if (outcome.status === "invalid") throw new RequestError(outcome.message, 409);
+  return outcome.transaction;
+}, 201));
@@ -0,0 +1,14 @@
+import path from "path";
+import { createSupabaseStore } from "./supabase";
+import { createSqliteStore } from "./sqlite";
+import type { DataBackend, DataStore } from "./types";
+
+export type { DataBackend, DataStore } from "./types";
+
+// DATA_BACKEND=sqlite runs the whole app against a local file (single-box installs);
+// anything else keeps Supabase as the system of record.
+export const dataBackend: DataBackend = process.env.DATA_BACKEND === "sqlite" ? "sqlite" : "supabase";
+
+export const store: DataStore = dataBackend === "sqlite"
+  ? createSqliteStore(path.resolve(process.env.SQLITE_PATH || "data/retailos.db"))
+  : createSupabaseStore();
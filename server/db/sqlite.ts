@@ -0,0 +1,2320 @@
+import Database from "better-sqlite3";
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import type { BrandingProfile, CashShift, CostingMethod, Customer, CustomerTransaction, DrawerMovement, FitmentCatalogue, GoodsReceivedNote, InventoryItem, InventoryMovement, LedgerEntry, PurchaseOrder, Quote, Sale, SaleReturn, StockBatch, StockConflict, StockLocation, StockMovementType, StockTransfer, Stocktake, Supplier, WarrantyClaim } from "../../src/types";
+import { PURCHASE_ORDER_TRANSITIONS } from "../../src/lib/purchasing";
+import { consumeCostLayers, layeredUnitCost, weightedAverageCost } from "../../src/lib/costing";
+import { withBrandingDefaults } from "../../src/lib/branding";
+import { allocatePayment } from "../../src/lib/customers";
+import { tenderTotal } from "../../src/lib/sales";
+import { refundRatio } from "../../src/lib/returns";
+import { warrantyExpiry } from "../../src/lib/warranty";
+import { fefoAllocation } from "../../src/lib/batches";
+import type {
+  AdjustmentOutcome,
+  BatchQuarantineArgs,
+  BatchQuarantineOutcome,
+  CloseShiftArgs,
+  CloseShiftOutcome,
+  CustomerPaymentArgs,
+  CustomerPaymentOutcome,
+  DataStore,
+  DispatchTransferArgs,
+  DrawerMovementOutcome,
+  OpenShiftOutcome,
+  PostReturnArgs,
+  PostReturnOutcome,
+  PostSaleOutcome,
+  PurchaseOrderOutcome,
+  QuoteOutcome,
+  ReceiveGoodsArgs,
+  ReceiveGoodsOutcome,
+  StockAdjustmentArgs,
+  StockAdjustmentOutcome,
+  StockLine,
+  StartStocktakeArgs,
+  StocktakeCountArgs,
+  StocktakeOutcome,
+  TransferOutcome,
+  WarrantyClaimOutcome,
+  WarrantyClaimTransition
+} from "./types";
+
+// Schema versions, applied in order and tracked with PRAGMA user_version. Append new
+// entries; never edit one that has shipped.
+const MIGRATIONS: string[] = [
+  `
+  create table categories (
+    id integer primary key,
+    name text not null,
+    initial_capital real not null default 0
+  );
+
+  insert into categories (id, name) values (1, 'Oils'), (2, 'Spare Parts'), (3, 'Electrical Spares');
+
+  create table inventory (
+    id text primary key,
+    name text not null,
+    code text,
+    category text,
+    cost_price real not null default 0,
+    selling_price real not null default 0,
+    quantity integer not null default 0,
+    min_stock_level integer not null default 0,
+    created_at text,
+    active integer not null default 1,
+    category_id integer
+  );
+
+  create table sales (
+    id text primary key,
+    receipt_no text not null unique,
+    terminal_id text not null default 'POS-01',
+    cashier_name text,
+    customer_name text,
+    payment_method text not null,
+    payments text not null default '[]',
+    subtotal real not null default 0,
+    tax_rate real not null default 0,
+    tax_amount real not null default 0,
+    discount real not null default 0,
+    total real not null default 0,
+    amount_paid real not null default 0,
+    change_amount real not null default 0,
+    created_at text not null
+  );
+
+  create table ledger (
+    id text primary key,
+    category_id text,
+    inventory_item_id text references inventory (id) on delete set null,
+    quantity real,
+    amount real not null,
+    transaction_type text not null,
+    fund_source text,
+    description text,
+    created_at text not null,
+    sale_id text references sales (id),
+    adjusts_id text references ledger (id),
+    adjustment_kind text check (adjustment_kind is null or adjustment_kind in ('reversal', 'correction')),
+    reason_code text,
+    adjusted_by text
+  );
+
+  create index ledger_created_at_idx on ledger (created_at);
+  create index ledger_sale_id_idx on ledger (sale_id);
+  create index ledger_adjusts_id_idx on ledger (adjusts_id);
+  create unique index ledger_single_reversal_idx on ledger (adjusts_id) where adjustment_kind = 'reversal';
+
+  -- Same shape as the Supabase business_summary view. Profit is revenue less expenses;
+  -- capital health is the category's initial capital less capital withdrawals.
+  create view business_summary as
+  select
+    c.id as category_id,
+    c.name as category_name,
+    coalesce(sum(case when l.transaction_type = 'sale' then l.amount end), 0) as total_revenue,
+    coalesce(sum(case when l.transaction_type = 'sale' then l.amount end), 0)
+      - coalesce(sum(case when l.transaction_type = 'expense' then l.amount end), 0) as total_profit,
+    coalesce(sum(case when l.transaction_type = 'expense' then l.amount end), 0) as total_expenses,
+    c.initial_capital
+      - coalesce(sum(case when lower(l.transaction_type) in ('capital_withdrawal', 'capital_deduction') then l.amount end), 0) as capital_health,
+    coalesce(max(l.created_at), datetime('now')) as last_updated
+  from categories c
+  left join ledger l on l.category_id = cast(c.id as text)
+  group by c.id, c.name, c.initial_capital;
+  `,
+  `
+  create table inventory_movements (
+    id text primary key,
+    inventory_item_id text not null,
+    movement_type text not null check (movement_type in ('opening', 'sale', 'reversal', 'adjustment', 'receiving', 'stocktake', 'transfer')),
+    quantity_delta real not null,
+    quantity_before real not null,
+    quantity_after real not null,
+    reason text,
+    performed_by text,
+    source_type text,
+    source_id text,
+    created_at text not null
+  );
+
+  create index inventory_movements_item_idx on inventory_movements (inventory_item_id, created_at);
+  create index inventory_movements_source_idx on inventory_movements (source_type, source_id);
+
+  insert into inventory_movements (id, inventory_item_id, movement_type, quantity_delta, quantity_before, quantity_after, reason, source_type, source_id, created_at)
+  select lower(hex(randomblob(16))), id, 'opening', quantity, 0, quantity, 'Opening balance at journal start', 'inventory', id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  from inventory
+  where quantity <> 0;
+  `,
+  `
+  create table suppliers (
+    id text primary key,
+    name text not null,
+    contact_name text,
+    phone text,
+    email text,
+    tax_id text,
+    address text,
+    active integer not null default 1,
+    created_at text not null
+  );
+
+  create table purchase_orders (
+    id text primary key,
+    po_number text not null unique,
+    supplier_id text not null references suppliers (id),
+    status text not null default 'draft' check (status in ('draft', 'ordered', 'partially_received', 'received', 'cancelled')),
+    expected_date text,
+    notes text,
+    created_by text,
+    created_at text not null
+  );
+
+  create table purchase_order_lines (
+    id text primary key,
+    purchase_order_id text not null references purchase_orders (id) on delete cascade,
+    inventory_item_id text not null,
+    quantity_ordered real not null check (quantity_ordered > 0),
+    quantity_received real not null default 0,
+    unit_cost real not null default 0 check (unit_cost >= 0)
+  );
+
+  create index purchase_order_lines_order_idx on purchase_order_lines (purchase_order_id);
+
+  create table goods_received_notes (
+    id text primary key,
+    grn_no text not null unique,
+    supplier_id text not null references suppliers (id),
+    purchase_order_id text references purchase_orders (id),
+    supplier_invoice_no text,
+    received_by text not null,
+    received_at text not null,
+    fund_source text not null check (fund_source in ('CAPITAL', 'PROFIT')),
+    subtotal real not null default 0,
+    tax_rate real not null default 0,
+    tax_amount real not null default 0,
+    total real not null default 0,
+    costing_method text not null check (costing_method in ('weighted_average', 'last_cost')),
+    notes text
+  );
+
+  create index goods_received_notes_received_at_idx on goods_received_notes (received_at);
+
+  create table goods_received_lines (
+    id text primary key,
+    grn_id text not null references goods_received_notes (id) on delete cascade,
+    inventory_item_id text not null,
+    purchase_order_line_id text references purchase_order_lines (id),
+    quantity real not null check (quantity > 0),
+    unit_cost real not null check (unit_cost >= 0),
+    line_total real not null,
+    cost_before real not null,
+    cost_after real not null
+  );
+
+  create index goods_received_lines_grn_idx on goods_received_lines (grn_id);
+
+  alter table ledger add column grn_id text references goods_received_notes (id);
+  create index ledger_grn_id_idx on ledger (grn_id);
+  `,
+  `
+  create table stock_settings (
+    id integer primary key check (id = 1),
+    costing_method text not null default 'weighted_average' check (costing_method in ('weighted_average', 'fifo', 'last_cost')),
+    updated_at text,
+    updated_by text
+  );
+
+  insert into stock_settings (id) values (1);
+
+  create table inventory_cost_layers (
+    id text primary key,
+    inventory_item_id text not null,
+    unit_cost real not null check (unit_cost >= 0),
+    quantity_received real not null check (quantity_received > 0),
+    quantity_remaining real not null check (quantity_remaining >= 0),
+    source_type text,
+    source_id text,
+    created_at text not null
+  );
+
+  create index inventory_cost_layers_item_idx on inventory_cost_layers (inventory_item_id, quantity_remaining);
+
+  insert into inventory_cost_layers (id, inventory_item_id, unit_cost, quantity_received, quantity_remaining, source_type, source_id, created_at)
+  select lower(hex(randomblob(16))), id, max(cost_price, 0), quantity, quantity, 'inventory', id, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  from inventory
+  where quantity > 0;
+
+  alter table inventory_movements add column unit_cost real;
+  alter table ledger add column unit_cost real;
+
+  update ledger
+  set unit_cost = (select coalesce(i.cost_price, 0) from inventory i where i.id = ledger.inventory_item_id)
+  where transaction_type = 'sale' and quantity is not null and inventory_item_id is not null;
+
+  create table goods_received_notes_next (
+    id text primary key,
+    grn_no text not null unique,
+    supplier_id text not null references suppliers (id),
+    purchase_order_id text references purchase_orders (id),
+    supplier_invoice_no text,
+    received_by text not null,
+    received_at text not null,
+    fund_source text not null check (fund_source in ('CAPITAL', 'PROFIT')),
+    subtotal real not null default 0,
+    tax_rate real not null default 0,
+    tax_amount real not null default 0,
+    total real not null default 0,
+    costing_method text not null check (costing_method in ('weighted_average', 'fifo', 'last_cost')),
+    notes text
+  );
+
+  insert into goods_received_notes_next select * from goods_received_notes;
+  drop table goods_received_notes;
+  alter table goods_received_notes_next rename to goods_received_notes;
+  create index goods_received_notes_received_at_idx on goods_received_notes (received_at);
+
+  drop view business_summary;
+
+  -- Profit is revenue less the cost of goods sold captured on each sale row, less expenses.
+  create view business_summary as
+  select
+    c.id as category_id,
+    c.name as category_name,
+    coalesce(sum(case when l.transaction_type = 'sale' then l.amount end), 0) as total_revenue,
+    coalesce(sum(case when l.transaction_type = 'sale' then l.amount end), 0)
+      - coalesce(sum(case when l.transaction_type = 'sale' and l.adjustment_kind is not 'correction' then l.quantity * l.unit_cost end), 0)
+      - coalesce(sum(case when l.transaction_type = 'expense' then l.amount end), 0) as total_profit,
+    coalesce(sum(case when l.transaction_type = 'expense' then l.amount end), 0) as total_expenses,
+    c.initial_capital
+      - coalesce(sum(case when lower(l.transaction_type) in ('capital_withdrawal', 'capital_deduction') then l.amount end), 0) as capital_health,
+    coalesce(max(l.created_at), datetime('now')) as last_updated,
+    coalesce(sum(case when l.transaction_type = 'sale' and l.adjustment_kind is not 'correction' then l.quantity * l.unit_cost end), 0) as total_cogs
+  from categories c
+  left join ledger l on l.category_id = cast(c.id as text)
+  group by c.id, c.name, c.initial_capital;
+  `,
+  `
+  create table customers (
+    id text primary key,
+    name text not null,
+    phone text,
+    email text,
+    tax_id text,
+    address text,
+    credit_limit real not null default 0 check (credit_limit >= 0),
+    balance real not null default 0,
+    active integer not null default 1,
+    created_at text not null
+  );
+
+  create table customer_transactions (
+    id text primary key,
+    customer_id text not null references customers (id),
+    kind text not null check (kind in ('charge', 'payment')),
+    amount real not null,
+    outstanding real not null default 0 check (outstanding >= 0),
+    balance_after real not null,
+    sale_id text references sales (id),
+    reference text,
+    method text,
+    limit_override integer not null default 0,
+    performed_by text,
+    note text,
+    created_at text not null
+  );
+
+  create index customer_transactions_customer_idx on customer_transactions (customer_id, created_at);
+
+  alter table sales add column customer_id text references customers (id);
+  alter table sales add column credit_limit_override integer not null default 0;
+  `,
+  `
+  create table cash_shifts (
+    id text primary key,
+    shift_no text not null unique,
+    terminal_id text not null,
+    cashier_name text not null,
+    status text not null default 'open' check (status in ('open', 'closed')),
+    opening_float real not null default 0 check (opening_float >= 0),
+    opened_at text not null,
+    closed_at text,
+    closed_by text,
+    denominations text,
+    expected text,
+    counted text,
+    over_short real,
+    notes text
+  );
+
+  create unique index cash_shifts_open_terminal_idx on cash_shifts (terminal_id) where status = 'open';
+
+  create table drawer_movements (
+    id text primary key,
+    shift_id text not null references cash_shifts (id),
+    kind text not null check (kind in ('pay_in', 'pay_out', 'safe_drop')),
+    amount real not null check (amount > 0),
+    reason text,
+    performed_by text,
+    created_at text not null
+  );
+
+  create index drawer_movements_shift_idx on drawer_movements (shift_id, created_at);
+
+  alter table sales add column shift_id text references cash_shifts (id);
+  create index sales_shift_id_idx on sales (shift_id);
+
+  alter table ledger add column shift_id text references cash_shifts (id);
+  `,
+  `
+  create table sale_returns (
+    id text primary key,
+    return_no text not null unique,
+    sale_id text not null references sales (id),
+    receipt_no text not null,
+    terminal_id text not null,
+    shift_id text references cash_shifts (id),
+    customer_id text references customers (id),
+    refund_method text not null check (refund_method in ('original', 'store_credit')),
+    refunds text not null default '[]',
+    total real not null default 0,
+    reason_code text not null,
+    note text,
+    performed_by text not null,
+    created_at text not null
+  );
+
+  create index sale_returns_sale_id_idx on sale_returns (sale_id);
+  create index sale_returns_shift_id_idx on sale_returns (shift_id);
+
+  create table sale_return_lines (
+    id text primary key,
+    return_id text not null references sale_returns (id) on delete cascade,
+    ledger_entry_id text not null references ledger (id),
+    inventory_item_id text not null,
+    quantity real not null check (quantity > 0),
+    amount real not null,
+    unit_cost real,
+    disposition text not null check (disposition in ('restock', 'write_off'))
+  );
+
+  create index sale_return_lines_return_idx on sale_return_lines (return_id);
+  create index sale_return_lines_entry_idx on sale_return_lines (ledger_entry_id);
+
+  drop view business_summary;
+
+  create table ledger_next (
+    id text primary key,
+    category_id text,
+    inventory_item_id text references inventory (id) on delete set null,
+    quantity real,
+    amount real not null,
+    transaction_type text not null,
+    fund_source text,
+    description text,
+    created_at text not null,
+    sale_id text references sales (id),
+    adjusts_id text references ledger (id),
+    adjustment_kind text check (adjustment_kind is null or adjustment_kind in ('reversal', 'correction', 'return')),
+    reason_code text,
+    adjusted_by text,
+    grn_id text references goods_received_notes (id),
+    unit_cost real,
+    shift_id text references cash_shifts (id),
+    return_id text references sale_returns (id)
+  );
+
+  insert into ledger_next (id, category_id, inventory_item_id, quantity, amount, transaction_type, fund_source, description, created_at, sale_id, adjusts_id, adjustment_kind, reason_code, adjusted_by, grn_id, unit_cost, shift_id)
+  select id, category_id, inventory_item_id, quantity, amount, transaction_type, fund_source, description, created_at, sale_id, adjusts_id, adjustment_kind, reason_code, adjusted_by, grn_id, unit_cost, shift_id
+  from ledger;
+  drop table ledger;
+  alter table ledger_next rename to ledger;
+
+  create index ledger_created_at_idx on ledger (created_at);
+  create index ledger_sale_id_idx on ledger (sale_id);
+  create index ledger_adjusts_id_idx on ledger (adjusts_id);
+  create unique index ledger_single_reversal_idx on ledger (adjusts_id) where adjustment_kind = 'reversal';
+  create index ledger_grn_id_idx on ledger (grn_id);
+  create index ledger_return_id_idx on ledger (return_id);
+
+  create view business_summary as
+  select
+    c.id as category_id,
+    c.name as category_name,
+    coalesce(sum(case when l.transaction_type = 'sale' then l.amount end), 0) as total_revenue,
+    coalesce(sum(case when l.transaction_type = 'sale' then l.amount end), 0)
+      - coalesce(sum(case when l.transaction_type = 'sale' and l.adjustment_kind is not 'correction' then l.quantity * l.unit_cost end), 0)
+      - coalesce(sum(case when l.transaction_type = 'expense' then l.amount end), 0) as total_profit,
+    coalesce(sum(case when l.transaction_type = 'expense' then l.amount end), 0) as total_expenses,
+    c.initial_capital
+      - coalesce(sum(case when lower(l.transaction_type) in ('capital_withdrawal', 'capital_deduction') then l.amount end), 0) as capital_health,
+    coalesce(max(l.created_at), datetime('now')) as last_updated,
+    coalesce(sum(case when l.transaction_type = 'sale' and l.adjustment_kind is not 'correction' then l.quantity * l.unit_cost end), 0) as total_cogs
+  from categories c
+  left join ledger l on l.category_id = cast(c.id as text)
+  group by c.id, c.name, c.initial_capital;
+
+  create table inventory_movements_next (
+    id text primary key,
+    inventory_item_id text not null,
+    movement_type text not null check (movement_type in ('opening', 'sale', 'reversal', 'return', 'adjustment', 'receiving', 'stocktake', 'transfer')),
+    quantity_delta real not null,
+    quantity_before real not null,
+    quantity_after real not null,
+    reason text,
+    performed_by text,
+    source_type text,
+    source_id text,
+    created_at text not null,
+    unit_cost real
+  );
+
+  insert into inventory_movements_next select * from inventory_movements;
+  drop table inventory_movements;
+  alter table inventory_movements_next rename to inventory_movements;
+  create index inventory_movements_item_idx on inventory_movements (inventory_item_id, created_at);
+  create index inventory_movements_source_idx on inventory_movements (source_type, source_id);
+
+  create table customer_transactions_next (
+    id text primary key,
+    customer_id text not null references customers (id),
+    kind text not null check (kind in ('charge', 'payment', 'refund')),
+    amount real not null,
+    outstanding real not null default 0 check (outstanding >= 0),
+    balance_after real not null,
+    sale_id text references sales (id),
+    reference text,
+    method text,
+    limit_override integer not null default 0,
+    performed_by text,
+    note text,
+    created_at text not null
+  );
+
+  insert into customer_transactions_next select * from customer_transactions;
+  drop table customer_transactions;
+  alter table customer_transactions_next rename to customer_transactions;
+  create index customer_transactions_customer_idx on customer_transactions (customer_id, created_at);
+  `,
+  `
+  create table quotes (
+    id text primary key,
+    quote_no text not null unique,
+    kind text not null default 'quotation' check (kind in ('quotation', 'proforma')),
+    status text not null default 'open' check (status in ('open', 'converted', 'cancelled')),
+    customer_id text references customers (id),
+    customer_name text not null,
+    valid_until text not null,
+    subtotal real not null default 0,
+    tax_rate real not null default 0,
+    tax_amount real not null default 0,
+    discount real not null default 0,
+    total real not null default 0,
+    notes text,
+    terminal_id text,
+    created_by text not null,
+    created_at text not null,
+    closed_by text,
+    closed_at text
+  );
+
+  create index quotes_created_at_idx on quotes (created_at);
+
+  create table quote_lines (
+    id text primary key,
+    quote_id text not null references quotes (id) on delete cascade,
+    inventory_item_id text not null,
+    description text not null,
+    quantity real not null check (quantity > 0),
+    list_price real not null default 0,
+    unit_price real not null default 0 check (unit_price >= 0),
+    line_total real not null default 0
+  );
+
+  create index quote_lines_quote_idx on quote_lines (quote_id);
+  `,
+  `
+  create table branding_settings (
+    id integer primary key check (id = 1),
+    business_name text,
+    logo text,
+    logo_raster text,
+    address text,
+    phone text,
+    email text,
+    tin text,
+    vrn text,
+    receipt_footer text,
+    accent_color text,
+    pdf_scheme text check (pdf_scheme in ('dark', 'light')),
+    updated_at text,
+    updated_by text
+  );
+
+  insert into branding_settings (id) values (1);
+  `,
+  `
+  create table vehicle_fitments (
+    id text primary key,
+    inventory_item_id text not null references inventory (id) on delete cascade,
+    make text not null,
+    model text not null,
+    year_from integer,
+    year_to integer,
+    engine text,
+    notes text,
+    created_at text not null,
+    check (year_from is null or year_to is null or year_from <= year_to)
+  );
+
+  create index vehicle_fitments_item_idx on vehicle_fitments (inventory_item_id);
+  create index vehicle_fitments_vehicle_idx on vehicle_fitments (make collate nocase, model collate nocase);
+
+  create table part_cross_references (
+    id text primary key,
+    inventory_item_id text not null references inventory (id) on delete cascade,
+    part_number text not null,
+    kind text not null check (kind in ('oem', 'aftermarket')),
+    brand text,
+    created_at text not null
+  );
+
+  create index part_cross_references_item_idx on part_cross_references (inventory_item_id);
+  `,
+  `
+  alter table inventory add column base_unit text;
+  alter table inventory add column units text;
+  `,
+  `
+  alter table inventory add column serialised integer not null default 0;
+  alter table inventory add column warranty_months integer;
+
+  -- No foreign key to inventory: the sale and warranty history outlives the item.
+  create table serial_numbers (
+    id text primary key,
+    inventory_item_id text not null,
+    serial_no text not null,
+    status text not null check (status in ('in_stock', 'sold')),
+    grn_id text references goods_received_notes (id),
+    received_at text,
+    sale_id text references sales (id),
+    receipt_no text,
+    customer_name text,
+    sold_at text,
+    warranty_expires_at text,
+    unique (inventory_item_id, serial_no)
+  );
+
+  create index serial_numbers_serial_idx on serial_numbers (serial_no);
+  create index serial_numbers_sale_idx on serial_numbers (sale_id);
+
+  create table warranty_claims (
+    id text primary key,
+    claim_no text not null unique,
+    serial_id text not null references serial_numbers (id),
+    inventory_item_id text not null,
+    serial_no text not null,
+    sale_id text references sales (id),
+    customer_name text,
+    fault text not null,
+    status text not null check (status in ('open', 'with_supplier', 'resolved')),
+    supplier_id text references suppliers (id),
+    rma_no text,
+    outcome text check (outcome is null or outcome in ('repaired', 'replaced', 'credited', 'rejected')),
+    outcome_note text,
+    reported_by text not null,
+    created_at text not null,
+    updated_at text not null,
+    resolved_at text
+  );
+
+  create index warranty_claims_serial_idx on warranty_claims (serial_id);
+  `,
+  `
+  alter table inventory add column batch_tracked integer not null default 0;
+  alter table sales add column expiry_override integer not null default 0;
+
+  create table stock_batches (
+    id text primary key,
+    inventory_item_id text not null references inventory (id) on delete cascade,
+    batch_no text not null,
+    expiry_date text not null,
+    quantity_received real not null,
+    quantity_remaining real not null check (quantity_remaining >= 0),
+    status text not null check (status in ('available', 'quarantined')),
+    grn_id text references goods_received_notes (id),
+    received_at text not null,
+    quarantined_at text,
+    quarantined_by text,
+    quarantine_reason text,
+    write_off_amount real,
+    unique (inventory_item_id, batch_no)
+  );
+
+  create index stock_batches_expiry_idx on stock_batches (expiry_date);
+  `,
+  `
+  create table stock_locations (
+    id text primary key,
+    code text not null unique,
+    name text not null,
+    kind text not null check (kind in ('shop', 'warehouse')),
+    is_default integer not null default 0,
+    active integer not null default 1,
+    created_at text not null
+  );
+
+  create unique index stock_locations_default_idx on stock_locations (is_default) where is_default = 1;
+
+  insert into stock_locations (id, code, name, kind, is_default, active, created_at)
+  values ('main', 'MAIN', 'Main Shop', 'shop', 1, 1, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+
+  create table location_stock (
+    location_id text not null references stock_locations (id),
+    inventory_item_id text not null references inventory (id) on delete cascade,
+    quantity real not null default 0,
+    primary key (location_id, inventory_item_id)
+  );
+
+  insert into location_stock (location_id, inventory_item_id, quantity)
+  select 'main', id, quantity from inventory where coalesce(quantity, 0) <> 0;
+
+  create table terminal_locations (
+    terminal_id text primary key,
+    location_id text not null references stock_locations (id),
+    updated_at text not null
+  );
+
+  alter table inventory_movements add column location_id text;
+  alter table sales add column location_id text;
+  alter table goods_received_notes add column location_id text;
+  alter table sale_returns add column location_id text;
+
+  create table stock_transfers (
+    id text primary key,
+    transfer_no text not null unique,
+    from_location_id text not null references stock_locations (id),
+    to_location_id text not null references stock_locations (id),
+    status text not null check (status in ('in_transit', 'received')),
+    notes text,
+    dispatched_by text not null,
+    dispatched_at text not null,
+    received_by text,
+    received_at text
+  );
+
+  create table stock_transfer_lines (
+    id text primary key,
+    transfer_id text not null references stock_transfers (id),
+    inventory_item_id text not null,
+    quantity real not null,
+    unit_cost real not null
+  );
+
+  create index stock_transfer_lines_transfer_idx on stock_transfer_lines (transfer_id);
+  `,
+  `
+  alter table inventory add column bin text;
+
+  create table stocktakes (
+    id text primary key,
+    stocktake_no text not null unique,
+    location_id text not null references stock_locations (id),
+    status text not null check (status in ('counting', 'approved', 'cancelled')),
+    category_id text,
+    bin text,
+    notes text,
+    started_by text not null,
+    started_at text not null,
+    closed_by text,
+    closed_at text,
+    variance_value real
+  );
+
+  create table stocktake_lines (
+    id text primary key,
+    stocktake_id text not null references stocktakes (id),
+    inventory_item_id text not null,
+    bin text,
+    expected_quantity real not null,
+    counted_quantity real,
+    unit_cost real not null,
+    counted_by text,
+    counted_at text
+  );
+
+  create index stocktake_lines_stocktake_idx on stocktake_lines (stocktake_id);
+  `,
+  `
+  create table stock_batches_next (
+    id text primary key,
+    inventory_item_id text not null references inventory (id) on delete cascade,
+    batch_no text not null,
+    expiry_date text not null,
+    quantity_received real not null,
+    quantity_remaining real not null check (quantity_remaining >= 0),
+    status text not null check (status in ('available', 'quarantined')),
+    grn_id text references goods_received_notes (id),
+    received_at text not null,
+    quarantined_at text,
+    quarantined_by text,
+    quarantine_reason text,
+    write_off_amount real,
+    location_id text not null references stock_locations (id),
+    unique (inventory_item_id, batch_no, location_id)
+  );
+
+  insert into stock_batches_next
+  select b.*, coalesce(
+    (select g.location_id from goods_received_notes g where g.id = b.grn_id),
+    (select id from stock_locations where is_default = 1)
+  )
+  from stock_batches b;
+  drop table stock_batches;
+  alter table stock_batches_next rename to stock_batches;
+  create index stock_batches_expiry_idx on stock_batches (expiry_date);
+  `,
+  `
+  create table sale_batches (
+    id text primary key,
+    sale_id text not null references sales (id),
+    batch_id text not null references stock_batches (id) on delete cascade,
+    inventory_item_id text not null,
+    quantity real not null,
+    quantity_restocked real not null default 0
+  );
+
+  create index sale_batches_sale_idx on sale_batches (sale_id, inventory_item_id);
+
+  create table stock_transfer_batches (
+    id text primary key,
+    transfer_id text not null references stock_transfers (id),
+    batch_id text not null references stock_batches (id) on delete cascade,
+    inventory_item_id text not null,
+    quantity real not null
+  );
+
+  create index stock_transfer_batches_transfer_idx on stock_transfer_batches (transfer_id);
+  `,
+  `
+  update ledger set category_id = substr(category_id, 1, length(category_id) - 2)
+  where category_id glob '[0-9]*.0';
+  `
+];
+
+const INVENTORY_COLUMNS = ["id", "name", "code", "category", "cost_price", "selling_price", "quantity", "min_stock_level", "created_at", "active", "category_id", "base_unit", "units", "serialised", "warranty_months", "batch_tracked", "bin"];
+const LEDGER_COLUMNS = ["id", "category_id", "inventory_item_id", "quantity", "amount", "unit_cost", "transaction_type", "fund_source", "description", "created_at", "sale_id", "adjusts_id", "adjustment_kind", "reason_code", "adjusted_by", "grn_id", "shift_id", "return_id"];
+const SUPPLIER_COLUMNS = ["id", "name", "contact_name", "phone", "email", "tax_id", "address", "active", "created_at"];
+const PURCHASE_ORDER_COLUMNS = ["id", "po_number", "supplier_id", "status", "expected_date", "notes", "created_by", "created_at"];
+const GRN_COLUMNS = ["id", "grn_no", "supplier_id", "purchase_order_id", "supplier_invoice_no", "received_by", "received_at", "fund_source", "subtotal", "tax_rate", "tax_amount", "total", "costing_method", "notes", "location_id"];
+const SALE_COLUMNS = ["id", "receipt_no", "terminal_id", "cashier_name", "customer_name", "payment_method", "payments", "subtotal", "tax_rate", "tax_amount", "discount", "total", "amount_paid", "change_amount", "created_at", "customer_id", "credit_limit_override", "expiry_override", "shift_id", "location_id"];
+const SHIFT_COLUMNS = ["id", "shift_no", "terminal_id", "cashier_name", "status", "opening_float", "opened_at", "closed_at", "closed_by", "denominations", "expected", "counted", "over_short", "notes"];
+const DRAWER_MOVEMENT_COLUMNS = ["id", "shift_id", "kind", "amount", "reason", "performed_by", "created_at"];
+const RETURN_COLUMNS = ["id", "return_no", "sale_id", "receipt_no", "terminal_id", "shift_id", "customer_id", "refund_method", "refunds", "total", "reason_code", "note", "performed_by", "created_at", "location_id"];
+const FITMENT_COLUMNS = ["id", "inventory_item_id", "make", "model", "year_from", "year_to", "engine", "notes", "created_at"];
+const CROSS_REFERENCE_COLUMNS = ["id", "inventory_item_id", "part_number", "kind", "brand", "created_at"];
+const BRANDING_COLUMNS = ["business_name", "logo", "logo_raster", "address", "phone", "email", "tin", "vrn", "receipt_footer", "accent_color", "pdf_scheme", "updated_at", "updated_by"];
+const RETURN_LINE_COLUMNS = ["id", "return_id", "ledger_entry_id", "inventory_item_id", "quantity", "amount", "unit_cost", "disposition"];
+const QUOTE_COLUMNS = ["id", "quote_no", "kind", "status", "customer_id", "customer_name", "valid_until", "subtotal", "tax_rate", "tax_amount", "discount", "total", "notes", "terminal_id", "created_by", "created_at", "closed_by", "closed_at"];
+const QUOTE_LINE_COLUMNS = ["id", "quote_id", "inventory_item_id", "description", "quantity", "list_price", "unit_price", "line_total"];
+const SERIAL_COLUMNS = ["id", "inventory_item_id", "serial_no", "status", "grn_id", "received_at", "sale_id", "receipt_no", "customer_name", "sold_at", "warranty_expires_at"];
+const BATCH_COLUMNS = ["id", "inventory_item_id", "batch_no", "expiry_date", "quantity_received", "quantity_remaining", "status", "grn_id", "received_at", "quarantined_at", "quarantined_by", "quarantine_reason", "write_off_amount", "location_id"];
+const WARRANTY_CLAIM_COLUMNS = ["id", "claim_no", "serial_id", "inventory_item_id", "serial_no", "sale_id", "customer_name", "fault", "status", "supplier_id", "rma_no", "outcome", "outcome_note", "reported_by", "created_at", "updated_at", "resolved_at"];
+const LOCATION_COLUMNS = ["id", "code", "name", "kind", "is_default", "active", "created_at"];
+const TRANSFER_COLUMNS = ["id", "transfer_no", "from_location_id", "to_location_id", "status", "notes", "dispatched_by", "dispatched_at", "received_by", "received_at"];
+const STOCKTAKE_COLUMNS = ["id", "stocktake_no", "location_id", "status", "category_id", "bin", "notes", "started_by", "started_at", "closed_by", "closed_at", "variance_value"];
+const CUSTOMER_COLUMNS = ["id", "name", "phone", "email", "tax_id", "address", "credit_limit", "balance", "active", "created_at"];
+const CUSTOMER_TRANSACTION_COLUMNS = ["id", "customer_id", "kind", "amount", "outstanding", "balance_after", "sale_id", "reference", "method", "limit_override", "performed_by", "note", "created_at"];
+
+// Only known columns reach the SQL text; values are always bound parameters.
+function pick(row: Record<string, any>, columns: string[]) {
+  const out: Record<string, any> = {};
+  for (const column of columns) {
+    if (row[column] !== undefined) {
+      out[column] = typeof row[column] === "boolean" ? (row[column] ? 1 : 0) : row[column];
+    }
+  }
+  return out;
+}
+
+// category_id is TEXT and the summary views join on cast(c.id as text); a number bound as is
+// would be stored as "1.0" and drop out of them.
+function ledgerRow(row: Record<string, any>) {
+  const out = pick(row, LEDGER_COLUMNS);
+  if (out.category_id !== undefined && out.category_id !== null) out.category_id = String(out.category_id);
+  return out;
+}
+
+function insertSql(table: string, row: Record<string, any>) {
+  const columns = Object.keys(row);
+  return `insert into ${table} (${columns.join(", ")}) values (${columns.map(c => "@" + c).join(", ")})`;
+}
+
+const parseJson = (val: string | null) => (val ? JSON.parse(val) : null);
+const toInventoryItem = (row: any): InventoryItem => ({ ...row, active: Boolean(row.active), units: parseJson(row.units), serialised: Boolean(row.serialised), batch_tracked: Boolean(row.batch_tracked) });
+// units is stored as JSON text; leaves it out of a patch that does not touch it.
+const inventoryRow = (item: Partial<InventoryItem>) =>
+  (item.units === undefined ? item : { ...item, units: item.units ? JSON.stringify(item.units) : null });
+const toSale = (row: any): Sale => ({
+  ...row,
+  payments: JSON.parse(row.payments || "[]"),
+  credit_limit_override: Boolean(row.credit_limit_override),
+  expiry_override: Boolean(row.expiry_override)
+});
+const toLocation = (row: any): StockLocation => ({ ...row, is_default: Boolean(row.is_default), active: Boolean(row.active) });
+const toSupplier = (row: any): Supplier => ({ ...row, active: Boolean(row.active) });
+const toCustomer = (row: any): Customer => ({ ...row, active: Boolean(row.active) });
+const toShift = (row: any): CashShift => ({
+  ...row,
+  denominations: parseJson(row.denominations),
+  expected: parseJson(row.expected),
+  counted: parseJson(row.counted)
+});
+const toCustomerTransaction = (row: any): CustomerTransaction => ({ ...row, limit_override: Boolean(row.limit_override) });
+const toSaleReturn = (row: any): SaleReturn => ({ ...row, refunds: JSON.parse(row.refunds || "[]") });
+
+// Next number in a PO-000001 style sequence. Callers hold the write transaction.
+const nextDocumentNo = (db: any, table: string, column: string, prefix: string) => {
+  const { last } = db.prepare(`select coalesce(max(cast(substr(${column}, ${prefix.length + 2}) as integer)), 0) as last from ${table}`).get();
+  return `${prefix}-${String(last + 1).padStart(6, "0")}`;
+};
+
+// Foreign keys stay off while migrating so a table can be rebuilt (SQLite cannot alter a check
+// constraint) without dropping it cascading to its children; each step is checked before commit.
+function migrate(db: any) {
+  const version: number = db.pragma("user_version", { simple: true });
+  db.pragma("foreign_keys = OFF");
+  MIGRATIONS.slice(version).forEach((sql, index) => {
+    db.transaction(() => {
+      db.exec(sql);
+      if (db.pragma("foreign_key_check").length > 0) {
+        throw new Error(`SQLite migration ${version + index + 1} left foreign key violations.`);
+      }
+      db.pragma(`user_version = ${version + index + 1}`);
+    })();
+  });
+  db.pragma("foreign_keys = ON");
+}
+
+export function createSqliteStore(filename: string): DataStore {
+  fs.mkdirSync(path.dirname(filename), { recursive: true });
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+  migrate(db);
+
+  const netAmount = (entry: LedgerEntry): number =>
+    entry.amount + (db.prepare(
+      "select coalesce(sum(amount), 0) as total from ledger where adjusts_id = ? and adjustment_kind = 'correction'"
+    ).get(entry.id).total as number);
+
+  const isReversed = (id: string) =>
+    Boolean(db.prepare("select 1 from ledger where adjusts_id = ? and adjustment_kind = 'reversal'").get(id));
+
+  const isReturned = (id: string) =>
+    Boolean(db.prepare("select 1 from ledger where adjusts_id = ? and adjustment_kind = 'return'").get(id));
+
+  const returnedQuantity = (entryId: string): number =>
+    db.prepare("select coalesce(sum(quantity), 0) as total from sale_return_lines where ledger_entry_id = ?").get(entryId).total;
+
+  const costingMethod = (): CostingMethod =>
+    db.prepare("select costing_method from stock_settings").get()?.costing_method || "weighted_average";
+
+  const branding = (): BrandingProfile => {
+    const row = db.prepare("select * from branding_settings").get();
+    return withBrandingDefaults({ ...pick(row, BRANDING_COLUMNS), logo_raster: parseJson(row.logo_raster) });
+  };
+
+  const openLayers = (itemId: string) =>
+    db.prepare("select * from inventory_cost_layers where inventory_item_id = ? and quantity_remaining > 0 order by created_at, rowid").all(itemId);
+
+  const defaultLocationId = (): string => db.prepare("select id from stock_locations where is_default = 1").get().id;
+
+  const locationQuantity = (locationId: string, itemId: string): number =>
+    db.prepare("select quantity from location_stock where location_id = ? and inventory_item_id = ?").get(locationId, itemId)?.quantity || 0;
+
+  // The only writer of inventory.quantity, mirroring record_stock_movement in Postgres: applies the
+  // delta, keeps the item's cost layers and cost_price in step under the costing method, and
+  // journals the movement with its unit cost. `unitCost` is what an inflow cost (defaults to
+  // cost_price). The delta also lands on the item's stock at `locationId` (the default location
+  // when not given). Callers run it inside their own transaction. Returns null when the item is missing.
+  const recordStockMovement = (
+    itemId: string,
+    delta: number,
+    movementType: StockMovementType,
+    reason: string | null,
+    user: string | null,
+    sourceType: string,
+    sourceId: string,
+    unitCost?: number | null,
+    locationId?: string | null
+  ): InventoryMovement | null => {
+    const item = db.prepare("select quantity, cost_price from inventory where id = ?").get(itemId);
+    if (!item) return null;
+
+    const before = item.quantity || 0;
+    const method = costingMethod();
+    let cost: number = item.cost_price || 0;
+    let movementCost: number | null = null;
+
+    if (delta > 0) {
+      movementCost = Math.round((unitCost ?? cost) * 10000) / 10000;
+      db.prepare(
+        `insert into inventory_cost_layers (id, inventory_item_id, unit_cost, quantity_received, quantity_remaining, source_type, source_id, created_at)
+         values (?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(randomUUID(), itemId, movementCost, delta, delta, sourceType, sourceId, new Date().toISOString());
+      if (method === "weighted_average") {
+        cost = weightedAverageCost(before, cost, delta, movementCost);
+      } else if (method === "last_cost" && movementType === "receiving") {
+        cost = movementCost;
+      }
+    } else if (delta < 0) {
+      const consumed = consumeCostLayers(openLayers(itemId), -delta, cost);
+      consumed.takes.forEach(take =>
+        db.prepare("update inventory_cost_layers set quantity_remaining = quantity_remaining - ? where id = ?").run(take.quantity, take.id)
+      );
+      movementCost = method === "fifo" ? consumed.unitCost : cost;
+    }
+
+    if (method === "fifo") {
+      cost = layeredUnitCost(openLayers(itemId)) ?? cost;
+    }
+    db.prepare("update inventory set quantity = ?, cost_price = ? where id = ?").run(before + delta, cost, itemId);
+
+    const location = locationId || defaultLocationId();
+    db.prepare(
+      `insert into location_stock (location_id, inventory_item_id, quantity) values (?, ?, ?)
+       on conflict (location_id, inventory_item_id) do update set quantity = quantity + excluded.quantity`
+    ).run(location, itemId, delta);
+
+    const movement: InventoryMovement = {
+      id: randomUUID(),
+      inventory_item_id: itemId,
+      movement_type: movementType,
+      quantity_delta: delta,
+      quantity_before: before,
+      quantity_after: before + delta,
+      reason: reason || null,
+      performed_by: user || null,
+      source_type: sourceType,
+      source_id: sourceId,
+      unit_cost: movementCost,
+      location_id: location,
+      created_at: new Date().toISOString()
+    };
+    db.prepare(insertSql("inventory_movements", movement)).run(movement);
+    return movement;
+  };
+
+  const adjustStock = db.transaction((args: StockAdjustmentArgs): StockAdjustmentOutcome => {
+    if (!db.prepare("select 1 from inventory where id = ?").get(args.itemId)) return { status: "not_found" };
+    const location = args.locationId || defaultLocationId();
+    const before = locationQuantity(location, args.itemId);
+    if (before === args.quantity) return { status: "unchanged" };
+
+    const movement = recordStockMovement(args.itemId, args.quantity - before, args.movementType, args.reason, args.user, "inventory", args.itemId, undefined, location);
+    return { status: "adjusted", movement: movement as InventoryMovement };
+  });
+
+  const createInventoryItem = db.transaction((item: Partial<InventoryItem>, user: string | null): InventoryItem => {
+    const row = pick({ ...inventoryRow(item), id: item.id || randomUUID(), quantity: 0 }, INVENTORY_COLUMNS);
+    db.prepare(insertSql("inventory", row)).run(row);
+    adjustStock({ itemId: row.id, quantity: Number(item.quantity) || 0, movementType: "opening", reason: "Opening stock", user });
+    return toInventoryItem(db.prepare("select * from inventory where id = ?").get(row.id));
+  });
+
+  const purchaseOrderWithLines = (order: any): PurchaseOrder => ({
+    ...order,
+    lines: db.prepare("select * from purchase_order_lines where purchase_order_id = ? order by rowid").all(order.id)
+  });
+
+  const grnWithLines = (grn: any): GoodsReceivedNote => ({
+    ...grn,
+    lines: db.prepare("select * from goods_received_lines where grn_id = ? order by rowid").all(grn.id)
+  });
+
+  const createPurchaseOrder = db.transaction((order: Partial<PurchaseOrder>, lines: Record<string, any>[]): PurchaseOrder => {
+    const row = pick({
+      ...order,
+      id: randomUUID(),
+      po_number: nextDocumentNo(db, "purchase_orders", "po_number", "PO"),
+      status: order.status || "draft",
+      created_at: new Date().toISOString()
+    }, PURCHASE_ORDER_COLUMNS);
+    db.prepare(insertSql("purchase_orders", row)).run(row);
+
+    const insertLine = db.prepare(
+      "insert into purchase_order_lines (id, purchase_order_id, inventory_item_id, quantity_ordered, unit_cost) values (?, ?, ?, ?, ?)"
+    );
+    lines.forEach(line => insertLine.run(randomUUID(), row.id, line.inventory_item_id, line.quantity_ordered, line.unit_cost || 0));
+    return purchaseOrderWithLines(db.prepare("select * from purchase_orders where id = ?").get(row.id));
+  });
+
+  const serialRow = (itemId: string, serialNo: string) =>
+    db.prepare("select * from serial_numbers where inventory_item_id = ? and serial_no = ?").get(itemId, serialNo);
+
+  // Updates the unit's row, or registers it.
+  const writeSerial = (itemId: string, serialNo: string, fields: Record<string, any>) => {
+    const existing = serialRow(itemId, serialNo);
+    if (existing) {
+      const row = pick(fields, SERIAL_COLUMNS);
+      db.prepare(`update serial_numbers set ${Object.keys(row).map(c => `${c} = @${c}`).join(", ")} where id = @id`).run({ ...row, id: existing.id });
+    } else {
+      const row = pick({ ...fields, id: randomUUID(), inventory_item_id: itemId, serial_no: serialNo }, SERIAL_COLUMNS);
+      db.prepare(insertSql("serial_numbers", row)).run(row);
+    }
+  };
+
+  // A unit back from the customer is stock again, with no sale or warranty against it.
+  const restockSerial = (serialId: string) =>
+    db.prepare(
+      `update serial_numbers
+       set status = 'in_stock', sale_id = null, receipt_no = null, customer_name = null, sold_at = null, warranty_expires_at = null
+       where id = ?`
+    ).run(serialId);
+
+  // A lot is held at one location; the same batch number elsewhere is another row.
+  const batchRow = (itemId: string, batchNo: string, locationId: string) =>
+    db.prepare("select * from stock_batches where inventory_item_id = ? and batch_no = ? and location_id = ?").get(itemId, batchNo, locationId);
+
+  const availableBatches = (itemId: string, locationId: string): StockBatch[] =>
+    db.prepare(
+      "select * from stock_batches where inventory_item_id = ? and location_id = ? and status = 'available' and quantity_remaining > 0"
+    ).all(itemId, locationId);
+
+  // Units of `lot` coming into stock at `locationId` go to the same batch there: the lot itself when
+  // it is held there, else a lot opened for it. A batch quarantined there takes none of them; they
+  // count as stock that pre-dates batch tracking.
+  const restockLot = (lot: StockBatch, locationId: string, quantity: number) => {
+    const here: StockBatch | undefined = batchRow(lot.inventory_item_id, lot.batch_no, locationId);
+    if (here?.status === "quarantined") return;
+    if (here) {
+      db.prepare("update stock_batches set quantity_remaining = quantity_remaining + ? where id = ?").run(quantity, here.id);
+      return;
+    }
+    const row = pick({
+      id: randomUUID(),
+      inventory_item_id: lot.inventory_item_id,
+      batch_no: lot.batch_no,
+      expiry_date: lot.expiry_date,
+      quantity_received: quantity,
+      quantity_remaining: quantity,
+      status: "available",
+      grn_id: lot.grn_id,
+      received_at: new Date().toISOString(),
+      location_id: locationId
+    }, BATCH_COLUMNS);
+    db.prepare(insertSql("stock_batches", row)).run(row);
+  };
+
+  // Up to `quantity` of the item the sale took from lots goes back to them at `locationId`, the
+  // last lot taken first. Units beyond what it took from lots pre-date batch tracking.
+  const restockSaleBatches = (saleId: string, itemId: string, quantity: number, locationId: string) => {
+    let remaining = quantity;
+    const takes = db.prepare(
+      `select t.* from sale_batches t join stock_batches b on b.id = t.batch_id
+       where t.sale_id = ? and t.inventory_item_id = ? and t.quantity_restocked < t.quantity
+       order by b.expiry_date desc, b.received_at desc`
+    ).all(saleId, itemId);
+    for (const take of takes) {
+      if (remaining <= 0) break;
+      const back = Math.min(remaining, take.quantity - take.quantity_restocked);
+      restockLot(db.prepare("select * from stock_batches where id = ?").get(take.batch_id), locationId, back);
+      db.prepare("update sale_batches set quantity_restocked = quantity_restocked + ? where id = ?").run(back, take.id);
+      remaining -= back;
+    }
+  };
+
+  // Mirrors receive_goods in Postgres: checks everything first, then writes.
+  const receiveGoods = db.transaction(({ grn, lines, entries }: ReceiveGoodsArgs): ReceiveGoodsOutcome => {
+    let order: PurchaseOrder | undefined;
+    if (grn.purchase_order_id) {
+      order = db.prepare("select * from purchase_orders where id = ?").get(grn.purchase_order_id);
+      if (!order) return { status: "invalid", message: "Purchase order not found." };
+      if (order.supplier_id !== grn.supplier_id) return { status: "invalid", message: "Purchase order belongs to a different supplier." };
+      if (order.status !== "ordered" && order.status !== "partially_received") {
+        return { status: "invalid", message: `Purchase order ${order.po_number} is ${order.status} and cannot be received against.` };
+      }
+    }
+    const location = grn.location_id || defaultLocationId();
+    for (const line of lines) {
+      if (!db.prepare("select 1 from inventory where id = ?").get(line.inventory_item_id)) {
+        return { status: "invalid", message: `Inventory item ${line.inventory_item_id} not found.` };
+      }
+      if (line.purchase_order_line_id && !(order && db.prepare(
+        "select 1 from purchase_order_lines where id = ? and purchase_order_id = ?"
+      ).get(line.purchase_order_line_id, order.id))) {
+        return { status: "invalid", message: `Purchase order line ${line.purchase_order_line_id} is not on the purchase order.` };
+      }
+      const inStock = (line.serials || []).find(serial => serialRow(line.inventory_item_id, serial)?.status === "in_stock");
+      if (inStock) return { status: "invalid", message: `Serial ${inStock} is already in stock.` };
+      const batch = line.batch_no ? batchRow(line.inventory_item_id, line.batch_no, location) : null;
+      if (batch && batch.status === "quarantined") return { status: "invalid", message: `Batch ${batch.batch_no} is quarantined.` };
+      // The expiry is the lot's wherever it is held.
+      const recorded = line.batch_no ? db.prepare(
+        "select batch_no, expiry_date from stock_batches where inventory_item_id = ? and batch_no = ? and expiry_date <> ?"
+      ).get(line.inventory_item_id, line.batch_no, line.expiry_date) : null;
+      if (recorded) {
+        return { status: "invalid", message: `Batch ${recorded.batch_no} is recorded with expiry ${recorded.expiry_date}.` };
+      }
+    }
+
+    const header = pick({
+      ...grn,
+      id: randomUUID(),
+      grn_no: nextDocumentNo(db, "goods_received_notes", "grn_no", "GRN"),
+      costing_method: costingMethod()
+    }, GRN_COLUMNS);
+    db.prepare(insertSql("goods_received_notes", header)).run(header);
+
+    const movementReason = header.grn_no + (grn.supplier_invoice_no ? ` / invoice ${grn.supplier_invoice_no}` : "");
+    lines.forEach(line => {
+      const costOf = () => db.prepare("select cost_price from inventory where id = ?").get(line.inventory_item_id).cost_price || 0;
+      const costBefore = costOf();
+      recordStockMovement(line.inventory_item_id, line.quantity, "receiving", movementReason, grn.received_by, "grn", header.id, line.unit_cost, location);
+      const costAfter = costOf();
+
+      if (line.purchase_order_line_id) {
+        db.prepare("update purchase_order_lines set quantity_received = quantity_received + ? where id = ?").run(line.quantity, line.purchase_order_line_id);
+      }
+      db.prepare(
+        `insert into goods_received_lines (id, grn_id, inventory_item_id, purchase_order_line_id, quantity, unit_cost, line_total, cost_before, cost_after)
+         values (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(randomUUID(), header.id, line.inventory_item_id, line.purchase_order_line_id || null, line.quantity, line.unit_cost, line.quantity * line.unit_cost, costBefore, costAfter);
+
+      // A unit that went out before (a supplier replacement) comes back under its old row.
+      (line.serials || []).forEach(serial => writeSerial(line.inventory_item_id, serial, {
+        status: "in_stock", grn_id: header.id, received_at: grn.received_at,
+        sale_id: null, receipt_no: null, customer_name: null, sold_at: null, warranty_expires_at: null
+      }));
+
+      // A second delivery of a lot to the same location adds to it.
+      if (line.batch_no) {
+        const batch = batchRow(line.inventory_item_id, line.batch_no, location);
+        if (batch) {
+          db.prepare(
+            "update stock_batches set quantity_received = quantity_received + ?, quantity_remaining = quantity_remaining + ? where id = ?"
+          ).run(line.quantity, line.quantity, batch.id);
+        } else {
+          const row = pick({
+            id: randomUUID(),
+            inventory_item_id: line.inventory_item_id,
+            batch_no: line.batch_no,
+            expiry_date: line.expiry_date,
+            quantity_received: line.quantity,
+            quantity_remaining: line.quantity,
+            status: "available",
+            grn_id: header.id,
+            received_at: grn.received_at,
+            location_id: location
+          }, BATCH_COLUMNS);
+          db.prepare(insertSql("stock_batches", row)).run(row);
+        }
+      }
+    });
+
+    if (order) {
+      const open = db.prepare(
+        "select 1 from purchase_order_lines where purchase_order_id = ? and quantity_received < quantity_ordered"
+      ).get(order.id);
+      db.prepare("update purchase_orders set status = ? where id = ?").run(open ? "partially_received" : "received", order.id);
+    }
+
+    entries.forEach(entry => {
+      const row = ledgerRow({
+        ...entry,
+        id: randomUUID(),
+        transaction_type: "purchase",
+        fund_source: grn.fund_source,
+        description: `Purchase ${header.grn_no}` + (entry.description ? ` - ${entry.description}` : ""),
+        created_at: grn.received_at,
+        grn_id: header.id
+      });
+      db.prepare(insertSql("ledger", row)).run(row);
+    });
+
+    return { status: "received", grn: grnWithLines(db.prepare("select * from goods_received_notes where id = ?").get(header.id)) };
+  });
+
+  const postSale = db.transaction((header: Sale, entries: Record<string, unknown>[], stock: StockLine[]): PostSaleOutcome => {
+    if (db.prepare("select 1 from sales where id = ?").get(header.id)) {
+      return { status: "duplicate" };
+    }
+
+    const requested = new Map<string, number>();
+    stock.forEach(line => requested.set(String(line.inventory_item_id), (requested.get(String(line.inventory_item_id)) || 0) + line.quantity));
+
+    const location = header.location_id || defaultLocationId();
+    const conflicts: StockConflict[] = [];
+    for (const [id, quantity] of [...requested.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      const item = db.prepare("select name from inventory where id = ?").get(id);
+      const available = item ? locationQuantity(location, id) : 0;
+      if (!item || available < quantity) {
+        conflicts.push({ inventory_item_id: id, name: item?.name, requested: quantity, available });
+      }
+    }
+    if (conflicts.length > 0) {
+      return { status: "conflict", conflicts };
+    }
+
+    for (const line of stock) {
+      const sold = (line.serials || []).find(serial => serialRow(line.inventory_item_id, serial)?.status === "sold");
+      if (sold) return { status: "invalid", message: `Serial ${sold} has already been sold.` };
+    }
+    // A serial never registered can only be a unit from before serial tracking, of which the item
+    // holds as many as it has on hand beyond its registered in-stock units.
+    for (const id of requested.keys()) {
+      const unregistered = stock
+        .filter(line => String(line.inventory_item_id) === id)
+        .flatMap(line => line.serials || [])
+        .filter(serial => !serialRow(id, serial));
+      if (unregistered.length === 0) continue;
+      const onHand = db.prepare("select quantity from inventory where id = ?").get(id).quantity || 0;
+      const registered = db.prepare("select count(*) as count from serial_numbers where inventory_item_id = ? and status = 'in_stock'").get(id).count;
+      const untracked = Math.max(0, onHand - registered);
+      if (unregistered.length > untracked) {
+        return { status: "invalid", message: `Serial ${unregistered[untracked]} is not a unit in stock.` };
+      }
+    }
+
+    const saleDay = header.created_at.slice(0, 10);
+    const batchTakes = [...requested.entries()].flatMap(([id, quantity]) => fefoAllocation(availableBatches(id, location), id, quantity));
+    const expired = batchTakes.find(take => take.batch.expiry_date < saleDay);
+    if (expired && !header.expiry_override) {
+      const { name } = db.prepare("select name from inventory where id = ?").get(expired.batch.inventory_item_id);
+      return { status: "invalid", message: `Batch ${expired.batch.batch_no} of ${name} expired on ${expired.batch.expiry_date}; a manager must approve selling it.` };
+    }
+
+    const saleRow = pick({ ...header, location_id: location, payments: JSON.stringify(header.payments || []) }, SALE_COLUMNS);
+    db.prepare(insertSql("sales", saleRow)).run(saleRow);
+
+    entries.forEach(entry => {
+      const row = ledgerRow({ ...entry, id: randomUUID(), sale_id: header.id });
+      db.prepare(insertSql("ledger", row)).run(row);
+    });
+
+    // Each sale row keeps the unit cost its stock went out at.
+    [...requested.entries()].sort(([a], [b]) => a.localeCompare(b)).forEach(([id, quantity]) => {
+      const movement = recordStockMovement(id, -quantity, "sale", `Receipt ${header.receipt_no || header.id}`, header.cashier_name || null, "sale", header.id, undefined, location);
+      db.prepare("update ledger set unit_cost = ? where sale_id = ? and inventory_item_id = ?").run(movement?.unit_cost ?? null, header.id, id);
+    });
+
+    // The lots each item came from, so a return or reversal can put the units back.
+    batchTakes.forEach(take => {
+      db.prepare("update stock_batches set quantity_remaining = quantity_remaining - ? where id = ?").run(take.quantity, take.batch.id);
+      db.prepare(
+        "insert into sale_batches (id, sale_id, batch_id, inventory_item_id, quantity) values (?, ?, ?, ?, ?)"
+      ).run(randomUUID(), header.id, take.batch.id, take.batch.inventory_item_id, take.quantity);
+    });
+
+    // Units from stock that pre-dates serial tracking are registered as they are sold.
+    stock.forEach(line => {
+      const months = db.prepare("select warranty_months from inventory where id = ?").get(line.inventory_item_id)?.warranty_months;
+      (line.serials || []).forEach(serial => writeSerial(line.inventory_item_id, serial, {
+        status: "sold", sale_id: header.id, receipt_no: header.receipt_no, customer_name: header.customer_name || null,
+        sold_at: header.created_at, warranty_expires_at: warrantyExpiry(header.created_at, months)
+      }));
+    });
+
+    // The credit limit was checked (or overridden by a manager) at the till; the charge always posts.
+    const onAccount = tenderTotal(header.payments || [], "Credit");
+    if (onAccount > 0 && header.customer_id) {
+      db.prepare("update customers set balance = round(balance + ?, 2) where id = ?").run(onAccount, header.customer_id);
+      const { balance } = db.prepare("select balance from customers where id = ?").get(header.customer_id);
+      const charge = pick({
+        id: randomUUID(),
+        customer_id: header.customer_id,
+        kind: "charge",
+        amount: onAccount,
+        outstanding: onAccount,
+        balance_after: balance,
+        sale_id: header.id,
+        reference: header.receipt_no,
+        limit_override: Boolean(header.credit_limit_override),
+        performed_by: header.cashier_name || null,
+        created_at: header.created_at
+      }, CUSTOMER_TRANSACTION_COLUMNS);
+      db.prepare(insertSql("customer_transactions", charge)).run(charge);
+    }
+
+    return { status: "posted" };
+  });
+
+  const receiveCustomerPayment = db.transaction((customerId: string, request: CustomerPaymentArgs): CustomerPaymentOutcome => {
+    const customer = db.prepare("select balance from customers where id = ?").get(customerId);
+    if (!customer) return { status: "not_found" };
+    if (request.amount > customer.balance) {
+      return { status: "invalid", message: `Payment of ${request.amount} exceeds the outstanding balance of ${customer.balance}.` };
+    }
+
+    const openCharges = db.prepare("select id, outstanding from customer_transactions where customer_id = ? and outstanding > 0 order by created_at, id").all(customerId);
+    allocatePayment(openCharges, request.amount).forEach(allocation => {
+      db.prepare("update customer_transactions set outstanding = round(outstanding - ?, 2) where id = ?").run(allocation.amount, allocation.id);
+    });
+
+    db.prepare("update customers set balance = round(balance - ?, 2) where id = ?").run(request.amount, customerId);
+    const { balance } = db.prepare("select balance from customers where id = ?").get(customerId);
+    const payment = pick({
+      id: randomUUID(),
+      customer_id: customerId,
+      kind: "payment",
+      amount: -request.amount,
+      outstanding: 0,
+      balance_after: balance,
+      reference: request.reference || null,
+      method: request.method,
+      limit_override: false,
+      performed_by: request.receivedBy,
+      note: request.note || null,
+      created_at: new Date().toISOString()
+    }, CUSTOMER_TRANSACTION_COLUMNS);
+    db.prepare(insertSql("customer_transactions", payment)).run(payment);
+    return { status: "received", transaction: toCustomerTransaction(db.prepare("select * from customer_transactions where id = ?").get(payment.id)) };
+  });
+
+  const openShift = db.transaction((shift: Pick<CashShift, "terminal_id" | "cashier_name" | "opening_float" | "notes">): OpenShiftOutcome => {
+    const open = db.prepare("select shift_no from cash_shifts where terminal_id = ? and status = 'open'").get(shift.terminal_id);
+    if (open) {
+      return { status: "invalid", message: `${open.shift_no} is still open on ${shift.terminal_id}.` };
+    }
+    const row = pick({
+      ...shift,
+      id: randomUUID(),
+      shift_no: nextDocumentNo(db, "cash_shifts", "shift_no", "SHIFT"),
+      status: "open",
+      opened_at: new Date().toISOString()
+    }, SHIFT_COLUMNS);
+    db.prepare(insertSql("cash_shifts", row)).run(row);
+    return { status: "opened", shift: toShift(db.prepare("select * from cash_shifts where id = ?").get(row.id)) };
+  });
+
+  const recordDrawerMovement = db.transaction((movement: Omit<DrawerMovement, "id" | "created_at">): DrawerMovementOutcome => {
+    const shift = db.prepare("select shift_no, status from cash_shifts where id = ?").get(movement.shift_id);
+    if (!shift) return { status: "not_found" };
+    if (shift.status !== "open") return { status: "invalid", message: `${shift.shift_no} is already closed.` };
+    const row = pick({ ...movement, id: randomUUID(), created_at: new Date().toISOString() }, DRAWER_MOVEMENT_COLUMNS);
+    db.prepare(insertSql("drawer_movements", row)).run(row);
+    return { status: "recorded", movement: db.prepare("select * from drawer_movements where id = ?").get(row.id) };
+  });
+
+  const closeShift = db.transaction((args: CloseShiftArgs): CloseShiftOutcome => {
+    const shift = db.prepare("select shift_no, status from cash_shifts where id = ?").get(args.shiftId);
+    if (!shift) return { status: "not_found" };
+    if (shift.status !== "open") return { status: "invalid", message: `${shift.shift_no} is already closed.` };
+
+    db.prepare(
+      `update cash_shifts
+       set status = 'closed', closed_at = @closed_at, closed_by = @closed_by, denominations = @denominations,
+           expected = @expected, counted = @counted, over_short = @over_short, notes = coalesce(@notes, notes)
+       where id = @id`
+    ).run({
+      id: args.shiftId,
+      closed_at: args.closedAt,
+      closed_by: args.closedBy,
+      denominations: JSON.stringify(args.denominations),
+      expected: JSON.stringify(args.expected),
+      counted: JSON.stringify(args.counted),
+      over_short: args.overShort,
+      notes: args.notes
+    });
+
+    args.entries.forEach(entry => {
+      const row = ledgerRow({ ...entry, id: randomUUID(), shift_id: args.shiftId });
+      db.prepare(insertSql("ledger", row)).run(row);
+    });
+    return { status: "closed", shift: toShift(db.prepare("select * from cash_shifts where id = ?").get(args.shiftId)) };
+  });
+
+  const returnWithLines = (row: any): SaleReturn => ({
+    ...toSaleReturn(row),
+    lines: db.prepare("select * from sale_return_lines where return_id = ? order by rowid").all(row.id)
+  });
+
+  // Mirrors post_sale_return in Postgres: checks every line first, then writes.
+  const postReturn = db.transaction(({ saleReturn, lines, entries }: PostReturnArgs): PostReturnOutcome => {
+    const sale = db.prepare("select id, receipt_no from sales where id = ?").get(saleReturn.sale_id);
+    if (!sale) return { status: "not_found" };
+
+    for (const line of lines) {
+      const entry: LedgerEntry | undefined = db.prepare(
+        "select * from ledger where id = ? and sale_id = ? and transaction_type = 'sale' and adjusts_id is null"
+      ).get(line.ledger_entry_id, sale.id);
+      if (!entry) return { status: "invalid", message: `Ledger entry ${line.ledger_entry_id} is not a line of receipt ${sale.receipt_no}.` };
+      const label = entry.description || "The line";
+      if (isReversed(entry.id)) return { status: "invalid", message: `${label} has been reversed and cannot be returned.` };
+      const returnable = (entry.quantity || 0) - returnedQuantity(entry.id);
+      if (line.quantity > returnable) {
+        return { status: "invalid", message: `Only ${returnable} unit(s) of ${label} can still be returned.` };
+      }
+      if (line.disposition === "restock" && !db.prepare("select 1 from inventory where id = ?").get(line.inventory_item_id)) {
+        return { status: "invalid", message: `${label} is no longer in inventory and can only be written off.` };
+      }
+      const notSold = (line.serials || []).find(serial => {
+        const row = serialRow(line.inventory_item_id, serial);
+        return !row || row.status !== "sold" || row.sale_id !== sale.id;
+      });
+      if (notSold) return { status: "invalid", message: `Serial ${notSold} is not a unit sold on receipt ${sale.receipt_no}.` };
+    }
+
+    const onAccount = tenderTotal(saleReturn.refunds, "Credit");
+    if (onAccount > 0 && !(saleReturn.customer_id && db.prepare("select 1 from customers where id = ?").get(saleReturn.customer_id))) {
+      return { status: "invalid", message: "A refund to a customer account needs an existing customer." };
+    }
+
+    const header = pick({
+      ...saleReturn,
+      id: randomUUID(),
+      return_no: nextDocumentNo(db, "sale_returns", "return_no", "RTN"),
+      refunds: JSON.stringify(saleReturn.refunds),
+      created_at: new Date().toISOString()
+    }, RETURN_COLUMNS);
+    db.prepare(insertSql("sale_returns", header)).run(header);
+
+    lines.forEach(line => {
+      const row = pick({ ...line, id: randomUUID(), return_id: header.id }, RETURN_LINE_COLUMNS);
+      db.prepare(insertSql("sale_return_lines", row)).run(row);
+      // Restocked units come back at the cost they went out at; written-off units never re-enter stock.
+      if (line.disposition === "restock") {
+        recordStockMovement(line.inventory_item_id, line.quantity, "return", `${header.return_no} / receipt ${sale.receipt_no}`, saleReturn.performed_by, "return", header.id, line.unit_cost, saleReturn.location_id);
+        (line.serials || []).forEach(serial => restockSerial(serialRow(line.inventory_item_id, serial).id));
+        restockSaleBatches(sale.id, line.inventory_item_id, line.quantity, saleReturn.location_id || defaultLocationId());
+      }
+    });
+
+    entries.forEach(entry => {
+      const row = ledgerRow({
+        ...entry,
+        id: randomUUID(),
+        description: `Return ${header.return_no}` + (entry.description ? `: ${entry.description}` : ""),
+        created_at: header.created_at,
+        sale_id: sale.id,
+        return_id: header.id
+      });
+      db.prepare(insertSql("ledger", row)).run(row);
+    });
+
+    // Refunds to the account settle this sale's charge first, then the oldest; any excess is store credit.
+    if (onAccount > 0) {
+      const openCharges = db.prepare(
+        "select id, outstanding from customer_transactions where customer_id = ? and outstanding > 0 order by (sale_id is ?) desc, created_at, id"
+      ).all(saleReturn.customer_id, sale.id);
+      allocatePayment(openCharges, onAccount).forEach(allocation => {
+        db.prepare("update customer_transactions set outstanding = round(outstanding - ?, 2) where id = ?").run(allocation.amount, allocation.id);
+      });
+      db.prepare("update customers set balance = round(balance - ?, 2) where id = ?").run(onAccount, saleReturn.customer_id);
+      const { balance } = db.prepare("select balance from customers where id = ?").get(saleReturn.customer_id);
+      const refund = pick({
+        id: randomUUID(),
+        customer_id: saleReturn.customer_id,
+        kind: "refund",
+        amount: -onAccount,
+        outstanding: 0,
+        balance_after: balance,
+        sale_id: sale.id,
+        reference: header.return_no,
+        method: saleReturn.refund_method === "store_credit" ? "Store Credit" : "Credit",
+        limit_override: false,
+        performed_by: saleReturn.performed_by,
+        note: saleReturn.note || null,
+        created_at: header.created_at
+      }, CUSTOMER_TRANSACTION_COLUMNS);
+      db.prepare(insertSql("customer_transactions", refund)).run(refund);
+    }
+
+    return { status: "returned", sale_return: returnWithLines(db.prepare("select * from sale_returns where id = ?").get(header.id)) };
+  });
+
+  const quoteWithLines = (row: any): Quote => ({
+    ...row,
+    lines: db.prepare("select * from quote_lines where quote_id = ? order by rowid").all(row.id)
+  });
+
+  const createQuote = db.transaction((quote: Partial<Quote>, lines: Record<string, any>[]): Quote => {
+    const row = pick({
+      ...quote,
+      id: randomUUID(),
+      quote_no: nextDocumentNo(db, "quotes", "quote_no", "QT"),
+      status: "open",
+      created_at: new Date().toISOString()
+    }, QUOTE_COLUMNS);
+    db.prepare(insertSql("quotes", row)).run(row);
+
+    lines.forEach(line => {
+      const lineRow = pick({ ...line, id: randomUUID(), quote_id: row.id }, QUOTE_LINE_COLUMNS);
+      db.prepare(insertSql("quote_lines", lineRow)).run(lineRow);
+    });
+    return quoteWithLines(db.prepare("select * from quotes where id = ?").get(row.id));
+  });
+
+  // A reversed on-account sale gives its charge back: what the customer paid for the reversed lines
+  // comes off the account first, up to the part of the sale still owed on it. Mirrors
+  // credit_reversed_sale in Postgres.
+  const creditReversedSale = (saleId: string, lineValue: number, user: string, note: string | null) => {
+    const sale = db.prepare("select id, receipt_no, customer_id, payments, subtotal, total from sales where id = ?").get(saleId);
+    if (!sale?.customer_id) return;
+    const onAccount = tenderTotal(JSON.parse(sale.payments || "[]"), "Credit");
+    const { credited } = db.prepare(
+      "select coalesce(-sum(amount), 0) as credited from customer_transactions where sale_id = ? and kind = 'refund'"
+    ).get(saleId);
+    const credit = Math.round(Math.min(lineValue * refundRatio(sale), onAccount - credited) * 100) / 100;
+    if (credit <= 0) return;
+
+    const openCharges = db.prepare(
+      "select id, outstanding from customer_transactions where customer_id = ? and outstanding > 0 order by (sale_id is ?) desc, created_at, id"
+    ).all(sale.customer_id, saleId);
+    allocatePayment(openCharges, credit).forEach(allocation => {
+      db.prepare("update customer_transactions set outstanding = round(outstanding - ?, 2) where id = ?").run(allocation.amount, allocation.id);
+    });
+    db.prepare("update customers set balance = round(balance - ?, 2) where id = ?").run(credit, sale.customer_id);
+    const { balance } = db.prepare("select balance from customers where id = ?").get(sale.customer_id);
+    const refund = pick({
+      id: randomUUID(),
+      customer_id: sale.customer_id,
+      kind: "refund",
+      amount: -credit,
+      outstanding: 0,
+      balance_after: balance,
+      sale_id: saleId,
+      reference: sale.receipt_no,
+      method: "Reversal",
+      limit_override: false,
+      performed_by: user,
+      note,
+      created_at: new Date().toISOString()
+    }, CUSTOMER_TRANSACTION_COLUMNS);
+    db.prepare(insertSql("customer_transactions", refund)).run(refund);
+  };
+
+  const reverseLedgerEntries = db.transaction((entryIds: string[], saleId: string | null, reasonCode: string, note: string | null, user: string): AdjustmentOutcome => {
+    const targets: LedgerEntry[] = db.prepare(
+      `select * from ledger
+       where id in (select value from json_each(?)) or (? is not null and sale_id = ?)
+       order by id`
+    ).all(JSON.stringify(entryIds), saleId, saleId);
+
+    let count = 0;
+    let alreadyReversed: string | null = null;
+    const reversedSaleValue = new Map<string, number>();
+    for (const entry of targets) {
+      const inSale = saleId !== null && entry.sale_id === saleId;
+      if (entry.adjusts_id) {
+        if (inSale) continue;
+        return { status: "invalid", message: "Adjustment entries cannot themselves be reversed." };
+      }
+      if (isReversed(entry.id)) {
+        if (!inSale) return { status: "already_reversed", entry_id: entry.id };
+        alreadyReversed = alreadyReversed || entry.id;
+        continue;
+      }
+      if (isReturned(entry.id)) {
+        return { status: "invalid", message: "Lines with customer returns cannot be reversed; take any further returns at the till." };
+      }
+
+      const row = ledgerRow({
+        id: randomUUID(),
+        category_id: entry.category_id,
+        inventory_item_id: entry.inventory_item_id,
+        quantity: entry.quantity == null ? null : -entry.quantity,
+        amount: -netAmount(entry),
+        unit_cost: entry.unit_cost,
+        transaction_type: entry.transaction_type,
+        fund_source: entry.fund_source,
+        description: `Reversal: ${entry.description || entry.transaction_type}` + (note ? ` - ${note}` : ""),
+        created_at: new Date().toISOString(),
+        sale_id: entry.sale_id,
+        adjusts_id: entry.id,
+        adjustment_kind: "reversal",
+        reason_code: reasonCode,
+        adjusted_by: user
+      });
+      db.prepare(insertSql("ledger", row)).run(row);
+
+      if (entry.transaction_type === "sale" && entry.inventory_item_id && (entry.quantity || 0) > 0) {
+        // The units go back where the sale took them from.
+        const saleLocation = entry.sale_id ? db.prepare("select location_id from sales where id = ?").get(entry.sale_id)?.location_id : null;
+        recordStockMovement(entry.inventory_item_id, entry.quantity as number, "reversal", reasonCode + (note ? ` - ${note}` : ""), user, "ledger", row.id, entry.unit_cost, saleLocation);
+        // As many of the sale's units of the item as the line sold go back into stock.
+        db.prepare("select id from serial_numbers where inventory_item_id = ? and sale_id = ? and status = 'sold' order by serial_no limit ?")
+          .all(entry.inventory_item_id, entry.sale_id, entry.quantity)
+          .forEach((serial: { id: string }) => restockSerial(serial.id));
+        if (entry.sale_id) restockSaleBatches(entry.sale_id, entry.inventory_item_id, entry.quantity as number, saleLocation || defaultLocationId());
+      }
+      if (entry.transaction_type === "sale" && entry.sale_id) {
+        reversedSaleValue.set(entry.sale_id, (reversedSaleValue.get(entry.sale_id) || 0) + netAmount(entry));
+      }
+      count += 1;
+    }
+
+    reversedSaleValue.forEach((value, id) => creditReversedSale(id, value, user, note));
+
+    // A sale whose every line was reversed before is already reversed, not missing.
+    if (count === 0 && alreadyReversed) return { status: "already_reversed", entry_id: alreadyReversed };
+    return count === 0 ? { status: "not_found" } : { status: "reversed", count };
+  });
+
+  const correctLedgerAmount = db.transaction((entryId: string, amount: number, reasonCode: string, note: string | null, user: string): AdjustmentOutcome => {
+    const entry: LedgerEntry | undefined = db.prepare("select * from ledger where id = ?").get(entryId);
+    if (!entry) return { status: "not_found" };
+    if (entry.adjusts_id) return { status: "invalid", message: "Adjustment entries cannot themselves be corrected." };
+    if (isReversed(entry.id)) return { status: "already_reversed", entry_id: entry.id };
+
+    const net = netAmount(entry);
+    if (amount === net) return { status: "unchanged" };
+
+    const row = ledgerRow({
+      id: randomUUID(),
+      category_id: entry.category_id,
+      amount: amount - net,
+      transaction_type: entry.transaction_type,
+      fund_source: entry.fund_source,
+      description: `Correction: ${entry.description || entry.transaction_type} (${net} -> ${amount})` + (note ? ` - ${note}` : ""),
+      created_at: new Date().toISOString(),
+      sale_id: entry.sale_id,
+      adjusts_id: entry.id,
+      adjustment_kind: "correction",
+      reason_code: reasonCode,
+      adjusted_by: user
+    });
+    db.prepare(insertSql("ledger", row)).run(row);
+
+    return { status: "corrected", net: amount };
+  });
+
+  const insertFitment = (fitments: Record<string, any>[], references: Record<string, any>[]) => {
+    const createdAt = new Date().toISOString();
+    fitments.forEach(fitment => {
+      const row = pick({ ...fitment, id: randomUUID(), created_at: createdAt }, FITMENT_COLUMNS);
+      db.prepare(insertSql("vehicle_fitments", row)).run(row);
+    });
+    references.forEach(reference => {
+      const row = pick({ ...reference, id: randomUUID(), created_at: createdAt }, CROSS_REFERENCE_COLUMNS);
+      db.prepare(insertSql("part_cross_references", row)).run(row);
+    });
+  };
+
+  const replaceItemFitment = db.transaction((itemId: string, fitments: Record<string, any>[], references: Record<string, any>[]) => {
+    db.prepare("delete from vehicle_fitments where inventory_item_id = ?").run(itemId);
+    db.prepare("delete from part_cross_references where inventory_item_id = ?").run(itemId);
+    insertFitment(fitments.map(f => ({ ...f, inventory_item_id: itemId })), references.map(r => ({ ...r, inventory_item_id: itemId })));
+  });
+
+  const addFitment = db.transaction(insertFitment);
+
+  const listFitment = (itemId?: string): FitmentCatalogue => ({
+    fitments: db.prepare(
+      "select * from vehicle_fitments where (@itemId is null or inventory_item_id = @itemId) order by make collate nocase, model collate nocase, year_from"
+    ).all({ itemId: itemId ?? null }),
+    cross_references: db.prepare(
+      "select * from part_cross_references where (@itemId is null or inventory_item_id = @itemId) order by kind, part_number"
+    ).all({ itemId: itemId ?? null })
+  });
+
+  // Mirrors quarantine_batch in Postgres. Only what is still on hand at the lot's location can be
+  // taken out; the lot is closed either way.
+  const quarantineBatch = db.transaction(({ batchId, reason, user }: BatchQuarantineArgs): BatchQuarantineOutcome => {
+    const batch: StockBatch | undefined = db.prepare("select * from stock_batches where id = ?").get(batchId);
+    if (!batch) return { status: "not_found" };
+    if (batch.status !== "available") return { status: "invalid", message: `Batch ${batch.batch_no} is already ${batch.status}.` };
+
+    const item = db.prepare("select name, category_id from inventory where id = ?").get(batch.inventory_item_id);
+    const take = Math.min(batch.quantity_remaining, Math.max(0, locationQuantity(batch.location_id, batch.inventory_item_id)));
+    let writeOff = 0;
+    if (take > 0) {
+      const movement = recordStockMovement(
+        batch.inventory_item_id, -take, "adjustment", `Batch ${batch.batch_no} quarantined: ${reason}`, user, "batch", batch.id, undefined, batch.location_id
+      );
+      writeOff = Math.round((movement?.unit_cost || 0) * take * 100) / 100;
+    }
+    if (writeOff > 0) {
+      const entry = ledgerRow({
+        id: randomUUID(),
+        category_id: String(item.category_id),
+        amount: writeOff,
+        transaction_type: "expense",
+        fund_source: "PROFIT",
+        description: `Write-off: ${item.name} batch ${batch.batch_no} (x${take}) - ${reason}`,
+        created_at: new Date().toISOString()
+      });
+      db.prepare(insertSql("ledger", entry)).run(entry);
+    }
+
+    db.prepare(
+      `update stock_batches
+       set status = 'quarantined', quantity_remaining = 0, quarantined_at = ?, quarantined_by = ?, quarantine_reason = ?, write_off_amount = ?
+       where id = ?`
+    ).run(new Date().toISOString(), user, reason, writeOff, batch.id);
+    return { status: "quarantined", batch: db.prepare("select * from stock_batches where id = ?").get(batch.id) };
+  });
+
+  const createWarrantyClaim = db.transaction((claim: Partial<WarrantyClaim>): WarrantyClaim => {
+    const now = new Date().toISOString();
+    const row = pick({
+      ...claim,
+      id: randomUUID(),
+      claim_no: nextDocumentNo(db, "warranty_claims", "claim_no", "WC"),
+      status: "open",
+      created_at: now,
+      updated_at: now
+    }, WARRANTY_CLAIM_COLUMNS);
+    db.prepare(insertSql("warranty_claims", row)).run(row);
+    return db.prepare("select * from warranty_claims where id = ?").get(row.id);
+  });
+
+  const updateWarrantyClaim = db.transaction((id: string, { status, from, patch }: WarrantyClaimTransition): WarrantyClaimOutcome => {
+    const claim = db.prepare("select status, claim_no from warranty_claims where id = ?").get(id);
+    if (!claim) return { status: "not_found" };
+    if (!from.includes(claim.status)) {
+      return { status: "invalid", message: `${claim.claim_no} is ${claim.status} and cannot be moved to ${status}.` };
+    }
+    const now = new Date().toISOString();
+    const row = pick({ ...patch, status, updated_at: now, resolved_at: status === "resolved" ? now : undefined }, WARRANTY_CLAIM_COLUMNS);
+    db.prepare(`update warranty_claims set ${Object.keys(row).map(c => `${c} = @${c}`).join(", ")} where id = @id`).run({ ...row, id });
+    return { status: "updated", claim: db.prepare("select * from warranty_claims where id = ?").get(id) };
+  });
+
+  const transferWithLines = (row: any): StockTransfer => ({
+    ...row,
+    lines: db.prepare("select * from stock_transfer_lines where transfer_id = ? order by rowid").all(row.id)
+  });
+
+  // Mirrors dispatch_stock_transfer in Postgres.
+  const dispatchTransfer = db.transaction(({ transfer, lines }: DispatchTransferArgs): TransferOutcome => {
+    const from = db.prepare("select * from stock_locations where id = ?").get(transfer.from_location_id);
+    const to = db.prepare("select * from stock_locations where id = ?").get(transfer.to_location_id);
+    if (!from || !to) return { status: "invalid", message: "Both locations must exist." };
+    if (from.id === to.id) return { status: "invalid", message: "A transfer needs two different locations." };
+    if (!from.active || !to.active) return { status: "invalid", message: `${!from.active ? from.name : to.name} is inactive.` };
+
+    const requested = new Map<string, number>();
+    lines.forEach(line => requested.set(line.inventory_item_id, (requested.get(line.inventory_item_id) || 0) + line.quantity));
+    for (const [id, quantity] of requested) {
+      const item = db.prepare("select name from inventory where id = ?").get(id);
+      if (!item) return { status: "invalid", message: `Inventory item ${id} not found.` };
+      const available = locationQuantity(from.id, id);
+      if (available < quantity) return { status: "invalid", message: `Only ${available} of ${item.name} at ${from.name}.` };
+    }
+
+    const header = pick({
+      ...transfer,
+      id: randomUUID(),
+      transfer_no: nextDocumentNo(db, "stock_transfers", "transfer_no", "TRF"),
+      status: "in_transit",
+      dispatched_at: new Date().toISOString()
+    }, TRANSFER_COLUMNS);
+    db.prepare(insertSql("stock_transfers", header)).run(header);
+
+    lines.forEach(line => {
+      const movement = recordStockMovement(line.inventory_item_id, -line.quantity, "transfer", `${header.transfer_no} to ${to.name}`, transfer.dispatched_by, "transfer", header.id, undefined, from.id);
+      db.prepare(
+        "insert into stock_transfer_lines (id, transfer_id, inventory_item_id, quantity, unit_cost) values (?, ?, ?, ?, ?)"
+      ).run(randomUUID(), header.id, line.inventory_item_id, line.quantity, movement?.unit_cost || 0);
+    });
+
+    // Lots travel soonest expiry first and are opened at the destination on receipt.
+    [...requested.entries()].flatMap(([id, quantity]) => fefoAllocation(availableBatches(id, from.id), id, quantity)).forEach(take => {
+      db.prepare("update stock_batches set quantity_remaining = quantity_remaining - ? where id = ?").run(take.quantity, take.batch.id);
+      db.prepare(
+        "insert into stock_transfer_batches (id, transfer_id, batch_id, inventory_item_id, quantity) values (?, ?, ?, ?, ?)"
+      ).run(randomUUID(), header.id, take.batch.id, take.batch.inventory_item_id, take.quantity);
+    });
+    return { status: "dispatched", transfer: transferWithLines(db.prepare("select * from stock_transfers where id = ?").get(header.id)) };
+  });
+
+  // Mirrors receive_stock_transfer in Postgres. Units arrive at the cost they left at, in the lots
+  // they left from.
+  const receiveTransfer = db.transaction((id: string, user: string): TransferOutcome => {
+    const transfer = db.prepare("select * from stock_transfers where id = ?").get(id);
+    if (!transfer) return { status: "not_found" };
+    if (transfer.status !== "in_transit") return { status: "invalid", message: `${transfer.transfer_no} has already been received.` };
+
+    const from = db.prepare("select name from stock_locations where id = ?").get(transfer.from_location_id);
+    transferWithLines(transfer).lines.forEach(line =>
+      recordStockMovement(line.inventory_item_id, line.quantity, "transfer", `${transfer.transfer_no} from ${from.name}`, user, "transfer", transfer.id, line.unit_cost, transfer.to_location_id)
+    );
+    db.prepare(
+      "select b.*, t.quantity as transferred from stock_transfer_batches t join stock_batches b on b.id = t.batch_id where t.transfer_id = ? order by t.rowid"
+    ).all(id).forEach((lot: StockBatch & { transferred: number }) => restockLot(lot, transfer.to_location_id, lot.transferred));
+    db.prepare("update stock_transfers set status = 'received', received_by = ?, received_at = ? where id = ?").run(user, new Date().toISOString(), id);
+    return { status: "received", transfer: transferWithLines(db.prepare("select * from stock_transfers where id = ?").get(id)) };
+  });
+
+  const stocktakeWithLines = (row: any): Stocktake => ({
+    ...row,
+    lines: db.prepare("select * from stocktake_lines where stocktake_id = ? order by rowid").all(row.id)
+  });
+
+  const getStocktake = (id: string): Stocktake | undefined => {
+    const row = db.prepare("select * from stocktakes where id = ?").get(id);
+    return row ? stocktakeWithLines(row) : undefined;
+  };
+
+  // Mirrors start_stocktake in Postgres. The sheet is every active item in scope, by bin then name,
+  // with what the location holds of it right now.
+  const startStocktake = db.transaction(({ stocktake }: StartStocktakeArgs): StocktakeOutcome => {
+    const location = db.prepare("select * from stock_locations where id = ?").get(stocktake.location_id);
+    if (!location) return { status: "invalid", message: "Location not found." };
+    if (!location.active) return { status: "invalid", message: `${location.name} is inactive.` };
+    const open = db.prepare("select stocktake_no from stocktakes where location_id = ? and status = 'counting'").get(location.id);
+    if (open) return { status: "invalid", message: `${open.stocktake_no} is still being counted at ${location.name}.` };
+
+    const items = db.prepare(
+      `select i.id, i.bin, i.cost_price, coalesce(s.quantity, 0) as quantity
+       from inventory i
+       left join location_stock s on s.inventory_item_id = i.id and s.location_id = @location
+       where i.active = 1
+         and (@category is null or cast(i.category_id as text) = @category)
+         and (@bin is null or i.bin = @bin collate nocase)
+       order by coalesce(i.bin, '') collate nocase, i.name collate nocase`
+    ).all({ location: location.id, category: stocktake.category_id ?? null, bin: stocktake.bin ?? null });
+    if (items.length === 0) return { status: "invalid", message: "No active items match this count." };
+
+    const header = pick({
+      ...stocktake,
+      id: randomUUID(),
+      stocktake_no: nextDocumentNo(db, "stocktakes", "stocktake_no", "STK"),
+      status: "counting",
+      started_at: new Date().toISOString()
+    }, STOCKTAKE_COLUMNS);
+    db.prepare(insertSql("stocktakes", header)).run(header);
+    const insertLine = db.prepare(
+      "insert into stocktake_lines (id, stocktake_id, inventory_item_id, bin, expected_quantity, unit_cost) values (?, ?, ?, ?, ?, ?)"
+    );
+    items.forEach((item: any) => insertLine.run(randomUUID(), header.id, item.id, item.bin ?? null, item.quantity, item.cost_price || 0));
+    return { status: "started", stocktake: getStocktake(header.id) };
+  });
+
+  const recordStocktakeCounts = db.transaction(({ stocktakeId, counts, user }: StocktakeCountArgs): StocktakeOutcome => {
+    const stocktake = getStocktake(stocktakeId);
+    if (!stocktake) return { status: "not_found" };
+    if (stocktake.status !== "counting") return { status: "invalid", message: `${stocktake.stocktake_no} is already ${stocktake.status}.` };
+    const missing = counts.find(count => !stocktake.lines.some(line => line.inventory_item_id === count.inventory_item_id));
+    if (missing) return { status: "invalid", message: `Inventory item ${missing.inventory_item_id} is not on ${stocktake.stocktake_no}.` };
+
+    const now = new Date().toISOString();
+    counts.forEach(count => db.prepare(
+      "update stocktake_lines set counted_quantity = ?, counted_by = ?, counted_at = ? where stocktake_id = ? and inventory_item_id = ?"
+    ).run(count.counted_quantity, user, now, stocktakeId, count.inventory_item_id));
+    return { status: "counted", stocktake: getStocktake(stocktakeId) };
+  });
+
+  // A stocktake variance on the item's lots at a location: shrinkage comes off the lots that expire
+  // first, found stock goes into the available lot received there last (without one, it counts as
+  // stock that pre-dates batch tracking).
+  const applyLotVariance = (itemId: string, locationId: string, delta: number) => {
+    if (delta < 0) {
+      fefoAllocation(availableBatches(itemId, locationId), itemId, -delta).forEach(take =>
+        db.prepare("update stock_batches set quantity_remaining = quantity_remaining - ? where id = ?").run(take.quantity, take.batch.id)
+      );
+      return;
+    }
+    const lot = db.prepare(
+      "select id from stock_batches where inventory_item_id = ? and location_id = ? and status = 'available' order by received_at desc limit 1"
+    ).get(itemId, locationId);
+    if (lot) db.prepare("update stock_batches set quantity_remaining = quantity_remaining + ? where id = ?").run(delta, lot.id);
+  };
+
+  // Mirrors approve_stocktake in Postgres. A line moves by counted - expected, so what sold while
+  // counting stays sold, and is never taken below zero at the location. The variance is valued at
+  // the cost the stock actually moved at, and lands on the item's lots there too.
+  const approveStocktake = db.transaction((id: string, user: string): StocktakeOutcome => {
+    const stocktake = getStocktake(id);
+    if (!stocktake) return { status: "not_found" };
+    if (stocktake.status !== "counting") return { status: "invalid", message: `${stocktake.stocktake_no} is already ${stocktake.status}.` };
+    const uncounted = stocktake.lines.filter(line => line.counted_quantity == null).length;
+    if (uncounted > 0) return { status: "invalid", message: `${uncounted} line${uncounted === 1 ? " is" : "s are"} not counted yet.` };
+
+    const location = db.prepare("select name from stock_locations where id = ?").get(stocktake.location_id);
+    const byCategory = new Map<string, { value: number; items: number }>();
+    stocktake.lines.forEach(line => {
+      const variance = Number(line.counted_quantity) - line.expected_quantity;
+      const delta = Math.max(variance, -Math.max(0, locationQuantity(stocktake.location_id, line.inventory_item_id)));
+      if (delta === 0) return;
+      const movement = recordStockMovement(line.inventory_item_id, delta, "stocktake", `${stocktake.stocktake_no} count at ${location.name}`, user, "stocktake", id, undefined, stocktake.location_id);
+      applyLotVariance(line.inventory_item_id, stocktake.location_id, delta);
+      const item = db.prepare("select category_id from inventory where id = ?").get(line.inventory_item_id);
+      const category = byCategory.get(String(item.category_id)) || { value: 0, items: 0 };
+      byCategory.set(String(item.category_id), { value: category.value - delta * (movement?.unit_cost || 0), items: category.items + 1 });
+    });
+
+    let total = 0;
+    byCategory.forEach(({ value, items }, categoryId) => {
+      const amount = Math.round(value * 100) / 100;
+      if (amount === 0) return;
+      total += amount;
+      const entry = ledgerRow({
+        id: randomUUID(),
+        category_id: categoryId,
+        amount,
+        transaction_type: "expense",
+        fund_source: "PROFIT",
+        description: `${stocktake.stocktake_no} stock ${amount > 0 ? "shrinkage" : "gain"} at ${location.name} (${items} item${items === 1 ? "" : "s"})`,
+        created_at: new Date().toISOString()
+      });
+      db.prepare(insertSql("ledger", entry)).run(entry);
+    });
+
+    db.prepare("update stocktakes set status = 'approved', closed_by = ?, closed_at = ?, variance_value = ? where id = ?")
+      .run(user, new Date().toISOString(), Math.round(total * 100) / 100, id);
+    return { status: "approved", stocktake: getStocktake(id) };
+  });
+
+  const cancelStocktake = db.transaction((id: string, user: string): StocktakeOutcome => {
+    const stocktake = getStocktake(id);
+    if (!stocktake) return { status: "not_found" };
+    if (stocktake.status !== "counting") return { status: "invalid", message: `${stocktake.stocktake_no} is already ${stocktake.status}.` };
+    db.prepare("update stocktakes set status = 'cancelled', closed_by = ?, closed_at = ? where id = ?").run(user, new Date().toISOString(), id);
+    return { status: "cancelled", stocktake: getStocktake(id) };
+  });
+
+  return {
+    backend: "sqlite",
+    isConfigured: true,
+
+    async listInventory() {
+      return db.prepare("select * from inventory order by name").all().map(toInventoryItem);
+    },
+
+    async createInventoryItem(item, user) {
+      return createInventoryItem(item, user);
+    },
+
+    async updateInventoryItem(id, patch) {
+      const row = pick(inventoryRow(patch), INVENTORY_COLUMNS.filter(c => c !== "id" && c !== "quantity"));
+      const columns = Object.keys(row);
+      if (columns.length === 0) return;
+      db.prepare(`update inventory set ${columns.map(c => `${c} = @${c}`).join(", ")} where id = @id`).run({ ...row, id });
+    },
+
+    async deleteInventoryItem(id) {
+      db.prepare("delete from inventory where id = ?").run(id);
+    },
+
+    async adjustStock(args) {
+      return adjustStock(args);
+    },
+
+    async getCostingMethod() {
+      return costingMethod();
+    },
+
+    async setCostingMethod(method, user) {
+      db.prepare("update stock_settings set costing_method = ?, updated_at = ?, updated_by = ?").run(method, new Date().toISOString(), user);
+    },
+
+    async getBranding() {
+      return branding();
+    },
+
+    async setBranding(profile) {
+      const row = pick({ ...profile, logo_raster: profile.logo_raster ? JSON.stringify(profile.logo_raster) : null, updated_at: new Date().toISOString() }, BRANDING_COLUMNS);
+      db.prepare(`update branding_settings set ${Object.keys(row).map(col => `${col} = @${col}`).join(", ")}`).run(row);
+      return branding();
+    },
+
+    async listFitment(itemId) {
+      return listFitment(itemId);
+    },
+
+    async replaceItemFitment(itemId, fitments, references) {
+      replaceItemFitment(itemId, fitments, references);
+      return listFitment(itemId);
+    },
+
+    async addFitment(fitments, references) {
+      addFitment(fitments, references);
+    },
+
+    async listMovements(itemId) {
+      return db.prepare("select * from inventory_movements where inventory_item_id = ? order by created_at, rowid").all(itemId);
+    },
+
+    async listLocations() {
+      return db.prepare("select * from stock_locations order by is_default desc, name").all().map(toLocation);
+    },
+
+    async createLocation(location) {
+      const row = pick({ ...location, id: randomUUID(), is_default: false, active: true, created_at: new Date().toISOString() }, LOCATION_COLUMNS);
+      db.prepare(insertSql("stock_locations", row)).run(row);
+      return toLocation(db.prepare("select * from stock_locations where id = ?").get(row.id));
+    },
+
+    async updateLocation(id, patch) {
+      const row = pick(patch, ["name", "kind", "active"]);
+      const columns = Object.keys(row);
+      if (columns.length === 0) return;
+      db.prepare(`update stock_locations set ${columns.map(c => `${c} = @${c}`).join(", ")} where id = @id`).run({ ...row, id });
+    },
+
+    async listLocationStock(locationId) {
+      return db.prepare(
+        "select * from location_stock where (@locationId is null or location_id = @locationId) order by location_id, inventory_item_id"
+      ).all({ locationId: locationId ?? null });
+    },
+
+    async listTerminalLocations() {
+      return db.prepare("select * from terminal_locations order by terminal_id").all();
+    },
+
+    async setTerminalLocation(terminalId, locationId) {
+      db.prepare(
+        `insert into terminal_locations (terminal_id, location_id, updated_at) values (?, ?, ?)
+         on conflict (terminal_id) do update set location_id = excluded.location_id, updated_at = excluded.updated_at`
+      ).run(terminalId, locationId, new Date().toISOString());
+      return db.prepare("select * from terminal_locations where terminal_id = ?").get(terminalId);
+    },
+
+    async listTransfers(filter = {}) {
+      return db.prepare(
+        "select * from stock_transfers where (@status is null or status = @status) order by dispatched_at desc"
+      ).all({ status: filter.status ?? null }).map(transferWithLines);
+    },
+
+    async dispatchTransfer(args) {
+      return dispatchTransfer(args);
+    },
+
+    async receiveTransfer(id, user) {
+      return receiveTransfer(id, user);
+    },
+
+    async listStocktakes(filter = {}) {
+      return db.prepare(
+        "select * from stocktakes where (@status is null or status = @status) order by started_at desc"
+      ).all({ status: filter.status ?? null }).map(stocktakeWithLines);
+    },
+
+    async startStocktake(args) {
+      return startStocktake(args);
+    },
+
+    async recordStocktakeCounts(args) {
+      return recordStocktakeCounts(args);
+    },
+
+    async approveStocktake(id, user) {
+      return approveStocktake(id, user);
+    },
+
+    async cancelStocktake(id, user) {
+      return cancelStocktake(id, user);
+    },
+
+    async listLedger(filter = {}) {
+      return db.prepare(
+        `select * from ledger
+         where (@transactionType is null or transaction_type = @transactionType) and (@saleId is null or sale_id = @saleId)
+         order by created_at desc`
+      ).all({ transactionType: filter.transactionType ?? null, saleId: filter.saleId ?? null });
+    },
+
+    async insertLedgerEntry(entry) {
+      const row = ledgerRow({ ...entry, id: randomUUID(), created_at: entry.created_at || new Date().toISOString() });
+      db.prepare(insertSql("ledger", row)).run(row);
+      return db.prepare("select * from ledger where id = ?").get(row.id);
+    },
+
+    async listBusinessSummaries() {
+      return db.prepare("select * from business_summary order by category_id").all();
+    },
+
+    async getBusinessSummary(categoryId) {
+      return db.prepare("select * from business_summary where cast(category_id as text) = ?").get(String(categoryId)) || null;
+    },
+
+    async listCategories() {
+      return db.prepare("select * from categories order by id").all();
+    },
+
+    async listSaleHeaders() {
+      return db.prepare("select * from sales order by created_at desc").all().map(toSale);
+    },
+
+    async getSale(idOrReceiptNo) {
+      const row = db.prepare("select * from sales where id = ? or receipt_no = ?").get(idOrReceiptNo, idOrReceiptNo);
+      return row ? toSale(row) : null;
+    },
+
+    async listSuppliers() {
+      return db.prepare("select * from suppliers order by name").all().map(toSupplier);
+    },
+
+    async createSupplier(supplier) {
+      const row = pick({ ...supplier, id: randomUUID(), created_at: new Date().toISOString() }, SUPPLIER_COLUMNS);
+      db.prepare(insertSql("suppliers", row)).run(row);
+      return toSupplier(db.prepare("select * from suppliers where id = ?").get(row.id));
+    },
+
+    async updateSupplier(id, patch) {
+      const row = pick(patch, SUPPLIER_COLUMNS.filter(c => c !== "id" && c !== "created_at"));
+      const columns = Object.keys(row);
+      if (columns.length === 0) return;
+      db.prepare(`update suppliers set ${columns.map(c => `${c} = @${c}`).join(", ")} where id = @id`).run({ ...row, id });
+    },
+
+    async listCustomers() {
+      return db.prepare("select * from customers order by name").all().map(toCustomer);
+    },
+
+    async createCustomer(customer) {
+      const row = pick({ ...customer, id: randomUUID(), balance: 0, created_at: new Date().toISOString() }, CUSTOMER_COLUMNS);
+      db.prepare(insertSql("customers", row)).run(row);
+      return toCustomer(db.prepare("select * from customers where id = ?").get(row.id));
+    },
+
+    async updateCustomer(id, patch) {
+      const row = pick(patch, CUSTOMER_COLUMNS.filter(c => c !== "id" && c !== "created_at" && c !== "balance"));
+      const columns = Object.keys(row);
+      if (columns.length === 0) return;
+      db.prepare(`update customers set ${columns.map(c => `${c} = @${c}`).join(", ")} where id = @id`).run({ ...row, id });
+    },
+
+    async listCustomerTransactions(filter = {}) {
+      return db.prepare(
+        `select * from customer_transactions
+         where (@customerId is null or customer_id = @customerId) and (@openOnly = 0 or outstanding > 0)
+         order by created_at, id`
+      ).all({ customerId: filter.customerId ?? null, openOnly: filter.openOnly ? 1 : 0 }).map(toCustomerTransaction);
+    },
+
+    async receiveCustomerPayment(customerId, request) {
+      return receiveCustomerPayment(customerId, request);
+    },
+
+    async listPurchaseOrders() {
+      return db.prepare("select * from purchase_orders order by created_at desc").all().map(purchaseOrderWithLines);
+    },
+
+    async createPurchaseOrder(order, lines) {
+      return createPurchaseOrder(order, lines);
+    },
+
+    async setPurchaseOrderStatus(id, status): Promise<PurchaseOrderOutcome> {
+      const order = db.prepare("select status from purchase_orders where id = ?").get(id);
+      if (!order) return { status: "not_found" };
+      if (!PURCHASE_ORDER_TRANSITIONS[status].includes(order.status)) {
+        return { status: "invalid", message: `A ${order.status} purchase order cannot be marked ${status}.` };
+      }
+      db.prepare("update purchase_orders set status = ? where id = ?").run(status, id);
+      return { status: "updated" };
+    },
+
+    async listGoodsReceived() {
+      return db.prepare("select * from goods_received_notes order by received_at desc").all().map(grnWithLines);
+    },
+
+    async receiveGoods(args) {
+      return receiveGoods(args);
+    },
+
+    async postSale(header, entries, stock) {
+      return postSale(header, entries, stock);
+    },
+
+    async listSerials(filter = {}) {
+      return db.prepare(
+        `select * from serial_numbers
+         where (@id is null or id = @id) and (@itemId is null or inventory_item_id = @itemId) and (@saleId is null or sale_id = @saleId)
+           and (@serialNo is null or serial_no = @serialNo) and (@status is null or status = @status)
+         order by serial_no`
+      ).all({ id: filter.id ?? null, itemId: filter.itemId ?? null, saleId: filter.saleId ?? null, serialNo: filter.serialNo ?? null, status: filter.status ?? null });
+    },
+
+    async listBatches(filter = {}) {
+      return db.prepare(
+        `select * from stock_batches
+         where (@id is null or id = @id) and (@itemId is null or inventory_item_id = @itemId) and (@status is null or status = @status)
+           and (@locationId is null or location_id = @locationId)
+         order by expiry_date, received_at`
+      ).all({ id: filter.id ?? null, itemId: filter.itemId ?? null, status: filter.status ?? null, locationId: filter.locationId ?? null });
+    },
+
+    async quarantineBatch(args) {
+      return quarantineBatch(args);
+    },
+
+    async listWarrantyClaims(filter = {}) {
+      return db.prepare(
+        "select * from warranty_claims where (@serialId is null or serial_id = @serialId) order by created_at desc"
+      ).all({ serialId: filter.serialId ?? null });
+    },
+
+    async createWarrantyClaim(claim) {
+      return createWarrantyClaim(claim);
+    },
+
+    async updateWarrantyClaim(id, transition) {
+      return updateWarrantyClaim(id, transition);
+    },
+
+    async listShifts(filter = {}) {
+      return db.prepare(
+        `select * from cash_shifts
+         where (@terminalId is null or terminal_id = @terminalId) and (@status is null or status = @status)
+         order by opened_at desc`
+      ).all({ terminalId: filter.terminalId ?? null, status: filter.status ?? null }).map(toShift);
+    },
+
+    async getShift(id) {
+      const row = db.prepare("select * from cash_shifts where id = ?").get(id);
+      return row ? toShift(row) : null;
+    },
+
+    async openShift(shift) {
+      return openShift(shift);
+    },
+
+    async listDrawerMovements(shiftId) {
+      return db.prepare("select * from drawer_movements where shift_id = ? order by created_at").all(shiftId);
+    },
+
+    async recordDrawerMovement(movement) {
+      return recordDrawerMovement(movement);
+    },
+
+    async listShiftSales(shiftId) {
+      return db.prepare("select * from sales where shift_id = ? order by created_at").all(shiftId).map(toSale);
+    },
+
+    async closeShift(args) {
+      return closeShift(args);
+    },
+
+    async listReturns(filter = {}) {
+      return db.prepare(
+        `select * from sale_returns
+         where (@saleId is null or sale_id = @saleId) and (@shiftId is null or shift_id = @shiftId)
+         order by created_at`
+      ).all({ saleId: filter.saleId ?? null, shiftId: filter.shiftId ?? null }).map(returnWithLines);
+    },
+
+    async postReturn(args) {
+      return postReturn(args);
+    },
+
+    async listQuotes() {
+      return db.prepare("select * from quotes order by created_at desc").all().map(quoteWithLines);
+    },
+
+    async createQuote(quote, lines) {
+      return createQuote(quote, lines);
+    },
+
+    async closeQuote(id, status, user): Promise<QuoteOutcome> {
+      const quote = db.prepare("select status, quote_no from quotes where id = ?").get(id);
+      if (!quote) return { status: "not_found" };
+      if (quote.status !== "open") {
+        return { status: "invalid", message: `${quote.quote_no} is already ${quote.status}.` };
+      }
+      db.prepare("update quotes set status = ?, closed_by = ?, closed_at = ? where id = ?").run(status, user, new Date().toISOString(), id);
+      return { status: "updated", quote: quoteWithLines(db.prepare("select * from quotes where id = ?").get(id)) };
+    },
+
+    async reverseLedgerEntries(args) {
+      return reverseLedgerEntries(args.entryIds, args.saleId, args.reasonCode, args.note, args.user);
+    },
+
+    async correctLedgerAmount(args) {
+      return correctLedgerAmount(args.entryId, args.amount, args.reasonCode, args.note, args.user);
+    }
+  };
+}
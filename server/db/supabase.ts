@@ -0,0 +1,477 @@
+import { supabaseAdmin, isServerConfigured } from "../supabaseAdmin";
+import { withBrandingDefaults } from "../../src/lib/branding";
+import { PURCHASE_ORDER_TRANSITIONS } from "../../src/lib/purchasing";
+import type { DataStore } from "./types";
+
+// Throws the PostgREST error so routes can report it; returns the payload otherwise.
+function unwrap<T>({ data, error }: { data: T | null; error: { message: string } | null }): T {
+  if (error) throw new Error(error.message);
+  return data as T;
+}
+
+export function createSupabaseStore(): DataStore {
+  const store: DataStore = {
+    backend: "supabase",
+    isConfigured: isServerConfigured,
+
+    async listInventory() {
+      return unwrap(await supabaseAdmin.from("inventory").select("*").order("name", { ascending: true })) || [];
+    },
+
+    async createInventoryItem(item, user) {
+      const created = unwrap(await supabaseAdmin.from("inventory").insert([{ ...item, quantity: 0 }]).select().single());
+      const outcome = await store.adjustStock({ itemId: String(created.id), quantity: Number(item.quantity) || 0, movementType: "opening", reason: "Opening stock", user });
+      return outcome.status === "adjusted" ? { ...created, quantity: outcome.movement.quantity_after } : created;
+    },
+
+    async updateInventoryItem(id, patch) {
+      const { quantity, ...rest } = patch;
+      if (Object.keys(rest).length === 0) return;
+      unwrap(await supabaseAdmin.from("inventory").update(rest).eq("id", id));
+    },
+
+    async deleteInventoryItem(id) {
+      unwrap(await supabaseAdmin.from("inventory").delete().eq("id", id));
+    },
+
+    async adjustStock(args) {
+      return unwrap(await supabaseAdmin.rpc("adjust_stock_at_location", {
+        p_item_id: args.itemId,
+        p_location_id: args.locationId || null,
+        p_quantity: args.quantity,
+        p_movement_type: args.movementType,
+        p_reason: args.reason,
+        p_user: args.user
+      }));
+    },
+
+    async getCostingMethod() {
+      const row = unwrap(await supabaseAdmin.from("stock_settings").select("costing_method").maybeSingle());
+      return row?.costing_method || "weighted_average";
+    },
+
+    async setCostingMethod(method, user) {
+      unwrap(await supabaseAdmin
+        .from("stock_settings")
+        .update({ costing_method: method, updated_at: new Date().toISOString(), updated_by: user })
+        .eq("id", true));
+    },
+
+    async getBranding() {
+      const row = unwrap(await supabaseAdmin.from("branding_settings").select("*").maybeSingle());
+      const { id, ...profile } = row || {};
+      return withBrandingDefaults(profile);
+    },
+
+    async setBranding(profile) {
+      unwrap(await supabaseAdmin
+        .from("branding_settings")
+        .update({ ...profile, updated_at: new Date().toISOString() })
+        .eq("id", true));
+      return store.getBranding();
+    },
+
+    async listFitment(itemId) {
+      let fitments = supabaseAdmin.from("vehicle_fitments").select("*");
+      let references = supabaseAdmin.from("part_cross_references").select("*");
+      if (itemId) {
+        fitments = fitments.eq("inventory_item_id", itemId);
+        references = references.eq("inventory_item_id", itemId);
+      }
+      const [fitmentRows, referenceRows] = await Promise.all([
+        fitments.order("make", { ascending: true }).order("model", { ascending: true }).order("year_from", { ascending: true }),
+        references.order("kind", { ascending: true }).order("part_number", { ascending: true })
+      ]);
+      return { fitments: unwrap(fitmentRows) || [], cross_references: unwrap(referenceRows) || [] };
+    },
+
+    async replaceItemFitment(itemId, fitments, references) {
+      unwrap(await supabaseAdmin.rpc("replace_item_fitment", { p_item_id: itemId, p_fitments: fitments, p_cross_references: references }));
+      return store.listFitment(itemId);
+    },
+
+    async addFitment(fitments, references) {
+      if (fitments.length > 0) unwrap(await supabaseAdmin.from("vehicle_fitments").insert(fitments));
+      if (references.length > 0) unwrap(await supabaseAdmin.from("part_cross_references").insert(references));
+    },
+
+    async listMovements(itemId) {
+      return unwrap(await supabaseAdmin
+        .from("inventory_movements")
+        .select("*")
+        .eq("inventory_item_id", itemId)
+        .order("created_at", { ascending: true })) || [];
+    },
+
+    async listLocations() {
+      return unwrap(await supabaseAdmin
+        .from("stock_locations")
+        .select("*")
+        .order("is_default", { ascending: false })
+        .order("name", { ascending: true })) || [];
+    },
+
+    async createLocation(location) {
+      return unwrap(await supabaseAdmin.from("stock_locations").insert([location]).select().single());
+    },
+
+    async updateLocation(id, patch) {
+      if (Object.keys(patch).length === 0) return;
+      unwrap(await supabaseAdmin.from("stock_locations").update(patch).eq("id", id));
+    },
+
+    async listLocationStock(locationId) {
+      let query = supabaseAdmin.from("location_stock").select("*");
+      if (locationId) query = query.eq("location_id", locationId);
+      return unwrap(await query.order("location_id", { ascending: true }).order("inventory_item_id", { ascending: true })) || [];
+    },
+
+    async listTerminalLocations() {
+      return unwrap(await supabaseAdmin.from("terminal_locations").select("*").order("terminal_id", { ascending: true })) || [];
+    },
+
+    async setTerminalLocation(terminalId, locationId) {
+      return unwrap(await supabaseAdmin
+        .from("terminal_locations")
+        .upsert({ terminal_id: terminalId, location_id: locationId, updated_at: new Date().toISOString() })
+        .select()
+        .single());
+    },
+
+    async listTransfers(filter = {}) {
+      let query = supabaseAdmin.from("stock_transfers").select("*, lines:stock_transfer_lines(*)");
+      if (filter.status) query = query.eq("status", filter.status);
+      return unwrap(await query.order("dispatched_at", { ascending: false })) || [];
+    },
+
+    async dispatchTransfer(args) {
+      return unwrap(await supabaseAdmin.rpc("dispatch_stock_transfer", { p_transfer: args.transfer, p_lines: args.lines }));
+    },
+
+    async receiveTransfer(id, user) {
+      return unwrap(await supabaseAdmin.rpc("receive_stock_transfer", { p_transfer_id: id, p_user: user }));
+    },
+
+    async listStocktakes(filter = {}) {
+      let query = supabaseAdmin.from("stocktakes").select("*, lines:stocktake_lines(*)");
+      if (filter.status) query = query.eq("status", filter.status);
+      return unwrap(await query.order("started_at", { ascending: false })) || [];
+    },
+
+    async startStocktake(args) {
+      return unwrap(await supabaseAdmin.rpc("start_stocktake", { p_stocktake: args.stocktake }));
+    },
+
+    async recordStocktakeCounts(args) {
+      return unwrap(await supabaseAdmin.rpc("record_stocktake_counts", {
+        p_stocktake_id: args.stocktakeId,
+        p_counts: args.counts,
+        p_user: args.user
+      }));
+    },
+
+    async approveStocktake(id, user) {
+      return unwrap(await supabaseAdmin.rpc("approve_stocktake", { p_stocktake_id: id, p_user: user }));
+    },
+
+    async cancelStocktake(id, user) {
+      return unwrap(await supabaseAdmin.rpc("cancel_stocktake", { p_stocktake_id: id, p_user: user }));
+    },
+
+    async listLedger(filter = {}) {
+      let query = supabaseAdmin.from("ledger").select("*");
+      if (filter.transactionType) {
+        query = query.eq("transaction_type", filter.transactionType);
+      }
+      if (filter.saleId) {
+        query = query.eq("sale_id", filter.saleId);
+      }
+      return unwrap(await query.order("created_at", { ascending: false })) || [];
+    },
+
+    async insertLedgerEntry(entry) {
+      return unwrap(await supabaseAdmin.from("ledger").insert([entry]).select().single());
+    },
+
+    async listBusinessSummaries() {
+      return unwrap(await supabaseAdmin.from("business_summary").select("*")) || [];
+    },
+
+    async getBusinessSummary(categoryId) {
+      return unwrap(await supabaseAdmin.from("business_summary").select("*").eq("category_id", categoryId).maybeSingle());
+    },
+
+    async listCategories() {
+      return unwrap(await supabaseAdmin.from("categories").select("*").order("id", { ascending: true })) || [];
+    },
+
+    async listSaleHeaders() {
+      return unwrap(await supabaseAdmin.from("sales").select("*").order("created_at", { ascending: false })) || [];
+    },
+
+    async getSale(idOrReceiptNo) {
+      const byId = unwrap(await supabaseAdmin.from("sales").select("*").eq("id", idOrReceiptNo).maybeSingle());
+      return byId || unwrap(await supabaseAdmin.from("sales").select("*").eq("receipt_no", idOrReceiptNo).maybeSingle());
+    },
+
+    async listSuppliers() {
+      return unwrap(await supabaseAdmin.from("suppliers").select("*").order("name", { ascending: true })) || [];
+    },
+
+    async createSupplier(supplier) {
+      return unwrap(await supabaseAdmin.from("suppliers").insert([supplier]).select().single());
+    },
+
+    async updateSupplier(id, patch) {
+      unwrap(await supabaseAdmin.from("suppliers").update(patch).eq("id", id));
+    },
+
+    async listCustomers() {
+      return unwrap(await supabaseAdmin.from("customers").select("*").order("name", { ascending: true })) || [];
+    },
+
+    async createCustomer(customer) {
+      const { balance, ...rest } = customer;
+      return unwrap(await supabaseAdmin.from("customers").insert([rest]).select().single());
+    },
+
+    async updateCustomer(id, patch) {
+      const { balance, ...rest } = patch;
+      if (Object.keys(rest).length === 0) return;
+      unwrap(await supabaseAdmin.from("customers").update(rest).eq("id", id));
+    },
+
+    async listCustomerTransactions(filter = {}) {
+      let query = supabaseAdmin.from("customer_transactions").select("*");
+      if (filter.customerId) query = query.eq("customer_id", filter.customerId);
+      if (filter.openOnly) query = query.gt("outstanding", 0);
+      return unwrap(await query.order("created_at", { ascending: true }).order("id", { ascending: true })) || [];
+    },
+
+    async receiveCustomerPayment(customerId, request) {
+      return unwrap(await supabaseAdmin.rpc("receive_customer_payment", {
+        p_customer_id: customerId,
+        p_amount: request.amount,
+        p_method: request.method,
+        p_reference: request.reference || null,
+        p_user: request.receivedBy,
+        p_note: request.note || null
+      }));
+    },
+
+    async listPurchaseOrders() {
+      return unwrap(await supabaseAdmin
+        .from("purchase_orders")
+        .select("*, lines:purchase_order_lines(*)")
+        .order("created_at", { ascending: false })) || [];
+    },
+
+    async createPurchaseOrder(order, lines) {
+      return unwrap(await supabaseAdmin.rpc("create_purchase_order", { p_order: order, p_lines: lines }));
+    },
+
+    async setPurchaseOrderStatus(id, status) {
+      const updated = unwrap(await supabaseAdmin
+        .from("purchase_orders")
+        .update({ status })
+        .eq("id", id)
+        .in("status", PURCHASE_ORDER_TRANSITIONS[status])
+        .select("id")) || [];
+      if (updated.length > 0) return { status: "updated" };
+
+      const current = unwrap(await supabaseAdmin.from("purchase_orders").select("status").eq("id", id).maybeSingle());
+      return current
+        ? { status: "invalid", message: `A ${current.status} purchase order cannot be marked ${status}.` }
+        : { status: "not_found" };
+    },
+
+    async listGoodsReceived() {
+      return unwrap(await supabaseAdmin
+        .from("goods_received_notes")
+        .select("*, lines:goods_received_lines(*)")
+        .order("received_at", { ascending: false })) || [];
+    },
+
+    async receiveGoods(args) {
+      return unwrap(await supabaseAdmin.rpc("receive_goods_at_location", {
+        p_grn: args.grn,
+        p_lines: args.lines,
+        p_entries: args.entries
+      }));
+    },
+
+    async postSale(header, entries, stock) {
+      return unwrap(await supabaseAdmin.rpc("post_sale_at_location", {
+        p_sale: header,
+        p_entries: entries,
+        p_stock: stock
+      }));
+    },
+
+    async listSerials(filter = {}) {
+      let query = supabaseAdmin.from("serial_numbers").select("*");
+      if (filter.id) query = query.eq("id", filter.id);
+      if (filter.itemId) query = query.eq("inventory_item_id", filter.itemId);
+      if (filter.saleId) query = query.eq("sale_id", filter.saleId);
+      if (filter.serialNo) query = query.eq("serial_no", filter.serialNo);
+      if (filter.status) query = query.eq("status", filter.status);
+      return unwrap(await query.order("serial_no", { ascending: true })) || [];
+    },
+
+    async listBatches(filter = {}) {
+      let query = supabaseAdmin.from("stock_batches").select("*");
+      if (filter.id) query = query.eq("id", filter.id);
+      if (filter.itemId) query = query.eq("inventory_item_id", filter.itemId);
+      if (filter.status) query = query.eq("status", filter.status);
+      if (filter.locationId) query = query.eq("location_id", filter.locationId);
+      return unwrap(await query.order("expiry_date", { ascending: true }).order("received_at", { ascending: true })) || [];
+    },
+
+    async quarantineBatch(args) {
+      return unwrap(await supabaseAdmin.rpc("quarantine_batch", {
+        p_batch_id: args.batchId,
+        p_reason: args.reason,
+        p_user: args.user
+      }));
+    },
+
+    async listWarrantyClaims(filter = {}) {
+      let query = supabaseAdmin.from("warranty_claims").select("*");
+      if (filter.serialId) query = query.eq("serial_id", filter.serialId);
+      return unwrap(await query.order("created_at", { ascending: false })) || [];
+    },
+
+    async createWarrantyClaim(claim) {
+      return unwrap(await supabaseAdmin.from("warranty_claims").insert([claim]).select().single());
+    },
+
+    async updateWarrantyClaim(id, { status, from, patch }) {
+      const now = new Date().toISOString();
+      const updated = unwrap(await supabaseAdmin
+        .from("warranty_claims")
+        .update({ ...patch, status, updated_at: now, ...(status === "resolved" ? { resolved_at: now } : {}) })
+        .eq("id", id)
+        .in("status", from)
+        .select()) || [];
+      if (updated.length > 0) return { status: "updated", claim: updated[0] };
+
+      const current = unwrap(await supabaseAdmin.from("warranty_claims").select("status, claim_no").eq("id", id).maybeSingle());
+      return current
+        ? { status: "invalid", message: `${current.claim_no} is ${current.status} and cannot be moved to ${status}.` }
+        : { status: "not_found" };
+    },
+
+    async listShifts(filter = {}) {
+      let query = supabaseAdmin.from("cash_shifts").select("*");
+      if (filter.terminalId) query = query.eq("terminal_id", filter.terminalId);
+      if (filter.status) query = query.eq("status", filter.status);
+      return unwrap(await query.order("opened_at", { ascending: false })) || [];
+    },
+
+    async getShift(id) {
+      return unwrap(await supabaseAdmin.from("cash_shifts").select("*").eq("id", id).maybeSingle());
+    },
+
+    async openShift(shift) {
+      return unwrap(await supabaseAdmin.rpc("open_cash_shift", { p_shift: shift }));
+    },
+
+    async listDrawerMovements(shiftId) {
+      return unwrap(await supabaseAdmin
+        .from("drawer_movements")
+        .select("*")
+        .eq("shift_id", shiftId)
+        .order("created_at", { ascending: true })) || [];
+    },
+
+    async recordDrawerMovement(movement) {
+      return unwrap(await supabaseAdmin.rpc("record_drawer_movement", { p_movement: movement }));
+    },
+
+    async listShiftSales(shiftId) {
+      return unwrap(await supabaseAdmin
+        .from("sales")
+        .select("*")
+        .eq("shift_id", shiftId)
+        .order("created_at", { ascending: true })) || [];
+    },
+
+    async closeShift(args) {
+      return unwrap(await supabaseAdmin.rpc("close_cash_shift", {
+        p_shift_id: args.shiftId,
+        p_close: {
+          closed_by: args.closedBy,
+          closed_at: args.closedAt,
+          denominations: args.denominations,
+          expected: args.expected,
+          counted: args.counted,
+          over_short: args.overShort,
+          notes: args.notes
+        },
+        p_entries: args.entries
+      }));
+    },
+
+    async listReturns(filter = {}) {
+      let query = supabaseAdmin.from("sale_returns").select("*, lines:sale_return_lines(*)");
+      if (filter.saleId) query = query.eq("sale_id", filter.saleId);
+      if (filter.shiftId) query = query.eq("shift_id", filter.shiftId);
+      return unwrap(await query.order("created_at", { ascending: true })) || [];
+    },
+
+    async postReturn(args) {
+      return unwrap(await supabaseAdmin.rpc("post_sale_return_at_location", {
+        p_return: args.saleReturn,
+        p_lines: args.lines,
+        p_entries: args.entries
+      }));
+    },
+
+    async listQuotes() {
+      return unwrap(await supabaseAdmin
+        .from("quotes")
+        .select("*, lines:quote_lines(*)")
+        .order("created_at", { ascending: false })) || [];
+    },
+
+    async createQuote(quote, lines) {
+      return unwrap(await supabaseAdmin.rpc("create_quote", { p_quote: quote, p_lines: lines }));
+    },
+
+    async closeQuote(id, status, user) {
+      const updated = unwrap(await supabaseAdmin
+        .from("quotes")
+        .update({ status, closed_by: user, closed_at: new Date().toISOString() })
+        .eq("id", id)
+        .eq("status", "open")
+        .select("*, lines:quote_lines(*)")) || [];
+      if (updated.length > 0) return { status: "updated", quote: updated[0] };
+
+      const current = unwrap(await supabaseAdmin.from("quotes").select("status, quote_no").eq("id", id).maybeSingle());
+      return current
+        ? { status: "invalid", message: `${current.quote_no} is already ${current.status}.` }
+        : { status: "not_found" };
+    },
+
+    async reverseLedgerEntries(args) {
+      return unwrap(await supabaseAdmin.rpc("reverse_ledger_entries", {
+        p_entry_ids: args.entryIds,
+        p_sale_id: args.saleId,
+        p_reason_code: args.reasonCode,
+        p_note: args.note,
+        p_user: args.user
+      }));
+    },
+
+    async correctLedgerAmount(args) {
+      return unwrap(await supabaseAdmin.rpc("correct_ledger_amount", {
+        p_entry_id: args.entryId,
+        p_amount: args.amount,
+        p_reason_code: args.reasonCode,
+        p_note: args.note,
+        p_user: args.user
+      }));
+    }
+  };
+  return store;
+}
@@ -0,0 +1,367 @@
+import type {
+  BatchFilter,
+  BrandingProfile,
+  BusinessSummary,
+  CashShift,
+  CashShiftStatus,
+  Category,
+  CostingMethod,
+  CrossReferenceInput,
+  Customer,
+  CustomerPaymentRequest,
+  CustomerTransaction,
+  DrawerMovement,
+  FitmentCatalogue,
+  FitmentInput,
+  GoodsReceivedLine,
+  GoodsReceivedNote,
+  InventoryItem,
+  InventoryMovement,
+  LedgerEntry,
+  LocationStock,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  Quote,
+  QuoteLine,
+  QuoteStatus,
+  Sale,
+  SaleReturn,
+  SaleReturnLine,
+  SerialFilter,
+  SerialNumber,
+  StockBatch,
+  StockConflict,
+  StockLocation,
+  StockMovementType,
+  StockTransfer,
+  StockTransferLine,
+  StockTransferStatus,
+  Stocktake,
+  StocktakeLine,
+  StocktakeStatus,
+  Supplier,
+  TerminalLocation,
+  WarrantyClaim,
+  WarrantyClaimStatus
+} from "../../src/types";
+
+export type DataBackend = "supabase" | "sqlite";
+
+export type ItemFitmentInput = FitmentInput & { inventory_item_id: string };
+export type ItemCrossReferenceInput = CrossReferenceInput & { inventory_item_id: string };
+
+export interface LedgerFilter {
+  transactionType?: string;
+  saleId?: string;
+}
+
+export interface StockLine {
+  inventory_item_id: string;
+  quantity: number;
+  serials?: string[]; // Serialised items only, one per unit
+}
+
+// Outcomes mirror the JSON returned by the post_sale / reverse_ledger_entries /
+// correct_ledger_amount functions so both backends can share the route mapping.
+export type PostSaleOutcome =
+  | { status: "posted" | "duplicate" }
+  | { status: "conflict"; conflicts: StockConflict[] }
+  | { status: "invalid"; message: string };
+
+export type AdjustmentOutcome =
+  | { status: "reversed"; count: number }
+  | { status: "corrected"; net: number }
+  | { status: "unchanged" | "not_found" }
+  | { status: "already_reversed"; entry_id: string }
+  | { status: "invalid"; message: string };
+
+export type StockAdjustmentOutcome =
+  | { status: "adjusted"; movement: InventoryMovement }
+  | { status: "unchanged" | "not_found" };
+
+// Sets an item's on-hand quantity at a location (the default location when null), journalling the
+// difference as one movement.
+export interface StockAdjustmentArgs {
+  itemId: string;
+  locationId?: string | null;
+  quantity: number;
+  movementType: Extract<StockMovementType, "opening" | "adjustment" | "stocktake">;
+  reason: string | null;
+  user: string | null;
+}
+
+export type PurchaseOrderOutcome =
+  | { status: "updated" | "not_found" }
+  | { status: "invalid"; message: string };
+
+export type ReceiveGoodsOutcome =
+  | { status: "received"; grn: GoodsReceivedNote }
+  | { status: "invalid"; message: string };
+
+// grn_no is allocated by the store; ledger descriptions are prefixed with it.
+export interface ReceiveGoodsArgs {
+  grn: Omit<GoodsReceivedNote, "id" | "grn_no" | "lines" | "costing_method">; // The store stamps the costing method in force
+  lines: (Pick<GoodsReceivedLine, "inventory_item_id" | "purchase_order_line_id" | "quantity" | "unit_cost"> & {
+    serials?: string[];
+    batch_no?: string;
+    expiry_date?: string;
+  })[];
+  entries: Partial<LedgerEntry>[];
+}
+
+export interface CustomerTransactionFilter {
+  customerId?: string;
+  openOnly?: boolean; // Charges with an amount still outstanding
+}
+
+// receivedBy is the signed-in user, filled in by the route.
+export type CustomerPaymentArgs = CustomerPaymentRequest & { receivedBy: string };
+
+export type CustomerPaymentOutcome =
+  | { status: "received"; transaction: CustomerTransaction }
+  | { status: "not_found" }
+  | { status: "invalid"; message: string };
+
+export interface ShiftFilter {
+  terminalId?: string;
+  status?: CashShiftStatus;
+}
+
+export type OpenShiftOutcome =
+  | { status: "opened"; shift: CashShift }
+  | { status: "invalid"; message: string };
+
+export type DrawerMovementOutcome =
+  | { status: "recorded"; movement: DrawerMovement }
+  | { status: "not_found" }
+  | { status: "invalid"; message: string };
+
+export type CloseShiftOutcome =
+  | { status: "closed"; shift: CashShift }
+  | { status: "not_found" }
+  | { status: "invalid"; message: string };
+
+// The route works out expected and counted amounts; the store freezes them on the shift and
+// posts the over/short row (if any) with shift_id set, in one transaction.
+export interface CloseShiftArgs {
+  shiftId: string;
+  closedBy: string;
+  closedAt: string;
+  denominations: Record<string, number>;
+  expected: Record<string, number>;
+  counted: Record<string, number>;
+  overShort: number;
+  notes: string | null;
+  entries: Partial<LedgerEntry>[]; // One over/short row per tender with a variance
+}
+
+export interface SaleReturnFilter {
+  saleId?: string;
+  shiftId?: string;
+}
+
+export type PostReturnOutcome =
+  | { status: "returned"; sale_return: SaleReturn }
+  | { status: "not_found" }
+  | { status: "invalid"; message: string };
+
+// The route prices the lines and builds the ledger rows; return_no is allocated by the store and
+// prefixed to their descriptions. The store re-checks what is still returnable, then writes the
+// return, restocks and refunds any 'Credit' to the customer's account in one transaction.
+export interface PostReturnArgs {
+  saleReturn: Omit<SaleReturn, "id" | "return_no" | "created_at" | "lines">;
+  lines: (Omit<SaleReturnLine, "id" | "return_id"> & { serials?: string[] })[]; // serials: restocked units, each sold on the sale
+  entries: Partial<LedgerEntry>[];
+}
+
+export type QuoteOutcome =
+  | { status: "updated"; quote: Quote }
+  | { status: "not_found" }
+  | { status: "invalid"; message: string };
+
+export type WarrantyClaimOutcome =
+  | { status: "updated"; claim: WarrantyClaim }
+  | { status: "not_found" }
+  | { status: "invalid"; message: string };
+
+// A claim moves to `status` only from one of `from`; the other fields are written with it.
+export interface WarrantyClaimTransition {
+  status: Exclude<WarrantyClaimStatus, "open">;
+  from: WarrantyClaimStatus[];
+  patch: Partial<Pick<WarrantyClaim, "supplier_id" | "rma_no" | "outcome" | "outcome_note">>;
+}
+
+export type BatchQuarantineOutcome =
+  | { status: "quarantined"; batch: StockBatch }
+  | { status: "not_found" }
+  | { status: "invalid"; message: string };
+
+// Takes what is left of the lot out of stock and expenses its cost to the item's category.
+export interface BatchQuarantineArgs {
+  batchId: string;
+  reason: string;
+  user: string;
+}
+
+export type TransferOutcome =
+  | { status: "dispatched" | "received"; transfer: StockTransfer }
+  | { status: "not_found" }
+  | { status: "invalid"; message: string };
+
+// transfer_no is allocated by the store; each line's unit cost is what its stock left at.
+export interface DispatchTransferArgs {
+  transfer: Pick<StockTransfer, "from_location_id" | "to_location_id" | "notes" | "dispatched_by">;
+  lines: Pick<StockTransferLine, "inventory_item_id" | "quantity">[];
+}
+
+export type StocktakeOutcome =
+  | { status: "started" | "counted" | "approved" | "cancelled"; stocktake: Stocktake }
+  | { status: "not_found" }
+  | { status: "invalid"; message: string };
+
+// stocktake_no is allocated by the store, and the lines are the in-scope items at the location.
+export interface StartStocktakeArgs {
+  stocktake: Pick<Stocktake, "location_id" | "category_id" | "bin" | "notes" | "started_by">;
+}
+
+export interface StocktakeCountArgs {
+  stocktakeId: string;
+  counts: Pick<StocktakeLine, "inventory_item_id" | "counted_quantity">[];
+  user: string;
+}
+
+export interface ReversalArgs {
+  entryIds: string[];
+  saleId: string | null;
+  reasonCode: string;
+  note: string | null;
+  user: string;
+}
+
+export interface CorrectionArgs {
+  entryId: string;
+  amount: number;
+  reasonCode: string;
+  note: string | null;
+  user: string;
+}
+
+// Everything the API needs from persistent storage. Implementations throw on
+// infrastructure failures; business outcomes are returned, not thrown.
+export interface DataStore {
+  readonly backend: DataBackend;
+  readonly isConfigured: boolean;
+
+  listInventory(): Promise<InventoryItem[]>;
+  // The item's starting quantity is journalled as an 'opening' movement by `user`.
+  createInventoryItem(item: Partial<InventoryItem>, user: string | null): Promise<InventoryItem>;
+  // Never touches quantity; stock only changes through movements.
+  updateInventoryItem(id: string, patch: Partial<InventoryItem>): Promise<void>;
+  deleteInventoryItem(id: string): Promise<void>;
+  adjustStock(args: StockAdjustmentArgs): Promise<StockAdjustmentOutcome>;
+  listMovements(itemId: string): Promise<InventoryMovement[]>;
+  getCostingMethod(): Promise<CostingMethod>;
+  setCostingMethod(method: CostingMethod, user: string): Promise<void>;
+  // The single business profile printed on receipts and PDFs; defaults until first saved.
+  getBranding(): Promise<BrandingProfile>;
+  setBranding(profile: Omit<BrandingProfile, "updated_at">): Promise<BrandingProfile>;
+  // Everything recorded, or one item's fitments and part numbers.
+  listFitment(itemId?: string): Promise<FitmentCatalogue>;
+  replaceItemFitment(itemId: string, fitments: FitmentInput[], references: CrossReferenceInput[]): Promise<FitmentCatalogue>;
+  addFitment(fitments: ItemFitmentInput[], references: ItemCrossReferenceInput[]): Promise<void>;
+
+  listLocations(): Promise<StockLocation[]>;
+  createLocation(location: Pick<StockLocation, "code" | "name" | "kind">): Promise<StockLocation>;
+  updateLocation(id: string, patch: Partial<Pick<StockLocation, "name" | "kind" | "active">>): Promise<void>;
+  listLocationStock(locationId?: string): Promise<LocationStock[]>;
+  listTerminalLocations(): Promise<TerminalLocation[]>;
+  setTerminalLocation(terminalId: string, locationId: string): Promise<TerminalLocation>;
+  listTransfers(filter?: { status?: StockTransferStatus }): Promise<StockTransfer[]>;
+  // Takes the stock out of the source location, batch-tracked items from its lots that expire
+  // first; refused when the location does not hold it.
+  dispatchTransfer(args: DispatchTransferArgs): Promise<TransferOutcome>;
+  // Puts an in-transit transfer's stock into its destination, in the batches it left in.
+  receiveTransfer(id: string, user: string): Promise<TransferOutcome>;
+
+  listStocktakes(filter?: { status?: StocktakeStatus }): Promise<Stocktake[]>;
+  // Refused while another count is open at the location.
+  startStocktake(args: StartStocktakeArgs): Promise<StocktakeOutcome>;
+  recordStocktakeCounts(args: StocktakeCountArgs): Promise<StocktakeOutcome>;
+  // Moves each counted line's stock by counted - expected at the location and books the net cost of
+  // the variance per category as a PROFIT expense. Refused while any line is uncounted. The item's
+  // lots there follow: shrinkage off the soonest expiry, found stock into the lot received last.
+  approveStocktake(id: string, user: string): Promise<StocktakeOutcome>;
+  cancelStocktake(id: string, user: string): Promise<StocktakeOutcome>;
+
+  listLedger(filter?: LedgerFilter): Promise<LedgerEntry[]>;
+  insertLedgerEntry(entry: Partial<LedgerEntry>): Promise<LedgerEntry>;
+
+  listBusinessSummaries(): Promise<BusinessSummary[]>;
+  getBusinessSummary(categoryId: string): Promise<BusinessSummary | null>;
+  listCategories(): Promise<Category[]>;
+
+  listSaleHeaders(): Promise<Sale[]>;
+  // By sale id or receipt number.
+  getSale(idOrReceiptNo: string): Promise<Sale | null>;
+  // Serials on the stock lines are marked sold in the same transaction; one already sold refuses the sale.
+  // Batch-tracked stock is taken from the lots at the sale's location that expire first; an expired
+  // lot refuses the sale unless the header carries expiry_override. Stock is checked and taken at
+  // header.location_id.
+  postSale(header: Sale, entries: Record<string, unknown>[], stock: StockLine[]): Promise<PostSaleOutcome>;
+
+  listSuppliers(): Promise<Supplier[]>;
+  createSupplier(supplier: Partial<Supplier>): Promise<Supplier>;
+  updateSupplier(id: string, patch: Partial<Supplier>): Promise<void>;
+  listCustomers(): Promise<Customer[]>;
+  createCustomer(customer: Partial<Customer>): Promise<Customer>;
+  // Never touches balance; it only moves through credit sales, payments, returns and reversals.
+  updateCustomer(id: string, patch: Partial<Customer>): Promise<void>;
+  listCustomerTransactions(filter?: CustomerTransactionFilter): Promise<CustomerTransaction[]>;
+  // Settles the oldest open charges first.
+  receiveCustomerPayment(customerId: string, request: CustomerPaymentArgs): Promise<CustomerPaymentOutcome>;
+
+  listPurchaseOrders(): Promise<PurchaseOrder[]>;
+  createPurchaseOrder(order: Partial<PurchaseOrder>, lines: Pick<PurchaseOrderLine, "inventory_item_id" | "quantity_ordered" | "unit_cost">[]): Promise<PurchaseOrder>;
+  // Only draft -> ordered and open -> cancelled; receiving moves the rest.
+  setPurchaseOrderStatus(id: string, status: Extract<PurchaseOrderStatus, "ordered" | "cancelled">): Promise<PurchaseOrderOutcome>;
+  listGoodsReceived(): Promise<GoodsReceivedNote[]>;
+  // Serials on the lines are registered in stock; one already in stock refuses the receipt.
+  // Batch numbers add to the lot at the GRN's location, which must keep the expiry the batch was
+  // first received with.
+  receiveGoods(args: ReceiveGoodsArgs): Promise<ReceiveGoodsOutcome>;
+
+  listBatches(filter?: BatchFilter): Promise<StockBatch[]>;
+  quarantineBatch(args: BatchQuarantineArgs): Promise<BatchQuarantineOutcome>;
+
+  listSerials(filter?: SerialFilter): Promise<SerialNumber[]>;
+  listWarrantyClaims(filter?: { serialId?: string }): Promise<WarrantyClaim[]>;
+  // claim_no is allocated by the store.
+  createWarrantyClaim(claim: Omit<WarrantyClaim, "id" | "claim_no" | "status" | "created_at" | "updated_at">): Promise<WarrantyClaim>;
+  updateWarrantyClaim(id: string, transition: WarrantyClaimTransition): Promise<WarrantyClaimOutcome>;
+
+  listShifts(filter?: ShiftFilter): Promise<CashShift[]>;
+  getShift(id: string): Promise<CashShift | null>;
+  // At most one shift is open per terminal.
+  openShift(shift: Pick<CashShift, "terminal_id" | "cashier_name" | "opening_float" | "notes">): Promise<OpenShiftOutcome>;
+  listDrawerMovements(shiftId: string): Promise<DrawerMovement[]>;
+  recordDrawerMovement(movement: Omit<DrawerMovement, "id" | "created_at">): Promise<DrawerMovementOutcome>;
+  listShiftSales(shiftId: string): Promise<Sale[]>;
+  closeShift(args: CloseShiftArgs): Promise<CloseShiftOutcome>;
+
+  listReturns(filter?: SaleReturnFilter): Promise<SaleReturn[]>;
+  // Restocked units go back to the lots the sale took them from, at the return's location.
+  postReturn(args: PostReturnArgs): Promise<PostReturnOutcome>;
+
+  listQuotes(): Promise<Quote[]>;
+  // quote_no is allocated by the store.
+  createQuote(quote: Omit<Quote, "id" | "quote_no" | "status" | "created_at" | "lines">, lines: Omit<QuoteLine, "id" | "quote_id">[]): Promise<Quote>;
+  // Only an open quote can be converted or cancelled.
+  closeQuote(id: string, status: Exclude<QuoteStatus, "open">, user: string): Promise<QuoteOutcome>;
+
+  // Lines with customer returns cannot be reversed. Reversed lines of an on-account sale are
+  // credited back to the customer's account, up to what the sale still has charged to it. Their
+  // units go back to the lots the sale took them from.
+  reverseLedgerEntries(args: ReversalArgs): Promise<AdjustmentOutcome>;
+  correctLedgerAmount(args: CorrectionArgs): Promise<AdjustmentOutcome>;
+}
@@ -0,0 +1,118 @@
+import express from "express";
+import { store } from "./db";
+import { respond, RequestError } from "./respond";
+import type { ItemCrossReferenceInput, ItemFitmentInput } from "./db/types";
+import { crossReferenceKey, fitmentKey, validateCrossReference, validateFitment } from "../src/lib/fitment";
+import type { CrossReferenceInput, FitmentImportResult, FitmentInput } from "../src/types";
+
+const optionalString = (val: unknown) =>
+  (typeof val === "string" && val.trim().length > 0 ? val.trim() : null);
+
+const optionalYear = (val: unknown) => (val === undefined || val === null || val === "" ? null : Number(val));
+
+// Most a single import may carry; larger catalogues go in several files.
+const MAX_IMPORT_ROWS = 5000;
+
+const toFitment = (body: any): FitmentInput => ({
+  make: String(body?.make ?? "").trim(),
+  model: String(body?.model ?? "").trim(),
+  year_from: optionalYear(body?.year_from),
+  year_to: optionalYear(body?.year_to),
+  engine: optionalString(body?.engine),
+  notes: optionalString(body?.notes)
+});
+
+const toCrossReference = (body: any): CrossReferenceInput => ({
+  part_number: String(body?.part_number ?? "").trim(),
+  kind: body?.kind,
+  brand: optionalString(body?.brand)
+});
+
+export function validateItemFitment(body: any): string[] {
+  const errors: string[] = [];
+  if (!Array.isArray(body?.fitments)) errors.push("fitments must be an array.");
+  if (!Array.isArray(body?.crossReferences)) errors.push("crossReferences must be an array.");
+  if (errors.length > 0) return errors;
+  body.fitments.forEach((fitment: any, index: number) => {
+    validateFitment(toFitment(fitment)).forEach(error => errors.push(`fitments[${index}].${error}`));
+  });
+  body.crossReferences.forEach((reference: any, index: number) => {
+    validateCrossReference(toCrossReference(reference)).forEach(error => errors.push(`crossReferences[${index}].${error}`));
+  });
+  return errors;
+}
+
+export const fitmentRouter = express.Router();
+
+fitmentRouter.get("/", respond("Fitment fetch", req =>
+  store.listFitment(typeof req.query.itemId === "string" ? req.query.itemId : undefined)
+));
+
+fitmentRouter.put("/items/:itemId", respond("Fitment update", async req => {
+  const errors = validateItemFitment(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const items = await store.listInventory();
+  if (!items.some(item => String(item.id) === req.params.itemId)) throw new RequestError("Inventory item not found.", 404);
+  return store.replaceItemFitment(req.params.itemId, req.body.fitments.map(toFitment), req.body.crossReferences.map(toCrossReference));
+}));
+
+// Adds CSV rows to the catalogue. Rows are matched to items by code; invalid rows are reported
+// and skipped, and rows already recorded are counted as duplicates, so a file can be re-imported.
+fitmentRouter.post("/import", respond("Fitment import", async req => {
+  const rows = req.body?.rows;
+  if (!Array.isArray(rows) || rows.length === 0) throw new RequestError("rows must be a non-empty array.");
+  if (rows.length > MAX_IMPORT_ROWS) throw new RequestError(`An import may carry at most ${MAX_IMPORT_ROWS} rows.`);
+
+  const [items, existing] = await Promise.all([store.listInventory(), store.listFitment()]);
+  const itemIdsByCode = new Map(items.filter(item => item.code).map(item => [String(item.code).trim().toLowerCase(), String(item.id)]));
+  const seen = new Set([
+    ...existing.fitments.map(f => fitmentKey(String(f.inventory_item_id), f)),
+    ...existing.cross_references.map(r => crossReferenceKey(String(r.inventory_item_id), r))
+  ]);
+
+  const fitments: ItemFitmentInput[] = [];
+  const references: ItemCrossReferenceInput[] = [];
+  const result: FitmentImportResult = { fitments: 0, cross_references: 0, duplicates: 0, errors: [] };
+
+  rows.forEach((row: any, index: number) => {
+    const label = `Row ${Number(row?.line) || index + 2}`;
+    const itemId = itemIdsByCode.get(String(row?.code ?? "").trim().toLowerCase());
+    if (!itemId) {
+      result.errors.push(`${label}: no item has code "${String(row?.code ?? "").trim()}".`);
+      return;
+    }
+    const hasFitment = Boolean(optionalString(row.make) || optionalString(row.model));
+    const hasReference = Boolean(optionalString(row.part_number));
+    if (!hasFitment && !hasReference) {
+      result.errors.push(`${label}: needs make and model, a part_number, or both.`);
+      return;
+    }
+    const fitment = toFitment(row);
+    const reference = toCrossReference({ ...row, kind: row.part_kind || "oem" });
+    const rowErrors = [
+      ...(hasFitment ? validateFitment(fitment) : []),
+      ...(hasReference ? validateCrossReference(reference) : [])
+    ];
+    if (rowErrors.length > 0) {
+      result.errors.push(`${label}: ${rowErrors.join(" ")}`);
+      return;
+    }
+    if (hasFitment) {
+      const key = fitmentKey(itemId, fitment);
+      if (seen.has(key)) result.duplicates++;
+      else fitments.push({ ...fitment, inventory_item_id: itemId });
+      seen.add(key);
+    }
+    if (hasReference) {
+      const key = crossReferenceKey(itemId, reference);
+      if (seen.has(key)) result.duplicates++;
+      else references.push({ ...reference, inventory_item_id: itemId });
+      seen.add(key);
+    }
+  });
+
+  await store.addFitment(fitments, references);
+  result.fitments = fitments.length;
+  result.cross_references = references.length;
+  return result;
+}));
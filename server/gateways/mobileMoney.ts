@@ -0,0 +1,41 @@
+import { createMobileMoneySimulator } from "./mobileMoneySimulator";
+import type { MobileMoneyProvider, MobileMoneyRequest } from "../../src/types";
+
+export interface MobileMoneyPaymentArgs {
+  provider: MobileMoneyProvider;
+  msisdn: string;
+  amount: number;
+  reference: string;
+}
+
+// A mobile money collection gateway: an aggregator or an operator's own API. requestPayment
+// pushes a payment prompt to the customer's phone; the till then polls getPayment until the
+// request is confirmed (with the provider's transaction id) or fails.
+export interface MobileMoneyGateway {
+  readonly name: string;
+  requestPayment(args: MobileMoneyPaymentArgs): Promise<MobileMoneyRequest>;
+  getPayment(id: string): Promise<MobileMoneyRequest | null>;
+  // Stops waiting on a pending request. Requests that already settled are returned unchanged.
+  cancelPayment(id: string): Promise<MobileMoneyRequest | null>;
+}
+
+const GATEWAYS: Record<string, () => MobileMoneyGateway> = {
+  simulator: () => createMobileMoneySimulator({
+    confirmAfterMs: Number(process.env.MOBILE_MONEY_SIMULATOR_DELAY_MS) || 5000
+  })
+};
+
+// MOBILE_MONEY_GATEWAY picks the implementation. "none", the default, turns mobile money requests
+// off and leaves the till with reference-number entry only; the simulator must be asked for, since
+// it confirms payments no customer made.
+export const mobileMoneyGatewayName = process.env.MOBILE_MONEY_GATEWAY || "none";
+
+export const mobileMoneyGateway: MobileMoneyGateway | null = (() => {
+  if (mobileMoneyGatewayName === "none") return null;
+  const create = GATEWAYS[mobileMoneyGatewayName];
+  if (!create) {
+    console.warn(`Unknown MOBILE_MONEY_GATEWAY "${mobileMoneyGatewayName}"; mobile money requests are disabled.`);
+    return null;
+  }
+  return create();
+})();
@@ -0,0 +1,97 @@
+import { randomBytes, randomUUID } from "crypto";
+import type { MobileMoneyGateway, MobileMoneyPaymentArgs } from "./mobileMoney";
+import type { MobileMoneyRequest } from "../../src/types";
+
+interface SimulatorOptions {
+  confirmAfterMs: number;
+  expireAfterMs?: number;
+  retainAfterMs?: number; // How long a settled request stays readable for the till to pick up
+}
+
+// Provider transaction ids look like the real thing so receipts and cash-ups read naturally.
+const TRANSACTION_PREFIX: Record<string, string> = {
+  mpesa: "SM",
+  tigopesa: "ST",
+  airtelmoney: "SA"
+};
+
+// In-memory stand-in for a live gateway, for development and demos. The customer's number
+// decides the outcome once confirmAfterMs has passed:
+//   ...000  declined (insufficient funds)
+//   ...999  never answered, failing once the request expires
+//   other   confirmed with a generated transaction id
+// Requests are lost when the server restarts, and dropped retainAfterMs after they settle.
+export function createMobileMoneySimulator({ confirmAfterMs, expireAfterMs = 120000, retainAfterMs = 600000 }: SimulatorOptions): MobileMoneyGateway {
+  const requests = new Map<string, MobileMoneyRequest>();
+
+  const settle = (request: MobileMoneyRequest): MobileMoneyRequest => {
+    if (request.status !== "pending") return request;
+    const age = Date.now() - Date.parse(request.created_at);
+    let settled: Partial<MobileMoneyRequest> | null = null;
+
+    if (request.msisdn.endsWith("999")) {
+      if (age >= expireAfterMs) settled = { status: "failed", message: "The customer did not respond." };
+    } else if (age >= confirmAfterMs) {
+      settled = request.msisdn.endsWith("000")
+        ? { status: "failed", message: "Insufficient funds." }
+        : {
+            status: "confirmed",
+            transaction_id: (TRANSACTION_PREFIX[request.provider] || "SX") + randomBytes(4).toString("hex").toUpperCase()
+          };
+    }
+    if (!settled) return request;
+
+    const updated = { ...request, ...settled, updated_at: new Date().toISOString() };
+    requests.set(request.id, updated);
+    return updated;
+  };
+
+  // Every request settles in time, so settling the lot and dropping old outcomes bounds the map.
+  const prune = () => {
+    const now = Date.now();
+    requests.forEach(request => {
+      const current = settle(request);
+      if (current.status !== "pending" && now - Date.parse(current.updated_at) >= retainAfterMs) {
+        requests.delete(current.id);
+      }
+    });
+  };
+
+  return {
+    name: "simulator",
+
+    async requestPayment(args: MobileMoneyPaymentArgs) {
+      prune();
+      const now = new Date().toISOString();
+      const request: MobileMoneyRequest = {
+        id: randomUUID(),
+        provider: args.provider,
+        msisdn: args.msisdn,
+        amount: args.amount,
+        reference: args.reference,
+        status: "pending",
+        transaction_id: null,
+        message: null,
+        created_at: now,
+        updated_at: now
+      };
+      requests.set(request.id, request);
+      return request;
+    },
+
+    async getPayment(id) {
+      const request = requests.get(id);
+      return request ? settle(request) : null;
+    },
+
+    async cancelPayment(id) {
+      const request = requests.get(id);
+      if (!request) return null;
+      const current = settle(request);
+      if (current.status !== "pending") return current;
+      const cancelled: MobileMoneyRequest = { ...current, status: "cancelled", updated_at: new Date().toISOString() };
+      requests.set(id, cancelled);
+      return cancelled;
+    }
+  };
+}
@@ -0,0 +1,133 @@
+import express from "express";
+import { store } from "./db";
+import { respond, RequestError } from "./respond";
+import { sessionUser } from "./auth";
+import { resolveLocation } from "./locations";
+import { BARCODE_SYMBOLOGIES, generateItemCodes, isBarcodeSymbology } from "../src/lib/barcodes";
+import { validateItemUnits } from "../src/lib/units";
+import { itemsAtLocation } from "../src/lib/locations";
+
+const isNonEmptyString = (val: unknown): val is string =>
+  typeof val === "string" && val.trim().length > 0;
+
+const isStockQuantity = (val: unknown): val is number =>
+  typeof val === "number" && Number.isInteger(val) && val >= 0;
+
+// A quantity in a PATCH is a manual stock adjustment and must say why; the session says who.
+export function validateStockAdjustment(body: any): string[] {
+  const errors: string[] = [];
+  if (!isStockQuantity(body?.quantity)) {
+    errors.push("quantity must be a non-negative whole number.");
+  }
+  if (!isNonEmptyString(body?.adjustment?.reason)) {
+    errors.push("adjustment.reason is required when changing quantity.");
+  }
+  if (body?.adjustment?.locationId !== undefined && !isNonEmptyString(body.adjustment.locationId)) {
+    errors.push("adjustment.locationId must be a non-empty string when provided.");
+  }
+  return errors;
+}
+
+// base_unit and units describe how quantity is counted and packed; both are optional.
+export function validateUnits(body: any): string[] {
+  const errors: string[] = [];
+  if (body?.base_unit != null && typeof body.base_unit !== "string") {
+    errors.push("base_unit must be a string when provided.");
+  }
+  return [...errors, ...validateItemUnits(body?.units, body?.base_unit)];
+}
+
+// serialised items need a serial per unit at receiving and sale; warranty_months is printed on receipts.
+export function validateWarranty(body: any): string[] {
+  const errors: string[] = [];
+  if (body?.serialised !== undefined && typeof body.serialised !== "boolean") {
+    errors.push("serialised must be a boolean when provided.");
+  }
+  if (body?.warranty_months != null && !isStockQuantity(body.warranty_months)) {
+    errors.push("warranty_months must be a non-negative whole number when provided.");
+  }
+  if (body?.batch_tracked !== undefined && typeof body.batch_tracked !== "boolean") {
+    errors.push("batch_tracked must be a boolean when provided.");
+  }
+  return errors;
+}
+
+// bin is the shelf the item is kept on; stocktakes can count one bin at a time.
+export function validateBin(body: any): string[] {
+  return body?.bin != null && typeof body.bin !== "string" ? ["bin must be a string when provided."] : [];
+}
+
+export const inventoryRouter = express.Router();
+
+// With a locationId, quantity is what is on hand there; without, the consolidated total.
+inventoryRouter.get("/", respond("Inventory fetch", async req => {
+  const locationId = typeof req.query.locationId === "string" && req.query.locationId ? req.query.locationId : undefined;
+  const [items, stock, transfers] = await Promise.all([
+    store.listInventory(),
+    locationId ? store.listLocationStock(locationId) : Promise.resolve([]),
+    store.listTransfers({ status: "in_transit" })
+  ]);
+  return itemsAtLocation(items, stock, transfers, locationId);
+}));
+
+inventoryRouter.post("/", respond("Inventory create", req => {
+  if (!req.body?.name || req.body.category_id === undefined || req.body.category_id === "") {
+    throw new RequestError("name and category_id are required.");
+  }
+  if (req.body.quantity !== undefined && !isStockQuantity(req.body.quantity)) {
+    throw new RequestError("quantity must be a non-negative whole number.");
+  }
+  const detailErrors = [...validateUnits(req.body), ...validateWarranty(req.body), ...validateBin(req.body)];
+  if (detailErrors.length > 0) throw new RequestError(detailErrors.join(" "));
+  // Older clients still send performedBy; it is not a column and the session user is recorded.
+  const { performedBy, ...item } = req.body;
+  return store.createInventoryItem(item, sessionUser(req));
+}, 201));
+
+// Numbers items that have no code yet, continuing after the highest code already issued.
+inventoryRouter.post("/codes", respond("Item code generation", async req => {
+  const { symbology, itemIds } = req.body || {};
+  if (!isBarcodeSymbology(symbology)) {
+    throw new RequestError(`symbology must be one of ${BARCODE_SYMBOLOGIES.map(s => s.code).join(", ")}.`);
+  }
+  if (itemIds !== undefined && (!Array.isArray(itemIds) || !itemIds.every(isNonEmptyString))) {
+    throw new RequestError("itemIds must be an array of item ids when provided.");
+  }
+  const items = await store.listInventory();
+  const blank = items.filter(item => !String(item.code || "").trim() && (!itemIds || itemIds.includes(String(item.id))));
+  const codes = generateItemCodes(symbology, blank, items.map(item => String(item.code || "").trim()));
+  for (const [id, code] of Object.entries(codes)) {
+    await store.updateInventoryItem(id, { code });
+  }
+  return codes;
+}));
+
+inventoryRouter.patch("/:id", respond("Inventory update", async req => {
+  const { quantity, adjustment, ...patch } = req.body || {};
+  const detailErrors = [...validateUnits(patch), ...validateWarranty(patch), ...validateBin(patch)];
+  if (detailErrors.length > 0) throw new RequestError(detailErrors.join(" "));
+  if (quantity !== undefined) {
+    const errors = validateStockAdjustment(req.body);
+    if (errors.length > 0) throw new RequestError(errors.join(" "));
+    // The quantity counted at one location; the default location when none is named.
+    const location = await resolveLocation(adjustment.locationId);
+    const outcome = await store.adjustStock({
+      itemId: req.params.id,
+      quantity,
+      locationId: location ? String(location.id) : null,
+      movementType: "adjustment",
+      reason: adjustment.reason.trim(),
+      user: sessionUser(req)
+    });
+    if (outcome.status === "not_found") throw new RequestError("Inventory item not found.", 404);
+  }
+  await store.updateInventoryItem(req.params.id, patch);
+  return { id: req.params.id };
+}));
+
+inventoryRouter.delete("/:id", respond("Inventory delete", async req => {
+  await store.deleteInventoryItem(req.params.id);
+  return { id: req.params.id };
+}));
+
+inventoryRouter.get("/:id/movements", respond("Stock movement fetch", req => store.listMovements(req.params.id)));
@@ -0,0 +1,154 @@
+import express from "express";
+import { store } from "./db";
+import type { AdjustmentOutcome } from "./db/types";
+import { respond, RequestError } from "./respond";
+import { sessionUser } from "./auth";
+import { ADJUSTMENT_REASONS } from "../src/lib/adjustments";
+import type { LedgerAdjustmentResult } from "../src/types";
+
+const isNonEmptyString = (val: unknown): val is string =>
+  typeof val === "string" && val.trim().length > 0;
+
+function validateAuditFields(body: any): string[] {
+  const errors: string[] = [];
+  if (!ADJUSTMENT_REASONS.some(r => r.code === body?.reasonCode)) {
+    errors.push(`reasonCode must be one of ${ADJUSTMENT_REASONS.map(r => r.code).join(", ")}.`);
+  }
+  if (body?.reasonCode === "OTHER" && !isNonEmptyString(body?.note)) {
+    errors.push("note is required when reasonCode is OTHER.");
+  }
+  return errors;
+}
+
+export function validateReversal(body: any): string[] {
+  const errors = validateAuditFields(body);
+  const hasIds = Array.isArray(body?.entryIds) && body.entryIds.length > 0;
+  if (!hasIds && !isNonEmptyString(body?.saleId)) {
+    errors.push("entryIds or saleId is required.");
+  }
+  if (hasIds && !body.entryIds.every((id: unknown) => isNonEmptyString(id) || typeof id === "number")) {
+    errors.push("entryIds must contain ledger entry ids.");
+  }
+  return errors;
+}
+
+export function validateCorrection(body: any): string[] {
+  const errors = validateAuditFields(body);
+  if (!isNonEmptyString(body?.entryId) && typeof body?.entryId !== "number") {
+    errors.push("entryId is required.");
+  }
+  if (typeof body?.amount !== "number" || !Number.isFinite(body.amount) || body.amount < 0) {
+    errors.push("amount must be a non-negative number.");
+  }
+  return errors;
+}
+
+// Maps a store adjustment outcome onto the API result.
+function toResult(outcome: AdjustmentOutcome): LedgerAdjustmentResult {
+  switch (outcome?.status) {
+    case "reversed":
+      return { status: "reversed", count: Number(outcome.count) || 0 };
+    case "corrected":
+      return { status: "corrected", net: Number(outcome.net) };
+    case "unchanged":
+      return { status: "unchanged" };
+    case "already_reversed":
+      return { status: "already_reversed", entryId: String(outcome.entry_id) };
+    case "not_found":
+      return { status: "not_found" };
+    case "invalid":
+      return { status: "invalid", errors: [outcome.message || "Adjustment rejected."] };
+    default:
+      return { status: "error", message: "Unexpected adjustment response." };
+  }
+}
+
+const STATUS_CODES: Record<LedgerAdjustmentResult["status"], number> = {
+  reversed: 201,
+  corrected: 201,
+  unchanged: 200,
+  already_reversed: 409,
+  not_found: 404,
+  invalid: 400,
+  error: 500
+};
+
+async function runAdjustment(res: express.Response, errors: string[], adjust: () => Promise<AdjustmentOutcome>) {
+  if (errors.length > 0) {
+    const result: LedgerAdjustmentResult = { status: "invalid", errors };
+    res.status(400).json(result);
+    return;
+  }
+  if (!store.isConfigured) {
+    const result: LedgerAdjustmentResult = { status: "error", message: "The data backend is not configured on the server." };
+    res.status(503).json(result);
+    return;
+  }
+
+  try {
+    const result = toResult(await adjust());
+    res.status(STATUS_CODES[result.status]).json(result);
+  } catch (err: any) {
+    console.error("Ledger adjustment failed:", err);
+    const result: LedgerAdjustmentResult = { status: "error", message: err?.message || "Ledger adjustment failed." };
+    res.status(500).json(result);
+  }
+}
+
+// Outflows are the only rows written directly; sales go through POST /api/sales and
+// every change to an existing row is a compensating entry.
+const OUTFLOW_TYPES = ["expense", "CAPITAL_WITHDRAWAL", "capital_withdrawal"];
+
+export function validateOutflow(body: any): string[] {
+  const errors: string[] = [];
+  if (!OUTFLOW_TYPES.includes(body?.transaction_type)) {
+    errors.push(`transaction_type must be one of ${OUTFLOW_TYPES.join(", ")}.`);
+  }
+  if (body?.category_id === undefined || body?.category_id === null || body?.category_id === "") {
+    errors.push("category_id is required.");
+  }
+  if (typeof body?.amount !== "number" || !Number.isFinite(body.amount) || body.amount <= 0) {
+    errors.push("amount must be a positive number.");
+  }
+  if (!isNonEmptyString(body?.description)) {
+    errors.push("description is required.");
+  }
+  return errors;
+}
+
+export const ledgerRouter = express.Router();
+
+ledgerRouter.get("/", respond("Ledger fetch", req =>
+  store.listLedger({ transactionType: typeof req.query.transaction_type === "string" ? req.query.transaction_type : undefined })
+));
+
+ledgerRouter.post("/", respond("Outflow posting", async req => {
+  const errors = validateOutflow(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const { category_id, amount, transaction_type, fund_source, description, created_at } = req.body;
+  return store.insertLedgerEntry({ category_id, amount, transaction_type, fund_source, description, created_at });
+}, 201));
+
+ledgerRouter.post("/reversals", (req, res) =>
+  runAdjustment(res, validateReversal(req.body), () =>
+    store.reverseLedgerEntries({
+      entryIds: (req.body.entryIds || []).map(String),
+      saleId: req.body.saleId || null,
+      reasonCode: req.body.reasonCode,
+      note: req.body.note || null,
+      user: sessionUser(req)
+    })
+  )
+);
+
+ledgerRouter.post("/corrections", (req, res) =>
+  runAdjustment(res, validateCorrection(req.body), () =>
+    store.correctLedgerAmount({
+      entryId: String(req.body.entryId),
+      amount: req.body.amount,
+      reasonCode: req.body.reasonCode,
+      note: req.body.note || null,
+      user: sessionUser(req)
+    })
+  )
+);
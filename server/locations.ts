@@ -0,0 +1,135 @@
+import express from "express";
+import { store } from "./db";
+import { respond, RequestError } from "./respond";
+import { sessionUser } from "./auth";
+import { defaultLocation, isStockLocationKind, STOCK_LOCATION_KINDS, terminalLocationId } from "../src/lib/locations";
+import type { StockTransferRequest, StockTransferStatus } from "../src/types";
+
+const isNonEmptyString = (val: unknown): val is string =>
+  typeof val === "string" && val.trim().length > 0;
+
+const isPositiveInteger = (val: unknown): val is number =>
+  typeof val === "number" && Number.isInteger(val) && val > 0;
+
+const optionalString = (val: unknown) => (isNonEmptyString(val) ? val.trim() : null);
+
+const TRANSFER_STATUSES: StockTransferStatus[] = ["in_transit", "received"];
+
+export function validateLocation(body: any, partial = false): string[] {
+  const errors: string[] = [];
+  if (!partial && !isNonEmptyString(body?.code)) errors.push("code is required.");
+  if (!partial || body?.name !== undefined) {
+    if (!isNonEmptyString(body?.name)) errors.push("name is required.");
+  }
+  if (body?.kind !== undefined && !isStockLocationKind(body.kind)) {
+    errors.push(`kind must be one of ${STOCK_LOCATION_KINDS.map(k => k.code).join(", ")}.`);
+  }
+  if (body?.active !== undefined && typeof body.active !== "boolean") {
+    errors.push("active must be a boolean when provided.");
+  }
+  return errors;
+}
+
+export function validateTransfer(body: any): string[] {
+  const errors: string[] = [];
+  if (!isNonEmptyString(body?.fromLocationId)) errors.push("fromLocationId is required.");
+  if (!isNonEmptyString(body?.toLocationId)) errors.push("toLocationId is required.");
+  if (body?.notes !== undefined && typeof body.notes !== "string") errors.push("notes must be a string when provided.");
+  if (!Array.isArray(body?.lines) || body.lines.length === 0) {
+    errors.push("lines must contain at least one line.");
+    return errors;
+  }
+  body.lines.forEach((line: any, index: number) => {
+    if (!isNonEmptyString(line?.inventoryItemId)) errors.push(`lines[${index}].inventoryItemId is required.`);
+    if (!isPositiveInteger(line?.quantity)) errors.push(`lines[${index}].quantity must be a positive whole number.`);
+  });
+  return errors;
+}
+
+// An active location by id, or the default location when none is given.
+export async function resolveLocation(locationId: unknown) {
+  const locations = await store.listLocations();
+  if (locationId === undefined || locationId === null || locationId === "") return defaultLocation(locations);
+  const location = locations.find(l => String(l.id) === String(locationId));
+  if (!location) throw new RequestError("Location not found.");
+  if (!location.active) throw new RequestError(`${location.name} is inactive.`);
+  return location;
+}
+
+// Where a terminal's sales and returns take stock from and put it back.
+export async function terminalLocation(terminalId: string) {
+  const [bindings, locations] = await Promise.all([store.listTerminalLocations(), store.listLocations()]);
+  return terminalLocationId(bindings, locations, terminalId) || null;
+}
+
+export const locationsRouter = express.Router();
+
+locationsRouter.get("/", respond("Location fetch", () => store.listLocations()));
+
+locationsRouter.post("/", respond("Location create", async req => {
+  const errors = validateLocation(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const code = req.body.code.trim().toUpperCase();
+  if ((await store.listLocations()).some(l => l.code === code)) throw new RequestError(`Location code ${code} is already in use.`, 409);
+  return store.createLocation({ code, name: req.body.name.trim(), kind: req.body.kind || "shop" });
+}, 201));
+
+// The default location stays active: stock with no location lands there.
+locationsRouter.patch("/:id", respond("Location update", async req => {
+  const errors = validateLocation(req.body, true);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const location = (await store.listLocations()).find(l => String(l.id) === req.params.id);
+  if (!location) throw new RequestError("Location not found.", 404);
+  if (location.is_default && req.body.active === false) throw new RequestError("The default location cannot be deactivated.", 409);
+  await store.updateLocation(req.params.id, {
+    ...(req.body.name !== undefined ? { name: req.body.name.trim() } : {}),
+    ...(req.body.kind !== undefined ? { kind: req.body.kind } : {}),
+    ...(req.body.active !== undefined ? { active: req.body.active } : {})
+  });
+  return { id: req.params.id };
+}));
+
+locationsRouter.get("/stock", respond("Location stock fetch", req =>
+  store.listLocationStock(typeof req.query.locationId === "string" ? req.query.locationId : undefined)
+));
+
+locationsRouter.get("/terminals", respond("Terminal location fetch", () => store.listTerminalLocations()));
+
+locationsRouter.put("/terminals/:terminalId", respond("Terminal location update", async req => {
+  if (!isNonEmptyString(req.body?.locationId)) throw new RequestError("locationId is required.");
+  const location = await resolveLocation(req.body.locationId);
+  return store.setTerminalLocation(req.params.terminalId.trim().toUpperCase(), String(location.id));
+}));
+
+locationsRouter.get("/transfers", respond("Transfer fetch", req => {
+  const status = req.query.status as StockTransferStatus | undefined;
+  if (status !== undefined && !TRANSFER_STATUSES.includes(status)) {
+    throw new RequestError(`status must be one of ${TRANSFER_STATUSES.join(", ")}.`);
+  }
+  return store.listTransfers({ status });
+}));
+
+locationsRouter.post("/transfers", respond("Transfer dispatch", async req => {
+  const errors = validateTransfer(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const request = req.body as StockTransferRequest;
+  const outcome = await store.dispatchTransfer({
+    transfer: {
+      from_location_id: request.fromLocationId,
+      to_location_id: request.toLocationId,
+      notes: optionalString(request.notes),
+      dispatched_by: sessionUser(req)
+    },
+    lines: request.lines.map(line => ({ inventory_item_id: line.inventoryItemId, quantity: line.quantity }))
+  });
+  if (outcome.status === "invalid") throw new RequestError(outcome.message, 409);
+  if (outcome.status === "not_found") throw new RequestError("Transfer not found.", 404);
+  return outcome.transfer;
+}, 201));
+
+locationsRouter.post("/transfers/:id/receive", respond("Transfer receipt", async req => {
+  const outcome = await store.receiveTransfer(req.params.id, sessionUser(req));
+  if (outcome.status === "not_found") throw new RequestError("Transfer not found.", 404);
+  if (outcome.status === "invalid") throw new RequestError(outcome.message, 409);
+  return outcome.transfer;
+}));
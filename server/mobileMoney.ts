@@ -0,0 +1,58 @@
+import express from "express";
+import { respond, RequestError } from "./respond";
+import { mobileMoneyGateway, mobileMoneyGatewayName } from "./gateways/mobileMoney";
+import { isMobileMoneyProvider, isValidMsisdn, MOBILE_MONEY_PROVIDERS, normalizeMsisdn } from "../src/lib/mobileMoney";
+
+const isNonEmptyString = (val: unknown): val is string =>
+  typeof val === "string" && val.trim().length > 0;
+
+export function validateMobileMoneyRequest(body: any): string[] {
+  const errors: string[] = [];
+  if (!isMobileMoneyProvider(body?.provider)) {
+    errors.push(`provider must be one of ${MOBILE_MONEY_PROVIDERS.map(p => p.code).join(", ")}.`);
+  }
+  if (!isNonEmptyString(body?.msisdn) || !isValidMsisdn(body.msisdn)) {
+    errors.push("msisdn must be a phone number.");
+  }
+  if (typeof body?.amount !== "number" || !Number.isFinite(body.amount) || body.amount <= 0) {
+    errors.push("amount must be a positive number.");
+  }
+  if (!isNonEmptyString(body?.reference)) errors.push("reference is required.");
+  return errors;
+}
+
+function requireGateway() {
+  if (!mobileMoneyGateway) throw new RequestError("No mobile money gateway is configured on the server.", 503);
+  return mobileMoneyGateway;
+}
+
+export const mobileMoneyRouter = express.Router();
+
+// Which gateway the till is talking to, so it can flag simulated payments.
+mobileMoneyRouter.get("/", respond("Mobile money gateway", async () => ({
+  gateway: mobileMoneyGateway ? mobileMoneyGatewayName : null
+})));
+
+mobileMoneyRouter.post("/requests", respond("Mobile money request", async req => {
+  const errors = validateMobileMoneyRequest(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  return requireGateway().requestPayment({
+    provider: req.body.provider,
+    msisdn: normalizeMsisdn(req.body.msisdn),
+    amount: Math.round(req.body.amount * 100) / 100,
+    reference: req.body.reference.trim()
+  });
+}, 201));
+
+mobileMoneyRouter.get("/requests/:id", respond("Mobile money status", async req => {
+  const request = await requireGateway().getPayment(req.params.id);
+  if (!request) throw new RequestError("Mobile money request not found.", 404);
+  return request;
+}));
+
+mobileMoneyRouter.post("/requests/:id/cancel", respond("Mobile money cancel", async req => {
+  const request = await requireGateway().cancelPayment(req.params.id);
+  if (!request) throw new RequestError("Mobile money request not found.", 404);
+  if (request.status !== "cancelled") throw new RequestError(`The request is already ${request.status}.`, 409);
+  return request;
+}));
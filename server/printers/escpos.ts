@@ -0,0 +1,198 @@
+import { tenderKey, tenderLabel } from "../../src/lib/sales";
+import type { ReceiptLine, Sale } from "../../src/types";
+
+export type PaperWidth = 58 | 80;
+
+// Characters per line in the printer's default font A.
+export const PAPER_COLUMNS: Record<PaperWidth, number> = { 58: 32, 80: 48 };
+
+// Printable dots per line, the widest a raster logo can be.
+const PAPER_DOTS: Record<PaperWidth, number> = { 58: 384, 80: 576 };
+
+// A 1-bit image in ESC/POS raster order: rows top to bottom, 8 dots per byte, MSB first, 1 = black.
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Receipt printers ship with code page 437; anything outside ASCII is folded or replaced so a
+// stray accent cannot garble the rest of the line.
+const toAscii = (text: string) =>
+  text.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").replace(/[^\x20-\x7e]/g, "?");
+
+// Fluent writer for the ESC/POS subset every 58/80mm thermal printer understands.
+export class EscPosBuilder {
+  private readonly bytes: number[] = [];
+
+  constructor(readonly columns: number) {
+    this.raw(ESC, 0x40); // Initialise
+  }
+
+  raw(...bytes: number[]) {
+    this.bytes.push(...bytes);
+    return this;
+  }
+
+  text(text: string) {
+    for (const char of toAscii(text)) this.bytes.push(char.charCodeAt(0));
+    return this;
+  }
+
+  line(text = "") {
+    return this.text(text).raw(LF);
+  }
+
+  align(align: "left" | "center" | "right") {
+    return this.raw(ESC, 0x61, align === "left" ? 0 : align === "center" ? 1 : 2);
+  }
+
+  bold(on: boolean) {
+    return this.raw(ESC, 0x45, on ? 1 : 0);
+  }
+
+  // Double width and height; a double-width line holds half the columns.
+  large(on: boolean) {
+    return this.raw(GS, 0x21, on ? 0x11 : 0x00);
+  }
+
+  rule(char = "-") {
+    return this.line(char.repeat(this.columns));
+  }
+
+  // Label on the left, value on the right, the label truncated when both do not fit.
+  pair(left: string, right: string) {
+    const space = Math.max(1, this.columns - right.length);
+    const label = left.length >= space ? left.slice(0, space - 1) : left;
+    return this.line(label.padEnd(space) + right);
+  }
+
+  feed(lines = 1) {
+    return this.raw(ESC, 0x64, Math.max(0, Math.min(lines, 255)));
+  }
+
+  // GS v 0: prints a raster image at normal density.
+  image(image: RasterImage) {
+    const bytesPerRow = Math.ceil(image.width / 8);
+    this.raw(GS, 0x76, 0x30, 0, bytesPerRow & 0xff, bytesPerRow >> 8, image.height & 0xff, image.height >> 8);
+    image.data.forEach(byte => this.bytes.push(byte));
+    return this;
+  }
+
+  // GS ( k: the printer draws the QR code itself (model 2, error correction M).
+  qr(data: string, moduleSize = 6) {
+    const payload = toAscii(data);
+    const length = payload.length + 3;
+    this.raw(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0x00)
+      .raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, Math.max(1, Math.min(moduleSize, 16)))
+      .raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31)
+      .raw(GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30)
+      .text(payload);
+    return this.raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30);
+  }
+
+  // Feeds past the tear bar, then a partial cut.
+  cut() {
+    return this.raw(GS, 0x56, 0x42, 0x03);
+  }
+
+  // ESC p: pulses the cash drawer on connector pin 2.
+  kickDrawer() {
+    return this.raw(ESC, 0x70, 0x00, 0x19, 0xfa);
+  }
+
+  build() {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+// Reads a binary PBM (P4) file, which is already packed the way GS v 0 expects. Wider logos than
+// the paper are rejected rather than printed garbled.
+export function parsePbm(file: Uint8Array, paperWidth: PaperWidth): RasterImage {
+  const header: string[] = [];
+  let offset = 0;
+  while (header.length < 3 && offset < file.length) {
+    while (offset < file.length && /\s/.test(String.fromCharCode(file[offset]))) offset++;
+    if (file[offset] === 0x23) {
+      while (offset < file.length && file[offset] !== LF) offset++;
+      continue;
+    }
+    let token = "";
+    while (offset < file.length && !/\s/.test(String.fromCharCode(file[offset]))) token += String.fromCharCode(file[offset++]);
+    header.push(token);
+  }
+  offset++; // The single whitespace byte before the pixel data
+
+  const [magic, width, height] = [header[0], Number(header[1]), Number(header[2])];
+  if (magic !== "P4" || !Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error("The logo must be a binary PBM (P4) image.");
+  }
+  if (width > PAPER_DOTS[paperWidth]) {
+    throw new Error(`The logo is ${width} dots wide; ${paperWidth}mm paper prints at most ${PAPER_DOTS[paperWidth]}.`);
+  }
+  const data = file.slice(offset, offset + Math.ceil(width / 8) * height);
+  if (data.length < Math.ceil(width / 8) * height) throw new Error("The logo PBM file is truncated.");
+  return { width, height, data };
+}
+
+export interface ReceiptRenderOptions {
+  paperWidth: PaperWidth;
+  storeName: string;
+  contactLines?: string[]; // Address, phone and TIN / VRN under the name
+  footer?: string;
+  logo?: RasterImage | null;
+  qr?: string | null; // Printed under the totals, e.g. the receipt's verification link
+  cut: boolean;
+  openDrawer: boolean;
+}
+
+const money = (n: number) => Number(n || 0).toFixed(2);
+
+// The same layout as the on-screen Receipt, fitted to the paper's columns.
+export function renderReceipt(sale: Sale, lines: ReceiptLine[], options: ReceiptRenderOptions) {
+  const printer = new EscPosBuilder(PAPER_COLUMNS[options.paperWidth]);
+  const created = new Date(sale.created_at);
+
+  if (options.openDrawer) printer.kickDrawer();
+
+  printer.align("center");
+  if (options.logo) printer.image(options.logo).line();
+  printer.bold(true).large(true).line(options.storeName.toUpperCase()).large(false).bold(false);
+  (options.contactLines || []).forEach(line => printer.line(line));
+  printer.rule();
+  printer.align("left")
+    .line(`RECEIPT: ${sale.receipt_no}`)
+    .line(`TERMINAL: ${sale.terminal_id}`)
+    .pair(`DATE: ${created.toLocaleDateString()}`, created.toLocaleTimeString())
+    .line(`CASHIER: ${sale.cashier_name || "-"}`)
+    .line(`CLIENT: ${sale.customer_name || "-"}`)
+    .rule();
+
+  lines.forEach(line => {
+    printer.line(line.name);
+    printer.pair(`  ${line.quantity} x ${money(line.unitPrice)}`, money(line.total));
+    (line.notes || []).forEach(note => printer.line(`  ${note}`));
+  });
+  printer.rule();
+
+  printer.pair("SUBTOTAL", money(sale.subtotal));
+  if (Number(sale.discount) > 0) printer.pair("DISCOUNT", `-${money(sale.discount)}`);
+  if (Number(sale.tax_amount) > 0) printer.pair(`TAX (${sale.tax_rate}%)`, money(sale.tax_amount));
+  printer.bold(true).pair("TOTAL", money(sale.total)).bold(false);
+  (sale.payments || []).forEach(payment => {
+    printer.pair(tenderLabel(tenderKey(payment)).toUpperCase() + (payment.reference ? ` ${payment.reference}` : ""), money(payment.amount));
+  });
+  if (Number(sale.change_amount) > 0) printer.pair("CHANGE", money(sale.change_amount));
+  printer.rule();
+
+  printer.align("center");
+  if (options.qr) printer.qr(options.qr).line();
+  if (options.footer) printer.line(options.footer.toUpperCase());
+  printer.feed(3);
+  if (options.cut) printer.cut();
+  return printer.build();
+}
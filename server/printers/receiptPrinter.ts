@@ -0,0 +1,114 @@
+import fs from "fs";
+import net from "net";
+import path from "path";
+import { parsePbm, type PaperWidth, type RasterImage } from "./escpos";
+
+// Where the ESC/POS bytes go. send resolves once the printer (or file) has taken all of them and
+// reports where they went.
+export interface ReceiptPrinter {
+  readonly name: string;
+  send(bytes: Uint8Array, label: string): Promise<{ target: string }>;
+}
+
+// Raw TCP, the "JetDirect" port 9100 every networked thermal printer listens on.
+function createNetworkPrinter(host: string, port: number, timeoutMs: number): ReceiptPrinter {
+  return {
+    name: "network",
+    send: (bytes) => new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host, port });
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`Printer at ${host}:${port} did not respond.`)));
+      socket.once("error", reject);
+      socket.once("connect", () => socket.end(Buffer.from(bytes)));
+      socket.once("close", hadError => {
+        if (!hadError) resolve({ target: `${host}:${port}` });
+      });
+    })
+  };
+}
+
+// A printer exposed as a character device, e.g. /dev/usb/lp0 for USB or a serial port.
+function createDevicePrinter(device: string): ReceiptPrinter {
+  return {
+    name: "device",
+    async send(bytes) {
+      await fs.promises.writeFile(device, bytes, { flag: "a" });
+      return { target: device };
+    }
+  };
+}
+
+// Writes each job to its own .bin file instead of printing, for testing without hardware. The
+// dumps can be replayed to a real printer with `cat job.bin > /dev/usb/lp0`.
+function createFilePrinter(dir: string): ReceiptPrinter {
+  return {
+    name: "file",
+    async send(bytes, label) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, "-")}-${label.replace(/[^\w-]/g, "_")}.bin`);
+      await fs.promises.writeFile(file, bytes);
+      return { target: file };
+    }
+  };
+}
+
+const PRINTERS: Record<string, () => ReceiptPrinter> = {
+  network: () => {
+    if (!process.env.RECEIPT_PRINTER_HOST) throw new Error("RECEIPT_PRINTER_HOST is required for a network printer.");
+    return createNetworkPrinter(
+      process.env.RECEIPT_PRINTER_HOST,
+      Number(process.env.RECEIPT_PRINTER_PORT) || 9100,
+      Number(process.env.RECEIPT_PRINTER_TIMEOUT_MS) || 5000
+    );
+  },
+  device: () => createDevicePrinter(process.env.RECEIPT_PRINTER_DEVICE || "/dev/usb/lp0"),
+  file: () => createFilePrinter(process.env.RECEIPT_PRINTER_DUMP_DIR || "data/receipts")
+};
+
+// RECEIPT_PRINTER picks the transport; "none" (the default) leaves the till on browser printing.
+export const receiptPrinterName = process.env.RECEIPT_PRINTER || "none";
+
+export const receiptPrinter: ReceiptPrinter | null = (() => {
+  if (receiptPrinterName === "none") return null;
+  const create = PRINTERS[receiptPrinterName];
+  if (!create) {
+    console.warn(`Unknown RECEIPT_PRINTER "${receiptPrinterName}"; thermal printing is disabled.`);
+    return null;
+  }
+  try {
+    return create();
+  } catch (err: any) {
+    console.warn(`Thermal printing is disabled: ${err.message}`);
+    return null;
+  }
+})();
+
+export interface ReceiptLayout {
+  paperWidth: PaperWidth;
+  logo: RasterImage | null;
+  qr: boolean;
+  cut: boolean;
+  drawerKick: "cash" | "always" | "never"; // When a receipt also opens the cash drawer
+}
+
+const loadLogo = (paperWidth: PaperWidth) => {
+  const logoPath = process.env.RECEIPT_LOGO_PATH;
+  if (!logoPath) return null;
+  try {
+    return parsePbm(fs.readFileSync(logoPath), paperWidth);
+  } catch (err: any) {
+    console.warn(`Receipt logo ${logoPath} ignored: ${err.message}`);
+    return null;
+  }
+};
+
+export const receiptLayout: ReceiptLayout = (() => {
+  const paperWidth: PaperWidth = process.env.RECEIPT_PAPER_WIDTH === "58" ? 58 : 80;
+  const drawerKick = process.env.RECEIPT_DRAWER_KICK;
+  return {
+    paperWidth,
+    logo: loadLogo(paperWidth),
+    qr: process.env.RECEIPT_QR !== "off",
+    cut: process.env.RECEIPT_CUT !== "off",
+    drawerKick: drawerKick === "always" || drawerKick === "never" ? drawerKick : "cash"
+  };
+})();
@@ -0,0 +1,85 @@
+import express from "express";
+import { store } from "./db";
+import { respond, RequestError } from "./respond";
+import { receiptUrl, signReceiptToken } from "./receiptTokens";
+import { renderReceipt, type RasterImage } from "./printers/escpos";
+import { receiptLayout, receiptPrinter, receiptPrinterName } from "./printers/receiptPrinter";
+import { brandingContactLines } from "../src/lib/branding";
+import { tenderTotal } from "../src/lib/sales";
+import type { ReceiptLine, ReceiptLogoRaster, Sale } from "../src/types";
+
+const isNonEmptyString = (val: unknown): val is string =>
+  typeof val === "string" && val.trim().length > 0;
+
+export function validateReceiptPrint(body: any): string[] {
+  const errors: string[] = [];
+  if (!isNonEmptyString(body?.sale?.id) || !isNonEmptyString(body?.sale?.receipt_no)) {
+    errors.push("sale must be a sale header with an id and receipt_no.");
+  }
+  if (!Array.isArray(body?.lines) || body.lines.length === 0) {
+    errors.push("lines must contain at least one receipt line.");
+    return errors;
+  }
+  body.lines.forEach((line: any, index: number) => {
+    if (!isNonEmptyString(line?.name)) errors.push(`lines[${index}].name is required.`);
+    for (const field of ["quantity", "unitPrice", "total"]) {
+      if (typeof line?.[field] !== "number" || !Number.isFinite(line[field])) errors.push(`lines[${index}].${field} must be a number.`);
+    }
+    if (line?.notes !== undefined && (!Array.isArray(line.notes) || line.notes.some((note: unknown) => typeof note !== "string"))) {
+      errors.push(`lines[${index}].notes must be an array of strings when provided.`);
+    }
+  });
+  return errors;
+}
+
+function requirePrinter() {
+  if (!receiptPrinter) throw new RequestError("No receipt printer is configured on the server.", 503);
+  return receiptPrinter;
+}
+
+async function send(bytes: Uint8Array, label: string) {
+  try {
+    return await requirePrinter().send(bytes, label);
+  } catch (err: any) {
+    if (err instanceof RequestError) throw err;
+    throw new RequestError(`Receipt printer error: ${err?.message || err}`, 502);
+  }
+}
+
+const toRaster = (raster: ReceiptLogoRaster): RasterImage => ({
+  width: raster.width,
+  height: raster.height,
+  data: Uint8Array.from(Buffer.from(raster.data, "base64"))
+});
+
+export const printingRouter = express.Router();
+
+// Which printer the till is talking to, so it can offer thermal printing instead of window.print().
+printingRouter.get("/", respond("Printer fetch", async () => ({
+  printer: receiptPrinter ? receiptPrinterName : null,
+  paperWidth: receiptLayout.paperWidth
+})));
+
+// Renders a sale as ESC/POS and sends it. The till posts the header and lines it shows on screen,
+// so receipts for sales still in the offline queue print the same way. Name, contact lines, footer
+// and logo come from the branding profile; RECEIPT_LOGO_PATH is the fallback logo.
+printingRouter.post("/receipts", respond("Receipt print", async req => {
+  const errors = validateReceiptPrint(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const sale = req.body.sale as Sale;
+  const tookCash = tenderTotal(sale.payments || [], "Cash") > 0;
+  const branding = await store.getBranding();
+  const bytes = renderReceipt(sale, req.body.lines as ReceiptLine[], {
+    paperWidth: receiptLayout.paperWidth,
+    storeName: branding.business_name,
+    contactLines: brandingContactLines(branding),
+    footer: branding.receipt_footer || undefined,
+    logo: branding.logo_raster ? toRaster(branding.logo_raster) : receiptLayout.logo,
+    qr: receiptLayout.qr ? receiptUrl(signReceiptToken(sale.id), req) : null,
+    cut: receiptLayout.cut,
+    openDrawer: receiptLayout.drawerKick === "always" || (receiptLayout.drawerKick === "cash" && tookCash)
+  });
+  const { target } = await send(bytes, sale.receipt_no);
+  return { printer: receiptPrinterName, target, bytes: bytes.length };
+}, 201));
+
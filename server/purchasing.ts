@@ -0,0 +1,264 @@
+import express from "express";
+import { store } from "./db";
+import { respond, RequestError } from "./respond";
+import { sessionUser } from "./auth";
+import { resolveLocation } from "./locations";
+import { buildPurchaseLedgerEntries, receiptTotals } from "../src/lib/purchasing";
+import { COSTING_METHODS, isCostingMethod } from "../src/lib/costing";
+import { normalizeSerial, validateSerials } from "../src/lib/warranty";
+import { validateBatchReceipt } from "../src/lib/batches";
+import type { GoodsReceiptRequest, InventoryItem } from "../src/types";
+
+const FUND_SOURCES = ["CAPITAL", "PROFIT"];
+
+const isNonEmptyString = (val: unknown): val is string =>
+  typeof val === "string" && val.trim().length > 0;
+
+const isPositiveInteger = (val: unknown): val is number =>
+  typeof val === "number" && Number.isInteger(val) && val > 0;
+
+const isNonNegativeNumber = (val: unknown): val is number =>
+  typeof val === "number" && Number.isFinite(val) && val >= 0;
+
+const optionalString = (val: unknown) => (isNonEmptyString(val) ? val.trim() : null);
+
+export function validateSupplier(body: any): string[] {
+  const errors: string[] = [];
+  if (!isNonEmptyString(body?.name)) {
+    errors.push("name is required.");
+  }
+  if (body?.email && (typeof body.email !== "string" || !body.email.includes("@"))) {
+    errors.push("email must be an email address.");
+  }
+  return errors;
+}
+
+export function validatePurchaseOrder(body: any): string[] {
+  const errors: string[] = [];
+  if (!isNonEmptyString(body?.supplierId)) {
+    errors.push("supplierId is required.");
+  }
+  if (body?.status !== undefined && body.status !== "draft" && body.status !== "ordered") {
+    errors.push("status must be draft or ordered.");
+  }
+  if (body?.expectedDate && isNaN(Date.parse(body.expectedDate))) {
+    errors.push("expectedDate must be a date.");
+  }
+  if (!Array.isArray(body?.lines) || body.lines.length === 0) {
+    errors.push("lines must contain at least one line.");
+    return errors;
+  }
+  body.lines.forEach((line: any, index: number) => {
+    if (!isNonEmptyString(line?.inventoryItemId)) errors.push(`lines[${index}].inventoryItemId is required.`);
+    if (!isPositiveInteger(line?.quantity)) errors.push(`lines[${index}].quantity must be a positive integer.`);
+    if (!isNonNegativeNumber(line?.unitCost)) errors.push(`lines[${index}].unitCost must be a non-negative number.`);
+  });
+  return errors;
+}
+
+export function validateGoodsReceipt(body: any): string[] {
+  const errors: string[] = [];
+  if (!isNonEmptyString(body?.supplierId)) {
+    errors.push("supplierId is required.");
+  }
+  if (!FUND_SOURCES.includes(body?.fundSource)) {
+    errors.push(`fundSource must be one of ${FUND_SOURCES.join(", ")}.`);
+  }
+  if (!isNonNegativeNumber(body?.taxRate) || body.taxRate > 100) {
+    errors.push("taxRate must be a percentage between 0 and 100.");
+  }
+  if (body?.locationId !== undefined && !isNonEmptyString(body.locationId)) {
+    errors.push("locationId must be a non-empty string when provided.");
+  }
+  if (!Array.isArray(body?.lines) || body.lines.length === 0) {
+    errors.push("lines must contain at least one line.");
+    return errors;
+  }
+  body.lines.forEach((line: any, index: number) => {
+    if (!isNonEmptyString(line?.inventoryItemId)) errors.push(`lines[${index}].inventoryItemId is required.`);
+    if (!isPositiveInteger(line?.quantity)) errors.push(`lines[${index}].quantity must be a positive integer.`);
+    if (!isNonNegativeNumber(line?.unitCost)) errors.push(`lines[${index}].unitCost must be a non-negative number.`);
+    if (line?.purchaseOrderLineId !== undefined && !isNonEmptyString(line.purchaseOrderLineId)) {
+      errors.push(`lines[${index}].purchaseOrderLineId must be a non-empty string when provided.`);
+    }
+    if (line?.serials !== undefined && (!Array.isArray(line.serials) || line.serials.some((serial: unknown) => typeof serial !== "string"))) {
+      errors.push(`lines[${index}].serials must be an array of strings when provided.`);
+    }
+    if (line?.batchNo !== undefined && typeof line.batchNo !== "string") {
+      errors.push(`lines[${index}].batchNo must be a string when provided.`);
+    }
+    if (line?.expiryDate !== undefined && typeof line.expiryDate !== "string") {
+      errors.push(`lines[${index}].expiryDate must be a string when provided.`);
+    }
+  });
+  if (body.lines.some((line: any) => line?.purchaseOrderLineId) && !isNonEmptyString(body.purchaseOrderId)) {
+    errors.push("purchaseOrderId is required when lines reference a purchase order.");
+  }
+  return errors;
+}
+
+// Serialised items need one serial per unit received, none repeated across the receipt's lines.
+export function validateReceiptSerials(lines: GoodsReceiptRequest["lines"], items: InventoryItem[]): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  lines.forEach((line, index) => {
+    const item = items.find(i => String(i.id) === line.inventoryItemId);
+    if (!item?.serialised) {
+      if (line.serials?.length) errors.push(`lines[${index}]: ${item?.name || line.inventoryItemId} is not serialised.`);
+      return;
+    }
+    validateSerials(line.serials, line.quantity).forEach(error => errors.push(`lines[${index}]: ${item.name} ${error}`));
+    (line.serials || []).map(normalizeSerial).forEach(serial => {
+      const key = `${item.id}|${serial}`;
+      if (seen.has(key)) errors.push(`Serial ${serial} of ${item.name} is received twice.`);
+      seen.add(key);
+    });
+  });
+  return errors;
+}
+
+// Batch-tracked items need the lot and its expiry; a lot listed twice must carry one expiry.
+export function validateReceiptBatches(lines: GoodsReceiptRequest["lines"], items: InventoryItem[]): string[] {
+  const errors: string[] = [];
+  const expiries = new Map<string, string | undefined>();
+  lines.forEach((line, index) => {
+    const item = items.find(i => String(i.id) === line.inventoryItemId);
+    if (!item?.batch_tracked) {
+      if (line.batchNo?.trim()) errors.push(`lines[${index}]: ${item?.name || line.inventoryItemId} is not batch tracked.`);
+      return;
+    }
+    validateBatchReceipt(line.batchNo, line.expiryDate).forEach(error => errors.push(`lines[${index}]: ${item.name} ${error}`));
+    const key = `${item.id}|${line.batchNo?.trim()}`;
+    if (expiries.has(key) && expiries.get(key) !== line.expiryDate) {
+      errors.push(`Batch ${line.batchNo?.trim()} of ${item.name} is listed with two expiry dates.`);
+    }
+    expiries.set(key, line.expiryDate);
+  });
+  return errors;
+}
+
+export const purchasingRouter = express.Router();
+
+purchasingRouter.get("/settings", respond("Purchasing settings fetch", async () => ({
+  costingMethod: await store.getCostingMethod()
+})));
+
+// The costing method applies to stock movements from now on; past sales keep the cost they captured.
+purchasingRouter.put("/settings", respond("Purchasing settings update", async req => {
+  if (!isCostingMethod(req.body?.costingMethod)) {
+    throw new RequestError(`costingMethod must be one of ${COSTING_METHODS.map(m => m.code).join(", ")}.`);
+  }
+  await store.setCostingMethod(req.body.costingMethod, sessionUser(req));
+  return { costingMethod: req.body.costingMethod };
+}));
+
+purchasingRouter.get("/suppliers", respond("Supplier fetch", () => store.listSuppliers()));
+
+purchasingRouter.post("/suppliers", respond("Supplier create", req => {
+  const errors = validateSupplier(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const { name, contact_name, phone, email, tax_id, address } = req.body;
+  return store.createSupplier({
+    name: name.trim(),
+    contact_name: optionalString(contact_name),
+    phone: optionalString(phone),
+    email: optionalString(email),
+    tax_id: optionalString(tax_id),
+    address: optionalString(address),
+    active: true
+  });
+}, 201));
+
+purchasingRouter.patch("/suppliers/:id", respond("Supplier update", async req => {
+  if (req.body?.name !== undefined) {
+    const errors = validateSupplier(req.body);
+    if (errors.length > 0) throw new RequestError(errors.join(" "));
+  }
+  const { id, created_at, ...patch } = req.body || {};
+  await store.updateSupplier(req.params.id, patch);
+  return { id: req.params.id };
+}));
+
+purchasingRouter.get("/orders", respond("Purchase order fetch", () => store.listPurchaseOrders()));
+
+purchasingRouter.post("/orders", respond("Purchase order create", async req => {
+  const errors = validatePurchaseOrder(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const suppliers = await store.listSuppliers();
+  if (!suppliers.some(s => String(s.id) === req.body.supplierId)) {
+    throw new RequestError("Supplier not found.");
+  }
+  return store.createPurchaseOrder(
+    {
+      supplier_id: req.body.supplierId,
+      status: req.body.status || "draft",
+      expected_date: optionalString(req.body.expectedDate),
+      notes: optionalString(req.body.notes),
+      created_by: sessionUser(req)
+    },
+    req.body.lines.map((line: any) => ({
+      inventory_item_id: line.inventoryItemId,
+      quantity_ordered: line.quantity,
+      unit_cost: line.unitCost
+    }))
+  );
+}, 201));
+
+purchasingRouter.post("/orders/:id/status", respond("Purchase order status update", async req => {
+  const status = req.body?.status;
+  if (status !== "ordered" && status !== "cancelled") {
+    throw new RequestError("status must be ordered or cancelled.");
+  }
+  const outcome = await store.setPurchaseOrderStatus(req.params.id, status);
+  if (outcome.status === "not_found") throw new RequestError("Purchase order not found.", 404);
+  if (outcome.status === "invalid") throw new RequestError(outcome.message, 409);
+  return { id: req.params.id, status };
+}));
+
+purchasingRouter.get("/receipts", respond("Goods received fetch", () => store.listGoodsReceived()));
+
+purchasingRouter.post("/receipts", respond("Goods receipt", async req => {
+  const errors = validateGoodsReceipt(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+
+  const request = req.body as GoodsReceiptRequest;
+  const [suppliers, items] = await Promise.all([store.listSuppliers(), store.listInventory()]);
+  const supplier = suppliers.find(s => String(s.id) === request.supplierId);
+  if (!supplier) throw new RequestError("Supplier not found.");
+  const missing = request.lines.find(line => !items.some(i => String(i.id) === line.inventoryItemId));
+  if (missing) throw new RequestError(`Inventory item ${missing.inventoryItemId} not found.`);
+  const trackingErrors = [...validateReceiptSerials(request.lines, items), ...validateReceiptBatches(request.lines, items)];
+  if (trackingErrors.length > 0) throw new RequestError(trackingErrors.join(" "));
+  const location = await resolveLocation(request.locationId);
+
+  const totals = receiptTotals(request.lines, request.taxRate);
+  const outcome = await store.receiveGoods({
+    grn: {
+      supplier_id: request.supplierId,
+      location_id: location ? String(location.id) : null,
+      purchase_order_id: optionalString(request.purchaseOrderId),
+      supplier_invoice_no: optionalString(request.supplierInvoiceNo),
+      received_by: sessionUser(req),
+      received_at: new Date().toISOString(),
+      fund_source: request.fundSource,
+      subtotal: totals.subtotal,
+      tax_rate: request.taxRate,
+      tax_amount: totals.taxAmount,
+      total: totals.total,
+      notes: optionalString(request.notes)
+    },
+    lines: request.lines.map(line => ({
+      inventory_item_id: line.inventoryItemId,
+      purchase_order_line_id: line.purchaseOrderLineId || null,
+      quantity: line.quantity,
+      unit_cost: line.unitCost,
+      serials: line.serials?.length ? line.serials.map(normalizeSerial) : undefined,
+      batch_no: line.batchNo?.trim() || undefined,
+      expiry_date: line.batchNo?.trim() ? line.expiryDate : undefined
+    })),
+    entries: buildPurchaseLedgerEntries(request, items, supplier.name)
+  });
+
+  if (outcome.status === "invalid") throw new RequestError(outcome.message, 409);
+  return outcome.grn;
+}, 201));
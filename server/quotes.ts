@@ -0,0 +1,108 @@
+import express from "express";
+import { store } from "./db";
+import { respond, RequestError } from "./respond";
+import { sessionUser } from "./auth";
+import { isQuoteKind, QUOTE_KINDS, quoteTotals } from "../src/lib/quotes";
+import type { QuoteRequest } from "../src/types";
+
+const isNonEmptyString = (val: unknown): val is string =>
+  typeof val === "string" && val.trim().length > 0;
+
+const isPositiveInteger = (val: unknown): val is number =>
+  typeof val === "number" && Number.isInteger(val) && val > 0;
+
+const isNonNegativeNumber = (val: unknown): val is number =>
+  typeof val === "number" && Number.isFinite(val) && val >= 0;
+
+const optionalString = (val: unknown) => (isNonEmptyString(val) ? val.trim() : null);
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function validateQuote(body: any): string[] {
+  const errors: string[] = [];
+  if (!isQuoteKind(body?.kind)) {
+    errors.push(`kind must be one of ${QUOTE_KINDS.map(k => k.code).join(", ")}.`);
+  }
+  if (!isNonEmptyString(body?.customerName)) errors.push("customerName is required.");
+  if (!isNonEmptyString(body?.validUntil) || !/^\d{4}-\d{2}-\d{2}$/.test(body.validUntil) || isNaN(Date.parse(body.validUntil))) {
+    errors.push("validUntil must be a YYYY-MM-DD date.");
+  }
+  if (!isNonNegativeNumber(body?.taxRate) || body.taxRate > 100) {
+    errors.push("taxRate must be a percentage between 0 and 100.");
+  }
+  if (!isNonNegativeNumber(body?.discount)) errors.push("discount must be a non-negative number.");
+  if (!Array.isArray(body?.lines) || body.lines.length === 0) {
+    errors.push("lines must contain at least one line.");
+    return errors;
+  }
+  body.lines.forEach((line: any, index: number) => {
+    if (!isNonEmptyString(line?.inventoryItemId)) errors.push(`lines[${index}].inventoryItemId is required.`);
+    if (!isPositiveInteger(line?.quantity)) errors.push(`lines[${index}].quantity must be a positive integer.`);
+    if (!isNonNegativeNumber(line?.unitPrice)) errors.push(`lines[${index}].unitPrice must be a non-negative number.`);
+  });
+  return errors;
+}
+
+export const quotesRouter = express.Router();
+
+// Quotes and pro-forma invoices, newest first.
+quotesRouter.get("/", respond("Quote fetch", () => store.listQuotes()));
+
+// Lines are described and list-priced from the current inventory; totals are worked out here.
+quotesRouter.post("/", respond("Quote create", async req => {
+  const errors = validateQuote(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const request = req.body as QuoteRequest;
+  if (new Date(request.validUntil) < new Date(new Date().toISOString().slice(0, 10))) {
+    throw new RequestError("validUntil cannot be in the past.");
+  }
+
+  const [items, customers] = await Promise.all([store.listInventory(), store.listCustomers()]);
+  const customerId = optionalString(request.customerId);
+  if (customerId && !customers.some(c => String(c.id) === customerId)) {
+    throw new RequestError("Customer not found.");
+  }
+  const lines = request.lines.map(line => {
+    const item = items.find(i => String(i.id) === line.inventoryItemId);
+    if (!item) throw new RequestError(`Inventory item ${line.inventoryItemId} not found.`);
+    return {
+      inventory_item_id: line.inventoryItemId,
+      description: item.name,
+      quantity: line.quantity,
+      list_price: Number(item.selling_price) || 0,
+      unit_price: round2(line.unitPrice),
+      line_total: round2(line.quantity * line.unitPrice)
+    };
+  });
+
+  const totals = quoteTotals(request.lines, request.taxRate, request.discount);
+  return store.createQuote(
+    {
+      kind: request.kind,
+      customer_id: customerId,
+      customer_name: request.customerName.trim(),
+      valid_until: request.validUntil,
+      subtotal: totals.subtotal,
+      tax_rate: request.taxRate,
+      tax_amount: totals.taxAmount,
+      discount: totals.discount,
+      total: totals.total,
+      notes: optionalString(request.notes),
+      terminal_id: optionalString(request.terminalId),
+      created_by: sessionUser(req)
+    },
+    lines
+  );
+}, 201));
+
+// A converted quote is closed by the sale that posts its cart (see postSale); cancelling is done here.
+quotesRouter.post("/:id/status", respond("Quote status update", async req => {
+  const status = req.body?.status;
+  if (status !== "converted" && status !== "cancelled") {
+    throw new RequestError("status must be converted or cancelled.");
+  }
+  const outcome = await store.closeQuote(req.params.id, status, sessionUser(req));
+  if (outcome.status === "not_found") throw new RequestError("Quote not found.", 404);
+  if (outcome.status === "invalid") throw new RequestError(outcome.message, 409);
+  return outcome.quote;
+}));
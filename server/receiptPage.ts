@@ -0,0 +1,141 @@
+import express from "express";
+import { store } from "./db";
+import { verifyReceiptToken } from "./receiptTokens";
+import { brandingContactLines } from "../src/lib/branding";
+import { reasonLabel } from "../src/lib/adjustments";
+import { returnableLines } from "../src/lib/returns";
+import { tenderKey, tenderLabel } from "../src/lib/sales";
+import type { BrandingProfile, ReturnableLine, Sale, SaleReturn } from "../src/types";
+
+const escapeHtml = (text: unknown) =>
+  String(text ?? "").replace(/[&<>"']/g, char => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char] as string);
+
+const money = (n: unknown) => Number(n || 0).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const row = (label: string, value: string, className = "") =>
+  `<div class="row ${className}"><span>${escapeHtml(label)}</span><span>${escapeHtml(value)}</span></div>`;
+
+function page(branding: BrandingProfile, title: string, body: string) {
+  const accent = escapeHtml(branding.accent_color);
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)} - ${escapeHtml(branding.business_name)}</title>
+<style>
+  body { margin: 0; padding: 24px 12px; background: #f4f4f5; color: #18181b; font: 14px/1.45 ui-monospace, SFMono-Regular, Menlo, monospace; }
+  main { max-width: 420px; margin: 0 auto; background: #fff; border-top: 6px solid ${accent}; border-radius: 12px; padding: 24px; box-shadow: 0 1px 3px rgba(0,0,0,.08); }
+  header { text-align: center; }
+  header img { max-height: 72px; max-width: 200px; }
+  h1 { margin: 8px 0 2px; font-size: 18px; text-transform: uppercase; color: ${accent}; }
+  h2 { margin: 20px 0 6px; font-size: 13px; text-transform: uppercase; letter-spacing: .05em; }
+  .muted { color: #71717a; font-size: 12px; margin: 0; }
+  .badge { display: inline-block; margin-top: 12px; padding: 4px 10px; border-radius: 999px; font-size: 11px; font-weight: 700; text-transform: uppercase; }
+  .ok { background: #dcfce7; color: #166534; }
+  .bad { background: #fee2e2; color: #991b1b; }
+  .rule { border-top: 1px dashed #d4d4d8; margin: 14px 0; }
+  .row { display: flex; justify-content: space-between; gap: 12px; }
+  .line { margin-bottom: 6px; }
+  .total { font-weight: 700; font-size: 16px; }
+  .note { color: #b91c1c; font-size: 12px; }
+</style>
+</head>
+<body><main>${body}</main></body>
+</html>`;
+}
+
+function brandHeader(branding: BrandingProfile) {
+  return `<header>
+  ${branding.logo ? `<img src="${escapeHtml(branding.logo)}" alt="">` : ""}
+  <h1>${escapeHtml(branding.business_name)}</h1>
+  ${brandingContactLines(branding).map(line => `<p class="muted">${escapeHtml(line)}</p>`).join("")}
+</header>`;
+}
+
+function lineHtml(line: ReturnableLine) {
+  const notes = [
+    line.quantity_returned > 0 ? `${line.quantity_returned} returned` : "",
+    line.reversed ? "voided" : ""
+  ].filter(Boolean).join(", ");
+  return `<div class="line">
+  ${row(line.name, money(line.unit_price * line.quantity_sold))}
+  <div class="muted">${line.quantity_sold} x ${money(line.unit_price)}${notes ? ` <span class="note">(${escapeHtml(notes)})</span>` : ""}</div>
+</div>`;
+}
+
+function returnHtml(saleReturn: SaleReturn, names: Record<string, string>) {
+  return `<div class="line">
+  ${row(`${saleReturn.return_no} - ${new Date(saleReturn.created_at).toLocaleDateString()}`, `-${money(saleReturn.total)}`)}
+  ${saleReturn.lines.map(line => `<div class="muted">${line.quantity} x ${escapeHtml(names[String(line.ledger_entry_id)] || line.inventory_item_id)}</div>`).join("")}
+  <div class="muted">${escapeHtml(reasonLabel(saleReturn.reason_code))}</div>
+</div>`;
+}
+
+function receiptHtml(branding: BrandingProfile, sale: Sale, lines: ReturnableLine[], returns: SaleReturn[]) {
+  const created = new Date(sale.created_at);
+  const names = Object.fromEntries(lines.map(line => [line.entry_id, line.name]));
+  const refunded = returns.reduce((sum, r) => sum + Number(r.total || 0), 0);
+  return `${brandHeader(branding)}
+<div style="text-align:center"><span class="badge ok">Verified receipt</span></div>
+<div class="rule"></div>
+${row("Receipt", sale.receipt_no)}
+${row("Date", `${created.toLocaleDateString()} ${created.toLocaleTimeString()}`)}
+${row("Terminal", sale.terminal_id)}
+${row("Cashier", sale.cashier_name || "-")}
+${row("Customer", sale.customer_name || "-")}
+<div class="rule"></div>
+${lines.map(lineHtml).join("")}
+<div class="rule"></div>
+${row("Subtotal", money(sale.subtotal))}
+${Number(sale.discount) > 0 ? row("Discount", `-${money(sale.discount)}`) : ""}
+${Number(sale.tax_amount) > 0 ? row(`Tax (${sale.tax_rate}%)`, money(sale.tax_amount)) : ""}
+${row("Total", money(sale.total), "total")}
+${(sale.payments || []).map(p => row(tenderLabel(tenderKey(p)) + (p.reference ? ` ${p.reference}` : ""), money(p.amount))).join("")}
+${Number(sale.change_amount) > 0 ? row("Change", money(sale.change_amount)) : ""}
+${returns.length > 0 ? `<h2>Returns</h2>${returns.map(r => returnHtml(r, names)).join("")}${row("Total refunded", `-${money(refunded)}`, "total")}` : ""}
+${branding.receipt_footer ? `<div class="rule"></div><p class="muted" style="text-align:center">${escapeHtml(branding.receipt_footer)}</p>` : ""}`;
+}
+
+const rejected = (branding: BrandingProfile, message: string) =>
+  page(branding, "Receipt not verified", `${brandHeader(branding)}
+<div style="text-align:center"><span class="badge bad">Not verified</span><p>${escapeHtml(message)}</p></div>`);
+
+export const receiptPageRouter = express.Router();
+
+// The page a receipt's QR code opens. It renders from the ledger, not from anything in the link,
+// so only a token the server signed for a sale it holds shows a receipt.
+receiptPageRouter.get("/:token", async (req, res) => {
+  res.set({
+    "Cache-Control": "no-store",
+    "X-Robots-Tag": "noindex",
+    "Referrer-Policy": "no-referrer",
+    "Content-Security-Policy": "default-src 'none'; img-src data:; style-src 'unsafe-inline'"
+  });
+  if (!store.isConfigured) {
+    res.status(503).type("text/plain").send("The data backend is not configured on the server.");
+    return;
+  }
+  try {
+    const branding = await store.getBranding();
+    const saleId = verifyReceiptToken(req.params.token);
+    const sale = saleId ? await store.getSale(saleId) : null;
+    // getSale also matches receipt numbers; the signed id must be the sale's own.
+    if (!sale || sale.id !== saleId) {
+      res.status(404).type("html").send(rejected(branding, "This receipt link is not valid. It may have been altered, or the sale has not reached the server yet."));
+      return;
+    }
+    const [entries, returns, inventory] = await Promise.all([
+      store.listLedger({ saleId: sale.id }),
+      store.listReturns({ saleId: sale.id }),
+      store.listInventory()
+    ]);
+    const names = Object.fromEntries(inventory.map(item => [String(item.id), item.name]));
+    const lines = returnableLines(sale, entries, returns, names);
+    res.type("html").send(page(branding, `Receipt ${sale.receipt_no}`, receiptHtml(branding, sale, lines, returns)));
+  } catch (err: any) {
+    console.error("Receipt page failed:", err);
+    res.status(500).type("text/plain").send("The receipt could not be loaded.");
+  }
+});
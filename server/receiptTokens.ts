@@ -0,0 +1,36 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type express from "express";
+
+// Public receipt links carry the sale id and an HMAC of it, so a token cannot be guessed from a
+// receipt number or altered to point at another sale. RECEIPT_TOKEN_SECRET must stay the same for
+// printed links to keep working; without it a per-process secret is used and links die on restart.
+const secret = process.env.RECEIPT_TOKEN_SECRET || (() => {
+  console.warn("RECEIPT_TOKEN_SECRET is not set; receipt links will stop verifying when the server restarts.");
+  return randomBytes(32).toString("hex");
+})();
+
+const SIGNATURE_BYTES = 16;
+
+const sign = (saleId: string) =>
+  createHmac("sha256", secret).update(`receipt:${saleId}`).digest().subarray(0, SIGNATURE_BYTES);
+
+export function signReceiptToken(saleId: string): string {
+  return `${Buffer.from(saleId, "utf8").toString("base64url")}.${sign(saleId).toString("base64url")}`;
+}
+
+// The sale id the token was issued for, or null when it is malformed or its signature is wrong.
+export function verifyReceiptToken(token: string): string | null {
+  const [encodedId, encodedSignature, ...rest] = token.split(".");
+  if (!encodedId || !encodedSignature || rest.length > 0) return null;
+  const saleId = Buffer.from(encodedId, "base64url").toString("utf8");
+  const signature = Buffer.from(encodedSignature, "base64url");
+  if (!saleId || Buffer.from(saleId, "utf8").toString("base64url") !== encodedId || signature.length !== SIGNATURE_BYTES) return null;
+  return timingSafeEqual(signature, sign(saleId)) ? saleId : null;
+}
+
+// PUBLIC_RECEIPT_URL is the address customers reach the server on; the request's own host is the
+// fallback for a till on the same network.
+export function receiptUrl(token: string, req: express.Request): string {
+  const base = process.env.PUBLIC_RECEIPT_URL || `${req.protocol}://${req.get("host")}`;
+  return `${base.replace(/\/+$/, "")}/r/${token}`;
+}
@@ -0,0 +1,30 @@
+import type express from "express";
+import { store } from "./db";
+
+export class RequestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+  }
+}
+
+// Wraps a plain data handler: 503 while the backend is unconfigured, the handler's
+// result as JSON on success, and `{ error }` with a status code on failure.
+export function respond<T>(label: string, handler: (req: express.Request) => Promise<T>, successStatus = 200): express.RequestHandler {
+  return async (req, res) => {
+    if (!store.isConfigured) {
+      res.status(503).json({ error: "The data backend is not configured on the server." });
+      return;
+    }
+    try {
+      const result = await handler(req);
+      res.status(successStatus).json(result ?? null);
+    } catch (err: any) {
+      if (err instanceof RequestError) {
+        res.status(err.status).json({ error: err.message });
+        return;
+      }
+      console.error(`${label} failed:`, err);
+      res.status(500).json({ error: err?.message || `${label} failed.` });
+    }
+  };
+}
@@ -0,0 +1,234 @@
+import express from "express";
+import { store } from "./db";
+import { respond, RequestError } from "./respond";
+import { sessionUser } from "./auth";
+import { verifyReceiptToken } from "./receiptTokens";
+import { terminalLocation } from "./locations";
+import { ADJUSTMENT_REASONS } from "../src/lib/adjustments";
+import { allocateRefund, discountRatio, isRefundMethod, isReturnDisposition, lineRefund, parseReturnLookup, refundableByTender, REFUND_METHODS, RETURN_DISPOSITIONS, returnableLines } from "../src/lib/returns";
+import { paymentMethodFor } from "../src/lib/sales";
+import type { LedgerEntry, ReturnLookup, Sale, SalePayment, SaleReturnRequest } from "../src/types";
+
+// Refunds are rounded to the cent per line; allow a cent of drift against the tenders.
+const MONEY_TOLERANCE = 0.01;
+
+const isNonEmptyString = (val: unknown): val is string =>
+  typeof val === "string" && val.trim().length > 0;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function validateReturnRequest(body: any): string[] {
+  const errors: string[] = [];
+  if (!isNonEmptyString(body?.saleId)) errors.push("saleId is required.");
+  if (!isRefundMethod(body?.refundMethod)) {
+    errors.push(`refundMethod must be one of ${REFUND_METHODS.map(m => m.code).join(", ")}.`);
+  }
+  if (!ADJUSTMENT_REASONS.some(r => r.code === body?.reasonCode)) {
+    errors.push(`reasonCode must be one of ${ADJUSTMENT_REASONS.map(r => r.code).join(", ")}.`);
+  }
+  for (const field of ["terminalId", "shiftId", "customerId", "note"] as const) {
+    if (body?.[field] !== undefined && typeof body[field] !== "string") {
+      errors.push(`${field} must be a string when provided.`);
+    }
+  }
+  if (!Array.isArray(body?.lines) || body.lines.length === 0) {
+    errors.push("lines must contain at least one line to return.");
+    return errors;
+  }
+  const seen = new Set<string>();
+  body.lines.forEach((line: any, index: number) => {
+    if (!isNonEmptyString(line?.entryId)) {
+      errors.push(`lines[${index}].entryId is required.`);
+    } else if (seen.has(line.entryId)) {
+      errors.push(`lines[${index}].entryId appears more than once.`);
+    } else {
+      seen.add(line.entryId);
+    }
+    if (!Number.isInteger(line?.quantity) || line.quantity <= 0) {
+      errors.push(`lines[${index}].quantity must be a positive integer.`);
+    }
+    if (!isReturnDisposition(line?.disposition)) {
+      errors.push(`lines[${index}].disposition must be one of ${RETURN_DISPOSITIONS.map(d => d.code).join(", ")}.`);
+    }
+    if (line?.serials !== undefined && (!Array.isArray(line.serials) || !line.serials.every(isNonEmptyString))) {
+      errors.push(`lines[${index}].serials must be an array of serial numbers when provided.`);
+    }
+  });
+  return errors;
+}
+
+// Also takes the token from a scanned receipt verification link.
+async function findSale(idOrReceiptNo: string) {
+  const sale = await store.getSale(verifyReceiptToken(idOrReceiptNo) ?? idOrReceiptNo);
+  if (!sale) throw new RequestError(`No sale found for ${idOrReceiptNo}.`, 404);
+  return sale;
+}
+
+async function buildLookup(sale: Sale): Promise<ReturnLookup & { entries: LedgerEntry[] }> {
+  const [entries, returns, inventory, serials] = await Promise.all([
+    store.listLedger({ saleId: sale.id }),
+    store.listReturns({ saleId: sale.id }),
+    store.listInventory(),
+    store.listSerials({ saleId: sale.id, status: "sold" })
+  ]);
+  const names = Object.fromEntries(inventory.map(item => [String(item.id), item.name]));
+  const lines = returnableLines(sale, entries, returns, names).map(line => {
+    const sold = serials.filter(s => s.inventory_item_id === line.inventory_item_id).map(s => s.serial_no);
+    return sold.length > 0 ? { ...line, serials: sold } : line;
+  });
+  return {
+    sale,
+    lines,
+    returns,
+    refundable: refundableByTender(sale, returns),
+    entries
+  };
+}
+
+export const returnsRouter = express.Router();
+
+// Returns taken against a sale (?saleId=) or paid out on a shift (?shiftId=).
+returnsRouter.get("/", respond("Return fetch", req => {
+  const { saleId, shiftId } = req.query;
+  return store.listReturns({
+    saleId: typeof saleId === "string" && saleId ? saleId : undefined,
+    shiftId: typeof shiftId === "string" && shiftId ? shiftId : undefined
+  });
+}));
+
+// ?q= is a receipt number, a sale id, or a scanned receipt QR holding either or a verification link.
+returnsRouter.get("/lookup", respond("Return lookup", async req => {
+  const query = typeof req.query.q === "string" ? parseReturnLookup(req.query.q) : "";
+  if (!query) throw new RequestError("q must hold a receipt number or sale id.");
+  const { entries, ...lookup } = await buildLookup(await findSale(query));
+  return lookup;
+}));
+
+// Prices the returned lines at what the customer paid for them (their share of the discount and
+// tax included), refunds that to the sale's tenders or to the customer's account, and posts the
+// negative sale rows, the discount given back and any write-off expense.
+returnsRouter.post("/", respond("Return", async req => {
+  const errors = validateReturnRequest(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const request = req.body as SaleReturnRequest;
+  const sale = await findSale(request.saleId);
+  const { lines, refundable, entries } = await buildLookup(sale);
+
+  if (request.shiftId) {
+    const shift = await store.getShift(request.shiftId);
+    if (!shift) throw new RequestError(`Shift ${request.shiftId} not found.`);
+    if (shift.status !== "open") throw new RequestError(`${shift.shift_no} is closed; refunds are paid from an open shift.`, 409);
+  }
+
+  const returned = request.lines.map(requested => {
+    const line = lines.find(l => l.entry_id === requested.entryId);
+    if (!line) throw new RequestError(`Ledger entry ${requested.entryId} is not a returnable line of receipt ${sale.receipt_no}.`, 409);
+    if (requested.quantity > line.quantity_returnable) {
+      throw new RequestError(`Only ${line.quantity_returnable} unit(s) of ${line.name} can still be returned.`, 409);
+    }
+    // Restocked serialised units name which of the sale's units came back; written-off ones stay out.
+    const serials = requested.disposition === "restock" && line.serials
+      ? Array.from(new Set<string>((requested.serials || []).map(s => s.trim())))
+      : [];
+    if (requested.disposition === "restock" && line.serials) {
+      if (serials.length !== requested.quantity) {
+        throw new RequestError(`Pick the serial of each of the ${requested.quantity} unit(s) of ${line.name} going back into stock.`);
+      }
+      const unknown = serials.find(serial => !line.serials?.includes(serial));
+      if (unknown) throw new RequestError(`Serial ${unknown} is not a unit of ${line.name} sold on receipt ${sale.receipt_no}.`, 409);
+    }
+    return { line, quantity: requested.quantity, disposition: requested.disposition, serials, amount: lineRefund(line, requested.quantity) };
+  });
+  const total = round2(returned.reduce((sum, r) => sum + r.amount, 0));
+
+  let refunds: SalePayment[];
+  let customerId = sale.customer_id || null;
+  if (request.refundMethod === "store_credit") {
+    customerId = isNonEmptyString(request.customerId) ? request.customerId.trim() : customerId;
+    if (!customerId) throw new RequestError("Store credit needs a customer account; pick the customer to credit.");
+    refunds = [{ method: "Credit", amount: total }];
+  } else {
+    const available = Object.values(refundable).reduce((sum, amount) => sum + amount, 0);
+    if (total > available + MONEY_TOLERANCE) {
+      throw new RequestError(`Only ${available.toFixed(2)} of this sale can still be refunded to its tenders.`, 409);
+    }
+    refunds = allocateRefund(refundable, Math.min(total, available));
+  }
+
+  const reason = { adjustment_kind: "return" as const, reason_code: request.reasonCode, adjusted_by: sessionUser(req) };
+  const fundSource = paymentMethodFor(refunds);
+  const original = new Map(entries.map(entry => [String(entry.id), entry]));
+  const discountRow = entries.find(e => e.transaction_type === "expense" && e.fund_source === "PROFIT" && !e.adjusts_id);
+  const entriesToPost: Partial<LedgerEntry>[] = [];
+  returned.forEach(({ line, quantity, disposition }) => {
+    const entry = original.get(line.entry_id) as LedgerEntry;
+    const lineValue = round2(line.unit_price * quantity);
+    entriesToPost.push({
+      ...reason,
+      category_id: entry.category_id,
+      inventory_item_id: entry.inventory_item_id,
+      quantity: -quantity,
+      amount: -lineValue,
+      unit_cost: entry.unit_cost,
+      transaction_type: "sale",
+      fund_source: fundSource,
+      description: `${line.name} (x${quantity})`,
+      adjusts_id: entry.id
+    });
+    const discountShare = round2(lineValue * discountRatio(sale));
+    if (discountRow && discountShare > 0) {
+      entriesToPost.push({
+        ...reason,
+        category_id: discountRow.category_id,
+        amount: -discountShare,
+        transaction_type: "expense",
+        fund_source: "PROFIT",
+        description: `Discount given back on ${line.name} (x${quantity})`,
+        adjusts_id: discountRow.id
+      });
+    }
+    // The units came back into revenue's cost above; a write-off expenses them again.
+    const cost = round2((entry.unit_cost || 0) * quantity);
+    if (disposition === "write_off" && cost > 0) {
+      entriesToPost.push({
+        category_id: entry.category_id,
+        amount: cost,
+        transaction_type: "expense",
+        fund_source: "PROFIT",
+        description: `Write-off: ${line.name} (x${quantity})`
+      });
+    }
+  });
+
+  // Restocked units go back to the location of the terminal taking them in.
+  const terminalId = isNonEmptyString(request.terminalId) ? request.terminalId.trim() : sale.terminal_id;
+  const outcome = await store.postReturn({
+    saleReturn: {
+      sale_id: sale.id,
+      receipt_no: sale.receipt_no,
+      terminal_id: terminalId,
+      location_id: await terminalLocation(terminalId),
+      shift_id: request.shiftId || null,
+      customer_id: customerId,
+      refund_method: request.refundMethod,
+      refunds,
+      total: round2(refunds.reduce((sum, p) => sum + p.amount, 0)),
+      reason_code: request.reasonCode,
+      note: isNonEmptyString(request.note) ? request.note.trim() : null,
+      performed_by: sessionUser(req)
+    },
+    lines: returned.map(({ line, quantity, disposition, serials, amount }) => ({
+      ledger_entry_id: line.entry_id,
+      inventory_item_id: line.inventory_item_id,
+      quantity,
+      amount,
+      unit_cost: original.get(line.entry_id)?.unit_cost ?? null,
+      disposition,
+      serials
+    })),
+    entries: entriesToPost
+  });
+  if (outcome.status === "not_found") throw new RequestError("Sale not found.", 404);
+  if (outcome.status === "invalid") throw new RequestError(outcome.message, 409);
+  return outcome.sale_return;
+}, 201));
@@ -0,0 +1,309 @@
+import express from "express";
+import { store } from "./db";
+import { respond, RequestError } from "./respond";
+import { receiptUrl, signReceiptToken } from "./receiptTokens";
+import { terminalLocation } from "./locations";
+import { sessionUser } from "./auth";
+import { isMobileMoneyProvider, MOBILE_MONEY_PROVIDERS } from "../src/lib/mobileMoney";
+import { paymentMethodFor, saleTenders, SPLIT_PAYMENT_METHOD, TENDER_METHODS, tenderTotal, toSaleHeader } from "../src/lib/sales";
+import { baseQuantity, findSaleUnit } from "../src/lib/units";
+import { normalizeSerial, validateSerials } from "../src/lib/warranty";
+import type { InventoryItem, QueuedSale, SalePostResult } from "../src/types";
+
+const TENDERS = TENDER_METHODS.map(t => t.method as string);
+const PAYMENT_METHODS = [...TENDERS, SPLIT_PAYMENT_METHOD];
+
+// Totals are computed in the browser with floating point; allow a cent of drift.
+const MONEY_TOLERANCE = 0.01;
+
+const isFiniteNumber = (val: unknown): val is number =>
+  typeof val === "number" && Number.isFinite(val);
+
+// Per unit the line is sold in.
+const linePrice = (line: QueuedSale["cart"][number]) =>
+  line.customPrice !== undefined ? line.customPrice : line.unit ? line.unit.price : Number(line.item.selling_price) || 0;
+
+export function validateQueuedSale(body: any): string[] {
+  const errors: string[] = [];
+
+  if (!body || typeof body !== "object") {
+    return ["Request body must be a QueuedSale object."];
+  }
+  if (typeof body.id !== "string" || !body.id.trim()) {
+    errors.push("id is required.");
+  }
+  if (typeof body.timestamp !== "string" || isNaN(Date.parse(body.timestamp))) {
+    errors.push("timestamp must be an ISO date string.");
+  }
+  if (!PAYMENT_METHODS.includes(body.paymentMethod)) {
+    errors.push(`paymentMethod must be one of ${PAYMENT_METHODS.join(", ")}.`);
+  }
+  for (const field of ["terminalId", "receiptNo"] as const) {
+    if (body[field] !== undefined && (typeof body[field] !== "string" || !body[field].trim())) {
+      errors.push(`${field} must be a non-empty string when provided.`);
+    }
+  }
+  if (body.customerId !== undefined && (typeof body.customerId !== "string" || !body.customerId.trim())) {
+    errors.push("customerId must be a non-empty string when provided.");
+  }
+  if (body.shiftId !== undefined && (typeof body.shiftId !== "string" || !body.shiftId.trim())) {
+    errors.push("shiftId must be a non-empty string when provided.");
+  }
+  if (body.quoteId !== undefined && (typeof body.quoteId !== "string" || !body.quoteId.trim())) {
+    errors.push("quoteId must be a non-empty string when provided.");
+  }
+  if (body.payments !== undefined) {
+    if (!Array.isArray(body.payments) || body.payments.length === 0) {
+      errors.push("payments must contain at least one tender when provided.");
+    } else {
+      body.payments.forEach((payment: any, index: number) => {
+        if (!TENDERS.includes(payment?.method)) {
+          errors.push(`payments[${index}].method must be one of ${TENDERS.join(", ")}.`);
+        }
+        if (!isFiniteNumber(payment?.amount) || payment.amount <= 0) {
+          errors.push(`payments[${index}].amount must be a positive number.`);
+        }
+        if (payment?.reference != null && typeof payment.reference !== "string") {
+          errors.push(`payments[${index}].reference must be a string when provided.`);
+        }
+        // The provider and its transaction id identify the payment on the provider's statement.
+        if (payment?.method === "Mobile Money") {
+          if (!isMobileMoneyProvider(payment.provider)) {
+            errors.push(`payments[${index}].provider must be one of ${MOBILE_MONEY_PROVIDERS.map(p => p.code).join(", ")}.`);
+          }
+          if (typeof payment.reference !== "string" || !payment.reference.trim()) {
+            errors.push(`payments[${index}].reference must hold the provider transaction id.`);
+          }
+        }
+      });
+    }
+  }
+  if (body.creditLimitOverride !== undefined && typeof body.creditLimitOverride !== "boolean") {
+    errors.push("creditLimitOverride must be a boolean when provided.");
+  }
+  if (body.expiryOverride !== undefined && typeof body.expiryOverride !== "boolean") {
+    errors.push("expiryOverride must be a boolean when provided.");
+  }
+  if (!Array.isArray(body.cart) || body.cart.length === 0) {
+    errors.push("cart must contain at least one line.");
+    return errors;
+  }
+
+  body.cart.forEach((line: any, index: number) => {
+    if (!line?.item?.id) {
+      errors.push(`cart[${index}].item.id is required.`);
+    }
+    if (!Number.isInteger(line?.quantity) || line.quantity <= 0) {
+      errors.push(`cart[${index}].quantity must be a positive integer.`);
+    }
+    if (line?.customPrice !== undefined && (!isFiniteNumber(line.customPrice) || line.customPrice < 0)) {
+      errors.push(`cart[${index}].customPrice must be a non-negative number.`);
+    }
+    if (line?.unit !== undefined) {
+      if (typeof line.unit?.name !== "string" || !line.unit.name.trim()) {
+        errors.push(`cart[${index}].unit.name is required when a unit is given.`);
+      }
+      if (!Number.isInteger(line.unit?.factor) || line.unit.factor < 1) {
+        errors.push(`cart[${index}].unit.factor must be a positive whole number.`);
+      }
+      if (!isFiniteNumber(line.unit?.price) || line.unit.price < 0) {
+        errors.push(`cart[${index}].unit.price must be a non-negative number.`);
+      }
+    }
+    if (line?.serials !== undefined && (!Array.isArray(line.serials) || line.serials.some((serial: unknown) => typeof serial !== "string"))) {
+      errors.push(`cart[${index}].serials must be an array of strings when provided.`);
+    }
+  });
+
+  for (const field of ["subtotal", "discount", "taxAmount", "total"] as const) {
+    if (!isFiniteNumber(body[field]) || body[field] < 0) {
+      errors.push(`${field} must be a non-negative number.`);
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  const sale = body as QueuedSale;
+  const expectedSubtotal = sale.cart.reduce((acc, line) => acc + linePrice(line) * line.quantity, 0);
+  if (Math.abs(expectedSubtotal - sale.subtotal) > MONEY_TOLERANCE) {
+    errors.push(`subtotal ${sale.subtotal} does not match cart lines (${expectedSubtotal.toFixed(2)}).`);
+  }
+  const expectedTotal = sale.subtotal + sale.taxAmount - sale.discount;
+  if (Math.abs(expectedTotal - sale.total) > MONEY_TOLERANCE) {
+    errors.push(`total ${sale.total} does not equal subtotal + tax - discount (${expectedTotal.toFixed(2)}).`);
+  }
+  if (sale.discount > 0 && (sale.discountCategoryId === undefined || sale.discountCategoryId === "")) {
+    errors.push("discountCategoryId is required when a discount is posted.");
+  }
+
+  // Tenders must cover the total; only cash can be over-tendered, the excess going back as change.
+  const tenders = saleTenders(sale);
+  const paid = tenderTotal(tenders);
+  if (paid < sale.total - MONEY_TOLERANCE) {
+    errors.push(`payments cover ${paid.toFixed(2)} of the ${sale.total.toFixed(2)} total.`);
+  }
+  if (paid - tenderTotal(tenders, "Cash") > sale.total + MONEY_TOLERANCE) {
+    errors.push("Only cash tenders can exceed the amount due.");
+  }
+  if (sale.payments && sale.paymentMethod !== paymentMethodFor(tenders)) {
+    errors.push(`paymentMethod must be ${paymentMethodFor(tenders)} for these payments.`);
+  }
+  if (tenderTotal(tenders, "Credit") > 0 && !sale.customerId) {
+    errors.push("customerId is required for a sale put on account.");
+  }
+
+  return errors;
+}
+
+// Maps a queued sale onto the ledger rows it produces: one sale line per cart
+// line and, if discounted, a single PROFIT-funded expense. Every row carries
+// the QueuedSale.id, which is also the id of the `sales` header row. Ledger
+// quantities are in base units whatever pack the line was sold in.
+export function buildLedgerEntries(sale: QueuedSale) {
+  const entries: Record<string, unknown>[] = sale.cart.map(line => ({
+    category_id: line.item.category_id,
+    inventory_item_id: line.item.id,
+    quantity: baseQuantity(line),
+    amount: linePrice(line) * line.quantity,
+    transaction_type: "sale",
+    fund_source: sale.paymentMethod,
+    description: `Sale: ${line.item.name} (x${line.quantity}${line.unit && line.unit.factor > 1 ? ` ${line.unit.name} of ${line.unit.factor}` : ""})` + (sale.customerName ? ` - Customer: ${sale.customerName}` : ""),
+    created_at: sale.timestamp,
+    sale_id: sale.id
+  }));
+
+  if (sale.discount > 0) {
+    entries.push({
+      category_id: sale.discountCategoryId,
+      amount: sale.discount,
+      transaction_type: "expense",
+      fund_source: "PROFIT",
+      description: `POS Discount Expense (Sale Ref: ${sale.id})`,
+      created_at: sale.timestamp,
+      sale_id: sale.id
+    });
+  }
+
+  return entries;
+}
+
+// Each line's unit must be one the item sells in now: its base unit or one of its sale packs.
+export function validateSaleUnits(sale: QueuedSale, items: InventoryItem[]): string[] {
+  const errors: string[] = [];
+  sale.cart.forEach((line, index) => {
+    const item = items.find(i => String(i.id) === String(line.item.id));
+    if (!item || !line.unit || findSaleUnit(item, line.unit.name)) return;
+    errors.push(`cart[${index}]: ${item.name} is not sold by the ${line.unit.name}.`);
+  });
+  return errors;
+}
+
+// The lines with their unit's name and factor as the item defines them, so stock moves by the
+// item's pack size rather than the till's. The price the line was rung up at stands.
+export const withItemUnits = (sale: QueuedSale, items: InventoryItem[]): QueuedSale => ({
+  ...sale,
+  cart: sale.cart.map(line => {
+    const item = items.find(i => String(i.id) === String(line.item.id));
+    const unit = item && line.unit ? findSaleUnit(item, line.unit.name) : undefined;
+    return unit ? { ...line, unit: { ...line.unit, name: unit.name, factor: unit.factor } } : line;
+  })
+});
+
+// Items serialised now need a serial per unit sold, whatever the till's cached copy of the item says.
+export function validateSaleSerials(sale: QueuedSale, items: InventoryItem[]): string[] {
+  const errors: string[] = [];
+  sale.cart.forEach((line, index) => {
+    const item = items.find(i => String(i.id) === String(line.item.id));
+    if (!item?.serialised) return;
+    validateSerials(line.serials, baseQuantity(line)).forEach(error => errors.push(`cart[${index}]: ${item.name} ${error}`));
+  });
+  return errors;
+}
+
+export async function postSale(posted: QueuedSale, user: string): Promise<SalePostResult> {
+  const items = await store.listInventory();
+  const unitErrors = validateSaleUnits(posted, items);
+  if (unitErrors.length > 0) {
+    return { status: "invalid", saleId: posted.id, errors: unitErrors };
+  }
+  const sale = withItemUnits(posted, items);
+
+  const stock = sale.cart.map(line => ({
+    inventory_item_id: line.item.id,
+    quantity: baseQuantity(line),
+    serials: line.serials?.length ? line.serials.map(normalizeSerial) : undefined
+  }));
+
+  const serialErrors = validateSaleSerials(sale, items);
+  if (serialErrors.length > 0) {
+    return { status: "invalid", saleId: sale.id, errors: serialErrors };
+  }
+
+  if (sale.customerId) {
+    const customers = await store.listCustomers();
+    if (!customers.some(c => String(c.id) === sale.customerId)) {
+      return { status: "invalid", saleId: sale.id, errors: [`Customer ${sale.customerId} not found.`] };
+    }
+  }
+
+  // A sale queued offline may sync after its shift closed; it still belongs to that shift.
+  if (sale.shiftId && !(await store.getShift(sale.shiftId))) {
+    return { status: "invalid", saleId: sale.id, errors: [`Shift ${sale.shiftId} not found.`] };
+  }
+
+  // Stock leaves the location the terminal is bound to, whichever location the till last cached.
+  const header = toSaleHeader(sale);
+  header.location_id = await terminalLocation(header.terminal_id);
+  const outcome = await store.postSale(header, buildLedgerEntries(sale), stock);
+  if (outcome.status === "conflict") {
+    return { status: "conflict", saleId: sale.id, conflicts: outcome.conflicts || [] };
+  }
+  if (outcome.status === "invalid") {
+    return { status: "invalid", saleId: sale.id, errors: [outcome.message] };
+  }
+  // The sale stands even when the quote was cancelled or converted elsewhere meanwhile.
+  if (outcome.status === "posted" && sale.quoteId) {
+    await store.closeQuote(sale.quoteId, "converted", user);
+  }
+  return { status: "posted", saleId: sale.id, duplicate: outcome.status === "duplicate" };
+}
+
+export const salesRouter = express.Router();
+
+// Sale headers, newest first.
+salesRouter.get("/", respond("Sale header fetch", () => store.listSaleHeaders()));
+
+// The public verification link for a posted sale, shown on receipts. By sale id only: receipt
+// numbers are sequential, so accepting them would let anyone walk the links of every sale.
+salesRouter.get("/:id/receipt-link", respond("Receipt link", async req => {
+  const sale = await store.getSale(req.params.id);
+  if (!sale || sale.id !== req.params.id) throw new RequestError(`No sale found for ${req.params.id}.`, 404);
+  const token = signReceiptToken(sale.id);
+  return { token, url: receiptUrl(token, req) };
+}));
+
+salesRouter.post("/", async (req, res) => {
+  const errors = validateQueuedSale(req.body);
+  if (errors.length > 0) {
+    const result: SalePostResult = { status: "invalid", saleId: req.body?.id, errors };
+    res.status(400).json(result);
+    return;
+  }
+
+  if (!store.isConfigured) {
+    const result: SalePostResult = { status: "error", saleId: req.body.id, message: "The data backend is not configured on the server." };
+    res.status(503).json(result);
+    return;
+  }
+
+  try {
+    const result = await postSale(req.body as QueuedSale, sessionUser(req));
+    const statusCode = result.status === "posted"
+      ? (result.duplicate ? 200 : 201)
+      : result.status === "conflict" ? 409 : result.status === "invalid" ? 400 : 500;
+    res.status(statusCode).json(result);
+  } catch (err: any) {
+    console.error("Sale posting failed:", err);
+    const result: SalePostResult = { status: "error", saleId: req.body.id, message: err?.message || "Sale posting failed." };
+    res.status(500).json(result);
+  }
+});
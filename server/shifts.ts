@@ -0,0 +1,178 @@
+import express from "express";
+import { store } from "./db";
+import { respond, RequestError } from "./respond";
+import { sessionUser } from "./auth";
+import { COUNTED_TENDERS, countDenominations, DENOMINATIONS, DRAWER_MOVEMENT_KINDS, expectedByTender, isDrawerMovementKind, overShort, shiftTenderLines, tenderFundSource, uncountedTenders } from "../src/lib/shifts";
+import { tenderLabel } from "../src/lib/sales";
+import type { CashShift, ShiftCloseRequest, ShiftReport } from "../src/types";
+
+const isNonEmptyString = (val: unknown): val is string =>
+  typeof val === "string" && val.trim().length > 0;
+
+const isNonNegativeNumber = (val: unknown): val is number =>
+  typeof val === "number" && Number.isFinite(val) && val >= 0;
+
+const optionalString = (val: unknown) => (isNonEmptyString(val) ? val.trim() : null);
+
+const NON_CASH_COUNTED = COUNTED_TENDERS.filter(method => method !== "Cash");
+
+export function validateShiftOpen(body: any): string[] {
+  const errors: string[] = [];
+  if (!isNonEmptyString(body?.terminalId)) errors.push("terminalId is required.");
+  if (!isNonNegativeNumber(body?.openingFloat)) errors.push("openingFloat must be a non-negative number.");
+  return errors;
+}
+
+export function validateDrawerMovement(body: any): string[] {
+  const errors: string[] = [];
+  if (!isDrawerMovementKind(body?.kind)) {
+    errors.push(`kind must be one of ${DRAWER_MOVEMENT_KINDS.map(k => k.code).join(", ")}.`);
+  }
+  if (typeof body?.amount !== "number" || !Number.isFinite(body.amount) || body.amount <= 0) {
+    errors.push("amount must be a positive number.");
+  }
+  if (!isNonEmptyString(body?.reason)) errors.push("reason is required.");
+  return errors;
+}
+
+export function validateShiftClose(body: any): string[] {
+  const errors: string[] = [];
+  if (body?.categoryId === undefined || body.categoryId === null || body.categoryId === "") {
+    errors.push("categoryId is required to post the over/short.");
+  }
+  if (!body?.denominations || typeof body.denominations !== "object" || Array.isArray(body.denominations)) {
+    errors.push("denominations must map each face value to the number counted.");
+  } else {
+    Object.entries(body.denominations).forEach(([value, count]) => {
+      if (!DENOMINATIONS.includes(Number(value))) {
+        errors.push(`denominations.${value} is not a recognised face value.`);
+      } else if (!Number.isInteger(count) || (count as number) < 0) {
+        errors.push(`denominations.${value} must be a non-negative whole number.`);
+      }
+    });
+  }
+  if (body?.counted !== undefined) {
+    if (!body.counted || typeof body.counted !== "object" || Array.isArray(body.counted)) {
+      errors.push("counted must map each tender to the amount counted.");
+    } else {
+      Object.entries(body.counted).forEach(([method, amount]) => {
+        if (!NON_CASH_COUNTED.includes(method)) {
+          errors.push(`counted.${method} must be one of ${NON_CASH_COUNTED.join(", ")}; cash comes from the denominations.`);
+        } else if (!isNonNegativeNumber(amount)) {
+          errors.push(`counted.${method} must be a non-negative number.`);
+        }
+      });
+    }
+  }
+  return errors;
+}
+
+async function findShift(id: string) {
+  const shift = await store.getShift(id);
+  if (!shift) throw new RequestError("Shift not found.", 404);
+  return shift;
+}
+
+// An open shift is reported against its sales, returns and movements so far (the X report); a closed
+// one against the amounts frozen when it was counted (the Z report).
+async function buildShiftReport(shift: CashShift): Promise<ShiftReport> {
+  const [movements, sales, returns] = await Promise.all([
+    store.listDrawerMovements(shift.id),
+    store.listShiftSales(shift.id),
+    store.listReturns({ shiftId: shift.id })
+  ]);
+  const tenders = shift.status === "closed" && shift.expected
+    ? shiftTenderLines(shift.expected, shift.counted || {})
+    : shiftTenderLines(expectedByTender(shift, sales, movements, returns), null);
+  return { shift, movements, sales, returns, tenders };
+}
+
+export const shiftsRouter = express.Router();
+
+// Shifts, newest first; filter by ?terminalId= and ?status=open|closed.
+shiftsRouter.get("/", respond("Shift fetch", req => {
+  const { terminalId, status } = req.query;
+  return store.listShifts({
+    terminalId: typeof terminalId === "string" && terminalId ? terminalId : undefined,
+    status: status === "open" || status === "closed" ? status : undefined
+  });
+}));
+
+shiftsRouter.post("/", respond("Shift open", async req => {
+  const errors = validateShiftOpen(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const outcome = await store.openShift({
+    terminal_id: req.body.terminalId.trim(),
+    cashier_name: sessionUser(req),
+    opening_float: req.body.openingFloat,
+    notes: optionalString(req.body.notes)
+  });
+  if (outcome.status === "invalid") throw new RequestError(outcome.message, 409);
+  return outcome.shift;
+}, 201));
+
+shiftsRouter.get("/:id/report", respond("Shift report", async req =>
+  buildShiftReport(await findShift(req.params.id))
+));
+
+shiftsRouter.post("/:id/movements", respond("Drawer movement", async req => {
+  const errors = validateDrawerMovement(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const outcome = await store.recordDrawerMovement({
+    shift_id: req.params.id,
+    kind: req.body.kind,
+    amount: req.body.amount,
+    reason: req.body.reason.trim(),
+    performed_by: sessionUser(req)
+  });
+  if (outcome.status === "not_found") throw new RequestError("Shift not found.", 404);
+  if (outcome.status === "invalid") throw new RequestError(outcome.message, 409);
+  return outcome.movement;
+}, 201));
+
+// Counts the drawer, freezes expected vs counted per tender on the shift and posts each tender's
+// over/short to the ledger as an expense funded by that tender (negative when it is over).
+shiftsRouter.post("/:id/close", respond("Shift close", async req => {
+  const errors = validateShiftClose(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const request = req.body as ShiftCloseRequest;
+  const shift = await findShift(req.params.id);
+  if (shift.status !== "open") throw new RequestError(`${shift.shift_no} is already closed.`, 409);
+
+  const [movements, sales, returns] = await Promise.all([
+    store.listDrawerMovements(shift.id),
+    store.listShiftSales(shift.id),
+    store.listReturns({ shiftId: shift.id })
+  ]);
+  const expected = expectedByTender(shift, sales, movements, returns);
+  const counted: Record<string, number> = { ...(request.counted || {}), Cash: countDenominations(request.denominations) };
+  const missing = uncountedTenders(expected, counted);
+  if (missing.length > 0) {
+    throw new RequestError(`Count every tender the shift took payments in; not counted: ${missing.map(tenderLabel).join(", ")}.`);
+  }
+  const lines = shiftTenderLines(expected, counted);
+  const variance = overShort(lines);
+  const closedAt = new Date().toISOString();
+
+  const outcome = await store.closeShift({
+    shiftId: shift.id,
+    closedBy: sessionUser(req),
+    closedAt,
+    denominations: request.denominations,
+    expected,
+    counted,
+    overShort: variance,
+    notes: optionalString(request.notes),
+    entries: lines.filter(line => line.variance).map(line => ({
+      category_id: String(request.categoryId),
+      amount: -(line.variance as number),
+      transaction_type: "expense",
+      fund_source: tenderFundSource(line.method),
+      description: `${tenderLabel(line.method)} ${(line.variance as number) > 0 ? "over" : "short"} ${shift.shift_no} (${shift.terminal_id}, ${shift.cashier_name})`,
+      created_at: closedAt
+    }))
+  });
+  if (outcome.status === "not_found") throw new RequestError("Shift not found.", 404);
+  if (outcome.status === "invalid") throw new RequestError(outcome.message, 409);
+  return buildShiftReport(outcome.shift);
+}));
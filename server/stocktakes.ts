@@ -0,0 +1,95 @@
+import express from "express";
+import { store } from "./db";
+import type { StocktakeOutcome } from "./db/types";
+import { respond, RequestError } from "./respond";
+import { sessionUser } from "./auth";
+import { resolveLocation } from "./locations";
+import type { StocktakeCountRequest, StocktakeRequest, StocktakeStatus } from "../src/types";
+
+const isNonEmptyString = (val: unknown): val is string =>
+  typeof val === "string" && val.trim().length > 0;
+
+const isStockQuantity = (val: unknown): val is number =>
+  typeof val === "number" && Number.isInteger(val) && val >= 0;
+
+const optionalString = (val: unknown) => (isNonEmptyString(val) ? val.trim() : null);
+
+const STOCKTAKE_STATUSES: StocktakeStatus[] = ["counting", "approved", "cancelled"];
+
+export function validateStocktake(body: any): string[] {
+  const errors: string[] = [];
+  for (const field of ["locationId", "categoryId", "bin"] as const) {
+    if (body?.[field] !== undefined && !isNonEmptyString(body[field])) {
+      errors.push(`${field} must be a non-empty string when provided.`);
+    }
+  }
+  if (body?.notes !== undefined && typeof body.notes !== "string") errors.push("notes must be a string when provided.");
+  return errors;
+}
+
+export function validateStocktakeCounts(body: any): string[] {
+  const errors: string[] = [];
+  if (!Array.isArray(body?.counts) || body.counts.length === 0) {
+    errors.push("counts must contain at least one count.");
+    return errors;
+  }
+  body.counts.forEach((count: any, index: number) => {
+    if (!isNonEmptyString(count?.inventoryItemId)) errors.push(`counts[${index}].inventoryItemId is required.`);
+    if (!isStockQuantity(count?.countedQuantity)) errors.push(`counts[${index}].countedQuantity must be a non-negative whole number.`);
+  });
+  return errors;
+}
+
+const unwrapOutcome = (outcome: StocktakeOutcome) => {
+  if (outcome.status === "not_found") throw new RequestError("Stocktake not found.", 404);
+  if (outcome.status === "invalid") throw new RequestError(outcome.message, 409);
+  return outcome.stocktake;
+};
+
+export const stocktakesRouter = express.Router();
+
+stocktakesRouter.get("/", respond("Stocktake fetch", req => {
+  const status = req.query.status as StocktakeStatus | undefined;
+  if (status !== undefined && !STOCKTAKE_STATUSES.includes(status)) {
+    throw new RequestError(`status must be one of ${STOCKTAKE_STATUSES.join(", ")}.`);
+  }
+  return store.listStocktakes({ status });
+}));
+
+// Freezes what the location holds of every active item in scope; counts are compared against it.
+stocktakesRouter.post("/", respond("Stocktake start", async req => {
+  const errors = validateStocktake(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const request = req.body as StocktakeRequest;
+  const location = await resolveLocation(request.locationId);
+  if (!location) throw new RequestError("No default location is set up.", 409);
+  return unwrapOutcome(await store.startStocktake({
+    stocktake: {
+      location_id: String(location.id),
+      category_id: optionalString(request.categoryId),
+      bin: optionalString(request.bin),
+      notes: optionalString(request.notes),
+      started_by: sessionUser(req)
+    }
+  }));
+}, 201));
+
+stocktakesRouter.put("/:id/counts", respond("Stocktake count", async req => {
+  const errors = validateStocktakeCounts(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const request = req.body as StocktakeCountRequest;
+  return unwrapOutcome(await store.recordStocktakeCounts({
+    stocktakeId: req.params.id,
+    counts: request.counts.map(count => ({ inventory_item_id: count.inventoryItemId, counted_quantity: count.countedQuantity })),
+    user: sessionUser(req)
+  }));
+}));
+
+// Posts the variances to stock and books their net cost as a PROFIT expense.
+stocktakesRouter.post("/:id/approve", respond("Stocktake approval", async req => {
+  return unwrapOutcome(await store.approveStocktake(req.params.id, sessionUser(req)));
+}));
+
+stocktakesRouter.post("/:id/cancel", respond("Stocktake cancel", async req => {
+  return unwrapOutcome(await store.cancelStocktake(req.params.id, sessionUser(req)));
+}));
@@ -0,0 +1,24 @@
+import { createClient } from "@supabase/supabase-js";
+
+// Server-side client. Needs the service role key: the tables and functions behind /api are
+// closed to the anon key the SPA ships with.
+
+// Values copied verbatim from .env.example are placeholders ("your-...").
+const firstConfigured = (...values: (string | undefined)[]) =>
+  values.find(v => v && !v.startsWith("your-"));
+
+const supabaseUrl = firstConfigured(process.env.SUPABASE_URL, process.env.VITE_SUPABASE_URL);
+const supabaseKey = firstConfigured(process.env.SUPABASE_SERVICE_ROLE_KEY);
+
+export const isServerConfigured = Boolean(supabaseUrl && supabaseKey);
+
+export const supabaseAdmin = createClient(
+  isServerConfigured ? supabaseUrl! : "https://placeholder-project.supabase.co",
+  isServerConfigured ? supabaseKey! : "placeholder-key",
+  {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    }
+  }
+);
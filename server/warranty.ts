@@ -0,0 +1,101 @@
+import express from "express";
+import { store } from "./db";
+import { respond, RequestError } from "./respond";
+import { sessionUser } from "./auth";
+import { isWarrantyOutcome, normalizeSerial, WARRANTY_CLAIM_TRANSITIONS, WARRANTY_OUTCOMES } from "../src/lib/warranty";
+import type { SerialLookup, SerialStatus, WarrantyClaimUpdate } from "../src/types";
+
+const isNonEmptyString = (val: unknown): val is string =>
+  typeof val === "string" && val.trim().length > 0;
+
+const optionalString = (val: unknown) => (isNonEmptyString(val) ? val.trim() : null);
+
+const SERIAL_STATUSES: SerialStatus[] = ["in_stock", "sold"];
+
+export function validateWarrantyClaim(body: any): string[] {
+  const errors: string[] = [];
+  if (!isNonEmptyString(body?.serialId)) errors.push("serialId is required.");
+  if (!isNonEmptyString(body?.fault)) errors.push("fault is required.");
+  return errors;
+}
+
+export function validateWarrantyClaimUpdate(body: any): string[] {
+  const errors: string[] = [];
+  if (!Object.keys(WARRANTY_CLAIM_TRANSITIONS).includes(body?.status)) {
+    errors.push(`status must be one of ${Object.keys(WARRANTY_CLAIM_TRANSITIONS).join(", ")}.`);
+  }
+  if (body?.status === "with_supplier" && !isNonEmptyString(body?.supplierId)) {
+    errors.push("supplierId is required when sending a claim to the supplier.");
+  }
+  if (body?.status === "resolved" && !isWarrantyOutcome(body?.outcome)) {
+    errors.push(`outcome must be one of ${WARRANTY_OUTCOMES.map(o => o.code).join(", ")} when resolving.`);
+  }
+  return errors;
+}
+
+export const warrantyRouter = express.Router();
+
+warrantyRouter.get("/serials", respond("Serial fetch", req => {
+  const status = req.query.status as SerialStatus | undefined;
+  if (status !== undefined && !SERIAL_STATUSES.includes(status)) {
+    throw new RequestError(`status must be one of ${SERIAL_STATUSES.join(", ")}.`);
+  }
+  return store.listSerials({
+    itemId: typeof req.query.itemId === "string" ? req.query.itemId : undefined,
+    saleId: typeof req.query.saleId === "string" ? req.query.saleId : undefined,
+    serialNo: typeof req.query.serial === "string" ? normalizeSerial(req.query.serial) : undefined,
+    status
+  });
+}));
+
+// Every unit carrying the serial (different items may share one), with its sale and claims.
+warrantyRouter.get("/lookup/:serial", respond("Serial lookup", async req => {
+  const serials = await store.listSerials({ serialNo: normalizeSerial(req.params.serial) });
+  if (serials.length === 0) throw new RequestError(`No unit with serial ${normalizeSerial(req.params.serial)} is on record.`, 404);
+  return Promise.all(serials.map(async (serial): Promise<SerialLookup> => ({
+    serial,
+    sale: serial.sale_id ? await store.getSale(serial.sale_id) : null,
+    claims: await store.listWarrantyClaims({ serialId: String(serial.id) })
+  })));
+}));
+
+warrantyRouter.get("/claims", respond("Warranty claim fetch", () => store.listWarrantyClaims()));
+
+warrantyRouter.post("/claims", respond("Warranty claim", async req => {
+  const errors = validateWarrantyClaim(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const [serial] = await store.listSerials({ id: req.body.serialId });
+  if (!serial) throw new RequestError("Serial not found.", 404);
+  if (serial.status !== "sold") throw new RequestError(`Serial ${serial.serial_no} has not been sold, so there is no warranty to claim.`, 409);
+  return store.createWarrantyClaim({
+    serial_id: String(serial.id),
+    inventory_item_id: serial.inventory_item_id,
+    serial_no: serial.serial_no,
+    sale_id: serial.sale_id || null,
+    customer_name: serial.customer_name || null,
+    fault: req.body.fault.trim(),
+    reported_by: sessionUser(req)
+  });
+}, 201));
+
+warrantyRouter.patch("/claims/:id", respond("Warranty claim update", async req => {
+  const errors = validateWarrantyClaimUpdate(req.body);
+  if (errors.length > 0) throw new RequestError(errors.join(" "));
+  const update = req.body as WarrantyClaimUpdate;
+  if (update.supplierId) {
+    const suppliers = await store.listSuppliers();
+    if (!suppliers.some(s => String(s.id) === update.supplierId)) throw new RequestError("Supplier not found.");
+  }
+  const outcome = await store.updateWarrantyClaim(req.params.id, {
+    status: update.status,
+    from: WARRANTY_CLAIM_TRANSITIONS[update.status],
+    patch: {
+      ...(update.supplierId ? { supplier_id: update.supplierId } : {}),
+      ...(optionalString(update.rmaNo) ? { rma_no: optionalString(update.rmaNo) } : {}),
+      ...(update.status === "resolved" ? { outcome: update.outcome, outcome_note: optionalString(update.outcomeNote) } : {})
+    }
+  });
+  if (outcome.status === "not_found") throw new RequestError("Warranty claim not found.", 404);
+  if (outcome.status === "invalid") throw new RequestError(outcome.message, 409);
+  return outcome.claim;
+}));
@@ -12,12 +12,17 @@ import {
   TrendingUp,
   LogOut,
   User,
-  Zap
+  Zap,
+  Truck,
+  Users
 } from 'lucide-react';
 import { cn } from './lib/utils';
 import { supabase, isConfigured } from './lib/supabase';
+import { isLocalBackend, loadLocalSession, LOCAL_SIGNED_OUT_EVENT, signOutLocal } from './lib/data';
 import Dashboard from './pages/Dashboard';
 import Inventory from './pages/Inventory';
+import Purchasing from './pages/Purchasing';
+import Customers from './pages/Customers';
 import POS from './pages/POS';
 import Sales from './pages/Sales';
 import Outflow from './pages/Outflow';
@@ -26,19 +31,21 @@ import BusinessIntelligenceReport from './pages/BusinessIntelligenceReport';
 import TaxManager from './pages/TaxManager';
 import Settings from './pages/Settings';
 import Login from './pages/Login';
+import LocalLogin from './pages/LocalLogin';
 import ResetPassword from './pages/ResetPassword';
 import PinGuard from './components/PinGuard';
 import ThemeSwitcher from './components/ThemeSwitcher';
 import { SafeRender } from './components/SafeRender';
 import { AlertTriangle, Key, ExternalLink, Settings as SettingsIcon, Building2, Receipt } from 'lucide-react';
 
-type Page = 'dashboard' | 'inventory' | 'pos' | 'sales' | 'outflow' | 'profit-distribution' | 'bi-report' | 'tax-manager' | 'settings';
+type Page = 'dashboard' | 'inventory' | 'purchasing' | 'pos' | 'customers' | 'sales' | 'outflow' | 'profit-distribution' | 'bi-report' | 'tax-manager' | 'settings';
 
 export default function App() {
   const [activePage, setActivePage] = useState<Page>('dashboard');
   const [isSidebarOpen, setIsSidebarOpen] = useState(window.innerWidth > 1024);
   const [isMobile, setIsMobile] = useState(window.innerWidth < 1024);
   const [session, setSession] = useState<any>(null);
+  const [localSession, setLocalSession] = useState(loadLocalSession);
   const [loading, setLoading] = useState(true);
   const [isResettingPassword, setIsResettingPassword] = useState(false);
   const [theme, setTheme] = useState<'dark' | 'light'>('dark');
@@ -76,6 +83,14 @@ export default function App() {
   }, [theme]);
 
   useEffect(() => {
+    // Single-box installs (DATA_BACKEND=sqlite) sign in against the server with a PIN instead.
+    if (isLocalBackend) {
+      setLoading(false);
+      const handleSignedOut = () => setLocalSession(null);
+      window.addEventListener(LOCAL_SIGNED_OUT_EVENT, handleSignedOut);
+      return () => window.removeEventListener(LOCAL_SIGNED_OUT_EVENT, handleSignedOut);
+    }
+
     // If not configured, we don't even try to get session to avoid "Failed to fetch"
     if (!isConfigured) {
       setLoading(false);
@@ -129,6 +144,10 @@ export default function App() {
   }, []);
 
   const handleLogout = async () => {
+    if (isLocalBackend) {
+      signOutLocal();
+      return;
+    }
     await supabase.auth.signOut();
   };
 
@@ -145,7 +164,7 @@ export default function App() {
     return <ResetPassword onComplete={() => setIsResettingPassword(false)} />;
   }
 
-  if (!isConfigured) {
+  if (!isLocalBackend && !isConfigured) {
     return (
       <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center p-6">
         <div className="vault-card p-12 text-center max-w-xl w-full border-[#FFD700]/30 shadow-[0_0_50px_rgba(255,215,0,0.1)]">
@@ -196,7 +215,15 @@ export default function App() {
     );
   }
 
-  if (!session) {
+  if (isLocalBackend && !localSession) {
+    return (
+      <SafeRender>
+        <LocalLogin onSignedIn={setLocalSession} />
+      </SafeRender>
+    );
+  }
+
+  if (!isLocalBackend && !session) {
     return (
       <SafeRender>
         <Login />
@@ -207,7 +234,9 @@ export default function App() {
   const navItems = [
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { id: 'inventory', label: 'Inventory', icon: Package },
+    { id: 'purchasing', label: 'Purchasing', icon: Truck },
     { id: 'pos', label: 'POS', icon: ShoppingCart },
+    { id: 'customers', label: 'Customer Accounts', icon: Users },
     { id: 'sales', label: 'Sales Archive', icon: History },
     { id: 'outflow', label: 'Outflow Guardian', icon: ShieldCheck },
     { id: 'profit-distribution', label: 'Profit Distribution', icon: TrendingUp },
@@ -282,8 +311,8 @@ export default function App() {
             </div>
             {isSidebarOpen && (
               <div className="flex flex-col overflow-hidden">
-                <span className="text-xs font-black uppercase tracking-tighter truncate text-white">{session.user.email?.split('@')[0]}</span>
-                <span className="text-[10px] text-slate-500 truncate font-mono">{session.user.email}</span>
+                <span className="text-xs font-black uppercase tracking-tighter truncate text-white">{isLocalBackend ? localSession.name : session.user.email?.split('@')[0]}</span>
+                <span className="text-[10px] text-slate-500 truncate font-mono">{isLocalBackend ? 'SQLite backend' : session.user.email}</span>
               </div>
             )}
           </div>
@@ -335,10 +364,12 @@ export default function App() {
           <div className="absolute bottom-0 left-0 w-full sm:w-[600px] h-[600px] bg-blue-500/5 blur-[150px] rounded-full pointer-events-none" />
           
           <div className="relative z-10 w-full max-w-[1400px] mx-auto">
-            <PinGuard protectedPages={['dashboard', 'outflow', 'sales', 'profit-distribution', 'bi-report', 'tax-manager']} activePage={activePage}>
+            <PinGuard protectedPages={['dashboard', 'purchasing', 'customers', 'outflow', 'sales', 'profit-distribution', 'bi-report', 'tax-manager']} activePage={activePage}>
               {activePage === 'dashboard' && <Dashboard />}
               {activePage === 'inventory' && <Inventory />}
+              {activePage === 'purchasing' && <Purchasing />}
               {activePage === 'pos' && <POS />}
+              {activePage === 'customers' && <Customers />}
               {activePage === 'sales' && <Sales />}
               {activePage === 'outflow' && <Outflow />}
               {activePage === 'profit-distribution' && <ProfitDistribution />}
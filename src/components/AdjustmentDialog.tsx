@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Loader2, RotateCcw, Edit3, X } from 'lucide-react';
+import { AdjustmentReasonCode } from '../types';
+import { ADJUSTMENT_REASONS, AdjustmentRequest } from '../lib/adjustments';
+import { cn } from '../lib/utils';
+
+interface AdjustmentDialogProps {
+  mode: 'reversal' | 'correction';
+  title: string;
+  summary: string;
+  // Correction mode only: the current net amount and the proposed new amount
+  currentAmount?: number;
+  initialAmount?: number;
+  onSubmit: (request: AdjustmentRequest, amount?: number) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function AdjustmentDialog({ mode, title, summary, currentAmount, initialAmount, onSubmit, onClose }: AdjustmentDialogProps) {
+  const [reasonCode, setReasonCode] = useState<AdjustmentReasonCode | ''>('');
+  const [note, setNote] = useState('');
+  const [amount, setAmount] = useState<string>(initialAmount !== undefined ? String(initialAmount) : '');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsedAmount = parseFloat(amount);
+  const amountValid = mode === 'reversal' || (!isNaN(parsedAmount) && parsedAmount >= 0);
+  const canSubmit = reasonCode !== '' && amountValid &&
+    (reasonCode !== 'OTHER' || note.trim() !== '') && !submitting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit || reasonCode === '') return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(
+        { reasonCode, note: note.trim() },
+        mode === 'correction' ? parsedAmount : undefined
+      );
+    } catch (err: any) {
+      setError(err?.message || 'Adjustment failed.');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={() => !submitting && onClose()} />
+      <div className="relative bg-[#0d0d0d] border border-white/10 w-full max-w-md rounded-[2.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 p-8">
+        <div className="flex justify-between items-center pb-4 border-b border-white/5 mb-6">
+          <h3 className="text-sm font-black text-white uppercase tracking-widest flex items-center gap-2">
+            {mode === 'reversal'
+              ? <RotateCcw className="text-rose-500" size={18} />
+              : <Edit3 className="text-[#FFD700]" size={18} />}
+            {title}
+          </h3>
+          <button onClick={onClose} disabled={submitting} className="text-slate-500 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+
+        <p className="text-[11px] text-slate-400 mb-6">{summary}</p>
+
+        <div className="space-y-4">
+          {mode === 'correction' && (
+            <div className="space-y-1">
+              <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">
+                Corrected Amount {currentAmount !== undefined && <span className="text-slate-600">(currently ${currentAmount.toLocaleString(undefined, { minimumFractionDigits: 2 })})</span>}
+              </label>
+              <input
+                type="number"
+                min={0}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full bg-[#0a0a0a] border border-white/10 rounded-2xl py-3 px-4 text-xs font-bold text-white outline-none focus:border-[#FFD700]"
+                autoFocus
+              />
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Reason Code *</label>
+            <select
+              value={reasonCode}
+              onChange={(e) => setReasonCode(e.target.value as AdjustmentReasonCode)}
+              className="w-full bg-[#0a0a0a] border border-white/10 rounded-2xl py-3 px-4 text-xs font-bold text-white outline-none focus:border-[#FFD700]"
+            >
+              <option value="">Select a reason...</option>
+              {ADJUSTMENT_REASONS.map(r => (
+                <option key={r.code} value={r.code}>{r.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">
+              Note {reasonCode === 'OTHER' && '*'}
+            </label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full h-16 bg-[#0a0a0a] border border-white/10 rounded-2xl py-3 px-4 text-xs font-bold text-white outline-none focus:border-[#FFD700] resize-none"
+            />
+          </div>
+
+          {error && (
+            <p className="text-[10px] font-bold text-rose-500">{error}</p>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-6 mt-6 border-t border-white/5">
+          <button
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            className={cn(
+              "flex-1 py-4 rounded-2xl font-black text-xs uppercase tracking-widest transition-all flex items-center justify-center gap-2 disabled:opacity-40",
+              mode === 'reversal' ? "bg-rose-500 text-white" : "bg-[#FFD700] text-[#0a0a0a]"
+            )}
+          >
+            {submitting && <Loader2 size={14} className="animate-spin" />}
+            {mode === 'reversal' ? 'Post Reversal' : 'Post Correction'}
+          </button>
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className="flex-1 py-4 border border-white/10 text-white rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-white/5 transition-all"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
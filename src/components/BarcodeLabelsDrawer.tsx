@@ -0,0 +1,231 @@
+import React, { useMemo, useState } from 'react';
+import { X, Barcode, Printer, Wand2, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+import jsPDF from 'jspdf';
+import { BrandingProfile, InventoryItem } from '../types';
+import { assignItemCodes } from '../lib/data';
+import { BARCODE_SYMBOLOGIES, BarcodeSymbology, barcodeSymbologyFor, encodeBarcode } from '../lib/barcodes';
+import { cn } from '../lib/utils';
+
+interface BarcodeLabelsDrawerProps {
+  items: InventoryItem[];
+  branding: BrandingProfile;
+  onClose: () => void;
+  onCodesAssigned: () => void;
+}
+
+// A4 sheets of 3 x 8 labels, 70 x 37 mm: the common 24-up shelf label stock.
+const SHEET = { columns: 3, rows: 8, width: 70, height: 37, left: 0, top: 0.5 };
+const LABEL_PADDING = 4;
+const BAR_HEIGHT = 12;
+const MAX_MODULE_WIDTH = 0.33;
+const QUIET_MODULES = 10;
+
+const money = (n: number) => Number(n || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Draws the bars centred on `centerX`, shrinking the module width until the code fits `maxWidth`.
+export function drawBarcode(doc: jsPDF, code: string, centerX: number, y: number, maxWidth: number, height: number) {
+  const symbology = barcodeSymbologyFor(code);
+  if (!symbology) return;
+  const modules = encodeBarcode(code, symbology);
+  const moduleWidth = Math.min(MAX_MODULE_WIDTH, maxWidth / (modules.length + QUIET_MODULES * 2));
+  let x = centerX - (modules.length * moduleWidth) / 2;
+  doc.setFillColor(0, 0, 0);
+  for (const run of modules.match(/1+|0+/g) || []) {
+    if (run[0] === '1') doc.rect(x, y, run.length * moduleWidth, height, 'F');
+    x += run.length * moduleWidth;
+  }
+}
+
+// Labels always print black on white whatever the PDF scheme, so scanners can read them.
+export function downloadLabelSheet(labels: InventoryItem[], branding: BrandingProfile, startPosition = 1) {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const perSheet = SHEET.columns * SHEET.rows;
+  const innerWidth = SHEET.width - LABEL_PADDING * 2;
+  labels.forEach((item, index) => {
+    const slot = index + startPosition - 1;
+    if (slot > 0 && slot % perSheet === 0) doc.addPage();
+    const column = slot % SHEET.columns;
+    const row = Math.floor((slot % perSheet) / SHEET.columns);
+    const x = SHEET.left + column * SHEET.width + LABEL_PADDING;
+    const y = SHEET.top + row * SHEET.height + LABEL_PADDING;
+    const centerX = x + innerWidth / 2;
+
+    doc.setTextColor(100, 100, 100);
+    doc.setFontSize(6);
+    doc.setFont('helvetica', 'normal');
+    doc.text(branding.business_name.toUpperCase(), x, y + 2);
+
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    const [name] = doc.splitTextToSize(item.name || 'Unnamed Product', innerWidth - 18) as string[];
+    doc.text(name, x, y + 6);
+    doc.setFontSize(11);
+    doc.text(money(item.selling_price), x + innerWidth, y + 6, { align: 'right' });
+
+    drawBarcode(doc, item.code, centerX, y + 9, innerWidth, BAR_HEIGHT);
+
+    doc.setFontSize(8);
+    doc.setFont('courier', 'normal');
+    doc.text(item.code, centerX, y + 9 + BAR_HEIGHT + 4, { align: 'center' });
+  });
+  doc.save(`Shelf_Labels_${new Date().toISOString().split('T')[0]}.pdf`);
+}
+
+// Fills in missing item codes and prints shelf or bin labels for the chosen items.
+export default function BarcodeLabelsDrawer({ items, branding, onClose, onCodesAssigned }: BarcodeLabelsDrawerProps) {
+  const [copies, setCopies] = useState<Record<string, number>>({});
+  const [startPosition, setStartPosition] = useState(1);
+  const [symbology, setSymbology] = useState<BarcodeSymbology>('ean13');
+  const [generating, setGenerating] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const missing = useMemo(() => items.filter(item => !String(item.code || '').trim()), [items]);
+  const printable = useMemo(() => items.filter(item => item.code && barcodeSymbologyFor(item.code)), [items]);
+  const labels = useMemo(
+    () => printable.flatMap(item => Array.from({ length: copies[item.id] ?? 0 }, () => item)),
+    [printable, copies]
+  );
+
+  const setAllCopies = (count: number) =>
+    setCopies(Object.fromEntries(printable.map(item => [item.id, Math.max(count, 0)])));
+
+  const handleGenerate = async () => {
+    setMessage(null);
+    setGenerating(true);
+    const { data, error } = await assignItemCodes(symbology, missing.map(item => item.id));
+    setGenerating(false);
+    if (error || !data) {
+      setMessage({ type: 'error', text: 'Code Generation Error: ' + (error?.message || 'Unknown error') });
+      return;
+    }
+    setMessage({ type: 'success', text: `${Object.keys(data).length} item codes generated` });
+    onCodesAssigned();
+  };
+
+  const handlePrint = () => {
+    if (labels.length === 0) return;
+    downloadLabelSheet(labels, branding, startPosition);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex justify-end">
+      <div className="absolute inset-0 bg-[#0a0a0a]/80 backdrop-blur-md" onClick={onClose} />
+      <div className="relative w-full max-w-xl bg-[#0a0a0a] border-l border-white/10 h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div>
+            <h2 className="text-xl font-black text-[#FFD700] uppercase tracking-tighter flex items-center gap-2">
+              <Barcode size={20} />
+              Barcodes & Labels
+            </h2>
+            <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mt-1">
+              {items.length} items in view • {missing.length} without a code
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors text-slate-500 hover:text-[#FFD700]">
+            <X size={20} />
+          </button>
+        </div>
+
+        {missing.length > 0 && (
+          <div className="p-6 border-b border-white/5 space-y-3">
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Generate Missing Codes</p>
+            <div className="flex gap-2">
+              {BARCODE_SYMBOLOGIES.map(option => (
+                <button
+                  key={option.code}
+                  type="button"
+                  onClick={() => setSymbology(option.code)}
+                  className={cn(
+                    'flex-1 py-3 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all',
+                    symbology === option.code
+                      ? 'bg-[#FFD700] border-[#FFD700] text-[#0a0a0a]'
+                      : 'bg-white/5 border-white/10 text-slate-500 hover:border-white/20'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={handleGenerate}
+                disabled={generating}
+                className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl border border-[#FFD700]/30 text-[10px] font-black text-[#FFD700] uppercase tracking-widest hover:bg-[#FFD700]/10 disabled:opacity-50"
+              >
+                {generating ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />}
+                Generate {missing.length}
+              </button>
+            </div>
+            <p className="text-[9px] text-slate-600 font-bold uppercase tracking-widest">
+              EAN-13 codes use the in-store 200 prefix; Code 128 codes read SKU-000001
+            </p>
+          </div>
+        )}
+
+        {message && (
+          <div className={cn(
+            "mx-6 mt-4 p-4 rounded-2xl border flex items-center gap-3",
+            message.type === 'success'
+              ? "bg-emerald-500/10 border-emerald-500/20 text-emerald-500"
+              : "bg-rose-500/10 border-rose-500/20 text-rose-500"
+          )}>
+            {message.type === 'success' ? <CheckCircle2 size={18} /> : <AlertCircle size={18} />}
+            <p className="text-[10px] font-black uppercase tracking-widest">{message.text}</p>
+          </div>
+        )}
+
+        <div className="px-6 pt-6 flex items-center justify-between gap-4">
+          <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Label Copies</p>
+          <div className="flex gap-2">
+            <button onClick={() => setAllCopies(1)} className="px-3 py-2 rounded-xl border border-white/10 text-[10px] font-black text-slate-400 uppercase tracking-widest hover:border-[#FFD700]">1 Each</button>
+            <button onClick={() => setAllCopies(0)} className="px-3 py-2 rounded-xl border border-white/10 text-[10px] font-black text-slate-400 uppercase tracking-widest hover:border-[#FFD700]">Clear</button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-2">
+          {printable.length === 0 ? (
+            <p className="text-center py-12 text-[10px] font-black text-slate-600 uppercase tracking-widest">No items with a printable code</p>
+          ) : printable.map(item => (
+            <div key={item.id} className="bg-white/5 border border-white/5 rounded-2xl p-3 flex items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-black text-white uppercase tracking-tighter truncate">{item.name}</p>
+                <p className="text-[10px] text-slate-500 font-mono">
+                  {item.code} • {BARCODE_SYMBOLOGIES.find(s => s.code === barcodeSymbologyFor(item.code))?.label}
+                </p>
+              </div>
+              <input
+                type="number"
+                min={0}
+                value={copies[item.id] ?? 0}
+                onChange={(e) => setCopies(prev => ({ ...prev, [item.id]: Math.max(0, parseInt(e.target.value) || 0) }))}
+                className="w-20 bg-white/5 border border-white/10 rounded-xl py-2 px-3 text-xs font-bold text-white text-right outline-none focus:border-[#FFD700]"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 border-t border-white/10 bg-white/5 flex items-center gap-4">
+          <label className="flex flex-col gap-1">
+            <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Start at label</span>
+            <input
+              type="number"
+              min={1}
+              max={SHEET.columns * SHEET.rows}
+              value={startPosition}
+              onChange={(e) => setStartPosition(Math.min(SHEET.columns * SHEET.rows, Math.max(1, parseInt(e.target.value) || 1)))}
+              className="w-24 bg-white/5 border border-white/10 rounded-xl py-2 px-3 text-xs font-bold text-white outline-none focus:border-[#FFD700]"
+            />
+          </label>
+          <button
+            onClick={handlePrint}
+            disabled={labels.length === 0}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-4 bg-[#FFD700] text-[#0a0a0a] rounded-2xl text-xs font-black hover:bg-[#FFD700]/90 transition-all uppercase tracking-tighter disabled:opacity-40"
+          >
+            <Printer size={16} />
+            Print {labels.length} Labels
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { Palette, Save, Upload, Trash2, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { BrandingProfile } from '../types';
+import { getBranding, saveBranding } from '../lib/data';
+import { cacheBranding, isHexColor, loadCachedBranding, PDF_SCHEMES, rasterizeLogo, withBrandingDefaults } from '../lib/branding';
+import { cn } from '../lib/utils';
+import { ReceiptBrandHeader } from './Receipt';
+
+// Keeps the encoded logo well under the server's limit.
+const MAX_LOGO_BYTES = 200 * 1024;
+
+const TEXT_FIELDS: { key: 'address' | 'phone' | 'email' | 'tin' | 'vrn'; label: string }[] = [
+  { key: 'address', label: 'Address' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'email', label: 'Email' },
+  { key: 'tin', label: 'TIN' },
+  { key: 'vrn', label: 'VRN' }
+];
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-2xl py-3 px-4 text-xs font-bold text-white focus:border-[#FFD700] transition-colors outline-none';
+
+const readDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// The business profile printed on every receipt, thermal slip and PDF report.
+export default function BrandingSettings() {
+  const [form, setForm] = useState<BrandingProfile>(loadCachedBranding);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  useEffect(() => {
+    getBranding().then(({ data }) => {
+      if (data) setForm(withBrandingDefaults(data));
+      setLoading(false);
+    });
+  }, []);
+
+  const update = (patch: Partial<BrandingProfile>) => setForm(prev => ({ ...prev, ...patch }));
+
+  const handleLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMessage(null);
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      setMessage({ type: 'error', text: 'The logo must be a PNG or JPEG image' });
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setMessage({ type: 'error', text: `The logo must be under ${MAX_LOGO_BYTES / 1024} KB` });
+      return;
+    }
+    try {
+      const logo = await readDataUrl(file);
+      update({ logo, logo_raster: await rasterizeLogo(logo) });
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err?.message || 'The logo could not be read' });
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    if (!form.business_name.trim()) {
+      setMessage({ type: 'error', text: 'Business name is required' });
+      return;
+    }
+    if (!isHexColor(form.accent_color)) {
+      setMessage({ type: 'error', text: 'Accent colour must be a #RRGGBB value' });
+      return;
+    }
+    setSaving(true);
+    const { data, error } = await saveBranding({
+      businessName: form.business_name,
+      logo: form.logo || null,
+      logoRaster: form.logo_raster || null,
+      address: form.address || '',
+      phone: form.phone || '',
+      email: form.email || '',
+      tin: form.tin || '',
+      vrn: form.vrn || '',
+      receiptFooter: form.receipt_footer || '',
+      accentColor: form.accent_color,
+      pdfScheme: form.pdf_scheme
+    });
+    setSaving(false);
+    if (error || !data) {
+      setMessage({ type: 'error', text: 'Branding Error: ' + (error?.message || 'Unknown error') });
+      return;
+    }
+    const saved = withBrandingDefaults(data);
+    cacheBranding(saved);
+    setForm(saved);
+    setMessage({ type: 'success', text: 'Branding saved; receipts and reports now use it' });
+  };
+
+  return (
+    <div className="vault-card p-8 rounded-[2.5rem] border border-white/5 bg-[#0d0d0d] relative overflow-hidden">
+      <div className="absolute top-0 right-0 p-8 opacity-5">
+        <Palette size={120} className="text-[#FFD700]" />
+      </div>
+
+      <div className="relative z-10">
+        <div className="flex items-center gap-3 mb-8">
+          <Palette className="text-[#FFD700]" size={20} />
+          <h2 className="text-sm font-black text-white uppercase tracking-widest">Branding</h2>
+          {loading && <Loader2 size={14} className="animate-spin text-slate-500" />}
+        </div>
+
+        <form onSubmit={handleSave} className="space-y-6">
+          <div className="flex items-center gap-4">
+            <div className="w-24 h-24 rounded-2xl border border-white/10 bg-white flex items-center justify-center overflow-hidden shrink-0">
+              {form.logo
+                ? <img src={form.logo} alt="Logo" className="max-w-full max-h-full object-contain" />
+                : <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">No Logo</span>}
+            </div>
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 px-4 py-2 rounded-xl border border-white/10 text-[10px] font-black text-white uppercase tracking-widest cursor-pointer hover:border-[#FFD700]">
+                <Upload size={14} /> Upload Logo
+                <input type="file" accept="image/png,image/jpeg" onChange={handleLogo} className="hidden" />
+              </label>
+              {form.logo && (
+                <button
+                  type="button"
+                  onClick={() => update({ logo: null, logo_raster: null })}
+                  className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest hover:text-rose-400"
+                >
+                  <Trash2 size={14} /> Remove
+                </button>
+              )}
+              <p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">PNG or JPEG, dithered for the receipt printer</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Business Name</label>
+            <input type="text" value={form.business_name} onChange={(e) => update({ business_name: e.target.value })} className={inputClass} required />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {TEXT_FIELDS.map(field => (
+              <div key={field.key} className={cn('space-y-2', field.key === 'address' && 'md:col-span-2')}>
+                <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">{field.label}</label>
+                <input type="text" value={form[field.key] || ''} onChange={(e) => update({ [field.key]: e.target.value })} className={inputClass} />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Receipt Footer</label>
+            <textarea
+              value={form.receipt_footer || ''}
+              onChange={(e) => update({ receipt_footer: e.target.value })}
+              className={cn(inputClass, 'h-20 resize-none')}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Accent Colour</label>
+              <div className="flex gap-2">
+                <input
+                  type="color"
+                  value={isHexColor(form.accent_color) ? form.accent_color : '#FFD700'}
+                  onChange={(e) => update({ accent_color: e.target.value.toUpperCase() })}
+                  className="h-11 w-14 rounded-xl bg-transparent border border-white/10 cursor-pointer"
+                />
+                <input type="text" value={form.accent_color} onChange={(e) => update({ accent_color: e.target.value.trim() })} className={inputClass} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">PDF Colour Scheme</label>
+              <div className="flex gap-2">
+                {PDF_SCHEMES.map(scheme => (
+                  <button
+                    key={scheme.code}
+                    type="button"
+                    onClick={() => update({ pdf_scheme: scheme.code })}
+                    className={cn(
+                      'flex-1 py-3 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all',
+                      form.pdf_scheme === scheme.code
+                        ? 'bg-[#FFD700] border-[#FFD700] text-[#0a0a0a]'
+                        : 'bg-white/5 border-white/10 text-slate-500 hover:border-white/20'
+                    )}
+                  >
+                    {scheme.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="rounded-2xl border border-dashed border-white/10 bg-[#070707] p-6 font-mono text-center space-y-1">
+            <ReceiptBrandHeader branding={form} caption="Receipt Preview" />
+            {form.receipt_footer && <p className="pt-3 text-[10px] text-slate-500 uppercase">{form.receipt_footer}</p>}
+          </div>
+
+          <div className="flex justify-end pt-4">
+            <button type="submit" disabled={saving || loading} className="gold-btn py-3 px-8 flex items-center gap-3 disabled:opacity-50">
+              {saving ? <Loader2 size={18} className="animate-spin" /> : <Save size={18} />}
+              <span>Save Branding</span>
+            </button>
+          </div>
+        </form>
+
+        {message && (
+          <div className={cn(
+            "mt-8 p-4 rounded-2xl border flex items-center gap-3 animate-in slide-in-from-top-2 duration-300",
+            message.type === 'success'
+              ? "bg-emerald-500/10 border-emerald-500/20 text-emerald-500"
+              : "bg-rose-500/10 border-rose-500/20 text-rose-500"
+          )}>
+            {message.type === 'success' ? <CheckCircle2 size={18} /> : <AlertCircle size={18} />}
+            <p className="text-[10px] font-black uppercase tracking-widest">{message.text}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
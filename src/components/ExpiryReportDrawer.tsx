@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, CalendarClock, Loader2, FileText } from 'lucide-react';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { BrandingProfile, InventoryItem, StockBatch, StockLocation } from '../types';
+import { listBatches, listLocations, quarantineBatch } from '../lib/data';
+import { daysToExpiry, EXPIRY_STATE_LABELS, ExpiryState, expiryState, formatExpiry, NEAR_EXPIRY_DAYS } from '../lib/batches';
+import { locationName } from '../lib/locations';
+import { drawPdfFooter, drawPdfHeader, pdfTableStyles } from '../lib/pdfTemplate';
+import { cn } from '../lib/utils';
+
+interface ExpiryReportDrawerProps {
+  items: InventoryItem[];
+  branding: BrandingProfile;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+type ExpiryFilter = 'attention' | ExpiryState | 'quarantined';
+
+const FILTERS: { code: ExpiryFilter; label: string }[] = [
+  { code: 'attention', label: 'Needs Attention' },
+  { code: 'expired', label: 'Expired' },
+  { code: 'near_expiry', label: 'Near Expiry' },
+  { code: 'ok', label: 'In Date' },
+  { code: 'quarantined', label: 'Quarantined' }
+];
+
+const STATE_STYLES: Record<ExpiryState, string> = {
+  expired: 'bg-rose-500/10 text-rose-500 border-rose-500/20',
+  near_expiry: 'bg-amber-500/10 text-amber-500 border-amber-500/20',
+  ok: 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20'
+};
+
+const money = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function ExpiryReportDrawer({ items, branding, onClose, onChanged }: ExpiryReportDrawerProps) {
+  const [batches, setBatches] = useState<StockBatch[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [filter, setFilter] = useState<ExpiryFilter>('attention');
+  const [quarantine, setQuarantine] = useState<{ batchId: string; reason: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchBatches();
+  }, []);
+
+  async function fetchBatches() {
+    setLoading(true);
+    const [{ data, error: batchError }, { data: locationData }] = await Promise.all([listBatches(), listLocations()]);
+    setLoading(false);
+    if (batchError) {
+      setError('Batch Error: ' + batchError.message);
+      return;
+    }
+    setBatches(data || []);
+    setLocations(locationData || []);
+  }
+
+  const itemFor = (id: string) => items.find(i => String(i.id) === String(id));
+
+  // Soonest expiry first; a lot with nothing left is history, not stock.
+  const rows = useMemo(() => batches
+    .filter(b => filter === 'quarantined'
+      ? b.status === 'quarantined'
+      : b.status === 'available' && b.quantity_remaining > 0 && (filter === 'attention'
+        ? expiryState(b) !== 'ok'
+        : expiryState(b) === filter))
+    .sort((a, b) => a.expiry_date.localeCompare(b.expiry_date)),
+  [batches, filter]);
+
+  const valueOf = (batch: StockBatch) => batch.status === 'quarantined'
+    ? Number(batch.write_off_amount || 0)
+    : batch.quantity_remaining * Number(itemFor(batch.inventory_item_id)?.cost_price || 0);
+
+  const totalValue = rows.reduce((sum, b) => sum + valueOf(b), 0);
+
+  const handleQuarantine = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quarantine) return;
+    setSubmitting(true);
+    setError(null);
+    const { error: quarantineError } = await quarantineBatch(quarantine.batchId, {
+      reason: quarantine.reason.trim() || undefined
+    });
+    setSubmitting(false);
+    if (quarantineError) {
+      setError('Quarantine Error: ' + quarantineError.message);
+      return;
+    }
+    setQuarantine(null);
+    fetchBatches();
+    onChanged();
+  };
+
+  const handleDownload = () => {
+    const label = FILTERS.find(f => f.code === filter)?.label || '';
+    const doc = new jsPDF();
+    const y = drawPdfHeader(doc, branding, 'Expiry Report', `${label} • ${new Date().toLocaleDateString()}`);
+    autoTable(doc, {
+      ...pdfTableStyles(branding),
+      startY: y,
+      head: [['Item', 'Batch', 'Location', 'Expiry', 'Days', filter === 'quarantined' ? 'Quarantined' : 'Remaining', filter === 'quarantined' ? 'Written Off' : 'Value']],
+      body: rows.map(b => [
+        itemFor(b.inventory_item_id)?.name || 'Unknown item',
+        b.batch_no,
+        locationName(locations, b.location_id),
+        formatExpiry(b.expiry_date),
+        daysToExpiry(b.expiry_date),
+        filter === 'quarantined' ? formatExpiry(String(b.quarantined_at).slice(0, 10)) : b.quantity_remaining,
+        money(valueOf(b))
+      ]),
+      foot: [['Total', '', '', '', '', '', money(totalValue)]]
+    });
+    drawPdfFooter(doc, branding, `Near expiry: within ${NEAR_EXPIRY_DAYS} days`);
+    doc.save(`Expiry_Report_${new Date().toISOString().slice(0, 10)}.pdf`);
+  };
+
+  const inputClass = 'w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none font-bold text-white placeholder:text-slate-700';
+  const labelClass = 'text-[10px] font-black text-slate-500 uppercase tracking-widest';
+
+  return (
+    <div className="fixed inset-0 z-[110] flex justify-end">
+      <div className="absolute inset-0 bg-[#0a0a0a]/80 backdrop-blur-md" onClick={() => !submitting && onClose()} />
+      <div className="relative w-full max-w-lg bg-[#0a0a0a] border-l border-white/10 h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div>
+            <h2 className="text-xl font-black text-[#FFD700] uppercase tracking-tighter flex items-center gap-2">
+              <CalendarClock size={20} />
+              Expiry
+            </h2>
+            <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mt-1">Batches by expiry & quarantine</p>
+          </div>
+          <button onClick={onClose} disabled={submitting} className="p-2 hover:bg-white/5 rounded-full transition-colors text-slate-500 hover:text-[#FFD700]">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          {error && (
+            <div className="p-4 bg-rose-500/10 border border-rose-500/20 rounded-2xl text-rose-500 text-xs font-bold">{error}</div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {FILTERS.map(option => (
+              <button
+                key={option.code}
+                onClick={() => setFilter(option.code)}
+                className={cn(
+                  "px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all border",
+                  filter === option.code ? "bg-[#FFD700] text-[#0a0a0a] border-[#FFD700]" : "border-white/10 text-slate-500 hover:text-white"
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className={labelClass}>
+              {rows.length} batch{rows.length === 1 ? '' : 'es'} • {money(totalValue)} {filter === 'quarantined' ? 'written off' : 'at cost'}
+            </p>
+            <button
+              onClick={handleDownload}
+              disabled={rows.length === 0}
+              className="flex items-center gap-2 px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-slate-300 uppercase tracking-widest hover:text-[#FFD700] disabled:opacity-50"
+            >
+              <FileText size={14} />
+              Download PDF
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-12 text-slate-500"><Loader2 size={20} className="animate-spin" /></div>
+          ) : rows.map(batch => {
+            const state = expiryState(batch);
+            const days = daysToExpiry(batch.expiry_date);
+            return (
+              <div key={batch.id} className="bg-white/5 rounded-2xl p-4 border border-white/5 space-y-2">
+                <div className="flex justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-bold text-white">{itemFor(batch.inventory_item_id)?.name || 'Unknown item'}</p>
+                    <p className="text-[10px] font-mono text-slate-400">Batch {batch.batch_no} • {locationName(locations, batch.location_id)} • Expires {formatExpiry(batch.expiry_date)}</p>
+                  </div>
+                  {batch.status === 'quarantined' ? (
+                    <span className="h-fit px-2 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest bg-slate-500/10 text-slate-400 border-slate-500/20">
+                      Quarantined
+                    </span>
+                  ) : (
+                    <span className={cn("h-fit px-2 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest", STATE_STYLES[state])}>
+                      {EXPIRY_STATE_LABELS[state]}
+                    </span>
+                  )}
+                </div>
+                {batch.status === 'quarantined' ? (
+                  <p className="text-[10px] text-slate-500 font-bold uppercase tracking-tighter">
+                    {new Date(String(batch.quarantined_at)).toLocaleDateString()} by {batch.quarantined_by} • {batch.quarantine_reason} • {money(valueOf(batch))} written off
+                  </p>
+                ) : (
+                  <p className="text-[10px] text-slate-500 font-bold uppercase tracking-tighter">
+                    {batch.quantity_remaining} of {batch.quantity_received} left • {money(valueOf(batch))} at cost • {days < 0 ? `${-days} days past` : `${days} days to go`}
+                  </p>
+                )}
+
+                {quarantine?.batchId === batch.id ? (
+                  <form onSubmit={handleQuarantine} className="space-y-3 pt-2">
+                    <input value={quarantine.reason} onChange={(e) => setQuarantine({ ...quarantine, reason: e.target.value })} placeholder="Reason" className={inputClass} />
+                    <p className="text-[10px] text-amber-500 font-bold">
+                      The {batch.quantity_remaining} left leave stock and their cost is written off as an expense.
+                    </p>
+                    <div className="flex gap-2">
+                      <button type="button" onClick={() => setQuarantine(null)} className="flex-1 py-3 border border-white/10 text-white rounded-xl font-black text-[10px] uppercase tracking-widest">
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={submitting}
+                        className="flex-1 py-3 bg-rose-500 text-white rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+                      >
+                        {submitting ? <Loader2 size={14} className="animate-spin mx-auto" /> : 'Quarantine'}
+                      </button>
+                    </div>
+                  </form>
+                ) : batch.status === 'available' && (
+                  <button
+                    type="button"
+                    onClick={() => setQuarantine({ batchId: batch.id, reason: state === 'expired' ? 'Expired' : '' })}
+                    className="w-full py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-slate-300 uppercase tracking-widest hover:text-rose-400"
+                  >
+                    Quarantine & Write Off
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          {!loading && rows.length === 0 && (
+            <p className="text-xs text-slate-500 font-bold">No batches to show.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
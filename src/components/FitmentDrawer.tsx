@@ -0,0 +1,237 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Car, Plus, Trash2, Save, Loader2, AlertCircle, CheckCircle2, Link2 } from 'lucide-react';
+import { CrossReferenceInput, FitmentCatalogue, FitmentInput, InventoryItem } from '../types';
+import { getFitmentCatalogue, saveItemFitment } from '../lib/data';
+import { interchangeableItemIds, PART_NUMBER_KINDS, validateCrossReference, validateFitment } from '../lib/fitment';
+import { cn } from '../lib/utils';
+
+interface FitmentDrawerProps {
+  item: InventoryItem;
+  items: InventoryItem[];
+  onClose: () => void;
+}
+
+// Form rows keep years as typed; they become numbers on save.
+type FitmentRow = Omit<FitmentInput, 'year_from' | 'year_to'> & { year_from: string; year_to: string };
+
+const EMPTY_FITMENT: FitmentRow = { make: '', model: '', year_from: '', year_to: '', engine: '', notes: '' };
+const EMPTY_REFERENCE: CrossReferenceInput = { part_number: '', kind: 'oem', brand: '' };
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-xl py-2 px-3 text-xs font-bold text-white focus:border-[#FFD700] outline-none';
+
+const toYear = (val: string) => (val.trim() ? Number(val.trim()) : null);
+
+const toFitmentInput = (row: FitmentRow): FitmentInput => ({
+  make: row.make.trim(),
+  model: row.model.trim(),
+  year_from: toYear(row.year_from),
+  year_to: toYear(row.year_to),
+  engine: row.engine?.trim() || null,
+  notes: row.notes?.trim() || null
+});
+
+// Which vehicles one item fits and the OEM and aftermarket numbers it is sold under.
+export default function FitmentDrawer({ item, items, onClose }: FitmentDrawerProps) {
+  const [catalogue, setCatalogue] = useState<FitmentCatalogue>({ fitments: [], cross_references: [] });
+  const [fitments, setFitments] = useState<FitmentRow[]>([]);
+  const [references, setReferences] = useState<CrossReferenceInput[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const load = (data: FitmentCatalogue) => {
+    setCatalogue(data);
+    const own = (id: unknown) => String(id) === String(item.id);
+    setFitments(data.fitments.filter(f => own(f.inventory_item_id)).map(f => ({
+      make: f.make,
+      model: f.model,
+      year_from: f.year_from ? String(f.year_from) : '',
+      year_to: f.year_to ? String(f.year_to) : '',
+      engine: f.engine || '',
+      notes: f.notes || ''
+    })));
+    setReferences(data.cross_references.filter(r => own(r.inventory_item_id)).map(r => ({ part_number: r.part_number, kind: r.kind, brand: r.brand || '' })));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getFitmentCatalogue().then(({ data, error }) => {
+      if (cancelled) return;
+      if (error || !data) {
+        setMessage({ type: 'error', text: 'Fitment Fetch Error: ' + (error?.message || 'Unknown error') });
+      } else {
+        load(data);
+      }
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [item.id]);
+
+  // Equivalents come from the saved numbers, so they refresh after a save.
+  const equivalents = useMemo(() => {
+    const ids = interchangeableItemIds(catalogue.cross_references, [String(item.id)]);
+    ids.delete(String(item.id));
+    return items.filter(other => ids.has(String(other.id)));
+  }, [catalogue, items, item.id]);
+
+  const updateFitment = (index: number, patch: Partial<FitmentRow>) =>
+    setFitments(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  const updateReference = (index: number, patch: Partial<CrossReferenceInput>) =>
+    setReferences(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  const handleSave = async () => {
+    setMessage(null);
+    const fitmentInputs = fitments.map(toFitmentInput);
+    const errors = [
+      ...fitmentInputs.flatMap((f, i) => validateFitment(f).map(e => `Vehicle ${i + 1}: ${e}`)),
+      ...references.flatMap((r, i) => validateCrossReference(r).map(e => `Part number ${i + 1}: ${e}`))
+    ];
+    if (errors.length > 0) {
+      setMessage({ type: 'error', text: errors[0] });
+      return;
+    }
+    setSaving(true);
+    const { data, error } = await saveItemFitment(String(item.id), {
+      fitments: fitmentInputs,
+      crossReferences: references.map(r => ({ part_number: r.part_number.trim(), kind: r.kind, brand: r.brand?.trim() || null }))
+    });
+    setSaving(false);
+    if (error || !data) {
+      setMessage({ type: 'error', text: 'Fitment Error: ' + (error?.message || 'Unknown error') });
+      return;
+    }
+    // Refetch the catalogue so equivalents reflect the new numbers.
+    const refreshed = await getFitmentCatalogue();
+    load(refreshed.data || data);
+    setMessage({ type: 'success', text: 'Fitment saved' });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex justify-end">
+      <div className="absolute inset-0 bg-[#0a0a0a]/80 backdrop-blur-md" onClick={onClose} />
+      <div className="relative w-full max-w-2xl bg-[#0a0a0a] border-l border-white/10 h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div>
+            <h2 className="text-xl font-black text-[#FFD700] uppercase tracking-tighter flex items-center gap-2">
+              <Car size={20} />
+              Vehicle Fitment
+            </h2>
+            <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mt-1">
+              {item.name} {item.code ? `• ${item.code}` : ''}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors text-slate-500 hover:text-[#FFD700]">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-8">
+          {loading ? (
+            <div className="flex justify-center py-16"><Loader2 size={24} className="animate-spin text-slate-500" /></div>
+          ) : (
+            <>
+              <section className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Fits Vehicles</p>
+                  <button
+                    onClick={() => setFitments(prev => [...prev, { ...EMPTY_FITMENT }])}
+                    className="flex items-center gap-1 text-[10px] font-black text-[#FFD700] uppercase tracking-widest"
+                  >
+                    <Plus size={14} /> Add Vehicle
+                  </button>
+                </div>
+                {fitments.length === 0 && (
+                  <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest">No vehicles recorded</p>
+                )}
+                {fitments.map((row, index) => (
+                  <div key={index} className="bg-white/5 border border-white/5 rounded-2xl p-3 grid grid-cols-6 gap-2">
+                    <input placeholder="Make" value={row.make} onChange={(e) => updateFitment(index, { make: e.target.value })} className={cn(inputClass, 'col-span-2')} />
+                    <input placeholder="Model" value={row.model} onChange={(e) => updateFitment(index, { model: e.target.value })} className={cn(inputClass, 'col-span-2')} />
+                    <input placeholder="From" inputMode="numeric" value={row.year_from} onChange={(e) => updateFitment(index, { year_from: e.target.value })} className={inputClass} />
+                    <input placeholder="To" inputMode="numeric" value={row.year_to} onChange={(e) => updateFitment(index, { year_to: e.target.value })} className={inputClass} />
+                    <input placeholder="Engine" value={row.engine || ''} onChange={(e) => updateFitment(index, { engine: e.target.value })} className={cn(inputClass, 'col-span-2')} />
+                    <input placeholder="Notes" value={row.notes || ''} onChange={(e) => updateFitment(index, { notes: e.target.value })} className={cn(inputClass, 'col-span-3')} />
+                    <button onClick={() => setFitments(prev => prev.filter((_, i) => i !== index))} className="flex items-center justify-center text-slate-500 hover:text-rose-500">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </section>
+
+              <section className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Part Numbers</p>
+                  <button
+                    onClick={() => setReferences(prev => [...prev, { ...EMPTY_REFERENCE }])}
+                    className="flex items-center gap-1 text-[10px] font-black text-[#FFD700] uppercase tracking-widest"
+                  >
+                    <Plus size={14} /> Add Number
+                  </button>
+                </div>
+                {references.length === 0 && (
+                  <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest">No OEM or aftermarket numbers recorded</p>
+                )}
+                {references.map((row, index) => (
+                  <div key={index} className="bg-white/5 border border-white/5 rounded-2xl p-3 grid grid-cols-6 gap-2">
+                    <input placeholder="Part Number" value={row.part_number} onChange={(e) => updateReference(index, { part_number: e.target.value })} className={cn(inputClass, 'col-span-2 font-mono')} />
+                    <select value={row.kind} onChange={(e) => updateReference(index, { kind: e.target.value as CrossReferenceInput['kind'] })} className={cn(inputClass, 'col-span-1')}>
+                      {PART_NUMBER_KINDS.map(kind => <option key={kind.code} value={kind.code} className="bg-[#0a0a0a]">{kind.label}</option>)}
+                    </select>
+                    <input placeholder="Brand" value={row.brand || ''} onChange={(e) => updateReference(index, { brand: e.target.value })} className={cn(inputClass, 'col-span-2')} />
+                    <button onClick={() => setReferences(prev => prev.filter((_, i) => i !== index))} className="flex items-center justify-center text-slate-500 hover:text-rose-500">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </section>
+
+              <section className="space-y-3">
+                <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                  <Link2 size={14} /> Interchangeable With
+                </p>
+                {equivalents.length === 0 ? (
+                  <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest">No other item shares a part number</p>
+                ) : equivalents.map(other => (
+                  <div key={other.id} className="flex items-center justify-between bg-white/5 border border-white/5 rounded-2xl px-4 py-3">
+                    <div>
+                      <p className="text-xs font-black text-white uppercase tracking-tighter">{other.name}</p>
+                      <p className="text-[10px] text-slate-500 font-mono">{other.code || 'N/A'}</p>
+                    </div>
+                    <span className={cn('text-[10px] font-black uppercase tracking-widest', other.quantity > 0 ? 'text-emerald-500' : 'text-rose-500')}>
+                      {other.quantity} in stock
+                    </span>
+                  </div>
+                ))}
+              </section>
+            </>
+          )}
+        </div>
+
+        {message && (
+          <div className={cn(
+            "mx-6 mb-4 p-4 rounded-2xl border flex items-center gap-3",
+            message.type === 'success'
+              ? "bg-emerald-500/10 border-emerald-500/20 text-emerald-500"
+              : "bg-rose-500/10 border-rose-500/20 text-rose-500"
+          )}>
+            {message.type === 'success' ? <CheckCircle2 size={18} /> : <AlertCircle size={18} />}
+            <p className="text-[10px] font-black uppercase tracking-widest">{message.text}</p>
+          </div>
+        )}
+
+        <div className="p-6 border-t border-white/10 bg-white/5">
+          <button
+            onClick={handleSave}
+            disabled={saving || loading}
+            className="w-full flex items-center justify-center gap-2 px-4 py-4 bg-[#FFD700] text-[#0a0a0a] rounded-2xl text-xs font-black hover:bg-[#FFD700]/90 transition-all uppercase tracking-tighter disabled:opacity-40"
+          >
+            {saving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+            Save Fitment
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { X, MapPin, Loader2, Plus, Monitor } from 'lucide-react';
+import { StockLocation, StockLocationKind, TerminalLocation } from '../types';
+import { createLocation, listTerminalLocations, setTerminalLocation, updateLocation } from '../lib/data';
+import { locationName, STOCK_LOCATION_KINDS } from '../lib/locations';
+import { DEFAULT_TERMINAL_ID } from '../lib/sales';
+import { cn } from '../lib/utils';
+
+interface LocationsDrawerProps {
+  locations: StockLocation[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export default function LocationsDrawer({ locations, onClose, onChanged }: LocationsDrawerProps) {
+  const [bindings, setBindings] = useState<TerminalLocation[]>([]);
+  const [draft, setDraft] = useState<{ code: string; name: string; kind: StockLocationKind }>({ code: '', name: '', kind: 'shop' });
+  const [binding, setBinding] = useState({ terminalId: DEFAULT_TERMINAL_ID, locationId: '' });
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchBindings();
+  }, []);
+
+  async function fetchBindings() {
+    setLoading(true);
+    const { data, error: bindingError } = await listTerminalLocations();
+    setLoading(false);
+    if (bindingError) {
+      setError('Terminal Error: ' + bindingError.message);
+      return;
+    }
+    setBindings(data || []);
+  }
+
+  const activeLocations = locations.filter(l => l.active);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    const { error: createError } = await createLocation({ code: draft.code.trim(), name: draft.name.trim(), kind: draft.kind });
+    setSubmitting(false);
+    if (createError) {
+      setError('Location Error: ' + createError.message);
+      return;
+    }
+    setDraft({ code: '', name: '', kind: 'shop' });
+    onChanged();
+  };
+
+  const handleToggle = async (location: StockLocation) => {
+    setSubmitting(true);
+    setError(null);
+    const { error: updateError } = await updateLocation(location.id, { active: !location.active });
+    setSubmitting(false);
+    if (updateError) {
+      setError('Location Error: ' + updateError.message);
+      return;
+    }
+    onChanged();
+  };
+
+  const handleBind = async (terminalId: string, locationId: string) => {
+    setSubmitting(true);
+    setError(null);
+    const { error: bindError } = await setTerminalLocation(terminalId.trim().toUpperCase(), locationId);
+    setSubmitting(false);
+    if (bindError) {
+      setError('Terminal Error: ' + bindError.message);
+      return;
+    }
+    setBinding({ terminalId: '', locationId: '' });
+    fetchBindings();
+  };
+
+  const inputClass = 'w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none font-bold text-white placeholder:text-slate-700';
+  const labelClass = 'text-[10px] font-black text-slate-500 uppercase tracking-widest';
+
+  return (
+    <div className="fixed inset-0 z-[110] flex justify-end">
+      <div className="absolute inset-0 bg-[#0a0a0a]/80 backdrop-blur-md" onClick={() => !submitting && onClose()} />
+      <div className="relative w-full max-w-lg bg-[#0a0a0a] border-l border-white/10 h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div>
+            <h2 className="text-xl font-black text-[#FFD700] uppercase tracking-tighter flex items-center gap-2">
+              <MapPin size={20} />
+              Locations
+            </h2>
+            <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mt-1">Shops, warehouses & terminal binding</p>
+          </div>
+          <button onClick={onClose} disabled={submitting} className="p-2 hover:bg-white/5 rounded-full transition-colors text-slate-500 hover:text-[#FFD700]">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          {error && (
+            <div className="p-4 bg-rose-500/10 border border-rose-500/20 rounded-2xl text-rose-500 text-xs font-bold">{error}</div>
+          )}
+
+          <div className="space-y-3">
+            {locations.map(location => (
+              <div key={location.id} className={cn("bg-white/5 rounded-2xl p-4 border border-white/5 flex items-center justify-between gap-4", !location.active && "opacity-50")}>
+                <div>
+                  <p className="text-sm font-bold text-white">{location.name}</p>
+                  <p className="text-[10px] font-mono text-slate-400">
+                    {location.code} • {STOCK_LOCATION_KINDS.find(k => k.code === location.kind)?.label}{location.is_default ? ' • Default' : ''}
+                  </p>
+                </div>
+                {!location.is_default && (
+                  <button
+                    type="button"
+                    onClick={() => handleToggle(location)}
+                    disabled={submitting}
+                    className="px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-slate-300 uppercase tracking-widest hover:text-[#FFD700] disabled:opacity-50"
+                  >
+                    {location.active ? 'Deactivate' : 'Activate'}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleCreate} className="space-y-3">
+            <p className={labelClass}>New Location</p>
+            <div className="grid grid-cols-3 gap-3">
+              <input required value={draft.code} onChange={(e) => setDraft({ ...draft, code: e.target.value.toUpperCase() })} placeholder="Code" className={inputClass} />
+              <input required value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Name" className={cn(inputClass, "col-span-2")} />
+            </div>
+            <div className="flex gap-3">
+              <select value={draft.kind} onChange={(e) => setDraft({ ...draft, kind: e.target.value as StockLocationKind })} className={inputClass}>
+                {STOCK_LOCATION_KINDS.map(kind => <option key={kind.code} value={kind.code} className="bg-[#0a0a0a]">{kind.label}</option>)}
+              </select>
+              <button
+                type="submit"
+                disabled={submitting || !draft.code.trim() || !draft.name.trim()}
+                className="flex items-center gap-2 px-6 bg-[#FFD700] text-[#0a0a0a] rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+              >
+                <Plus size={14} />
+                Add
+              </button>
+            </div>
+          </form>
+
+          <div className="space-y-3">
+            <p className={cn(labelClass, "flex items-center gap-2")}><Monitor size={12} /> Terminals</p>
+            <p className="text-[10px] text-slate-500 font-bold">Sales and returns at a terminal take and restock from its location. Unbound terminals use the default location.</p>
+            {loading ? (
+              <div className="flex justify-center py-6 text-slate-500"><Loader2 size={20} className="animate-spin" /></div>
+            ) : bindings.map(bound => (
+              <div key={bound.terminal_id} className="flex items-center gap-3">
+                <span className="w-28 text-xs font-mono font-bold text-white">{bound.terminal_id}</span>
+                <select
+                  value={bound.location_id}
+                  onChange={(e) => handleBind(bound.terminal_id, e.target.value)}
+                  disabled={submitting}
+                  className={inputClass}
+                >
+                  {!activeLocations.some(l => String(l.id) === String(bound.location_id)) && (
+                    <option value={bound.location_id} className="bg-[#0a0a0a]">{locationName(locations, bound.location_id)}</option>
+                  )}
+                  {activeLocations.map(l => <option key={l.id} value={l.id} className="bg-[#0a0a0a]">{l.name}</option>)}
+                </select>
+              </div>
+            ))}
+            <form
+              onSubmit={(e) => { e.preventDefault(); handleBind(binding.terminalId, binding.locationId); }}
+              className="flex gap-3"
+            >
+              <input
+                required
+                value={binding.terminalId}
+                onChange={(e) => setBinding({ ...binding, terminalId: e.target.value.toUpperCase() })}
+                placeholder="Terminal ID"
+                className={cn(inputClass, "w-28 font-mono")}
+              />
+              <select required value={binding.locationId} onChange={(e) => setBinding({ ...binding, locationId: e.target.value })} className={inputClass}>
+                <option value="" className="bg-[#0a0a0a]">Location...</option>
+                {activeLocations.map(l => <option key={l.id} value={l.id} className="bg-[#0a0a0a]">{l.name}</option>)}
+              </select>
+              <button
+                type="submit"
+                disabled={submitting || !binding.terminalId.trim() || !binding.locationId}
+                className="px-4 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-slate-300 uppercase tracking-widest hover:text-[#FFD700] disabled:opacity-50"
+              >
+                Bind
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, History, AlertTriangle, ArrowDownRight, ArrowUpRight } from 'lucide-react';
+import { InventoryItem, InventoryMovement } from '../types';
+import { listInventoryMovements } from '../lib/data';
+import { findJournalGaps, journalQuantity, movementLabel } from '../lib/movements';
+import { cn } from '../lib/utils';
+
+interface MovementHistoryDrawerProps {
+  item: InventoryItem;
+  onClose: () => void;
+}
+
+const safeNum = (val: any) => {
+  const n = parseFloat(String(val || 0));
+  return isNaN(n) ? 0 : n;
+};
+
+// Per-item stock journal: every movement with before/after quantities, plus a reconciliation
+// of the stored on-hand quantity against the quantity rebuilt from the journal.
+export default function MovementHistoryDrawer({ item, onClose }: MovementHistoryDrawerProps) {
+  const [movements, setMovements] = useState<InventoryMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    listInventoryMovements(item.id).then(({ data, error: fetchError }) => {
+      if (cancelled) return;
+      if (fetchError) {
+        setError('Movement Fetch Error: ' + fetchError.message);
+      } else {
+        setMovements(data || []);
+      }
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [item.id]);
+
+  const derived = useMemo(() => journalQuantity(movements), [movements]);
+  const gaps = useMemo(() => findJournalGaps(movements), [movements]);
+  const variance = safeNum(item.quantity) - derived;
+
+  return (
+    <div className="fixed inset-0 z-[110] flex justify-end">
+      <div className="absolute inset-0 bg-[#0a0a0a]/80 backdrop-blur-md" onClick={onClose} />
+      <div className="relative w-full max-w-xl bg-[#0a0a0a] border-l border-white/10 h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div>
+            <h2 className="text-xl font-black text-[#FFD700] uppercase tracking-tighter flex items-center gap-2">
+              <History size={20} />
+              Movement History
+            </h2>
+            <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mt-1">
+              {item.name} {item.code ? `• ${item.code}` : ''}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors text-slate-500 hover:text-[#FFD700]">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 p-6 border-b border-white/5">
+          <div className="bg-white/5 rounded-2xl p-4 border border-white/5">
+            <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest">On Hand</p>
+            <p className="text-xl font-black text-white mt-1">{safeNum(item.quantity)}</p>
+          </div>
+          <div className="bg-white/5 rounded-2xl p-4 border border-white/5">
+            <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Journal Balance</p>
+            <p className="text-xl font-black text-white mt-1">{loading ? '—' : derived}</p>
+          </div>
+          <div className={cn(
+            "rounded-2xl p-4 border",
+            !loading && variance !== 0 ? "bg-rose-500/10 border-rose-500/20" : "bg-white/5 border-white/5"
+          )}>
+            <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Unexplained</p>
+            <p className={cn("text-xl font-black mt-1", !loading && variance !== 0 ? "text-rose-500" : "text-emerald-500")}>
+              {loading ? '—' : variance > 0 ? `+${variance}` : variance}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {error && (
+            <div className="bg-rose-500/10 border border-rose-500/20 rounded-2xl p-4 text-xs text-rose-400 font-mono">{error}</div>
+          )}
+
+          {!loading && gaps.length > 0 && (
+            <div className="bg-rose-500/10 border border-rose-500/20 rounded-2xl p-4 space-y-1">
+              <p className="text-[10px] font-black text-rose-500 uppercase tracking-widest flex items-center gap-2">
+                <AlertTriangle size={14} /> Untracked Stock Changes
+              </p>
+              {gaps.map((gap, index) => (
+                <p key={index} className="text-[11px] text-rose-400">
+                  {gap.after ? `After ${new Date(gap.after.created_at).toLocaleString()}` : 'Before the first entry'}:
+                  {' '}expected {gap.expected}, next entry started at {gap.found} ({gap.found - gap.expected > 0 ? '+' : ''}{gap.found - gap.expected}).
+                </p>
+              ))}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-center text-slate-600 text-[10px] font-black uppercase tracking-widest py-12 animate-pulse">Loading journal...</p>
+          ) : movements.length === 0 ? (
+            <p className="text-center text-slate-600 text-[10px] font-black uppercase tracking-widest py-12">No stock movements recorded.</p>
+          ) : (
+            [...movements].reverse().map(movement => {
+              const delta = safeNum(movement.quantity_delta);
+              return (
+                <div key={movement.id} className="bg-white/5 border border-white/5 rounded-2xl p-4 flex items-start gap-4">
+                  <div className={cn(
+                    "w-9 h-9 rounded-xl flex items-center justify-center shrink-0",
+                    delta < 0 ? "bg-rose-500/10 text-rose-500" : "bg-emerald-500/10 text-emerald-500"
+                  )}>
+                    {delta < 0 ? <ArrowDownRight size={16} /> : <ArrowUpRight size={16} />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs font-black text-white uppercase tracking-tighter">{movementLabel(movement.movement_type)}</span>
+                      <span className={cn("text-sm font-black", delta < 0 ? "text-rose-500" : "text-emerald-500")}>
+                        {delta > 0 ? `+${delta}` : delta}
+                      </span>
+                    </div>
+                    <p className="text-[10px] text-slate-500 font-mono mt-1">
+                      {safeNum(movement.quantity_before)} → {safeNum(movement.quantity_after)}
+                      {movement.unit_cost != null && ` @ $${safeNum(movement.unit_cost).toLocaleString(undefined, { minimumFractionDigits: 2 })}`}
+                      {' '}• {new Date(movement.created_at).toLocaleString()}
+                    </p>
+                    {movement.reason && <p className="text-[11px] text-slate-400 mt-1">{movement.reason}</p>}
+                    <p className="text-[9px] text-slate-600 uppercase font-bold tracking-widest mt-1">
+                      By {movement.performed_by || 'Unknown'}
+                      {movement.source_type && ` • ${movement.source_type} ${String(movement.source_id || '').slice(0, 8).toUpperCase()}`}
+                    </p>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
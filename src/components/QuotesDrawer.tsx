@@ -0,0 +1,284 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { X, FileText, Loader2, Download, Search, PlayCircle, Ban } from 'lucide-react';
+import { BrandingProfile, Customer, Quote, QuoteStatus } from '../types';
+import { closeQuote, listQuotes } from '../lib/data';
+import { isQuoteExpired, quoteKindLabel, quoteMatches, QUOTE_STATUS_LABELS } from '../lib/quotes';
+import { cn } from '../lib/utils';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { drawPdfFooter, drawPdfHeader, pdfTableStyles, setPdfTone } from '../lib/pdfTemplate';
+
+interface QuotesDrawerProps {
+  customers: Customer[];
+  branding: BrandingProfile;
+  isOnline: boolean;
+  initialSearch?: string;
+  onConvert: (quote: Quote) => void;
+  onClose: () => void;
+}
+
+const safeNum = (val: any) => {
+  const n = parseFloat(String(val || 0));
+  return isNaN(n) ? 0 : n;
+};
+
+const money = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) => new Date(date.length === 10 ? `${date}T00:00:00` : date).toLocaleDateString();
+
+// Customer-facing A4 document, always printed on the light scheme whatever the reports use.
+export function downloadQuotePdf(quote: Quote, customer: Customer | null, profile: BrandingProfile) {
+  const branding: BrandingProfile = { ...profile, pdf_scheme: 'light' };
+  const doc = new jsPDF({ format: 'a4' });
+  const top = drawPdfHeader(doc, branding, quoteKindLabel(quote.kind));
+
+  doc.setFont('helvetica', 'bold');
+  doc.text('Prepared For', 15, top);
+  doc.setFont('helvetica', 'normal');
+  const customerLines = [
+    quote.customer_name,
+    customer?.address,
+    customer?.phone,
+    customer?.email,
+    customer?.tax_id ? `TIN: ${customer.tax_id}` : null
+  ].filter(Boolean) as string[];
+  customerLines.forEach((line, index) => doc.text(line, 15, top + 7 + index * 6));
+
+  const details: [string, string][] = [
+    ['Number', quote.quote_no],
+    ['Date', formatDate(quote.created_at)],
+    ['Valid Until', formatDate(quote.valid_until)],
+    ['Prepared By', quote.created_by]
+  ];
+  details.forEach(([label, value], index) => {
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, 130, top + index * 6);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, 195, top + index * 6, { align: 'right' });
+  });
+
+  autoTable(doc, {
+    ...pdfTableStyles(branding),
+    startY: top + Math.max(7 + customerLines.length * 6, 28) + 4,
+    head: [['#', 'Item', 'Qty', 'Unit Price', 'Amount']],
+    body: quote.lines.map((line, index) => [
+      index + 1,
+      line.description,
+      safeNum(line.quantity),
+      money(safeNum(line.unit_price)),
+      money(safeNum(line.line_total))
+    ]),
+    columnStyles: { 0: { cellWidth: 10 }, 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } }
+  });
+
+  const totals: [string, string][] = [['Subtotal', money(safeNum(quote.subtotal))]];
+  if (safeNum(quote.tax_amount) > 0) totals.push([`Tax (${safeNum(quote.tax_rate)}%)`, money(safeNum(quote.tax_amount))]);
+  if (safeNum(quote.discount) > 0) totals.push(['Discount', `-${money(safeNum(quote.discount))}`]);
+  totals.push(['Total', money(safeNum(quote.total))]);
+
+  let y = (doc as any).lastAutoTable.finalY + 10;
+  setPdfTone(doc, branding, 'text');
+  totals.forEach(([label, value], index) => {
+    const isTotal = index === totals.length - 1;
+    doc.setFont('helvetica', isTotal ? 'bold' : 'normal');
+    doc.setFontSize(isTotal ? 12 : 10);
+    doc.text(label, 140, y);
+    doc.text(value, 195, y, { align: 'right' });
+    y += isTotal ? 8 : 6;
+  });
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  if (quote.notes) {
+    doc.text(doc.splitTextToSize(`Notes: ${quote.notes}`, 180), 15, y + 4);
+    y += 12;
+  }
+  setPdfTone(doc, branding, 'muted');
+  doc.text(`Prices are valid until ${formatDate(quote.valid_until)} and subject to stock availability; goods are not reserved.`, 15, y + 6);
+  if (quote.kind === 'proforma') {
+    doc.text('This pro-forma invoice is not a tax invoice. A tax invoice is issued when the goods are paid for.', 15, y + 12);
+  }
+
+  drawPdfFooter(doc, branding, branding.receipt_footer || undefined);
+
+  doc.save(`${quote.quote_no}.pdf`);
+}
+
+export default function QuotesDrawer({ customers, branding, isOnline, initialSearch, onConvert, onClose }: QuotesDrawerProps) {
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState(initialSearch || '');
+  const [statusFilter, setStatusFilter] = useState<QuoteStatus | 'all'>('open');
+
+  const fetchQuotes = useCallback(async () => {
+    if (!isOnline) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    const { data, error: fetchError } = await listQuotes();
+    if (fetchError) setError('Quote Error: ' + fetchError.message);
+    setQuotes(data || []);
+    setLoading(false);
+  }, [isOnline]);
+
+  useEffect(() => {
+    fetchQuotes();
+  }, [fetchQuotes]);
+
+  const filtered = useMemo(
+    () => quotes.filter(q => (statusFilter === 'all' || q.status === statusFilter) && quoteMatches(q, search)),
+    [quotes, statusFilter, search]
+  );
+
+  const customerFor = (quote: Quote) => customers.find(c => c.id === quote.customer_id) || null;
+
+  const handleCancel = async (quote: Quote) => {
+    if (!confirm(`Cancel ${quote.quote_no} for ${quote.customer_name}?`)) return;
+    setBusyId(quote.id);
+    setError(null);
+    const { error: cancelError } = await closeQuote(quote.id, 'cancelled');
+    setBusyId(null);
+    if (cancelError) {
+      setError('Quote Error: ' + cancelError.message);
+      return;
+    }
+    fetchQuotes();
+  };
+
+  const handlePdf = (quote: Quote) => {
+    try {
+      downloadQuotePdf(quote, customerFor(quote), branding);
+    } catch (err) {
+      console.error('PDF Error:', err);
+      setError('Failed to generate quote PDF.');
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none font-bold text-white placeholder:text-slate-700';
+
+  return (
+    <div className="fixed inset-0 z-[110] flex justify-end">
+      <div className="absolute inset-0 bg-[#0a0a0a]/80 backdrop-blur-md" onClick={onClose} />
+      <div className="relative w-full max-w-lg bg-[#0a0a0a] border-l border-white/10 h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div>
+            <h2 className="text-xl font-black text-[#FFD700] uppercase tracking-tighter flex items-center gap-2">
+              <FileText size={20} />
+              Quotes
+            </h2>
+            <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mt-1">
+              Quotations & Pro-Forma Invoices
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors text-slate-500 hover:text-[#FFD700]">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          {error && (
+            <div className="p-4 bg-rose-500/10 border border-rose-500/20 rounded-2xl text-rose-500 text-xs font-bold">{error}</div>
+          )}
+          {!isOnline && (
+            <div className="p-4 bg-amber-500/10 border border-amber-500/20 rounded-2xl text-amber-500 text-xs font-bold">
+              Quotes are kept on the server. Reconnect to look them up.
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <div className="relative">
+              <Search size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-600" />
+              <input
+                autoFocus
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Quote no, customer or item..."
+                className={cn(inputClass, 'pl-11')}
+              />
+            </div>
+            <div className="flex gap-2">
+              {(['open', 'converted', 'cancelled', 'all'] as const).map(status => (
+                <button
+                  key={status}
+                  type="button"
+                  onClick={() => setStatusFilter(status)}
+                  className={cn(
+                    "px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border",
+                    statusFilter === status ? "bg-[#FFD700] text-[#0a0a0a] border-[#FFD700]" : "bg-white/5 text-slate-500 border-white/10"
+                  )}
+                >
+                  {status === 'all' ? 'All' : QUOTE_STATUS_LABELS[status]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 size={24} className="animate-spin text-[#FFD700]" />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {filtered.length === 0 && (
+                <p className="text-[10px] font-black text-slate-600 uppercase tracking-widest text-center py-6">No quotes found</p>
+              )}
+              {filtered.map(quote => {
+                const expired = isQuoteExpired(quote);
+                return (
+                  <div key={quote.id} className="p-4 bg-white/5 border border-white/5 rounded-2xl space-y-3">
+                    <div className="flex justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="text-xs font-black text-white truncate">{quote.quote_no} • {quote.customer_name}</p>
+                        <p className="text-[10px] text-slate-500 font-mono">
+                          {quoteKindLabel(quote.kind)} • {quote.lines.length} SKU • {formatDate(quote.created_at)} • {quote.created_by}
+                        </p>
+                        <p className={cn("text-[10px] font-black uppercase tracking-tighter", expired ? "text-amber-500" : "text-slate-500")}>
+                          {quote.status === 'open'
+                            ? `${expired ? 'Expired' : 'Valid until'} ${formatDate(quote.valid_until)}`
+                            : `${QUOTE_STATUS_LABELS[quote.status]}${quote.closed_by ? ` by ${quote.closed_by}` : ''}`}
+                        </p>
+                      </div>
+                      <span className="text-sm font-black text-[#FFD700] shrink-0">{money(safeNum(quote.total))}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handlePdf(quote)}
+                        className="px-3 py-2 bg-white/5 border border-white/10 text-slate-300 rounded-xl text-[9px] font-black uppercase tracking-widest flex items-center gap-1"
+                      >
+                        <Download size={12} /> PDF
+                      </button>
+                      {quote.status === 'open' && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => onConvert(quote)}
+                            className="px-3 py-2 bg-[#FFD700]/10 border border-[#FFD700]/20 text-[#FFD700] rounded-xl text-[9px] font-black uppercase tracking-widest flex items-center gap-1"
+                          >
+                            <PlayCircle size={12} /> To Cart
+                          </button>
+                          <button
+                            type="button"
+                            disabled={busyId === quote.id}
+                            onClick={() => handleCancel(quote)}
+                            className="ml-auto p-2 text-slate-600 hover:text-rose-500 disabled:opacity-30"
+                            title="Cancel quote"
+                          >
+                            {busyId === quote.id ? <Loader2 size={14} className="animate-spin" /> : <Ban size={14} />}
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
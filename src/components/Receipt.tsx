@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { BrandingProfile, ReceiptLine, Sale } from '../types';
+import { brandingContactLines } from '../lib/branding';
+import { tenderKey, tenderLabel } from '../lib/sales';
+
+interface ReceiptProps {
+  sale: Sale;
+  lines: ReceiptLine[];
+  branding: BrandingProfile;
+  verifyUrl?: string | null; // Public verification link, once the sale is on the server
+}
+
+// Logo, business name in the accent colour and contact lines, shared with the return slip
+export function ReceiptBrandHeader({ branding, caption }: { branding: BrandingProfile; caption: string }) {
+  return (
+    <>
+      {branding.logo && <img src={branding.logo} alt="" className="mx-auto mb-2 max-h-16 max-w-[160px] object-contain" />}
+      <p className="font-black text-sm uppercase" style={{ color: branding.accent_color }}>{branding.business_name}</p>
+      {brandingContactLines(branding).map(line => (
+        <p key={line} className="text-[9px] text-slate-500">{line}</p>
+      ))}
+      <p className="text-[10px] text-slate-500 uppercase">{caption}</p>
+    </>
+  );
+}
+
+// The verification link as a scannable QR image; null until it has been drawn
+function useQrCode(value?: string | null) {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+  useEffect(() => {
+    setDataUrl(null);
+    if (!value) return;
+    let cancelled = false;
+    QRCode.toDataURL(value, { errorCorrectionLevel: 'M', margin: 1, width: 160 })
+      .then(url => { if (!cancelled) setDataUrl(url); })
+      .catch(err => console.error('QR code error:', err));
+    return () => { cancelled = true; };
+  }, [value]);
+  return dataUrl;
+}
+
+// Thermal-print style receipt body, rendered from the persisted sale header
+export default function Receipt({ sale, lines, branding, verifyUrl }: ReceiptProps) {
+  const verifyQr = useQrCode(verifyUrl);
+  return (
+    <div className="p-8 space-y-6 font-mono text-xs text-slate-300 bg-[#070707] border-b border-white/5">
+      <div className="text-center space-y-1">
+        <ReceiptBrandHeader branding={branding} caption="OFFLINE RESILIENT TERMINAL" />
+        <div className="h-px border-b border-dashed border-white/25 my-3" />
+        <div className="flex justify-between text-[10px] text-slate-500">
+          <span>RECEIPT: {sale.receipt_no}</span>
+          <span>TERMINAL: {sale.terminal_id}</span>
+        </div>
+        <div className="flex justify-between text-[10px] text-slate-500">
+          <span>DATE: {new Date(sale.created_at).toLocaleDateString()}</span>
+          <span>TIME: {new Date(sale.created_at).toLocaleTimeString()}</span>
+        </div>
+        <div className="flex justify-between text-[10px] text-slate-500">
+          <span>CASHIER: {sale.cashier_name || '-'}</span>
+          <span>CLIENT: {sale.customer_name || '-'}</span>
+        </div>
+      </div>
+
+      <div className="space-y-2 border-t border-b border-dashed border-white/25 py-3">
+        <div className="flex justify-between text-[10px] font-bold text-slate-400">
+          <span>Item SKU</span>
+          <span>Qty</span>
+          <span>Price</span>
+          <span className="text-right">Total</span>
+        </div>
+        {lines.map(line => (
+          <div key={line.key}>
+            <div className="flex justify-between text-[10px] text-white">
+              <span className="truncate max-w-[150px]">{line.name}</span>
+              <span>{line.quantity}</span>
+              <span>${line.unitPrice.toLocaleString()}</span>
+              <span className="text-right">${line.total.toLocaleString()}</span>
+            </div>
+            {line.notes?.map(note => (
+              <p key={note} className="text-[9px] text-slate-500 pl-2">{note}</p>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1.5 pt-1 text-[10px]">
+        <div className="flex justify-between">
+          <span>SUBTOTAL:</span>
+          <span className="text-white">${Number(sale.subtotal).toLocaleString()}</span>
+        </div>
+        {sale.discount > 0 && (
+          <div className="flex justify-between text-rose-400">
+            <span>DISCOUNT:</span>
+            <span>-${Number(sale.discount).toLocaleString()}</span>
+          </div>
+        )}
+        {sale.tax_amount > 0 && (
+          <div className="flex justify-between">
+            <span>TAX ({sale.tax_rate}%):</span>
+            <span className="text-white">${Number(sale.tax_amount).toLocaleString()}</span>
+          </div>
+        )}
+        <div className="flex justify-between text-sm font-black pt-2 border-t border-dashed border-white/25" style={{ color: branding.accent_color }}>
+          <span>GRAND TOTAL:</span>
+          <span>${Number(sale.total).toLocaleString()}</span>
+        </div>
+        <div className="flex justify-between text-[10px] text-slate-400">
+          <span>AMOUNT PAID:</span>
+          <span>${Number(sale.amount_paid).toLocaleString()}</span>
+        </div>
+        {sale.change_amount > 0 && (
+          <div className="flex justify-between text-[10px] text-emerald-400">
+            <span>CHANGE:</span>
+            <span>${Number(sale.change_amount).toLocaleString()}</span>
+          </div>
+        )}
+        {(sale.payments || []).length > 1 ? (
+          sale.payments.map((payment, index) => (
+            <div key={index} className="flex justify-between text-[9px] text-slate-500">
+              <span>{tenderLabel(tenderKey(payment)).toUpperCase()}{payment.reference ? ` (${payment.reference})` : ''}:</span>
+              <span>${Number(payment.amount).toLocaleString()}</span>
+            </div>
+          ))
+        ) : (
+          <>
+            <div className="flex justify-between text-[9px] text-slate-500 pt-1">
+              <span>METHOD:</span>
+              <span>{tenderLabel(sale.payments?.[0] ? tenderKey(sale.payments[0]) : sale.payment_method).toUpperCase()}</span>
+            </div>
+            {sale.payments?.[0]?.reference && (
+              <div className="flex justify-between text-[9px] text-slate-500">
+                <span>REF:</span>
+                <span>{sale.payments[0].reference}</span>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="text-center pt-4 text-[10px] text-slate-500">
+        {branding.receipt_footer && <p className="uppercase">{branding.receipt_footer}</p>}
+        {verifyUrl && (
+          <div className="mt-3 space-y-1">
+            {verifyQr && <img src={verifyQr} alt="Scan to verify this receipt" className="mx-auto w-24 h-24 bg-white p-1" />}
+            <p className="text-[8px] font-mono text-slate-500 break-all">
+              SCAN TO VERIFY: <a href={verifyUrl} target="_blank" rel="noreferrer" className="underline">{verifyUrl}</a>
+            </p>
+          </div>
+        )}
+        <p className="text-[8px] font-mono text-slate-600 mt-2 break-all">ID: {sale.id}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import React from 'react';
+import { BrandingProfile, SaleReturn } from '../types';
+import { tenderKey, tenderLabel } from '../lib/sales';
+import { reasonLabel } from '../lib/adjustments';
+import { ReceiptBrandHeader } from './Receipt';
+
+interface ReturnReceiptProps {
+  saleReturn: SaleReturn;
+  names: Record<string, string>; // Ledger entry id -> item name
+  branding: BrandingProfile;
+}
+
+// Thermal-print style slip for a customer return, in the same layout as the sale receipt
+export default function ReturnReceipt({ saleReturn, names, branding }: ReturnReceiptProps) {
+  return (
+    <div className="p-8 space-y-6 font-mono text-xs text-slate-300 bg-[#070707] border-b border-white/5">
+      <div className="text-center space-y-1">
+        <ReceiptBrandHeader branding={branding} caption="CUSTOMER RETURN" />
+        <div className="h-px border-b border-dashed border-white/25 my-3" />
+        <div className="flex justify-between text-[10px] text-slate-500">
+          <span>RETURN: {saleReturn.return_no}</span>
+          <span>TERMINAL: {saleReturn.terminal_id}</span>
+        </div>
+        <div className="flex justify-between text-[10px] text-slate-500">
+          <span>DATE: {new Date(saleReturn.created_at).toLocaleDateString()}</span>
+          <span>TIME: {new Date(saleReturn.created_at).toLocaleTimeString()}</span>
+        </div>
+        <div className="flex justify-between text-[10px] text-slate-500">
+          <span>ORIGINAL RECEIPT: {saleReturn.receipt_no}</span>
+          <span>BY: {saleReturn.performed_by}</span>
+        </div>
+      </div>
+
+      <div className="space-y-2 border-t border-b border-dashed border-white/25 py-3">
+        <div className="flex justify-between text-[10px] font-bold text-slate-400">
+          <span>Item SKU</span>
+          <span>Qty</span>
+          <span className="text-right">Refund</span>
+        </div>
+        {saleReturn.lines.map(line => (
+          <div key={line.id} className="text-[10px] text-white">
+            <div className="flex justify-between">
+              <span className="truncate max-w-[180px]">{names[String(line.ledger_entry_id)] || line.inventory_item_id}</span>
+              <span>{line.quantity}</span>
+              <span className="text-right">-${Number(line.amount).toLocaleString()}</span>
+            </div>
+            {line.disposition === 'write_off' && <p className="text-[9px] text-slate-500">WRITTEN OFF</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1.5 pt-1 text-[10px]">
+        <div className="flex justify-between text-sm font-black pt-2" style={{ color: branding.accent_color }}>
+          <span>TOTAL REFUND:</span>
+          <span>${Number(saleReturn.total).toLocaleString()}</span>
+        </div>
+        {saleReturn.refunds.map((refund, index) => (
+          <div key={index} className="flex justify-between text-[9px] text-slate-500">
+            <span>{saleReturn.refund_method === 'store_credit' ? 'STORE CREDIT' : tenderLabel(tenderKey(refund)).toUpperCase()}:</span>
+            <span>${Number(refund.amount).toLocaleString()}</span>
+          </div>
+        ))}
+        <div className="flex justify-between text-[9px] text-slate-500 pt-1">
+          <span>REASON:</span>
+          <span>{reasonLabel(saleReturn.reason_code).toUpperCase()}</span>
+        </div>
+      </div>
+
+      <div className="text-center pt-4 text-[10px] text-slate-500">
+        {branding.receipt_footer && <p className="uppercase">{branding.receipt_footer}</p>}
+        <p className="text-[8px] font-mono text-slate-600 mt-2 break-all">ID: {saleReturn.id}</p>
+      </div>
+    </div>
+  );
+}
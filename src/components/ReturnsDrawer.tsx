@@ -0,0 +1,375 @@
+import React, { useMemo, useState } from 'react';
+import { X, Undo2, Loader2, ScanLine, Printer, Minus, Plus } from 'lucide-react';
+import { AdjustmentReasonCode, BrandingProfile, CashShift, Customer, RefundMethod, ReturnDisposition, ReturnLookup, SalePayment, SaleReturn } from '../types';
+import { lookupReturn, postReturn } from '../lib/data';
+import { ADJUSTMENT_REASONS } from '../lib/adjustments';
+import { allocateRefund, lineRefund, parseReturnLookup, REFUND_METHODS, RETURN_DISPOSITIONS } from '../lib/returns';
+import { formatTenders, tenderKey, tenderLabel } from '../lib/sales';
+import { cn } from '../lib/utils';
+import ReturnReceipt from './ReturnReceipt';
+
+interface ReturnsDrawerProps {
+  terminalId: string;
+  activeShift: CashShift | null;
+  requireShift: boolean;
+  isOnline: boolean;
+  customers: Customer[];
+  branding: BrandingProfile;
+  onReturned: (saleReturn: SaleReturn) => void;
+  onClose: () => void;
+}
+
+const safeNum = (val: any) => {
+  const n = parseFloat(String(val || 0));
+  return isNaN(n) ? 0 : n;
+};
+
+const money = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function ReturnsDrawer({ terminalId, activeShift, requireShift, isOnline, customers, branding, onReturned, onClose }: ReturnsDrawerProps) {
+  const [query, setQuery] = useState('');
+  const [lookup, setLookup] = useState<ReturnLookup | null>(null);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [dispositions, setDispositions] = useState<Record<string, ReturnDisposition>>({});
+  const [serialPicks, setSerialPicks] = useState<Record<string, string[]>>({});
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>('original');
+  const [creditCustomerId, setCreditCustomerId] = useState('');
+  const [reasonCode, setReasonCode] = useState<AdjustmentReasonCode>('CUSTOMER_RETURN');
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [completed, setCompleted] = useState<SaleReturn | null>(null);
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseReturnLookup(query);
+    if (!value) return;
+    setLoading(true);
+    setError(null);
+    setCompleted(null);
+    const { data, error: lookupError } = await lookupReturn(value);
+    setLoading(false);
+    if (lookupError || !data) {
+      setLookup(null);
+      setError('Lookup Error: ' + (lookupError?.message || 'Unknown error'));
+      return;
+    }
+    setLookup(data);
+    setQuantities({});
+    setDispositions({});
+    setSerialPicks({});
+    setRefundMethod('original');
+    setCreditCustomerId(data.sale.customer_id || '');
+  };
+
+  const setLineQuantity = (entryId: string, quantity: number, max: number) =>
+    setQuantities(prev => ({ ...prev, [entryId]: Math.max(0, Math.min(max, quantity)) }));
+
+  const selected = useMemo(
+    () => (lookup?.lines || []).filter(line => safeNum(quantities[line.entry_id]) > 0),
+    [lookup, quantities]
+  );
+  const refundTotal = useMemo(
+    () => Math.round(selected.reduce((sum, line) => sum + lineRefund(line, quantities[line.entry_id]), 0) * 100) / 100,
+    [selected, quantities]
+  );
+  const refundable = lookup ? Object.values(lookup.refundable).reduce<number>((sum, amount) => sum + safeNum(amount), 0) : 0;
+
+  // What the server will pay out, shown before the cashier commits
+  const refundPreview: SalePayment[] = useMemo(() => {
+    if (!lookup || refundTotal <= 0) return [];
+    return refundMethod === 'store_credit'
+      ? [{ method: 'Credit', amount: refundTotal }]
+      : allocateRefund(lookup.refundable, Math.min(refundTotal, refundable));
+  }, [lookup, refundMethod, refundTotal, refundable]);
+
+  const toggleSerial = (entryId: string, serial: string) =>
+    setSerialPicks(prev => {
+      const picked = prev[entryId] || [];
+      return { ...prev, [entryId]: picked.includes(serial) ? picked.filter(s => s !== serial) : [...picked, serial] };
+    });
+
+  // Serialised units going back into stock must each be identified
+  const restocksSerials = (line: { entry_id: string; serials?: string[] }) =>
+    Boolean(line.serials?.length) && (dispositions[line.entry_id] || 'restock') === 'restock';
+  const unpickedSerials = selected.find(line => restocksSerials(line) && (serialPicks[line.entry_id] || []).length !== quantities[line.entry_id]);
+
+  const names = useMemo(
+    () => Object.fromEntries((lookup?.lines || []).map(line => [line.entry_id, line.name])),
+    [lookup]
+  );
+
+  const blocker = !isOnline
+    ? 'Returns are posted against the server. Reconnect to take a return.'
+    : requireShift && !activeShift
+      ? 'Open a cash shift on this terminal before paying out refunds.'
+      : refundMethod === 'original' && refundTotal > refundable + 0.01
+        ? `Only ${money(refundable)} of this sale can still be refunded to its tenders; give store credit instead.`
+        : refundMethod === 'store_credit' && !creditCustomerId
+          ? 'Pick the customer account to credit.'
+          : unpickedSerials
+            ? `Pick the serial of each unit of ${unpickedSerials.name} going back into stock.`
+            : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!lookup || selected.length === 0 || blocker) return;
+    setSubmitting(true);
+    setError(null);
+    const { data, error: returnError } = await postReturn({
+      saleId: lookup.sale.id,
+      lines: selected.map(line => ({
+        entryId: line.entry_id,
+        quantity: quantities[line.entry_id],
+        disposition: dispositions[line.entry_id] || 'restock',
+        serials: restocksSerials(line) ? serialPicks[line.entry_id] : undefined
+      })),
+      refundMethod,
+      customerId: refundMethod === 'store_credit' ? creditCustomerId : undefined,
+      reasonCode,
+      note: note.trim() || undefined,
+      terminalId,
+      shiftId: activeShift?.id
+    });
+    setSubmitting(false);
+    if (returnError || !data) {
+      setError('Return Error: ' + (returnError?.message || 'Unknown error'));
+      return;
+    }
+    setCompleted(data);
+    setLookup(null);
+    setQuery('');
+    onReturned(data);
+  };
+
+  const inputClass = 'w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none font-bold text-white placeholder:text-slate-700';
+  const labelClass = 'text-[10px] font-black text-slate-500 uppercase tracking-widest';
+
+  return (
+    <div className="fixed inset-0 z-[110] flex justify-end">
+      <div className="absolute inset-0 bg-[#0a0a0a]/80 backdrop-blur-md" onClick={() => !submitting && onClose()} />
+      <div className="relative w-full max-w-lg bg-[#0a0a0a] border-l border-white/10 h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div>
+            <h2 className="text-xl font-black text-[#FFD700] uppercase tracking-tighter flex items-center gap-2">
+              <Undo2 size={20} />
+              Returns
+            </h2>
+            <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mt-1">
+              Terminal {terminalId} {activeShift ? `• ${activeShift.shift_no}` : '• No open shift'}
+            </p>
+          </div>
+          <button onClick={onClose} disabled={submitting} className="p-2 hover:bg-white/5 rounded-full transition-colors text-slate-500 hover:text-[#FFD700]">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          {error && (
+            <div className="p-4 bg-rose-500/10 border border-rose-500/20 rounded-2xl text-rose-500 text-xs font-bold">{error}</div>
+          )}
+
+          {completed && (
+            <div className="space-y-4">
+              <div className="rounded-[2rem] overflow-hidden border border-white/10">
+                <ReturnReceipt saleReturn={completed} names={names} branding={branding} />
+              </div>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => window.print()}
+                  className="flex-1 py-4 bg-white text-[#0a0a0a] rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-slate-100 transition-all flex items-center justify-center gap-2"
+                >
+                  <Printer size={16} /> Print Return Receipt
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setCompleted(null)}
+                  className="flex-1 py-4 border border-white/10 text-white rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-white/5 transition-all"
+                >
+                  Next Return
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!completed && (
+            <form onSubmit={handleLookup} className="space-y-2">
+              <label className={labelClass}>Receipt Number or Scanned QR</label>
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <ScanLine size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-600" />
+                  <input
+                    autoFocus
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="POS-01-000123"
+                    className={cn(inputClass, 'pl-11 font-mono')}
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={loading || !isOnline || !query.trim()}
+                  className="px-5 bg-[#FFD700] text-[#0a0a0a] rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+                >
+                  {loading ? <Loader2 size={14} className="animate-spin" /> : 'Find'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {lookup && !completed && (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="bg-white/5 rounded-2xl p-4 border border-white/5 space-y-1">
+                <div className="flex justify-between text-xs font-black text-white">
+                  <span>Receipt {lookup.sale.receipt_no}</span>
+                  <span>{money(safeNum(lookup.sale.total))}</span>
+                </div>
+                <p className="text-[10px] text-slate-500 font-bold uppercase tracking-tighter">
+                  {new Date(lookup.sale.created_at).toLocaleString()} • {lookup.sale.customer_name || 'Walk-in'} • {formatTenders(lookup.sale.payments || [])}
+                </p>
+                {lookup.returns.length > 0 && (
+                  <p className="text-[10px] text-sky-400 font-bold uppercase tracking-tighter">
+                    Earlier returns: {lookup.returns.map(r => `${r.return_no} (${money(safeNum(r.total))})`).join(', ')}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <h3 className={labelClass}>Lines to Return</h3>
+                {lookup.lines.map(line => {
+                  const quantity = safeNum(quantities[line.entry_id]);
+                  const disposition = dispositions[line.entry_id] || 'restock';
+                  return (
+                    <div key={line.entry_id} className={cn("rounded-2xl p-4 border space-y-3", quantity > 0 ? "border-[#FFD700]/30 bg-[#FFD700]/5" : "border-white/5 bg-white/5")}>
+                      <div className="flex justify-between gap-4">
+                        <div>
+                          <p className="text-sm font-bold text-white">{line.name}</p>
+                          <p className="text-[10px] text-slate-500 font-black uppercase tracking-tighter">
+                            Sold {line.quantity_sold} • Returned {line.quantity_returned} • {money(line.unit_refund)} each
+                            {line.reversed && ' • Reversed'}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <button type="button" disabled={quantity <= 0} onClick={() => setLineQuantity(line.entry_id, quantity - 1, line.quantity_returnable)} className="p-1.5 bg-white/5 border border-white/10 rounded-lg text-slate-400 disabled:opacity-30">
+                            <Minus size={12} />
+                          </button>
+                          <span className="w-6 text-center text-sm font-black text-white">{quantity}</span>
+                          <button type="button" disabled={quantity >= line.quantity_returnable} onClick={() => setLineQuantity(line.entry_id, quantity + 1, line.quantity_returnable)} className="p-1.5 bg-white/5 border border-white/10 rounded-lg text-slate-400 disabled:opacity-30">
+                            <Plus size={12} />
+                          </button>
+                        </div>
+                      </div>
+                      {quantity > 0 && (
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="flex gap-2">
+                            {RETURN_DISPOSITIONS.map(d => (
+                              <button
+                                key={d.code}
+                                type="button"
+                                onClick={() => setDispositions(prev => ({ ...prev, [line.entry_id]: d.code }))}
+                                className={cn(
+                                  "px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border",
+                                  disposition === d.code ? "bg-[#FFD700] text-[#0a0a0a] border-[#FFD700]" : "bg-white/5 text-slate-500 border-white/10"
+                                )}
+                              >
+                                {d.label}
+                              </button>
+                            ))}
+                          </div>
+                          <span className="text-xs font-black text-[#FFD700]">{money(lineRefund(line, quantity))}</span>
+                        </div>
+                      )}
+                      {quantity > 0 && restocksSerials(line) && (
+                        <div className="space-y-2">
+                          <p className={labelClass}>Serials Back In Stock ({(serialPicks[line.entry_id] || []).length}/{quantity})</p>
+                          <div className="flex flex-wrap gap-2">
+                            {line.serials?.map(serial => (
+                              <button
+                                key={serial}
+                                type="button"
+                                onClick={() => toggleSerial(line.entry_id, serial)}
+                                className={cn(
+                                  "px-2.5 py-1 rounded-lg text-[10px] font-mono font-bold border",
+                                  (serialPicks[line.entry_id] || []).includes(serial) ? "bg-[#FFD700] text-[#0a0a0a] border-[#FFD700]" : "bg-white/5 text-slate-400 border-white/10"
+                                )}
+                              >
+                                {serial}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+                {lookup.lines.length === 0 && (
+                  <p className="text-xs text-slate-500 font-bold">This sale has no stocked lines that can be returned.</p>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <h3 className={labelClass}>Refund To</h3>
+                <div className="grid grid-cols-2 gap-2">
+                  {REFUND_METHODS.map(m => (
+                    <button
+                      key={m.code}
+                      type="button"
+                      onClick={() => setRefundMethod(m.code)}
+                      className={cn(
+                        "py-3 rounded-xl text-[10px] font-black uppercase tracking-widest border",
+                        refundMethod === m.code ? "bg-[#FFD700] text-[#0a0a0a] border-[#FFD700]" : "bg-white/5 text-slate-500 border-white/10"
+                      )}
+                    >
+                      {m.label}
+                    </button>
+                  ))}
+                </div>
+                {refundMethod === 'store_credit' && (
+                  <select value={creditCustomerId} onChange={(e) => setCreditCustomerId(e.target.value)} className={inputClass}>
+                    <option value="">Select customer account...</option>
+                    {customers.filter(c => c.active || c.id === creditCustomerId).map(c => (
+                      <option key={c.id} value={c.id}>{c.name}</option>
+                    ))}
+                  </select>
+                )}
+                {refundPreview.map((refund, index) => (
+                  <div key={index} className="flex justify-between text-xs font-bold">
+                    <span className="text-slate-500 uppercase tracking-widest">
+                      {refundMethod === 'store_credit' ? 'Store Credit' : tenderLabel(tenderKey(refund))}
+                    </span>
+                    <span className="text-white">{money(refund.amount)}</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <label className={labelClass}>Reason</label>
+                <select value={reasonCode} onChange={(e) => setReasonCode(e.target.value as AdjustmentReasonCode)} className={inputClass}>
+                  {ADJUSTMENT_REASONS.map(r => <option key={r.code} value={r.code}>{r.label}</option>)}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Note</label>
+                <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Condition, packaging..." className={inputClass} />
+              </div>
+
+              {blocker && selected.length > 0 && (
+                <div className="p-4 bg-amber-500/10 border border-amber-500/20 rounded-2xl text-amber-500 text-xs font-bold">{blocker}</div>
+              )}
+
+              <button
+                type="submit"
+                disabled={submitting || selected.length === 0 || !!blocker}
+                className="w-full py-4 bg-[#FFD700] text-[#0a0a0a] rounded-2xl font-black text-xs uppercase tracking-widest disabled:opacity-50"
+              >
+                {submitting ? <Loader2 size={16} className="animate-spin mx-auto" /> : `Refund ${money(refundTotal)}`}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,504 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { X, Wallet, Loader2, Download, ArrowDownRight, ArrowUpRight, Lock } from 'lucide-react';
+import { BrandingProfile, CashShift, Category, DrawerMovementKind, ShiftReport } from '../types';
+import { closeShift, getShiftReport, listCategories, listShifts, openShift, recordDrawerMovement } from '../lib/data';
+import { COUNTED_TENDERS, countDenominations, DENOMINATIONS, DRAWER_MOVEMENT_KINDS, drawerMovementLabel } from '../lib/shifts';
+import { formatTenders, tenderLabel } from '../lib/sales';
+import { cn } from '../lib/utils';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { drawPdfFooter, drawPdfHeader, pdfTableStyles } from '../lib/pdfTemplate';
+
+interface ShiftDrawerProps {
+  terminalId: string;
+  activeShift: CashShift | null;
+  isOnline: boolean;
+  branding: BrandingProfile;
+  onShiftChange: (shift: CashShift | null) => void;
+  onClose: () => void;
+}
+
+const safeNum = (val: any) => {
+  const n = parseFloat(String(val || 0));
+  return isNaN(n) ? 0 : n;
+};
+
+const money = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const signedMoney = (n: number) => (n > 0 ? `+${money(n)}` : n < 0 ? `-${money(-n)}` : money(0));
+
+const denominationLabel = (value: number) => (value >= 1 ? `$${value}` : `${Math.round(value * 100)}¢`);
+
+// X report while the shift is open, Z report once it has been counted and closed.
+export function downloadShiftReport(report: ShiftReport, branding: BrandingProfile) {
+  const { shift, movements, sales, tenders } = report;
+  const returns = report.returns || [];
+  const isClosed = shift.status === 'closed';
+  const doc = new jsPDF();
+  const y = drawPdfHeader(doc, branding, `${isClosed ? 'Z' : 'X'} Report`, `${shift.shift_no} - Terminal ${shift.terminal_id} - ${shift.cashier_name}`);
+
+  const revenue = sales.reduce((acc, s) => acc + safeNum(s.total), 0);
+  doc.text(`Opened: ${new Date(shift.opened_at).toLocaleString()}`, 15, y);
+  doc.text(isClosed
+    ? `Closed: ${new Date(shift.closed_at || '').toLocaleString()} by ${shift.closed_by || '-'}`
+    : `Printed: ${new Date().toLocaleString()} (shift still open)`, 15, y + 7);
+  doc.text(`Opening Float: ${money(safeNum(shift.opening_float))}`, 15, y + 14);
+  const refunded = returns.reduce((acc, r) => acc + safeNum(r.total), 0);
+  doc.text(`Sales: ${sales.length} totalling ${money(revenue)}` + (returns.length > 0 ? ` - Returns: ${returns.length} refunding ${money(refunded)}` : ''), 15, y + 21);
+  if (isClosed) {
+    doc.text(`Over / Short: ${signedMoney(safeNum(shift.over_short))}`, 15, y + 28);
+  }
+
+  autoTable(doc, {
+    ...pdfTableStyles(branding),
+    startY: y + 37,
+    head: [['Tender', 'Expected', 'Counted', 'Variance']],
+    body: tenders.map(line => [
+      tenderLabel(line.method),
+      money(line.expected),
+      line.counted === null ? '-' : money(line.counted),
+      line.variance === null ? '-' : signedMoney(line.variance)
+    ])
+  });
+
+  const tables: { head: string[]; body: (string | number)[][] }[] = [];
+  if (movements.length > 0) {
+    tables.push({
+      head: ['Time', 'Movement', 'Reason', 'By', 'Amount'],
+      body: movements.map(m => [
+        new Date(m.created_at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' }),
+        drawerMovementLabel(m.kind),
+        m.reason || '-',
+        m.performed_by || '-',
+        money(safeNum(m.amount))
+      ])
+    });
+  }
+  if (isClosed && shift.denominations) {
+    tables.push({
+      head: ['Denomination', 'Count', 'Value'],
+      body: DENOMINATIONS
+        .filter(value => safeNum(shift.denominations?.[String(value)]) > 0)
+        .map(value => {
+          const count = safeNum(shift.denominations?.[String(value)]);
+          return [denominationLabel(value), count, money(value * count)];
+        })
+    });
+  }
+  tables.push({
+    head: ['Time', 'Receipt', 'Tenders', 'Total'],
+    body: sales.map(s => [
+      new Date(s.created_at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' }),
+      s.receipt_no,
+      formatTenders(s.payments || []) || s.payment_method,
+      money(safeNum(s.total))
+    ])
+  });
+
+  if (returns.length > 0) {
+    tables.push({
+      head: ['Time', 'Return', 'Receipt', 'Refunds', 'Total'],
+      body: returns.map(r => [
+        new Date(r.created_at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' }),
+        r.return_no,
+        r.receipt_no,
+        formatTenders(r.refunds || []),
+        money(safeNum(r.total))
+      ])
+    });
+  }
+
+  tables.forEach(table => {
+    autoTable(doc, {
+      ...pdfTableStyles(branding),
+      startY: (doc as any).lastAutoTable.finalY + 8,
+      head: [table.head],
+      body: table.body
+    });
+  });
+
+  drawPdfFooter(doc, branding, 'Verified Archive Ledger');
+
+  doc.save(`${isClosed ? 'Z' : 'X'}_Report_${shift.shift_no}.pdf`);
+}
+
+// Opens, runs and closes the cash shift on this terminal: float, pay-ins/outs and safe drops,
+// the X report on demand and the closing count that produces the Z report.
+export default function ShiftDrawer({ terminalId, activeShift, isOnline, branding, onShiftChange, onClose }: ShiftDrawerProps) {
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const [history, setHistory] = useState<CashShift[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [openingFloat, setOpeningFloat] = useState('');
+
+  const [movementKind, setMovementKind] = useState<DrawerMovementKind>('safe_drop');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+
+  const [closing, setClosing] = useState(false);
+  const [denominations, setDenominations] = useState<Record<string, string>>({});
+  const [countedOther, setCountedOther] = useState<Record<string, string>>({});
+  const [categoryId, setCategoryId] = useState('');
+  const [closeNotes, setCloseNotes] = useState('');
+
+  const refresh = useCallback(async () => {
+    if (!isOnline) return;
+    setLoading(true);
+    setError(null);
+    const [historyRes, reportRes] = await Promise.all([
+      listShifts({ terminalId, status: 'closed' }),
+      activeShift ? getShiftReport(activeShift.id) : Promise.resolve(null)
+    ]);
+    if (historyRes.error) setError('Shift Fetch Error: ' + historyRes.error.message);
+    else setHistory((historyRes.data || []).slice(0, 10));
+    if (reportRes?.error) setError('Shift Report Error: ' + reportRes.error.message);
+    else setReport(reportRes?.data || null);
+    setLoading(false);
+  }, [isOnline, terminalId, activeShift]);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  useEffect(() => {
+    if (!closing || categories.length > 0) return;
+    listCategories().then(({ data, error: catError }) => {
+      if (catError) setError('Category Fetch Error: ' + catError.message);
+      else setCategories(data || []);
+    });
+  }, [closing, categories.length]);
+
+  const countedCash = useMemo(() => countDenominations(
+    Object.fromEntries(Object.entries(denominations).map(([value, count]) => [value, safeNum(count)]))
+  ), [denominations]);
+
+  const run = async (action: () => Promise<void>) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await action();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleOpen = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const { data, error: openError } = await openShift({
+        terminalId,
+        openingFloat: safeNum(openingFloat)
+      });
+      if (openError || !data) {
+        setError('Shift Open Error: ' + (openError?.message || 'Unknown error'));
+        return;
+      }
+      setOpeningFloat('');
+      onShiftChange(data);
+    });
+  };
+
+  const handleMovement = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeShift) return;
+    run(async () => {
+      const { error: movementError } = await recordDrawerMovement(activeShift.id, {
+        kind: movementKind,
+        amount: safeNum(movementAmount),
+        reason: movementReason.trim()
+      });
+      if (movementError) {
+        setError('Drawer Movement Error: ' + movementError.message);
+        return;
+      }
+      setMovementAmount('');
+      setMovementReason('');
+      await refresh();
+    });
+  };
+
+  const handleClose = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeShift) return;
+    run(async () => {
+      const { data, error: closeError } = await closeShift(activeShift.id, {
+        categoryId,
+        notes: closeNotes.trim() || undefined,
+        denominations: Object.fromEntries(
+          Object.entries(denominations)
+            .filter(([, count]) => safeNum(count) > 0)
+            .map(([value, count]) => [value, Math.floor(safeNum(count))])
+        ),
+        // Blank tenders are left uncounted rather than counted as nothing
+        counted: Object.fromEntries(
+          Object.entries(countedOther)
+            .filter(([, amount]) => String(amount).trim() !== '')
+            .map(([method, amount]) => [method, safeNum(amount)])
+        )
+      });
+      if (closeError || !data) {
+        setError('Shift Close Error: ' + (closeError?.message || 'Unknown error'));
+        return;
+      }
+      try {
+        downloadShiftReport(data, branding);
+      } catch (err) {
+        console.error('PDF Error:', err);
+      }
+      setClosing(false);
+      setDenominations({});
+      setCountedOther({});
+      setCloseNotes('');
+      onShiftChange(null);
+    });
+  };
+
+  const reprint = async (shiftId: string) => {
+    const { data, error: reportError } = await getShiftReport(shiftId);
+    if (reportError || !data) {
+      setError('Shift Report Error: ' + (reportError?.message || 'Unknown error'));
+      return;
+    }
+    try {
+      downloadShiftReport(data, branding);
+    } catch (err) {
+      console.error('PDF Error:', err);
+      setError('Failed to generate PDF report.');
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none font-bold text-white placeholder:text-slate-700';
+  const labelClass = 'text-[10px] font-black text-slate-500 uppercase tracking-widest';
+  const expectedCash = report?.tenders.find(t => t.method === 'Cash')?.expected ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-[110] flex justify-end">
+      <div className="absolute inset-0 bg-[#0a0a0a]/80 backdrop-blur-md" onClick={() => !submitting && onClose()} />
+      <div className="relative w-full max-w-lg bg-[#0a0a0a] border-l border-white/10 h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div>
+            <h2 className="text-xl font-black text-[#FFD700] uppercase tracking-tighter flex items-center gap-2">
+              <Wallet size={20} />
+              Cash Shift
+            </h2>
+            <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mt-1">
+              Terminal {terminalId} {activeShift ? `• ${activeShift.shift_no} • ${activeShift.cashier_name}` : '• No open shift'}
+            </p>
+          </div>
+          <button onClick={onClose} disabled={submitting} className="p-2 hover:bg-white/5 rounded-full transition-colors text-slate-500 hover:text-[#FFD700]">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          {!isOnline && (
+            <div className="p-4 bg-amber-500/10 border border-amber-500/20 rounded-2xl text-amber-500 text-xs font-bold">
+              Shifts are opened, counted and closed against the server. Reconnect to manage the drawer.
+            </div>
+          )}
+          {error && (
+            <div className="p-4 bg-rose-500/10 border border-rose-500/20 rounded-2xl text-rose-500 text-xs font-bold">{error}</div>
+          )}
+
+          {!activeShift && (
+            <form onSubmit={handleOpen} className="space-y-4">
+              <h3 className={labelClass}>Open Shift</h3>
+              <p className="text-[10px] text-slate-500 font-bold">The shift is opened in the name of whoever is signed in.</p>
+              <div className="space-y-2">
+                <label className={labelClass}>Opening Float</label>
+                <input type="number" min={0} step="0.01" required value={openingFloat} onChange={(e) => setOpeningFloat(e.target.value)} className={inputClass} placeholder="0.00" />
+              </div>
+              <button
+                type="submit"
+                disabled={submitting || !isOnline}
+                className="w-full py-4 bg-[#FFD700] text-[#0a0a0a] font-black uppercase text-xs tracking-widest rounded-2xl disabled:opacity-50"
+              >
+                {submitting ? <Loader2 size={16} className="animate-spin mx-auto" /> : 'Open Shift'}
+              </button>
+            </form>
+          )}
+
+          {activeShift && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="bg-white/5 rounded-2xl p-4 border border-white/5">
+                  <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Opening Float</p>
+                  <p className="text-xl font-black text-white mt-1">{money(safeNum(activeShift.opening_float))}</p>
+                </div>
+                <div className="bg-white/5 rounded-2xl p-4 border border-white/5">
+                  <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Expected Cash</p>
+                  <p className="text-xl font-black text-[#FFD700] mt-1">{loading || !report ? '—' : money(expectedCash)}</p>
+                </div>
+              </div>
+
+              {report && (
+                <div className="space-y-2">
+                  {report.tenders.map(line => (
+                    <div key={line.method} className="flex justify-between text-xs font-bold">
+                      <span className="text-slate-500 uppercase tracking-widest">{tenderLabel(line.method)}</span>
+                      <span className="text-white">{money(line.expected)}</span>
+                    </div>
+                  ))}
+                  <p className="text-[10px] text-slate-600 font-mono">{report.sales.length} sales{(report.returns || []).length > 0 ? `, ${report.returns.length} returns` : ''} since {new Date(activeShift.opened_at).toLocaleTimeString()}</p>
+                </div>
+              )}
+
+              <button
+                type="button"
+                onClick={() => report && downloadShiftReport(report, branding)}
+                disabled={!report}
+                className="w-full flex items-center justify-center gap-2 py-3 bg-white/5 border border-white/10 text-white font-black uppercase text-[10px] tracking-widest rounded-2xl hover:border-[#FFD700]/30 disabled:opacity-50"
+              >
+                <Download size={14} /> X Report
+              </button>
+
+              <form onSubmit={handleMovement} className="space-y-4">
+                <h3 className={labelClass}>Drawer Movement</h3>
+                <div className="grid grid-cols-3 gap-2">
+                  {DRAWER_MOVEMENT_KINDS.map(kind => (
+                    <button
+                      key={kind.code}
+                      type="button"
+                      onClick={() => setMovementKind(kind.code)}
+                      className={cn(
+                        "py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border flex items-center justify-center gap-1",
+                        movementKind === kind.code ? "bg-[#FFD700] text-[#0a0a0a] border-[#FFD700]" : "bg-white/5 text-slate-400 border-white/10"
+                      )}
+                    >
+                      {kind.direction > 0 ? <ArrowDownRight size={12} /> : <ArrowUpRight size={12} />}
+                      {kind.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <input type="number" min={0.01} step="0.01" required value={movementAmount} onChange={(e) => setMovementAmount(e.target.value)} className={inputClass} placeholder="Amount" />
+                  <input required value={movementReason} onChange={(e) => setMovementReason(e.target.value)} className={inputClass} placeholder="Reason" />
+                </div>
+                <button
+                  type="submit"
+                  disabled={submitting || !isOnline}
+                  className="w-full py-3 bg-white/5 border border-white/10 text-white font-black uppercase text-[10px] tracking-widest rounded-2xl hover:border-[#FFD700]/30 disabled:opacity-50"
+                >
+                  Record {drawerMovementLabel(movementKind)}
+                </button>
+                {report && report.movements.length > 0 && (
+                  <div className="space-y-1">
+                    {report.movements.map(m => (
+                      <div key={m.id} className="flex justify-between text-[11px] font-bold text-slate-400">
+                        <span>{drawerMovementLabel(m.kind)} • {m.reason}</span>
+                        <span className={m.kind === 'pay_in' ? 'text-emerald-500' : 'text-rose-500'}>
+                          {m.kind === 'pay_in' ? '+' : '-'}{money(safeNum(m.amount))}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </form>
+
+              {!closing ? (
+                <button
+                  type="button"
+                  onClick={() => setClosing(true)}
+                  className="w-full flex items-center justify-center gap-2 py-4 bg-rose-500/10 border border-rose-500/20 text-rose-500 font-black uppercase text-xs tracking-widest rounded-2xl"
+                >
+                  <Lock size={14} /> Count & Close Shift
+                </button>
+              ) : (
+                <form onSubmit={handleClose} className="space-y-4">
+                  <h3 className={labelClass}>Closing Count</h3>
+                  <div className="grid grid-cols-3 gap-2">
+                    {DENOMINATIONS.map(value => (
+                      <div key={value} className="space-y-1">
+                        <label className="text-[9px] font-black text-slate-600 uppercase tracking-widest">{denominationLabel(value)}</label>
+                        <input
+                          type="number"
+                          min={0}
+                          step={1}
+                          value={denominations[String(value)] || ''}
+                          onChange={(e) => setDenominations({ ...denominations, [String(value)]: e.target.value })}
+                          className={inputClass}
+                          placeholder="0"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-between text-xs font-black uppercase tracking-widest">
+                    <span className="text-slate-500">Counted Cash</span>
+                    <span className="text-white">{money(countedCash)}</span>
+                  </div>
+                  {COUNTED_TENDERS.filter(method => method !== 'Cash').map(method => {
+                    // Tenders that took payments must be counted; the rest may be left blank
+                    const expected = report?.tenders.find(t => t.method === method)?.expected ?? 0;
+                    return (
+                      <div key={method} className="space-y-2">
+                        <label className={labelClass}>
+                          {tenderLabel(method)} Settled {report && <span className="text-slate-600">(expected {money(expected)})</span>}
+                        </label>
+                        <input
+                          required={expected !== 0}
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={countedOther[method] ?? ''}
+                          onChange={(e) => setCountedOther({ ...countedOther, [method]: e.target.value })}
+                          className={inputClass}
+                          placeholder={expected !== 0 ? '0.00' : 'Not counted'}
+                        />
+                      </div>
+                    );
+                  })}
+                  <div className="space-y-2">
+                    <label className={labelClass}>Post Over / Short To</label>
+                    <select required value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={inputClass}>
+                      <option value="" className="bg-[#0a0a0a]">Select category</option>
+                      {categories.map(c => <option key={c.id} value={c.id} className="bg-[#0a0a0a]">{c.name}</option>)}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className={labelClass}>Notes</label>
+                    <input value={closeNotes} onChange={(e) => setCloseNotes(e.target.value)} className={inputClass} />
+                  </div>
+                  <div className="flex gap-2">
+                    <button type="button" onClick={() => setClosing(false)} className="flex-1 py-4 bg-white/5 border border-white/10 text-slate-400 font-black uppercase text-xs tracking-widest rounded-2xl">
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={submitting || !isOnline || !categoryId}
+                      className="flex-1 py-4 bg-[#FFD700] text-[#0a0a0a] font-black uppercase text-xs tracking-widest rounded-2xl disabled:opacity-50"
+                    >
+                      {submitting ? <Loader2 size={16} className="animate-spin mx-auto" /> : 'Close & Print Z'}
+                    </button>
+                  </div>
+                </form>
+              )}
+            </>
+          )}
+
+          {history.length > 0 && (
+            <div className="space-y-2">
+              <h3 className={labelClass}>Recent Closed Shifts</h3>
+              {history.map(shift => (
+                <div key={shift.id} className="flex items-center justify-between p-3 bg-white/5 border border-white/5 rounded-2xl">
+                  <div>
+                    <p className="text-xs font-black text-white">{shift.shift_no} • {shift.cashier_name}</p>
+                    <p className="text-[10px] text-slate-500 font-mono">{shift.closed_at ? new Date(shift.closed_at).toLocaleString() : '-'}</p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className={cn("text-xs font-black", safeNum(shift.over_short) < 0 ? "text-rose-500" : safeNum(shift.over_short) > 0 ? "text-amber-500" : "text-emerald-500")}>
+                      {signedMoney(safeNum(shift.over_short))}
+                    </span>
+                    <button type="button" onClick={() => reprint(shift.id)} className="p-2 text-slate-500 hover:text-[#FFD700]" title="Reprint Z report">
+                      <Download size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,464 @@
+import React, { useEffect, useState } from 'react';
+import { X, ClipboardCheck, Loader2, FileText, Plus, ScanLine } from 'lucide-react';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { BrandingProfile, Category, InventoryItem, StockLocation, Stocktake, StocktakeLine } from '../types';
+import { approveStocktake, cancelStocktake, listCategories, listStocktakes, saveStocktakeCounts, startStocktake } from '../lib/data';
+import { findItemByCode, parseScanInput } from '../lib/barcodes';
+import { defaultLocation, locationName } from '../lib/locations';
+import { itemBins, lineVariance, lineVarianceValue, STOCKTAKE_STATUS_LABELS, stocktakeSummary } from '../lib/stocktakes';
+import { drawPdfFooter, drawPdfHeader, pdfTableStyles } from '../lib/pdfTemplate';
+import { cn } from '../lib/utils';
+
+interface StocktakeDrawerProps {
+  items: InventoryItem[];
+  locations: StockLocation[];
+  branding: BrandingProfile;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const money = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const signed = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+export default function StocktakeDrawer({ items, locations, branding, onClose, onChanged }: StocktakeDrawerProps) {
+  const activeLocations = locations.filter(l => l.active);
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ locationId: String(defaultLocation(locations)?.id || ''), categoryId: '', bin: '', notes: '' });
+  // Typed or scanned counts not yet saved, by inventory item id.
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [scan, setScan] = useState('');
+  const [binFilter, setBinFilter] = useState('');
+  const [variancesOnly, setVariancesOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchStocktakes();
+    listCategories().then(({ data }) => setCategories(data || []));
+  }, []);
+
+  async function fetchStocktakes() {
+    setLoading(true);
+    const { data, error: stocktakeError } = await listStocktakes();
+    setLoading(false);
+    if (stocktakeError) {
+      setError('Stocktake Error: ' + stocktakeError.message);
+      return;
+    }
+    setStocktakes(data || []);
+  }
+
+  const selected = stocktakes.find(s => s.id === selectedId) || null;
+  const itemFor = (id: string) => items.find(i => String(i.id) === String(id));
+  const categoryName = (id?: string | null) => categories.find(c => String(c.id) === String(id))?.name || 'All categories';
+
+  const open = (stocktake: Stocktake) => {
+    setSelectedId(stocktake.id);
+    setCounts({});
+    setScan('');
+    setBinFilter('');
+    setVariancesOnly(false);
+    setError(null);
+    setNotice(null);
+  };
+
+  // A line shows what has been typed for it ahead of what was saved.
+  const withDraft = (line: StocktakeLine): StocktakeLine => {
+    const typed = counts[line.inventory_item_id];
+    if (typed === undefined) return line;
+    return { ...line, counted_quantity: typed === '' ? null : Math.max(0, parseInt(typed) || 0) };
+  };
+  const lines = selected ? selected.lines.map(withDraft) : [];
+  const summary = stocktakeSummary({ lines });
+  const sheetBins = Array.from(new Set<string>(lines.map(l => l.bin || '').filter(bin => bin))).sort();
+  const visibleLines = lines.filter(line =>
+    (!binFilter || (line.bin || '') === binFilter) && (!variancesOnly || (lineVariance(line) ?? 0) !== 0)
+  );
+  const pending = Object.keys(counts).filter(id => counts[id] !== '');
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    const { data, error: startError } = await startStocktake({
+      locationId: draft.locationId || undefined,
+      categoryId: draft.categoryId || undefined,
+      bin: draft.bin || undefined,
+      notes: draft.notes.trim() || undefined
+    });
+    setSubmitting(false);
+    if (startError || !data) {
+      setError('Stocktake Error: ' + (startError?.message || 'No stocktake returned.'));
+      return;
+    }
+    setDraft({ ...draft, categoryId: '', bin: '', notes: '' });
+    setStocktakes([data, ...stocktakes]);
+    open(data);
+  };
+
+  // Each scan adds its quantity to the item's count, starting from zero when it has none yet.
+  const handleScan = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !scan.trim()) return;
+    const { quantity, code } = parseScanInput(scan);
+    setScan('');
+    const item = findItemByCode(items, code);
+    const line = item && lines.find(l => String(l.inventory_item_id) === String(item.id));
+    if (!line) {
+      setNotice(item ? `${item.name} is not on this count.` : `No item matches ${code}.`);
+      return;
+    }
+    const next = (line.counted_quantity ?? 0) + quantity;
+    setCounts({ ...counts, [line.inventory_item_id]: String(next) });
+    setNotice(`${item!.name}: ${next} counted.`);
+  };
+
+  const replaceStocktake = (stocktake: Stocktake) =>
+    setStocktakes(stocktakes.map(s => s.id === stocktake.id ? stocktake : s));
+
+  const handleSave = async () => {
+    if (!selected || pending.length === 0) return;
+    setSubmitting(true);
+    setError(null);
+    const { data, error: countError } = await saveStocktakeCounts(selected.id, {
+      counts: pending.map(inventoryItemId => ({ inventoryItemId, countedQuantity: Math.max(0, parseInt(counts[inventoryItemId]) || 0) }))
+    });
+    setSubmitting(false);
+    if (countError || !data) {
+      setError('Count Error: ' + (countError?.message || 'No stocktake returned.'));
+      return;
+    }
+    setCounts({});
+    replaceStocktake(data);
+  };
+
+  // Anything on the sheet nobody found is counted as none.
+  const handleZeroUncounted = () => {
+    const zeroed = { ...counts };
+    lines.filter(l => l.counted_quantity == null).forEach(l => { zeroed[l.inventory_item_id] = '0'; });
+    setCounts(zeroed);
+  };
+
+  const handleApprove = async () => {
+    if (!selected) return;
+    const confirmed = window.confirm(
+      `Approve ${selected.stocktake_no}? ${summary.varianceLines} line(s) will be adjusted ` +
+      `(${summary.unitsShort} short, ${summary.unitsOver} over), about ${money(-summary.value)} of shrinkage at cost.`
+    );
+    if (!confirmed) return;
+    setSubmitting(true);
+    setError(null);
+    const { data, error: approveError } = await approveStocktake(selected.id);
+    setSubmitting(false);
+    if (approveError || !data) {
+      setError('Approval Error: ' + (approveError?.message || 'No stocktake returned.'));
+      return;
+    }
+    replaceStocktake(data);
+    onChanged();
+  };
+
+  const handleCancel = async () => {
+    if (!selected || !window.confirm(`Cancel ${selected.stocktake_no}? Its counts are kept but stock is not changed.`)) return;
+    setSubmitting(true);
+    setError(null);
+    const { data, error: cancelError } = await cancelStocktake(selected.id);
+    setSubmitting(false);
+    if (cancelError || !data) {
+      setError('Cancel Error: ' + (cancelError?.message || 'No stocktake returned.'));
+      return;
+    }
+    setCounts({});
+    replaceStocktake(data);
+  };
+
+  const handleDownload = () => {
+    if (!selected) return;
+    const doc = new jsPDF();
+    const y = drawPdfHeader(
+      doc,
+      branding,
+      `Stocktake ${selected.stocktake_no}`,
+      `${locationName(locations, selected.location_id)} • ${categoryName(selected.category_id)}${selected.bin ? ` • Bin ${selected.bin}` : ''} • ${STOCKTAKE_STATUS_LABELS[selected.status]}`
+    );
+    autoTable(doc, {
+      ...pdfTableStyles(branding),
+      startY: y,
+      head: [['Item', 'Bin', 'Expected', 'Counted', 'Variance', 'Unit Cost', 'Value']],
+      body: lines.map(line => [
+        itemFor(line.inventory_item_id)?.name || 'Unknown item',
+        line.bin || '',
+        line.expected_quantity,
+        line.counted_quantity ?? '',
+        line.counted_quantity == null ? '' : signed(lineVariance(line) || 0),
+        money(Number(line.unit_cost)),
+        money(lineVarianceValue(line))
+      ]),
+      foot: [['Total', '', '', `${summary.counted}/${summary.lines}`, `-${summary.unitsShort} / +${summary.unitsOver}`, '', money(summary.value)]]
+    });
+    drawPdfFooter(
+      doc,
+      branding,
+      `Started ${new Date(selected.started_at).toLocaleString()} by ${selected.started_by}` +
+      (selected.closed_at ? ` • ${STOCKTAKE_STATUS_LABELS[selected.status]} ${new Date(selected.closed_at).toLocaleString()} by ${selected.closed_by}` : '')
+    );
+    doc.save(`Stocktake_${selected.stocktake_no}.pdf`);
+  };
+
+  const inputClass = 'w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none font-bold text-white placeholder:text-slate-700';
+  const labelClass = 'text-[10px] font-black text-slate-500 uppercase tracking-widest';
+  const buttonClass = 'flex-1 py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-slate-300 uppercase tracking-widest hover:text-[#FFD700] disabled:opacity-50';
+
+  const statusBadge = (stocktake: Stocktake) => (
+    <span className={cn(
+      "h-fit px-2 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest",
+      stocktake.status === 'counting' && "bg-amber-500/10 text-amber-500 border-amber-500/20",
+      stocktake.status === 'approved' && "bg-emerald-500/10 text-emerald-500 border-emerald-500/20",
+      stocktake.status === 'cancelled' && "bg-white/5 text-slate-500 border-white/10"
+    )}>
+      {STOCKTAKE_STATUS_LABELS[stocktake.status]}
+    </span>
+  );
+
+  const renderSession = (stocktake: Stocktake) => {
+    const counting = stocktake.status === 'counting';
+    return (
+      <div className="space-y-6">
+        <button
+          type="button"
+          onClick={() => setSelectedId(null)}
+          disabled={submitting}
+          className="text-[10px] font-black text-slate-500 uppercase tracking-widest hover:text-[#FFD700]"
+        >
+          ← All counts
+        </button>
+        <div className="flex justify-between gap-4">
+          <div>
+            <p className="text-lg font-black text-white">{stocktake.stocktake_no}</p>
+            <p className="text-[10px] font-mono text-slate-400">
+              {locationName(locations, stocktake.location_id)} • {categoryName(stocktake.category_id)}{stocktake.bin ? ` • Bin ${stocktake.bin}` : ''}
+            </p>
+            {stocktake.notes && <p className="text-[10px] text-slate-500 italic">{stocktake.notes}</p>}
+          </div>
+          {statusBadge(stocktake)}
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="bg-white/5 rounded-2xl p-3 border border-white/5">
+            <p className={labelClass}>Counted</p>
+            <p className="text-lg font-black text-white">{summary.counted}/{summary.lines}</p>
+          </div>
+          <div className="bg-white/5 rounded-2xl p-3 border border-white/5">
+            <p className={labelClass}>Short / Over</p>
+            <p className="text-lg font-black text-white">{summary.unitsShort} / {summary.unitsOver}</p>
+          </div>
+          <div className="bg-white/5 rounded-2xl p-3 border border-white/5">
+            <p className={labelClass}>Variance</p>
+            <p className={cn("text-lg font-black", summary.value < 0 ? "text-rose-500" : "text-emerald-500")}>
+              {money(stocktake.variance_value != null ? -Number(stocktake.variance_value) : summary.value)}
+            </p>
+          </div>
+        </div>
+
+        {counting && (
+          <form onSubmit={handleScan} className="flex gap-3">
+            <div className="relative flex-1">
+              <ScanLine size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500" />
+              <input
+                autoFocus
+                value={scan}
+                onChange={(e) => setScan(e.target.value)}
+                placeholder="Scan or type code (3*code for 3)"
+                className={cn(inputClass, "pl-11 font-mono")}
+              />
+            </div>
+          </form>
+        )}
+        {notice && <p className="text-[10px] text-slate-400 font-bold">{notice}</p>}
+
+        <div className="flex gap-3">
+          {sheetBins.length > 0 && (
+            <select value={binFilter} onChange={(e) => setBinFilter(e.target.value)} className={inputClass}>
+              <option value="" className="bg-[#0a0a0a]">All bins</option>
+              {sheetBins.map(bin => <option key={bin} value={bin} className="bg-[#0a0a0a]">{bin}</option>)}
+            </select>
+          )}
+          <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest whitespace-nowrap">
+            <input type="checkbox" checked={variancesOnly} onChange={(e) => setVariancesOnly(e.target.checked)} />
+            Variances only
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          {visibleLines.map(line => {
+            const variance = lineVariance(line);
+            const typed = counts[line.inventory_item_id];
+            return (
+              <div key={line.id} className="bg-white/5 rounded-2xl p-3 border border-white/5 flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-white truncate">{itemFor(line.inventory_item_id)?.name || 'Unknown item'}</p>
+                  <p className="text-[10px] font-mono text-slate-400">
+                    {line.bin ? `${line.bin} • ` : ''}Expected {line.expected_quantity} • {money(Number(line.unit_cost))}
+                  </p>
+                </div>
+                {variance != null && variance !== 0 && (
+                  <div className={cn("text-right text-xs font-black", variance < 0 ? "text-rose-500" : "text-emerald-500")}>
+                    <p>{signed(variance)}</p>
+                    <p className="text-[10px]">{money(lineVarianceValue(line))}</p>
+                  </div>
+                )}
+                <input
+                  type="number"
+                  min="0"
+                  disabled={!counting}
+                  value={typed ?? (line.counted_quantity ?? '')}
+                  onChange={(e) => setCounts({ ...counts, [line.inventory_item_id]: e.target.value })}
+                  placeholder="—"
+                  className={cn(inputClass, "w-20 px-3 py-2 text-center", typed !== undefined && "border-[#FFD700]/50")}
+                />
+              </div>
+            );
+          })}
+          {visibleLines.length === 0 && <p className="text-xs text-slate-500 font-bold">No lines to show.</p>}
+        </div>
+
+        {counting ? (
+          <div className="space-y-3">
+            <div className="flex gap-3">
+              <button type="button" onClick={handleSave} disabled={submitting || pending.length === 0} className={buttonClass}>
+                Save Counts{pending.length > 0 ? ` (${pending.length})` : ''}
+              </button>
+              <button type="button" onClick={handleZeroUncounted} disabled={submitting || summary.counted === summary.lines} className={buttonClass}>
+                Zero Uncounted
+              </button>
+            </div>
+            {pending.length > 0 && <p className="text-[10px] text-amber-500 font-bold">Save counts before approving.</p>}
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={handleCancel}
+                disabled={submitting}
+                className="flex-1 py-3 bg-white/5 border border-white/10 rounded-xl font-black text-[10px] text-rose-500 uppercase tracking-widest disabled:opacity-50"
+              >
+                Cancel Count
+              </button>
+              <button
+                type="button"
+                onClick={handleApprove}
+                disabled={submitting || pending.length > 0 || summary.counted < summary.lines}
+                className="flex-1 flex items-center justify-center gap-2 py-3 bg-[#FFD700] text-[#0a0a0a] rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+              >
+                {submitting ? <Loader2 size={14} className="animate-spin" /> : <><ClipboardCheck size={14} /> Approve</>}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={handleDownload}
+            className="w-full flex items-center justify-center gap-2 py-3 bg-[#FFD700] text-[#0a0a0a] rounded-xl font-black text-[10px] uppercase tracking-widest"
+          >
+            <FileText size={14} />
+            Export PDF
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex justify-end">
+      <div className="absolute inset-0 bg-[#0a0a0a]/80 backdrop-blur-md" onClick={() => !submitting && onClose()} />
+      <div className="relative w-full max-w-lg bg-[#0a0a0a] border-l border-white/10 h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div>
+            <h2 className="text-xl font-black text-[#FFD700] uppercase tracking-tighter flex items-center gap-2">
+              <ClipboardCheck size={20} />
+              Stocktake
+            </h2>
+            <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mt-1">Count, review variances & approve</p>
+          </div>
+          <button onClick={onClose} disabled={submitting} className="p-2 hover:bg-white/5 rounded-full transition-colors text-slate-500 hover:text-[#FFD700]">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          {error && (
+            <div className="p-4 bg-rose-500/10 border border-rose-500/20 rounded-2xl text-rose-500 text-xs font-bold">{error}</div>
+          )}
+
+          {selected ? renderSession(selected) : (
+            <>
+              <form onSubmit={handleStart} className="space-y-3">
+                <p className={labelClass}>New Count</p>
+                <p className="text-[10px] text-slate-500 font-bold">Expected quantities are frozen when the count starts. Sales made while counting are left out of the variance.</p>
+                <select value={draft.locationId} onChange={(e) => setDraft({ ...draft, locationId: e.target.value })} className={inputClass}>
+                  {activeLocations.map(l => <option key={l.id} value={l.id} className="bg-[#0a0a0a]">{l.name}</option>)}
+                </select>
+                <div className="grid grid-cols-2 gap-3">
+                  <select value={draft.categoryId} onChange={(e) => setDraft({ ...draft, categoryId: e.target.value })} className={inputClass}>
+                    <option value="" className="bg-[#0a0a0a]">All categories</option>
+                    {categories.map(c => <option key={c.id} value={c.id} className="bg-[#0a0a0a]">{c.name}</option>)}
+                  </select>
+                  <select value={draft.bin} onChange={(e) => setDraft({ ...draft, bin: e.target.value })} className={inputClass}>
+                    <option value="" className="bg-[#0a0a0a]">All bins</option>
+                    {itemBins(items).map(bin => <option key={bin} value={bin} className="bg-[#0a0a0a]">{bin}</option>)}
+                  </select>
+                </div>
+                <input value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} placeholder="Notes (optional)" className={inputClass} />
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="w-full flex items-center justify-center gap-2 py-3 bg-[#FFD700] text-[#0a0a0a] rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+                >
+                  {submitting ? <Loader2 size={14} className="animate-spin" /> : <><Plus size={14} /> Start Count</>}
+                </button>
+              </form>
+
+              {loading ? (
+                <div className="flex justify-center py-12 text-slate-500"><Loader2 size={20} className="animate-spin" /></div>
+              ) : (
+                <div className="space-y-3">
+                  <p className={labelClass}>Counts ({stocktakes.length})</p>
+                  {stocktakes.map(stocktake => {
+                    const { counted, lines: total } = stocktakeSummary(stocktake);
+                    return (
+                      <button
+                        key={stocktake.id}
+                        type="button"
+                        onClick={() => open(stocktake)}
+                        className="w-full text-left bg-white/5 rounded-2xl p-4 border border-white/5 hover:border-[#FFD700]/30 space-y-1"
+                      >
+                        <div className="flex justify-between gap-4">
+                          <div>
+                            <p className="text-sm font-bold text-white">{stocktake.stocktake_no}</p>
+                            <p className="text-[10px] font-mono text-slate-400">
+                              {locationName(locations, stocktake.location_id)} • {categoryName(stocktake.category_id)}{stocktake.bin ? ` • Bin ${stocktake.bin}` : ''}
+                            </p>
+                          </div>
+                          {statusBadge(stocktake)}
+                        </div>
+                        <p className="text-[10px] text-slate-500 font-bold uppercase tracking-tighter">
+                          Started {new Date(stocktake.started_at).toLocaleDateString()} by {stocktake.started_by} • {counted}/{total} counted
+                          {stocktake.variance_value != null && ` • ${money(Number(stocktake.variance_value))} shrinkage`}
+                        </p>
+                      </button>
+                    );
+                  })}
+                  {stocktakes.length === 0 && <p className="text-xs text-slate-500 font-bold">No counts yet.</p>}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { X, ArrowRightLeft, Loader2, Plus, Trash2, Truck } from 'lucide-react';
+import { InventoryItem, LocationStock, StockLocation, StockTransfer } from '../types';
+import { dispatchTransfer, listLocationStock, listTransfers, receiveTransfer } from '../lib/data';
+import { defaultLocation, locationName, transferValue } from '../lib/locations';
+import { cn } from '../lib/utils';
+
+interface TransfersDrawerProps {
+  items: InventoryItem[];
+  locations: StockLocation[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+interface DraftLine {
+  inventoryItemId: string;
+  quantity: number;
+}
+
+const money = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function TransfersDrawer({ items, locations, onClose, onChanged }: TransfersDrawerProps) {
+  const activeLocations = locations.filter(l => l.active);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [sourceStock, setSourceStock] = useState<LocationStock[]>([]);
+  const [fromLocationId, setFromLocationId] = useState(String(defaultLocation(locations)?.id || ''));
+  const [toLocationId, setToLocationId] = useState('');
+  const [lines, setLines] = useState<DraftLine[]>([{ inventoryItemId: '', quantity: 1 }]);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTransfers();
+  }, []);
+
+  useEffect(() => {
+    if (!fromLocationId) return;
+    listLocationStock(fromLocationId).then(({ data }) => setSourceStock(data || []));
+  }, [fromLocationId, transfers]);
+
+  async function fetchTransfers() {
+    setLoading(true);
+    const { data, error: transferError } = await listTransfers();
+    setLoading(false);
+    if (transferError) {
+      setError('Transfer Error: ' + transferError.message);
+      return;
+    }
+    setTransfers(data || []);
+  }
+
+  const itemName = (id: string) => items.find(i => String(i.id) === String(id))?.name || 'Unknown item';
+  const available = (id: string) => sourceStock.find(s => String(s.inventory_item_id) === String(id))?.quantity || 0;
+
+  // An item picked on several lines is checked against the source once, on its total.
+  const lineErrors = Array.from(new Set<string>(lines.map(l => l.inventoryItemId).filter(id => id))).flatMap(id => {
+    const requested = lines.filter(l => l.inventoryItemId === id).reduce((sum, l) => sum + l.quantity, 0);
+    return requested > available(id) ? [`Only ${available(id)} of ${itemName(id)} at the source.`] : [];
+  });
+  const filledLines = lines.filter(l => l.inventoryItemId && l.quantity > 0);
+  const canDispatch = fromLocationId && toLocationId && fromLocationId !== toLocationId && filledLines.length > 0 && lineErrors.length === 0;
+
+  const updateLine = (index: number, patch: Partial<DraftLine>) =>
+    setLines(lines.map((line, i) => i === index ? { ...line, ...patch } : line));
+
+  const handleDispatch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    const { error: dispatchError } = await dispatchTransfer({
+      fromLocationId,
+      toLocationId,
+      notes: notes.trim() || undefined,
+      lines: filledLines
+    });
+    setSubmitting(false);
+    if (dispatchError) {
+      setError('Dispatch Error: ' + dispatchError.message);
+      return;
+    }
+    setLines([{ inventoryItemId: '', quantity: 1 }]);
+    setNotes('');
+    fetchTransfers();
+    onChanged();
+  };
+
+  const handleReceive = async (transfer: StockTransfer) => {
+    setSubmitting(true);
+    setError(null);
+    const { error: receiveError } = await receiveTransfer(transfer.id);
+    setSubmitting(false);
+    if (receiveError) {
+      setError('Receive Error: ' + receiveError.message);
+      return;
+    }
+    fetchTransfers();
+    onChanged();
+  };
+
+  const inTransit = transfers.filter(t => t.status === 'in_transit');
+  const received = transfers.filter(t => t.status === 'received').slice(0, 20);
+
+  const inputClass = 'w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none font-bold text-white placeholder:text-slate-700';
+  const labelClass = 'text-[10px] font-black text-slate-500 uppercase tracking-widest';
+
+  const renderTransfer = (transfer: StockTransfer) => (
+    <div key={transfer.id} className="bg-white/5 rounded-2xl p-4 border border-white/5 space-y-2">
+      <div className="flex justify-between gap-4">
+        <div>
+          <p className="text-sm font-bold text-white">{transfer.transfer_no}</p>
+          <p className="text-[10px] font-mono text-slate-400">
+            {locationName(locations, transfer.from_location_id)} → {locationName(locations, transfer.to_location_id)}
+          </p>
+        </div>
+        <span className={cn(
+          "h-fit px-2 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest",
+          transfer.status === 'in_transit' ? "bg-amber-500/10 text-amber-500 border-amber-500/20" : "bg-emerald-500/10 text-emerald-500 border-emerald-500/20"
+        )}>
+          {transfer.status === 'in_transit' ? 'In Transit' : 'Received'}
+        </span>
+      </div>
+      <ul className="text-xs text-slate-300 space-y-1">
+        {transfer.lines.map(line => (
+          <li key={line.id}>{line.quantity} × {itemName(line.inventory_item_id)}</li>
+        ))}
+      </ul>
+      <p className="text-[10px] text-slate-500 font-bold uppercase tracking-tighter">
+        Sent {new Date(transfer.dispatched_at).toLocaleDateString()} by {transfer.dispatched_by} • {money(transferValue(transfer))} at cost
+        {transfer.received_at && ` • Received ${new Date(transfer.received_at).toLocaleDateString()} by ${transfer.received_by}`}
+      </p>
+      {transfer.notes && <p className="text-[10px] text-slate-500 italic">{transfer.notes}</p>}
+      {transfer.status === 'in_transit' && (
+        <button
+          type="button"
+          onClick={() => handleReceive(transfer)}
+          disabled={submitting}
+          className="w-full py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-slate-300 uppercase tracking-widest hover:text-[#FFD700] disabled:opacity-50"
+        >
+          Receive at {locationName(locations, transfer.to_location_id)}
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[110] flex justify-end">
+      <div className="absolute inset-0 bg-[#0a0a0a]/80 backdrop-blur-md" onClick={() => !submitting && onClose()} />
+      <div className="relative w-full max-w-lg bg-[#0a0a0a] border-l border-white/10 h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div>
+            <h2 className="text-xl font-black text-[#FFD700] uppercase tracking-tighter flex items-center gap-2">
+              <ArrowRightLeft size={20} />
+              Transfers
+            </h2>
+            <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mt-1">Dispatch, in transit & receive</p>
+          </div>
+          <button onClick={onClose} disabled={submitting} className="p-2 hover:bg-white/5 rounded-full transition-colors text-slate-500 hover:text-[#FFD700]">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          {error && (
+            <div className="p-4 bg-rose-500/10 border border-rose-500/20 rounded-2xl text-rose-500 text-xs font-bold">{error}</div>
+          )}
+
+          <form onSubmit={handleDispatch} className="space-y-3">
+            <p className={labelClass}>New Transfer</p>
+            <div className="grid grid-cols-2 gap-3">
+              <select value={fromLocationId} onChange={(e) => setFromLocationId(e.target.value)} className={inputClass}>
+                <option value="" className="bg-[#0a0a0a]">From...</option>
+                {activeLocations.map(l => <option key={l.id} value={l.id} className="bg-[#0a0a0a]">{l.name}</option>)}
+              </select>
+              <select value={toLocationId} onChange={(e) => setToLocationId(e.target.value)} className={inputClass}>
+                <option value="" className="bg-[#0a0a0a]">To...</option>
+                {activeLocations.filter(l => String(l.id) !== fromLocationId).map(l => <option key={l.id} value={l.id} className="bg-[#0a0a0a]">{l.name}</option>)}
+              </select>
+            </div>
+            {lines.map((line, index) => (
+              <div key={index} className="flex gap-3 items-center">
+                <select value={line.inventoryItemId} onChange={(e) => updateLine(index, { inventoryItemId: e.target.value })} className={inputClass}>
+                  <option value="" className="bg-[#0a0a0a]">Item...</option>
+                  {items.filter(i => available(String(i.id)) > 0).map(i => (
+                    <option key={i.id} value={i.id} className="bg-[#0a0a0a]">{i.name} ({available(String(i.id))} here)</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="1"
+                  value={line.quantity}
+                  onChange={(e) => updateLine(index, { quantity: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className={cn(inputClass, "w-24")}
+                />
+                <button
+                  type="button"
+                  onClick={() => setLines(lines.length > 1 ? lines.filter((_, i) => i !== index) : [{ inventoryItemId: '', quantity: 1 }])}
+                  className="p-2 text-slate-500 hover:text-rose-500"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setLines([...lines, { inventoryItemId: '', quantity: 1 }])}
+              className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest hover:text-[#FFD700]"
+            >
+              <Plus size={12} />
+              Add Line
+            </button>
+            <input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Notes (optional)" className={inputClass} />
+            {lineErrors.map(message => (
+              <p key={message} className="text-[10px] text-rose-500 font-bold">{message}</p>
+            ))}
+            <button
+              type="submit"
+              disabled={submitting || !canDispatch}
+              className="w-full flex items-center justify-center gap-2 py-3 bg-[#FFD700] text-[#0a0a0a] rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+            >
+              {submitting ? <Loader2 size={14} className="animate-spin" /> : <><Truck size={14} /> Dispatch</>}
+            </button>
+          </form>
+
+          {loading ? (
+            <div className="flex justify-center py-12 text-slate-500"><Loader2 size={20} className="animate-spin" /></div>
+          ) : (
+            <>
+              <div className="space-y-3">
+                <p className={labelClass}>In Transit ({inTransit.length})</p>
+                {inTransit.map(renderTransfer)}
+                {inTransit.length === 0 && <p className="text-xs text-slate-500 font-bold">Nothing on the road.</p>}
+              </div>
+              {received.length > 0 && (
+                <div className="space-y-3">
+                  <p className={labelClass}>Recently Received</p>
+                  {received.map(renderTransfer)}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
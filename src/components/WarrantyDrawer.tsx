@@ -0,0 +1,329 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, ShieldCheck, Loader2, ScanLine } from 'lucide-react';
+import { InventoryItem, SerialLookup, Supplier, WarrantyClaim, WarrantyOutcome } from '../types';
+import { createWarrantyClaim, listSuppliers, listWarrantyClaims, lookupSerial, updateWarrantyClaim } from '../lib/data';
+import {
+  isUnderWarranty,
+  normalizeSerial,
+  WARRANTY_CLAIM_STATUS_LABELS,
+  WARRANTY_CLAIM_TRANSITIONS,
+  WARRANTY_OUTCOMES,
+  warrantyOutcomeLabel
+} from '../lib/warranty';
+import { cn } from '../lib/utils';
+
+interface WarrantyDrawerProps {
+  items: InventoryItem[];
+  onClose: () => void;
+}
+
+// The claim being moved on, with what the next status needs.
+interface ClaimAction {
+  claimId: string;
+  status: 'with_supplier' | 'resolved';
+  supplierId: string;
+  rmaNo: string;
+  outcome: WarrantyOutcome;
+  outcomeNote: string;
+}
+
+const STATUS_STYLES: Record<WarrantyClaim['status'], string> = {
+  open: 'bg-amber-500/10 text-amber-500 border-amber-500/20',
+  with_supplier: 'bg-blue-500/10 text-blue-400 border-blue-500/20',
+  resolved: 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20'
+};
+
+const formatDate = (value: string | null | undefined) => (value ? new Date(value).toLocaleDateString() : '—');
+
+export default function WarrantyDrawer({ items, onClose }: WarrantyDrawerProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SerialLookup[] | null>(null);
+  const [claims, setClaims] = useState<WarrantyClaim[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [claimForm, setClaimForm] = useState<{ serialId: string; fault: string } | null>(null);
+  const [action, setAction] = useState<ClaimAction | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchClaims();
+    listSuppliers().then(({ data }) => setSuppliers(data || []));
+  }, []);
+
+  async function fetchClaims() {
+    const { data, error: claimsError } = await listWarrantyClaims();
+    if (claimsError) {
+      setError('Claims Error: ' + claimsError.message);
+      return;
+    }
+    setClaims(data || []);
+  }
+
+  const itemName = (id: string) => items.find(i => String(i.id) === String(id))?.name || 'Unknown item';
+  const supplierName = (id: string | null) => suppliers.find(s => String(s.id) === String(id))?.name || '—';
+
+  const visibleClaims = useMemo(
+    () => claims.filter(c => showResolved || c.status !== 'resolved'),
+    [claims, showResolved]
+  );
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const serial = normalizeSerial(query);
+    if (!serial) return;
+    setLoading(true);
+    setError(null);
+    setClaimForm(null);
+    const { data, error: lookupError } = await lookupSerial(serial);
+    setLoading(false);
+    if (lookupError || !data) {
+      setResults(null);
+      setError('Lookup Error: ' + (lookupError?.message || 'Unknown error'));
+      return;
+    }
+    setResults(data);
+  };
+
+  const handleOpenClaim = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!claimForm) return;
+    setSubmitting(true);
+    setError(null);
+    const { error: claimError } = await createWarrantyClaim({
+      serialId: claimForm.serialId,
+      fault: claimForm.fault.trim()
+    });
+    setSubmitting(false);
+    if (claimError) {
+      setError('Claim Error: ' + claimError.message);
+      return;
+    }
+    setClaimForm(null);
+    setResults(null);
+    setQuery('');
+    fetchClaims();
+  };
+
+  const handleAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action) return;
+    setSubmitting(true);
+    setError(null);
+    const { error: updateError } = await updateWarrantyClaim(action.claimId, action.status === 'with_supplier'
+      ? { status: 'with_supplier', supplierId: action.supplierId, rmaNo: action.rmaNo.trim() || undefined }
+      : { status: 'resolved', outcome: action.outcome, outcomeNote: action.outcomeNote.trim() || undefined });
+    setSubmitting(false);
+    if (updateError) {
+      setError('Claim Error: ' + updateError.message);
+      return;
+    }
+    setAction(null);
+    fetchClaims();
+  };
+
+  const startAction = (claim: WarrantyClaim, status: ClaimAction['status']) =>
+    setAction({ claimId: claim.id, status, supplierId: claim.supplier_id || '', rmaNo: claim.rma_no || '', outcome: 'repaired', outcomeNote: '' });
+
+  const inputClass = 'w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none font-bold text-white placeholder:text-slate-700';
+  const labelClass = 'text-[10px] font-black text-slate-500 uppercase tracking-widest';
+
+  return (
+    <div className="fixed inset-0 z-[110] flex justify-end">
+      <div className="absolute inset-0 bg-[#0a0a0a]/80 backdrop-blur-md" onClick={() => !submitting && onClose()} />
+      <div className="relative w-full max-w-lg bg-[#0a0a0a] border-l border-white/10 h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div>
+            <h2 className="text-xl font-black text-[#FFD700] uppercase tracking-tighter flex items-center gap-2">
+              <ShieldCheck size={20} />
+              Warranty
+            </h2>
+            <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mt-1">Serial lookup & supplier claims</p>
+          </div>
+          <button onClick={onClose} disabled={submitting} className="p-2 hover:bg-white/5 rounded-full transition-colors text-slate-500 hover:text-[#FFD700]">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          {error && (
+            <div className="p-4 bg-rose-500/10 border border-rose-500/20 rounded-2xl text-rose-500 text-xs font-bold">{error}</div>
+          )}
+
+          <form onSubmit={handleLookup} className="space-y-2">
+            <label className={labelClass}>Serial Number</label>
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <ScanLine size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-600" />
+                <input
+                  autoFocus
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Scan or type the serial"
+                  className={cn(inputClass, 'pl-11 font-mono')}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={loading || !query.trim()}
+                className="px-5 bg-[#FFD700] text-[#0a0a0a] rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+              >
+                {loading ? <Loader2 size={14} className="animate-spin" /> : 'Find'}
+              </button>
+            </div>
+          </form>
+
+          {results?.map(({ serial, sale, claims: serialClaims }) => {
+            const covered = isUnderWarranty(serial);
+            return (
+              <div key={serial.id} className="bg-white/5 rounded-2xl p-4 border border-white/5 space-y-3">
+                <div className="flex justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-bold text-white">{itemName(serial.inventory_item_id)}</p>
+                    <p className="text-[10px] font-mono text-slate-400">S/N {serial.serial_no}</p>
+                  </div>
+                  {serial.status === 'sold' && (
+                    <span className={cn(
+                      "h-fit px-2 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest",
+                      covered ? "bg-emerald-500/10 text-emerald-500 border-emerald-500/20" : "bg-rose-500/10 text-rose-500 border-rose-500/20"
+                    )}>
+                      {covered ? 'In Warranty' : 'Out of Warranty'}
+                    </span>
+                  )}
+                </div>
+                {serial.status === 'sold' ? (
+                  <p className="text-[10px] text-slate-500 font-bold uppercase tracking-tighter">
+                    Sold {formatDate(serial.sold_at)} • Receipt {sale?.receipt_no || serial.receipt_no || '—'} • {serial.customer_name || 'Walk-in'} • Warranty to {formatDate(serial.warranty_expires_at)}
+                  </p>
+                ) : (
+                  <p className="text-[10px] text-slate-500 font-bold uppercase tracking-tighter">In stock since {formatDate(serial.received_at)}</p>
+                )}
+                {serialClaims.length > 0 && (
+                  <p className="text-[10px] text-sky-400 font-bold uppercase tracking-tighter">
+                    Claims: {serialClaims.map(c => `${c.claim_no} (${WARRANTY_CLAIM_STATUS_LABELS[c.status]})`).join(', ')}
+                  </p>
+                )}
+                {serial.status === 'sold' && claimForm?.serialId !== String(serial.id) && (
+                  <button
+                    type="button"
+                    onClick={() => setClaimForm({ serialId: String(serial.id), fault: '' })}
+                    className="w-full py-3 border border-[#FFD700]/30 text-[#FFD700] rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-[#FFD700]/5 transition-all"
+                  >
+                    Open Claim
+                  </button>
+                )}
+                {claimForm?.serialId === String(serial.id) && (
+                  <form onSubmit={handleOpenClaim} className="space-y-3">
+                    {!covered && (
+                      <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-xl text-amber-500 text-[10px] font-bold">
+                        This unit is out of warranty; the supplier may reject the claim.
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <label className={labelClass}>Fault</label>
+                      <input required value={claimForm.fault} onChange={(e) => setClaimForm({ ...claimForm, fault: e.target.value })} placeholder="What the customer reports" className={inputClass} />
+                    </div>
+                    <div className="flex gap-2">
+                      <button type="button" onClick={() => setClaimForm(null)} className="flex-1 py-3 border border-white/10 text-white rounded-xl font-black text-[10px] uppercase tracking-widest">
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={submitting || !claimForm.fault.trim()}
+                        className="flex-1 py-3 bg-[#FFD700] text-[#0a0a0a] rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+                      >
+                        {submitting ? <Loader2 size={14} className="animate-spin mx-auto" /> : 'Open Claim'}
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className={labelClass}>Claims</h3>
+              <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer">
+                <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+                Show Resolved
+              </label>
+            </div>
+            {visibleClaims.map(claim => (
+              <div key={claim.id} className="bg-white/5 rounded-2xl p-4 border border-white/5 space-y-2">
+                <div className="flex justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-bold text-white">{claim.claim_no} • {itemName(claim.inventory_item_id)}</p>
+                    <p className="text-[10px] font-mono text-slate-400">S/N {claim.serial_no} • {claim.customer_name || 'Walk-in'}</p>
+                  </div>
+                  <span className={cn("h-fit px-2 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest", STATUS_STYLES[claim.status])}>
+                    {WARRANTY_CLAIM_STATUS_LABELS[claim.status]}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-300">{claim.fault}</p>
+                <p className="text-[10px] text-slate-500 font-bold uppercase tracking-tighter">
+                  Opened {formatDate(claim.created_at)} by {claim.reported_by}
+                  {claim.supplier_id && ` • ${supplierName(claim.supplier_id)}`}
+                  {claim.rma_no && ` • RMA ${claim.rma_no}`}
+                </p>
+                {claim.outcome && (
+                  <p className="text-[10px] text-emerald-500 font-bold uppercase tracking-tighter">
+                    {warrantyOutcomeLabel(claim.outcome)} {formatDate(claim.resolved_at)}{claim.outcome_note ? ` • ${claim.outcome_note}` : ''}
+                  </p>
+                )}
+
+                {action?.claimId === claim.id ? (
+                  <form onSubmit={handleAction} className="space-y-3 pt-2">
+                    {action.status === 'with_supplier' ? (
+                      <div className="grid grid-cols-2 gap-3">
+                        <select required value={action.supplierId} onChange={(e) => setAction({ ...action, supplierId: e.target.value })} className={inputClass}>
+                          <option value="" disabled>Supplier...</option>
+                          {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </select>
+                        <input value={action.rmaNo} onChange={(e) => setAction({ ...action, rmaNo: e.target.value })} placeholder="RMA number" className={inputClass} />
+                      </div>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-3">
+                        <select value={action.outcome} onChange={(e) => setAction({ ...action, outcome: e.target.value as WarrantyOutcome })} className={inputClass}>
+                          {WARRANTY_OUTCOMES.map(o => <option key={o.code} value={o.code}>{o.label}</option>)}
+                        </select>
+                        <input value={action.outcomeNote} onChange={(e) => setAction({ ...action, outcomeNote: e.target.value })} placeholder="Note" className={inputClass} />
+                      </div>
+                    )}
+                    <div className="flex gap-2">
+                      <button type="button" onClick={() => setAction(null)} className="flex-1 py-3 border border-white/10 text-white rounded-xl font-black text-[10px] uppercase tracking-widest">
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={submitting || (action.status === 'with_supplier' && !action.supplierId)}
+                        className="flex-1 py-3 bg-[#FFD700] text-[#0a0a0a] rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+                      >
+                        {submitting ? <Loader2 size={14} className="animate-spin mx-auto" /> : 'Save'}
+                      </button>
+                    </div>
+                  </form>
+                ) : claim.status !== 'resolved' && (
+                  <div className="flex gap-2 pt-2">
+                    {WARRANTY_CLAIM_TRANSITIONS.with_supplier.includes(claim.status) && (
+                      <button type="button" onClick={() => startAction(claim, 'with_supplier')} className="flex-1 py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-slate-300 uppercase tracking-widest hover:text-[#FFD700]">
+                        Send to Supplier
+                      </button>
+                    )}
+                    <button type="button" onClick={() => startAction(claim, 'resolved')} className="flex-1 py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black text-slate-300 uppercase tracking-widest hover:text-[#FFD700]">
+                      Resolve
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+            {visibleClaims.length === 0 && (
+              <p className="text-xs text-slate-500 font-bold">No {showResolved ? '' : 'open '}warranty claims.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
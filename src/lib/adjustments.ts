@@ -0,0 +1,96 @@
+import { AdjustmentReasonCode, LedgerAdjustmentResult, LedgerEntry } from '../types';
+
+export const ADJUSTMENT_REASONS: { code: AdjustmentReasonCode; label: string }[] = [
+  { code: 'CUSTOMER_RETURN', label: 'Customer Return' },
+  { code: 'PRICING_ERROR', label: 'Pricing Error' },
+  { code: 'KEYING_ERROR', label: 'Keying / Data Entry Error' },
+  { code: 'DUPLICATE_ENTRY', label: 'Duplicate Entry' },
+  { code: 'DAMAGED_GOODS', label: 'Damaged Goods' },
+  { code: 'MANAGER_VOID', label: 'Manager Void' },
+  { code: 'OTHER', label: 'Other (see note)' }
+];
+
+export const reasonLabel = (code?: string | null) =>
+  ADJUSTMENT_REASONS.find(r => r.code === code)?.label || code || 'Unspecified';
+
+// The server records the signed-in user as having made the adjustment.
+export interface AdjustmentRequest {
+  reasonCode: AdjustmentReasonCode;
+  note: string;
+}
+
+export interface AdjustedEntry {
+  entry: LedgerEntry;
+  reversal: LedgerEntry | null;
+  corrections: LedgerEntry[];
+  returns: LedgerEntry[]; // Given back by customer returns at the till
+  net: number;
+}
+
+const safeNum = (val: any) => {
+  const n = parseFloat(String(val || 0));
+  return isNaN(n) ? 0 : n;
+};
+
+// Folds compensating rows onto the originals they adjust. Adjustment rows whose original is
+// not in `entries` are returned as originals so nothing silently disappears from a view.
+export function foldAdjustments(entries: LedgerEntry[]): AdjustedEntry[] {
+  const byId = new Map<string, AdjustedEntry>();
+  entries.forEach(entry => {
+    if (!entry.adjusts_id) {
+      byId.set(String(entry.id), { entry, reversal: null, corrections: [], returns: [], net: safeNum(entry.amount) });
+    }
+  });
+
+  const orphans: AdjustedEntry[] = [];
+  entries.forEach(entry => {
+    if (!entry.adjusts_id) return;
+    const original = byId.get(String(entry.adjusts_id));
+    if (!original) {
+      orphans.push({ entry, reversal: null, corrections: [], returns: [], net: safeNum(entry.amount) });
+      return;
+    }
+    if (entry.adjustment_kind === 'reversal') {
+      original.reversal = entry;
+    } else if (entry.adjustment_kind === 'return') {
+      original.returns.push(entry);
+    } else {
+      original.corrections.push(entry);
+    }
+    original.net += safeNum(entry.amount);
+  });
+
+  return [...byId.values(), ...orphans];
+}
+
+async function postAdjustment(path: string, body: Record<string, unknown>): Promise<LedgerAdjustmentResult> {
+  // Loaded here rather than at the top: the server imports the reason list from this module and
+  // must not pull in the browser Supabase client.
+  const { authHeaders } = await import('./data');
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify(body)
+  });
+
+  let result: LedgerAdjustmentResult;
+  try {
+    result = await response.json();
+  } catch {
+    throw new Error(`Adjustment server responded with HTTP ${response.status}`);
+  }
+  if (!result?.status) throw new Error((result as any)?.error || `Adjustment server responded with HTTP ${response.status}`);
+  if (result.status === 'error') throw new Error(result.message);
+  if (result.status === 'invalid') throw new Error(result.errors.join(' '));
+  if (result.status === 'not_found') throw new Error('Ledger entry no longer exists.');
+  if (result.status === 'already_reversed') throw new Error('This entry has already been reversed.');
+  return result;
+}
+
+export function reverseLedgerEntries(target: { entryIds?: string[]; saleId?: string }, request: AdjustmentRequest) {
+  return postAdjustment('/api/ledger/reversals', { ...target, ...request });
+}
+
+export function correctLedgerAmount(entryId: string, amount: number, request: AdjustmentRequest) {
+  return postAdjustment('/api/ledger/corrections', { entryId, amount, ...request });
+}
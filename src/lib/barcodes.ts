@@ -0,0 +1,156 @@
+import { InventoryItem } from '../types';
+
+export type BarcodeSymbology = 'ean13' | 'code128';
+
+export const BARCODE_SYMBOLOGIES: { code: BarcodeSymbology; label: string }[] = [
+  { code: 'ean13', label: 'EAN-13' },
+  { code: 'code128', label: 'Code 128' }
+];
+
+export const isBarcodeSymbology = (val: unknown): val is BarcodeSymbology =>
+  BARCODE_SYMBOLOGIES.some(s => s.code === val);
+
+// EAN prefixes 200-299 are reserved for numbers a store assigns itself, so generated codes can
+// never collide with a manufacturer's barcode.
+export const IN_STORE_EAN_PREFIX = '200';
+export const CODE128_PREFIX = 'SKU-';
+
+// Bar and space widths for Code 128 values 0-106, each starting with a bar. 106 is the stop.
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = 106;
+
+// EAN digit encodings: L is odd parity, G is L reversed and inverted, R is L inverted.
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_G = EAN_L.map(bits => [...bits].reverse().map(bit => (bit === '1' ? '0' : '1')).join(''));
+const EAN_R = EAN_L.map(bits => [...bits].map(bit => (bit === '1' ? '0' : '1')).join(''));
+// The first digit is not drawn; it picks the L/G mix of the left half.
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'GLLGGL', 'GGLLGL', 'GGGLLL', 'GLGLGL', 'GLGGLG', 'GGLGLG'];
+
+export function ean13CheckDigit(first12: string): number {
+  const sum = [...first12].reduce((acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidEan13(code: string): boolean {
+  return /^\d{13}$/.test(code) && ean13CheckDigit(code.slice(0, 12)) === Number(code[12]);
+}
+
+// Printable ASCII, which Code 128 set B covers.
+export const isCode128Encodable = (code: string) => code.length > 0 && /^[\x20-\x7E]+$/.test(code);
+
+// A barcode as a row of modules, '1' for bar and '0' for space, without the quiet zones.
+export function encodeEan13(code: string): string {
+  if (!isValidEan13(code)) throw new Error(`${code} is not a valid EAN-13`);
+  const digits = [...code].map(Number);
+  const parity = EAN_PARITY[digits[0]];
+  const left = digits.slice(1, 7).map((digit, index) => (parity[index] === 'L' ? EAN_L : EAN_G)[digit]).join('');
+  const right = digits.slice(7).map(digit => EAN_R[digit]).join('');
+  return `101${left}01010${right}101`;
+}
+
+// Set C packs digit pairs, so all-digit codes of even length use it; everything else uses set B.
+export function encodeCode128(code: string): string {
+  if (!isCode128Encodable(code)) throw new Error(`${code} cannot be encoded as Code 128`);
+  const values = /^(\d\d)+$/.test(code)
+    ? [CODE128_START_C, ...(code.match(/\d\d/g) || []).map(Number)]
+    : [CODE128_START_B, ...[...code].map(char => char.charCodeAt(0) - 32)];
+  const checksum = values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) % 103;
+  return [...values, checksum, CODE128_STOP]
+    .map(value => [...CODE128_PATTERNS[value]].map((width, index) => (index % 2 === 0 ? '1' : '0').repeat(Number(width))).join(''))
+    .join('');
+}
+
+// Valid EAN-13 codes print as EAN-13; any other code falls back to Code 128.
+export function barcodeSymbologyFor(code: string): BarcodeSymbology | null {
+  if (isValidEan13(code)) return 'ean13';
+  return isCode128Encodable(code) ? 'code128' : null;
+}
+
+export function encodeBarcode(code: string, symbology: BarcodeSymbology): string {
+  return symbology === 'ean13' ? encodeEan13(code) : encodeCode128(code);
+}
+
+// The next free in-store code after the highest one already issued in that scheme.
+export function nextItemCode(symbology: BarcodeSymbology, existingCodes: string[]): string {
+  if (symbology === 'ean13') {
+    const issued = existingCodes
+      .filter(code => isValidEan13(code) && code.startsWith(IN_STORE_EAN_PREFIX))
+      .map(code => Number(code.slice(IN_STORE_EAN_PREFIX.length, 12)));
+    const body = `${IN_STORE_EAN_PREFIX}${String(Math.max(0, ...issued) + 1).padStart(12 - IN_STORE_EAN_PREFIX.length, '0')}`;
+    if (body.length > 12) throw new Error('The in-store EAN-13 range is exhausted');
+    return `${body}${ean13CheckDigit(body)}`;
+  }
+  const pattern = new RegExp(`^${CODE128_PREFIX}(\\d+)$`, 'i');
+  const issued = existingCodes.map(code => pattern.exec(code)).filter(Boolean).map(match => Number(match![1]));
+  return `${CODE128_PREFIX}${String(Math.max(0, ...issued) + 1).padStart(6, '0')}`;
+}
+
+// Codes for every item in `items`, continuing from whatever is already issued in `existingCodes`.
+export function generateItemCodes(symbology: BarcodeSymbology, items: InventoryItem[], existingCodes: string[]): Record<string, string> {
+  const issued = [...existingCodes];
+  const codes: Record<string, string> = {};
+  for (const item of items) {
+    const code = nextItemCode(symbology, issued);
+    issued.push(code);
+    codes[item.id] = code;
+  }
+  return codes;
+}
+
+// "3*CODE" scans or types three of CODE; anything else is one of it.
+export function parseScanInput(raw: string): { quantity: number; code: string } {
+  const text = raw.trim();
+  const match = /^(\d{1,4})\s*\*\s*(.+)$/.exec(text);
+  if (!match || Number(match[1]) <= 0) return { quantity: 1, code: text };
+  return { quantity: Number(match[1]), code: match[2].trim() };
+}
+
+export function findItemByCode(items: InventoryItem[], code: string): InventoryItem | undefined {
+  const wanted = code.trim().toLowerCase();
+  if (!wanted) return undefined;
+  return items.find(item => String(item.code || '').trim().toLowerCase() === wanted);
+}
+
+// Keyboard-wedge scanners type a whole code within a few milliseconds per key and finish with
+// Enter; people cannot. `push` returns the scanned text when Enter closes a fast enough burst.
+export function createScanDetector({ maxGapMs = 35, minLength = 4 }: { maxGapMs?: number; minLength?: number } = {}) {
+  let buffer = '';
+  let lastAt = 0;
+  return {
+    push(key: string, at: number): string | null {
+      // Scanners press Shift for capitals like any keyboard.
+      if (key === 'Shift') return null;
+      const fast = at - lastAt <= maxGapMs;
+      lastAt = at;
+      if (key === 'Enter') {
+        const scanned = fast && buffer.length >= minLength ? buffer : null;
+        buffer = '';
+        return scanned;
+      }
+      if (key.length !== 1) {
+        buffer = '';
+        return null;
+      }
+      buffer = fast ? buffer + key : key;
+      return null;
+    },
+    reset() {
+      buffer = '';
+    }
+  };
+}
@@ -0,0 +1,65 @@
+import { InventoryItem, StockBatch } from '../types';
+
+// Lots expiring within this many days are flagged at the till and on the expiry report.
+export const NEAR_EXPIRY_DAYS = 30;
+
+export type ExpiryState = 'expired' | 'near_expiry' | 'ok';
+
+export const EXPIRY_STATE_LABELS: Record<ExpiryState, string> = {
+  expired: 'Expired',
+  near_expiry: 'Near Expiry',
+  ok: 'In Date'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isBatchTracked = (item: Pick<InventoryItem, 'batch_tracked'>) => Boolean(item.batch_tracked);
+
+export const isIsoDate = (val: unknown): val is string =>
+  typeof val === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(val) && !isNaN(Date.parse(val));
+
+// Whole days from `at` (UTC day) to the expiry date; 0 on the expiry day itself, negative once past.
+export function daysToExpiry(expiryDate: string, at: Date | string = new Date()) {
+  const today = Date.parse(new Date(at).toISOString().slice(0, 10));
+  return Math.round((Date.parse(expiryDate) - today) / DAY_MS);
+}
+
+export function expiryState(batch: Pick<StockBatch, 'expiry_date'>, at: Date | string = new Date()): ExpiryState {
+  const days = daysToExpiry(batch.expiry_date, at);
+  if (days < 0) return 'expired';
+  return days <= NEAR_EXPIRY_DAYS ? 'near_expiry' : 'ok';
+}
+
+// First expiry, first out: the lots a sale of `quantity` takes from, soonest expiry first. Units
+// beyond the lots on record come from stock that pre-dates batch tracking.
+export function fefoAllocation(batches: StockBatch[], itemId: string, quantity: number): { batch: StockBatch; quantity: number }[] {
+  const open = batches
+    .filter(b => String(b.inventory_item_id) === String(itemId) && b.status === 'available' && b.quantity_remaining > 0)
+    .sort((a, b) => a.expiry_date.localeCompare(b.expiry_date) || a.received_at.localeCompare(b.received_at));
+  const takes: { batch: StockBatch; quantity: number }[] = [];
+  let remaining = quantity;
+  for (const batch of open) {
+    if (remaining <= 0) break;
+    const take = Math.min(remaining, batch.quantity_remaining);
+    takes.push({ batch, quantity: take });
+    remaining -= take;
+  }
+  return takes;
+}
+
+export function validateBatchReceipt(batchNo: unknown, expiryDate: unknown): string[] {
+  const errors: string[] = [];
+  if (typeof batchNo !== 'string' || !batchNo.trim()) errors.push('needs a batch number.');
+  if (!isIsoDate(expiryDate)) errors.push('needs an expiry date (YYYY-MM-DD).');
+  return errors;
+}
+
+export const formatExpiry = (expiryDate: string) =>
+  new Date(`${expiryDate}T00:00:00`).toLocaleDateString();
+
+export function expiryNote(batch: Pick<StockBatch, 'batch_no' | 'expiry_date'>, at: Date | string = new Date()) {
+  const days = daysToExpiry(batch.expiry_date, at);
+  if (days < 0) return `Batch ${batch.batch_no} expired ${formatExpiry(batch.expiry_date)}`;
+  if (days === 0) return `Batch ${batch.batch_no} expires today`;
+  return `Batch ${batch.batch_no} expires in ${days} day${days === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,120 @@
+import { BrandingProfile, PdfScheme, ReceiptLogoRaster } from '../types';
+
+export const DEFAULT_BRANDING: BrandingProfile = {
+  business_name: 'RetailOS Vault',
+  logo: null,
+  logo_raster: null,
+  address: null,
+  phone: null,
+  email: null,
+  tin: null,
+  vrn: null,
+  receipt_footer: 'Thank you for your business!',
+  accent_color: '#FFD700',
+  pdf_scheme: 'dark'
+};
+
+export const PDF_SCHEMES: { code: PdfScheme; label: string }[] = [
+  { code: 'dark', label: 'Vault Dark' },
+  { code: 'light', label: 'Print Light' }
+];
+
+// Thermal logos are dithered to the 58mm printable width so they print on either paper.
+export const RECEIPT_LOGO_DOTS = 384;
+
+export const isHexColor = (val: unknown): val is string =>
+  typeof val === 'string' && /^#[0-9a-f]{6}$/i.test(val);
+
+export const isPdfScheme = (val: unknown): val is PdfScheme =>
+  PDF_SCHEMES.some(s => s.code === val);
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const value = isHexColor(hex) ? hex : DEFAULT_BRANDING.accent_color;
+  return [1, 3, 5].map(i => parseInt(value.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+// Black or white, whichever reads better on the given colour.
+export const contrastRgb = ([r, g, b]: [number, number, number]): [number, number, number] =>
+  (r * 299 + g * 587 + b * 114) / 1000 > 140 ? [10, 10, 10] : [255, 255, 255];
+
+const TIN_VRN = (branding: Pick<BrandingProfile, 'tin' | 'vrn'>) =>
+  [branding.tin ? `TIN: ${branding.tin}` : '', branding.vrn ? `VRN: ${branding.vrn}` : ''].filter(Boolean).join('  ');
+
+// Address, phone / email and TIN / VRN, one line each, skipping what is not set.
+export function brandingContactLines(branding: BrandingProfile): string[] {
+  return [
+    branding.address || '',
+    [branding.phone, branding.email].filter(Boolean).join('  '),
+    TIN_VRN(branding)
+  ].filter(Boolean);
+}
+
+// Fills what the profile leaves blank from the defaults. Once saved, a blank footer stays blank.
+export function withBrandingDefaults(branding: Partial<BrandingProfile> | null | undefined): BrandingProfile {
+  const set = Object.fromEntries(Object.entries(branding || {}).filter(([, value]) => value !== undefined && value !== null && value !== ''));
+  return { ...DEFAULT_BRANDING, ...(branding?.updated_at ? { receipt_footer: null } : {}), ...set };
+}
+
+const BRANDING_CACHE_KEY = 'retailos_branding';
+
+// The last profile fetched, so an offline till still prints with the business's details.
+export function loadCachedBranding(): BrandingProfile {
+  try {
+    return withBrandingDefaults(JSON.parse(localStorage.getItem(BRANDING_CACHE_KEY) || 'null'));
+  } catch {
+    return DEFAULT_BRANDING;
+  }
+}
+
+export const cacheBranding = (branding: BrandingProfile) =>
+  localStorage.setItem(BRANDING_CACHE_KEY, JSON.stringify(branding));
+
+// Scales the logo to the receipt width and dithers it (Floyd-Steinberg) to the 1-bit raster the
+// thermal printer takes. Transparent pixels print as paper. Browser only.
+export function rasterizeLogo(dataUrl: string, maxWidth = RECEIPT_LOGO_DOTS): Promise<ReceiptLogoRaster> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onerror = () => reject(new Error('The logo could not be read as an image.'));
+    image.onload = () => {
+      const width = Math.min(maxWidth, image.naturalWidth) & ~7 || 8;
+      const height = Math.max(1, Math.round(image.naturalHeight * width / image.naturalWidth));
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available in this browser.'));
+        return;
+      }
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+      context.drawImage(image, 0, 0, width, height);
+      const { data } = context.getImageData(0, 0, width, height);
+
+      const gray = new Float32Array(width * height);
+      for (let i = 0; i < gray.length; i++) {
+        gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+      }
+      const bytesPerRow = width / 8;
+      const bits = new Uint8Array(bytesPerRow * height);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const i = y * width + x;
+          const black = gray[i] < 128;
+          const error = gray[i] - (black ? 0 : 255);
+          if (black) bits[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+          if (x + 1 < width) gray[i + 1] += error * 7 / 16;
+          if (y + 1 < height) {
+            if (x > 0) gray[i + width - 1] += error * 3 / 16;
+            gray[i + width] += error * 5 / 16;
+            if (x + 1 < width) gray[i + width + 1] += error / 16;
+          }
+        }
+      }
+      let binary = '';
+      bits.forEach(byte => { binary += String.fromCharCode(byte); });
+      resolve({ width, height, data: btoa(binary) });
+    };
+    image.src = dataUrl;
+  });
+}
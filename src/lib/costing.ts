@@ -0,0 +1,67 @@
+import { CostingMethod, InventoryCostLayer, LedgerEntry } from '../types';
+
+export const COSTING_METHODS: { code: CostingMethod; label: string }[] = [
+  { code: 'weighted_average', label: 'Weighted Average' },
+  { code: 'fifo', label: 'FIFO' },
+  { code: 'last_cost', label: 'Last Purchase Cost' }
+];
+
+export const costingMethodLabel = (code?: string | null) =>
+  COSTING_METHODS.find(m => m.code === code)?.label || code || 'Unknown';
+
+export const isCostingMethod = (val: unknown): val is CostingMethod =>
+  COSTING_METHODS.some(m => m.code === val);
+
+const safeNum = (val: any) => {
+  const n = parseFloat(String(val || 0));
+  return isNaN(n) ? 0 : n;
+};
+
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+
+// The helpers below are kept in step with record_stock_movement in Postgres.
+
+// Unit cost after `quantity` units at `unitCost` join `onHand` units carried at `currentCost`.
+export function weightedAverageCost(onHand: number, currentCost: number, quantity: number, unitCost: number) {
+  if (onHand <= 0) return round4(unitCost);
+  return round4((onHand * currentCost + quantity * unitCost) / (onHand + quantity));
+}
+
+// Takes `quantity` units from the oldest open layers. Units beyond what the layers hold are
+// costed at `fallbackCost` (the item's cost_price), so a short journal never costs a sale at zero.
+export function consumeCostLayers(layers: Pick<InventoryCostLayer, 'id' | 'unit_cost' | 'quantity_remaining'>[], quantity: number, fallbackCost: number) {
+  const takes: { id: string; quantity: number }[] = [];
+  let remaining = quantity;
+  let cost = 0;
+  for (const layer of layers) {
+    if (remaining <= 0) break;
+    const take = Math.min(remaining, safeNum(layer.quantity_remaining));
+    if (take <= 0) continue;
+    takes.push({ id: layer.id, quantity: take });
+    cost += take * safeNum(layer.unit_cost);
+    remaining -= take;
+  }
+  cost += remaining * fallbackCost;
+  return { takes, unitCost: quantity > 0 ? round4(cost / quantity) : 0 };
+}
+
+// Per-unit value of the open layers, or null when none are left.
+export function layeredUnitCost(layers: Pick<InventoryCostLayer, 'unit_cost' | 'quantity_remaining'>[]) {
+  const quantity = layers.reduce((sum, l) => sum + safeNum(l.quantity_remaining), 0);
+  if (quantity <= 0) return null;
+  return round4(layers.reduce((sum, l) => sum + safeNum(l.quantity_remaining) * safeNum(l.unit_cost), 0) / quantity);
+}
+
+// Cost of goods on a sale ledger row, from the unit cost captured when it was posted. Reversals
+// carry a negative quantity and so give the cost back; amount corrections move no goods.
+export function saleLineCost(entry: Pick<LedgerEntry, 'transaction_type' | 'quantity' | 'unit_cost' | 'adjustment_kind'>) {
+  if (entry.transaction_type !== 'sale' || entry.adjustment_kind === 'correction') return 0;
+  return safeNum(entry.quantity) * safeNum(entry.unit_cost);
+}
+
+export const costOfGoodsSold = (entries: LedgerEntry[]) =>
+  entries.reduce((sum, entry) => sum + saleLineCost(entry), 0);
+
+// Sale rows with no captured cost (posted for items that no longer existed when costs were backfilled).
+export const uncostedSaleLines = (entries: LedgerEntry[]) =>
+  entries.filter(e => e.transaction_type === 'sale' && e.adjustment_kind !== 'correction' && e.quantity != null && e.unit_cost == null);
@@ -0,0 +1,89 @@
+import { AgingBucket, Customer, CustomerAging, CustomerTransaction, QueuedSale } from '../types';
+import { saleTenders, tenderTotal } from './sales';
+
+export const WALK_IN_CUSTOMER = 'Walk-in Customer';
+
+// Customers the POS cached as bare { id, name } entries before accounts existed, waiting to be
+// registered as accounts.
+export const LEGACY_CUSTOMERS_KEY = 'retailos_legacy_customers';
+
+// Seeded by the old POS for demonstration; never real customers.
+const LEGACY_DEMO_CUSTOMERS = ['John Doe (VIP)', 'Jane Smith (Retail)'];
+
+export const CUSTOMER_PAYMENT_METHODS = ['Cash', 'Card', 'Bank Transfer', 'Mobile Money', 'Cheque'];
+
+// Days since the charge, as on a standard receivables aging.
+export const AGING_BUCKETS: { code: AgingBucket; label: string; maxDays: number }[] = [
+  { code: 'current', label: 'Current (0-30)', maxDays: 30 },
+  { code: 'days_31_60', label: '31-60 Days', maxDays: 60 },
+  { code: 'days_61_90', label: '61-90 Days', maxDays: 90 },
+  { code: 'days_over_90', label: '90+ Days', maxDays: Infinity }
+];
+
+const safeNum = (val: any) => {
+  const n = parseFloat(String(val || 0));
+  return isNaN(n) ? 0 : n;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function agingBucketFor(chargedAt: string, asOf: Date): AgingBucket {
+  const days = Math.max(0, Math.floor((asOf.getTime() - new Date(chargedAt).getTime()) / DAY_MS));
+  return (AGING_BUCKETS.find(b => days <= b.maxDays) || AGING_BUCKETS[AGING_BUCKETS.length - 1]).code;
+}
+
+// Open charges per customer, bucketed by age. Customers with nothing outstanding are left out.
+export function buildAgingReport(customers: Customer[], openCharges: CustomerTransaction[], asOf = new Date()): CustomerAging[] {
+  return customers
+    .map(customer => {
+      const buckets: Record<AgingBucket, number> = { current: 0, days_31_60: 0, days_61_90: 0, days_over_90: 0 };
+      openCharges
+        .filter(c => c.customer_id === customer.id && safeNum(c.outstanding) > 0)
+        .forEach(c => {
+          const bucket = agingBucketFor(c.created_at, asOf);
+          buckets[bucket] = round2(buckets[bucket] + safeNum(c.outstanding));
+        });
+      const total = round2(Object.values(buckets).reduce((sum, v) => sum + v, 0));
+      return { customer_id: customer.id, customer_name: customer.name, credit_limit: safeNum(customer.credit_limit), buckets, total };
+    })
+    .filter(row => row.total > 0)
+    .sort((a, b) => b.total - a.total);
+}
+
+// Pays off the oldest open charges first. Kept in step with receive_customer_payment in Postgres.
+export function allocatePayment(openCharges: Pick<CustomerTransaction, 'id' | 'outstanding'>[], amount: number) {
+  const allocations: { id: string; amount: number }[] = [];
+  let remaining = amount;
+  for (const charge of openCharges) {
+    if (remaining <= 0) break;
+    const applied = round2(Math.min(remaining, safeNum(charge.outstanding)));
+    if (applied <= 0) continue;
+    allocations.push({ id: charge.id, amount: applied });
+    remaining = round2(remaining - applied);
+  }
+  return allocations;
+}
+
+// Names from the legacy cache that still need an account, once each.
+export function legacyCustomerNames(cached: unknown[], existing: Pick<Customer, 'name'>[]) {
+  const taken = new Set(existing.map(c => String(c.name || '').trim().toLowerCase()));
+  const names: string[] = [];
+  cached.forEach((entry: any) => {
+    const name = String(entry?.name || '').trim();
+    if (!name || name === WALK_IN_CUSTOMER || LEGACY_DEMO_CUSTOMERS.includes(name) || taken.has(name.toLowerCase())) return;
+    taken.add(name.toLowerCase());
+    names.push(name);
+  });
+  return names;
+}
+
+// On-account tenders rung up on this terminal that the server has not charged to the account yet.
+export const pendingCreditTotal = (queue: QueuedSale[], customerId: string) =>
+  queue
+    .filter(sale => sale.customerId === customerId)
+    .reduce((sum, sale) => sum + tenderTotal(saleTenders(sale), 'Credit'), 0);
+
+export const availableCredit = (customer: Pick<Customer, 'credit_limit' | 'balance'>, pending = 0) =>
+  round2(safeNum(customer.credit_limit) - safeNum(customer.balance) - pending);
@@ -0,0 +1,370 @@
+import { isConfigured as isSupabaseConfigured, supabase } from './supabase';
+import {
+  BatchFilter,
+  BatchQuarantineRequest,
+  BrandingProfile,
+  BrandingRequest,
+  BusinessSummary,
+  CashShift,
+  Category,
+  CostingMethod,
+  Customer,
+  CustomerAging,
+  CustomerPaymentRequest,
+  CustomerTransaction,
+  DrawerMovement,
+  DrawerMovementKind,
+  FitmentCatalogue,
+  FitmentImportResult,
+  FitmentImportRow,
+  GoodsReceiptRequest,
+  GoodsReceivedNote,
+  InventoryItem,
+  InventoryMovement,
+  LocationStock,
+  ItemFitmentRequest,
+  LedgerEntry,
+  MobileMoneyProvider,
+  MobileMoneyRequest,
+  PurchaseOrder,
+  Quote,
+  QuoteRequest,
+  ReceiptLine,
+  ReturnLookup,
+  Sale,
+  SaleReturn,
+  SaleReturnRequest,
+  SerialFilter,
+  SerialLookup,
+  SerialNumber,
+  ShiftCloseRequest,
+  ShiftReport,
+  StockLocation,
+  StockLocationKind,
+  StockBatch,
+  StockTransfer,
+  StockTransferRequest,
+  StockTransferStatus,
+  Stocktake,
+  StocktakeCountRequest,
+  StocktakeRequest,
+  StocktakeStatus,
+  Supplier,
+  TerminalLocation,
+  WarrantyClaim,
+  WarrantyClaimRequest,
+  WarrantyClaimUpdate
+} from '../types';
+import { StockAdjustmentRequest } from './movements';
+import { BarcodeSymbology } from './barcodes';
+
+// Pages read and write through the API in server.ts, which talks to Supabase or to a
+// local SQLite file depending on DATA_BACKEND. src/lib/supabase.ts is only used for auth.
+export const dataBackend: 'supabase' | 'sqlite' = process.env.DATA_BACKEND === 'sqlite' ? 'sqlite' : 'supabase';
+
+export const isLocalBackend = dataBackend === 'sqlite';
+
+export const isConfigured = isLocalBackend || Boolean(isSupabaseConfigured);
+
+// Same shape as a supabase-js response so call sites keep their `{ data, error }` handling.
+export interface DataResult<T> {
+  data: T | null;
+  error: Error | null;
+}
+
+// SQLite installs sign in against the server with a name and LOCAL_ACCESS_PIN. The session lives
+// for the browser tab, like the Supabase one.
+export interface LocalSession {
+  token: string;
+  name: string;
+}
+
+const LOCAL_SESSION_KEY = 'retailos_local_session';
+
+export const LOCAL_SIGNED_OUT_EVENT = 'retailos:local-signed-out';
+
+export function loadLocalSession(): LocalSession | null {
+  try {
+    return JSON.parse(sessionStorage.getItem(LOCAL_SESSION_KEY) || 'null');
+  } catch {
+    return null;
+  }
+}
+
+export function signOutLocal() {
+  sessionStorage.removeItem(LOCAL_SESSION_KEY);
+  window.dispatchEvent(new Event(LOCAL_SIGNED_OUT_EVENT));
+}
+
+// The API serves signed-in users only; every call carries the session's access token.
+export async function authHeaders(): Promise<Record<string, string>> {
+  const token = isLocalBackend
+    ? loadLocalSession()?.token
+    : (await supabase.auth.getSession()).data.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<DataResult<T>> {
+  try {
+    const response = await fetch(path, {
+      ...init,
+      headers: { ...(init?.body ? { 'Content-Type': 'application/json' } : {}), ...(await authHeaders()), ...init?.headers }
+    });
+    const body = await response.json().catch(() => null);
+    // Local sessions die with the server process; send the till back to sign-in.
+    if (response.status === 401 && isLocalBackend && loadLocalSession()) signOutLocal();
+    if (!response.ok) {
+      return { data: null, error: new Error(body?.error || `Request failed with HTTP ${response.status}`) };
+    }
+    return { data: body as T, error: null };
+  } catch (err: any) {
+    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+export async function signInLocal(name: string, pin: string): Promise<DataResult<LocalSession>> {
+  const result = await request<LocalSession>('/api/auth/local', { method: 'POST', body: JSON.stringify({ name, pin }) });
+  if (result.data) sessionStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(result.data));
+  return result;
+}
+
+// Quantities on hand at `locationId`, or consolidated across locations when omitted.
+export const listInventory = (locationId?: string) =>
+  request<InventoryItem[]>(locationId ? `/api/inventory?locationId=${encodeURIComponent(locationId)}` : '/api/inventory');
+
+// The starting quantity is journalled as an opening movement by the signed-in user.
+export const createInventoryItem = (item: Partial<InventoryItem>) =>
+  request<InventoryItem>('/api/inventory', { method: 'POST', body: JSON.stringify(item) });
+
+// Include `quantity` only when it changed; the server then requires `adjustment`.
+export const updateInventoryItem = (id: string, patch: Partial<InventoryItem>, adjustment?: StockAdjustmentRequest) =>
+  request<{ id: string }>(`/api/inventory/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify({ ...patch, adjustment }) });
+
+// Gives every item with a blank code (or just `itemIds`) the next in-store code; returns item id -> code.
+export const assignItemCodes = (symbology: BarcodeSymbology, itemIds?: string[]) =>
+  request<Record<string, string>>('/api/inventory/codes', { method: 'POST', body: JSON.stringify({ symbology, itemIds }) });
+
+// The whole catalogue, or one item's fitments and part numbers when `itemId` is given.
+export const getFitmentCatalogue = (itemId?: string) =>
+  request<FitmentCatalogue>(itemId ? `/api/fitment?itemId=${encodeURIComponent(itemId)}` : '/api/fitment');
+
+// Replaces every fitment and cross reference recorded for the item.
+export const saveItemFitment = (itemId: string, body: ItemFitmentRequest) =>
+  request<FitmentCatalogue>(`/api/fitment/items/${encodeURIComponent(itemId)}`, { method: 'PUT', body: JSON.stringify(body) });
+
+export const importFitment = (rows: FitmentImportRow[]) =>
+  request<FitmentImportResult>('/api/fitment/import', { method: 'POST', body: JSON.stringify({ rows }) });
+
+export const listBatches = (filter: BatchFilter = {}) => {
+  const params = new URLSearchParams();
+  if (filter.itemId) params.set('itemId', filter.itemId);
+  if (filter.status) params.set('status', filter.status);
+  if (filter.locationId) params.set('locationId', filter.locationId);
+  const query = params.toString();
+  return request<StockBatch[]>(`/api/batches${query ? `?${query}` : ''}`);
+};
+
+// Takes the rest of the lot out of stock and writes its cost off to the item's category.
+export const quarantineBatch = (id: string, body: BatchQuarantineRequest) =>
+  request<StockBatch>(`/api/batches/${encodeURIComponent(id)}/quarantine`, { method: 'POST', body: JSON.stringify(body) });
+
+export const listLocations = () => request<StockLocation[]>('/api/locations');
+
+export const createLocation = (location: { code: string; name: string; kind: StockLocationKind }) =>
+  request<StockLocation>('/api/locations', { method: 'POST', body: JSON.stringify(location) });
+
+export const updateLocation = (id: string, patch: Partial<Pick<StockLocation, 'name' | 'kind' | 'active'>>) =>
+  request<{ id: string }>(`/api/locations/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(patch) });
+
+export const listLocationStock = (locationId?: string) =>
+  request<LocationStock[]>(locationId ? `/api/locations/stock?locationId=${encodeURIComponent(locationId)}` : '/api/locations/stock');
+
+export const listTerminalLocations = () => request<TerminalLocation[]>('/api/locations/terminals');
+
+// Sales and returns at the terminal then take and restock from `locationId`.
+export const setTerminalLocation = (terminalId: string, locationId: string) =>
+  request<TerminalLocation>(`/api/locations/terminals/${encodeURIComponent(terminalId)}`, { method: 'PUT', body: JSON.stringify({ locationId }) });
+
+export const listTransfers = (filter: { status?: StockTransferStatus } = {}) =>
+  request<StockTransfer[]>(filter.status ? `/api/locations/transfers?status=${filter.status}` : '/api/locations/transfers');
+
+// Stock leaves the source now and is in transit until the destination receives it.
+export const dispatchTransfer = (transfer: StockTransferRequest) =>
+  request<StockTransfer>('/api/locations/transfers', { method: 'POST', body: JSON.stringify(transfer) });
+
+export const receiveTransfer = (id: string) =>
+  request<StockTransfer>(`/api/locations/transfers/${encodeURIComponent(id)}/receive`, { method: 'POST' });
+
+export const listStocktakes = (filter: { status?: StocktakeStatus } = {}) =>
+  request<Stocktake[]>(filter.status ? `/api/stocktakes?status=${filter.status}` : '/api/stocktakes');
+
+// Freezes what the location holds of every active item in scope as the count sheet.
+export const startStocktake = (stocktake: StocktakeRequest) =>
+  request<Stocktake>('/api/stocktakes', { method: 'POST', body: JSON.stringify(stocktake) });
+
+export const saveStocktakeCounts = (id: string, body: StocktakeCountRequest) =>
+  request<Stocktake>(`/api/stocktakes/${encodeURIComponent(id)}/counts`, { method: 'PUT', body: JSON.stringify(body) });
+
+// Posts the variances as stocktake movements and books their cost to the ledger.
+export const approveStocktake = (id: string) =>
+  request<Stocktake>(`/api/stocktakes/${encodeURIComponent(id)}/approve`, { method: 'POST' });
+
+export const cancelStocktake = (id: string) =>
+  request<Stocktake>(`/api/stocktakes/${encodeURIComponent(id)}/cancel`, { method: 'POST' });
+
+export const listSerials = (filter: SerialFilter = {}) => {
+  const params = new URLSearchParams();
+  if (filter.itemId) params.set('itemId', filter.itemId);
+  if (filter.saleId) params.set('saleId', filter.saleId);
+  if (filter.serialNo) params.set('serial', filter.serialNo);
+  if (filter.status) params.set('status', filter.status);
+  const query = params.toString();
+  return request<SerialNumber[]>(`/api/warranty/serials${query ? `?${query}` : ''}`);
+};
+
+// Every unit carrying the serial, with the sale that took it and its warranty claims.
+export const lookupSerial = (serial: string) =>
+  request<SerialLookup[]>(`/api/warranty/lookup/${encodeURIComponent(serial)}`);
+
+export const listWarrantyClaims = () => request<WarrantyClaim[]>('/api/warranty/claims');
+
+export const createWarrantyClaim = (claim: WarrantyClaimRequest) =>
+  request<WarrantyClaim>('/api/warranty/claims', { method: 'POST', body: JSON.stringify(claim) });
+
+export const updateWarrantyClaim = (id: string, update: WarrantyClaimUpdate) =>
+  request<WarrantyClaim>(`/api/warranty/claims/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(update) });
+
+export const deleteInventoryItem = (id: string) =>
+  request<{ id: string }>(`/api/inventory/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+export const listInventoryMovements = (itemId: string) =>
+  request<InventoryMovement[]>(`/api/inventory/${encodeURIComponent(itemId)}/movements`);
+
+export const listLedger = (filter: { transactionType?: string } = {}) =>
+  request<LedgerEntry[]>(filter.transactionType
+    ? `/api/ledger?transaction_type=${encodeURIComponent(filter.transactionType)}`
+    : '/api/ledger');
+
+export const recordOutflow = (entry: Pick<LedgerEntry, 'category_id' | 'amount' | 'transaction_type' | 'fund_source' | 'description' | 'created_at'>) =>
+  request<LedgerEntry>('/api/ledger', { method: 'POST', body: JSON.stringify(entry) });
+
+export const listCategories = () => request<Category[]>('/api/categories');
+
+export const listBusinessSummaries = () => request<BusinessSummary[]>('/api/categories/summary');
+
+export const getBusinessSummary = (categoryId: string | number) =>
+  request<BusinessSummary>(`/api/categories/summary/${encodeURIComponent(String(categoryId))}`);
+
+export const listSaleHeaders = () => request<Sale[]>('/api/sales');
+
+// Signed link to the public /r/:token page; 404 until the sale has synced.
+export const getReceiptLink = (saleId: string) =>
+  request<{ token: string; url: string }>(`/api/sales/${encodeURIComponent(saleId)}/receipt-link`);
+
+export const getPurchasingSettings = () => request<{ costingMethod: CostingMethod }>('/api/purchasing/settings');
+
+export const updateCostingMethod = (costingMethod: CostingMethod) =>
+  request<{ costingMethod: CostingMethod }>('/api/purchasing/settings', { method: 'PUT', body: JSON.stringify({ costingMethod }) });
+
+export const listSuppliers = () => request<Supplier[]>('/api/purchasing/suppliers');
+
+export const createSupplier = (supplier: Partial<Supplier>) =>
+  request<Supplier>('/api/purchasing/suppliers', { method: 'POST', body: JSON.stringify(supplier) });
+
+export const updateSupplier = (id: string, patch: Partial<Supplier>) =>
+  request<{ id: string }>(`/api/purchasing/suppliers/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(patch) });
+
+export interface PurchaseOrderRequest {
+  supplierId: string;
+  status: 'draft' | 'ordered';
+  expectedDate?: string;
+  notes?: string;
+  lines: { inventoryItemId: string; quantity: number; unitCost: number }[];
+}
+
+export const listPurchaseOrders = () => request<PurchaseOrder[]>('/api/purchasing/orders');
+
+export const createPurchaseOrder = (order: PurchaseOrderRequest) =>
+  request<PurchaseOrder>('/api/purchasing/orders', { method: 'POST', body: JSON.stringify(order) });
+
+export const setPurchaseOrderStatus = (id: string, status: 'ordered' | 'cancelled') =>
+  request<{ id: string }>(`/api/purchasing/orders/${encodeURIComponent(id)}/status`, { method: 'POST', body: JSON.stringify({ status }) });
+
+export const listGoodsReceived = () => request<GoodsReceivedNote[]>('/api/purchasing/receipts');
+
+export const receiveGoods = (receipt: GoodsReceiptRequest) =>
+  request<GoodsReceivedNote>('/api/purchasing/receipts', { method: 'POST', body: JSON.stringify(receipt) });
+
+export const listCustomers = () => request<Customer[]>('/api/customers');
+
+export const createCustomer = (customer: Partial<Customer>) =>
+  request<Customer>('/api/customers', { method: 'POST', body: JSON.stringify(customer) });
+
+export const updateCustomer = (id: string, patch: Partial<Customer>) =>
+  request<{ id: string }>(`/api/customers/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(patch) });
+
+export const listCustomerTransactions = (customerId: string) =>
+  request<CustomerTransaction[]>(`/api/customers/${encodeURIComponent(customerId)}/transactions`);
+
+export const receiveCustomerPayment = (customerId: string, payment: CustomerPaymentRequest) =>
+  request<CustomerTransaction>(`/api/customers/${encodeURIComponent(customerId)}/payments`, { method: 'POST', body: JSON.stringify(payment) });
+
+export const getCustomerAging = () => request<CustomerAging[]>('/api/customers/aging');
+
+export const listShifts = (filter: { terminalId?: string; status?: 'open' | 'closed' } = {}) => {
+  const params = new URLSearchParams();
+  if (filter.terminalId) params.set('terminalId', filter.terminalId);
+  if (filter.status) params.set('status', filter.status);
+  const query = params.toString();
+  return request<CashShift[]>(`/api/shifts${query ? `?${query}` : ''}`);
+};
+
+export const openShift = (shift: { terminalId: string; openingFloat: number; notes?: string }) =>
+  request<CashShift>('/api/shifts', { method: 'POST', body: JSON.stringify(shift) });
+
+// X report while the shift is open, Z report once it is closed.
+export const getShiftReport = (shiftId: string) =>
+  request<ShiftReport>(`/api/shifts/${encodeURIComponent(shiftId)}/report`);
+
+export const recordDrawerMovement = (shiftId: string, movement: { kind: DrawerMovementKind; amount: number; reason: string }) =>
+  request<DrawerMovement>(`/api/shifts/${encodeURIComponent(shiftId)}/movements`, { method: 'POST', body: JSON.stringify(movement) });
+
+export const closeShift = (shiftId: string, close: ShiftCloseRequest) =>
+  request<ShiftReport>(`/api/shifts/${encodeURIComponent(shiftId)}/close`, { method: 'POST', body: JSON.stringify(close) });
+
+export const getMobileMoneyGateway = () => request<{ gateway: string | null }>('/api/mobile-money');
+
+// Pushes a payment prompt to the customer's phone; poll getMobileMoneyRequest for the outcome.
+export const requestMobileMoneyPayment = (payment: { provider: MobileMoneyProvider; msisdn: string; amount: number; reference: string }) =>
+  request<MobileMoneyRequest>('/api/mobile-money/requests', { method: 'POST', body: JSON.stringify(payment) });
+
+export const getMobileMoneyRequest = (id: string) =>
+  request<MobileMoneyRequest>(`/api/mobile-money/requests/${encodeURIComponent(id)}`);
+
+export const cancelMobileMoneyRequest = (id: string) =>
+  request<MobileMoneyRequest>(`/api/mobile-money/requests/${encodeURIComponent(id)}/cancel`, { method: 'POST' });
+
+export const lookupReturn = (query: string) =>
+  request<ReturnLookup>(`/api/returns/lookup?q=${encodeURIComponent(query)}`);
+
+export const postReturn = (saleReturn: SaleReturnRequest) =>
+  request<SaleReturn>('/api/returns', { method: 'POST', body: JSON.stringify(saleReturn) });
+
+export const listQuotes = () => request<Quote[]>('/api/quotes');
+
+export const createQuote = (quote: QuoteRequest) =>
+  request<Quote>('/api/quotes', { method: 'POST', body: JSON.stringify(quote) });
+
+export const closeQuote = (id: string, status: 'converted' | 'cancelled') =>
+  request<Quote>(`/api/quotes/${encodeURIComponent(id)}/status`, { method: 'POST', body: JSON.stringify({ status }) });
+
+export const getReceiptPrinter = () => request<{ printer: string | null; paperWidth: number }>('/api/printing');
+
+// Prints on the server's thermal printer with the saved branding; a sale that took cash also opens the drawer.
+export const printReceipt = (receipt: { sale: Sale; lines: ReceiptLine[] }) =>
+  request<{ printer: string; target: string; bytes: number }>('/api/printing/receipts', { method: 'POST', body: JSON.stringify(receipt) });
+
+export const getBranding = () => request<BrandingProfile>('/api/branding');
+
+export const saveBranding = (profile: BrandingRequest) =>
+  request<BrandingProfile>('/api/branding', { method: 'PUT', body: JSON.stringify(profile) });
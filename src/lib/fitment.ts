@@ -0,0 +1,201 @@
+import {
+  CrossReferenceInput,
+  FitmentImportRow,
+  FitmentInput,
+  PartCrossReference,
+  PartNumberKind,
+  VehicleFitment,
+  VehicleQuery
+} from '../types';
+
+export const PART_NUMBER_KINDS: { code: PartNumberKind; label: string }[] = [
+  { code: 'oem', label: 'OEM' },
+  { code: 'aftermarket', label: 'Aftermarket' }
+];
+
+export const isPartNumberKind = (val: unknown): val is PartNumberKind =>
+  PART_NUMBER_KINDS.some(k => k.code === val);
+
+export const partNumberKindLabel = (kind: PartNumberKind) =>
+  PART_NUMBER_KINDS.find(k => k.code === kind)?.label || kind;
+
+export const MIN_FITMENT_YEAR = 1950;
+export const MAX_FITMENT_YEAR = new Date().getFullYear() + 2;
+
+export const EMPTY_VEHICLE_QUERY: VehicleQuery = { make: '', model: '', year: '', engine: '' };
+
+export const FITMENT_CSV_COLUMNS = ['code', 'make', 'model', 'year_from', 'year_to', 'engine', 'notes', 'part_number', 'part_kind', 'brand'];
+
+const clean = (val: unknown) => String(val ?? '').trim();
+const same = (a: unknown, b: unknown) => clean(a).toLowerCase() === clean(b).toLowerCase();
+
+// Part numbers are printed with and without dashes, dots and spaces; compare only letters and digits.
+export const normalizePartNumber = (val: unknown) => clean(val).toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export function fitmentYears(fitment: Pick<VehicleFitment, 'year_from' | 'year_to'>) {
+  const { year_from: from, year_to: to } = fitment;
+  if (from && to) return from === to ? String(from) : `${from}-${to}`;
+  if (from) return `${from}-on`;
+  if (to) return `up to ${to}`;
+  return 'all years';
+}
+
+export const fitmentLabel = (fitment: FitmentInput) =>
+  [fitment.make, fitment.model, fitmentYears(fitment), fitment.engine].filter(Boolean).join(' ');
+
+export function validateFitment(fitment: Partial<FitmentInput>): string[] {
+  const errors: string[] = [];
+  if (!clean(fitment.make)) errors.push('make is required.');
+  if (!clean(fitment.model)) errors.push('model is required.');
+  for (const key of ['year_from', 'year_to'] as const) {
+    const year = fitment[key];
+    if (year != null && (!Number.isInteger(year) || year < MIN_FITMENT_YEAR || year > MAX_FITMENT_YEAR)) {
+      errors.push(`${key} must be a year between ${MIN_FITMENT_YEAR} and ${MAX_FITMENT_YEAR}.`);
+    }
+  }
+  if (fitment.year_from && fitment.year_to && fitment.year_from > fitment.year_to) {
+    errors.push('year_from must not be after year_to.');
+  }
+  return errors;
+}
+
+export function validateCrossReference(reference: Partial<CrossReferenceInput>): string[] {
+  const errors: string[] = [];
+  if (!normalizePartNumber(reference.part_number)) errors.push('part_number must contain letters or digits.');
+  if (!isPartNumberKind(reference.kind)) {
+    errors.push(`kind must be one of ${PART_NUMBER_KINDS.map(k => k.code).join(', ')}.`);
+  }
+  return errors;
+}
+
+// Identity of a fitment or cross reference, used to skip rows that are already recorded.
+export const fitmentKey = (itemId: string, fitment: FitmentInput) =>
+  [itemId, clean(fitment.make).toLowerCase(), clean(fitment.model).toLowerCase(), fitment.year_from ?? '', fitment.year_to ?? '', clean(fitment.engine).toLowerCase()].join('|');
+
+export const crossReferenceKey = (itemId: string, reference: CrossReferenceInput) =>
+  [itemId, normalizePartNumber(reference.part_number)].join('|');
+
+export function fitmentMatches(fitment: VehicleFitment, query: VehicleQuery): boolean {
+  if (query.make && !same(fitment.make, query.make)) return false;
+  if (query.model && !same(fitment.model, query.model)) return false;
+  const year = parseInt(query.year);
+  if (!isNaN(year) && ((fitment.year_from && year < fitment.year_from) || (fitment.year_to && year > fitment.year_to))) return false;
+  // A fitment without an engine fits every engine of the model.
+  if (query.engine && fitment.engine && !clean(fitment.engine).toLowerCase().includes(clean(query.engine).toLowerCase())) return false;
+  return true;
+}
+
+export const isVehicleQueryActive = (query: VehicleQuery) => Boolean(clean(query.make));
+
+// Ids of the items with at least one fitment for the vehicle.
+export function itemsFittingVehicle(fitments: VehicleFitment[], query: VehicleQuery): Set<string> {
+  return new Set(fitments.filter(f => fitmentMatches(f, query)).map(f => String(f.inventory_item_id)));
+}
+
+const sortedUnique = (values: string[]) => {
+  const byKey = new Map<string, string>();
+  values.map(clean).filter(Boolean).forEach(value => {
+    if (!byKey.has(value.toLowerCase())) byKey.set(value.toLowerCase(), value);
+  });
+  return [...byKey.values()].sort((a, b) => a.localeCompare(b));
+};
+
+export const vehicleMakes = (fitments: VehicleFitment[]) => sortedUnique(fitments.map(f => f.make));
+
+export const vehicleModels = (fitments: VehicleFitment[], make: string) =>
+  sortedUnique(fitments.filter(f => same(f.make, make)).map(f => f.model));
+
+// Items sharing any part number with `itemIds`, including those items themselves.
+export function interchangeableItemIds(references: PartCrossReference[], itemIds: Iterable<string>): Set<string> {
+  const wanted = new Set([...itemIds].map(String));
+  const numbers = new Set(references.filter(r => wanted.has(String(r.inventory_item_id))).map(r => normalizePartNumber(r.part_number)));
+  references.forEach(r => {
+    if (numbers.has(normalizePartNumber(r.part_number))) wanted.add(String(r.inventory_item_id));
+  });
+  return wanted;
+}
+
+// Items carrying a part number that contains the query, plus their interchangeable equivalents.
+export function itemsMatchingPartNumber(references: PartCrossReference[], query: string): Set<string> {
+  const wanted = normalizePartNumber(query);
+  if (wanted.length < 3) return new Set();
+  const direct = references.filter(r => normalizePartNumber(r.part_number).includes(wanted)).map(r => String(r.inventory_item_id));
+  return direct.length > 0 ? interchangeableItemIds(references, direct) : new Set();
+}
+
+// RFC 4180: comma separated, fields optionally double-quoted with "" for a literal quote.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, ''); // Excel's UTF-8 byte order mark
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+const toYear = (val: string) => (clean(val) ? Number(clean(val)) : null);
+
+// Maps a fitment CSV by its header row. Rows are numbered as a spreadsheet shows them, header
+// first; a row with a year that is not a number is reported here rather than sent.
+export function parseFitmentCsv(text: string): { rows: FitmentImportRow[]; errors: string[] } {
+  const [header, ...body] = parseCsv(text);
+  if (!header) return { rows: [], errors: ['The file is empty.'] };
+  const columns = header.map(name => clean(name).toLowerCase().replace(/\s+/g, '_'));
+  if (!columns.includes('code')) return { rows: [], errors: ['The header row must include a code column.'] };
+  const unknown = columns.filter(name => name && !FITMENT_CSV_COLUMNS.includes(name));
+  const errors = unknown.length > 0 ? [`Ignored unknown columns: ${unknown.join(', ')}.`] : [];
+  const rows: FitmentImportRow[] = [];
+  body.forEach((cells, index) => {
+    const cell = (name: string) => clean(cells[columns.indexOf(name)]);
+    const line = index + 2;
+    const badYear = ['year_from', 'year_to'].find(name => Number.isNaN(toYear(cell(name))));
+    if (badYear) {
+      errors.push(`Row ${line}: ${badYear} "${cell(badYear)}" is not a year.`);
+      return;
+    }
+    rows.push({
+      line,
+      code: cell('code'),
+      make: cell('make'),
+      model: cell('model'),
+      year_from: toYear(cell('year_from')),
+      year_to: toYear(cell('year_to')),
+      engine: cell('engine'),
+      notes: cell('notes'),
+      part_number: cell('part_number'),
+      part_kind: cell('part_kind').toLowerCase() || undefined,
+      brand: cell('brand')
+    });
+  });
+  return { rows, errors };
+}
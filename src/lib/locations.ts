@@ -0,0 +1,43 @@
+import { InventoryItem, LocationStock, StockLocation, StockLocationKind, StockTransfer, TerminalLocation } from '../types';
+
+export const STOCK_LOCATION_KINDS: { code: StockLocationKind; label: string }[] = [
+  { code: 'shop', label: 'Shop' },
+  { code: 'warehouse', label: 'Warehouse' }
+];
+
+export const isStockLocationKind = (val: unknown): val is StockLocationKind =>
+  STOCK_LOCATION_KINDS.some(k => k.code === val);
+
+export const locationName = (locations: StockLocation[], id: string | null | undefined) =>
+  locations.find(l => String(l.id) === String(id))?.name || 'Unknown location';
+
+export const defaultLocation = (locations: StockLocation[]) => locations.find(l => l.is_default) || null;
+
+// The location a terminal sells from: its binding, else the default location.
+export function terminalLocationId(bindings: TerminalLocation[], locations: StockLocation[], terminalId: string) {
+  const bound = bindings.find(b => b.terminal_id === terminalId);
+  return bound ? String(bound.location_id) : String(defaultLocation(locations)?.id || '');
+}
+
+// Units of the item dispatched and not yet received, inbound to `locationId` or all of them.
+export function inTransitQuantity(transfers: StockTransfer[], itemId: string, locationId?: string) {
+  return transfers
+    .filter(t => t.status === 'in_transit' && (!locationId || String(t.to_location_id) === locationId))
+    .flatMap(t => t.lines)
+    .filter(l => String(l.inventory_item_id) === String(itemId))
+    .reduce((sum, l) => sum + l.quantity, 0);
+}
+
+// Items as seen from one location (quantity on hand there), or consolidated when no location is
+// given. Either way in_transit carries what is on its way.
+export function itemsAtLocation(items: InventoryItem[], stock: LocationStock[], transfers: StockTransfer[], locationId?: string): InventoryItem[] {
+  const here = new Map(stock.filter(s => String(s.location_id) === locationId).map(s => [String(s.inventory_item_id), s.quantity]));
+  return items.map(item => ({
+    ...item,
+    quantity: locationId ? here.get(String(item.id)) || 0 : item.quantity,
+    in_transit: inTransitQuantity(transfers, String(item.id), locationId)
+  }));
+}
+
+export const transferValue = (transfer: StockTransfer) =>
+  Math.round(transfer.lines.reduce((sum, l) => sum + l.quantity * l.unit_cost, 0) * 100) / 100;
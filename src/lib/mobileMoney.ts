@@ -0,0 +1,21 @@
+import { MobileMoneyProvider } from '../types';
+
+export const MOBILE_MONEY_PROVIDERS: { code: MobileMoneyProvider; label: string }[] = [
+  { code: 'mpesa', label: 'M-Pesa' },
+  { code: 'tigopesa', label: 'Tigo Pesa' },
+  { code: 'airtelmoney', label: 'Airtel Money' }
+];
+
+export const mobileMoneyProviderLabel = (code: string) =>
+  MOBILE_MONEY_PROVIDERS.find(p => p.code === code)?.label || code;
+
+export const isMobileMoneyProvider = (val: unknown): val is MobileMoneyProvider =>
+  MOBILE_MONEY_PROVIDERS.some(p => p.code === val);
+
+// Local numbers (07xx / 06xx) and international ones (255…, +255…) are both accepted.
+export const normalizeMsisdn = (val: string) => {
+  const digits = val.replace(/[^0-9]/g, '');
+  return digits.startsWith('0') ? `255${digits.slice(1)}` : digits;
+};
+
+export const isValidMsisdn = (val: string) => /^[0-9]{10,15}$/.test(normalizeMsisdn(val));
@@ -0,0 +1,60 @@
+import { InventoryMovement, StockMovementType } from '../types';
+
+export const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  opening: 'Opening Balance',
+  sale: 'Sale',
+  reversal: 'Sale Reversal',
+  return: 'Customer Return',
+  adjustment: 'Manual Adjustment',
+  receiving: 'Goods Received',
+  stocktake: 'Stocktake',
+  transfer: 'Transfer'
+};
+
+export const movementLabel = (type?: string | null) =>
+  MOVEMENT_LABELS[type as StockMovementType] || type || 'Unknown';
+
+export const STOCK_ADJUSTMENT_REASONS = [
+  'Count correction',
+  'Damaged / expired',
+  'Theft / loss',
+  'Found stock',
+  'Returned to supplier',
+  'Internal use',
+  'Data entry error'
+];
+
+export interface StockAdjustmentRequest {
+  reason: string;
+  locationId?: string; // The location counted; the default location when omitted
+}
+
+const safeNum = (val: any) => {
+  const n = parseFloat(String(val || 0));
+  return isNaN(n) ? 0 : n;
+};
+
+// On-hand quantity rebuilt from the journal alone.
+export const journalQuantity = (movements: InventoryMovement[]) =>
+  movements.reduce((sum, m) => sum + safeNum(m.quantity_delta), 0);
+
+export interface JournalGap {
+  after: InventoryMovement | null;
+  expected: number;
+  found: number;
+}
+
+// Places where a movement did not start from the previous movement's closing quantity,
+// i.e. stock changed without a journal entry. `movements` must be in chronological order.
+export function findJournalGaps(movements: InventoryMovement[]): JournalGap[] {
+  const gaps: JournalGap[] = [];
+  let previous: InventoryMovement | null = null;
+  for (const movement of movements) {
+    const expected = previous ? safeNum(previous.quantity_after) : 0;
+    if (safeNum(movement.quantity_before) !== expected) {
+      gaps.push({ after: previous, expected, found: safeNum(movement.quantity_before) });
+    }
+    previous = movement;
+  }
+  return gaps;
+}
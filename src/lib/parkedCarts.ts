@@ -0,0 +1,42 @@
+import { CartLine, InventoryItem, ParkedCart } from '../types';
+import { cartLinePrice } from './sales';
+import { baseQuantity, cartUnitLabel, unitFactor } from './units';
+
+const PARKED_CARTS_KEY = 'retailos_parked_carts';
+
+export function loadParkedCarts(): ParkedCart[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PARKED_CARTS_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export const saveParkedCarts = (carts: ParkedCart[]) =>
+  localStorage.setItem(PARKED_CARTS_KEY, JSON.stringify(carts));
+
+export const parkedCartSubtotal = (parked: ParkedCart) =>
+  parked.cart.reduce((sum, line) => sum + cartLinePrice(line) * line.quantity, 0);
+
+// Parking does not reserve stock, so a recalled cart is checked against current stock levels:
+// lines are refreshed with the current item, cut back to what is on hand, or dropped when the
+// item is gone. Pack lines are cut back in whole packs. Price overrides are kept.
+export function recheckCartStock(cart: CartLine[], products: InventoryItem[]) {
+  const issues: string[] = [];
+  const lines: CartLine[] = [];
+  cart.forEach(line => {
+    const current = products.find(p => p.id === line.item.id);
+    const available = Math.max(0, Number(current?.quantity) || 0);
+    const fits = Math.floor(available / unitFactor(line));
+    if (!current || fits === 0) {
+      issues.push(`${line.item.name}: ${available === 0 ? 'out of stock' : `less than one ${cartUnitLabel(line)} on hand`}, removed`);
+      return;
+    }
+    if (available < baseQuantity(line)) {
+      issues.push(`${line.item.name}: only ${fits} of ${line.quantity} ${cartUnitLabel(line)} available`);
+    }
+    lines.push({ ...line, item: current, quantity: Math.min(line.quantity, fits) });
+  });
+  return { cart: lines, issues };
+}
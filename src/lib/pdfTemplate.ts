@@ -0,0 +1,183 @@
+import jsPDF from 'jspdf';
+import type { UserOptions } from 'jspdf-autotable';
+import { BrandingProfile } from '../types';
+import { brandingContactLines, contrastRgb, hexToRgb } from './branding';
+
+type Rgb = [number, number, number];
+
+// Colours for one branding profile. Dark pages carry the accent on headings; light pages print
+// headings in the accent only when it is dark enough to read on white.
+export interface PdfTheme {
+  page: Rgb | null; // null leaves the paper white
+  heading: Rgb;
+  text: Rgb;
+  muted: Rgb;
+  faint: Rgb;
+  accent: Rgb;
+  panel: Rgb;
+  headFill: Rgb;
+  headText: Rgb;
+  rowFill: Rgb;
+  altRowFill: Rgb;
+}
+
+export type PdfTone = 'heading' | 'text' | 'muted' | 'faint' | 'accent';
+
+export const PDF_MARGIN = 15;
+
+const LOGO_HEIGHT = 16;
+const LOGO_MAX_WIDTH = 40;
+
+export function pdfTheme(branding: BrandingProfile): PdfTheme {
+  const accent = hexToRgb(branding.accent_color);
+  if (branding.pdf_scheme === 'light') {
+    const accentReadsOnWhite = contrastRgb(accent)[0] === 255;
+    return {
+      page: null,
+      heading: accentReadsOnWhite ? accent : [20, 20, 20],
+      text: [30, 30, 30],
+      muted: [90, 90, 90],
+      faint: [130, 130, 130],
+      accent,
+      panel: [243, 243, 243],
+      headFill: accent,
+      headText: contrastRgb(accent),
+      rowFill: [255, 255, 255],
+      altRowFill: [246, 246, 246]
+    };
+  }
+  return {
+    page: [20, 20, 20],
+    heading: accent,
+    text: [255, 255, 255],
+    muted: [200, 200, 200],
+    faint: [100, 100, 100],
+    accent,
+    panel: [30, 30, 30],
+    headFill: [30, 30, 30],
+    headText: accent,
+    rowFill: [15, 15, 15],
+    altRowFill: [25, 25, 25]
+  };
+}
+
+export function setPdfTone(doc: jsPDF, branding: BrandingProfile, tone: PdfTone) {
+  doc.setTextColor(...pdfTheme(branding)[tone]);
+}
+
+const paintedPages = new WeakMap<jsPDF, Set<number>>();
+
+// Fills the current page with the scheme's background, once per page so it never covers content.
+export function paintPdfPage(doc: jsPDF, branding: BrandingProfile) {
+  const { page } = pdfTheme(branding);
+  if (!page) return;
+  const painted = paintedPages.get(doc) || new Set<number>();
+  const pageNumber = doc.getCurrentPageInfo().pageNumber;
+  if (painted.has(pageNumber)) return;
+  painted.add(pageNumber);
+  paintedPages.set(doc, painted);
+  doc.setFillColor(...page);
+  doc.rect(0, 0, doc.internal.pageSize.getWidth(), doc.internal.pageSize.getHeight(), 'F');
+}
+
+export function addPdfPage(doc: jsPDF, branding: BrandingProfile) {
+  doc.addPage();
+  paintPdfPage(doc, branding);
+}
+
+// Logo, business name and contact lines over an accent rule, then the document title. Returns
+// the y position where the document's own content starts.
+export function drawPdfHeader(doc: jsPDF, branding: BrandingProfile, title: string, subtitle?: string): number {
+  const theme = pdfTheme(branding);
+  const pageWidth = doc.internal.pageSize.getWidth();
+  paintPdfPage(doc, branding);
+
+  let x = PDF_MARGIN;
+  let bottom = 16;
+  if (branding.logo) {
+    try {
+      const image = doc.getImageProperties(branding.logo);
+      const width = Math.min(LOGO_MAX_WIDTH, image.width * LOGO_HEIGHT / image.height);
+      const height = width * image.height / image.width;
+      doc.addImage(branding.logo, image.fileType, x, 10, width, height);
+      x += width + 5;
+      bottom = 10 + height;
+    } catch (err) {
+      console.warn('Branding logo skipped:', err);
+    }
+  }
+
+  doc.setTextColor(...theme.heading);
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.text(branding.business_name.toUpperCase(), x, 16);
+
+  doc.setTextColor(...theme.muted);
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'normal');
+  brandingContactLines(branding).forEach((line, index) => {
+    doc.text(line, x, 21 + index * 4);
+    bottom = Math.max(bottom, 22 + index * 4);
+  });
+
+  doc.setDrawColor(...theme.accent);
+  doc.setLineWidth(0.6);
+  doc.line(PDF_MARGIN, bottom + 4, pageWidth - PDF_MARGIN, bottom + 4);
+
+  let y = bottom + 16;
+  doc.setTextColor(...theme.heading);
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text(title.toUpperCase(), PDF_MARGIN, y);
+  if (subtitle) {
+    y += 8;
+    doc.setTextColor(...theme.muted);
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text(subtitle, PDF_MARGIN, y);
+  }
+
+  doc.setTextColor(...theme.text);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  return y + 10;
+}
+
+// A numbered section heading between tables.
+export function drawPdfSection(doc: jsPDF, branding: BrandingProfile, text: string, y: number) {
+  doc.setTextColor(...pdfTheme(branding).heading);
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text(text, PDF_MARGIN, y);
+  doc.setTextColor(...pdfTheme(branding).text);
+  doc.setFont('helvetica', 'normal');
+}
+
+// Spread into autoTable options; pages a long table spills onto get the scheme's background too.
+export function pdfTableStyles(branding: BrandingProfile): Partial<UserOptions> {
+  const theme = pdfTheme(branding);
+  return {
+    theme: 'grid',
+    headStyles: { fillColor: theme.headFill, textColor: theme.headText, fontStyle: 'bold' },
+    bodyStyles: { fillColor: theme.rowFill, textColor: theme.text },
+    alternateRowStyles: { fillColor: theme.altRowFill },
+    footStyles: { fillColor: theme.panel, textColor: theme.heading, fontStyle: 'bold' },
+    margin: { top: 20, bottom: 20 },
+    willDrawPage: data => paintPdfPage(data.doc, branding)
+  };
+}
+
+// Stamps every page with the note, the business name and the page count.
+export function drawPdfFooter(doc: jsPDF, branding: BrandingProfile, note?: string) {
+  const pageCount = doc.getNumberOfPages();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const y = doc.internal.pageSize.getHeight() - 10;
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setTextColor(...pdfTheme(branding).faint);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.text(note ? `${note} - ${branding.business_name}` : branding.business_name, PDF_MARGIN, y);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - PDF_MARGIN, y, { align: 'right' });
+  }
+}
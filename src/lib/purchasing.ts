@@ -0,0 +1,58 @@
+import { GoodsReceiptRequest, GoodsReceivedNote, InventoryItem, LedgerEntry, PurchaseOrder, PurchaseOrderStatus } from '../types';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled'
+};
+
+// Statuses a purchase order may be moved to by hand, and from where. Receiving sets the rest.
+export const PURCHASE_ORDER_TRANSITIONS: Record<'ordered' | 'cancelled', PurchaseOrderStatus[]> = {
+  ordered: ['draft'],
+  cancelled: ['draft', 'ordered', 'partially_received']
+};
+
+const safeNum = (val: any) => {
+  const n = parseFloat(String(val || 0));
+  return isNaN(n) ? 0 : n;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function receiptTotals(lines: GoodsReceiptRequest['lines'], taxRate: number) {
+  const subtotal = round2(lines.reduce((sum, line) => sum + safeNum(line.quantity) * safeNum(line.unitCost), 0));
+  const taxAmount = round2(subtotal * (safeNum(taxRate) / 100));
+  return { subtotal, taxAmount, total: round2(subtotal + taxAmount) };
+}
+
+// Outstanding quantity per purchase order line, for pre-filling a GRN.
+export const outstandingQuantity = (line: PurchaseOrder['lines'][number]) =>
+  Math.max(0, safeNum(line.quantity_ordered) - safeNum(line.quantity_received));
+
+// Net purchase value per inventory category. The store prefixes each description with the GRN number.
+export function buildPurchaseLedgerEntries(
+  request: GoodsReceiptRequest,
+  items: Pick<InventoryItem, 'id' | 'category_id'>[],
+  supplierName: string
+): Partial<LedgerEntry>[] {
+  const byCategory = new Map<string, number>();
+  request.lines.forEach(line => {
+    const categoryId = String(items.find(i => String(i.id) === String(line.inventoryItemId))?.category_id ?? '');
+    byCategory.set(categoryId, (byCategory.get(categoryId) || 0) + safeNum(line.quantity) * safeNum(line.unitCost));
+  });
+
+  const description = supplierName + (request.supplierInvoiceNo ? ` (invoice ${request.supplierInvoiceNo})` : '');
+  return [...byCategory.entries()].map(([categoryId, amount]) => ({
+    category_id: categoryId,
+    amount: round2(amount),
+    transaction_type: 'purchase' as const,
+    fund_source: request.fundSource,
+    description
+  }));
+}
+
+// Sum of input VAT on received goods, the documented side of the VAT return.
+export const recordedInputVat = (receipts: GoodsReceivedNote[]) =>
+  receipts.reduce((sum, grn) => sum + safeNum(grn.tax_amount), 0);
@@ -0,0 +1,87 @@
+import { CartLine, InventoryItem, Quote, QuoteKind, QuoteRequest, QuoteStatus } from '../types';
+import { recheckCartStock } from './parkedCarts';
+
+export const QUOTE_KINDS: { code: QuoteKind; label: string }[] = [
+  { code: 'quotation', label: 'Quotation' },
+  { code: 'proforma', label: 'Pro-Forma Invoice' }
+];
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  open: 'Open',
+  converted: 'Converted',
+  cancelled: 'Cancelled'
+};
+
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 14;
+
+export const isQuoteKind = (val: unknown): val is QuoteKind =>
+  QUOTE_KINDS.some(k => k.code === val);
+
+export const quoteKindLabel = (kind: QuoteKind) =>
+  QUOTE_KINDS.find(k => k.code === kind)?.label || kind;
+
+const safeNum = (val: any) => {
+  const n = parseFloat(String(val || 0));
+  return isNaN(n) ? 0 : n;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Same arithmetic as the POS cart: tax on the subtotal, then the discount off the taxed total.
+export function quoteTotals(lines: QuoteRequest['lines'], taxRate: number, discount: number) {
+  const subtotal = round2(lines.reduce((sum, line) => sum + safeNum(line.quantity) * safeNum(line.unitPrice), 0));
+  const taxAmount = round2(subtotal * (safeNum(taxRate) / 100));
+  const appliedDiscount = round2(Math.min(Math.max(0, safeNum(discount)), subtotal + taxAmount));
+  return { subtotal, taxAmount, discount: appliedDiscount, total: round2(subtotal + taxAmount - appliedDiscount) };
+}
+
+export function validUntilDate(days: number, from = new Date()) {
+  const date = new Date(from);
+  date.setDate(date.getDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// Quoted prices hold through the whole of valid_until.
+export const isQuoteExpired = (quote: Pick<Quote, 'status' | 'valid_until'>, now = new Date()) =>
+  quote.status === 'open' && quote.valid_until < now.toISOString().slice(0, 10);
+
+export function quoteMatches(quote: Quote, search: string) {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+  return [quote.quote_no, quote.customer_name, quote.notes || '', ...quote.lines.map(l => l.description)]
+    .some(value => value.toLowerCase().includes(term));
+}
+
+// Turns a quote back into a POS cart. A quote still in validity keeps its quoted prices; an
+// expired one is repriced at today's selling price. Price changes since issue are reported along
+// with the stock re-check, which drops or cuts back lines the shelf can no longer cover.
+export function quoteToCart(quote: Quote, products: InventoryItem[], now = new Date()) {
+  const expired = isQuoteExpired(quote, now);
+  const issues: string[] = [];
+  const cart: CartLine[] = [];
+  quote.lines.forEach(line => {
+    const current = products.find(p => String(p.id) === String(line.inventory_item_id));
+    if (!current) {
+      issues.push(`${line.description}: no longer stocked, removed`);
+      return;
+    }
+    const price = safeNum(current.selling_price);
+    if (expired) {
+      if (price !== safeNum(line.unit_price)) {
+        issues.push(`${line.description}: repriced from $${safeNum(line.unit_price).toFixed(2)} to $${price.toFixed(2)}`);
+      }
+      cart.push({ item: current, quantity: safeNum(line.quantity) });
+      return;
+    }
+    if (price !== safeNum(line.list_price)) {
+      issues.push(`${line.description}: list price now $${price.toFixed(2)}, quoted $${safeNum(line.unit_price).toFixed(2)} kept`);
+    }
+    cart.push({
+      item: current,
+      quantity: safeNum(line.quantity),
+      customPrice: safeNum(line.unit_price) !== price ? safeNum(line.unit_price) : undefined
+    });
+  });
+  const checked = recheckCartStock(cart, products);
+  return { cart: checked.cart, issues: [...issues, ...checked.issues], expired };
+}
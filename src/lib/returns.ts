@@ -0,0 +1,105 @@
+import { LedgerEntry, RefundMethod, ReturnableLine, ReturnDisposition, Sale, SalePayment, SaleReturn } from '../types';
+import { foldAdjustments } from './adjustments';
+import { takingsByTender, tenderKey } from './sales';
+
+export const RETURN_DISPOSITIONS: { code: ReturnDisposition; label: string }[] = [
+  { code: 'restock', label: 'Restock' },
+  { code: 'write_off', label: 'Write Off' }
+];
+
+export const REFUND_METHODS: { code: RefundMethod; label: string }[] = [
+  { code: 'original', label: 'Original Tender' },
+  { code: 'store_credit', label: 'Store Credit' }
+];
+
+export const isReturnDisposition = (val: unknown): val is ReturnDisposition =>
+  RETURN_DISPOSITIONS.some(d => d.code === val);
+
+export const isRefundMethod = (val: unknown): val is RefundMethod =>
+  REFUND_METHODS.some(m => m.code === val);
+
+const safeNum = (val: any) => {
+  const n = parseFloat(String(val || 0));
+  return isNaN(n) ? 0 : n;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// What the customer paid per unit of line value, i.e. after the sale's discount and tax.
+export const refundRatio = (sale: Pick<Sale, 'subtotal' | 'total'>) =>
+  safeNum(sale.subtotal) > 0 ? safeNum(sale.total) / safeNum(sale.subtotal) : 1;
+
+// The sale's discount carried by one unit of line value.
+export const discountRatio = (sale: Pick<Sale, 'subtotal' | 'discount'>) =>
+  safeNum(sale.subtotal) > 0 ? safeNum(sale.discount) / safeNum(sale.subtotal) : 0;
+
+// Receipt number or sale id from what was typed or scanned. A QR code may hold a URL ending in either.
+export function parseReturnLookup(input: string) {
+  const value = input.trim();
+  if (!/^https?:\/\//i.test(value)) return value;
+  try {
+    const url = new URL(value);
+    const param = url.searchParams.get('receipt') || url.searchParams.get('sale');
+    return param || decodeURIComponent(url.pathname.split('/').filter(Boolean).pop() || '');
+  } catch {
+    return value;
+  }
+}
+
+// Sale rows of a sale as the returns desk sees them. Only stocked lines (with an item and a
+// quantity) can be returned; prices are net of any corrections.
+export function returnableLines(sale: Pick<Sale, 'subtotal' | 'total'>, entries: LedgerEntry[], returns: Pick<SaleReturn, 'lines'>[], names: Record<string, string> = {}): ReturnableLine[] {
+  const ratio = refundRatio(sale);
+  return foldAdjustments(entries)
+    .filter(a => a.entry.transaction_type === 'sale' && !a.entry.adjusts_id && a.entry.inventory_item_id && safeNum(a.entry.quantity) > 0)
+    .map(({ entry, reversal, corrections }) => {
+      const sold = safeNum(entry.quantity);
+      const returned = returns.reduce((sum, r) =>
+        sum + r.lines.filter(l => String(l.ledger_entry_id) === String(entry.id)).reduce((s, l) => s + safeNum(l.quantity), 0), 0);
+      const unitPrice = (safeNum(entry.amount) + corrections.reduce((sum, c) => sum + safeNum(c.amount), 0)) / sold;
+      return {
+        entry_id: String(entry.id),
+        inventory_item_id: String(entry.inventory_item_id),
+        name: names[String(entry.inventory_item_id)] || entry.inventory?.name || entry.description || 'Unknown Item',
+        quantity_sold: sold,
+        quantity_returned: returned,
+        quantity_returnable: reversal ? 0 : Math.max(0, sold - returned),
+        unit_price: unitPrice,
+        unit_refund: unitPrice * ratio,
+        reversed: Boolean(reversal)
+      };
+    });
+}
+
+export const lineRefund = (line: Pick<ReturnableLine, 'unit_refund'>, quantity: number) =>
+  round2(line.unit_refund * quantity);
+
+// What each of the sale's tenders (by tenderKey) can still pay back: what it took, cash net of
+// change, less earlier refunds to the original tenders. Store credit does not draw on them.
+export function refundableByTender(sale: Pick<Sale, 'payments' | 'change_amount'>, returns: Pick<SaleReturn, 'refund_method' | 'refunds'>[]) {
+  const refundable = takingsByTender([sale]);
+  returns
+    .filter(r => r.refund_method === 'original')
+    .forEach(r => (r.refunds || []).forEach(p => {
+      refundable[tenderKey(p)] = (refundable[tenderKey(p)] || 0) - safeNum(p.amount);
+    }));
+  return Object.fromEntries(
+    Object.entries(refundable).map(([key, amount]) => [key, round2(amount)] as const).filter(([, amount]) => amount > 0)
+  );
+}
+
+// Splits a refund across the tenders in proportion to what each can still pay back; the last
+// tender takes the rounding.
+export function allocateRefund(refundable: Record<string, number>, amount: number): SalePayment[] {
+  const keys = Object.keys(refundable).filter(key => refundable[key] > 0);
+  const pool = keys.reduce((sum, key) => sum + refundable[key], 0);
+  let remaining = round2(amount);
+  return keys
+    .map((key, index) => {
+      const share = index === keys.length - 1 ? remaining : round2(amount * refundable[key] / pool);
+      remaining = round2(remaining - share);
+      const [method, provider] = key.split(':');
+      return provider ? { method, amount: share, provider: provider as SalePayment['provider'] } : { method, amount: share };
+    })
+    .filter(p => p.amount > 0);
+}
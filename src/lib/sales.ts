@@ -0,0 +1,131 @@
+import { CartLine, LedgerEntry, QueuedSale, ReceiptLine, Sale, SalePayment, SerialNumber, TenderMethod } from '../types';
+import { mobileMoneyProviderLabel } from './mobileMoney';
+import { receiptLineNotes } from './warranty';
+
+export const DEFAULT_TERMINAL_ID = 'POS-01';
+
+const safeNum = (val: any) => {
+  const n = parseFloat(String(val || 0));
+  return isNaN(n) ? 0 : n;
+};
+
+export const TENDER_METHODS: { method: TenderMethod; label: string }[] = [
+  { method: 'Cash', label: 'Cash' },
+  { method: 'Card', label: 'Card' },
+  { method: 'Mobile Money', label: 'Mobile Money' },
+  { method: 'Credit', label: 'On Account' }
+];
+
+// payment_method on a sale taken with more than one tender type.
+export const SPLIT_PAYMENT_METHOD = 'Split';
+
+// Mobile money is settled per provider, so takings and cash-ups key it as "Mobile Money:<provider>".
+export const tenderKey = (payment: Pick<SalePayment, 'method' | 'provider'>) =>
+  payment.method === 'Mobile Money' && payment.provider ? `Mobile Money:${payment.provider}` : payment.method;
+
+// Label for a tender method or a tenderKey.
+export const tenderLabel = (method: string) => {
+  const [base, provider] = method.split(':');
+  const label = TENDER_METHODS.find(t => t.method === base)?.label || base;
+  return provider ? `${label} (${mobileMoneyProviderLabel(provider)})` : label;
+};
+
+// Tenders of a queued sale, including those queued before split tender existed.
+export const saleTenders = (sale: Pick<QueuedSale, 'payments' | 'paymentMethod' | 'total'>): SalePayment[] =>
+  sale.payments && sale.payments.length > 0 ? sale.payments : [{ method: sale.paymentMethod, amount: sale.total }];
+
+export const tenderTotal = (payments: SalePayment[], method?: string) =>
+  payments.filter(p => !method || p.method === method).reduce((sum, p) => sum + safeNum(p.amount), 0);
+
+export function paymentMethodFor(payments: SalePayment[]) {
+  const methods = Array.from(new Set(payments.map(p => p.method)));
+  return methods.length === 1 ? methods[0] : SPLIT_PAYMENT_METHOD;
+}
+
+// Takings per tenderKey across sale headers. Change is handed back out of cash.
+export function takingsByTender(headers: Pick<Sale, 'payments' | 'change_amount'>[]) {
+  const totals: Record<string, number> = {};
+  headers.forEach(h => {
+    (h.payments || []).forEach(p => {
+      totals[tenderKey(p)] = (totals[tenderKey(p)] || 0) + safeNum(p.amount);
+    });
+    if (safeNum(h.change_amount) > 0) totals.Cash = (totals.Cash || 0) - safeNum(h.change_amount);
+  });
+  return totals;
+}
+
+export const formatTenders = (payments: SalePayment[]) =>
+  payments.map(p => `${tenderLabel(tenderKey(p))} $${safeNum(p.amount).toFixed(2)}`).join(' + ');
+
+// Receipt numbers are allocated on the terminal so a receipt printed offline is already final.
+export function nextReceiptNo(terminalId: string) {
+  const key = `retailos_receipt_seq_${terminalId}`;
+  const next = (parseInt(localStorage.getItem(key) || '0') || 0) + 1;
+  localStorage.setItem(key, String(next));
+  return `${terminalId}-${String(next).padStart(6, '0')}`;
+}
+
+// Header row persisted in `sales` for a queued POS sale. Shared by the receipt modal and POST /api/sales.
+export function toSaleHeader(sale: QueuedSale): Sale {
+  const terminalId = sale.terminalId || DEFAULT_TERMINAL_ID;
+  return {
+    id: sale.id,
+    receipt_no: sale.receiptNo || `${terminalId}-${sale.id.slice(0, 8).toUpperCase()}`,
+    terminal_id: terminalId,
+    cashier_name: sale.cashierName || null,
+    customer_name: sale.customerName || null,
+    customer_id: sale.customerId || null,
+    credit_limit_override: Boolean(sale.creditLimitOverride),
+    expiry_override: Boolean(sale.expiryOverride),
+    shift_id: sale.shiftId || null,
+    payment_method: sale.paymentMethod,
+    payments: saleTenders(sale),
+    subtotal: sale.subtotal,
+    tax_rate: sale.taxRate,
+    tax_amount: sale.taxAmount,
+    discount: sale.discount,
+    total: sale.total,
+    amount_paid: sale.amountPaid ?? sale.total,
+    change_amount: sale.changeAmount ?? 0,
+    created_at: sale.timestamp
+  };
+}
+
+// Per unit the line is sold in: the price typed at the till, else the pack's or the base price.
+export const cartLinePrice = (c: CartLine) =>
+  c.customPrice !== undefined ? c.customPrice : c.unit ? safeNum(c.unit.price) : safeNum(c.item.selling_price);
+
+export function receiptLinesFromCart(cart: CartLine[]): ReceiptLine[] {
+  return cart.map(c => {
+    const unitPrice = cartLinePrice(c);
+    return {
+      key: c.item.id,
+      name: c.unit && c.unit.factor > 1 ? `${c.item.name} (${c.unit.name} of ${c.unit.factor})` : c.item.name,
+      quantity: c.quantity,
+      unitPrice,
+      total: unitPrice * c.quantity,
+      notes: receiptLineNotes(c.item, c.serials)
+    };
+  });
+}
+
+// Reprints show the lines as originally sold; reversals and corrections are not part of the receipt.
+// `serials` are the units the sale took, printed under their lines.
+export function receiptLinesFromLedger(entries: LedgerEntry[], serials: SerialNumber[] = []): ReceiptLine[] {
+  return entries
+    .filter(e => e.transaction_type === 'sale' && !e.adjusts_id)
+    .map(e => {
+      const quantity = safeNum(e.quantity) || 1;
+      return {
+        key: e.id,
+        name: e.inventory?.name || e.description || 'Unknown Item',
+        quantity,
+        unitPrice: safeNum(e.amount) / quantity,
+        total: safeNum(e.amount),
+        notes: receiptLineNotes(
+          e.inventory || {},
+          serials.filter(s => String(s.inventory_item_id) === String(e.inventory_item_id)).map(s => s.serial_no)
+        )
+      };
+    });
+}
@@ -0,0 +1,91 @@
+import { CashShift, DrawerMovement, DrawerMovementKind, Sale, SaleReturn, ShiftTenderLine } from '../types';
+import { TENDER_METHODS, tenderKey } from './sales';
+import { MOBILE_MONEY_PROVIDERS } from './mobileMoney';
+
+export const DENOMINATIONS = [100, 50, 20, 10, 5, 2, 1, 0.5, 0.25, 0.1, 0.05, 0.01];
+
+export const DRAWER_MOVEMENT_KINDS: { code: DrawerMovementKind; label: string; direction: 1 | -1 }[] = [
+  { code: 'pay_in', label: 'Pay In', direction: 1 },
+  { code: 'pay_out', label: 'Pay Out', direction: -1 },
+  { code: 'safe_drop', label: 'Safe Drop', direction: -1 }
+];
+
+export const drawerMovementLabel = (kind: string) =>
+  DRAWER_MOVEMENT_KINDS.find(k => k.code === kind)?.label || kind;
+
+export const isDrawerMovementKind = (val: unknown): val is DrawerMovementKind =>
+  DRAWER_MOVEMENT_KINDS.some(k => k.code === val);
+
+// Tenders settled at the till and so counted at close, as tenderKeys: mobile money is counted
+// against each provider's statement. Sales on account are collected later.
+export const COUNTED_TENDERS = TENDER_METHODS.flatMap(t => {
+  if (t.method === 'Credit') return [];
+  if (t.method === 'Mobile Money') return MOBILE_MONEY_PROVIDERS.map(p => tenderKey({ method: t.method, provider: p.code }));
+  return [t.method as string];
+});
+
+const safeNum = (val: any) => {
+  const n = parseFloat(String(val || 0));
+  return isNaN(n) ? 0 : n;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const countDenominations = (denominations: Record<string, number>) =>
+  round2(Object.entries(denominations).reduce((sum, [value, count]) => sum + safeNum(value) * safeNum(count), 0));
+
+// What the drawer and the other tenders (by tenderKey) should hold: the float, plus each tender taken on the
+// shift's sales (cash net of change), less refunds paid out on its returns, plus pay-ins, less pay-outs and safe drops.
+export function expectedByTender(
+  shift: Pick<CashShift, 'opening_float'>,
+  sales: Pick<Sale, 'payments' | 'change_amount'>[],
+  movements: Pick<DrawerMovement, 'kind' | 'amount'>[],
+  returns: Pick<SaleReturn, 'refunds'>[] = []
+) {
+  const expected: Record<string, number> = { Cash: safeNum(shift.opening_float) };
+  sales.forEach(sale => {
+    (sale.payments || []).forEach(p => {
+      expected[tenderKey(p)] = (expected[tenderKey(p)] || 0) + safeNum(p.amount);
+    });
+    expected.Cash -= safeNum(sale.change_amount);
+  });
+  returns.forEach(r => {
+    (r.refunds || []).forEach(p => {
+      expected[tenderKey(p)] = (expected[tenderKey(p)] || 0) - safeNum(p.amount);
+    });
+  });
+  movements.forEach(m => {
+    const direction = DRAWER_MOVEMENT_KINDS.find(k => k.code === m.kind)?.direction || 0;
+    expected.Cash += direction * safeNum(m.amount);
+  });
+  return Object.fromEntries(Object.entries(expected).map(([method, amount]) => [method, round2(amount)]));
+}
+
+// Counted tenders that took something on the shift must be counted at close; the others may be
+// left uncounted and then carry no variance.
+export const uncountedTenders = (expected: Record<string, number>, counted: Record<string, number>) =>
+  COUNTED_TENDERS.filter(method => safeNum(expected[method]) !== 0 && counted[method] === undefined);
+
+export function shiftTenderLines(expected: Record<string, number>, counted: Record<string, number> | null): ShiftTenderLine[] {
+  const methods = Array.from(new Set([...COUNTED_TENDERS, ...Object.keys(expected)]));
+  return methods
+    .filter(method => COUNTED_TENDERS.includes(method) || safeNum(expected[method]) !== 0)
+    .map(method => {
+      // Only what was entered is counted; a blank tender is not a count of zero
+      const isCounted = counted !== null && counted[method] !== undefined;
+      const countedAmount = isCounted ? round2(safeNum(counted[method])) : null;
+      return {
+        method,
+        expected: round2(safeNum(expected[method])),
+        counted: countedAmount,
+        variance: countedAmount === null ? null : round2(countedAmount - safeNum(expected[method]))
+      };
+    });
+}
+
+// The ledger fund source a tender's over/short is posted to: its method, without the mobile money provider.
+export const tenderFundSource = (method: string) => method.split(':')[0];
+
+// Net over (+) or short (-) across the counted tenders.
+export const overShort = (lines: ShiftTenderLine[]) =>
+  round2(lines.reduce((sum, line) => sum + (line.variance || 0), 0));
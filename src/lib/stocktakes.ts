@@ -0,0 +1,33 @@
+import { InventoryItem, Stocktake, StocktakeLine, StocktakeStatus } from '../types';
+
+export const STOCKTAKE_STATUS_LABELS: Record<StocktakeStatus, string> = {
+  counting: 'Counting',
+  approved: 'Approved',
+  cancelled: 'Cancelled'
+};
+
+// Counted minus expected; null until the line is counted.
+export const lineVariance = (line: Pick<StocktakeLine, 'expected_quantity' | 'counted_quantity'>) =>
+  line.counted_quantity == null ? null : Number(line.counted_quantity) - Number(line.expected_quantity);
+
+// At the cost frozen with the sheet, negative for shrinkage. Approval books the cost the stock
+// actually moves at, which can differ under FIFO.
+export const lineVarianceValue = (line: StocktakeLine) =>
+  Math.round((lineVariance(line) || 0) * Number(line.unit_cost || 0) * 100) / 100;
+
+export function stocktakeSummary(stocktake: Pick<Stocktake, 'lines'>) {
+  const counted = stocktake.lines.filter(l => l.counted_quantity != null);
+  const variances = counted.map(l => lineVariance(l) || 0);
+  return {
+    lines: stocktake.lines.length,
+    counted: counted.length,
+    varianceLines: variances.filter(v => v !== 0).length,
+    unitsShort: variances.filter(v => v < 0).reduce((sum, v) => sum - v, 0),
+    unitsOver: variances.filter(v => v > 0).reduce((sum, v) => sum + v, 0),
+    value: Math.round(counted.reduce((sum, l) => sum + lineVarianceValue(l), 0) * 100) / 100
+  };
+}
+
+// Distinct bins in use, for picking what to count.
+export const itemBins = (items: InventoryItem[]) =>
+  Array.from(new Set(items.map(i => (i.bin || '').trim()).filter(bin => bin))).sort((a, b) => a.localeCompare(b));
@@ -0,0 +1,106 @@
+import { CartLine, CartUnit, InventoryItem, ItemUnit } from '../types';
+
+export const DEFAULT_BASE_UNIT = 'pcs';
+
+export type QuantityDisplay = 'base' | 'pack';
+
+export const QUANTITY_DISPLAYS: { code: QuantityDisplay; label: string }[] = [
+  { code: 'base', label: 'Base Units' },
+  { code: 'pack', label: 'Packs' }
+];
+
+const DISPLAY_KEY = 'retailos_quantity_display';
+
+const safeNum = (val: any) => {
+  const n = parseFloat(String(val || 0));
+  return isNaN(n) ? 0 : n;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const baseUnit = (item: Pick<InventoryItem, 'base_unit'>) => item.base_unit?.trim() || DEFAULT_BASE_UNIT;
+
+export const itemUnits = (item: Pick<InventoryItem, 'units'>): ItemUnit[] => (Array.isArray(item.units) ? item.units : []);
+
+// The base unit first, then the item's sale packs, each priced per pack.
+export function saleUnits(item: InventoryItem): CartUnit[] {
+  const price = safeNum(item.selling_price);
+  return [
+    { name: baseUnit(item), factor: 1, price },
+    ...itemUnits(item)
+      .filter(unit => unit.sale)
+      .map(unit => ({ name: unit.name, factor: unit.factor, price: unit.selling_price != null ? safeNum(unit.selling_price) : round2(price * unit.factor) }))
+  ];
+}
+
+// The item's sale unit called `name` (its base unit at factor 1), or undefined when it does not sell in it.
+export const findSaleUnit = (item: InventoryItem, name: string) =>
+  saleUnits(item).find(unit => unit.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+// The base unit first, then the item's purchase packs, each costed per pack at the current cost.
+export function purchaseUnits(item: InventoryItem): { name: string; factor: number; cost: number }[] {
+  const cost = safeNum(item.cost_price);
+  return [
+    { name: baseUnit(item), factor: 1, cost },
+    ...itemUnits(item).filter(unit => unit.purchase).map(unit => ({ name: unit.name, factor: unit.factor, cost: round2(cost * unit.factor) }))
+  ];
+}
+
+export const unitFactor = (line: Pick<CartLine, 'unit'>) => line.unit?.factor || 1;
+
+// Base units a cart line takes out of stock.
+export const baseQuantity = (line: Pick<CartLine, 'quantity' | 'unit'>) => line.quantity * unitFactor(line);
+
+export const cartUnitLabel = (line: Pick<CartLine, 'item' | 'unit'>) => line.unit?.name || baseUnit(line.item);
+
+// "5 Bottle" in base units; "2 Carton + 3 Bottle" in packs, largest pack first.
+export function formatQuantity(item: InventoryItem, quantity: number, display: QuantityDisplay = 'base'): string {
+  const base = baseUnit(item);
+  const packs = display === 'pack'
+    ? itemUnits(item).filter(unit => unit.factor > 1).sort((a, b) => b.factor - a.factor)
+    : [];
+  if (packs.length === 0 || quantity === 0) return `${quantity} ${base}`;
+  let remaining = Math.abs(quantity);
+  const parts: string[] = [];
+  packs.forEach(unit => {
+    const count = Math.floor(remaining / unit.factor);
+    if (count > 0) parts.push(`${count} ${unit.name}`);
+    remaining -= count * unit.factor;
+  });
+  if (remaining > 0) parts.push(`${remaining} ${base}`);
+  return `${quantity < 0 ? '-' : ''}${parts.join(' + ')}`;
+}
+
+export function validateItemUnits(units: unknown, base?: unknown): string[] {
+  if (units == null) return [];
+  if (!Array.isArray(units)) return ['units must be an array when provided.'];
+  const errors: string[] = [];
+  const seen = new Set([String(base || DEFAULT_BASE_UNIT).trim().toLowerCase()]);
+  units.forEach((unit: any, index: number) => {
+    const name = typeof unit?.name === 'string' ? unit.name.trim() : '';
+    if (!name) {
+      errors.push(`units[${index}].name is required.`);
+    } else if (seen.has(name.toLowerCase())) {
+      errors.push(`units[${index}].name "${name}" is used twice or matches the base unit.`);
+    }
+    seen.add(name.toLowerCase());
+    if (!Number.isInteger(unit?.factor) || unit.factor < 2) {
+      errors.push(`units[${index}].factor must be a whole number of base units above 1.`);
+    }
+    if (unit?.selling_price != null && (typeof unit.selling_price !== 'number' || !Number.isFinite(unit.selling_price) || unit.selling_price < 0)) {
+      errors.push(`units[${index}].selling_price must be a non-negative number when provided.`);
+    }
+    if (typeof unit?.purchase !== 'boolean' || typeof unit?.sale !== 'boolean') {
+      errors.push(`units[${index}].purchase and units[${index}].sale must be booleans.`);
+    }
+  });
+  return errors;
+}
+
+export function loadQuantityDisplay(): QuantityDisplay {
+  return localStorage.getItem(DISPLAY_KEY) === 'pack' ? 'pack' : 'base';
+}
+
+export function saveQuantityDisplay(display: QuantityDisplay) {
+  localStorage.setItem(DISPLAY_KEY, display);
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { BrandingProfile } from '../types';
+import { cacheBranding, loadCachedBranding, withBrandingDefaults } from './branding';
+import { getBranding } from './data';
+
+// The saved branding profile, starting from the cached copy so receipts and PDFs render offline
+// and refreshing from the server once on mount.
+export function useBranding(): BrandingProfile {
+  const [branding, setBranding] = useState<BrandingProfile>(loadCachedBranding);
+
+  useEffect(() => {
+    let active = true;
+    getBranding().then(({ data }) => {
+      if (!active || !data) return;
+      const profile = withBrandingDefaults(data);
+      cacheBranding(profile);
+      setBranding(profile);
+    });
+    return () => { active = false; };
+  }, []);
+
+  return branding;
+}
@@ -0,0 +1,72 @@
+import { InventoryItem, SerialNumber, WarrantyClaimStatus, WarrantyOutcome } from '../types';
+
+export const WARRANTY_CLAIM_STATUS_LABELS: Record<WarrantyClaimStatus, string> = {
+  open: 'Open',
+  with_supplier: 'With Supplier',
+  resolved: 'Resolved'
+};
+
+export const WARRANTY_OUTCOMES: { code: WarrantyOutcome; label: string }[] = [
+  { code: 'repaired', label: 'Repaired' },
+  { code: 'replaced', label: 'Replaced' },
+  { code: 'credited', label: 'Supplier Credit' },
+  { code: 'rejected', label: 'Rejected' }
+];
+
+export const isWarrantyOutcome = (val: unknown): val is WarrantyOutcome =>
+  WARRANTY_OUTCOMES.some(o => o.code === val);
+
+export const warrantyOutcomeLabel = (outcome: WarrantyOutcome) =>
+  WARRANTY_OUTCOMES.find(o => o.code === outcome)?.label || outcome;
+
+// Where a claim may be moved, and from where. A claim can be settled at the counter without
+// going to the supplier.
+export const WARRANTY_CLAIM_TRANSITIONS: Record<Exclude<WarrantyClaimStatus, 'open'>, WarrantyClaimStatus[]> = {
+  with_supplier: ['open'],
+  resolved: ['open', 'with_supplier']
+};
+
+// Serials are printed in mixed case and scanned with stray spaces; they are kept upper-cased.
+export const normalizeSerial = (val: unknown) => String(val ?? '').trim().toUpperCase();
+
+export const isSerialised = (item: Pick<InventoryItem, 'serialised'>) => Boolean(item.serialised);
+
+export function warrantyLabel(months: number | null | undefined): string | null {
+  if (!months || months <= 0) return null;
+  if (months % 12 === 0) return `${months / 12} year${months === 12 ? '' : 's'}`;
+  return `${months} month${months === 1 ? '' : 's'}`;
+}
+
+export function warrantyExpiry(soldAt: string, months: number | null | undefined): string | null {
+  if (!months || months <= 0) return null;
+  const date = new Date(soldAt);
+  date.setMonth(date.getMonth() + months);
+  return date.toISOString();
+}
+
+export const isUnderWarranty = (serial: Pick<SerialNumber, 'warranty_expires_at'>, at = new Date()) =>
+  Boolean(serial.warranty_expires_at) && new Date(serial.warranty_expires_at as string) >= at;
+
+// A serialised line needs exactly one distinct serial per unit.
+export function validateSerials(serials: unknown, quantity: number): string[] {
+  if (!Array.isArray(serials)) return [`needs ${quantity} serial number(s).`];
+  const values = serials.map(normalizeSerial);
+  const errors: string[] = [];
+  if (values.some(value => !value)) errors.push('serial numbers must not be blank.');
+  if (values.length !== quantity) errors.push(`needs ${quantity} serial number(s), got ${values.length}.`);
+  const duplicate = values.find((value, index) => value && values.indexOf(value) !== index);
+  if (duplicate) errors.push(`serial ${duplicate} is listed twice.`);
+  return errors;
+}
+
+// Receipt notes for a sold line: its warranty and the serials that went out.
+export function receiptLineNotes(item: Pick<InventoryItem, 'warranty_months'>, serials: string[] = []): string[] {
+  const notes = serials.length > 0 ? [`S/N ${serials.join(', ')}`] : [];
+  const warranty = warrantyLabel(item.warranty_months);
+  if (warranty) notes.push(`Warranty: ${warranty}`);
+  return notes;
+}
+
+// Splits pasted or scanned input (one per line, or comma separated) into serials.
+export const parseSerialList = (text: string) =>
+  text.split(/[\n,;]+/).map(normalizeSerial).filter(Boolean);
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { supabase, isConfigured } from '../lib/supabase';
-import { LedgerEntry, InventoryItem, BusinessSummary } from '../types';
+import { isConfigured, listLedger, listInventory, listBusinessSummaries, listSaleHeaders, listLocations } from '../lib/data';
+import { LedgerEntry, InventoryItem, BusinessSummary, Sale, StockLocation } from '../types';
 import { 
   Building2, 
   TrendingUp, 
@@ -57,7 +57,12 @@ import {
 } from 'recharts';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { addPdfPage, drawPdfFooter, drawPdfHeader, drawPdfSection, pdfTableStyles } from '../lib/pdfTemplate';
+import { useBranding } from '../lib/useBranding';
 import { cn } from '../lib/utils';
+import { costOfGoodsSold, saleLineCost, uncostedSaleLines } from '../lib/costing';
+import { formatQuantity, loadQuantityDisplay } from '../lib/units';
+import { locationName } from '../lib/locations';
 import Loading from '../components/Loading';
 
 interface BusinessProfile {
@@ -93,12 +98,17 @@ const DEFAULT_PROFILE: BusinessProfile = {
 const CHART_COLORS = ['#FFD700', '#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899'];
 
 export default function BusinessIntelligenceReport() {
+  const branding = useBranding();
+  const [quantityDisplay] = useState(loadQuantityDisplay);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   // Raw Database Records
   const [ledger, setLedger] = useState<LedgerEntry[]>([]);
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [locationId, setLocationId] = useState(''); // '' is every location consolidated
+  const [saleHeaders, setSaleHeaders] = useState<Sale[]>([]);
   const [summaries, setSummaries] = useState<BusinessSummary[]>([]);
 
   // Active Tab
@@ -139,10 +149,12 @@ export default function BusinessIntelligenceReport() {
     setLoading(true);
     setError(null);
     try {
-      const [ledgerRes, inventoryRes, summaryRes] = await Promise.all([
-        supabase.from('ledger').select('*').order('created_at', { ascending: false }),
-        supabase.from('inventory').select('*'),
-        supabase.from('business_summary').select('*')
+      const [ledgerRes, inventoryRes, summaryRes, salesRes, locationRes] = await Promise.all([
+        listLedger(),
+        listInventory(locationId || undefined),
+        listBusinessSummaries(),
+        listSaleHeaders(),
+        listLocations()
       ]);
 
       if (ledgerRes.error) throw ledgerRes.error;
@@ -154,6 +166,8 @@ export default function BusinessIntelligenceReport() {
       setLedger(rawLedger);
       setInventory(rawInventory);
       setSummaries(rawSummaries);
+      setSaleHeaders(salesRes.data || []);
+      setLocations(locationRes.data || []);
 
       // Default months for comparison
       const months = Array.from(new Set(rawLedger.map(l => l.created_at?.slice(0, 7)))).filter(Boolean).sort().reverse();
@@ -169,6 +183,17 @@ export default function BusinessIntelligenceReport() {
     }
   };
 
+  // Stock figures follow the selected location; ledger figures stay business-wide.
+  const changeLocation = async (id: string) => {
+    setLocationId(id);
+    const { data, error: inventoryError } = await listInventory(id || undefined);
+    if (inventoryError) {
+      setError(inventoryError.message);
+      return;
+    }
+    setInventory(data || []);
+  };
+
   // Profile Save
   const handleSaveProfile = () => {
     setProfile(tempProfile);
@@ -196,7 +221,10 @@ export default function BusinessIntelligenceReport() {
 
     // Sales totals
     const totalSales = saleEntries.reduce((sum, l) => sum + safeNum(l.amount), 0);
-    const totalTransactionCount = saleEntries.length;
+    // One transaction per sale header; lines posted before headers existed are grouped by timestamp
+    const headerIds = new Set(saleHeaders.map(h => h.id));
+    const legacyTransactions = new Set(saleEntries.filter(l => !l.adjusts_id && (!l.sale_id || !headerIds.has(l.sale_id))).map(l => l.sale_id || l.created_at));
+    const totalTransactionCount = saleHeaders.length + legacyTransactions.size;
     const avgTransactionValue = totalTransactionCount > 0 ? totalSales / totalTransactionCount : 0;
 
     // Expenses total
@@ -204,28 +232,21 @@ export default function BusinessIntelligenceReport() {
     const totalWithdrawals = capitalWithdrawals.reduce((sum, l) => sum + safeNum(l.amount), 0);
 
     // Inventory Valuation
-    const inventoryCostValue = inventory.reduce((sum, item) => sum + (safeNum(item.cost_price) * safeNum(item.quantity)), 0);
+    // Stock in transit between locations has left one shelf and not reached the next; it is still held at cost.
+    const inTransitCostValue = inventory.reduce((sum, item) => sum + (safeNum(item.cost_price) * safeNum(item.in_transit)), 0);
+    const inventoryCostValue = inventory.reduce((sum, item) => sum + (safeNum(item.cost_price) * safeNum(item.quantity)), 0) + inTransitCostValue;
     const inventoryRetailValue = inventory.reduce((sum, item) => sum + (safeNum(item.selling_price) * safeNum(item.quantity)), 0);
     const totalStockQuantity = inventory.reduce((sum, item) => sum + safeNum(item.quantity), 0);
     const lowStockCount = inventory.filter(item => safeNum(item.quantity) <= safeNum(item.min_stock_level)).length;
 
-    // Estimate COGS from sold quantities & inventory cost prices
     const itemMap = inventory.reduce((acc, item) => {
       acc[item.id] = item;
       return acc;
     }, {} as Record<string, InventoryItem>);
 
-    let calculatedCogs = 0;
-    saleEntries.forEach(s => {
-      if (s.inventory_item_id && itemMap[s.inventory_item_id]) {
-        const cost = safeNum(itemMap[s.inventory_item_id].cost_price);
-        const qty = safeNum(s.quantity) || 1;
-        calculatedCogs += cost * qty;
-      } else {
-        // Fallback COGS estimate as ~60% of revenue if item ID is absent
-        calculatedCogs += safeNum(s.amount) * 0.6;
-      }
-    });
+    // COGS from the unit cost each sale line captured when it was posted
+    const calculatedCogs = costOfGoodsSold(saleEntries);
+    const uncostedLineCount = uncostedSaleLines(saleEntries).length;
 
     const grossProfit = Math.max(0, totalSales - calculatedCogs);
     const netProfit = totalSales - calculatedCogs - totalExpenses;
@@ -253,9 +274,8 @@ export default function BusinessIntelligenceReport() {
       const amt = safeNum(l.amount);
       if (l.transaction_type === 'sale') {
         monthlyDataMap[monthKey].sales += amt;
-        monthlyDataMap[monthKey].count += 1;
-        const itemCost = l.inventory_item_id && itemMap[l.inventory_item_id] ? safeNum(itemMap[l.inventory_item_id].cost_price) * (safeNum(l.quantity) || 1) : amt * 0.6;
-        monthlyDataMap[monthKey].cogs += itemCost;
+        if (!l.adjusts_id) monthlyDataMap[monthKey].count += 1;
+        monthlyDataMap[monthKey].cogs += saleLineCost(l);
       } else if (l.transaction_type === 'expense') {
         monthlyDataMap[monthKey].expenses += amt;
       }
@@ -327,11 +347,13 @@ export default function BusinessIntelligenceReport() {
       totalExpenses,
       totalWithdrawals,
       calculatedCogs,
+      uncostedLineCount,
       grossProfit,
       netProfit,
       profitMargin,
       expenseRatio,
       inventoryCostValue,
+      inTransitCostValue,
       inventoryRetailValue,
       totalStockQuantity,
       lowStockCount,
@@ -356,7 +378,7 @@ export default function BusinessIntelligenceReport() {
       avgMonthlyNetProfit,
       monthCount
     };
-  }, [ledger, inventory, profile]);
+  }, [ledger, inventory, saleHeaders, profile]);
 
   // =========================================================================
   // LOAN READINESS SCORE ALGORITHM (0 - 100)
@@ -540,24 +562,12 @@ export default function BusinessIntelligenceReport() {
     setIsGeneratingPdf(true);
     try {
       const doc = new jsPDF('p', 'mm', 'a4');
-      const pageWidth = doc.internal.pageSize.getWidth();
-
-      // Page 1: Official Cover Header & Executive Summary
-      doc.setFillColor(10, 10, 10);
-      doc.rect(0, 0, pageWidth, 40, 'F');
-
-      doc.setFont('helvetica', 'bold');
-      doc.setFontSize(18);
-      doc.setTextColor(255, 215, 0); // Gold
-      doc.text('RETAILOS FINANCIAL & LOAN READINESS REPORT', 14, 18);
-
-      doc.setFontSize(10);
-      doc.setTextColor(200, 200, 200);
-      doc.text(`CONFIDENTIAL BANK SUBMISSION DOCUMENT • GENERATED: ${new Date().toLocaleDateString()}`, 14, 28);
+      const y = drawPdfHeader(doc, branding, 'Financial & Loan Readiness Report', `Confidential bank submission document • Generated: ${new Date().toLocaleDateString()}`);
 
       // Business Profile Header Table
       autoTable(doc, {
-        startY: 45,
+        ...pdfTableStyles(branding),
+        startY: y,
         head: [['BUSINESS & APPLICANT DETAILS', 'SYSTEM VERIFICATION']],
         body: [
           [`Business Name: ${profile.name}`, `Loan Readiness Score: ${loanAssessment.totalScore} / 100`],
@@ -566,22 +576,19 @@ export default function BusinessIntelligenceReport() {
           [`Category: ${profile.category}`, `Suggested Loan Range: $${loanAssessment.suggestedMinLoan.toLocaleString()} - $${loanAssessment.suggestedMaxLoan.toLocaleString()}`],
           [`Contact Email: ${profile.email}`, `Phone: ${profile.phone}`]
         ],
-        theme: 'grid',
-        headStyles: { fillColor: [20, 20, 20], textColor: [255, 215, 0], fontStyle: 'bold' },
         styles: { fontSize: 9, cellPadding: 3 }
       });
 
       // Executive Summary Metrics Table
-      doc.setFontSize(12);
-      doc.setTextColor(10, 10, 10);
-      doc.text('1. Executive Financial Summary', 14, (doc as any).lastAutoTable.finalY + 10);
+      drawPdfSection(doc, branding, '1. Executive Financial Summary', (doc as any).lastAutoTable.finalY + 10);
 
       autoTable(doc, {
+        ...pdfTableStyles(branding),
         startY: (doc as any).lastAutoTable.finalY + 14,
         head: [['Metric Key', 'Amount (USD)', 'Analytical Notes']],
         body: [
           ['Total Gross Sales', `$${metrics.totalSales.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Verified sales from ledger history'],
-          ['Cost of Goods Sold (COGS)', `$${metrics.calculatedCogs.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Estimated inventory cost deduction'],
+          ['Cost of Goods Sold (COGS)', `$${metrics.calculatedCogs.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Unit cost captured on each sale'],
           ['Gross Profit Margin', `$${metrics.grossProfit.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Revenue less COGS'],
           ['Operating Expenses', `$${metrics.totalExpenses.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Recorded outflow & store operational costs'],
           ['Net Operating Profit', `$${metrics.netProfit.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, `Net Profit Margin: ${metrics.profitMargin.toFixed(1)}%`],
@@ -589,16 +596,12 @@ export default function BusinessIntelligenceReport() {
           ['Estimated Cash Position', `$${metrics.cashPosition.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Estimated available liquidity'],
           ['Total Business Net Worth', `$${metrics.netBusinessWorth.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Total Assets less Liabilities']
         ],
-        theme: 'striped',
-        headStyles: { fillColor: [40, 40, 40], textColor: [255, 255, 255] },
         styles: { fontSize: 9 }
       });
 
       // Page 2: Income & Expense Breakdown + Loan Evaluation
-      doc.addPage();
-      doc.setFontSize(14);
-      doc.setTextColor(10, 10, 10);
-      doc.text('2. Loan Capacity & Underwriting Factors', 14, 20);
+      addPdfPage(doc, branding);
+      drawPdfSection(doc, branding, '2. Loan Capacity & Underwriting Factors', 20);
 
       const loanFactorRows = loanAssessment.factors.map(f => [
         f.name,
@@ -608,20 +611,18 @@ export default function BusinessIntelligenceReport() {
       ]);
 
       autoTable(doc, {
+        ...pdfTableStyles(branding),
         startY: 25,
         head: [['Evaluation Factor', 'Points Awarded', 'Status', 'Underwriting Observation']],
         body: loanFactorRows,
-        theme: 'grid',
-        headStyles: { fillColor: [15, 23, 42], textColor: [255, 215, 0] },
         styles: { fontSize: 9 }
       });
 
       // Simulation Section
-      doc.setFontSize(12);
-      doc.setTextColor(10, 10, 10);
-      doc.text('3. Loan Repayment Simulation Model', 14, (doc as any).lastAutoTable.finalY + 10);
+      drawPdfSection(doc, branding, '3. Loan Repayment Simulation Model', (doc as any).lastAutoTable.finalY + 10);
 
       autoTable(doc, {
+        ...pdfTableStyles(branding),
         startY: (doc as any).lastAutoTable.finalY + 14,
         head: [['Parameter', 'Simulated Value', 'Impact Analysis']],
         body: [
@@ -633,11 +634,11 @@ export default function BusinessIntelligenceReport() {
           ['Average Monthly Net Cash Flow', `$${metrics.avgMonthlyNetProfit.toFixed(2)}`, 'Historical monthly net cash capacity'],
           ['Affordability Coverage Ratio', `${loanSimulation.netProfitCoverage.toFixed(2)}x`, loanSimulation.affordabilityStatus]
         ],
-        theme: 'striped',
-        headStyles: { fillColor: [30, 41, 59], textColor: [255, 255, 255] },
         styles: { fontSize: 9 }
       });
 
+      drawPdfFooter(doc, branding, 'Confidential Bank Submission');
+
       // Save PDF
       doc.save(`${profile.name.replace(/\s+/g, '_')}_Bank_Loan_Report.pdf`);
     } catch (e) {
@@ -1007,7 +1008,7 @@ export default function BusinessIntelligenceReport() {
                   <div key={p.item.id} className="flex justify-between items-center p-3 bg-white/5 rounded-xl border border-white/5">
                     <div>
                       <p className="text-xs font-black text-white">{i + 1}. {p.item.name}</p>
-                      <p className="text-[10px] text-slate-500 font-mono">{p.item.code} • Stock: {p.item.quantity}</p>
+                      <p className="text-[10px] text-slate-500 font-mono">{p.item.code} • Stock: {formatQuantity(p.item, p.item.quantity, quantityDisplay)}</p>
                     </div>
                     <div className="text-right">
                       <p className="text-xs font-black text-[#FFD700]">${p.totalRev.toLocaleString()}</p>
@@ -1028,10 +1029,28 @@ export default function BusinessIntelligenceReport() {
       ========================================================================= */}
       {activeTab === 'inventory' && (
         <div className="space-y-8">
+          {locations.length > 1 && (
+            <div className="flex items-center gap-3">
+              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Stock At</span>
+              <select
+                value={locationId}
+                onChange={(e) => changeLocation(e.target.value)}
+                className="px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-xs font-bold text-white outline-none focus:border-[#FFD700]/50"
+              >
+                <option value="" className="bg-[#0a0a0a]">All Locations (Consolidated)</option>
+                {locations.map(l => <option key={l.id} value={l.id} className="bg-[#0a0a0a]">{l.name}</option>)}
+              </select>
+            </div>
+          )}
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
             <div className="vault-card p-5">
               <span className="text-[10px] font-black text-slate-500 uppercase">Total Inventory Value (Cost)</span>
               <p className="text-2xl font-black text-white mt-1">${metrics.inventoryCostValue.toLocaleString(undefined, { minimumFractionDigits: 2 })}</p>
+              {metrics.inTransitCostValue > 0 && (
+                <p className="text-[10px] text-amber-400 font-bold mt-1">
+                  incl. ${metrics.inTransitCostValue.toLocaleString(undefined, { minimumFractionDigits: 2 })} in transit{locationId ? ` to ${locationName(locations, locationId)}` : ''}
+                </p>
+              )}
             </div>
             <div className="vault-card p-5">
               <span className="text-[10px] font-black text-slate-500 uppercase">Inventory Potential Retail Value</span>
@@ -1066,7 +1085,7 @@ export default function BusinessIntelligenceReport() {
                       <p className="text-[10px] text-slate-500 font-mono">Min Threshold: {item.min_stock_level}</p>
                     </div>
                     <span className="text-xs font-black text-rose-400 bg-rose-500/10 px-2 py-1 rounded">
-                      {item.quantity} Left
+                      {formatQuantity(item, item.quantity, quantityDisplay)} Left
                     </span>
                   </div>
                 ))}
@@ -1125,6 +1144,11 @@ export default function BusinessIntelligenceReport() {
                 <span>Less: Cost of Goods Sold (COGS)</span>
                 <span className="text-rose-400">-${metrics.calculatedCogs.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
               </div>
+              {metrics.uncostedLineCount > 0 && (
+                <p className="text-[10px] text-amber-400 pl-4">
+                  {metrics.uncostedLineCount} sale line(s) carry no captured cost and are excluded from COGS.
+                </p>
+              )}
 
               <div className="flex justify-between py-3 border-b-2 border-white/20 font-black text-emerald-400 text-base">
                 <span>GROSS PROFIT</span>
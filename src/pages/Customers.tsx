@@ -0,0 +1,536 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  isConfigured,
+  listCustomers,
+  createCustomer,
+  updateCustomer,
+  listCustomerTransactions,
+  receiveCustomerPayment,
+  getCustomerAging
+} from '../lib/data';
+import { Customer, CustomerAging, CustomerTransaction } from '../types';
+import { AGING_BUCKETS, availableCredit, CUSTOMER_PAYMENT_METHODS } from '../lib/customers';
+import {
+  Users,
+  Plus,
+  X,
+  AlertTriangle,
+  Loader2,
+  Wallet,
+  FileText,
+  Pencil,
+  CalendarClock,
+  Search
+} from 'lucide-react';
+import { cn } from '../lib/utils';
+import Loading from '../components/Loading';
+
+type Tab = 'accounts' | 'aging';
+
+const EMPTY_CUSTOMER = { name: '', phone: '', email: '', tax_id: '', address: '', credit_limit: 0 };
+
+export default function Customers() {
+  const [tab, setTab] = useState<Tab>('accounts');
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [aging, setAging] = useState<CustomerAging[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // Drawers
+  const [customerForm, setCustomerForm] = useState<(typeof EMPTY_CUSTOMER & { id?: string }) | null>(null);
+  const [paymentForm, setPaymentForm] = useState<{ customer: Customer; amount: number; method: string; reference: string; note: string } | null>(null);
+  const [statement, setStatement] = useState<{ customer: Customer; transactions: CustomerTransaction[] } | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  async function fetchData() {
+    if (!isConfigured) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const [customerRes, agingRes] = await Promise.all([listCustomers(), getCustomerAging()]);
+      if (customerRes.error) throw customerRes.error;
+      if (agingRes.error) throw agingRes.error;
+
+      setCustomers(customerRes.data || []);
+      setAging(agingRes.data || []);
+    } catch (err: any) {
+      console.error('Error fetching customer accounts:', err);
+      setError('Customer Fetch Error: ' + (err?.message || 'Failed to load customer accounts.'));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const safeNum = (val: any) => {
+    const n = parseFloat(String(val || 0));
+    return isNaN(n) ? 0 : n;
+  };
+
+  const formatMoney = (n: number) => `$${safeNum(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const filteredCustomers = customers.filter(c =>
+    [c.name, c.phone, c.email, c.tax_id].some(v => (v || '').toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  const metrics = useMemo(() => {
+    const totals = AGING_BUCKETS.map(b => ({ ...b, amount: aging.reduce((sum, row) => sum + safeNum(row.buckets[b.code]), 0) }));
+    return {
+      receivables: customers.reduce((sum, c) => sum + Math.max(0, safeNum(c.balance)), 0), // Store credit is owed to the customer, not receivable
+      overLimit: customers.filter(c => availableCredit(c) < 0).length,
+      overdue: totals.filter(b => b.code !== 'current').reduce((sum, b) => sum + b.amount, 0),
+      bucketTotals: totals
+    };
+  }, [customers, aging]);
+
+  // ---------------------------------------------------------------------------
+  // Accounts
+  // ---------------------------------------------------------------------------
+
+  async function handleSaveCustomer(e: React.FormEvent) {
+    e.preventDefault();
+    if (!customerForm) return;
+    setSubmitting(true);
+    const { id, ...fields } = customerForm;
+    const payload = { ...fields, credit_limit: safeNum(fields.credit_limit) };
+    const { error: saveError } = id ? await updateCustomer(id, payload) : await createCustomer(payload);
+    setSubmitting(false);
+    if (saveError) {
+      setError('Customer Save Error: ' + saveError.message);
+      return;
+    }
+    setCustomerForm(null);
+    fetchData();
+  }
+
+  async function handleToggleCustomer(customer: Customer) {
+    const { error: updateError } = await updateCustomer(customer.id, { active: !customer.active });
+    if (updateError) {
+      setError('Customer Update Error: ' + updateError.message);
+      return;
+    }
+    fetchData();
+  }
+
+  async function openStatement(customer: Customer) {
+    const { data, error: fetchError } = await listCustomerTransactions(customer.id);
+    if (fetchError) {
+      setError('Statement Error: ' + fetchError.message);
+      return;
+    }
+    setStatement({ customer, transactions: [...(data || [])].reverse() });
+  }
+
+  async function handleReceivePayment(e: React.FormEvent) {
+    e.preventDefault();
+    if (!paymentForm) return;
+    if (paymentForm.amount <= 0 || paymentForm.amount > safeNum(paymentForm.customer.balance)) {
+      setError(`Payment Error: amount must be between 0 and the outstanding balance of ${formatMoney(paymentForm.customer.balance)}.`);
+      return;
+    }
+    setSubmitting(true);
+    const { error: paymentError } = await receiveCustomerPayment(paymentForm.customer.id, {
+      amount: paymentForm.amount,
+      method: paymentForm.method,
+      reference: paymentForm.reference || undefined,
+      note: paymentForm.note || undefined
+    });
+    setSubmitting(false);
+    if (paymentError) {
+      setError('Payment Error: ' + paymentError.message);
+      return;
+    }
+    setPaymentForm(null);
+    fetchData();
+  }
+
+  if (loading && customers.length === 0) {
+    return <Loading />;
+  }
+
+  const renderDrawer = (title: string, subtitle: string, onClose: () => void, body: React.ReactNode, footer?: React.ReactNode) => (
+    <div className="fixed inset-0 z-[110] flex justify-end">
+      <div className="absolute inset-0 bg-[#0a0a0a]/80 backdrop-blur-md" onClick={() => !submitting && onClose()} />
+      <div className="relative w-full max-w-lg bg-[#0a0a0a] border-l border-white/10 h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div>
+            <h2 className="text-xl font-black text-[#FFD700] uppercase tracking-tighter">{title}</h2>
+            <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mt-1">{subtitle}</p>
+          </div>
+          <button onClick={onClose} disabled={submitting} className="p-2 hover:bg-white/5 rounded-full transition-colors text-slate-500 hover:text-[#FFD700]">
+            <X size={20} />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">{body}</div>
+        {footer && <div className="p-8 border-t border-white/10 bg-white/5 flex gap-4">{footer}</div>}
+      </div>
+    </div>
+  );
+
+  const inputClass = 'w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none font-bold text-white placeholder:text-slate-800';
+  const labelClass = 'text-[10px] font-black text-slate-500 uppercase tracking-widest';
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="vault-card p-6">
+          <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest">Accounts Receivable</p>
+          <h2 className="text-2xl font-black mt-2 text-[#FFD700]">{formatMoney(metrics.receivables)}</h2>
+        </div>
+        <div className="vault-card p-6">
+          <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest">Overdue (30+ Days)</p>
+          <h2 className={cn("text-2xl font-black mt-2", metrics.overdue > 0 ? "text-rose-500" : "text-white")}>{formatMoney(metrics.overdue)}</h2>
+        </div>
+        <div className="vault-card p-6">
+          <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest">Credit Accounts</p>
+          <h2 className="text-2xl font-black mt-2 text-white">{customers.filter(c => c.active).length}</h2>
+          <p className="text-[10px] text-slate-600 mt-1 font-mono">{customers.filter(c => safeNum(c.balance) > 0).length} with a balance</p>
+        </div>
+        <div className="vault-card p-6">
+          <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest">Over Limit</p>
+          <h2 className={cn("text-2xl font-black mt-2", metrics.overLimit > 0 ? "text-rose-500" : "text-white")}>{metrics.overLimit}</h2>
+          <p className="text-[10px] text-slate-600 mt-1 uppercase">Manager overrides at the till</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-rose-500/10 border border-rose-500/20 rounded-2xl p-4 flex items-start gap-3 animate-in fade-in slide-in-from-top-2">
+          <AlertTriangle className="text-rose-500 shrink-0" size={20} />
+          <p className="flex-1 text-xs text-rose-400 font-mono">{error}</p>
+          <button onClick={() => setError(null)} className="text-rose-500/50 hover:text-rose-500">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {/* Tabs & actions */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex gap-2 bg-white/5 p-1 rounded-2xl border border-white/10 w-fit">
+          {([
+            { id: 'accounts', label: 'Accounts', icon: Users },
+            { id: 'aging', label: 'Aging Report', icon: CalendarClock }
+          ] as const).map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={cn(
+                "flex items-center gap-2 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all",
+                tab === t.id ? "bg-[#FFD700] text-[#0a0a0a]" : "text-slate-500 hover:text-white"
+              )}
+            >
+              <t.icon size={14} /> {t.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-3">
+          {tab === 'accounts' && (
+            <div className="relative">
+              <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500" size={16} />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={e => setSearchTerm(e.target.value)}
+                placeholder="Search customers..."
+                className="pl-11 pr-4 py-3 bg-white/5 border border-white/10 rounded-2xl outline-none focus:border-[#FFD700]/50 text-sm font-bold text-white placeholder:text-slate-700"
+              />
+            </div>
+          )}
+          <button
+            onClick={() => setCustomerForm({ ...EMPTY_CUSTOMER })}
+            className="flex items-center gap-2 px-6 py-3 bg-[#FFD700] text-[#0a0a0a] rounded-2xl text-sm font-black hover:bg-[#FFD700]/90 transition-all shadow-[0_0_20px_rgba(255,215,0,0.2)] active:scale-95 uppercase tracking-tighter"
+          >
+            <Plus size={18} /> New Customer
+          </button>
+        </div>
+      </div>
+
+      {/* Accounts */}
+      {tab === 'accounts' && (
+        <div className="vault-card overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-white/5 border-b border-white/10">
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest">Customer</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest">Contact</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest text-right">Credit Limit</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest text-right">Balance</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest text-right">Available</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {filteredCustomers.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-16 text-center text-slate-500 font-black uppercase tracking-tighter">No customer accounts.</td>
+                </tr>
+              ) : filteredCustomers.map(customer => {
+                const available = availableCredit(customer);
+                return (
+                  <tr key={customer.id} className={cn("hover:bg-white/5 transition-colors", !customer.active && "opacity-50")}>
+                    <td className="px-6 py-4">
+                      <span className="font-black text-white block">{customer.name}</span>
+                      {customer.tax_id && <span className="text-[10px] text-slate-600 font-mono">TIN {customer.tax_id}</span>}
+                    </td>
+                    <td className="px-6 py-4 text-xs text-slate-400">
+                      {[customer.phone, customer.email].filter(Boolean).join(' • ') || '—'}
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm font-bold text-slate-300">{formatMoney(customer.credit_limit)}</td>
+                    <td className="px-6 py-4 text-right text-sm font-black text-[#FFD700]">
+                      {safeNum(customer.balance) < 0
+                        ? <span className="text-emerald-500" title="Store credit from returns">Credit {formatMoney(-safeNum(customer.balance))}</span>
+                        : formatMoney(customer.balance)}
+                    </td>
+                    <td className={cn("px-6 py-4 text-right text-sm font-black", available < 0 ? "text-rose-500" : "text-emerald-500")}>
+                      {formatMoney(available)}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setPaymentForm({ customer, amount: safeNum(customer.balance), method: 'Cash', reference: '', note: '' })}
+                          disabled={safeNum(customer.balance) <= 0}
+                          className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-xl bg-[#FFD700]/10 text-[#FFD700] hover:bg-[#FFD700]/20 disabled:opacity-30 flex items-center gap-1"
+                        >
+                          <Wallet size={12} /> Receive
+                        </button>
+                        <button onClick={() => openStatement(customer)} title="Statement" className="p-2 rounded-xl text-slate-500 hover:text-[#FFD700] hover:bg-white/5">
+                          <FileText size={14} />
+                        </button>
+                        <button
+                          onClick={() => setCustomerForm({
+                            id: customer.id,
+                            name: customer.name,
+                            phone: customer.phone || '',
+                            email: customer.email || '',
+                            tax_id: customer.tax_id || '',
+                            address: customer.address || '',
+                            credit_limit: safeNum(customer.credit_limit)
+                          })}
+                          title="Edit"
+                          className="p-2 rounded-xl text-slate-500 hover:text-[#FFD700] hover:bg-white/5"
+                        >
+                          <Pencil size={14} />
+                        </button>
+                        <button
+                          onClick={() => handleToggleCustomer(customer)}
+                          className={cn(
+                            "text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-lg border",
+                            customer.active ? "bg-emerald-500/10 text-emerald-500 border-emerald-500/20" : "bg-white/5 text-slate-500 border-white/10"
+                          )}
+                        >
+                          {customer.active ? 'Active' : 'Inactive'}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Aging */}
+      {tab === 'aging' && (
+        <div className="vault-card overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-white/5 border-b border-white/10">
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest">Customer</th>
+                {AGING_BUCKETS.map(b => (
+                  <th key={b.code} className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest text-right">{b.label}</th>
+                ))}
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {aging.length === 0 ? (
+                <tr>
+                  <td colSpan={AGING_BUCKETS.length + 2} className="px-6 py-16 text-center text-slate-500 font-black uppercase tracking-tighter">No outstanding receivables.</td>
+                </tr>
+              ) : aging.map(row => (
+                <tr key={row.customer_id} className="hover:bg-white/5 transition-colors">
+                  <td className="px-6 py-4">
+                    <span className="font-black text-white block">{row.customer_name}</span>
+                    <span className="text-[10px] text-slate-600 font-mono">Limit {formatMoney(row.credit_limit)}</span>
+                  </td>
+                  {AGING_BUCKETS.map(b => (
+                    <td
+                      key={b.code}
+                      className={cn(
+                        "px-6 py-4 text-right text-sm font-bold",
+                        safeNum(row.buckets[b.code]) === 0 ? "text-slate-700" : b.code === 'current' ? "text-slate-300" : "text-rose-400"
+                      )}
+                    >
+                      {formatMoney(row.buckets[b.code])}
+                    </td>
+                  ))}
+                  <td className="px-6 py-4 text-right text-sm font-black text-[#FFD700]">{formatMoney(row.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+            {aging.length > 0 && (
+              <tfoot>
+                <tr className="border-t border-white/10 bg-white/5">
+                  <td className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest">Total</td>
+                  {metrics.bucketTotals.map(b => (
+                    <td key={b.code} className="px-6 py-4 text-right text-sm font-black text-white">{formatMoney(b.amount)}</td>
+                  ))}
+                  <td className="px-6 py-4 text-right text-sm font-black text-[#FFD700]">
+                    {formatMoney(aging.reduce((sum, row) => sum + safeNum(row.total), 0))}
+                  </td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      )}
+
+      {/* Customer drawer */}
+      {customerForm && renderDrawer(
+        customerForm.id ? 'Edit Customer' : 'Register Customer',
+        'Customer Account',
+        () => setCustomerForm(null),
+        <form id="customer-form" onSubmit={handleSaveCustomer} className="space-y-6">
+          {([
+            { key: 'name', label: 'Customer Name', required: true },
+            { key: 'phone', label: 'Phone' },
+            { key: 'email', label: 'Email' },
+            { key: 'tax_id', label: 'TIN / VRN' },
+            { key: 'address', label: 'Address' }
+          ] as const).map(field => (
+            <div key={field.key} className="space-y-2">
+              <label className={labelClass}>{field.label}</label>
+              <input
+                required={'required' in field}
+                type={field.key === 'email' ? 'email' : 'text'}
+                value={customerForm[field.key]}
+                onChange={e => setCustomerForm({ ...customerForm, [field.key]: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          ))}
+          <div className="space-y-2">
+            <label className={labelClass}>Credit Limit</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={customerForm.credit_limit}
+              onChange={e => setCustomerForm({ ...customerForm, credit_limit: safeNum(e.target.value) })}
+              className={inputClass}
+            />
+            <p className="text-[10px] text-slate-600">Credit sales beyond this need a manager PIN at the till. 0 means every credit sale does.</p>
+          </div>
+        </form>,
+        <>
+          <button type="button" onClick={() => setCustomerForm(null)} className="flex-1 px-4 py-4 border border-white/10 rounded-2xl text-xs font-black text-slate-500 hover:bg-white/5 transition-all uppercase tracking-tighter">
+            Discard
+          </button>
+          <button type="submit" form="customer-form" disabled={submitting} className="flex-1 px-4 py-4 bg-[#FFD700] text-[#0a0a0a] rounded-2xl text-xs font-black hover:bg-[#FFD700]/90 transition-all uppercase tracking-tighter disabled:opacity-50">
+            {submitting ? <Loader2 size={16} className="animate-spin mx-auto" /> : 'Save Customer'}
+          </button>
+        </>
+      )}
+
+      {/* Payment drawer */}
+      {paymentForm && renderDrawer(
+        'Receive Payment',
+        `${paymentForm.customer.name} • Balance ${formatMoney(paymentForm.customer.balance)}`,
+        () => setPaymentForm(null),
+        <form id="payment-form" onSubmit={handleReceivePayment} className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className={labelClass}>Amount</label>
+              <input
+                required
+                type="number"
+                min={0.01}
+                max={safeNum(paymentForm.customer.balance)}
+                step="0.01"
+                value={paymentForm.amount}
+                onChange={e => setPaymentForm({ ...paymentForm, amount: safeNum(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>Method</label>
+              <select
+                value={paymentForm.method}
+                onChange={e => setPaymentForm({ ...paymentForm, method: e.target.value })}
+                className={cn(inputClass, 'appearance-none')}
+              >
+                {CUSTOMER_PAYMENT_METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Reference</label>
+            <input
+              type="text"
+              value={paymentForm.reference}
+              onChange={e => setPaymentForm({ ...paymentForm, reference: e.target.value })}
+              className={cn(inputClass, 'font-mono text-sm')}
+              placeholder="Slip / cheque no."
+            />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Note</label>
+            <textarea value={paymentForm.note} onChange={e => setPaymentForm({ ...paymentForm, note: e.target.value })} className={cn(inputClass, 'h-20 resize-none')} />
+          </div>
+          <p className="text-[10px] text-slate-600">The payment settles the oldest outstanding credit sales first.</p>
+        </form>,
+        <>
+          <button type="button" onClick={() => setPaymentForm(null)} className="flex-1 px-4 py-4 border border-white/10 rounded-2xl text-xs font-black text-slate-500 hover:bg-white/5 transition-all uppercase tracking-tighter">
+            Discard
+          </button>
+          <button type="submit" form="payment-form" disabled={submitting} className="flex-1 px-4 py-4 bg-[#FFD700] text-[#0a0a0a] rounded-2xl text-xs font-black hover:bg-[#FFD700]/90 transition-all uppercase tracking-tighter disabled:opacity-50">
+            {submitting ? <Loader2 size={16} className="animate-spin mx-auto" /> : 'Post Payment'}
+          </button>
+        </>
+      )}
+
+      {/* Statement drawer */}
+      {statement && renderDrawer(
+        'Account Statement',
+        `${statement.customer.name} • Balance ${formatMoney(statement.customer.balance)}`,
+        () => setStatement(null),
+        statement.transactions.length === 0 ? (
+          <p className="text-center text-slate-500 font-black uppercase tracking-tighter py-16">No account activity.</p>
+        ) : (
+          <div className="space-y-3">
+            {statement.transactions.map(tx => (
+              <div key={tx.id} className="p-4 bg-white/5 border border-white/10 rounded-2xl flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-xs font-black text-white uppercase tracking-tighter">
+                    {tx.kind === 'charge' ? `Credit Sale ${tx.reference || ''}` : tx.kind === 'refund' ? `Refund ${tx.reference || ''} • ${tx.method}` : `Payment • ${tx.method}`}
+                    {tx.limit_override && <span className="ml-2 text-[9px] text-rose-400">Limit Override</span>}
+                  </p>
+                  <p className="text-[10px] text-slate-500 font-mono">
+                    {new Date(tx.created_at).toLocaleString()}
+                    {tx.performed_by && ` • ${tx.performed_by}`}
+                    {tx.kind === 'payment' && tx.reference && ` • Ref ${tx.reference}`}
+                  </p>
+                  {tx.kind === 'charge' && safeNum(tx.outstanding) > 0 && (
+                    <p className="text-[10px] text-[#FFD700] mt-1">{formatMoney(tx.outstanding)} outstanding</p>
+                  )}
+                  {tx.note && <p className="text-[10px] text-slate-600 mt-1">{tx.note}</p>}
+                </div>
+                <div className="text-right shrink-0">
+                  <p className={cn("text-sm font-black", tx.kind === 'charge' ? "text-white" : "text-emerald-500")}>
+                    {tx.kind === 'charge' ? '' : '−'}{formatMoney(Math.abs(safeNum(tx.amount)))}
+                  </p>
+                  <p className="text-[10px] text-slate-600">Bal {formatMoney(tx.balance_after)}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 import React, { useEffect, useState, useMemo } from 'react';
-import { supabase, isConfigured } from '../lib/supabase';
+import { isConfigured, listBusinessSummaries, listLedger, listInventory } from '../lib/data';
 import { BusinessSummary } from '../types';
 import { TrendingUp, Wallet, ArrowDownCircle, AlertCircle, ShieldCheck, Coins } from 'lucide-react';
 import { cn } from '../lib/utils';
+import { costOfGoodsSold } from '../lib/costing';
 
 export default function Dashboard() {
   const [summaries, setSummaries] = useState<BusinessSummary[]>([]);
@@ -17,9 +18,9 @@ export default function Dashboard() {
       try {
         setError(null);
         const [summaryRes, ledgerRes, inventoryRes] = await Promise.all([
-          supabase.from('business_summary').select('*'),
-          supabase.from('ledger').select('*'),
-          supabase.from('inventory').select('*')
+          listBusinessSummaries(),
+          listLedger(),
+          listInventory()
         ]);
         
         if (summaryRes.error) console.warn('Business summary view might be missing:', summaryRes.error);
@@ -49,7 +50,8 @@ export default function Dashboard() {
 
             const revenue = catLedger.filter(l => l.transaction_type === 'sale').reduce((sum, l) => sum + safeNum(l.amount), 0);
             const expenses = catLedger.filter(l => l.transaction_type === 'expense').reduce((sum, l) => sum + safeNum(l.amount), 0);
-            const profit = revenue - expenses;
+            const cogs = costOfGoodsSold(catLedger);
+            const profit = revenue - cogs - expenses;
             const capital = catLedger.filter(l => l.transaction_type === 'capital_withdrawal').reduce((sum, l) => sum + safeNum(l.amount), 0);
 
             return {
@@ -58,6 +60,7 @@ export default function Dashboard() {
               total_revenue: revenue,
               total_expenses: expenses,
               total_profit: profit,
+              total_cogs: cogs,
               capital_health: 10000 - capital, // Assuming 10k initial capital for fallback
               last_updated: new Date().toISOString()
             };
@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
-import { supabase, isConfigured } from '../lib/supabase';
-import { InventoryItem } from '../types';
+import { isConfigured, listInventory, listLocations, createInventoryItem, updateInventoryItem, deleteInventoryItem, importFitment } from '../lib/data';
+import { InventoryItem, ItemUnit, StockLocation } from '../types';
 import { 
   Search, 
   Plus, 
@@ -11,10 +11,31 @@ import {
   X, 
   TrendingUp, 
   DollarSign,
-  AlertTriangle
+  AlertTriangle,
+  History,
+  Barcode,
+  CalendarClock,
+  Car,
+  Upload,
+  CheckCircle2,
+  MapPin,
+  ArrowRightLeft,
+  ClipboardCheck
 } from 'lucide-react';
 import { cn } from '../lib/utils';
+import { STOCK_ADJUSTMENT_REASONS } from '../lib/movements';
 import Loading from '../components/Loading';
+import MovementHistoryDrawer from '../components/MovementHistoryDrawer';
+import BarcodeLabelsDrawer from '../components/BarcodeLabelsDrawer';
+import FitmentDrawer from '../components/FitmentDrawer';
+import ExpiryReportDrawer from '../components/ExpiryReportDrawer';
+import LocationsDrawer from '../components/LocationsDrawer';
+import TransfersDrawer from '../components/TransfersDrawer';
+import StocktakeDrawer from '../components/StocktakeDrawer';
+import { FITMENT_CSV_COLUMNS, parseFitmentCsv } from '../lib/fitment';
+import { DEFAULT_BASE_UNIT, formatQuantity, loadQuantityDisplay, QUANTITY_DISPLAYS, QuantityDisplay, saveQuantityDisplay, validateItemUnits } from '../lib/units';
+import { useBranding } from '../lib/useBranding';
+import { locationName } from '../lib/locations';
 
 const CATEGORY_MAP: Record<number, string> = {
   1: 'Oils',
@@ -29,6 +50,22 @@ export default function Inventory() {
   const [searchTerm, setSearchTerm] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
+  const [showLabels, setShowLabels] = useState(false);
+  const [showExpiry, setShowExpiry] = useState(false);
+  const [showLocations, setShowLocations] = useState(false);
+  const [showTransfers, setShowTransfers] = useState(false);
+  const [showStocktake, setShowStocktake] = useState(false);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  // '' shows every location's stock added together
+  const [locationId, setLocationId] = useState('');
+  const [fitmentItem, setFitmentItem] = useState<InventoryItem | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importSummary, setImportSummary] = useState<{ text: string; errors: string[] } | null>(null);
+  const [quantityDisplay, setQuantityDisplay] = useState<QuantityDisplay>(loadQuantityDisplay);
+  const branding = useBranding();
+  // Required whenever an edit changes the on-hand quantity
+  const [stockReason, setStockReason] = useState('');
   
   // Form state
   const [formData, setFormData] = useState({
@@ -40,14 +77,21 @@ export default function Inventory() {
     category_id: 1,
     min_stock_level: 5,
     quantity: 0,
-    active: true
+    bin: '',
+    active: true,
+    base_unit: DEFAULT_BASE_UNIT,
+    units: [] as ItemUnit[],
+    serialised: false,
+    warranty_months: null as number | null,
+    batch_tracked: false
   });
 
   useEffect(() => {
     fetchData();
-  }, []);
+  }, [locationId]);
 
   useEffect(() => {
+    setStockReason('');
     if (editingItem) {
       setFormData({
         name: editingItem?.name || '',
@@ -58,7 +102,13 @@ export default function Inventory() {
         category_id: editingItem?.category_id || 1,
         min_stock_level: editingItem?.min_stock_level || 5,
         quantity: editingItem?.quantity || 0,
-        active: editingItem?.active ?? true
+        bin: editingItem?.bin || '',
+        active: editingItem?.active ?? true,
+        base_unit: editingItem?.base_unit || DEFAULT_BASE_UNIT,
+        units: editingItem?.units || [],
+        serialised: editingItem?.serialised ?? false,
+        warranty_months: editingItem?.warranty_months ?? null,
+        batch_tracked: editingItem?.batch_tracked ?? false
       });
       setIsModalOpen(true);
     } else {
@@ -71,7 +121,13 @@ export default function Inventory() {
         category_id: 1,
         min_stock_level: 5,
         quantity: 0,
-        active: true
+        bin: '',
+        active: true,
+        base_unit: DEFAULT_BASE_UNIT,
+        units: [],
+        serialised: false,
+        warranty_months: null,
+        batch_tracked: false
       });
     }
   }, [editingItem]);
@@ -81,13 +137,14 @@ export default function Inventory() {
     setLoading(true);
     setError(null);
     try {
-      const { data, error: fetchError } = await supabase
-        .from('inventory')
-        .select('*')
-        .order('name', { ascending: true });
+      const [{ data, error: fetchError }, { data: locationData }] = await Promise.all([
+        listInventory(locationId || undefined),
+        listLocations()
+      ]);
 
       if (fetchError) throw fetchError;
       setItems(data || []);
+      setLocations(locationData || []);
     } catch (err: any) {
       console.error('Error fetching inventory:', err);
       if (err.message === 'Failed to fetch') {
@@ -106,13 +163,49 @@ export default function Inventory() {
     return isNaN(n) ? 0 : n;
   };
 
-  const totalAssetValue = items.reduce((acc, item) => acc + (safeNum(item?.cost_price) * safeNum(item?.quantity)), 0);
+  // Stock on the road between locations is still ours, so it is valued alongside what is on hand.
+  const totalAssetValue = items.reduce((acc, item) => acc + (safeNum(item?.cost_price) * (safeNum(item?.quantity) + safeNum(item?.in_transit))), 0);
+
+  // A consolidated total has no single place to count, so quantity is corrected per location.
+  const quantityLocked = !!editingItem && !locationId && locations.length > 1;
 
   const filteredItems = items.filter(item => 
     (item?.name || '').toLowerCase().includes((searchTerm || '').toLowerCase()) ||
     (item?.code || '').toLowerCase().includes((searchTerm || '').toLowerCase())
   );
 
+  const changeQuantityDisplay = (display: QuantityDisplay) => {
+    setQuantityDisplay(display);
+    saveQuantityDisplay(display);
+  };
+
+  const updateUnit = (index: number, patch: Partial<ItemUnit>) =>
+    setFormData({ ...formData, units: formData.units.map((unit, i) => (i === index ? { ...unit, ...patch } : unit)) });
+
+  // Fitment CSV: a header row naming the columns, then one vehicle and/or part number per row.
+  async function handleFitmentImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportSummary(null);
+    const parsed = parseFitmentCsv(await file.text());
+    if (parsed.rows.length === 0) {
+      setImportSummary({ text: 'Nothing imported', errors: parsed.errors.length > 0 ? parsed.errors : ['The file has no data rows.'] });
+      return;
+    }
+    setImporting(true);
+    const { data, error: importError } = await importFitment(parsed.rows);
+    setImporting(false);
+    if (importError || !data) {
+      setError('Fitment Import Error: ' + (importError?.message || 'Unknown error'));
+      return;
+    }
+    setImportSummary({
+      text: `${data.fitments} vehicles and ${data.cross_references} part numbers imported; ${data.duplicates} already recorded`,
+      errors: [...parsed.errors, ...data.errors]
+    });
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     
@@ -121,21 +214,38 @@ export default function Inventory() {
       return;
     }
 
+    const payload = {
+      ...formData,
+      base_unit: formData.base_unit.trim() || DEFAULT_BASE_UNIT,
+      bin: formData.bin.trim() || null,
+      units: formData.units.map(unit => ({ ...unit, name: unit.name.trim() }))
+    };
+    const unitErrors = validateItemUnits(payload.units, payload.base_unit);
+    if (unitErrors.length > 0) {
+      setError('Units Error: ' + unitErrors[0]);
+      return;
+    }
+
     try {
       if (editingItem) {
-        const { error: updateError } = await supabase
-          .from('inventory')
-          .update(formData)
-          .eq('id', editingItem.id);
+        // Stock changes are journalled as manual adjustments; other fields update in place.
+        const { quantity, ...details } = payload;
+        const quantityChanged = quantity !== safeNum(editingItem.quantity);
+        if (quantityChanged && !stockReason) {
+          setError('Stock Adjustment Error: select a reason for changing the quantity.');
+          return;
+        }
+
+        const { error: updateError } = quantityChanged
+          ? await updateInventoryItem(editingItem.id, payload, { reason: stockReason, locationId: locationId || undefined })
+          : await updateInventoryItem(editingItem.id, details);
         
         if (updateError) throw updateError;
       } else {
         const now = new Date();
         const timeString = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}:${now.getSeconds().toString().padStart(2, '0')}`;
         
-        const { error: insertError } = await supabase
-          .from('inventory')
-          .insert([{ ...formData, created_at: timeString }]);
+        const { error: insertError } = await createInventoryItem({ ...payload, created_at: timeString });
         
         if (insertError) throw insertError;
       }
@@ -154,10 +264,7 @@ export default function Inventory() {
     }
 
     try {
-      const { error: deleteError } = await supabase
-        .from('inventory')
-        .delete()
-        .eq('id', id);
+      const { error: deleteError } = await deleteInventoryItem(id);
 
       if (deleteError) throw deleteError;
       fetchData();
@@ -182,7 +289,7 @@ export default function Inventory() {
               <span className="text-[#FFD700] text-xl">$</span>
               {totalAssetValue.toLocaleString(undefined, { minimumFractionDigits: 2 })}
             </h2>
-            <p className="text-[10px] text-slate-600 mt-2 font-mono uppercase tracking-tighter">Inventory Liquidity</p>
+            <p className="text-[10px] text-slate-600 mt-2 font-mono uppercase tracking-tighter">{locationId ? locationName(locations, locationId) : 'Inventory Liquidity'}</p>
           </div>
           <div className="w-12 h-12 bg-white/5 rounded-2xl flex items-center justify-center text-[#FFD700] border border-white/5 group-hover:gold-glow transition-all">
             <DollarSign size={24} />
@@ -225,6 +332,24 @@ export default function Inventory() {
         </div>
       )}
 
+      {importSummary && (
+        <div className="bg-emerald-500/10 border border-emerald-500/20 rounded-2xl p-4 flex items-start gap-3 animate-in fade-in slide-in-from-top-2">
+          <CheckCircle2 className="text-emerald-500 shrink-0" size={20} />
+          <div className="flex-1">
+            <p className="text-sm font-black text-emerald-500 uppercase tracking-tighter">{importSummary.text}</p>
+            {importSummary.errors.slice(0, 20).map((message, index) => (
+              <p key={index} className="text-xs text-rose-400 mt-1 font-mono">{message}</p>
+            ))}
+            {importSummary.errors.length > 20 && (
+              <p className="text-xs text-rose-400 mt-1 font-mono">...and {importSummary.errors.length - 20} more</p>
+            )}
+          </div>
+          <button onClick={() => setImportSummary(null)} className="text-emerald-500/50 hover:text-emerald-500">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
       {/* Controls */}
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
         <div className="relative flex-1 max-w-md">
@@ -237,16 +362,87 @@ export default function Inventory() {
             className="w-full pl-10 pr-4 py-3 bg-white/5 border border-white/10 rounded-2xl text-sm focus:border-[#FFD700]/50 outline-none transition-all text-white placeholder:text-slate-700 font-medium"
           />
         </div>
-        <button 
-          onClick={() => {
-            setEditingItem(null);
-            setIsModalOpen(true);
-          }}
-          className="flex items-center gap-2 px-6 py-3 bg-[#FFD700] text-[#0a0a0a] rounded-2xl text-sm font-black hover:bg-[#FFD700]/90 transition-all shadow-[0_0_20px_rgba(255,215,0,0.2)] active:scale-95 uppercase tracking-tighter"
-        >
-          <Plus size={18} />
-          Register Item
-        </button>
+        <div className="flex items-center gap-3">
+          <select
+            value={locationId}
+            onChange={(e) => setLocationId(e.target.value)}
+            title="Stock at"
+            className="px-4 py-3 bg-white/5 border border-white/10 rounded-2xl text-sm focus:border-[#FFD700]/50 outline-none text-white font-bold"
+          >
+            <option value="" className="bg-[#0a0a0a]">All Locations</option>
+            {locations.map(l => <option key={l.id} value={l.id} className="bg-[#0a0a0a]">{l.name}</option>)}
+          </select>
+          <div className="flex bg-white/5 border border-white/10 rounded-2xl p-1" title="Show stock in">
+            {QUANTITY_DISPLAYS.map(option => (
+              <button
+                key={option.code}
+                onClick={() => changeQuantityDisplay(option.code)}
+                className={cn(
+                  "px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all",
+                  quantityDisplay === option.code ? "bg-[#FFD700] text-[#0a0a0a]" : "text-slate-500 hover:text-white"
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <label
+            title={`Columns: ${FITMENT_CSV_COLUMNS.join(', ')}`}
+            className={cn(
+              "flex items-center gap-2 px-6 py-3 bg-white/5 border border-white/10 text-white rounded-2xl text-sm font-black hover:border-[#FFD700]/50 transition-all uppercase tracking-tighter cursor-pointer",
+              importing && "opacity-50 pointer-events-none"
+            )}
+          >
+            <Upload size={18} />
+            Fitment CSV
+            <input type="file" accept=".csv,text/csv" onChange={handleFitmentImport} className="hidden" />
+          </label>
+          <button
+            onClick={() => setShowLabels(true)}
+            className="flex items-center gap-2 px-6 py-3 bg-white/5 border border-white/10 text-white rounded-2xl text-sm font-black hover:border-[#FFD700]/50 transition-all active:scale-95 uppercase tracking-tighter"
+          >
+            <Barcode size={18} />
+            Barcodes
+          </button>
+          <button
+            onClick={() => setShowExpiry(true)}
+            className="flex items-center gap-2 px-6 py-3 bg-white/5 border border-white/10 text-white rounded-2xl text-sm font-black hover:border-[#FFD700]/50 transition-all active:scale-95 uppercase tracking-tighter"
+          >
+            <CalendarClock size={18} />
+            Expiry
+          </button>
+          <button
+            onClick={() => setShowLocations(true)}
+            className="flex items-center gap-2 px-6 py-3 bg-white/5 border border-white/10 text-white rounded-2xl text-sm font-black hover:border-[#FFD700]/50 transition-all active:scale-95 uppercase tracking-tighter"
+          >
+            <MapPin size={18} />
+            Locations
+          </button>
+          <button
+            onClick={() => setShowTransfers(true)}
+            className="flex items-center gap-2 px-6 py-3 bg-white/5 border border-white/10 text-white rounded-2xl text-sm font-black hover:border-[#FFD700]/50 transition-all active:scale-95 uppercase tracking-tighter"
+          >
+            <ArrowRightLeft size={18} />
+            Transfers
+          </button>
+          <button
+            onClick={() => setShowStocktake(true)}
+            className="flex items-center gap-2 px-6 py-3 bg-white/5 border border-white/10 text-white rounded-2xl text-sm font-black hover:border-[#FFD700]/50 transition-all active:scale-95 uppercase tracking-tighter"
+          >
+            <ClipboardCheck size={18} />
+            Stocktake
+          </button>
+          <button 
+            onClick={() => {
+              setEditingItem(null);
+              setIsModalOpen(true);
+            }}
+            className="flex items-center gap-2 px-6 py-3 bg-[#FFD700] text-[#0a0a0a] rounded-2xl text-sm font-black hover:bg-[#FFD700]/90 transition-all shadow-[0_0_20px_rgba(255,215,0,0.2)] active:scale-95 uppercase tracking-tighter"
+          >
+            <Plus size={18} />
+            Register Item
+          </button>
+        </div>
       </div>
 
       {/* Inventory Table & Mobile List */}
@@ -287,6 +483,7 @@ export default function Inventory() {
                       <span className="text-[10px] font-mono bg-white/5 px-2 py-1 rounded border border-white/10 text-slate-400">
                         {item?.code || 'N/A'}
                       </span>
+                      {item?.bin && <span className="block mt-1 text-[10px] text-slate-600 font-mono">Bin {item.bin}</span>}
                     </td>
                     <td className="px-6 py-4">
                       <span className="text-xs font-black text-slate-400 uppercase tracking-tighter">
@@ -305,14 +502,31 @@ export default function Inventory() {
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center gap-2">
-                        <span className="text-xs font-black text-white">{item?.quantity ?? 0}</span>
+                        <span className="text-xs font-black text-white">{formatQuantity(item, item?.quantity ?? 0, quantityDisplay)}</span>
                         <span className="text-[10px] text-slate-600 font-bold uppercase">
                           (Min: {item?.min_stock_level ?? 5})
                         </span>
+                        {safeNum(item?.in_transit) > 0 && (
+                          <span className="text-[10px] text-amber-500 font-bold uppercase">+{formatQuantity(item, safeNum(item.in_transit), quantityDisplay)} in transit</span>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4 text-right">
                       <div className="flex items-center justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button 
+                           onClick={() => setHistoryItem(item)}
+                           className="p-2 text-slate-500 hover:text-[#FFD700] hover:bg-[#FFD700]/10 rounded-xl transition-all"
+                           title="Movement History"
+                         >
+                           <History size={16} />
+                         </button>
+                        <button 
+                           onClick={() => setFitmentItem(item)}
+                           className="p-2 text-slate-500 hover:text-[#FFD700] hover:bg-[#FFD700]/10 rounded-xl transition-all"
+                           title="Vehicle Fitment"
+                         >
+                           <Car size={16} />
+                         </button>
                         <button 
                            onClick={() => setEditingItem(item)}
                            className="p-2 text-slate-500 hover:text-[#FFD700] hover:bg-[#FFD700]/10 rounded-xl transition-all"
@@ -349,9 +563,11 @@ export default function Inventory() {
                 <div className="flex justify-between items-start">
                   <div>
                     <h3 className="font-black text-white uppercase tracking-tighter">{item.name}</h3>
-                    <p className="text-[10px] text-slate-600 font-mono">{item.code}</p>
+                    <p className="text-[10px] text-slate-600 font-mono">{item.code}{item.bin ? ` • Bin ${item.bin}` : ''}</p>
                   </div>
                   <div className="flex gap-2">
+                    <button onClick={() => setHistoryItem(item)} className="p-2 bg-white/5 rounded-lg text-slate-400"><History size={14} /></button>
+                    <button onClick={() => setFitmentItem(item)} className="p-2 bg-white/5 rounded-lg text-slate-400"><Car size={14} /></button>
                     <button onClick={() => setEditingItem(item)} className="p-2 bg-white/5 rounded-lg text-slate-400"><Edit2 size={14} /></button>
                     <button onClick={() => handleDelete(item.id)} className="p-2 bg-rose-500/10 rounded-lg text-rose-500"><Trash2 size={14} /></button>
                   </div>
@@ -363,7 +579,7 @@ export default function Inventory() {
                   </div>
                   <div>
                     <p className="text-[9px] font-black text-slate-600 uppercase tracking-widest">Stock Level</p>
-                    <p className="text-xs font-bold text-white">{item.quantity} <span className="text-[9px] text-slate-600">(Min: {item.min_stock_level})</span></p>
+                    <p className="text-xs font-bold text-white">{formatQuantity(item, item.quantity, quantityDisplay)} <span className="text-[9px] text-slate-600">(Min: {item.min_stock_level})</span>{safeNum(item.in_transit) > 0 && <span className="text-[9px] text-amber-500"> +{safeNum(item.in_transit)} in transit</span>}</p>
                   </div>
                   <div>
                     <p className="text-[9px] font-black text-slate-600 uppercase tracking-widest">Cost Price</p>
@@ -493,12 +709,18 @@ export default function Inventory() {
                     required
                     type="number" 
                     value={formData.quantity || 0}
+                    disabled={quantityLocked}
                     onChange={e => {
                       const val = parseInt(e.target.value);
                       setFormData({...formData, quantity: isNaN(val) ? 0 : val});
                     }}
-                    className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none text-white font-bold"
+                    className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none text-white font-bold disabled:opacity-50"
                   />
+                  {quantityLocked ? (
+                    <p className="text-[10px] text-slate-600 italic">Pick a location above to adjust its stock.</p>
+                  ) : editingItem && locationId && (
+                    <p className="text-[10px] text-slate-600 italic">On hand at {locationName(locations, locationId)}.</p>
+                  )}
                 </div>
                 <div className="space-y-2">
                   <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Min Stock Level</label>
@@ -515,6 +737,143 @@ export default function Inventory() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Bin / Shelf</label>
+                <input
+                  type="text"
+                  value={formData.bin}
+                  onChange={e => setFormData({...formData, bin: e.target.value})}
+                  placeholder="e.g. A-03"
+                  className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none text-white font-bold font-mono placeholder:text-slate-700"
+                />
+              </div>
+
+              <div className="space-y-3 p-4 bg-white/5 rounded-2xl border border-white/10">
+                <div className="flex items-end gap-4">
+                  <div className="space-y-2 flex-1">
+                    <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Base Unit</label>
+                    <input
+                      type="text"
+                      value={formData.base_unit}
+                      onChange={e => setFormData({...formData, base_unit: e.target.value})}
+                      className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none text-white font-bold placeholder:text-slate-800"
+                      placeholder="Bottle, Litre, Metre..."
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setFormData({...formData, units: [...formData.units, { name: '', factor: 12, selling_price: null, purchase: true, sale: true }]})}
+                    className="flex items-center gap-1 py-3 text-[10px] font-black text-[#FFD700] uppercase tracking-widest"
+                  >
+                    <Plus size={14} /> Add Pack
+                  </button>
+                </div>
+                <p className="text-[10px] text-slate-600 italic">Cost, price and quantity are per base unit. Packs convert at a whole number of base units.</p>
+                {formData.units.map((unit, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <input
+                      type="text"
+                      value={unit.name}
+                      onChange={e => updateUnit(index, { name: e.target.value })}
+                      className="col-span-3 px-3 py-2 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none text-white text-xs font-bold placeholder:text-slate-800"
+                      placeholder="Carton"
+                    />
+                    <input
+                      type="number"
+                      min={2}
+                      value={unit.factor || ''}
+                      onChange={e => updateUnit(index, { factor: parseInt(e.target.value) || 0 })}
+                      className="col-span-2 px-3 py-2 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none text-white text-xs font-bold"
+                      title={`${formData.base_unit || DEFAULT_BASE_UNIT} per pack`}
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={unit.selling_price ?? ''}
+                      onChange={e => {
+                        const val = parseFloat(e.target.value);
+                        updateUnit(index, { selling_price: isNaN(val) ? null : val });
+                      }}
+                      className="col-span-3 px-3 py-2 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none text-white text-xs font-bold placeholder:text-slate-700"
+                      placeholder={`$${(safeNum(formData.selling_price) * (unit.factor || 0)).toFixed(2)}`}
+                      title="Pack price; blank sells at the base price times the pack size"
+                    />
+                    <label className="col-span-1 flex flex-col items-center text-[8px] font-black text-slate-500 uppercase">
+                      <input type="checkbox" checked={unit.purchase} onChange={e => updateUnit(index, { purchase: e.target.checked })} />
+                      Buy
+                    </label>
+                    <label className="col-span-1 flex flex-col items-center text-[8px] font-black text-slate-500 uppercase">
+                      <input type="checkbox" checked={unit.sale} onChange={e => updateUnit(index, { sale: e.target.checked })} />
+                      Sell
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setFormData({...formData, units: formData.units.filter((_, i) => i !== index)})}
+                      className="col-span-2 flex justify-center text-slate-500 hover:text-rose-500"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-end gap-4 p-4 bg-white/5 rounded-2xl border border-white/10">
+                <label className="flex items-center gap-3 flex-1 py-3 text-xs font-black text-slate-400 cursor-pointer uppercase tracking-tighter">
+                  <input
+                    type="checkbox"
+                    checked={formData.serialised}
+                    onChange={e => setFormData({...formData, serialised: e.target.checked})}
+                    className="w-5 h-5 rounded border-white/10 bg-transparent text-[#FFD700] focus:ring-[#FFD700]"
+                  />
+                  Track Serial Numbers
+                </label>
+                <label className="flex items-center gap-3 flex-1 py-3 text-xs font-black text-slate-400 cursor-pointer uppercase tracking-tighter">
+                  <input
+                    type="checkbox"
+                    checked={formData.batch_tracked}
+                    onChange={e => setFormData({...formData, batch_tracked: e.target.checked})}
+                    className="w-5 h-5 rounded border-white/10 bg-transparent text-[#FFD700] focus:ring-[#FFD700]"
+                  />
+                  Track Batches & Expiry
+                </label>
+                <div className="space-y-2 flex-1">
+                  <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Warranty (Months)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={formData.warranty_months ?? ''}
+                    onChange={e => {
+                      const val = parseInt(e.target.value);
+                      setFormData({...formData, warranty_months: isNaN(val) ? null : val});
+                    }}
+                    className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none text-white font-bold placeholder:text-slate-800"
+                    placeholder="None"
+                  />
+                </div>
+              </div>
+
+              {editingItem && formData.quantity !== safeNum(editingItem.quantity) && (
+                <div className="space-y-4 p-4 bg-[#FFD700]/5 rounded-2xl border border-[#FFD700]/20">
+                  <p className="text-[10px] font-black text-[#FFD700] uppercase tracking-widest">
+                    Stock Adjustment: {safeNum(editingItem.quantity)} → {formData.quantity}
+                  </p>
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Reason</label>
+                    <select
+                      required
+                      value={stockReason}
+                      onChange={e => setStockReason(e.target.value)}
+                      className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none appearance-none font-bold text-white"
+                    >
+                      <option value="" disabled>Select reason...</option>
+                      {STOCK_ADJUSTMENT_REASONS.map(reason => (
+                        <option key={reason} value={reason}>{reason}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )}
+
               <div className="flex items-center gap-3 p-4 bg-white/5 rounded-2xl border border-white/10">
                 <input 
                   type="checkbox"
@@ -550,6 +909,59 @@ export default function Inventory() {
           </div>
         </div>
       )}
+
+      {historyItem && (
+        <MovementHistoryDrawer item={historyItem} onClose={() => setHistoryItem(null)} />
+      )}
+
+      {fitmentItem && (
+        <FitmentDrawer item={fitmentItem} items={items} onClose={() => setFitmentItem(null)} />
+      )}
+
+      {showLabels && (
+        <BarcodeLabelsDrawer
+          items={filteredItems}
+          branding={branding}
+          onClose={() => setShowLabels(false)}
+          onCodesAssigned={fetchData}
+        />
+      )}
+
+      {showExpiry && (
+        <ExpiryReportDrawer
+          items={items}
+          branding={branding}
+          onClose={() => setShowExpiry(false)}
+          onChanged={fetchData}
+        />
+      )}
+
+      {showLocations && (
+        <LocationsDrawer
+          locations={locations}
+          onClose={() => setShowLocations(false)}
+          onChanged={fetchData}
+        />
+      )}
+
+      {showTransfers && (
+        <TransfersDrawer
+          items={items}
+          locations={locations}
+          onClose={() => setShowTransfers(false)}
+          onChanged={fetchData}
+        />
+      )}
+
+      {showStocktake && (
+        <StocktakeDrawer
+          items={items}
+          locations={locations}
+          branding={branding}
+          onClose={() => setShowStocktake(false)}
+          onChanged={fetchData}
+        />
+      )}
     </div>
   );
 }
@@ -1,15 +1,13 @@
 import React, { useEffect, useState, useMemo } from 'react';
-import { supabase, isConfigured } from '../lib/supabase';
+import { isConfigured, listBusinessSummaries, listLedger, listInventory, getBusinessSummary, recordOutflow } from '../lib/data';
 import { Category, BusinessSummary, LedgerEntry } from '../types';
 import { 
   HeartPulse, 
   ArrowDownCircle, 
   History, 
   AlertCircle, 
-  Trash2, 
+  RotateCcw, 
   Edit3, 
-  Check, 
-  X,
   TrendingDown,
   ShieldCheck,
   DollarSign,
@@ -21,11 +19,24 @@ import {
   FileText
 } from 'lucide-react';
 import { cn } from '../lib/utils';
+import { AdjustedEntry, AdjustmentRequest, correctLedgerAmount, foldAdjustments, reasonLabel, reverseLedgerEntries } from '../lib/adjustments';
 import Loading from '../components/Loading';
+import AdjustmentDialog from '../components/AdjustmentDialog';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { drawPdfFooter, drawPdfHeader, pdfTableStyles, pdfTheme, setPdfTone } from '../lib/pdfTemplate';
+import { useBranding } from '../lib/useBranding';
+
+interface PendingAdjustment {
+  mode: 'reversal' | 'correction';
+  title: string;
+  summary: string;
+  currentAmount?: number;
+  submit: (request: AdjustmentRequest, amount?: number) => Promise<void>;
+}
 
 export default function Outflow() {
+  const branding = useBranding();
   const [summaries, setSummaries] = useState<BusinessSummary[]>([]);
   const [outflows, setOutflows] = useState<LedgerEntry[]>([]);
   const [loading, setLoading] = useState(true);
@@ -53,9 +64,8 @@ export default function Outflow() {
   const [selectedAnnualYear, setSelectedAnnualYear] = useState<number>(() => new Date().getFullYear());
   const [downloadingReport, setDownloadingReport] = useState<boolean>(false);
 
-  // Edit/Reverse state
-  const [editingId, setEditingId] = useState<string | null>(null);
-  const [editAmount, setEditAmount] = useState<number>(0);
+  // Reversal/correction dialog state
+  const [adjustment, setAdjustment] = useState<PendingAdjustment | null>(null);
 
   useEffect(() => {
     fetchData();
@@ -68,9 +78,9 @@ export default function Outflow() {
     try {
       // 1. Fetch Data in Parallel
       const [summaryRes, ledgerRes, inventoryRes] = await Promise.all([
-        supabase.from('business_summary').select('*'),
-        supabase.from('ledger').select('*').order('created_at', { ascending: false }),
-        supabase.from('inventory').select('*')
+        listBusinessSummaries(),
+        listLedger(),
+        listInventory()
       ]);
       
       if (summaryRes.error) console.warn('Business summary view might be missing:', summaryRes.error);
@@ -148,11 +158,7 @@ export default function Outflow() {
 
     try {
       // 1. Server-Side Trust: Fetch current balance before save
-      const { data: currentSummary, error: balanceError } = await supabase
-        .from('business_summary')
-        .select('*')
-        .eq('category_id', selectedCategoryId)
-        .single();
+      const { data: currentSummary, error: balanceError } = await getBusinessSummary(selectedCategoryId);
 
       if (balanceError) throw balanceError;
 
@@ -169,16 +175,14 @@ export default function Outflow() {
       }
 
       // 2. Atomic Transaction: Insert into ledger
-      const { error: insertError } = await supabase
-        .from('ledger')
-        .insert([{
-          category_id: selectedCategoryId,
-          amount: amount,
-          transaction_type: type,
-          fund_source: fundSource,
-          description: description.trim(),
-          created_at: new Date().toISOString()
-        }]);
+      const { error: insertError } = await recordOutflow({
+        category_id: selectedCategoryId,
+        amount: amount,
+        transaction_type: type,
+        fund_source: fundSource,
+        description: description.trim(),
+        created_at: new Date().toISOString()
+      });
 
       if (insertError) throw insertError;
 
@@ -194,37 +198,30 @@ export default function Outflow() {
     }
   }
 
-  async function handleReverse(id: string) {
-    if (!window.confirm('Reverse this transaction? This will restore the category health/profit immediately.')) return;
-    
-    try {
-      const { error: deleteError } = await supabase
-        .from('ledger')
-        .delete()
-        .eq('id', id);
-
-      if (deleteError) throw deleteError;
-      fetchData();
-    } catch (err) {
-      setError('Reversal Failed: ' + (err as any).message);
-    }
+  function handleReverse(adjusted: AdjustedEntry) {
+    setAdjustment({
+      mode: 'reversal',
+      title: 'Reverse Outflow',
+      summary: `Posts a compensating entry of $${adjusted.net.toLocaleString(undefined, { minimumFractionDigits: 2 })} that restores the category health/profit. The original entry stays in the ledger.`,
+      submit: async (request) => {
+        await reverseLedgerEntries({ entryIds: [String(adjusted.entry.id)] }, request);
+      }
+    });
   }
 
-  async function handleUpdateAmount(id: string) {
-    if (editAmount <= 0) return;
-    
-    try {
-      const { error: updateError } = await supabase
-        .from('ledger')
-        .update({ amount: editAmount })
-        .eq('id', id);
-
-      if (updateError) throw updateError;
-      setEditingId(null);
-      fetchData();
-    } catch (err) {
-      setError('Update Failed: ' + (err as any).message);
-    }
+  function handleUpdateAmount(adjusted: AdjustedEntry) {
+    setAdjustment({
+      mode: 'correction',
+      title: 'Correct Outflow Amount',
+      summary: 'Posts the difference as a correction entry linked to the original outflow.',
+      currentAmount: adjusted.net,
+      submit: async (request, newAmount) => {
+        if (!newAmount || newAmount <= 0) {
+          throw new Error('Amount must be positive. Use Reverse to cancel an outflow.');
+        }
+        await correctLedgerAmount(String(adjusted.entry.id), newAmount, request);
+      }
+    });
   }
 
   const safeNum = (val: any) => {
@@ -278,8 +275,10 @@ export default function Outflow() {
     let totalOutflow = 0;
     
     const statementRows = sortedEntries.map(entry => {
-      const isInflow = entry.transaction_type === 'sale';
-      const amount = entry.amount;
+      // Compensating entries carry the opposite sign, e.g. a reversed sale is money out
+      const signedAmount = entry.transaction_type === 'sale' ? entry.amount : -entry.amount;
+      const isInflow = signedAmount >= 0;
+      const amount = Math.abs(entry.amount);
       if (isInflow) {
         totalInflow += amount;
       } else {
@@ -352,36 +351,26 @@ export default function Outflow() {
 
     try {
       const doc = new jsPDF();
-      
-      // Outer Dark styling matching Sales.tsx but for financial statement
-      doc.setFillColor(15, 15, 15);
-      doc.rect(0, 0, 210, 297, 'F');
-      
-      // Header Section
-      doc.setTextColor(255, 215, 0); // Gold
-      doc.setFontSize(22);
-      doc.setFont('helvetica', 'bold');
-      doc.text('RETAILOS BANK STATEMENT', 15, 25);
-      
-      doc.setTextColor(200, 200, 200);
+      const theme = pdfTheme(branding);
+      const y = drawPdfHeader(doc, branding, 'Bank Statement', periodTitle);
+
+      setPdfTone(doc, branding, 'muted');
       doc.setFontSize(11);
-      doc.setFont('helvetica', 'normal');
-      doc.text(periodTitle, 15, 33);
-      doc.text(`Statement Period: ${periodLabel}`, 15, 39);
-      
+      doc.text(`Statement Period: ${periodLabel}`, 15, y - 4);
+
       // Metrics boxes/summary in PDF
-      doc.setFillColor(30, 30, 30);
-      doc.rect(15, 45, 180, 25, 'F');
-      
-      doc.setTextColor(255, 255, 255);
+      doc.setFillColor(...theme.panel);
+      doc.rect(15, y + 2, 180, 25, 'F');
+
+      setPdfTone(doc, branding, 'text');
       doc.setFontSize(9);
       doc.setFont('helvetica', 'bold');
-      doc.text('STATEMENT SUMMARY', 20, 51);
-      
+      doc.text('STATEMENT SUMMARY', 20, y + 8);
+
       doc.setFont('helvetica', 'normal');
-      doc.text(`Total Inflows (+):  $${bankStatementData.totalInflow.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 20, 58);
-      doc.text(`Total Outflows (-): $${bankStatementData.totalOutflow.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 20, 64);
-      
+      doc.text(`Total Inflows (+):  $${bankStatementData.totalInflow.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 20, y + 15);
+      doc.text(`Total Outflows (-): $${bankStatementData.totalOutflow.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 20, y + 21);
+
       const netPos = bankStatementData.netChange;
       if (netPos >= 0) {
         doc.setTextColor(16, 185, 129); // Green
@@ -389,11 +378,11 @@ export default function Outflow() {
         doc.setTextColor(239, 68, 68); // Red
       }
       doc.setFont('helvetica', 'bold');
-      doc.text(`Net Position:      $${netPos.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 110, 58);
-      
-      doc.setTextColor(255, 255, 255);
+      doc.text(`Net Position:      $${netPos.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 110, y + 15);
+
+      setPdfTone(doc, branding, 'text');
       doc.setFont('helvetica', 'normal');
-      doc.text(`Total Transactions: ${rows.length}`, 110, 64);
+      doc.text(`Total Transactions: ${rows.length}`, 110, y + 21);
 
       // Create Statement Table rows
       const tableBody = rows.map(item => {
@@ -429,19 +418,13 @@ export default function Outflow() {
       });
 
       autoTable(doc, {
-        startY: 75,
+        ...pdfTableStyles(branding),
+        startY: y + 32,
         head: [['Date/Time', 'Description', 'Type', 'Category/Source', 'Inflow (+)', 'Outflow (-)']],
-        body: tableBody,
-        theme: 'grid',
-        headStyles: { fillColor: [24, 24, 27], textColor: [255, 215, 0] },
-        bodyStyles: { fillColor: [15, 15, 15], textColor: [255, 255, 255] },
-        alternateRowStyles: { fillColor: [22, 22, 24] },
-        margin: { top: 75 }
+        body: tableBody
       });
 
-      doc.setTextColor(100, 100, 100);
-      doc.setFontSize(8);
-      doc.text('RetailOS Automated Financial Audit System - Confidential Bank Statement Format', 15, doc.internal.pageSize.height - 10);
+      drawPdfFooter(doc, branding, 'Confidential Bank Statement');
 
       doc.save(`Financial_Statement_${dateStrForFile}.pdf`);
     } catch (err) {
@@ -462,6 +445,8 @@ export default function Outflow() {
     .filter(item => ['capital_withdrawal', 'CAPITAL_WITHDRAWAL'].includes(item.transaction_type || ''))
     .reduce((sum, item) => sum + (item.amount || 0), 0);
 
+  const outflowLines = foldAdjustments(outflows);
+
   return (
     <div className="space-y-8 max-w-7xl mx-auto">
       {/* Financial Metrics Summary */}
@@ -903,7 +888,7 @@ export default function Outflow() {
                 Outflow Archive
               </h2>
               <span className="text-[10px] font-black bg-white/5 border border-white/10 px-3 py-1 rounded-full text-slate-500 uppercase tracking-widest">
-                {outflows.length} Records
+                {outflowLines.length} Records
               </span>
             </div>
 
@@ -919,7 +904,7 @@ export default function Outflow() {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-white/5">
-                  {outflows.length === 0 ? (
+                  {outflowLines.length === 0 ? (
                     <tr>
                       <td colSpan={5} className="px-6 py-20 text-center">
                         <div className="max-w-xs mx-auto opacity-20">
@@ -929,7 +914,7 @@ export default function Outflow() {
                       </td>
                     </tr>
                   ) : (
-                    outflows.map((item) => (
+                    outflowLines.map(({ entry: item, reversal, corrections, returns, net }) => (
                       <tr key={item.id} className="hover:bg-white/5 transition-colors group">
                         <td className="px-6 py-4">
                           <p className="text-xs font-black text-white uppercase tracking-tighter">{new Date(item.created_at).toLocaleDateString()}</p>
@@ -956,47 +941,50 @@ export default function Outflow() {
                           </div>
                         </td>
                         <td className="px-6 py-4 text-right">
-                          {editingId === item.id ? (
-                            <div className="flex items-center justify-end gap-2">
-                              <input 
-                                type="number"
-                                value={editAmount}
-                                onChange={(e) => setEditAmount(parseFloat(e.target.value) || 0)}
-                                className="w-20 px-2 py-1 bg-white/5 border border-[#FFD700]/50 rounded text-xs font-black outline-none text-white"
-                                autoFocus
-                              />
-                              <button onClick={() => handleUpdateAmount(item.id)} className="p-1 text-emerald-500 hover:bg-emerald-500/10 rounded">
-                                <Check size={14} />
+                          <span className={cn(
+                            "text-sm font-black text-white group-hover:gold-text transition-colors",
+                            (reversal || corrections.length > 0 || returns.length > 0) && "text-slate-500 line-through"
+                          )}>
+                            ${item.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                          </span>
+                          {(reversal || corrections.length > 0 || returns.length > 0) && (
+                            <p className="text-[10px] font-black text-[#FFD700] uppercase tracking-tighter">
+                              Net: ${net.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                            </p>
+                          )}
+                          {[...corrections, ...returns, ...(reversal ? [reversal] : [])].map(adj => (
+                            <p key={adj.id} className={cn(
+                              "text-[9px] font-black uppercase tracking-tighter mt-0.5",
+                              adj.adjustment_kind === 'reversal' ? "text-rose-500" : adj.adjustment_kind === 'return' ? "text-sky-400" : "text-amber-400"
+                            )}>
+                              {adj.adjustment_kind === 'reversal' ? 'Reversed' : adj.adjustment_kind === 'return' ? 'Returned' : 'Corrected'} {safeNum(adj.amount) < 0 ? '-' : '+'}${Math.abs(safeNum(adj.amount)).toLocaleString(undefined, { minimumFractionDigits: 2 })} • {reasonLabel(adj.reason_code)} • {adj.adjusted_by}
+                            </p>
+                          ))}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          {reversal || item.adjusts_id || returns.length > 0 ? (
+                            <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest">
+                              {reversal ? 'Reversed' : item.adjusts_id ? 'Adjustment' : 'Returned'}
+                            </span>
+                          ) : (
+                            <div className="flex items-center justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                              <button 
+                                onClick={() => handleUpdateAmount({ entry: item, reversal, corrections, returns, net })}
+                                className="p-2 text-slate-600 hover:text-[#FFD700] hover:bg-[#FFD700]/10 rounded-xl transition-all"
+                                title="Correct Amount"
+                              >
+                                <Edit3 size={14} />
                               </button>
-                              <button onClick={() => setEditingId(null)} className="p-1 text-slate-500 hover:bg-white/5 rounded">
-                                <X size={14} />
+                              <button 
+                                onClick={() => handleReverse({ entry: item, reversal, corrections, returns, net })}
+                                className="p-2 text-slate-600 hover:text-rose-500 hover:bg-rose-500/10 rounded-xl transition-all"
+                                title="Reverse"
+                              >
+                                <RotateCcw size={14} />
                               </button>
                             </div>
-                          ) : (
-                            <span className="text-sm font-black text-white group-hover:gold-text transition-colors">
-                              ${item.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}
-                            </span>
                           )}
                         </td>
-                        <td className="px-6 py-4 text-right">
-                          <div className="flex items-center justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                            <button 
-                              onClick={() => {
-                                setEditingId(item.id);
-                                setEditAmount(item.amount);
-                              }}
-                              className="p-2 text-slate-600 hover:text-[#FFD700] hover:bg-[#FFD700]/10 rounded-xl transition-all"
-                            >
-                              <Edit3 size={14} />
-                            </button>
-                            <button 
-                              onClick={() => handleReverse(item.id)}
-                              className="p-2 text-slate-600 hover:text-rose-500 hover:bg-rose-500/10 rounded-xl transition-all"
-                            >
-                              <Trash2 size={14} />
-                            </button>
-                          </div>
-                        </td>
                       </tr>
                     ))
                   )}
@@ -1006,6 +994,22 @@ export default function Outflow() {
           </div>
         </div>
       </div>
+
+      {adjustment && (
+        <AdjustmentDialog
+          mode={adjustment.mode}
+          title={adjustment.title}
+          summary={adjustment.summary}
+          currentAmount={adjustment.currentAmount}
+          initialAmount={adjustment.currentAmount}
+          onClose={() => setAdjustment(null)}
+          onSubmit={async (request, amount) => {
+            await adjustment.submit(request, amount);
+            setAdjustment(null);
+            fetchData();
+          }}
+        />
+      )}
     </div>
   );
 }
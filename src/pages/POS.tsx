@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { supabase, isConfigured } from '../lib/supabase';
-import { InventoryItem } from '../types';
+import { authHeaders, isConfigured, listBusinessSummaries, listInventory, listCustomers, createCustomer, listShifts, getMobileMoneyGateway, requestMobileMoneyPayment, getMobileMoneyRequest, cancelMobileMoneyRequest, createQuote, getReceiptPrinter, printReceipt, getReceiptLink, getFitmentCatalogue, listSerials, listBatches, listLocations, listTerminalLocations } from '../lib/data';
+import { CartLine, CashShift, Customer, FitmentCatalogue, InventoryItem, MobileMoneyProvider, MobileMoneyRequest, ParkedCart, QueuedSale, Quote, QuoteKind, SalePayment, SalePostResult, StockBatch, StockLocation, TenderMethod, VehicleQuery } from '../types';
 import { 
   Search, 
   ShoppingCart, 
@@ -24,9 +24,32 @@ import {
   Lock,
   Unlock,
   Printer,
-  FileText
+  FileText,
+  Wallet,
+  Smartphone,
+  Loader2,
+  PauseCircle,
+  PlayCircle,
+  Undo2,
+  Car
 } from 'lucide-react';
 import { cn } from '../lib/utils';
+import { cartLinePrice, DEFAULT_TERMINAL_ID, nextReceiptNo, paymentMethodFor, receiptLinesFromCart, TENDER_METHODS, tenderKey, tenderLabel, tenderTotal, toSaleHeader } from '../lib/sales';
+import { availableCredit, LEGACY_CUSTOMERS_KEY, legacyCustomerNames, pendingCreditTotal, WALK_IN_CUSTOMER } from '../lib/customers';
+import { isValidMsisdn, MOBILE_MONEY_PROVIDERS, mobileMoneyProviderLabel } from '../lib/mobileMoney';
+import { loadParkedCarts, parkedCartSubtotal, recheckCartStock, saveParkedCarts } from '../lib/parkedCarts';
+import { DEFAULT_QUOTE_VALIDITY_DAYS, QUOTE_KINDS, quoteToCart, validUntilDate } from '../lib/quotes';
+import { useBranding } from '../lib/useBranding';
+import { createScanDetector, findItemByCode, parseScanInput } from '../lib/barcodes';
+import { EMPTY_VEHICLE_QUERY, isVehicleQueryActive, itemsFittingVehicle, itemsMatchingPartNumber, vehicleMakes, vehicleModels } from '../lib/fitment';
+import { baseQuantity, cartUnitLabel, formatQuantity, loadQuantityDisplay, saleUnits, unitFactor } from '../lib/units';
+import { isSerialised, normalizeSerial, validateSerials } from '../lib/warranty';
+import { expiryNote, expiryState, fefoAllocation, isBatchTracked } from '../lib/batches';
+import { terminalLocationId } from '../lib/locations';
+import Receipt from '../components/Receipt';
+import ShiftDrawer from '../components/ShiftDrawer';
+import ReturnsDrawer from '../components/ReturnsDrawer';
+import QuotesDrawer, { downloadQuotePdf } from '../components/QuotesDrawer';
 
 const CATEGORY_MAP: Record<number, string> = {
   1: 'Oils',
@@ -39,54 +62,58 @@ const safeNum = (val: any) => {
   return isNaN(n) ? 0 : n;
 };
 
-interface QueuedSale {
-  id: string;
-  cart: {
-    item: InventoryItem;
-    quantity: number;
-    customPrice?: number;
-  }[];
-  paymentMethod: string;
-  timestamp: string;
-  subtotal: number;
-  discount: number;
-  discountType: 'percent' | 'flat';
-  discountValue: number;
-  taxRate: number;
-  taxAmount: number;
-  total: number;
-  discountCategoryId: string | number;
-  customerName: string;
-  cashierName: string;
-  amountPaid?: number;
-  changeAmount?: number;
-}
+// A line sold down to fewer units drops the serials scanned last.
+const withSerialsTrimmed = (line: CartLine): CartLine =>
+  line.serials && line.serials.length > baseQuantity(line) ? { ...line, serials: line.serials.slice(0, baseQuantity(line)) } : line;
 
 interface PosSettings {
-  storeName: string;
   taxRate: number;
   cashierName: string;
-  receiptFooter: string;
+  terminalId: string;
 }
 
-interface Customer {
-  id: string;
-  name: string;
+interface SyncConflict {
+  sale: QueuedSale;
+  result: SalePostResult;
 }
 
-const DEFAULT_CUSTOMERS: Customer[] = [
-  { id: '1', name: 'Walk-in Customer' },
-  { id: '2', name: 'John Doe (VIP)' },
-  { id: '3', name: 'Jane Smith (Retail)' }
-];
-
 const DEFAULT_SETTINGS: PosSettings = {
-  storeName: 'RetailOS Vault',
   taxRate: 0,
   cashierName: 'Cashier A',
-  receiptFooter: 'Thank you for your business!'
+  terminalId: DEFAULT_TERMINAL_ID
 };
 
+const loadLegacyCustomers = (): unknown[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LEGACY_CUSTOMERS_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+// Registers customers cached before accounts existed. They get no credit (limit 0) until a manager
+// sets one in Customer Accounts; names that fail to register are kept for the next fetch.
+async function importLegacyCustomers(existing: Customer[]): Promise<Customer[]> {
+  const pending = loadLegacyCustomers();
+  if (pending.length === 0) return [];
+  localStorage.removeItem(LEGACY_CUSTOMERS_KEY);
+
+  const imported: Customer[] = [];
+  const failed: { name: string }[] = [];
+  for (const name of legacyCustomerNames(pending, existing)) {
+    const { data, error } = await createCustomer({ name, credit_limit: 0 });
+    if (error || !data) {
+      console.warn(`Could not register cached customer ${name}:`, error);
+      failed.push({ name });
+    } else {
+      imported.push(data);
+    }
+  }
+  if (failed.length > 0) localStorage.setItem(LEGACY_CUSTOMERS_KEY, JSON.stringify(failed));
+  return imported;
+}
+
 // Memoized Product Item Component for optimal performance
 const ProductItem = React.memo(({ item, onAdd }: { item: InventoryItem, onAdd: (item: InventoryItem) => void }) => {
   const isOutOfStock = item.quantity <= 0;
@@ -130,7 +157,7 @@ const ProductItem = React.memo(({ item, onAdd }: { item: InventoryItem, onAdd: (
           "text-[9px] font-bold uppercase tracking-widest",
           item.quantity > 5 ? "text-emerald-500" : "text-rose-500"
         )}>
-          {item.quantity} In Stock
+          {formatQuantity(item, item.quantity, loadQuantityDisplay())} In Stock
         </p>
       </div>
     </button>
@@ -140,28 +167,72 @@ const ProductItem = React.memo(({ item, onAdd }: { item: InventoryItem, onAdd: (
 export default function POS() {
   const [searchQuery, setSearchQuery] = useState('');
   const [allProducts, setAllProducts] = useState<InventoryItem[]>([]);
-  const [cart, setCart] = useState<{item: InventoryItem, quantity: number, customPrice?: number}[]>([]);
+  const [fitmentCatalogue, setFitmentCatalogue] = useState<FitmentCatalogue>({ fitments: [], cross_references: [] });
+  const [showVehicleSearch, setShowVehicleSearch] = useState(false);
+  const [vehicleQuery, setVehicleQuery] = useState<VehicleQuery>(EMPTY_VEHICLE_QUERY);
+  const [cart, setCart] = useState<CartLine[]>([]);
+  // The open quote the cart was converted from; it stays open until the sale posts
+  const [cartQuoteId, setCartQuoteId] = useState<string | undefined>();
+  const [serialOptions, setSerialOptions] = useState<Record<string, string[]>>({});
+  const [batches, setBatches] = useState<StockBatch[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [isSyncing, setIsSyncing] = useState(false);
   const [queuedSales, setQueuedSales] = useState<QueuedSale[]>([]);
-  const [paymentMethod, setPaymentMethod] = useState<'Cash' | 'Card' | 'Credit'>('Cash');
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [tenderMethod, setTenderMethod] = useState<TenderMethod>('Cash');
+  const [tenders, setTenders] = useState<SalePayment[]>([]);
   const [showReceipt, setShowReceipt] = useState(false);
   const [lastTransaction, setLastTransaction] = useState<QueuedSale | null>(null);
+  const [receiptLink, setReceiptLink] = useState<string | null>(null);
   const [isLoadingProducts, setIsLoadingProducts] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
 
   // Offline Specific States
   const [role, setRole] = useState<'Cashier' | 'Manager'>('Cashier');
-  const [customers, setCustomers] = useState<Customer[]>(DEFAULT_CUSTOMERS);
-  const [selectedCustomer, setSelectedCustomer] = useState('Walk-in Customer');
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [selectedCustomerId, setSelectedCustomerId] = useState(''); // '' is the walk-in customer
   const [posSettings, setPosSettings] = useState<PosSettings>(DEFAULT_SETTINGS);
+  const branding = useBranding();
+  const [quantityDisplay] = useState(loadQuantityDisplay);
+  const [activeShift, setActiveShift] = useState<CashShift | null>(null);
+  // The location this terminal sells from, cached so an offline till still shows its own shelves
+  const [stockLocation, setStockLocation] = useState<StockLocation | null>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('retailos_stock_location') || 'null');
+    } catch {
+      return null;
+    }
+  });
+  const stockLocationId = stockLocation ? String(stockLocation.id) : undefined;
+  const [showShiftDrawer, setShowShiftDrawer] = useState(false);
+  const [showReturnsDrawer, setShowReturnsDrawer] = useState(false);
+  const [parkedCarts, setParkedCarts] = useState<ParkedCart[]>([]);
+  const [showParkModal, setShowParkModal] = useState(false);
+  const [parkName, setParkName] = useState('');
+  const [showParkedList, setShowParkedList] = useState(false);
+  const [showQuoteModal, setShowQuoteModal] = useState(false);
+  const [quoteKind, setQuoteKind] = useState<QuoteKind>('quotation');
+  const [quoteCustomerName, setQuoteCustomerName] = useState('');
+  const [quoteValidityDays, setQuoteValidityDays] = useState(String(DEFAULT_QUOTE_VALIDITY_DAYS));
+  const [quoteNotes, setQuoteNotes] = useState('');
+  const [isSavingQuote, setIsSavingQuote] = useState(false);
+  const [showQuotesDrawer, setShowQuotesDrawer] = useState(false);
+  const [quotesSearch, setQuotesSearch] = useState('');
   
-  // Discount & Paid States
+  // Discount & Tender States
   const [discountType, setDiscountType] = useState<'percent' | 'flat'>('flat');
   const [discountValue, setDiscountValue] = useState<number>(0);
   const [discountInput, setDiscountInput] = useState<string>('');
   const [amountPaidInput, setAmountPaidInput] = useState<string>('');
+  const [tenderReference, setTenderReference] = useState<string>('');
+  const [mobileProvider, setMobileProvider] = useState<MobileMoneyProvider>('mpesa');
+  const [mobileMsisdn, setMobileMsisdn] = useState('');
+  const [mobileRequest, setMobileRequest] = useState<MobileMoneyRequest | null>(null); // Awaiting the customer
+  const [mobileMessage, setMobileMessage] = useState<string | null>(null);
+  const [mobileGateway, setMobileGateway] = useState<string | null>(null);
+  const [receiptPrinter, setReceiptPrinter] = useState<string | null>(null); // Server thermal printer, if any
+  const [isThermalPrinting, setIsThermalPrinting] = useState(false);
 
   // Modals States
   const [showSettingsModal, setShowSettingsModal] = useState(false);
@@ -170,14 +241,14 @@ export default function POS() {
   
   // PIN Verification Modal State
   const [showPinModal, setShowPinModal] = useState(false);
-  const [pinPurpose, setPinPurpose] = useState<'switch_role' | 'apply_discount' | 'override_price' | 'flush_cart' | null>(null);
+  const [pinPurpose, setPinPurpose] = useState<'switch_role' | 'apply_discount' | 'override_price' | 'flush_cart' | 'discard_sale' | 'credit_override' | 'process_return' | 'sell_expired' | null>(null);
   const [pinValue, setPinValue] = useState('');
   const [pinError, setPinError] = useState('');
   const [onPinApproved, setOnPinApproved] = useState<(() => void) | null>(null);
 
   // Cart item editing state
   const [showEditItemModal, setShowEditItemModal] = useState(false);
-  const [editingCartItem, setEditingCartItem] = useState<{ item: InventoryItem; quantity: number; customPrice?: number } | null>(null);
+  const [editingCartItem, setEditingCartItem] = useState<CartLine | null>(null);
   const [editingCartItemPrice, setEditingCartItemPrice] = useState('');
   const [editingCartItemQty, setEditingCartItemQty] = useState('');
 
@@ -189,6 +260,11 @@ export default function POS() {
     searchInputRef.current?.focus();
   }, []);
 
+  // A cart that is sold, parked or cleared no longer carries its quote
+  useEffect(() => {
+    if (cart.length === 0) setCartQuoteId(undefined);
+  }, [cart.length]);
+
   // Monitor Online Status & Initial Local State Loads
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -201,22 +277,37 @@ export default function POS() {
       const savedQueue = localStorage.getItem('offline_sales_queue');
       if (savedQueue) setQueuedSales(JSON.parse(savedQueue));
 
+      const savedConflicts = localStorage.getItem('retailos_sync_conflicts');
+      if (savedConflicts) setSyncConflicts(JSON.parse(savedConflicts));
+
+      // Entries cached before customer accounts existed have no credit_limit; they are set aside
+      // and registered as accounts on the next customer fetch.
       const savedCustomers = localStorage.getItem('retailos_customers_cache');
       if (savedCustomers) {
-        setCustomers(JSON.parse(savedCustomers));
-      } else {
-        localStorage.setItem('retailos_customers_cache', JSON.stringify(DEFAULT_CUSTOMERS));
+        const parsed = JSON.parse(savedCustomers);
+        if (Array.isArray(parsed)) {
+          setCustomers(parsed.filter(c => c && c.credit_limit !== undefined));
+          const legacy = parsed.filter(c => c && c.credit_limit === undefined);
+          if (legacy.length > 0) {
+            localStorage.setItem(LEGACY_CUSTOMERS_KEY, JSON.stringify([...loadLegacyCustomers(), ...legacy]));
+          }
+        }
       }
 
       const savedSettings = localStorage.getItem('retailos_pos_settings');
       if (savedSettings) {
-        setPosSettings(JSON.parse(savedSettings));
+        setPosSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(savedSettings) });
       } else {
         localStorage.setItem('retailos_pos_settings', JSON.stringify(DEFAULT_SETTINGS));
       }
 
       const savedRole = localStorage.getItem('retailos_active_role') as 'Cashier' | 'Manager';
       if (savedRole) setRole(savedRole);
+
+      const savedShift = localStorage.getItem('retailos_active_shift');
+      if (savedShift) setActiveShift(JSON.parse(savedShift));
+
+      setParkedCarts(loadParkedCarts());
     } catch (e) {
       console.error('Failed to load initial offline state:', e);
     }
@@ -243,7 +334,7 @@ export default function POS() {
     const loadCategories = async () => {
       if (!isConfigured || !isOnline) return;
       try {
-        const { data } = await supabase.from('business_summary').select('category_name');
+        const { data } = await listBusinessSummaries();
         if (data && data.length > 0) {
           const catNames = Array.from(new Set(data.map(d => d.category_name || 'General')));
           setCategories(catNames);
@@ -256,6 +347,106 @@ export default function POS() {
     loadCategories();
   }, [isOnline]);
 
+  // Customer accounts, cached for offline credit checks
+  const fetchCustomers = useCallback(async () => {
+    if (!isConfigured || !navigator.onLine) return;
+    const { data, error } = await listCustomers();
+    if (error) {
+      console.warn('Customer fetch failure:', error);
+      return;
+    }
+    const imported = await importLegacyCustomers(data || []);
+    const all = [...(data || []), ...imported];
+    setCustomers(all);
+    localStorage.setItem('retailos_customers_cache', JSON.stringify(all));
+  }, []);
+
+  useEffect(() => {
+    if (isOnline) fetchCustomers();
+  }, [isOnline, fetchCustomers]);
+
+  // The open cash shift on this terminal, cached so sales rung up offline still carry it
+  const updateActiveShift = useCallback((shift: CashShift | null) => {
+    setActiveShift(shift);
+    if (shift) localStorage.setItem('retailos_active_shift', JSON.stringify(shift));
+    else localStorage.removeItem('retailos_active_shift');
+  }, []);
+
+  useEffect(() => {
+    if (!isConfigured || !isOnline) return;
+    const terminalId = posSettings.terminalId.trim() || DEFAULT_TERMINAL_ID;
+    listShifts({ terminalId, status: 'open' }).then(({ data, error }) => {
+      if (error) {
+        console.warn('Shift fetch failure:', error);
+        return;
+      }
+      updateActiveShift(data?.[0] || null);
+    });
+  }, [isOnline, posSettings.terminalId, updateActiveShift]);
+
+  // Binding is kept on the server, which also uses it to decide where a synced sale takes stock from.
+  useEffect(() => {
+    if (!isConfigured || !isOnline) return;
+    const terminalId = posSettings.terminalId.trim() || DEFAULT_TERMINAL_ID;
+    Promise.all([listTerminalLocations(), listLocations()]).then(([bindings, locations]) => {
+      if (bindings.error || locations.error) {
+        console.warn('Location fetch failure:', bindings.error || locations.error);
+        return;
+      }
+      const id = terminalLocationId(bindings.data || [], locations.data || [], terminalId);
+      const location = (locations.data || []).find(l => String(l.id) === id) || null;
+      setStockLocation(location);
+      if (location) localStorage.setItem('retailos_stock_location', JSON.stringify(location));
+      else localStorage.removeItem('retailos_stock_location');
+    });
+  }, [isOnline, posSettings.terminalId]);
+
+  useEffect(() => {
+    if (!isConfigured || !isOnline) return;
+    getMobileMoneyGateway().then(({ data }) => setMobileGateway(data?.gateway || null));
+    getReceiptPrinter().then(({ data }) => setReceiptPrinter(data?.printer || null));
+  }, [isOnline]);
+
+  // The verification link only exists once the sale has synced to the server
+  const lastTransactionSynced = Boolean(lastTransaction) && !queuedSales.some(s => s.id === lastTransaction?.id);
+  useEffect(() => {
+    setReceiptLink(null);
+    if (!isConfigured || !isOnline || !showReceipt || !lastTransaction || !lastTransactionSynced) return;
+    let active = true;
+    getReceiptLink(lastTransaction.id).then(({ data }) => {
+      if (active) setReceiptLink(data?.url || null);
+    });
+    return () => { active = false; };
+  }, [isOnline, showReceipt, lastTransaction, lastTransactionSynced]);
+
+  // Poll a pending mobile money request until the customer approves or declines it on their phone
+  useEffect(() => {
+    if (!mobileRequest) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const poll = async () => {
+      const { data } = await getMobileMoneyRequest(mobileRequest.id);
+      if (cancelled) return;
+      if (data?.status === 'confirmed') {
+        setTenders(prev => [...prev, { method: 'Mobile Money', amount: data.amount, provider: data.provider, reference: data.transaction_id }]);
+        setMobileMessage(`${mobileMoneyProviderLabel(data.provider)} ${data.transaction_id} confirmed.`);
+        setMobileRequest(null);
+        return;
+      }
+      if (data && data.status !== 'pending') {
+        setMobileMessage(data.message || `Request ${data.status}.`);
+        setMobileRequest(null);
+        return;
+      }
+      timer = setTimeout(poll, 2000);
+    };
+    timer = setTimeout(poll, 2000);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mobileRequest]);
+
   // Fetch all products for local search
   const fetchProducts = useCallback(async () => {
     setIsLoadingProducts(true);
@@ -272,6 +463,10 @@ export default function POS() {
           loadedFromCache = true;
         }
       }
+      const cachedFitment = localStorage.getItem('retailos_fitment_cache');
+      if (cachedFitment) setFitmentCatalogue(JSON.parse(cachedFitment));
+      const cachedBatches = localStorage.getItem('retailos_batch_cache');
+      if (cachedBatches) setBatches(JSON.parse(cachedBatches));
     } catch (e) {
       console.warn('Failed to parse inventory cache', e);
     }
@@ -282,10 +477,7 @@ export default function POS() {
     }
 
     try {
-      const { data, error } = await supabase
-        .from('inventory')
-        .select('*')
-        .order('name');
+      const { data, error } = await listInventory(stockLocationId);
       
       if (error) throw error;
       
@@ -294,6 +486,18 @@ export default function POS() {
       
       // Save to cache for offline resilience
       localStorage.setItem('retailos_inventory_cache', JSON.stringify(products));
+
+      const { data: catalogue } = await getFitmentCatalogue();
+      if (catalogue) {
+        setFitmentCatalogue(catalogue);
+        localStorage.setItem('retailos_fitment_cache', JSON.stringify(catalogue));
+      }
+
+      const { data: openBatches } = await listBatches({ status: 'available', locationId: stockLocationId });
+      if (openBatches) {
+        setBatches(openBatches);
+        localStorage.setItem('retailos_batch_cache', JSON.stringify(openBatches));
+      }
     } catch (err: any) {
       console.error('Error fetching products:', err);
       setFetchError(err.message || 'Database connection offline.');
@@ -303,23 +507,28 @@ export default function POS() {
     } finally {
       setIsLoadingProducts(false);
     }
-  }, []);
+  }, [stockLocationId]);
 
   useEffect(() => {
     fetchProducts();
   }, [fetchProducts]);
 
-  // High-performance local search checking Name, SKU/Code, Category
+  // High-performance local search checking Name, SKU/Code, Category and part numbers, within the
+  // parts that fit the chosen vehicle when one is set
   const filteredProducts = useMemo(() => {
     try {
       const trimmedQuery = searchQuery.trim().toLowerCase();
+      const fitting = isVehicleQueryActive(vehicleQuery) ? itemsFittingVehicle(fitmentCatalogue.fitments, vehicleQuery) : null;
+      const candidates = fitting ? allProducts.filter(p => p && fitting.has(String(p.id))) : allProducts;
       if (!trimmedQuery) {
-        return allProducts.slice(0, 100); // Top 100 products for super fast responsive list
+        return candidates.slice(0, 100); // Top 100 products for super fast responsive list
       }
+      const byPartNumber = itemsMatchingPartNumber(fitmentCatalogue.cross_references, trimmedQuery);
       const terms = trimmedQuery.split(/\s+/).filter(Boolean);
       
-      return allProducts.filter(p => {
+      return candidates.filter(p => {
         if (!p) return false;
+        if (byPartNumber.has(String(p.id))) return true;
         const name = String(p.name || '').toLowerCase();
         const code = String(p.code || '').toLowerCase();
         const categoryIdStr = String(p.category_id || '');
@@ -351,7 +560,7 @@ export default function POS() {
       console.error('Error in instant search:', e);
       return allProducts.slice(0, 50);
     }
-  }, [searchQuery, allProducts]);
+  }, [searchQuery, allProducts, vehicleQuery, fitmentCatalogue]);
 
   // Background Sync Trigger
   useEffect(() => {
@@ -369,10 +578,15 @@ export default function POS() {
     try {
       const queue = [...queuedSales];
       const failed: QueuedSale[] = [];
+      const rejected: SyncConflict[] = [];
 
       for (const sale of queue) {
         try {
-          await processSaleOnServer(sale);
+          const result = await processSaleOnServer(sale);
+          // Stock conflicts and validation failures will not resolve by retrying, park them for review
+          if (result.status === 'conflict' || result.status === 'invalid') {
+            rejected.push({ sale, result });
+          }
         } catch (err) {
           console.error('Failed to sync sale:', err);
           failed.push(sale);
@@ -381,66 +595,59 @@ export default function POS() {
 
       setQueuedSales(failed);
       localStorage.setItem('offline_sales_queue', JSON.stringify(failed));
+
+      if (rejected.length > 0) {
+        setSyncConflicts(prev => {
+          const updated = [...prev, ...rejected];
+          localStorage.setItem('retailos_sync_conflicts', JSON.stringify(updated));
+          return updated;
+        });
+      }
       
-      // Pull fresh data from server to align stock numbers fully
-      await fetchProducts();
+      // Pull fresh data from server to align stock numbers and account balances fully
+      await Promise.all([fetchProducts(), fetchCustomers()]);
     } catch (err) {
       console.error('Error in sync cycle:', err);
     } finally {
       isSyncingRef.current = false;
       setIsSyncing(false);
     }
-  }, [queuedSales, isSyncing, fetchProducts]);
-
-  async function processSaleOnServer(sale: QueuedSale) {
-    // 1. Map cart items into standard ledger records
-    const entries = sale.cart.map(c => ({
-      category_id: c.item.category_id,
-      inventory_item_id: c.item.id,
-      quantity: safeNum(c.quantity),
-      amount: (c.customPrice !== undefined ? c.customPrice : safeNum(c.item.selling_price)) * safeNum(c.quantity),
-      transaction_type: 'sale' as const,
-      fund_source: sale.paymentMethod,
-      description: `Sale: ${c.item.name} (x${c.quantity})` + (sale.customerName ? ` - Customer: ${sale.customerName}` : ''),
-      created_at: sale.timestamp
-    }));
+  }, [queuedSales, isSyncing, fetchProducts, fetchCustomers]);
+
+  // Ledger lines, discount expense and stock decrements are posted server-side in one transaction
+  async function processSaleOnServer(sale: QueuedSale): Promise<SalePostResult> {
+    const response = await fetch('/api/sales', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(sale)
+    });
 
-    // 2. Insert entries to Ledger
-    const { error: ledgerError } = await supabase.from('ledger').insert(entries);
-    if (ledgerError) throw ledgerError;
-
-    // 3. Post Discount total as one Expense categorized dynamically under highest qty item category
-    if (sale.discount && sale.discount > 0) {
-      const discountEntry = {
-        category_id: sale.discountCategoryId,
-        amount: sale.discount,
-        transaction_type: 'expense' as const,
-        fund_source: 'PROFIT',
-        description: `POS Discount Expense (Sale Ref: ${sale.id})`,
-        created_at: sale.timestamp
-      };
-      const { error: discountError } = await supabase.from('ledger').insert([discountEntry]);
-      if (discountError) throw discountError;
+    const result: SalePostResult | null = await response.json().catch(() => null);
+    // A rejected session comes back as a plain `{ error }`; keep the sale queued.
+    if (!result || !result.status || result.status === 'error') {
+      throw new Error(result?.status === 'error' ? result.message : (result as any)?.error || `Sale sync failed (HTTP ${response.status})`);
     }
-
-    // 4. Subtract inventory stock in database safely
-    await Promise.all(sale.cart.map(async (cartItem) => {
-      const { data: latest } = await supabase
-        .from('inventory')
-        .select('quantity')
-        .eq('id', cartItem.item.id)
-        .single();
-      
-      const currentStock = latest?.quantity || 0;
-      const { error: updateError } = await supabase
-        .from('inventory')
-        .update({ quantity: Math.max(0, currentStock - cartItem.quantity) })
-        .eq('id', cartItem.item.id);
-      
-      if (updateError) throw updateError;
-    }));
+    return result;
   }
 
+  // Put rejected sales back in the queue, e.g. after stock has been corrected
+  const retryConflictedSales = useCallback(() => {
+    const queuedIds = new Set(queuedSales.map(s => s.id));
+    const updatedQueue = [...queuedSales, ...syncConflicts.map(c => c.sale).filter(s => !queuedIds.has(s.id))];
+    setQueuedSales(updatedQueue);
+    localStorage.setItem('offline_sales_queue', JSON.stringify(updatedQueue));
+    setSyncConflicts([]);
+    localStorage.setItem('retailos_sync_conflicts', JSON.stringify([]));
+  }, [queuedSales, syncConflicts]);
+
+  const discardConflictedSale = useCallback((saleId: string) => {
+    setSyncConflicts(prev => {
+      const updated = prev.filter(c => c.sale.id !== saleId);
+      localStorage.setItem('retailos_sync_conflicts', JSON.stringify(updated));
+      return updated;
+    });
+  }, []);
+
   // Deduct Local Stock immediately (no lag, 100% offline-first responsive feedback)
   const deductLocalInventory = useCallback((saleCart: typeof cart) => {
     setAllProducts(prev => {
@@ -449,7 +656,7 @@ export default function POS() {
         if (cartItem) {
           return {
             ...p,
-            quantity: Math.max(0, p.quantity - cartItem.quantity)
+            quantity: Math.max(0, p.quantity - baseQuantity(cartItem))
           };
         }
         return p;
@@ -457,6 +664,16 @@ export default function POS() {
       localStorage.setItem('retailos_inventory_cache', JSON.stringify(updated));
       return updated;
     });
+    // The server draws lots down first expiry first; mirror it so the next sale warns on the right lot
+    setBatches(prev => {
+      const taken = new Map<string, number>();
+      saleCart.filter(c => isBatchTracked(c.item)).forEach(c => {
+        fefoAllocation(prev, String(c.item.id), baseQuantity(c)).forEach(t => taken.set(t.batch.id, t.quantity));
+      });
+      const updated = prev.map(b => taken.has(b.id) ? { ...b, quantity_remaining: b.quantity_remaining - (taken.get(b.id) || 0) } : b);
+      localStorage.setItem('retailos_batch_cache', JSON.stringify(updated));
+      return updated;
+    });
   }, []);
 
   // Verify Manager PIN and process approved callbacks
@@ -492,45 +709,122 @@ export default function POS() {
   }, [role]);
 
   // Cart operations
-  const addToCart = useCallback((item: InventoryItem) => {
+  const addToCart = useCallback((item: InventoryItem, quantity = 1) => {
     setCart(prev => {
       const existing = prev.find(c => c.item.id === item.id);
-      const currentQtyInCart = existing ? existing.quantity : 0;
+      const currentQtyInCart = existing ? baseQuantity(existing) : 0;
       
-      if (item.quantity <= currentQtyInCart) {
-        alert(`Insufficient stock for ${item.name}. Available: ${item.quantity}`);
+      // Adds go in the line's current unit, so a carton line grows by cartons.
+      if (item.quantity < currentQtyInCart + quantity * (existing ? unitFactor(existing) : 1)) {
+        alert(`Insufficient stock for ${item.name}. Available: ${formatQuantity(item, item.quantity)}`);
         return prev;
       }
 
       if (existing) {
         const filtered = prev.filter(c => c.item.id !== item.id);
-        return [...filtered, { ...existing, quantity: existing.quantity + 1 }];
+        return [...filtered, { ...existing, quantity: existing.quantity + quantity }];
       } else {
-        return [...prev, { item, quantity: 1 }];
+        return [...prev, { item, quantity }];
       }
     });
     setSearchQuery('');
     searchInputRef.current?.focus();
   }, []);
 
+  // A scan (or a typed code and Enter) of an exact item code goes straight into the cart; "3*CODE"
+  // adds three. Returns false when no item carries the code, leaving it as an ordinary search.
+  const addScannedCode = useCallback((raw: string) => {
+    const { quantity, code } = parseScanInput(raw);
+    const item = findItemByCode(allProducts, code);
+    if (!item) return false;
+    addToCart(item, quantity);
+    return true;
+  }, [allProducts, addToCart]);
+
+  // Scanners type into whatever has focus; when that is not a field, catch the burst here.
+  useEffect(() => {
+    const detector = createScanDetector();
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        detector.reset();
+        return;
+      }
+      const scanned = detector.push(e.key, e.timeStamp);
+      if (!scanned) return;
+      e.preventDefault();
+      if (!addScannedCode(scanned)) {
+        setSearchQuery(scanned);
+        searchInputRef.current?.focus();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [addScannedCode]);
+
   const updateQuantity = useCallback((id: string, delta: number) => {
     setCart(prev => prev.map(c => {
       if (c.item.id !== id) return c;
       const newQty = Math.max(0, c.quantity + delta);
       
-      if (delta > 0 && c.item.quantity <= c.quantity) {
+      if (delta > 0 && baseQuantity({ ...c, quantity: newQty }) > c.item.quantity) {
         alert('Cannot exceed available stock');
         return c;
       }
       
-      return { ...c, quantity: newQty };
+      return withSerialsTrimmed({ ...c, quantity: newQty });
     }).filter(c => c.quantity > 0));
   }, []);
 
+  // A serial scanned against a serialised line; it goes out with the sale and prints on the receipt.
+  const addCartSerial = useCallback((id: string, raw: string) => {
+    const serial = normalizeSerial(raw);
+    if (!serial) return;
+    setCart(prev => prev.map(c => {
+      if (c.item.id !== id) return c;
+      const serials = c.serials || [];
+      if (serials.includes(serial)) {
+        alert(`Serial ${serial} is already on this line.`);
+        return c;
+      }
+      if (serials.length >= baseQuantity(c)) {
+        alert(`${c.item.name} already has ${serials.length} serial number(s) for ${baseQuantity(c)} unit(s). Increase the quantity first.`);
+        return c;
+      }
+      return { ...c, serials: [...serials, serial] };
+    }));
+  }, []);
+
+  const removeCartSerial = useCallback((id: string, serial: string) => {
+    setCart(prev => prev.map(c => (c.item.id === id ? { ...c, serials: (c.serials || []).filter(s => s !== serial) } : c)));
+  }, []);
+
+  // In-stock serials per item, offered as suggestions while capturing.
+  const loadSerialOptions = useCallback(async (itemId: string) => {
+    if (serialOptions[itemId]) return;
+    const { data } = await listSerials({ itemId, status: 'in_stock' });
+    if (data) setSerialOptions(prev => ({ ...prev, [itemId]: data.map(s => s.serial_no) }));
+  }, [serialOptions]);
+
+  // Switching a line to another pack keeps its count and drops any price override.
+  const changeCartUnit = useCallback((id: string, unitName: string) => {
+    setCart(prev => prev.map(c => {
+      if (c.item.id !== id) return c;
+      const unit = saleUnits(c.item).find(u => u.name === unitName);
+      if (!unit) return c;
+      const next: CartLine = { item: c.item, quantity: c.quantity, unit: unit.factor > 1 ? unit : undefined, serials: c.serials };
+      if (baseQuantity(next) > c.item.quantity) {
+        alert(`Insufficient stock for ${c.quantity} ${unit.name}. Available: ${formatQuantity(c.item, c.item.quantity, 'pack')}`);
+        return c;
+      }
+      return withSerialsTrimmed(next);
+    }));
+  }, []);
+
   // Inline pricing / item editing trigger
   const openEditCartItem = useCallback((cartItem: typeof cart[0]) => {
     setEditingCartItem(cartItem);
-    setEditingCartItemPrice(String(cartItem.customPrice !== undefined ? cartItem.customPrice : cartItem.item.selling_price));
+    setEditingCartItemPrice(String(cartLinePrice(cartItem)));
     setEditingCartItemQty(String(cartItem.quantity));
     setShowEditItemModal(true);
   }, []);
@@ -541,27 +835,28 @@ export default function POS() {
     const price = safeNum(editingCartItemPrice);
     const qty = Math.max(1, parseInt(editingCartItemQty) || 1);
     
-    if (qty > editingCartItem.item.quantity) {
-      alert(`Cannot exceed stock level. Max available: ${editingCartItem.item.quantity}`);
+    const unitPrice = cartLinePrice({ ...editingCartItem, customPrice: undefined });
+    
+    if (baseQuantity({ ...editingCartItem, quantity: qty }) > editingCartItem.item.quantity) {
+      alert(`Cannot exceed stock level. Max available: ${Math.floor(editingCartItem.item.quantity / unitFactor(editingCartItem))} ${cartUnitLabel(editingCartItem)}`);
       return;
     }
 
     const applyEdit = () => {
       setCart(prev => prev.map(c => {
         if (c.item.id === editingCartItem.item.id) {
-          const originalPrice = safeNum(editingCartItem.item.selling_price);
-          return {
+          return withSerialsTrimmed({
             ...c,
             quantity: qty,
-            customPrice: price !== originalPrice ? price : undefined
-          };
+            customPrice: price !== unitPrice ? price : undefined
+          });
         }
         return c;
       }));
       setShowEditItemModal(false);
     };
 
-    const isPriceOverridden = price !== safeNum(editingCartItem.item.selling_price);
+    const isPriceOverridden = price !== unitPrice;
 
     if (isPriceOverridden) {
       executeWithManagerPermission('override_price', applyEdit);
@@ -571,9 +866,7 @@ export default function POS() {
   }, [editingCartItem, editingCartItemPrice, editingCartItemQty, executeWithManagerPermission]);
 
   // Determine pricing helper
-  const getItemPrice = useCallback((c: { item: InventoryItem, customPrice?: number }) => {
-    return c.customPrice !== undefined ? c.customPrice : safeNum(c.item.selling_price);
-  }, []);
+  const getItemPrice = useCallback((c: CartLine) => cartLinePrice(c), []);
 
   // Recalculations
   const subtotal = useMemo(() => {
@@ -588,30 +881,44 @@ export default function POS() {
     return subtotal + taxAmount;
   }, [subtotal, taxAmount]);
 
-  const amountPaid = useMemo(() => {
-    return amountPaidInput === '' ? 0 : safeNum(amountPaidInput);
-  }, [amountPaidInput]);
-
+  // Only a discount the cashier applies (with manager approval) reduces the total
   const discountAmount = useMemo(() => {
-    if (amountPaidInput === '' || amountPaid >= totalBeforeDiscount) {
-      return 0;
-    }
-    return totalBeforeDiscount - amountPaid;
-  }, [amountPaidInput, amountPaid, totalBeforeDiscount]);
+    if (discountValue <= 0) return 0;
+    const amount = discountType === 'percent'
+      ? totalBeforeDiscount * Math.min(discountValue, 100) / 100
+      : Math.min(discountValue, totalBeforeDiscount);
+    return Math.round(amount * 100) / 100;
+  }, [discountType, discountValue, totalBeforeDiscount]);
 
   const grandTotal = useMemo(() => {
     return totalBeforeDiscount - discountAmount;
   }, [totalBeforeDiscount, discountAmount]);
 
+  const amountTendered = useMemo(() => tenderTotal(tenders), [tenders]);
+
   const remainingBalance = useMemo(() => {
-    if (amountPaidInput === '') return totalBeforeDiscount;
-    return 0; // Any underpayment is automatically treated as discount
-  }, [amountPaidInput, totalBeforeDiscount]);
+    return Math.max(0, Math.round((grandTotal - amountTendered) * 100) / 100);
+  }, [grandTotal, amountTendered]);
 
   const changeAmount = useMemo(() => {
-    if (amountPaidInput === '' || amountPaid <= totalBeforeDiscount) return 0;
-    return amountPaid - totalBeforeDiscount;
-  }, [amountPaidInput, amountPaid, totalBeforeDiscount]);
+    return Math.max(0, Math.round((amountTendered - grandTotal) * 100) / 100);
+  }, [amountTendered, grandTotal]);
+
+  // Tenders belong to the cart they were taken for
+  useEffect(() => {
+    if (cart.length === 0) setTenders([]);
+  }, [cart.length]);
+
+  const selectedAccount = useMemo(
+    () => customers.find(c => c.id === selectedCustomerId) || null,
+    [customers, selectedCustomerId]
+  );
+
+  // Limit less balance less credit sales still waiting in the offline queue
+  const creditAvailable = useMemo(
+    () => selectedAccount ? availableCredit(selectedAccount, pendingCreditTotal(queuedSales, selectedAccount.id)) : 0,
+    [selectedAccount, queuedSales]
+  );
 
   // Determine highest quantity category ID used in transaction
   const resolveDiscountCategoryId = useCallback(async (currentCart: typeof cart) => {
@@ -639,7 +946,7 @@ export default function POS() {
     let finalCategoryId: string | number = highestCatOriginalId || highestCatName;
 
     try {
-      const { data: summaries } = await supabase.from('business_summary').select('category_id, category_name');
+      const { data: summaries } = await listBusinessSummaries();
       if (summaries && summaries.length > 0) {
         const matchById = summaries.find(s => String(s.category_id) === String(highestCatOriginalId));
         if (matchById) {
@@ -658,8 +965,303 @@ export default function POS() {
     return finalCategoryId;
   }, []);
 
+  // Add a tender of the selected method; an empty amount takes whatever is still due.
+  // Only cash can be over-tendered, the excess going back as change.
+  const addTender = (method: TenderMethod, amountOverride?: number) => {
+    const requested = amountOverride ?? (amountPaidInput === '' ? remainingBalance : safeNum(amountPaidInput));
+    const amount = Math.round((method === 'Cash' ? requested : Math.min(requested, remainingBalance)) * 100) / 100;
+    if (amount <= 0) return;
+    if (method === 'Credit' && !selectedAccount) {
+      alert('Select a customer account to put part of the sale on account.');
+      return;
+    }
+    if (method === 'Mobile Money' && !tenderReference.trim()) {
+      alert('Enter the mobile money transaction id, or send a payment request to the customer\'s phone.');
+      return;
+    }
+    setTenders(prev => [...prev, {
+      method,
+      amount,
+      reference: tenderReference.trim() || undefined,
+      provider: method === 'Mobile Money' ? mobileProvider : undefined
+    }]);
+    setAmountPaidInput('');
+    setTenderReference('');
+  };
+
+  // Push a payment prompt for the amount entered (or all that is due) to the customer's phone
+  const sendMobileMoneyRequest = async () => {
+    const requested = amountPaidInput === '' ? remainingBalance : safeNum(amountPaidInput);
+    const amount = Math.round(Math.min(requested, remainingBalance) * 100) / 100;
+    if (amount <= 0 || mobileRequest) return;
+    if (!isValidMsisdn(mobileMsisdn)) {
+      setMobileMessage('Enter the customer\'s mobile number.');
+      return;
+    }
+    setMobileMessage(null);
+    const terminalId = posSettings.terminalId.trim() || DEFAULT_TERMINAL_ID;
+    const { data, error } = await requestMobileMoneyPayment({
+      provider: mobileProvider,
+      msisdn: mobileMsisdn,
+      amount,
+      reference: `${terminalId}-${Date.now().toString(36).toUpperCase()}`
+    });
+    if (error || !data) {
+      setMobileMessage('Request failed: ' + (error?.message || 'Unknown error'));
+      return;
+    }
+    setAmountPaidInput('');
+    setMobileRequest(data);
+  };
+
+  // A request that settles while being cancelled is picked up by the poll instead
+  const cancelMobileMoney = async () => {
+    if (!mobileRequest) return;
+    const { error } = await cancelMobileMoneyRequest(mobileRequest.id);
+    if (error) {
+      setMobileMessage(error.message);
+      return;
+    }
+    setMobileRequest(null);
+    setMobileMessage('Request cancelled.');
+  };
+
+  // Put the current cart on hold so the next customer can be served
+  const openParkModal = () => {
+    if (cart.length === 0) return;
+    if (tenders.length > 0 || mobileRequest) {
+      alert('Remove the tenders taken before parking this cart.');
+      return;
+    }
+    setParkName(selectedAccount?.name || `Cart ${parkedCarts.length + 1}`);
+    setShowParkModal(true);
+  };
+
+  const parkCart = () => {
+    if (cart.length === 0 || !parkName.trim()) return;
+    const parked: ParkedCart = {
+      id: crypto.randomUUID(),
+      name: parkName.trim(),
+      cart,
+      customerId: selectedCustomerId,
+      discountType,
+      discountValue,
+      parkedBy: activeShift?.cashier_name || posSettings.cashierName,
+      parkedAt: new Date().toISOString(),
+      quoteId: cartQuoteId
+    };
+    const updated = [...parkedCarts, parked];
+    setParkedCarts(updated);
+    saveParkedCarts(updated);
+    setCart([]);
+    setSelectedCustomerId('');
+    setDiscountValue(0);
+    setDiscountInput('');
+    setAmountPaidInput('');
+    setParkName('');
+    setShowParkModal(false);
+    setTimeout(() => searchInputRef.current?.focus(), 100);
+  };
+
+  // Stock may have sold while the cart was parked, so it is re-checked against current levels
+  const recallParkedCart = async (parked: ParkedCart) => {
+    if (cart.length > 0) {
+      alert('Park or finish the current cart before recalling another.');
+      return;
+    }
+    let products = allProducts;
+    if (isConfigured && navigator.onLine) {
+      const { data } = await listInventory(stockLocationId);
+      if (data) {
+        products = data;
+        setAllProducts(data);
+        localStorage.setItem('retailos_inventory_cache', JSON.stringify(data));
+      }
+    }
+    const { cart: lines, issues } = recheckCartStock(parked.cart, products);
+    const updated = parkedCarts.filter(p => p.id !== parked.id);
+    setParkedCarts(updated);
+    saveParkedCarts(updated);
+    setCart(lines);
+    setCartQuoteId(parked.quoteId);
+    setSelectedCustomerId(customers.some(c => c.id === parked.customerId) ? parked.customerId : '');
+    setDiscountType(parked.discountType);
+    setDiscountValue(parked.discountValue);
+    setShowParkedList(false);
+    if (issues.length > 0) {
+      alert(`Stock changed while "${parked.name}" was parked:\n${issues.join('\n')}`);
+    }
+  };
+
+  // ESC/POS through the server's receipt printer; falls back to the browser when it fails
+  const printThermalReceipt = async (sale: QueuedSale) => {
+    setIsThermalPrinting(true);
+    const { error } = await printReceipt({
+      sale: toSaleHeader(sale),
+      lines: receiptLinesFromCart(sale.cart)
+    });
+    setIsThermalPrinting(false);
+    if (error) {
+      if (confirm(`Thermal print failed: ${error.message}\nPrint from the browser instead?`)) window.print();
+    }
+  };
+
+  // Quotes live on the server so any terminal can convert them
+  const openQuoteModal = () => {
+    if (cart.length === 0) return;
+    if (!isConfigured || !isOnline) {
+      alert('Quotes are saved to the server. Reconnect to issue a quote.');
+      return;
+    }
+    setQuoteCustomerName(selectedAccount?.name || '');
+    setQuoteValidityDays(String(DEFAULT_QUOTE_VALIDITY_DAYS));
+    setQuoteNotes('');
+    setShowQuoteModal(true);
+  };
+
+  const saveQuote = async () => {
+    const days = Math.max(0, Math.floor(safeNum(quoteValidityDays)));
+    if (cart.length === 0 || !quoteCustomerName.trim() || isSavingQuote) return;
+    // Quotes are kept in base units; a pack line goes in at its per-unit price, which must come out
+    // to whole cents or the quote total would drift from the cart.
+    const uneven = cart.find(c => unitFactor(c) > 1 && !Number.isInteger(Math.round(getItemPrice(c) * 100) / unitFactor(c)));
+    if (uneven) {
+      alert(`${uneven.item.name}: ${getItemPrice(uneven)} per ${cartUnitLabel(uneven)} does not split into whole cents per unit. Sell it by the unit or adjust the price to quote it.`);
+      return;
+    }
+    setIsSavingQuote(true);
+    const { data, error } = await createQuote({
+      kind: quoteKind,
+      customerId: selectedAccount?.id,
+      customerName: quoteCustomerName.trim(),
+      validUntil: validUntilDate(days),
+      taxRate: posSettings.taxRate,
+      discount: discountAmount,
+      notes: quoteNotes.trim() || undefined,
+      terminalId: posSettings.terminalId.trim() || DEFAULT_TERMINAL_ID,
+      lines: cart.map(c => ({ inventoryItemId: String(c.item.id), quantity: baseQuantity(c), unitPrice: getItemPrice(c) / unitFactor(c) }))
+    });
+    setIsSavingQuote(false);
+    if (error || !data) {
+      alert('Quote Error: ' + (error?.message || 'Unknown error'));
+      return;
+    }
+    try {
+      downloadQuotePdf(data, selectedAccount, branding);
+    } catch (err) {
+      console.error('PDF Error:', err);
+    }
+    setCart([]);
+    setSelectedCustomerId('');
+    setDiscountValue(0);
+    setDiscountInput('');
+    setAmountPaidInput('');
+    setShowQuoteModal(false);
+    setQuotesSearch(data.quote_no);
+    setShowQuotesDrawer(true);
+  };
+
+  // Stock and prices are re-checked against the live inventory before the quote becomes the cart.
+  // The quote is closed as converted by the sale that posts it.
+  const convertQuote = async (quote: Quote) => {
+    if (cart.length > 0) {
+      alert('Park or finish the current cart before converting a quote.');
+      return;
+    }
+    let products = allProducts;
+    const { data } = await listInventory(stockLocationId);
+    if (data) {
+      products = data;
+      setAllProducts(data);
+      localStorage.setItem('retailos_inventory_cache', JSON.stringify(data));
+    }
+    const { cart: lines, issues, expired } = quoteToCart(quote, products);
+    if (lines.length === 0) {
+      alert(`Nothing on ${quote.quote_no} can be sold now:\n${issues.join('\n')}`);
+      return;
+    }
+    setCart(lines);
+    setCartQuoteId(quote.id);
+    setSelectedCustomerId(customers.some(c => c.id === quote.customer_id) ? String(quote.customer_id) : '');
+    setDiscountType('flat');
+    setDiscountValue(expired ? 0 : safeNum(quote.discount));
+    setDiscountInput('');
+    setShowQuotesDrawer(false);
+    if (issues.length > 0 || expired) {
+      alert(`${quote.quote_no} ${expired ? 'has expired and was repriced' : 'changed since it was issued'}:\n${issues.join('\n') || 'No price or stock changes.'}`);
+    }
+  };
+
+  const openQuotes = () => {
+    setQuotesSearch('');
+    setShowQuotesDrawer(true);
+  };
+
+  const discardParkedCart = (parked: ParkedCart) => {
+    executeWithManagerPermission('flush_cart', () => {
+      const updated = loadParkedCarts().filter(p => p.id !== parked.id);
+      setParkedCarts(updated);
+      saveParkedCarts(updated);
+    });
+  };
+
+  const applyDiscount = () => {
+    const value = safeNum(discountInput);
+    executeWithManagerPermission('apply_discount', () => setDiscountValue(Math.max(0, value)));
+  };
+
+  // Refunds pay money out of the drawer, so returns need a manager
+  const openReturns = () => executeWithManagerPermission('process_return', () => setShowReturnsDrawer(true));
+
+  // Sales on account need a customer, and a manager PIN when they would exceed its limit.
+  // Selling from an expired lot needs a manager PIN too.
+  const handleFinalizeSale = (expiryApproved = false) => {
+    if (cart.length === 0 || isProcessing) return;
+    const missingSerials = cart.find(c => isSerialised(c.item) && validateSerials(c.serials, baseQuantity(c)).length > 0);
+    if (missingSerials) {
+      alert(`Scan the serial numbers for ${missingSerials.item.name}: ${validateSerials(missingSerials.serials, baseQuantity(missingSerials))[0]}`);
+      return;
+    }
+    const expiredLine = cart.find(c => isBatchTracked(c.item) && fefoAllocation(batches, String(c.item.id), baseQuantity(c)).some(t => expiryState(t.batch) === 'expired'));
+    if (expiredLine && !expiryApproved) {
+      executeWithManagerPermission('sell_expired', () => handleFinalizeSale(true));
+      return;
+    }
+    if (isConfigured && !activeShift) {
+      alert('Open a cash shift on this terminal before taking payment.');
+      setShowShiftDrawer(true);
+      return;
+    }
+    if (mobileRequest) {
+      alert('Waiting for the customer to approve the mobile money payment.');
+      return;
+    }
+    if (tenders.length === 0 && tenderMethod === 'Mobile Money') {
+      alert('Take the mobile money payment first: send a request to the customer\'s phone or enter the transaction id.');
+      return;
+    }
+    // With nothing tendered yet, the whole amount is taken by the selected method
+    const saleTenders = tenders.length > 0 ? tenders : [{ method: tenderMethod, amount: Math.round(grandTotal * 100) / 100 }];
+    if (tenderTotal(saleTenders) < grandTotal - 0.005) {
+      alert(`$${remainingBalance.toFixed(2)} is still due. Add a tender or apply a discount.`);
+      return;
+    }
+    const onAccount = tenderTotal(saleTenders, 'Credit');
+    if (onAccount > 0) {
+      if (!selectedAccount) {
+        alert('Select a customer account to put part of the sale on account.');
+        return;
+      }
+      if (onAccount > creditAvailable) {
+        executeWithManagerPermission('credit_override', () => completeSale(saleTenders, true, Boolean(expiredLine)));
+        return;
+      }
+    }
+    completeSale(saleTenders, false, Boolean(expiredLine));
+  };
+
   // Finalize POS Sale Pipeline
-  const handleFinalizeSale = async () => {
+  const completeSale = async (saleTenders: SalePayment[], creditLimitOverride: boolean, expiryOverride: boolean) => {
     if (cart.length === 0 || isProcessing) return;
     setIsProcessing(true);
     
@@ -668,11 +1270,11 @@ export default function POS() {
     const currentDiscount = discountAmount;
     const currentTax = taxAmount;
     const currentTotal = grandTotal;
-    const currentMethod = paymentMethod;
-    const currentCustomer = selectedCustomer;
-    const currentCashier = posSettings.cashierName;
-    const currentAmountPaid = amountPaidInput === '' ? grandTotal : safeNum(amountPaidInput);
-    const currentChangeAmount = changeAmount;
+    const currentCustomer = selectedAccount;
+    const currentCashier = activeShift?.cashier_name || posSettings.cashierName;
+    const terminalId = posSettings.terminalId.trim() || DEFAULT_TERMINAL_ID;
+    const currentAmountPaid = tenderTotal(saleTenders);
+    const currentChangeAmount = Math.max(0, Math.round((currentAmountPaid - currentTotal) * 100) / 100);
     const timestamp = new Date().toISOString();
 
     try {
@@ -682,20 +1284,28 @@ export default function POS() {
       const newSale: QueuedSale = {
         id: crypto.randomUUID(),
         cart: currentCart,
-        paymentMethod: currentMethod,
+        paymentMethod: paymentMethodFor(saleTenders),
+        payments: saleTenders,
         timestamp: timestamp,
         subtotal: currentSubtotal,
         discount: currentDiscount,
-        discountType: 'flat',
-        discountValue: currentDiscount,
+        discountType: discountType,
+        discountValue: discountValue,
         taxRate: posSettings.taxRate,
         taxAmount: currentTax,
         total: currentTotal,
         discountCategoryId: discountCatId,
-        customerName: currentCustomer,
+        customerName: currentCustomer?.name || WALK_IN_CUSTOMER,
+        customerId: currentCustomer?.id,
+        creditLimitOverride: creditLimitOverride || undefined,
+        expiryOverride: expiryOverride || undefined,
         cashierName: currentCashier,
+        terminalId,
+        shiftId: activeShift?.id,
+        receiptNo: nextReceiptNo(terminalId),
         amountPaid: currentAmountPaid,
-        changeAmount: currentChangeAmount
+        changeAmount: currentChangeAmount,
+        quoteId: cartQuoteId
       };
 
       // 1. Deduct stock locally IMMEDIATELY (no wait!)
@@ -706,6 +1316,10 @@ export default function POS() {
       setDiscountValue(0);
       setDiscountInput('');
       setAmountPaidInput('');
+      setTenderReference('');
+      setTenders([]);
+      setMobileMsisdn('');
+      setMobileMessage(null);
       setLastTransaction(newSale);
       setShowReceipt(true);
 
@@ -728,17 +1342,22 @@ export default function POS() {
     }
   };
 
-  // Add new customer local cache
-  const handleAddCustomer = () => {
+  // Register a customer account; credit limits are set from Customer Accounts
+  const handleAddCustomer = async () => {
     if (!newCustomerName.trim()) return;
-    const newCust: Customer = {
-      id: crypto.randomUUID(),
-      name: newCustomerName.trim()
-    };
-    const updated = [...customers, newCust];
+    if (!isOnline) {
+      alert('Customer accounts can only be created while online.');
+      return;
+    }
+    const { data, error } = await createCustomer({ name: newCustomerName.trim() });
+    if (error || !data) {
+      alert('Failed to create customer: ' + (error?.message || 'Unknown error'));
+      return;
+    }
+    const updated = [...customers, data];
     setCustomers(updated);
     localStorage.setItem('retailos_customers_cache', JSON.stringify(updated));
-    setSelectedCustomer(newCust.name);
+    setSelectedCustomerId(data.id);
     setNewCustomerName('');
     setShowAddCustomerModal(false);
   };
@@ -770,6 +1389,16 @@ export default function POS() {
           )}
         </div>
         <div className="flex items-center gap-2">
+          {parkedCarts.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowParkedList(true)}
+              className="px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-wider border flex items-center gap-1.5 bg-sky-500/10 text-sky-400 border-sky-500/20"
+            >
+              <PauseCircle size={12} />
+              {parkedCarts.length} Parked
+            </button>
+          )}
           <button 
             type="button"
             onClick={toggleRole}
@@ -781,6 +1410,30 @@ export default function POS() {
             {role === 'Manager' ? <Unlock size={12} /> : <Lock size={12} />}
             Role: {role}
           </button>
+          <button 
+            type="button" 
+            onClick={() => setShowShiftDrawer(true)}
+            className={cn(
+              "p-1.5 border rounded-xl",
+              activeShift ? "bg-emerald-500/10 text-emerald-400 border-emerald-500/20" : "bg-white/5 text-slate-400 border-white/10 hover:text-[#FFD700]"
+            )}
+          >
+            <Wallet size={16} />
+          </button>
+          <button 
+            type="button" 
+            onClick={openReturns}
+            className="p-1.5 bg-white/5 border border-white/10 text-slate-400 rounded-xl hover:text-[#FFD700]"
+          >
+            <Undo2 size={16} />
+          </button>
+          <button 
+            type="button" 
+            onClick={openQuotes}
+            className="p-1.5 bg-white/5 border border-white/10 text-slate-400 rounded-xl hover:text-[#FFD700]"
+          >
+            <FileText size={16} />
+          </button>
           <button 
             type="button" 
             onClick={() => setShowSettingsModal(true)}
@@ -818,11 +1471,22 @@ export default function POS() {
               </div>
             )}
             <span className="text-[10px] font-mono text-slate-500 uppercase tracking-wider">
-              Terminal: {posSettings.storeName}
+              Terminal: {branding.business_name}
             </span>
           </div>
 
           <div className="flex items-center gap-3">
+            {parkedCarts.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setShowParkedList(true)}
+                className="px-3.5 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border flex items-center gap-1.5 transition-all bg-sky-500/10 text-sky-400 border-sky-500/30"
+                title="Parked carts"
+              >
+                <PauseCircle size={12} />
+                {parkedCarts.length} Parked
+              </button>
+            )}
             <button 
               type="button"
               onClick={toggleRole}
@@ -834,6 +1498,36 @@ export default function POS() {
               {role === 'Manager' ? <Unlock size={12} /> : <Lock size={12} />}
               Role: {role}
             </button>
+            <button 
+              type="button" 
+              onClick={() => setShowShiftDrawer(true)}
+              className={cn(
+                "px-3.5 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border flex items-center gap-1.5 transition-all",
+                activeShift ? "bg-emerald-500/10 text-emerald-400 border-emerald-500/30" : "bg-white/5 text-slate-500 border-white/10 hover:border-white/20"
+              )}
+              title="Cash Shift"
+            >
+              <Wallet size={12} />
+              {activeShift ? activeShift.shift_no : 'No Shift'}
+            </button>
+            <button 
+              type="button" 
+              onClick={openReturns}
+              className="px-3.5 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border flex items-center gap-1.5 transition-all bg-white/5 text-slate-500 border-white/10 hover:border-white/20"
+              title="Customer Returns"
+            >
+              <Undo2 size={12} />
+              Returns
+            </button>
+            <button 
+              type="button" 
+              onClick={openQuotes}
+              className="px-3.5 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border flex items-center gap-1.5 transition-all bg-white/5 text-slate-500 border-white/10 hover:border-white/20"
+              title="Quotes & Pro-Forma Invoices"
+            >
+              <FileText size={12} />
+              Quotes
+            </button>
             <button 
               type="button" 
               onClick={() => setShowSettingsModal(true)}
@@ -847,28 +1541,90 @@ export default function POS() {
 
         {/* Search Bar Input */}
         <div className="p-4 border-b border-white/10 bg-[#0a0a0a] sticky top-0 z-20">
-          <div className="relative group">
-            <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500 group-focus-within:text-[#FFD700] transition-colors" size={20} />
-            <input 
-              ref={searchInputRef}
-              type="text" 
-              placeholder="Search by SKU, Name, Barcode, or Category..." 
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="w-full pl-12 pr-4 py-4 bg-[#080808] border-2 border-white/10 rounded-2xl focus:border-[#FFD700]/50 outline-none transition-all text-base font-bold placeholder:text-slate-600 text-white"
-            />
-            {searchQuery && (
-              <button 
-                onClick={() => setSearchQuery('')}
-                className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-500 hover:text-white"
+          <div className="flex gap-2">
+            <div className="relative group flex-1">
+              <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500 group-focus-within:text-[#FFD700] transition-colors" size={20} />
+              <input 
+                ref={searchInputRef}
+                type="text" 
+                placeholder="Scan, or search by SKU, Name, Part No. or Category..." 
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && searchQuery.trim()) {
+                    e.preventDefault();
+                    addScannedCode(searchQuery);
+                  }
+                }}
+                className="w-full pl-12 pr-4 py-4 bg-[#080808] border-2 border-white/10 rounded-2xl focus:border-[#FFD700]/50 outline-none transition-all text-base font-bold placeholder:text-slate-600 text-white"
+              />
+              {searchQuery && (
+                <button 
+                  onClick={() => setSearchQuery('')}
+                  className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-500 hover:text-white"
+                >
+                  <X size={20} />
+                </button>
+              )}
+            </div>
+            <button
+              onClick={() => setShowVehicleSearch(prev => !prev)}
+              title="Search by vehicle"
+              className={cn(
+                "px-4 rounded-2xl border-2 transition-all",
+                showVehicleSearch || isVehicleQueryActive(vehicleQuery)
+                  ? "border-[#FFD700]/50 text-[#FFD700] bg-[#FFD700]/10"
+                  : "border-white/10 text-slate-500 hover:text-white"
+              )}
+            >
+              <Car size={20} />
+            </button>
+          </div>
+          {showVehicleSearch && (
+            <div className="mt-3 grid grid-cols-5 gap-2 animate-in slide-in-from-top-2">
+              <select
+                value={vehicleQuery.make}
+                onChange={(e) => setVehicleQuery({ ...EMPTY_VEHICLE_QUERY, make: e.target.value, year: vehicleQuery.year })}
+                className="col-span-2 bg-[#080808] border border-white/10 rounded-xl py-2 px-3 text-xs font-bold text-white outline-none focus:border-[#FFD700]/50"
               >
-                <X size={20} />
+                <option value="">Any make</option>
+                {vehicleMakes(fitmentCatalogue.fitments).map(make => <option key={make} value={make}>{make}</option>)}
+              </select>
+              <select
+                value={vehicleQuery.model}
+                disabled={!vehicleQuery.make}
+                onChange={(e) => setVehicleQuery({ ...vehicleQuery, model: e.target.value })}
+                className="col-span-2 bg-[#080808] border border-white/10 rounded-xl py-2 px-3 text-xs font-bold text-white outline-none focus:border-[#FFD700]/50 disabled:opacity-40"
+              >
+                <option value="">Any model</option>
+                {vehicleModels(fitmentCatalogue.fitments, vehicleQuery.make).map(model => <option key={model} value={model}>{model}</option>)}
+              </select>
+              <input
+                type="text"
+                inputMode="numeric"
+                placeholder="Year"
+                value={vehicleQuery.year}
+                onChange={(e) => setVehicleQuery({ ...vehicleQuery, year: e.target.value.replace(/\D/g, '').slice(0, 4) })}
+                className="bg-[#080808] border border-white/10 rounded-xl py-2 px-3 text-xs font-bold text-white outline-none focus:border-[#FFD700]/50"
+              />
+              <input
+                type="text"
+                placeholder="Engine (optional)"
+                value={vehicleQuery.engine}
+                onChange={(e) => setVehicleQuery({ ...vehicleQuery, engine: e.target.value })}
+                className="col-span-4 bg-[#080808] border border-white/10 rounded-xl py-2 px-3 text-xs font-bold text-white outline-none focus:border-[#FFD700]/50"
+              />
+              <button
+                onClick={() => setVehicleQuery(EMPTY_VEHICLE_QUERY)}
+                className="rounded-xl border border-white/10 text-[10px] font-black text-slate-500 uppercase tracking-widest hover:text-white"
+              >
+                Clear
               </button>
-            )}
-          </div>
+            </div>
+          )}
           <div className="mt-2 flex items-center justify-between text-[8px] text-slate-600 font-mono tracking-wider uppercase">
-            <span>Query matches local database instantly</span>
-            <span>All entries active offline</span>
+            <span>Enter adds an exact code • 3*CODE adds three</span>
+            <span>{isVehicleQueryActive(vehicleQuery) ? `Parts for ${[vehicleQuery.make, vehicleQuery.model, vehicleQuery.year].filter(Boolean).join(' ')}` : 'All entries active offline'}</span>
           </div>
         </div>
 
@@ -887,6 +1643,39 @@ export default function POS() {
           </div>
         )}
 
+        {syncConflicts.length > 0 && (
+          <div className="mx-4 mt-4 p-3 bg-amber-500/10 border border-amber-500/20 rounded-2xl space-y-2 shrink-0 animate-in slide-in-from-top-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-amber-500 text-xs font-black uppercase">
+                <AlertCircle size={14} className="shrink-0" />
+                <span className="truncate">{syncConflicts.length} Sale(s) Rejected by Sync Server</span>
+              </div>
+              <button 
+                onClick={retryConflictedSales} 
+                className="px-2.5 py-1 bg-white/5 hover:bg-white/10 text-white rounded text-[9px] uppercase font-black tracking-widest shrink-0 transition-all border border-white/5"
+              >
+                Retry Sync
+              </button>
+            </div>
+            {syncConflicts.map(({ sale, result }) => (
+              <div key={sale.id} className="flex items-center justify-between gap-2 text-[9px] font-mono text-slate-400">
+                <span className="truncate">
+                  {new Date(sale.timestamp).toLocaleTimeString()} • ${sale.total.toLocaleString()} •{' '}
+                  {result.status === 'conflict' 
+                    ? result.conflicts.map(c => `${c.name || c.inventory_item_id}: ${c.available} left, ${c.requested} sold`).join(', ')
+                    : result.status === 'invalid' ? result.errors.join('; ') : ''}
+                </span>
+                <button 
+                  onClick={() => executeWithManagerPermission('discard_sale', () => discardConflictedSale(sale.id))}
+                  className="text-rose-500 hover:text-rose-400 uppercase font-black tracking-widest shrink-0"
+                >
+                  Discard
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Products List Panel */}
         <div className="flex-1 overflow-y-auto overscroll-y-contain custom-scrollbar-gold min-h-0 bg-[#070707]/30">
           {isLoadingProducts ? (
@@ -936,7 +1725,7 @@ export default function POS() {
                             "text-[9px] font-black uppercase px-2 py-0.5 rounded-lg",
                             item.quantity > 5 ? "text-emerald-400 bg-emerald-500/5 border border-emerald-500/10" : "text-rose-400 bg-rose-500/5 border border-rose-500/10"
                           )}>
-                            {item.quantity} units
+                            {formatQuantity(item, item.quantity, quantityDisplay)}
                           </span>
                         </td>
                         <td className="px-4 py-2.5 text-right font-black text-[#FFD700] text-xs">
@@ -982,6 +1771,20 @@ export default function POS() {
               Shopping Cart
             </h2>
             <div className="flex items-center gap-2">
+              <button
+                onClick={openParkModal}
+                disabled={cart.length === 0}
+                className="text-[10px] font-black text-sky-400 uppercase hover:bg-sky-500/10 px-2 py-1 rounded transition-all flex items-center gap-1 disabled:opacity-30"
+              >
+                <PauseCircle size={12} /> Park
+              </button>
+              <button
+                onClick={openQuoteModal}
+                disabled={cart.length === 0}
+                className="text-[10px] font-black text-[#FFD700] uppercase hover:bg-[#FFD700]/10 px-2 py-1 rounded transition-all flex items-center gap-1 disabled:opacity-30"
+              >
+                <FileText size={12} /> Quote
+              </button>
               <button 
                 onClick={() => executeWithManagerPermission('flush_cart', () => setCart([]))}
                 className="text-[10px] font-black text-rose-500 uppercase hover:bg-rose-500/10 px-2 py-1 rounded transition-all"
@@ -999,12 +1802,13 @@ export default function POS() {
             <label className="text-[8px] font-black text-slate-500 uppercase tracking-widest block">Customer Assignment</label>
             <div className="flex gap-2">
               <select 
-                value={selectedCustomer}
-                onChange={(e) => setSelectedCustomer(e.target.value)}
+                value={selectedCustomerId}
+                onChange={(e) => setSelectedCustomerId(e.target.value)}
                 className="flex-1 bg-[#0a0a0a] border border-white/10 rounded-xl px-3 py-2 text-xs font-bold outline-none focus:border-[#FFD700]/50 text-slate-300"
               >
-                {customers.map(c => (
-                  <option key={c.id} value={c.name} className="bg-[#0a0a0a] text-white">
+                <option value="" className="bg-[#0a0a0a] text-white">{WALK_IN_CUSTOMER}</option>
+                {customers.filter(c => c.active || c.id === selectedCustomerId).map(c => (
+                  <option key={c.id} value={c.id} className="bg-[#0a0a0a] text-white">
                     {c.name}
                   </option>
                 ))}
@@ -1018,6 +1822,14 @@ export default function POS() {
                 +
               </button>
             </div>
+            {selectedAccount && (
+              <div className="flex justify-between text-[9px] font-mono uppercase pt-1">
+                <span className="text-slate-500">Balance ${safeNum(selectedAccount.balance).toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
+                <span className={cn(creditAvailable < tenderTotal(tenders, 'Credit') ? "text-rose-400" : "text-emerald-500")}>
+                  Credit ${creditAvailable.toLocaleString(undefined, { minimumFractionDigits: 2 })} left
+                </span>
+              </div>
+            )}
           </div>
         </div>
 
@@ -1026,7 +1838,8 @@ export default function POS() {
           {cart.length > 0 ? (
             [...cart].reverse().map(c => {
               const currentPrice = getItemPrice(c);
-              const originalPrice = safeNum(c.item.selling_price);
+              const originalPrice = cartLinePrice({ ...c, customPrice: undefined });
+              const units = saleUnits(c.item);
               const isOverridden = currentPrice !== originalPrice;
               
               return (
@@ -1039,11 +1852,11 @@ export default function POS() {
                           "text-[9px] font-mono",
                           isOverridden ? "text-amber-500 font-black line-through" : "text-slate-500"
                         )}>
-                          ${originalPrice.toLocaleString()} ea
+                          ${originalPrice.toLocaleString()} / {cartUnitLabel(c)}
                         </span>
                         {isOverridden && (
                           <span className="text-[9px] font-mono text-emerald-400 font-black">
-                            ${currentPrice.toLocaleString()} ea (Overridden)
+                            ${currentPrice.toLocaleString()} / {cartUnitLabel(c)} (Overridden)
                           </span>
                         )}
                       </div>
@@ -1069,6 +1882,21 @@ export default function POS() {
                       </button>
                     </div>
 
+                    {units.length > 1 && (
+                      <select
+                        value={cartUnitLabel(c)}
+                        onChange={(e) => changeCartUnit(c.item.id, e.target.value)}
+                        className="bg-[#0a0a0a] border border-white/10 rounded-xl h-9 px-2 text-[10px] font-black text-white uppercase outline-none focus:border-[#FFD700]"
+                        title="Sell in"
+                      >
+                        {units.map(unit => (
+                          <option key={unit.name} value={unit.name}>
+                            {unit.factor > 1 ? `${unit.name} (${unit.factor})` : unit.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+
                     <div className="flex items-center gap-2">
                       <button 
                         onClick={() => openEditCartItem(c)}
@@ -1085,6 +1913,54 @@ export default function POS() {
                       </button>
                     </div>
                   </div>
+                  {isBatchTracked(c.item) && fefoAllocation(batches, String(c.item.id), baseQuantity(c))
+                    .filter(t => expiryState(t.batch) !== 'ok')
+                    .map(t => (
+                      <p
+                        key={t.batch.id}
+                        className={cn(
+                          "mt-2 px-2 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest",
+                          expiryState(t.batch) === 'expired' ? "bg-rose-500/10 text-rose-500 border-rose-500/20" : "bg-amber-500/10 text-amber-500 border-amber-500/20"
+                        )}
+                      >
+                        {expiryNote(t.batch)} • {t.quantity} unit{t.quantity === 1 ? '' : 's'}{expiryState(t.batch) === 'expired' ? ' • manager approval needed' : ''}
+                      </p>
+                    ))}
+                  {isSerialised(c.item) && (
+                    <div className="mt-3 space-y-2">
+                      <div className="flex flex-wrap gap-1">
+                        {(c.serials || []).map(serial => (
+                          <span key={serial} className="flex items-center gap-1 px-2 py-0.5 bg-[#FFD700]/10 border border-[#FFD700]/20 rounded-lg text-[9px] font-mono text-[#FFD700]">
+                            {serial}
+                            <button onClick={() => removeCartSerial(c.item.id, serial)} className="text-slate-500 hover:text-rose-500">
+                              <X size={10} />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                      <input
+                        type="text"
+                        list={`serials-${c.item.id}`}
+                        onFocus={() => loadSerialOptions(String(c.item.id))}
+                        onKeyDown={e => {
+                          if (e.key !== 'Enter') return;
+                          e.preventDefault();
+                          addCartSerial(c.item.id, e.currentTarget.value);
+                          e.currentTarget.value = '';
+                        }}
+                        className={cn(
+                          "w-full bg-[#0a0a0a] border rounded-xl h-8 px-3 text-[10px] font-mono text-white outline-none focus:border-[#FFD700] placeholder:text-slate-600",
+                          (c.serials || []).length < baseQuantity(c) ? "border-amber-500/40" : "border-white/10"
+                        )}
+                        placeholder={`Scan serial ${(c.serials || []).length + 1} of ${baseQuantity(c)} + Enter`}
+                      />
+                      <datalist id={`serials-${c.item.id}`}>
+                        {(serialOptions[String(c.item.id)] || []).filter(serial => !(c.serials || []).includes(serial)).map(serial => (
+                          <option key={serial} value={serial} />
+                        ))}
+                      </datalist>
+                    </div>
+                  )}
                 </div>
               );
             })
@@ -1099,61 +1975,211 @@ export default function POS() {
         {/* Totals Computation sticky footer */}
         <div className="p-4 bg-[#0a0a0a] border-t border-white/10 space-y-4 shrink-0">
           
-          {/* Amount Paid input widget */}
+          {/* Tender input widget */}
           <div className="bg-white/5 p-3.5 rounded-2xl border border-white/5 space-y-2">
             <div className="flex justify-between items-center">
               <span className="text-[9px] font-black text-[#FFD700] uppercase tracking-widest flex items-center gap-1.5">
-                <CreditCard size={12} /> Amount Paid
+                <CreditCard size={12} /> Payment
               </span>
               <span className="text-[8px] font-mono text-slate-500 uppercase">
-                Required for Checkout
+                {tenders.length === 0 ? `Blank takes all by ${tenderLabel(tenderMethod)}` : 'Split Tender'}
               </span>
             </div>
 
-            <div className="relative">
-              <input 
-                type="text"
-                placeholder={`Enter amount paid (e.g., ${totalBeforeDiscount.toFixed(2)})`}
-                value={amountPaidInput}
-                onChange={(e) => {
-                  const val = e.target.value.replace(/[^0-9.]/g, '');
-                  setAmountPaidInput(val);
-                }}
-                className="w-full bg-[#0a0a0a] border border-white/10 rounded-xl py-3 px-3 pl-8 text-sm font-bold text-white outline-none focus:border-[#FFD700]/50 placeholder:text-slate-700"
-              />
-              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-[#FFD700] font-bold text-xs">
-                $
-              </span>
-              {amountPaidInput && (
+            {/* Tender methods */}
+            <div className="grid grid-cols-4 gap-1.5">
+              {TENDER_METHODS.map(t => (
                 <button
+                  key={t.method}
                   type="button"
-                  onClick={() => setAmountPaidInput('')}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 hover:text-white"
+                  onClick={() => setTenderMethod(t.method)}
+                  className={cn(
+                    "py-2 rounded-lg text-[8px] font-black transition-all border uppercase tracking-widest",
+                    tenderMethod === t.method
+                      ? "bg-[#FFD700] border-[#FFD700] text-[#0a0a0a] shadow-[0_0_15px_rgba(255,215,0,0.15)]"
+                      : "bg-transparent border-white/10 text-slate-500 hover:border-white/20"
+                  )}
                 >
-                  <X size={14} />
+                  {t.label}
                 </button>
+              ))}
+            </div>
+
+            {/* Mobile money: push a request to the customer's phone, or key in the transaction id */}
+            {tenderMethod === 'Mobile Money' && (
+              <div className="space-y-1.5">
+                <div className="grid grid-cols-3 gap-1.5">
+                  {MOBILE_MONEY_PROVIDERS.map(p => (
+                    <button
+                      key={p.code}
+                      type="button"
+                      onClick={() => setMobileProvider(p.code)}
+                      disabled={Boolean(mobileRequest)}
+                      className={cn(
+                        "py-1.5 rounded-lg text-[8px] font-black transition-all border uppercase tracking-widest",
+                        mobileProvider === p.code ? "bg-white/10 border-[#FFD700]/50 text-[#FFD700]" : "bg-transparent border-white/10 text-slate-500 hover:border-white/20"
+                      )}
+                    >
+                      {p.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex gap-1.5">
+                  <input
+                    type="tel"
+                    placeholder="Customer phone"
+                    value={mobileMsisdn}
+                    onChange={(e) => setMobileMsisdn(e.target.value)}
+                    disabled={Boolean(mobileRequest)}
+                    className="flex-1 bg-[#0a0a0a] border border-white/10 rounded-xl py-2 px-3 text-xs font-mono text-white outline-none focus:border-[#FFD700]/50 placeholder:text-slate-700"
+                  />
+                  {mobileRequest ? (
+                    <button
+                      type="button"
+                      onClick={cancelMobileMoney}
+                      className="px-3 bg-rose-500/10 border border-rose-500/20 text-rose-400 rounded-xl text-[9px] font-black uppercase tracking-widest"
+                    >
+                      Cancel
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={sendMobileMoneyRequest}
+                      disabled={!isOnline || !mobileGateway || cart.length === 0 || remainingBalance <= 0}
+                      className="px-3 bg-[#FFD700]/10 border border-[#FFD700]/20 text-[#FFD700] rounded-xl text-[9px] font-black uppercase tracking-widest flex items-center gap-1 disabled:opacity-30"
+                      title={mobileGateway ? undefined : 'No mobile money gateway; enter the transaction id instead'}
+                    >
+                      <Smartphone size={12} /> Request
+                    </button>
+                  )}
+                </div>
+                {mobileRequest && (
+                  <p className="text-[9px] font-black text-amber-500 uppercase tracking-widest flex items-center gap-1.5">
+                    <Loader2 size={10} className="animate-spin" />
+                    Waiting for {mobileMsisdn} to approve ${mobileRequest.amount.toFixed(2)} on {mobileMoneyProviderLabel(mobileRequest.provider)}
+                  </p>
+                )}
+                {!mobileRequest && mobileMessage && (
+                  <p className="text-[9px] font-bold text-slate-400">{mobileMessage}</p>
+                )}
+                {mobileGateway === 'simulator' && (
+                  <p className="text-[8px] font-mono text-slate-600 uppercase">Simulator: numbers ending 000 decline, 999 never answer</p>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-1.5">
+              <div className="relative flex-1">
+                <input 
+                  type="text"
+                  placeholder={`Amount (due ${remainingBalance.toFixed(2)})`}
+                  value={amountPaidInput}
+                  onChange={(e) => {
+                    const val = e.target.value.replace(/[^0-9.]/g, '');
+                    setAmountPaidInput(val);
+                  }}
+                  onKeyDown={(e) => e.key === 'Enter' && addTender(tenderMethod)}
+                  className="w-full bg-[#0a0a0a] border border-white/10 rounded-xl py-3 px-3 pl-8 text-sm font-bold text-white outline-none focus:border-[#FFD700]/50 placeholder:text-slate-700"
+                />
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-[#FFD700] font-bold text-xs">
+                  $
+                </span>
+              </div>
+              {tenderMethod !== 'Cash' && tenderMethod !== 'Credit' && (
+                <input
+                  type="text"
+                  placeholder={tenderMethod === 'Mobile Money' ? 'Txn ID' : 'Ref'}
+                  value={tenderReference}
+                  onChange={(e) => setTenderReference(e.target.value)}
+                  className="w-20 bg-[#0a0a0a] border border-white/10 rounded-xl py-3 px-2 text-[10px] font-mono text-white outline-none focus:border-[#FFD700]/50 placeholder:text-slate-700"
+                />
               )}
+              <button
+                type="button"
+                onClick={() => addTender(tenderMethod)}
+                disabled={cart.length === 0 || (remainingBalance <= 0 && tenderMethod !== 'Cash')}
+                className="px-3 bg-[#FFD700]/10 border border-[#FFD700]/20 text-[#FFD700] rounded-xl hover:bg-[#FFD700]/20 transition-colors text-[9px] font-black uppercase tracking-widest disabled:opacity-30"
+              >
+                Add
+              </button>
             </div>
+
             {/* Quick cash suggest buttons */}
-            <div className="flex gap-1.5 pt-1">
-              {[Math.ceil(totalBeforeDiscount), Math.ceil(totalBeforeDiscount / 10) * 10, Math.ceil(totalBeforeDiscount / 50) * 50].filter(v => v >= totalBeforeDiscount).map((suggestVal, i) => (
+            {tenderMethod === 'Cash' && remainingBalance > 0 && (
+              <div className="flex gap-1.5 pt-1">
+                {Array.from(new Set([Math.ceil(remainingBalance), Math.ceil(remainingBalance / 10) * 10, Math.ceil(remainingBalance / 50) * 50])).map(suggestVal => (
+                  <button
+                    key={suggestVal}
+                    type="button"
+                    onClick={() => addTender('Cash', suggestVal)}
+                    className="flex-1 py-1.5 bg-white/5 hover:bg-white/10 border border-white/5 text-slate-400 hover:text-white rounded-lg text-[9px] font-mono transition-all"
+                  >
+                    ${suggestVal}
+                  </button>
+                ))}
                 <button
-                  key={i}
                   type="button"
-                  onClick={() => setAmountPaidInput(String(suggestVal))}
-                  className="flex-1 py-1.5 bg-white/5 hover:bg-white/10 border border-white/5 text-slate-400 hover:text-white rounded-lg text-[9px] font-mono transition-all"
+                  onClick={() => addTender('Cash', remainingBalance)}
+                  className="flex-1 py-1.5 bg-[#FFD700]/10 hover:bg-[#FFD700]/20 border border-[#FFD700]/10 text-[#FFD700] rounded-lg text-[9px] font-black tracking-widest uppercase transition-all"
                 >
-                  ${suggestVal}
+                  Exact Cash
                 </button>
-              ))}
+              </div>
+            )}
+
+            {/* Tenders taken */}
+            {tenders.length > 0 && (
+              <div className="space-y-1 pt-1">
+                {tenders.map((t, index) => (
+                  <div key={index} className="flex items-center justify-between text-[10px] font-black text-slate-300 uppercase tracking-widest bg-[#0a0a0a] border border-white/5 rounded-lg px-2.5 py-1.5">
+                    <span>{tenderLabel(tenderKey(t))}{t.reference ? <span className="text-slate-600 font-mono normal-case"> • {t.reference}</span> : null}</span>
+                    <span className="flex items-center gap-2 font-mono">
+                      ${t.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                      <button type="button" onClick={() => setTenders(prev => prev.filter((_, i) => i !== index))} className="text-slate-600 hover:text-rose-500">
+                        <X size={12} />
+                      </button>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Discount widget */}
+          <div className="flex gap-1.5">
+            <button
+              type="button"
+              onClick={() => setDiscountType(discountType === 'flat' ? 'percent' : 'flat')}
+              className="px-3 bg-white/5 border border-white/10 text-slate-400 rounded-xl hover:text-white transition-colors"
+              title="Toggle flat / percent"
+            >
+              {discountType === 'percent' ? <Percent size={12} /> : <Tag size={12} />}
+            </button>
+            <input
+              type="text"
+              placeholder={discountType === 'percent' ? 'Discount %' : 'Discount $'}
+              value={discountInput}
+              onChange={(e) => setDiscountInput(e.target.value.replace(/[^0-9.]/g, ''))}
+              className="flex-1 bg-[#0a0a0a] border border-white/10 rounded-xl py-2 px-3 text-xs font-bold text-white outline-none focus:border-[#FFD700]/50 placeholder:text-slate-700"
+            />
+            {discountValue > 0 ? (
               <button
                 type="button"
-                onClick={() => setAmountPaidInput(String(totalBeforeDiscount.toFixed(2)))}
-                className="flex-1 py-1.5 bg-[#FFD700]/10 hover:bg-[#FFD700]/20 border border-[#FFD700]/10 text-[#FFD700] rounded-lg text-[9px] font-black tracking-widest uppercase transition-all"
+                onClick={() => { setDiscountValue(0); setDiscountInput(''); }}
+                className="px-3 bg-rose-500/10 border border-rose-500/20 text-rose-400 rounded-xl text-[9px] font-black uppercase tracking-widest"
               >
-                Exact Cash
+                Remove
               </button>
-            </div>
+            ) : (
+              <button
+                type="button"
+                onClick={applyDiscount}
+                disabled={cart.length === 0 || safeNum(discountInput) <= 0}
+                className="px-3 bg-white/5 border border-white/10 text-slate-400 hover:text-white rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-30"
+              >
+                Apply
+              </button>
+            )}
           </div>
 
           <div className="space-y-1.5 border-t border-white/5 pt-2">
@@ -1169,21 +2195,21 @@ export default function POS() {
               </div>
             )}
 
-            {amountPaidInput !== '' && (
-              <div className="flex justify-between text-[10px] font-black text-slate-400 uppercase tracking-widest">
-                <span>Amount Paid</span>
-                <span className="text-[#FFD700] font-mono font-black">${amountPaid.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
+            {discountAmount > 0 && (
+              <div className="flex justify-between text-[10px] font-black text-rose-400 uppercase tracking-widest">
+                <span>Discount{discountType === 'percent' ? ` (${discountValue}%)` : ''}</span>
+                <span className="font-mono">-${discountAmount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
               </div>
             )}
 
-            {discountAmount > 0 && (
-              <div className="flex justify-between text-[10px] font-black text-rose-400 uppercase tracking-widest animate-pulse">
-                <span>Transaction Discount</span>
-                <span className="font-mono">-${discountAmount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
+            {tenders.length > 0 && (
+              <div className="flex justify-between text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                <span>Tendered</span>
+                <span className="text-[#FFD700] font-mono font-black">${amountTendered.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
               </div>
             )}
 
-            {remainingBalance > 0 && (
+            {tenders.length > 0 && remainingBalance > 0 && (
               <div className="flex justify-between text-[10px] font-black text-amber-500 uppercase tracking-widest">
                 <span>Remaining Balance</span>
                 <span className="font-mono">${remainingBalance.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
@@ -1201,32 +2227,14 @@ export default function POS() {
               <span className="text-[#FFD700]">Final Total</span>
               <span className="text-lg text-[#FFD700] font-mono font-black">${grandTotal.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
             </div>
-
-            {/* Payment options */}
-            <div className="grid grid-cols-3 gap-2 pt-2">
-              {(['Cash', 'Card', 'Credit'] as const).map(method => (
-                <button
-                  key={method}
-                  onClick={() => setPaymentMethod(method)}
-                  className={cn(
-                    "py-2.5 rounded-xl text-[10px] font-black transition-all border uppercase tracking-widest",
-                    paymentMethod === method 
-                      ? "bg-[#FFD700] border-[#FFD700] text-[#0a0a0a] shadow-[0_0_15px_rgba(255,215,0,0.15)]" 
-                      : "bg-transparent border-white/10 text-slate-500 hover:border-white/20"
-                  )}
-                >
-                  {method}
-                </button>
-              ))}
-            </div>
           </div>
 
           <button 
-            disabled={cart.length === 0 || isProcessing}
-            onClick={handleFinalizeSale}
+            disabled={cart.length === 0 || isProcessing || (tenders.length > 0 && remainingBalance > 0)}
+            onClick={() => handleFinalizeSale()}
             className={cn(
               "w-full py-4.5 rounded-2xl font-black flex items-center justify-center gap-3 transition-all text-sm uppercase tracking-widest border",
-              cart.length === 0 || isProcessing
+              cart.length === 0 || isProcessing || (tenders.length > 0 && remainingBalance > 0)
                 ? "bg-white/5 border-transparent text-slate-700 cursor-not-allowed"
                 : "bg-[#FFD700] border-[#FFD700] text-[#0a0a0a] hover:scale-[1.02] active:scale-[0.98] shadow-[0_0_30px_rgba(255,215,0,0.25)]"
             )}
@@ -1259,92 +2267,20 @@ export default function POS() {
             </div>
             
             {/* Thermal Print look receipt body */}
-            <div className="p-8 space-y-6 font-mono text-xs text-slate-300 bg-[#070707] border-b border-white/5">
-              <div className="text-center space-y-1">
-                <p className="font-black text-white text-sm uppercase">{lastTransaction.storeName || posSettings.storeName}</p>
-                <p className="text-[10px] text-slate-500 uppercase">OFFLINE RESILIENT TERMINAL</p>
-                <div className="h-px border-b border-dashed border-white/25 my-3" />
-                <div className="flex justify-between text-[10px] text-slate-500">
-                  <span>DATE: {new Date(lastTransaction.timestamp).toLocaleDateString()}</span>
-                  <span>TIME: {new Date(lastTransaction.timestamp).toLocaleTimeString()}</span>
-                </div>
-                <div className="flex justify-between text-[10px] text-slate-500">
-                  <span>CASHIER: {lastTransaction.cashierName}</span>
-                  <span>CLIENT: {lastTransaction.customerName}</span>
-                </div>
-              </div>
-
-              <div className="space-y-2 border-t border-b border-dashed border-white/25 py-3">
-                <div className="flex justify-between text-[10px] font-bold text-slate-400">
-                  <span>Item SKU</span>
-                  <span>Qty</span>
-                  <span>Price</span>
-                  <span className="text-right">Total</span>
-                </div>
-                {lastTransaction.cart.map((c: any) => {
-                  const p = getItemPrice(c);
-                  return (
-                    <div key={c.item.id} className="flex justify-between text-[10px] text-white">
-                      <span className="truncate max-w-[150px]">{c.item.name}</span>
-                      <span>{c.quantity}</span>
-                      <span>${p.toLocaleString()}</span>
-                      <span className="text-right">${(p * c.quantity).toLocaleString()}</span>
-                    </div>
-                  );
-                })}
-              </div>
-
-              <div className="space-y-1.5 pt-1 text-[10px]">
-                <div className="flex justify-between">
-                  <span>SUBTOTAL:</span>
-                  <span className="text-white">${lastTransaction.subtotal.toLocaleString()}</span>
-                </div>
-                {lastTransaction.discount > 0 && (
-                  <div className="flex justify-between text-rose-400">
-                    <span>DISCOUNT:</span>
-                    <span>-${lastTransaction.discount.toLocaleString()}</span>
-                  </div>
-                )}
-                {lastTransaction.taxAmount > 0 && (
-                  <div className="flex justify-between">
-                    <span>TAX ({lastTransaction.taxRate}%):</span>
-                    <span className="text-white">${lastTransaction.taxAmount.toLocaleString()}</span>
-                  </div>
-                )}
-                <div className="flex justify-between text-sm font-black text-[#FFD700] pt-2 border-t border-dashed border-white/25">
-                  <span>GRAND TOTAL:</span>
-                  <span>${lastTransaction.total.toLocaleString()}</span>
-                </div>
-                {lastTransaction.amountPaid !== undefined && (
-                  <div className="flex justify-between text-[10px] text-slate-400">
-                    <span>AMOUNT PAID:</span>
-                    <span>${lastTransaction.amountPaid.toLocaleString()}</span>
-                  </div>
-                )}
-                {lastTransaction.changeAmount !== undefined && lastTransaction.changeAmount > 0 && (
-                  <div className="flex justify-between text-[10px] text-emerald-400">
-                    <span>CHANGE:</span>
-                    <span>${lastTransaction.changeAmount.toLocaleString()}</span>
-                  </div>
-                )}
-                <div className="flex justify-between text-[9px] text-slate-500 pt-1">
-                  <span>METHOD:</span>
-                  <span>{lastTransaction.paymentMethod.toUpperCase()}</span>
-                </div>
-              </div>
-
-              <div className="text-center pt-4 text-[10px] text-slate-500">
-                <p className="uppercase">{posSettings.receiptFooter}</p>
-                <p className="text-[8px] font-mono text-slate-600 mt-2 break-all">ID: {lastTransaction.id}</p>
-              </div>
-            </div>
+            <Receipt
+              sale={toSaleHeader(lastTransaction)}
+              lines={receiptLinesFromCart(lastTransaction.cart)}
+              branding={branding}
+              verifyUrl={receiptLink}
+            />
 
             <div className="p-8 flex gap-3 bg-[#0a0a0a]">
               <button 
-                onClick={() => window.print()}
-                className="flex-1 py-4 bg-white text-[#0a0a0a] rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-slate-100 transition-all flex items-center justify-center gap-2"
+                onClick={() => receiptPrinter && isOnline ? printThermalReceipt(lastTransaction) : window.print()}
+                disabled={isThermalPrinting}
+                className="flex-1 py-4 bg-white text-[#0a0a0a] rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-slate-100 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
               >
-                <Printer size={16} /> Print Receipt
+                {isThermalPrinting ? <Loader2 size={16} className="animate-spin" /> : <Printer size={16} />} Print Receipt
               </button>
               <button 
                 onClick={() => setShowReceipt(false)}
@@ -1358,6 +2294,41 @@ export default function POS() {
       )}
 
       {/* POS Local Configuration Settings Modal */}
+      {showShiftDrawer && (
+        <ShiftDrawer
+          terminalId={posSettings.terminalId.trim() || DEFAULT_TERMINAL_ID}
+          activeShift={activeShift}
+          isOnline={isOnline}
+          branding={branding}
+          onShiftChange={updateActiveShift}
+          onClose={() => setShowShiftDrawer(false)}
+        />
+      )}
+
+      {showReturnsDrawer && (
+        <ReturnsDrawer
+          terminalId={posSettings.terminalId.trim() || DEFAULT_TERMINAL_ID}
+          activeShift={activeShift}
+          requireShift={isConfigured}
+          isOnline={isOnline}
+          customers={customers}
+          branding={branding}
+          onReturned={() => Promise.all([fetchProducts(), fetchCustomers()])}
+          onClose={() => setShowReturnsDrawer(false)}
+        />
+      )}
+
+      {showQuotesDrawer && (
+        <QuotesDrawer
+          customers={customers}
+          branding={branding}
+          isOnline={isConfigured && isOnline}
+          initialSearch={quotesSearch}
+          onConvert={convertQuote}
+          onClose={() => setShowQuotesDrawer(false)}
+        />
+      )}
+
       {showSettingsModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
           <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={() => setShowSettingsModal(false)} />
@@ -1373,23 +2344,26 @@ export default function POS() {
 
             <div className="space-y-4">
               <div className="space-y-1">
-                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Store Name</label>
+                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Cashier Name</label>
                 <input 
                   type="text"
-                  value={posSettings.storeName}
-                  onChange={(e) => setPosSettings({ ...posSettings, storeName: e.target.value })}
+                  value={posSettings.cashierName}
+                  onChange={(e) => setPosSettings({ ...posSettings, cashierName: e.target.value })}
                   className="w-full bg-[#0a0a0a] border border-white/10 rounded-2xl py-3 px-4 text-xs font-bold text-white outline-none focus:border-[#FFD700]"
                 />
               </div>
 
               <div className="space-y-1">
-                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Cashier Name</label>
+                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Terminal ID</label>
                 <input 
                   type="text"
-                  value={posSettings.cashierName}
-                  onChange={(e) => setPosSettings({ ...posSettings, cashierName: e.target.value })}
+                  value={posSettings.terminalId}
+                  onChange={(e) => setPosSettings({ ...posSettings, terminalId: e.target.value.toUpperCase() })}
                   className="w-full bg-[#0a0a0a] border border-white/10 rounded-2xl py-3 px-4 text-xs font-bold text-white outline-none focus:border-[#FFD700]"
                 />
+                <p className="text-[9px] text-slate-500 font-bold ml-1">
+                  Sells from {stockLocation ? stockLocation.name : 'the default location'} • Bind terminals under Inventory › Locations
+                </p>
               </div>
 
               <div className="space-y-1">
@@ -1404,14 +2378,9 @@ export default function POS() {
                 />
               </div>
 
-              <div className="space-y-1">
-                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Receipt Footer</label>
-                <textarea 
-                  value={posSettings.receiptFooter}
-                  onChange={(e) => setPosSettings({ ...posSettings, receiptFooter: e.target.value })}
-                  className="w-full h-20 bg-[#0a0a0a] border border-white/10 rounded-2xl py-3 px-4 text-xs font-bold text-white outline-none focus:border-[#FFD700] resize-none"
-                />
-              </div>
+              <p className="text-[9px] font-bold text-slate-500 uppercase tracking-widest ml-1">
+                Store name, logo, contact details and receipt footer are edited under Settings &gt; Branding.
+              </p>
             </div>
 
             <div className="flex gap-3 pt-6 mt-6 border-t border-white/5">
@@ -1430,6 +2399,171 @@ export default function POS() {
       )}
 
       {/* Add Customer Modal */}
+      {showParkModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={() => setShowParkModal(false)} />
+          <div className="relative bg-[#0d0d0d] border border-white/10 w-full max-w-sm rounded-[2.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 p-8">
+            <div className="flex justify-between items-center pb-4 border-b border-white/5 mb-6">
+              <h3 className="text-sm font-black text-white uppercase tracking-widest flex items-center gap-2">
+                <PauseCircle className="text-sky-400" size={18} /> Park Cart
+              </h3>
+              <button onClick={() => setShowParkModal(false)} className="text-slate-500 hover:text-white">
+                <X size={18} />
+              </button>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Name this cart</label>
+              <input
+                type="text"
+                autoFocus
+                value={parkName}
+                onChange={(e) => setParkName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && parkCart()}
+                className="w-full bg-[#0a0a0a] border border-white/10 rounded-2xl py-3.5 px-4 text-xs font-bold text-white outline-none focus:border-[#FFD700]"
+              />
+              <p className="text-[9px] text-slate-600 ml-1">{cart.length} SKU • ${subtotal.toFixed(2)}. Stock is not reserved while parked.</p>
+            </div>
+
+            <div className="flex gap-3 pt-6 mt-6 border-t border-white/5">
+              <button
+                onClick={parkCart}
+                disabled={!parkName.trim()}
+                className="flex-1 py-4 bg-[#FFD700] text-[#0a0a0a] rounded-2xl font-black text-xs uppercase tracking-widest hover:scale-[1.02] active:scale-[0.98] transition-all disabled:opacity-50"
+              >
+                Park
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showQuoteModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={() => !isSavingQuote && setShowQuoteModal(false)} />
+          <div className="relative bg-[#0d0d0d] border border-white/10 w-full max-w-sm rounded-[2.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 p-8">
+            <div className="flex justify-between items-center pb-4 border-b border-white/5 mb-6">
+              <h3 className="text-sm font-black text-white uppercase tracking-widest flex items-center gap-2">
+                <FileText className="text-[#FFD700]" size={18} /> Save as Quote
+              </h3>
+              <button onClick={() => setShowQuoteModal(false)} disabled={isSavingQuote} className="text-slate-500 hover:text-white">
+                <X size={18} />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                {QUOTE_KINDS.map(kind => (
+                  <button
+                    key={kind.code}
+                    type="button"
+                    onClick={() => setQuoteKind(kind.code)}
+                    className={cn(
+                      "py-2.5 rounded-xl text-[9px] font-black uppercase tracking-widest border",
+                      quoteKind === kind.code ? "bg-[#FFD700] text-[#0a0a0a] border-[#FFD700]" : "bg-white/5 text-slate-500 border-white/10"
+                    )}
+                  >
+                    {kind.label}
+                  </button>
+                ))}
+              </div>
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Customer</label>
+                <input
+                  type="text"
+                  autoFocus
+                  value={quoteCustomerName}
+                  onChange={(e) => setQuoteCustomerName(e.target.value)}
+                  placeholder="Garage or fleet name"
+                  className="w-full bg-[#0a0a0a] border border-white/10 rounded-2xl py-3.5 px-4 text-xs font-bold text-white outline-none focus:border-[#FFD700]"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Valid for (days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={quoteValidityDays}
+                  onChange={(e) => setQuoteValidityDays(e.target.value)}
+                  className="w-full bg-[#0a0a0a] border border-white/10 rounded-2xl py-3.5 px-4 text-xs font-bold text-white outline-none focus:border-[#FFD700]"
+                />
+                <p className="text-[9px] text-slate-600 ml-1">Until {validUntilDate(Math.max(0, Math.floor(safeNum(quoteValidityDays))))}</p>
+              </div>
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Notes</label>
+                <input
+                  type="text"
+                  value={quoteNotes}
+                  onChange={(e) => setQuoteNotes(e.target.value)}
+                  placeholder="Vehicle, delivery terms..."
+                  className="w-full bg-[#0a0a0a] border border-white/10 rounded-2xl py-3.5 px-4 text-xs font-bold text-white outline-none focus:border-[#FFD700]"
+                />
+              </div>
+              <p className="text-[9px] text-slate-600 ml-1">{cart.length} SKU • ${grandTotal.toFixed(2)}. Stock is not reserved by a quote.</p>
+            </div>
+
+            <div className="flex gap-3 pt-6 mt-6 border-t border-white/5">
+              <button
+                onClick={saveQuote}
+                disabled={!quoteCustomerName.trim() || isSavingQuote}
+                className="flex-1 py-4 bg-[#FFD700] text-[#0a0a0a] rounded-2xl font-black text-xs uppercase tracking-widest hover:scale-[1.02] active:scale-[0.98] transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {isSavingQuote ? <Loader2 size={16} className="animate-spin" /> : 'Save & Download PDF'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showParkedList && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={() => setShowParkedList(false)} />
+          <div className="relative bg-[#0d0d0d] border border-white/10 w-full max-w-md rounded-[2.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 p-8">
+            <div className="flex justify-between items-center pb-4 border-b border-white/5 mb-6">
+              <h3 className="text-sm font-black text-white uppercase tracking-widest flex items-center gap-2">
+                <PauseCircle className="text-sky-400" size={18} /> Parked Carts
+              </h3>
+              <button onClick={() => setShowParkedList(false)} className="text-slate-500 hover:text-white">
+                <X size={18} />
+              </button>
+            </div>
+
+            <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+              {parkedCarts.length === 0 && (
+                <p className="text-[10px] font-black text-slate-600 uppercase tracking-widest text-center py-6">No parked carts</p>
+              )}
+              {parkedCarts.map(parked => (
+                <div key={parked.id} className="flex items-center justify-between p-3 bg-white/5 border border-white/5 rounded-2xl">
+                  <div className="min-w-0">
+                    <p className="text-xs font-black text-white truncate">{parked.name}</p>
+                    <p className="text-[10px] text-slate-500 font-mono">
+                      {parked.cart.length} SKU • ${parkedCartSubtotal(parked).toFixed(2)} • {new Date(parked.parkedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })} • {parked.parkedBy}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => recallParkedCart(parked)}
+                      className="px-3 py-2 bg-[#FFD700]/10 border border-[#FFD700]/20 text-[#FFD700] rounded-xl text-[9px] font-black uppercase tracking-widest flex items-center gap-1"
+                    >
+                      <PlayCircle size={12} /> Recall
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => discardParkedCart(parked)}
+                      className="p-2 text-slate-600 hover:text-rose-500"
+                      title="Discard parked cart"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {showAddCustomerModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
           <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={() => setShowAddCustomerModal(false)} />
@@ -1484,14 +2618,14 @@ export default function POS() {
 
             <div className="space-y-4">
               <div className="space-y-1">
-                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Unit Price ($)</label>
+                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Price per {cartUnitLabel(editingCartItem)} ($)</label>
                 <input 
                   type="text"
                   value={editingCartItemPrice}
                   onChange={(e) => setEditingCartItemPrice(e.target.value.replace(/[^0-9.]/g, ''))}
                   className="w-full bg-[#0a0a0a] border border-white/10 rounded-2xl py-3 px-4 text-xs font-bold text-white outline-none focus:border-[#FFD700]"
                 />
-                {safeNum(editingCartItemPrice) !== safeNum(editingCartItem.item.selling_price) && (
+                {safeNum(editingCartItemPrice) !== cartLinePrice({ ...editingCartItem, customPrice: undefined }) && (
                   <p className="text-[8px] font-black uppercase text-amber-500 tracking-wider mt-1 ml-1 flex items-center gap-1">
                     <Lock size={10} /> Manager PIN Required to approve Price Override
                   </p>
@@ -1499,16 +2633,16 @@ export default function POS() {
               </div>
 
               <div className="space-y-1">
-                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Quantity</label>
+                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">Quantity ({cartUnitLabel(editingCartItem)})</label>
                 <input 
                   type="number"
                   min={1}
-                  max={editingCartItem.item.quantity}
+                  max={Math.floor(editingCartItem.item.quantity / unitFactor(editingCartItem))}
                   value={editingCartItemQty}
                   onChange={(e) => setEditingCartItemQty(e.target.value)}
                   className="w-full bg-[#0a0a0a] border border-white/10 rounded-2xl py-3 px-4 text-xs font-bold text-white outline-none focus:border-[#FFD700]"
                 />
-                <p className="text-[8px] text-slate-500 font-mono mt-1 ml-1">Max available in vault: {editingCartItem.item.quantity} units</p>
+                <p className="text-[8px] text-slate-500 font-mono mt-1 ml-1">Max available in vault: {Math.floor(editingCartItem.item.quantity / unitFactor(editingCartItem))} {cartUnitLabel(editingCartItem)}</p>
               </div>
             </div>
 
@@ -1538,7 +2672,11 @@ export default function POS() {
               {pinPurpose === 'switch_role' && 'Authenticate as System Manager'}
               {pinPurpose === 'apply_discount' && 'Apply Transaction-Wide Discount'}
               {pinPurpose === 'override_price' && 'Override Core Item Selling Price'}
-              {pinPurpose === 'flush_cart' && 'Completely Flush POS Cart'}
+              {pinPurpose === 'flush_cart' && (showParkedList ? 'Discard Parked Cart' : 'Completely Flush POS Cart')}
+              {pinPurpose === 'discard_sale' && 'Discard Rejected Offline Sale'}
+              {pinPurpose === 'credit_override' && 'Approve Credit Sale Beyond Customer Limit'}
+              {pinPurpose === 'process_return' && 'Process Customer Return'}
+              {pinPurpose === 'sell_expired' && 'Approve Sale of Expired Batch'}
             </p>
 
             <div className="space-y-4">
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { supabase, isConfigured } from '../lib/supabase';
+import { isConfigured, listLedger, listBusinessSummaries, listInventory } from '../lib/data';
 import { LedgerEntry } from '../types';
 import { 
   TrendingUp, 
@@ -19,7 +19,10 @@ import {
 } from 'lucide-react';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { addPdfPage, drawPdfFooter, drawPdfHeader, drawPdfSection, pdfTableStyles } from '../lib/pdfTemplate';
+import { useBranding } from '../lib/useBranding';
 import { cn } from '../lib/utils';
+import { costOfGoodsSold } from '../lib/costing';
 import Loading from '../components/Loading';
 
 interface TransactionLog {
@@ -34,6 +37,7 @@ type RiskProfile = 'safe' | 'moderate' | 'aggressive';
 type RepaymentInterval = 'monthly' | 'semi-annual' | 'annual';
 
 export default function ProfitDistribution() {
+  const branding = useBranding();
   const [ledger, setLedger] = useState<LedgerEntry[]>([]);
   const [summaries, setSummaries] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
@@ -61,9 +65,9 @@ export default function ProfitDistribution() {
     setError(null);
     try {
       const [ledgerRes, summaryRes, inventoryRes] = await Promise.all([
-        supabase.from('ledger').select('*'),
-        supabase.from('business_summary').select('*'),
-        supabase.from('inventory').select('*')
+        listLedger(),
+        listBusinessSummaries(),
+        listInventory()
       ]);
 
       if (ledgerRes.error) throw ledgerRes.error;
@@ -92,9 +96,10 @@ export default function ProfitDistribution() {
 
           const revenue = catLedger.filter(l => l.transaction_type === 'sale').reduce((sum, l) => sum + safeNum(l.amount), 0);
           const expenses = catLedger.filter(l => l.transaction_type === 'expense').reduce((sum, l) => sum + safeNum(l.amount), 0);
-          const profit = revenue - expenses;
+          const cogs = costOfGoodsSold(catLedger);
+          const profit = revenue - cogs - expenses;
 
-          return { total_revenue: revenue, total_profit: profit };
+          return { total_revenue: revenue, total_cogs: cogs, total_profit: profit };
         });
         setSummaries(fallbackSummaries);
       }
@@ -130,22 +135,14 @@ export default function ProfitDistribution() {
   const exportToPDF = () => {
     const doc = new jsPDF();
     const timestamp = new Date().toLocaleString();
-
-    // Title
-    doc.setFontSize(20);
-    doc.text('Profit Distribution Report', 105, 15, { align: 'center' });
-    
-    doc.setFontSize(10);
-    doc.setTextColor(100);
-    doc.text(`Generated on: ${timestamp}`, 105, 22, { align: 'center' });
+    const y = drawPdfHeader(doc, branding, 'Profit Distribution Report', `Generated on: ${timestamp}`);
 
     // Financial Summary Section
-    doc.setFontSize(14);
-    doc.setTextColor(0);
-    doc.text('Financial Summary', 14, 35);
-    
+    drawPdfSection(doc, branding, 'Financial Summary', y);
+
     autoTable(doc, {
-      startY: 40,
+      ...pdfTableStyles(branding),
+      startY: y + 5,
       head: [['Metric', 'Value']],
       body: [
         ['Total Available Profit', `$${financials.netProfit.toLocaleString(undefined, { minimumFractionDigits: 2 })}`],
@@ -154,16 +151,14 @@ export default function ProfitDistribution() {
         ['Partner B Allocation', `${partnerBShare}% ($${distribution.partnerB.toLocaleString()})`],
         ['Reinvestment Growth', `${reinvestmentShare}% ($${distribution.reinvestment.toLocaleString()})`],
         ['Daily Avg Profit', `$${financials.dailyAvgProfit.toLocaleString(undefined, { minimumFractionDigits: 2 })}`],
-      ],
-      theme: 'grid',
-      headStyles: { fillColor: [255, 215, 0], textColor: [0, 0, 0] }
+      ]
     });
 
     // Borrowing Capacity Section
-    doc.setFontSize(14);
-    doc.text('Leverage & Borrowing Projection', 14, (doc as any).lastAutoTable.finalY + 15);
-    
+    drawPdfSection(doc, branding, 'Leverage & Borrowing Projection', (doc as any).lastAutoTable.finalY + 15);
+
     autoTable(doc, {
+      ...pdfTableStyles(branding),
       startY: (doc as any).lastAutoTable.finalY + 20,
       head: [['Parameter', 'Detail']],
       body: [
@@ -173,18 +168,16 @@ export default function ProfitDistribution() {
         ['Estimated Payment', `$${borrowingProjection.estimatedPayment.toLocaleString(undefined, { maximumFractionDigits: 0 })}`],
         ['Daily Debt Commitment', `$${borrowingProjection.dailyCommitment.toLocaleString(undefined, { maximumFractionDigits: 0 })}`],
         ['Horizon', '36 Months (3 Years)'],
-      ],
-      theme: 'striped',
-      headStyles: { fillColor: [59, 130, 246] }
+      ]
     });
 
     // Transaction History
     if (logs.length > 0) {
-      doc.addPage();
-      doc.setFontSize(14);
-      doc.text('Yield Distribution Audit Trail', 14, 20);
+      addPdfPage(doc, branding);
+      drawPdfSection(doc, branding, 'Yield Distribution Audit Trail', 20);
 
       autoTable(doc, {
+        ...pdfTableStyles(branding),
         startY: 25,
         head: [['Timestamp', 'Action', 'Details']],
         body: logs.map(l => [l.timestamp, l.action, l.details.replace(/\$|\,/g, '$&')]),
@@ -197,6 +190,8 @@ export default function ProfitDistribution() {
       });
     }
 
+    drawPdfFooter(doc, branding);
+
     doc.save(`Profit-Distribution-Report-${new Date().toISOString().split('T')[0]}.pdf`);
     addLog('REPORT EXPORTED', 'Generated comprehensive PDF report of all distribution parameters and audit logs.');
   };
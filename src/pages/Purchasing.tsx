@@ -0,0 +1,897 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  isConfigured,
+  listSuppliers,
+  createSupplier,
+  updateSupplier,
+  listPurchaseOrders,
+  createPurchaseOrder,
+  setPurchaseOrderStatus,
+  listGoodsReceived,
+  receiveGoods,
+  listInventory,
+  listLocations,
+  getPurchasingSettings,
+  updateCostingMethod
+} from '../lib/data';
+import { CostingMethod, GoodsReceiptRequest, GoodsReceivedNote, InventoryItem, PurchaseOrder, StockLocation, Supplier } from '../types';
+import { COSTING_METHODS, costingMethodLabel } from '../lib/costing';
+import {
+  outstandingQuantity,
+  PURCHASE_ORDER_STATUS_LABELS,
+  receiptTotals,
+  recordedInputVat
+} from '../lib/purchasing';
+import {
+  Truck,
+  Plus,
+  X,
+  AlertTriangle,
+  ClipboardList,
+  PackageCheck,
+  Users,
+  Trash2,
+  Loader2,
+  Receipt,
+  ChevronDown,
+  ChevronUp
+} from 'lucide-react';
+import { purchaseUnits } from '../lib/units';
+import { isSerialised, parseSerialList, validateSerials } from '../lib/warranty';
+import { isBatchTracked, validateBatchReceipt } from '../lib/batches';
+import { defaultLocation, locationName } from '../lib/locations';
+import { cn } from '../lib/utils';
+import Loading from '../components/Loading';
+
+type Tab = 'receipts' | 'orders' | 'suppliers';
+
+// Quantity and cost are in the chosen pack while drafting; they are sent in base units.
+interface DraftLine {
+  inventoryItemId: string;
+  purchaseOrderLineId?: string;
+  quantity: number;
+  unitCost: number;
+  unitName?: string;
+  factor?: number;
+  // Scanned or pasted serials, one per base unit received, for serialised items.
+  serialText?: string;
+  // The lot and its printed expiry (YYYY-MM-DD), for batch-tracked items.
+  batchNo?: string;
+  expiryDate?: string;
+}
+
+const toBaseLine = (l: DraftLine) => {
+  const factor = l.factor || 1;
+  return { quantity: l.quantity * factor, unitCost: l.unitCost / factor };
+};
+
+const EMPTY_SUPPLIER = { name: '', contact_name: '', phone: '', email: '', tax_id: '', address: '' };
+
+const STATUS_STYLES: Record<PurchaseOrder['status'], string> = {
+  draft: 'bg-white/5 text-slate-400 border-white/10',
+  ordered: 'bg-blue-500/10 text-blue-400 border-blue-500/20',
+  partially_received: 'bg-[#FFD700]/10 text-[#FFD700] border-[#FFD700]/20',
+  received: 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20',
+  cancelled: 'bg-rose-500/10 text-rose-500 border-rose-500/20'
+};
+
+export default function Purchasing() {
+  const [tab, setTab] = useState<Tab>('receipts');
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [receipts, setReceipts] = useState<GoodsReceivedNote[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [costingMethod, setCostingMethod] = useState<CostingMethod | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [expandedReceipt, setExpandedReceipt] = useState<string | null>(null);
+
+  // Drawers
+  const [supplierForm, setSupplierForm] = useState<typeof EMPTY_SUPPLIER | null>(null);
+  const [orderForm, setOrderForm] = useState<{ supplierId: string; expectedDate: string; notes: string; lines: DraftLine[] } | null>(null);
+  const [receiptForm, setReceiptForm] = useState<Omit<GoodsReceiptRequest, 'lines'> & { lines: DraftLine[] } | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  async function fetchData() {
+    if (!isConfigured) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const [supplierRes, orderRes, receiptRes, inventoryRes, settingsRes, locationRes] = await Promise.all([
+        listSuppliers(),
+        listPurchaseOrders(),
+        listGoodsReceived(),
+        listInventory(),
+        getPurchasingSettings(),
+        listLocations()
+      ]);
+      if (supplierRes.error) throw supplierRes.error;
+      if (orderRes.error) throw orderRes.error;
+      if (receiptRes.error) throw receiptRes.error;
+      if (inventoryRes.error) throw inventoryRes.error;
+
+      setSuppliers(supplierRes.data || []);
+      setOrders(orderRes.data || []);
+      setReceipts(receiptRes.data || []);
+      setItems(inventoryRes.data || []);
+      setCostingMethod(settingsRes.data?.costingMethod || null);
+      setLocations(locationRes.data || []);
+    } catch (err: any) {
+      console.error('Error fetching purchasing data:', err);
+      setError('Purchasing Fetch Error: ' + (err?.message || 'Failed to load purchasing records.'));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const safeNum = (val: any) => {
+    const n = parseFloat(String(val || 0));
+    return isNaN(n) ? 0 : n;
+  };
+
+  const formatMoney = (n: number) => `$${safeNum(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const supplierName = (id?: string | null) => suppliers.find(s => String(s.id) === String(id))?.name || 'Unknown Supplier';
+  const itemName = (id?: string | null) => items.find(i => String(i.id) === String(id))?.name || 'Unknown Item';
+  const orderValue = (order: PurchaseOrder) => order.lines.reduce((sum, l) => sum + safeNum(l.quantity_ordered) * safeNum(l.unit_cost), 0);
+
+  const openOrders = orders.filter(o => o.status === 'ordered' || o.status === 'partially_received');
+  const metrics = useMemo(() => {
+    const now = new Date();
+    const thisMonth = receipts.filter(r => {
+      const d = new Date(r.received_at);
+      return d.getFullYear() === now.getFullYear() && d.getMonth() === now.getMonth();
+    });
+    return {
+      receivedThisMonth: thisMonth.reduce((sum, r) => sum + safeNum(r.total), 0),
+      inputVat: recordedInputVat(receipts),
+      openOrderValue: openOrders.reduce((sum, o) => sum + o.lines.reduce((s, l) => s + outstandingQuantity(l) * safeNum(l.unit_cost), 0), 0)
+    };
+  }, [receipts, orders]);
+
+  // ---------------------------------------------------------------------------
+  // Suppliers
+  // ---------------------------------------------------------------------------
+
+  async function handleSaveSupplier(e: React.FormEvent) {
+    e.preventDefault();
+    if (!supplierForm) return;
+    setSubmitting(true);
+    const { error: saveError } = await createSupplier(supplierForm);
+    setSubmitting(false);
+    if (saveError) {
+      setError('Supplier Save Error: ' + saveError.message);
+      return;
+    }
+    setSupplierForm(null);
+    fetchData();
+  }
+
+  async function handleCostingMethod(method: CostingMethod) {
+    if (method === costingMethod) return;
+    if (!window.confirm(`Switch costing to ${costingMethodLabel(method)}? Sales already posted keep the cost they were recorded at.`)) {
+      return;
+    }
+    const { error: updateError } = await updateCostingMethod(method);
+    if (updateError) {
+      setError('Costing Method Error: ' + updateError.message);
+      return;
+    }
+    setCostingMethod(method);
+  }
+
+  async function handleToggleSupplier(supplier: Supplier) {
+    const { error: updateError } = await updateSupplier(supplier.id, { active: !supplier.active });
+    if (updateError) {
+      setError('Supplier Update Error: ' + updateError.message);
+      return;
+    }
+    fetchData();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Purchase orders
+  // ---------------------------------------------------------------------------
+
+  async function handleSaveOrder(status: 'draft' | 'ordered') {
+    if (!orderForm) return;
+    if (!orderForm.supplierId || orderForm.lines.length === 0 || orderForm.lines.some(l => !l.inventoryItemId || l.quantity <= 0)) {
+      setError('Purchase Order Error: choose a supplier and at least one item with a quantity.');
+      return;
+    }
+    setSubmitting(true);
+    const { error: saveError } = await createPurchaseOrder({
+      supplierId: orderForm.supplierId,
+      status,
+      expectedDate: orderForm.expectedDate || undefined,
+      notes: orderForm.notes || undefined,
+      lines: orderForm.lines.map(l => ({ inventoryItemId: l.inventoryItemId, ...toBaseLine(l) }))
+    });
+    setSubmitting(false);
+    if (saveError) {
+      setError('Purchase Order Error: ' + saveError.message);
+      return;
+    }
+    setOrderForm(null);
+    fetchData();
+  }
+
+  async function handleOrderStatus(order: PurchaseOrder, status: 'ordered' | 'cancelled') {
+    if (status === 'cancelled' && !window.confirm(`Cancel ${order.po_number}? Goods already received stay in stock.`)) {
+      return;
+    }
+    const { error: statusError } = await setPurchaseOrderStatus(order.id, status);
+    if (statusError) {
+      setError('Purchase Order Error: ' + statusError.message);
+      return;
+    }
+    fetchData();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Goods received
+  // ---------------------------------------------------------------------------
+
+  function openReceipt(order?: PurchaseOrder) {
+    setReceiptForm({
+      supplierId: order?.supplier_id || '',
+      purchaseOrderId: order?.id,
+      supplierInvoiceNo: '',
+      locationId: defaultLocation(locations)?.id,
+      fundSource: 'CAPITAL',
+      taxRate: 0,
+      notes: '',
+      lines: order
+        ? order.lines
+            .filter(l => outstandingQuantity(l) > 0)
+            .map(l => ({ inventoryItemId: l.inventory_item_id, purchaseOrderLineId: l.id, quantity: outstandingQuantity(l), unitCost: safeNum(l.unit_cost) }))
+        : []
+    });
+    setTab('receipts');
+  }
+
+  async function handleReceive(e: React.FormEvent) {
+    e.preventDefault();
+    if (!receiptForm) return;
+    if (!receiptForm.supplierId || receiptForm.lines.length === 0 || receiptForm.lines.some(l => !l.inventoryItemId || l.quantity <= 0)) {
+      setError('Goods Receipt Error: choose a supplier and at least one item with a quantity.');
+      return;
+    }
+    for (const line of receiptForm.lines) {
+      const item = items.find(i => String(i.id) === line.inventoryItemId);
+      if (!item) continue;
+      const trackingErrors = [
+        ...(isSerialised(item) ? validateSerials(parseSerialList(line.serialText || ''), toBaseLine(line).quantity) : []),
+        ...(isBatchTracked(item) ? validateBatchReceipt(line.batchNo, line.expiryDate) : [])
+      ];
+      if (trackingErrors.length > 0) {
+        setError(`Goods Receipt Error: ${item.name} ${trackingErrors[0]}`);
+        return;
+      }
+    }
+    setSubmitting(true);
+    const { data, error: receiveError } = await receiveGoods({
+      ...receiptForm,
+      purchaseOrderId: receiptForm.purchaseOrderId || undefined,
+      supplierInvoiceNo: receiptForm.supplierInvoiceNo || undefined,
+      notes: receiptForm.notes || undefined,
+      lines: receiptForm.lines.map(l => ({
+        inventoryItemId: l.inventoryItemId,
+        purchaseOrderLineId: l.purchaseOrderLineId,
+        ...toBaseLine(l),
+        serials: l.serialText ? parseSerialList(l.serialText) : undefined,
+        batchNo: l.batchNo?.trim() || undefined,
+        expiryDate: l.expiryDate || undefined
+      }))
+    });
+    setSubmitting(false);
+    if (receiveError) {
+      setError('Goods Receipt Error: ' + receiveError.message);
+      return;
+    }
+    setReceiptForm(null);
+    setExpandedReceipt(data?.id || null);
+    fetchData();
+  }
+
+  const receiptDraftTotals = receiptForm ? receiptTotals(receiptForm.lines, receiptForm.taxRate) : null;
+
+  if (loading && suppliers.length === 0 && receipts.length === 0) {
+    return <Loading />;
+  }
+
+  // Line editor shared by the purchase order and goods receipt drawers
+  const renderLines = (lines: DraftLine[], onChange: (lines: DraftLine[]) => void, lockItems: boolean, receiving = false) => (
+    <div className="space-y-3">
+      {lines.map((line, index) => {
+        const lineItem = items.find(i => String(i.id) === line.inventoryItemId);
+        const units = lineItem ? purchaseUnits(lineItem) : [];
+        return (
+          <div key={index} className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <select
+                required
+                disabled={lockItems && Boolean(line.purchaseOrderLineId)}
+                value={line.inventoryItemId}
+                onChange={e => {
+                  const item = items.find(i => String(i.id) === e.target.value);
+                  onChange(lines.map((l, i) => i === index ? { ...l, inventoryItemId: e.target.value, unitCost: safeNum(item?.cost_price), unitName: undefined, factor: undefined } : l));
+                }}
+                className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded-xl outline-none text-xs font-bold text-white appearance-none"
+              >
+                <option value="" disabled>Select item...</option>
+                {items.map(item => (
+                  <option key={item.id} value={item.id}>{item.name}{item.code ? ` (${item.code})` : ''}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => onChange(lines.filter((_, i) => i !== index))}
+                className="p-2 text-slate-500 hover:text-rose-500 hover:bg-rose-500/10 rounded-xl transition-all"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            {units.length > 1 && (
+              <select
+                value={line.unitName || units[0].name}
+                onChange={e => {
+                  const unit = units.find(u => u.name === e.target.value) || units[0];
+                  // Keep the count and rescale the cost already on the line to the new pack.
+                  const baseCost = line.unitCost / (line.factor || 1);
+                  onChange(lines.map((l, i) => i === index ? { ...l, unitName: unit.name, factor: unit.factor, unitCost: Math.round(baseCost * unit.factor * 100) / 100 } : l));
+                }}
+                className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-xl outline-none text-xs font-bold text-white appearance-none"
+              >
+                {units.map(unit => (
+                  <option key={unit.name} value={unit.name}>{unit.factor > 1 ? `${unit.name} of ${unit.factor} ${units[0].name}` : unit.name}</option>
+                ))}
+              </select>
+            )}
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Qty{line.unitName ? ` (${line.unitName})` : ''}</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={line.quantity || ''}
+                  onChange={e => onChange(lines.map((l, i) => i === index ? { ...l, quantity: parseInt(e.target.value) || 0 } : l))}
+                  className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-xl outline-none text-sm font-bold text-white"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Unit Cost</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={line.unitCost}
+                  onChange={e => onChange(lines.map((l, i) => i === index ? { ...l, unitCost: safeNum(e.target.value) } : l))}
+                  className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-xl outline-none text-sm font-bold text-white"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Line Total</label>
+                <p className="px-1 py-2 text-sm font-black text-[#FFD700]">{formatMoney(line.quantity * line.unitCost)}</p>
+              </div>
+            </div>
+            {receiving && lineItem && isBatchTracked(lineItem) && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Batch No</label>
+                  <input
+                    required
+                    value={line.batchNo || ''}
+                    onChange={e => onChange(lines.map((l, i) => i === index ? { ...l, batchNo: e.target.value } : l))}
+                    className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-xl outline-none text-sm font-mono font-bold text-white"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Expiry</label>
+                  <input
+                    required
+                    type="date"
+                    value={line.expiryDate || ''}
+                    onChange={e => onChange(lines.map((l, i) => i === index ? { ...l, expiryDate: e.target.value } : l))}
+                    className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-xl outline-none text-sm font-bold text-white"
+                  />
+                </div>
+              </div>
+            )}
+            {receiving && lineItem && isSerialised(lineItem) && (
+              <div className="space-y-1">
+                <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest">
+                  Serial Numbers ({parseSerialList(line.serialText || '').length} / {toBaseLine(line).quantity})
+                </label>
+                <textarea
+                  rows={3}
+                  value={line.serialText || ''}
+                  onChange={e => onChange(lines.map((l, i) => i === index ? { ...l, serialText: e.target.value } : l))}
+                  className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-xl outline-none text-xs font-mono text-white placeholder:text-slate-700"
+                  placeholder="Scan or paste one serial per line"
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={() => onChange([...lines, { inventoryItemId: '', quantity: 1, unitCost: 0 }])}
+        className="w-full py-3 border border-dashed border-white/10 rounded-2xl text-[10px] font-black text-slate-500 hover:text-[#FFD700] hover:border-[#FFD700]/30 uppercase tracking-widest transition-all flex items-center justify-center gap-2"
+      >
+        <Plus size={14} /> Add Line
+      </button>
+    </div>
+  );
+
+  const renderDrawer = (title: string, subtitle: string, onClose: () => void, body: React.ReactNode, footer: React.ReactNode) => (
+    <div className="fixed inset-0 z-[110] flex justify-end">
+      <div className="absolute inset-0 bg-[#0a0a0a]/80 backdrop-blur-md" onClick={() => !submitting && onClose()} />
+      <div className="relative w-full max-w-lg bg-[#0a0a0a] border-l border-white/10 h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div>
+            <h2 className="text-xl font-black text-[#FFD700] uppercase tracking-tighter">{title}</h2>
+            <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mt-1">{subtitle}</p>
+          </div>
+          <button onClick={onClose} disabled={submitting} className="p-2 hover:bg-white/5 rounded-full transition-colors text-slate-500 hover:text-[#FFD700]">
+            <X size={20} />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">{body}</div>
+        <div className="p-8 border-t border-white/10 bg-white/5 flex gap-4">{footer}</div>
+      </div>
+    </div>
+  );
+
+  const inputClass = 'w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl focus:border-[#FFD700]/50 outline-none font-bold text-white placeholder:text-slate-800';
+  const labelClass = 'text-[10px] font-black text-slate-500 uppercase tracking-widest';
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="vault-card p-6">
+          <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest">Received This Month</p>
+          <h2 className="text-2xl font-black mt-2 text-white">{formatMoney(metrics.receivedThisMonth)}</h2>
+        </div>
+        <div className="vault-card p-6">
+          <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest">Open Orders</p>
+          <h2 className="text-2xl font-black mt-2 text-white">{openOrders.length}</h2>
+          <p className="text-[10px] text-slate-600 mt-1 font-mono">{formatMoney(metrics.openOrderValue)} outstanding</p>
+        </div>
+        <div className="vault-card p-6">
+          <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest">Input VAT on GRNs</p>
+          <h2 className="text-2xl font-black mt-2 text-[#FFD700]">{formatMoney(metrics.inputVat)}</h2>
+        </div>
+        <div className="vault-card p-6">
+          <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest">Costing Method</p>
+          <select
+            value={costingMethod || ''}
+            onChange={e => handleCostingMethod(e.target.value as CostingMethod)}
+            className="mt-2 w-full bg-transparent text-lg font-black text-white uppercase tracking-tighter outline-none appearance-none cursor-pointer"
+          >
+            {!costingMethod && <option value="" disabled>—</option>}
+            {COSTING_METHODS.map(m => (
+              <option key={m.code} value={m.code} className="bg-[#0d0d0d]">{m.label}</option>
+            ))}
+          </select>
+          <p className="text-[10px] text-slate-600 mt-1 uppercase">Applies to stock moved from now on</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-rose-500/10 border border-rose-500/20 rounded-2xl p-4 flex items-start gap-3 animate-in fade-in slide-in-from-top-2">
+          <AlertTriangle className="text-rose-500 shrink-0" size={20} />
+          <p className="flex-1 text-xs text-rose-400 font-mono">{error}</p>
+          <button onClick={() => setError(null)} className="text-rose-500/50 hover:text-rose-500">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {/* Tabs & actions */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex gap-2 bg-white/5 p-1 rounded-2xl border border-white/10 w-fit">
+          {([
+            { id: 'receipts', label: 'Goods Received', icon: PackageCheck },
+            { id: 'orders', label: 'Purchase Orders', icon: ClipboardList },
+            { id: 'suppliers', label: 'Suppliers', icon: Users }
+          ] as const).map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={cn(
+                "flex items-center gap-2 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all",
+                tab === t.id ? "bg-[#FFD700] text-[#0a0a0a]" : "text-slate-500 hover:text-white"
+              )}
+            >
+              <t.icon size={14} /> {t.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => {
+            if (tab === 'suppliers') setSupplierForm({ ...EMPTY_SUPPLIER });
+            else if (tab === 'orders') setOrderForm({ supplierId: '', expectedDate: '', notes: '', lines: [] });
+            else openReceipt();
+          }}
+          className="flex items-center gap-2 px-6 py-3 bg-[#FFD700] text-[#0a0a0a] rounded-2xl text-sm font-black hover:bg-[#FFD700]/90 transition-all shadow-[0_0_20px_rgba(255,215,0,0.2)] active:scale-95 uppercase tracking-tighter"
+        >
+          <Plus size={18} />
+          {tab === 'suppliers' ? 'New Supplier' : tab === 'orders' ? 'New Purchase Order' : 'Receive Goods'}
+        </button>
+      </div>
+
+      {/* Goods received */}
+      {tab === 'receipts' && (
+        <div className="vault-card overflow-hidden">
+          {receipts.length === 0 ? (
+            <div className="text-center py-16">
+              <Truck size={40} className="mx-auto text-slate-800 mb-4" />
+              <p className="text-slate-500 font-black uppercase tracking-tighter">No goods received yet.</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-white/5">
+              {receipts.map(grn => {
+                const order = orders.find(o => o.id === grn.purchase_order_id);
+                const expanded = expandedReceipt === grn.id;
+                return (
+                  <div key={grn.id}>
+                    <button
+                      onClick={() => setExpandedReceipt(expanded ? null : grn.id)}
+                      className="w-full px-6 py-4 flex flex-wrap items-center gap-4 text-left hover:bg-white/5 transition-colors"
+                    >
+                      <div className="flex-1 min-w-[200px]">
+                        <p className="font-black text-white uppercase tracking-tighter">{grn.grn_no} • {supplierName(grn.supplier_id)}</p>
+                        <p className="text-[10px] text-slate-500 font-mono">
+                          {new Date(grn.received_at).toLocaleString()} • by {grn.received_by}
+                          {grn.location_id && locations.length > 1 && ` • into ${locationName(locations, grn.location_id)}`}
+                          {grn.supplier_invoice_no && ` • Invoice ${grn.supplier_invoice_no}`}
+                          {order && ` • ${order.po_number}`}
+                        </p>
+                      </div>
+                      <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{grn.fund_source}</span>
+                      <div className="text-right">
+                        <p className="text-sm font-black text-[#FFD700]">{formatMoney(grn.total)}</p>
+                        <p className="text-[10px] text-slate-600">VAT {formatMoney(grn.tax_amount)}</p>
+                      </div>
+                      {expanded ? <ChevronUp size={16} className="text-slate-500" /> : <ChevronDown size={16} className="text-slate-500" />}
+                    </button>
+                    {expanded && (
+                      <div className="px-6 pb-6">
+                        <table className="w-full text-left text-xs">
+                          <thead>
+                            <tr className="text-[9px] font-black text-slate-600 uppercase tracking-widest">
+                              <th className="py-2">Item</th>
+                              <th className="py-2 text-right">Qty</th>
+                              <th className="py-2 text-right">Unit Cost</th>
+                              <th className="py-2 text-right">Line Total</th>
+                              <th className="py-2 text-right">Item Cost ({costingMethodLabel(grn.costing_method)})</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-white/5">
+                            {grn.lines.map(line => (
+                              <tr key={line.id}>
+                                <td className="py-2 font-bold text-white">{itemName(line.inventory_item_id)}</td>
+                                <td className="py-2 text-right text-slate-400">{line.quantity}</td>
+                                <td className="py-2 text-right text-slate-400">{formatMoney(line.unit_cost)}</td>
+                                <td className="py-2 text-right font-bold text-white">{formatMoney(line.line_total)}</td>
+                                <td className="py-2 text-right text-slate-400 font-mono">{formatMoney(line.cost_before)} → {formatMoney(line.cost_after)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        <div className="flex justify-end gap-6 mt-4 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                          <span>Subtotal {formatMoney(grn.subtotal)}</span>
+                          <span>VAT {grn.tax_rate}% {formatMoney(grn.tax_amount)}</span>
+                          <span className="text-[#FFD700]">Total {formatMoney(grn.total)}</span>
+                        </div>
+                        {grn.notes && <p className="text-[11px] text-slate-500 mt-2">{grn.notes}</p>}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Purchase orders */}
+      {tab === 'orders' && (
+        <div className="vault-card overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-white/5 border-b border-white/10">
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest">Order</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest">Supplier</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest">Status</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest">Received</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest text-right">Value</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {orders.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-16 text-center text-slate-500 font-black uppercase tracking-tighter">No purchase orders yet.</td>
+                </tr>
+              ) : orders.map(order => {
+                const ordered = order.lines.reduce((s, l) => s + safeNum(l.quantity_ordered), 0);
+                const received = order.lines.reduce((s, l) => s + safeNum(l.quantity_received), 0);
+                return (
+                  <tr key={order.id} className="hover:bg-white/5 transition-colors">
+                    <td className="px-6 py-4">
+                      <span className="font-black text-white block">{order.po_number}</span>
+                      <span className="text-[10px] text-slate-600 font-mono">
+                        {new Date(order.created_at).toLocaleDateString()}
+                        {order.expected_date && ` • due ${new Date(order.expected_date).toLocaleDateString()}`}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-xs font-bold text-slate-300">{supplierName(order.supplier_id)}</td>
+                    <td className="px-6 py-4">
+                      <span className={cn("text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-lg border", STATUS_STYLES[order.status])}>
+                        {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-xs font-bold text-slate-400">{received} / {ordered}</td>
+                    <td className="px-6 py-4 text-right text-sm font-black text-[#FFD700]">{formatMoney(orderValue(order))}</td>
+                    <td className="px-6 py-4 text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        {order.status === 'draft' && (
+                          <button onClick={() => handleOrderStatus(order, 'ordered')} className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-xl bg-blue-500/10 text-blue-400 hover:bg-blue-500/20">
+                            Place Order
+                          </button>
+                        )}
+                        {(order.status === 'ordered' || order.status === 'partially_received') && (
+                          <button onClick={() => openReceipt(order)} className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-xl bg-[#FFD700]/10 text-[#FFD700] hover:bg-[#FFD700]/20">
+                            Receive
+                          </button>
+                        )}
+                        {['draft', 'ordered', 'partially_received'].includes(order.status) && (
+                          <button onClick={() => handleOrderStatus(order, 'cancelled')} className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-xl text-slate-500 hover:text-rose-500 hover:bg-rose-500/10">
+                            Cancel
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Suppliers */}
+      {tab === 'suppliers' && (
+        <div className="vault-card overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-white/5 border-b border-white/10">
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest">Supplier</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest">Contact</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest">TIN / VRN</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest text-right">Purchased</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase tracking-widest text-right">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {suppliers.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-16 text-center text-slate-500 font-black uppercase tracking-tighter">No suppliers registered.</td>
+                </tr>
+              ) : suppliers.map(supplier => (
+                <tr key={supplier.id} className={cn("hover:bg-white/5 transition-colors", !supplier.active && "opacity-50")}>
+                  <td className="px-6 py-4">
+                    <span className="font-black text-white block">{supplier.name}</span>
+                    {supplier.address && <span className="text-[10px] text-slate-600">{supplier.address}</span>}
+                  </td>
+                  <td className="px-6 py-4 text-xs text-slate-400">
+                    {[supplier.contact_name, supplier.phone, supplier.email].filter(Boolean).join(' • ') || '—'}
+                  </td>
+                  <td className="px-6 py-4 text-xs font-mono text-slate-400">{supplier.tax_id || <span className="text-rose-500/70">Missing</span>}</td>
+                  <td className="px-6 py-4 text-right text-sm font-black text-[#FFD700]">
+                    {formatMoney(receipts.filter(r => r.supplier_id === supplier.id).reduce((s, r) => s + safeNum(r.total), 0))}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button
+                      onClick={() => handleToggleSupplier(supplier)}
+                      className={cn(
+                        "text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-lg border",
+                        supplier.active ? "bg-emerald-500/10 text-emerald-500 border-emerald-500/20" : "bg-white/5 text-slate-500 border-white/10"
+                      )}
+                    >
+                      {supplier.active ? 'Active' : 'Inactive'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Supplier drawer */}
+      {supplierForm && renderDrawer(
+        'Register Supplier',
+        'Supplier Master Record',
+        () => setSupplierForm(null),
+        <form id="supplier-form" onSubmit={handleSaveSupplier} className="space-y-6">
+          {([
+            { key: 'name', label: 'Supplier Name', required: true },
+            { key: 'contact_name', label: 'Contact Person' },
+            { key: 'phone', label: 'Phone' },
+            { key: 'email', label: 'Email' },
+            { key: 'tax_id', label: 'TIN / VRN' },
+            { key: 'address', label: 'Address' }
+          ] as const).map(field => (
+            <div key={field.key} className="space-y-2">
+              <label className={labelClass}>{field.label}</label>
+              <input
+                required={'required' in field}
+                type={field.key === 'email' ? 'email' : 'text'}
+                value={supplierForm[field.key]}
+                onChange={e => setSupplierForm({ ...supplierForm, [field.key]: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </form>,
+        <>
+          <button type="button" onClick={() => setSupplierForm(null)} className="flex-1 px-4 py-4 border border-white/10 rounded-2xl text-xs font-black text-slate-500 hover:bg-white/5 transition-all uppercase tracking-tighter">
+            Discard
+          </button>
+          <button type="submit" form="supplier-form" disabled={submitting} className="flex-1 px-4 py-4 bg-[#FFD700] text-[#0a0a0a] rounded-2xl text-xs font-black hover:bg-[#FFD700]/90 transition-all uppercase tracking-tighter disabled:opacity-50">
+            {submitting ? <Loader2 size={16} className="animate-spin mx-auto" /> : 'Save Supplier'}
+          </button>
+        </>
+      )}
+
+      {/* Purchase order drawer */}
+      {orderForm && renderDrawer(
+        'New Purchase Order',
+        'Order Stock From A Supplier',
+        () => setOrderForm(null),
+        <>
+          <div className="space-y-2">
+            <label className={labelClass}>Supplier</label>
+            <select
+              value={orderForm.supplierId}
+              onChange={e => setOrderForm({ ...orderForm, supplierId: e.target.value })}
+              className={cn(inputClass, 'appearance-none')}
+            >
+              <option value="" disabled>Select supplier...</option>
+              {suppliers.filter(s => s.active).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Expected Delivery</label>
+            <input type="date" value={orderForm.expectedDate} onChange={e => setOrderForm({ ...orderForm, expectedDate: e.target.value })} className={inputClass} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Lines</label>
+            {renderLines(orderForm.lines, lines => setOrderForm({ ...orderForm, lines }), false)}
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Notes</label>
+            <textarea value={orderForm.notes} onChange={e => setOrderForm({ ...orderForm, notes: e.target.value })} className={cn(inputClass, 'h-20 resize-none')} />
+          </div>
+          <p className="text-right text-sm font-black text-[#FFD700]">
+            Order Value {formatMoney(orderForm.lines.reduce((s, l) => s + l.quantity * l.unitCost, 0))}
+          </p>
+        </>,
+        <>
+          <button type="button" disabled={submitting} onClick={() => handleSaveOrder('draft')} className="flex-1 px-4 py-4 border border-white/10 rounded-2xl text-xs font-black text-slate-400 hover:bg-white/5 transition-all uppercase tracking-tighter disabled:opacity-50">
+            Save Draft
+          </button>
+          <button type="button" disabled={submitting} onClick={() => handleSaveOrder('ordered')} className="flex-1 px-4 py-4 bg-[#FFD700] text-[#0a0a0a] rounded-2xl text-xs font-black hover:bg-[#FFD700]/90 transition-all uppercase tracking-tighter disabled:opacity-50">
+            {submitting ? <Loader2 size={16} className="animate-spin mx-auto" /> : 'Place Order'}
+          </button>
+        </>
+      )}
+
+      {/* Goods receipt drawer */}
+      {receiptForm && receiptDraftTotals && renderDrawer(
+        'Receive Goods',
+        receiptForm.purchaseOrderId
+          ? `Against ${orders.find(o => o.id === receiptForm.purchaseOrderId)?.po_number || 'purchase order'}`
+          : 'Goods Received Note',
+        () => setReceiptForm(null),
+        <form id="receipt-form" onSubmit={handleReceive} className="space-y-6">
+          <div className="space-y-2">
+            <label className={labelClass}>Supplier</label>
+            <select
+              required
+              disabled={Boolean(receiptForm.purchaseOrderId)}
+              value={receiptForm.supplierId}
+              onChange={e => setReceiptForm({ ...receiptForm, supplierId: e.target.value })}
+              className={cn(inputClass, 'appearance-none')}
+            >
+              <option value="" disabled>Select supplier...</option>
+              {suppliers.filter(s => s.active || s.id === receiptForm.supplierId).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          </div>
+          {locations.length > 1 && (
+            <div className="space-y-2">
+              <label className={labelClass}>Receive Into</label>
+              <select
+                value={receiptForm.locationId || ''}
+                onChange={e => setReceiptForm({ ...receiptForm, locationId: e.target.value })}
+                className={cn(inputClass, 'appearance-none')}
+              >
+                {locations.filter(l => l.active).map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+              </select>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className={labelClass}>Supplier Invoice No.</label>
+              <input
+                type="text"
+                value={receiptForm.supplierInvoiceNo || ''}
+                onChange={e => setReceiptForm({ ...receiptForm, supplierInvoiceNo: e.target.value })}
+                className={cn(inputClass, 'font-mono text-sm')}
+                placeholder="Tax invoice / EFD no."
+              />
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>Input VAT (%)</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={receiptForm.taxRate}
+                onChange={e => setReceiptForm({ ...receiptForm, taxRate: safeNum(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2 col-span-2">
+              <label className={labelClass}>Paid From</label>
+              <select
+                value={receiptForm.fundSource}
+                onChange={e => setReceiptForm({ ...receiptForm, fundSource: e.target.value as GoodsReceiptRequest['fundSource'] })}
+                className={cn(inputClass, 'appearance-none')}
+              >
+                <option value="CAPITAL">Capital</option>
+                <option value="PROFIT">Profit</option>
+              </select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Lines (unit cost excl. VAT)</label>
+            {renderLines(receiptForm.lines, lines => setReceiptForm({ ...receiptForm, lines }), true, true)}
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Notes</label>
+            <textarea value={receiptForm.notes || ''} onChange={e => setReceiptForm({ ...receiptForm, notes: e.target.value })} className={cn(inputClass, 'h-20 resize-none')} />
+          </div>
+          <div className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-1 text-xs font-bold">
+            <div className="flex justify-between text-slate-400"><span>Subtotal</span><span>{formatMoney(receiptDraftTotals.subtotal)}</span></div>
+            <div className="flex justify-between text-slate-400"><span>Input VAT</span><span>{formatMoney(receiptDraftTotals.taxAmount)}</span></div>
+            <div className="flex justify-between text-[#FFD700] font-black text-sm pt-2 border-t border-white/5"><span>Total</span><span>{formatMoney(receiptDraftTotals.total)}</span></div>
+            <p className="text-[10px] text-slate-600 pt-2 flex items-center gap-1">
+              <Receipt size={12} /> Stock is costed by {costingMethod ? costingMethodLabel(costingMethod) : 'the current costing method'}.
+            </p>
+          </div>
+        </form>,
+        <>
+          <button type="button" onClick={() => setReceiptForm(null)} className="flex-1 px-4 py-4 border border-white/10 rounded-2xl text-xs font-black text-slate-500 hover:bg-white/5 transition-all uppercase tracking-tighter">
+            Discard
+          </button>
+          <button type="submit" form="receipt-form" disabled={submitting} className="flex-1 px-4 py-4 bg-[#FFD700] text-[#0a0a0a] rounded-2xl text-xs font-black hover:bg-[#FFD700]/90 transition-all uppercase tracking-tighter disabled:opacity-50">
+            {submitting ? <Loader2 size={16} className="animate-spin mx-auto" /> : 'Post GRN'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useEffect, useState, useMemo } from 'react';
-import { supabase, isConfigured } from '../lib/supabase';
-import { LedgerEntry, InventoryItem } from '../types';
+import { getReceiptLink, isConfigured, listLedger, listSaleHeaders, listInventory, listSerials } from '../lib/data';
+import { LedgerEntry, InventoryItem, Sale, SerialNumber } from '../types';
 import { 
   History, 
   RotateCcw, 
@@ -9,29 +9,57 @@ import {
   Calendar, 
   DollarSign, 
   Package,
-  Trash2,
   Edit3,
-  Check,
   X,
   ShoppingCart,
   Loader2,
-  Download
+  Download,
+  ShieldCheck,
+  Receipt as ReceiptIcon
 } from 'lucide-react';
 import { cn } from '../lib/utils';
+import { formatTenders, receiptLinesFromLedger, takingsByTender, tenderLabel } from '../lib/sales';
+import { saleLineCost } from '../lib/costing';
+import { AdjustedEntry, AdjustmentRequest, correctLedgerAmount, foldAdjustments, reasonLabel, reverseLedgerEntries } from '../lib/adjustments';
 import Loading from '../components/Loading';
+import WarrantyDrawer from '../components/WarrantyDrawer';
+import Receipt from '../components/Receipt';
+import AdjustmentDialog from '../components/AdjustmentDialog';
 
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { drawPdfFooter, drawPdfHeader, pdfTableStyles } from '../lib/pdfTemplate';
+import { useBranding } from '../lib/useBranding';
+
+interface PendingAdjustment {
+  mode: 'reversal' | 'correction';
+  title: string;
+  summary: string;
+  currentAmount?: number;
+  submit: (request: AdjustmentRequest, amount?: number) => Promise<void>;
+}
+
+interface SaleTransaction {
+  key: string;
+  saleId: string | null;
+  header: Sale | null;
+  timestamp: string;
+  items: LedgerEntry[];
+}
 
 export default function Sales() {
+  const branding = useBranding();
   const [sales, setSales] = useState<LedgerEntry[]>([]);
+  const [saleHeaders, setSaleHeaders] = useState<Record<string, Sale>>({});
+  const [receiptTransaction, setReceiptTransaction] = useState<SaleTransaction | null>(null);
+  const [receiptLink, setReceiptLink] = useState<string | null>(null);
+  const [receiptSerials, setReceiptSerials] = useState<SerialNumber[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [showWarranty, setShowWarranty] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [reversingId, setReversingId] = useState<string | null>(null);
-  const [reversingTransactionId, setReversingTransactionId] = useState<string | null>(null);
-  const [editingId, setEditingId] = useState<string | null>(null);
-  const [editAmount, setEditAmount] = useState<number>(0);
+  const [adjustment, setAdjustment] = useState<PendingAdjustment | null>(null);
   const [downloadingDate, setDownloadingDate] = useState<string | null>(null);
   const [reportPeriod, setReportPeriod] = useState<'daily' | 'monthly' | 'semi-annual' | 'annual'>('daily');
   const [selectedDate, setSelectedDate] = useState<string>(() => new Date().toISOString().split('T')[0]);
@@ -50,31 +78,50 @@ export default function Sales() {
     fetchSales();
   }, []);
 
+  useEffect(() => {
+    setReceiptLink(null);
+    setReceiptSerials([]);
+    const saleId = receiptTransaction?.header?.id;
+    if (!saleId) return;
+    let active = true;
+    getReceiptLink(saleId).then(({ data }) => {
+      if (active) setReceiptLink(data?.url || null);
+    });
+    listSerials({ saleId }).then(({ data }) => {
+      if (active) setReceiptSerials(data || []);
+    });
+    return () => { active = false; };
+  }, [receiptTransaction]);
+
   async function fetchSales() {
     if (!isConfigured) return;
     setLoading(true);
     setError(null);
     try {
-      const { data: ledgerData, error: ledgerError } = await supabase
-        .from('ledger')
-        .select('*')
-        .eq('transaction_type', 'sale')
-        .order('created_at', { ascending: false });
+      const { data: ledgerData, error: ledgerError } = await listLedger({ transactionType: 'sale' });
 
       if (ledgerError) throw ledgerError;
 
+      const { data: headerData, error: headerError } = await listSaleHeaders();
+
+      if (headerError) {
+        console.warn('Sale headers unavailable, falling back to ledger grouping:', headerError.message);
+      }
+      setSaleHeaders((headerData || []).reduce((acc, header) => {
+        acc[header.id] = header;
+        return acc;
+      }, {} as Record<string, Sale>));
+
       if (ledgerData && ledgerData.length > 0) {
         const itemIds = [...new Set(ledgerData.map(s => s.inventory_item_id).filter(Boolean))];
         
         let inventoryMap: Record<string, any> = {};
         
         if (itemIds.length > 0) {
-          const { data: inventoryData, error: inventoryError } = await supabase
-            .from('inventory')
-            .select('*')
-            .in('id', itemIds);
+          const { data: inventoryData, error: inventoryError } = await listInventory();
 
           if (!inventoryError && inventoryData) {
+            setItems(inventoryData);
             inventoryMap = inventoryData.reduce((acc, item) => {
               acc[item.id] = item;
               return acc;
@@ -103,167 +150,83 @@ export default function Sales() {
     }
   }
 
-  async function handleReverseTransaction(transactionSales: LedgerEntry[]) {
-    if (!window.confirm(`Reverse this entire sale (${transactionSales.length} items)? This will restore stock to inventory and remove the ledger entries.`)) {
-      return;
-    }
-
-    const firstSaleId = transactionSales[0].id;
-    setReversingTransactionId(firstSaleId);
-    try {
-      for (const sale of transactionSales) {
-        // 1. Restore stock if inventory_item_id exists
-        if (sale.inventory_item_id && sale.quantity) {
-          const { data: currentItem, error: fetchError } = await supabase
-            .from('inventory')
-            .select('quantity')
-            .eq('id', sale.inventory_item_id)
-            .single();
-
-          if (fetchError) throw fetchError;
-
-          const newQuantity = (currentItem?.quantity || 0) + sale.quantity;
-          const { error: invError } = await supabase
-            .from('inventory')
-            .update({ quantity: newQuantity })
-            .eq('id', sale.inventory_item_id);
-
-          if (invError) throw invError;
-        }
-
-        // 2. Delete from ledger
-        const { error: deleteError } = await supabase
-          .from('ledger')
-          .delete()
-          .eq('id', sale.id);
-
-        if (deleteError) throw deleteError;
+  function handleReverseTransaction(transaction: SaleTransaction) {
+    const openLines = foldAdjustments(transaction.items).filter(a => !a.reversal && !a.entry.adjusts_id);
+    if (openLines.length === 0) return;
+
+    setAdjustment({
+      mode: 'reversal',
+      title: 'Reverse Entire Sale',
+      summary: `Posts compensating entries for ${openLines.length} line(s) and restores their stock. The original entries stay in the ledger.`,
+      submit: async (request) => {
+        const target = transaction.saleId
+          ? { saleId: transaction.saleId }
+          : { entryIds: openLines.map(a => String(a.entry.id)) };
+        await reverseLedgerEntries(target, request);
       }
-
-      fetchSales();
-    } catch (err) {
-      setError('Reversal Error: ' + (err as any)?.message);
-    } finally {
-      setReversingTransactionId(null);
-    }
+    });
   }
 
-  async function handleReverseSale(sale: LedgerEntry) {
-    if (!window.confirm('Reverse this specific item from the sale? This will restore stock to inventory and remove the ledger entry.')) {
-      return;
-    }
-
-    setReversingId(sale.id);
-    try {
-      // 1. Restore stock if inventory_item_id exists
-      if (sale.inventory_item_id && sale.quantity) {
-        const { data: currentItem, error: fetchError } = await supabase
-          .from('inventory')
-          .select('quantity')
-          .eq('id', sale.inventory_item_id)
-          .single();
-
-        if (fetchError) throw fetchError;
-
-        const newQuantity = (currentItem?.quantity || 0) + sale.quantity;
-        const { error: invError } = await supabase
-          .from('inventory')
-          .update({ quantity: newQuantity })
-          .eq('id', sale.inventory_item_id);
-
-        if (invError) throw invError;
+  function handleReverseSale(adjusted: AdjustedEntry) {
+    const sale = adjusted.entry;
+    setAdjustment({
+      mode: 'reversal',
+      title: 'Reverse Sale Line',
+      summary: `Reverses ${sale.inventory?.name || sale.description || 'this line'} (net $${adjusted.net.toLocaleString(undefined, { minimumFractionDigits: 2 })}) and restores ${sale.quantity || 0} unit(s) to inventory.`,
+      submit: async (request) => {
+        await reverseLedgerEntries({ entryIds: [String(sale.id)] }, request);
       }
-
-      // 2. Delete from ledger
-      const { error: deleteError } = await supabase
-        .from('ledger')
-        .delete()
-        .eq('id', sale.id);
-
-      if (deleteError) throw deleteError;
-
-      fetchSales();
-    } catch (err) {
-      setError('Reversal Error: ' + (err as any)?.message);
-    } finally {
-      setReversingId(null);
-    }
+    });
   }
 
-  async function handleUpdateAmount(sale: LedgerEntry) {
-    try {
-      const { error: updateError } = await supabase
-        .from('ledger')
-        .update({ amount: editAmount })
-        .eq('id', sale.id);
-
-      if (updateError) throw updateError;
-      
-      setEditingId(null);
-      fetchSales();
-    } catch (err) {
-      setError('Update Error: ' + (err as any)?.message);
-    }
+  function handleUpdateAmount(adjusted: AdjustedEntry) {
+    const sale = adjusted.entry;
+    setAdjustment({
+      mode: 'correction',
+      title: 'Correct Sale Amount',
+      summary: `Posts the difference as a correction entry linked to ${sale.inventory?.name || sale.description || 'this line'}. Stock is not affected.`,
+      currentAmount: adjusted.net,
+      submit: async (request, amount) => {
+        await correctLedgerAmount(String(sale.id), amount ?? adjusted.net, request);
+      }
+    });
   }
 
-  const downloadDayReport = (dateStr: string, transactions: any[]) => {
+  const downloadDayReport = (dateStr: string, transactions: SaleTransaction[]) => {
     setDownloadingDate(dateStr);
     try {
       const doc = new jsPDF();
-      
-      // Theme matching the app's dark aesthetic but readable on PDF
-      doc.setFillColor(20, 20, 20);
-      doc.rect(0, 0, 210, 297, 'F');
-      
-      doc.setTextColor(255, 215, 0); // Gold
-      doc.setFontSize(22);
-      doc.setFont('helvetica', 'bold');
-      doc.text('RETAILOS DAILY SALES REPORT', 15, 25);
-      
-      doc.setTextColor(200, 200, 200);
-      doc.setFontSize(12);
-      doc.text(`Report Period: ${dateStr}`, 15, 35);
-      
+      const y = drawPdfHeader(doc, branding, 'Daily Sales Report', `Report Period: ${dateStr}`);
+
       // Calculate day totals
       const daySales = transactions.flatMap(t => t.items);
       const dayRevenue = daySales.reduce((acc, s) => acc + safeNum(s.amount), 0);
-      const dayProfit = daySales.reduce((acc, s) => {
-        const amount = safeNum(s.amount);
-        const cost = safeNum(s.inventory?.cost_price) * (safeNum(s.quantity) || 1);
-        return acc + (amount - cost);
-      }, 0);
-
-      doc.setTextColor(255, 255, 255);
-      doc.setFontSize(10);
-      doc.text(`Daily Revenue: $${dayRevenue.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 15, 45);
-      doc.text(`Daily Net Profit: $${dayProfit.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 15, 52);
-      doc.text(`Transaction Count: ${transactions.length}`, 15, 59);
+      const dayProfit = daySales.reduce((acc, s) => acc + safeNum(s.amount) - saleLineCost(s), 0);
+
+      doc.text(`Daily Revenue: $${dayRevenue.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 15, y);
+      doc.text(`Daily Net Profit: $${dayProfit.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 15, y + 7);
+      doc.text(`Transaction Count: ${transactions.length}`, 15, y + 14);
 
       const tableBody = transactions.flatMap(t => 
         t.items.map((item: LedgerEntry) => [
           new Date(t.timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' }),
-          item.inventory?.name || item.description || 'Unknown',
+          t.header?.receipt_no || '-',
+          pdfLineLabel(item),
           item.quantity || 1,
           `$${safeNum(item.amount).toLocaleString()}`,
-          `$${(safeNum(item.amount) - (safeNum(item.inventory?.cost_price) * (safeNum(item.quantity) || 1))).toLocaleString()}`,
+          `$${(safeNum(item.amount) - saleLineCost(item)).toLocaleString()}`,
           item.fund_source
         ])
       );
 
       autoTable(doc, {
-        startY: 70,
-        head: [['Time', 'Product', 'Qty', 'Amount', 'Profit', 'Source']],
-        body: tableBody,
-        theme: 'grid',
-        headStyles: { fillColor: [30, 30, 30], textColor: [255, 215, 0] },
-        bodyStyles: { fillColor: [15, 15, 15], textColor: [255, 255, 255] },
-        alternateRowStyles: { fillColor: [25, 25, 25] },
-        margin: { top: 70 }
+        ...pdfTableStyles(branding),
+        startY: y + 25,
+        head: [['Time', 'Receipt', 'Product', 'Qty', 'Amount', 'Profit', 'Source']],
+        body: tableBody
       });
 
-      doc.setTextColor(100, 100, 100);
-      doc.setFontSize(8);
-      doc.text('Verified Archive Ledger - RetailOS Financial Engine', 15, doc.internal.pageSize.height - 10);
+      drawPdfFooter(doc, branding, 'Verified Archive Ledger');
 
       doc.save(`Sales_Report_${dateStr.replace(/ /g, '_')}.pdf`);
     } catch (err) {
@@ -286,7 +249,7 @@ export default function Sales() {
         month: 'long', 
         day: 'numeric' 
       });
-      periodTitle = 'RETAILOS DAILY SALES REPORT';
+      periodTitle = 'Daily Sales Report';
       periodLabel = `Selected Day: ${formatted}`;
       dateStrForFile = `Daily_${selectedDate}`;
     } else if (reportPeriod === 'monthly') {
@@ -298,15 +261,15 @@ export default function Sales() {
         year: 'numeric', 
         month: 'long'
       });
-      periodTitle = 'RETAILOS MONTHLY SALES REPORT';
+      periodTitle = 'Monthly Sales Report';
       periodLabel = `Selected Month: ${formatted}`;
       dateStrForFile = `Monthly_${selectedMonth}`;
     } else if (reportPeriod === 'semi-annual') {
-      periodTitle = 'RETAILOS SEMI-ANNUAL SALES REPORT';
+      periodTitle = 'Semi-Annual Sales Report';
       periodLabel = `Selected Half: ${selectedHalf} ${selectedSemiYear}`;
       dateStrForFile = `Semi-Annual_${selectedHalf}_${selectedSemiYear}`;
     } else {
-      periodTitle = 'RETAILOS ANNUAL SALES REPORT';
+      periodTitle = 'Annual Sales Report';
       periodLabel = `Selected Year: ${selectedAnnualYear}`;
       dateStrForFile = `Annual_${selectedAnnualYear}`;
     }
@@ -322,55 +285,37 @@ export default function Sales() {
 
     try {
       const doc = new jsPDF();
-      
-      doc.setFillColor(20, 20, 20);
-      doc.rect(0, 0, 210, 297, 'F');
-      
-      doc.setTextColor(255, 215, 0); // Gold
-      doc.setFontSize(22);
-      doc.setFont('helvetica', 'bold');
-      doc.text(periodTitle, 15, 25);
-      
-      doc.setTextColor(200, 200, 200);
-      doc.setFontSize(12);
-      doc.text(`Report Period: ${periodLabel}`, 15, 35);
-      
+      const y = drawPdfHeader(doc, branding, periodTitle, `Report Period: ${periodLabel}`);
+
       const totalRev = periodReportData.revenue;
       const totalProf = periodReportData.profit;
 
-      doc.setTextColor(255, 255, 255);
-      doc.setFontSize(10);
-      doc.text(`Total Revenue: $${totalRev.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 15, 45);
-      doc.text(`Total Net Profit: $${totalProf.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 15, 52);
-      doc.text(`Transaction / Item Count: ${matchedSales.length}`, 15, 59);
+      doc.text(`Total Revenue: $${totalRev.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 15, y);
+      doc.text(`Total Net Profit: $${totalProf.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 15, y + 7);
+      doc.text(`Transaction / Item Count: ${matchedSales.length}`, 15, y + 14);
 
       const tableBody = matchedSales.map((item: LedgerEntry) => {
         const itemDate = new Date(item.created_at);
         const dateStr = itemDate.toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
         return [
           dateStr,
-          item.inventory?.name || item.description || 'Unknown',
+          (item.sale_id && saleHeaders[item.sale_id]?.receipt_no) || '-',
+          pdfLineLabel(item),
           item.quantity || 1,
           `$${safeNum(item.amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}`,
-          `$${(safeNum(item.amount) - (safeNum(item.inventory?.cost_price) * (safeNum(item.quantity) || 1))).toLocaleString(undefined, { minimumFractionDigits: 2 })}`,
+          `$${(safeNum(item.amount) - saleLineCost(item)).toLocaleString(undefined, { minimumFractionDigits: 2 })}`,
           item.fund_source || 'Unknown'
         ];
       });
 
       autoTable(doc, {
-        startY: 70,
-        head: [['Date/Time', 'Product', 'Qty', 'Amount', 'Profit', 'Source']],
-        body: tableBody,
-        theme: 'grid',
-        headStyles: { fillColor: [30, 30, 30], textColor: [255, 215, 0] },
-        bodyStyles: { fillColor: [15, 15, 15], textColor: [255, 255, 255] },
-        alternateRowStyles: { fillColor: [25, 25, 25] },
-        margin: { top: 70 }
+        ...pdfTableStyles(branding),
+        startY: y + 25,
+        head: [['Date/Time', 'Receipt', 'Product', 'Qty', 'Amount', 'Profit', 'Source']],
+        body: tableBody
       });
 
-      doc.setTextColor(100, 100, 100);
-      doc.setFontSize(8);
-      doc.text('Verified Archive Ledger - RetailOS Financial Engine', 15, doc.internal.pageSize.height - 10);
+      drawPdfFooter(doc, branding, 'Verified Archive Ledger');
 
       doc.save(`Sales_Report_${dateStrForFile.replace(/ /g, '_')}.pdf`);
     } catch (err) {
@@ -386,6 +331,13 @@ export default function Sales() {
     return isNaN(n) ? 0 : n;
   };
 
+  const pdfLineLabel = (item: LedgerEntry) => {
+    const name = item.inventory?.name || item.description || 'Unknown';
+    return item.adjustment_kind
+      ? `${name} [${item.adjustment_kind.toUpperCase()}: ${reasonLabel(item.reason_code)} / ${item.adjusted_by}]`
+      : name;
+  };
+
   const availableYears = useMemo(() => {
     const years = new Set<number>([new Date().getFullYear()]);
     sales.forEach(sale => {
@@ -427,13 +379,8 @@ export default function Sales() {
     });
 
     const revenue = matchedSales.reduce((acc, sale) => acc + safeNum(sale.amount), 0);
-    const profit = matchedSales.reduce((acc, sale) => {
-      const amount = safeNum(sale.amount);
-      const costPerUnit = safeNum(sale.inventory?.cost_price);
-      const quantity = safeNum(sale.quantity) || 1;
-      const totalCost = costPerUnit * quantity;
-      return acc + (amount - totalCost);
-    }, 0);
+    // Cost of each line as captured when it was sold, not today's cost price
+    const profit = matchedSales.reduce((acc, sale) => acc + safeNum(sale.amount) - saleLineCost(sale), 0);
 
     return {
       revenue,
@@ -443,19 +390,31 @@ export default function Sales() {
     };
   }, [sales, reportPeriod, selectedDate, selectedMonth, selectedSemiYear, selectedHalf, selectedAnnualYear]);
 
-  const filteredSales = sales.filter(sale => 
-    (sale.inventory?.name || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (sale.fund_source || '').toLowerCase().includes(searchTerm.toLowerCase())
+  // Compensating entries are filed under the line they adjust, whatever day they were posted
+  const anchorOf = useMemo(() => {
+    const byId = new Map(sales.map(sale => [String(sale.id), sale]));
+    return (sale: LedgerEntry) => (sale.adjusts_id && byId.get(String(sale.adjusts_id))) || sale;
+  }, [sales]);
+
+  const filteredSales = sales.filter(row => {
+    const term = searchTerm.toLowerCase();
+    const sale = anchorOf(row);
+    const header = sale.sale_id ? saleHeaders[sale.sale_id] : undefined;
+    return (sale.inventory?.name || '').toLowerCase().includes(term) ||
+      (sale.fund_source || '').toLowerCase().includes(term) ||
+      (sale.sale_id || '').toLowerCase().includes(term) ||
+      (header?.receipt_no || '').toLowerCase().includes(term) ||
+      (header?.customer_name || '').toLowerCase().includes(term) ||
+      (header?.cashier_name || '').toLowerCase().includes(term);
+  });
+
+  const tenderTakings = useMemo(
+    () => Object.entries(takingsByTender(Object.values(saleHeaders))).filter(([, amount]) => Math.abs(amount) > 0.005),
+    [saleHeaders]
   );
 
   const totalProfit = useMemo(() => {
-    return filteredSales.reduce((acc, sale) => {
-      const amount = safeNum(sale.amount);
-      const costPerUnit = safeNum(sale.inventory?.cost_price);
-      const quantity = safeNum(sale.quantity) || 1;
-      const totalCost = costPerUnit * quantity;
-      return acc + (amount - totalCost);
-    }, 0);
+    return filteredSales.reduce((acc, sale) => acc + safeNum(sale.amount) - saleLineCost(sale), 0);
   }, [filteredSales]);
 
   // Grouping logic
@@ -464,15 +423,16 @@ export default function Sales() {
       date: string, 
       revenue: number, 
       profit: number,
-      transactions: { timestamp: string, items: LedgerEntry[] }[] 
+      transactions: SaleTransaction[] 
     }[] = [];
     
     // Sort sales by date descending
     const sortedSales = [...filteredSales].sort((a, b) => 
-      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+      new Date(anchorOf(b).created_at).getTime() - new Date(anchorOf(a).created_at).getTime()
     );
 
-    sortedSales.forEach(sale => {
+    sortedSales.forEach(row => {
+      const sale = anchorOf(row);
       const dateStr = new Date(sale.created_at).toLocaleDateString(undefined, { 
         year: 'numeric', 
         month: 'long', 
@@ -487,22 +447,25 @@ export default function Sales() {
       }
 
       // Add to daily totals
-      const amount = safeNum(sale.amount);
-      const cost = safeNum(sale.inventory?.cost_price) * (safeNum(sale.quantity) || 1);
+      const amount = safeNum(row.amount);
+      const cost = saleLineCost(row);
       dateGroup.revenue += amount;
       dateGroup.profit += (amount - cost);
 
-      let transaction = dateGroup.transactions.find(t => t.timestamp === timestamp);
+      // Lines posted by the POS reference their `sales` header; older rows only share a timestamp
+      const key = sale.sale_id || timestamp;
+      let transaction = dateGroup.transactions.find(t => t.key === key);
       if (!transaction) {
-        transaction = { timestamp, items: [] };
+        const header = sale.sale_id ? saleHeaders[sale.sale_id] || null : null;
+        transaction = { key, saleId: sale.sale_id || null, header, timestamp: header?.created_at || timestamp, items: [] };
         dateGroup.transactions.push(transaction);
       }
 
-      transaction.items.push(sale);
+      transaction.items.push(row);
     });
 
     return groups;
-  }, [filteredSales]);
+  }, [filteredSales, saleHeaders, anchorOf]);
 
   if (loading && sales.length === 0) {
     return <Loading />;
@@ -709,6 +672,11 @@ export default function Sales() {
             <h2 className="text-4xl font-black mt-2 text-white group-hover:gold-text transition-all">
               {sales.length}
             </h2>
+            {tenderTakings.length > 0 && (
+              <p className="text-[10px] text-slate-600 mt-2 font-mono uppercase tracking-tighter">
+                {tenderTakings.map(([method, amount]) => `${tenderLabel(method)} $${amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}`).join(' • ')}
+              </p>
+            )}
           </div>
           <History size={48} className="text-white/10 group-hover:text-[#FFD700]/20 transition-colors" />
         </div>
@@ -734,7 +702,7 @@ export default function Sales() {
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-600" size={18} />
           <input 
             type="text" 
-            placeholder="Search sales by product or source..." 
+            placeholder="Search sales by product, source or sale ref..." 
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="w-full pl-10 pr-4 py-3 bg-white/5 border border-white/10 rounded-2xl text-sm focus:border-[#FFD700]/50 outline-none transition-all text-white placeholder:text-slate-700 font-medium"
@@ -751,6 +719,12 @@ export default function Sales() {
               {reportPeriod === 'annual' && `Annual: ${selectedAnnualYear}`}
             </span>
           </div>
+          <button
+            onClick={() => setShowWarranty(true)}
+            className="px-4 py-2.5 bg-white/5 border border-white/10 text-slate-300 font-black uppercase text-[10px] tracking-widest rounded-xl hover:text-[#FFD700] transition-all flex items-center gap-2"
+          >
+            <ShieldCheck size={14} /> Warranty
+          </button>
           <button 
             onClick={downloadCurrentPeriodReport}
             disabled={periodReportData.count === 0 || downloadingDate !== null}
@@ -823,12 +797,18 @@ export default function Sales() {
 
               <div className="grid grid-cols-1 gap-4">
                 {dateGroup.transactions.map((transaction) => {
-                  const totalAmount = transaction.items.reduce((sum, item) => sum + (item.amount || 0), 0);
+                  const lines = foldAdjustments(transaction.items);
+                  const originalAmount = lines.reduce((sum, a) => sum + safeNum(a.entry.amount), 0);
+                  const totalAmount = lines.reduce((sum, a) => sum + a.net, 0);
+                  const isAdjusted = lines.some(a => a.reversal || a.corrections.length > 0 || a.returns.length > 0);
+                  const isFullyReversed = lines.every(a => a.reversal || a.entry.adjusts_id);
+                  // Once goods have come back through the till, the rest of the sale is returned there too
+                  const hasReturns = lines.some(a => a.returns.length > 0);
                   const firstItem = transaction.items[0];
-                  const isReversing = reversingTransactionId === firstItem.id;
+                  const header = transaction.header;
 
                   return (
-                    <div key={transaction.timestamp} className="vault-card overflow-hidden group hover:gold-glow transition-all duration-300">
+                    <div key={transaction.key} className="vault-card overflow-hidden group hover:gold-glow transition-all duration-300">
                       {/* Transaction Header */}
                       <div className="bg-white/5 px-6 py-4 border-b border-white/10 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
                         <div className="flex items-center gap-4">
@@ -840,110 +820,132 @@ export default function Sales() {
                               <span className="text-sm font-black text-white uppercase tracking-tighter">
                                 Sale @ {new Date(transaction.timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
                               </span>
-                              <span className="text-[10px] font-black uppercase tracking-widest text-[#FFD700] bg-[#FFD700]/10 border border-[#FFD700]/20 px-2 py-0.5 rounded-full">
-                                {firstItem.fund_source}
+                              <span
+                                title={header ? formatTenders(header.payments) : undefined}
+                                className="text-[10px] font-black uppercase tracking-widest text-[#FFD700] bg-[#FFD700]/10 border border-[#FFD700]/20 px-2 py-0.5 rounded-full"
+                              >
+                                {header?.payment_method || firstItem.fund_source}
                               </span>
                             </div>
-                            <p className="text-[10px] text-slate-600 font-mono mt-0.5">ID: {transaction.timestamp.split('-').pop()}</p>
+                            <p className="text-[10px] text-slate-600 font-mono mt-0.5">
+                              {header
+                                ? `Receipt ${header.receipt_no} • ${header.terminal_id}`
+                                : transaction.saleId ? `Sale Ref: ${transaction.saleId}` : `ID: ${transaction.timestamp.split('-').pop()}`}
+                            </p>
+                            {header && (
+                              <p className="text-[10px] text-slate-500 font-black uppercase tracking-tighter mt-0.5">
+                                Cashier: <span className="text-white">{header.cashier_name || '-'}</span>
+                                {' • '}Client: <span className="text-white">{header.customer_name || '-'}</span>
+                                {header.discount > 0 && <> • Discount: <span className="text-rose-400">${Number(header.discount).toLocaleString()}</span></>}
+                                {header.tax_amount > 0 && <> • Tax: <span className="text-white">${Number(header.tax_amount).toLocaleString()}</span></>}
+                              </p>
+                            )}
                           </div>
                         </div>
                         
                         <div className="flex items-center gap-6">
+                          {isAdjusted && (
+                            <div className="text-right">
+                              <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Original</p>
+                              <p className="text-sm font-black text-slate-400 line-through">${originalAmount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</p>
+                            </div>
+                          )}
                           <div className="text-right">
-                            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Total Amount</p>
+                            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{isAdjusted ? 'Net Amount' : 'Total Amount'}</p>
                             <p className="text-xl font-black text-[#FFD700]">${totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</p>
                           </div>
+                          {header && (
+                            <button
+                              onClick={() => setReceiptTransaction(transaction)}
+                              className="p-2.5 rounded-xl transition-all flex items-center gap-2 text-[10px] font-black uppercase tracking-tighter bg-white/5 text-slate-300 hover:text-[#FFD700] border border-white/10"
+                            >
+                              <ReceiptIcon size={16} />
+                              <span>Receipt</span>
+                            </button>
+                          )}
                           <button 
-                            disabled={isReversing}
-                            onClick={() => handleReverseTransaction(transaction.items)}
+                            disabled={isFullyReversed || hasReturns}
+                            onClick={() => handleReverseTransaction(transaction)}
+                            title={hasReturns ? 'Items from this sale have been returned; take further returns at the till' : undefined}
                             className={cn(
                               "p-2.5 rounded-xl transition-all flex items-center gap-2 text-[10px] font-black uppercase tracking-tighter",
-                              isReversing 
+                              isFullyReversed || hasReturns
                                 ? "bg-white/5 text-slate-600 cursor-not-allowed" 
                                 : "bg-rose-500/10 text-rose-500 hover:bg-rose-500/20 border border-rose-500/20"
                             )}
                           >
-                            {isReversing ? (
-                              <Loader2 className="animate-spin" size={16} />
-                            ) : (
-                              <>
-                                <RotateCcw size={16} />
-                                <span>Reverse Sale</span>
-                              </>
-                            )}
+                            <RotateCcw size={16} />
+                            <span>{isFullyReversed ? 'Reversed' : hasReturns ? 'Returned' : 'Reverse Sale'}</span>
                           </button>
                         </div>
                       </div>
 
                       {/* Transaction Items */}
                       <div className="divide-y divide-white/5">
-                        {transaction.items.map((item) => (
-                          <div key={item.id} className="px-6 py-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4 hover:bg-white/5 transition-colors">
-                            <div className="flex items-center gap-4">
-                              <div className="w-8 h-8 bg-white/5 rounded-lg flex items-center justify-center text-slate-600 border border-white/5">
-                                <Package size={16} />
-                              </div>
-                              <div>
-                                <p className="text-sm font-bold text-white group-hover:gold-text transition-colors">{item.inventory?.name || item.description || 'Unknown Item'}</p>
-                                <p className="text-[10px] text-slate-500 font-black uppercase tracking-tighter">Quantity: <span className="text-white">{item.quantity || 1}</span></p>
+                        {lines.map(({ entry: item, reversal, corrections, returns, net }) => (
+                          <div key={item.id} className="px-6 py-4 hover:bg-white/5 transition-colors">
+                            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                              <div className="flex items-center gap-4">
+                                <div className="w-8 h-8 bg-white/5 rounded-lg flex items-center justify-center text-slate-600 border border-white/5">
+                                  <Package size={16} />
+                                </div>
+                                <div>
+                                  <p className={cn(
+                                    "text-sm font-bold text-white group-hover:gold-text transition-colors",
+                                    reversal && "line-through text-slate-500"
+                                  )}>{item.inventory?.name || item.description || 'Unknown Item'}</p>
+                                  <p className="text-[10px] text-slate-500 font-black uppercase tracking-tighter">Quantity: <span className="text-white">{item.quantity || 1}</span></p>
+                                </div>
                               </div>
-                            </div>
 
-                            <div className="flex items-center gap-6">
-                              <div className="text-right sm:min-w-[100px]">
-                                {editingId === item.id ? (
-                                  <div className="flex items-center gap-2 justify-end">
-                                    <input 
-                                      type="number" 
-                                      value={editAmount || 0}
-                                      onChange={(e) => {
-                                        const val = parseFloat(e.target.value);
-                                        setEditAmount(isNaN(val) ? 0 : val);
-                                      }}
-                                      className="w-20 px-2 py-1 bg-white/5 border border-[#FFD700]/50 rounded text-xs outline-none text-white font-bold"
-                                      autoFocus
-                                    />
-                                    <button onClick={() => handleUpdateAmount(item)} className="p-1 text-emerald-500 hover:bg-emerald-500/10 rounded">
-                                      <Check size={14} />
-                                    </button>
-                                    <button onClick={() => setEditingId(null)} className="p-1 text-slate-500 hover:bg-white/5 rounded">
-                                      <X size={14} />
-                                    </button>
-                                  </div>
-                                ) : (
+                              <div className="flex items-center gap-6">
+                                <div className="text-right sm:min-w-[100px]">
                                   <div className="flex items-center gap-2 justify-end group/item">
-                                    <span className="text-sm font-black text-white">
-                                      ${(item?.amount || 0).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                                    <span className={cn("text-sm font-black text-white", (reversal || corrections.length > 0 || returns.length > 0) && "text-slate-500 line-through")}>
+                                      ${safeNum(item.amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}
                                     </span>
-                                    <button 
-                                      onClick={() => {
-                                        setEditingId(item.id);
-                                        setEditAmount(item.amount);
-                                      }}
-                                      className="p-1 text-slate-700 hover:text-[#FFD700] opacity-0 group-hover/item:opacity-100 transition-all"
-                                    >
-                                      <Edit3 size={14} />
-                                    </button>
+                                    {!reversal && !item.adjusts_id && (
+                                      <button 
+                                        onClick={() => handleUpdateAmount({ entry: item, reversal, corrections, returns, net })}
+                                        className="p-1 text-slate-700 hover:text-[#FFD700] opacity-0 group-hover/item:opacity-100 transition-all"
+                                        title="Correct Amount"
+                                      >
+                                        <Edit3 size={14} />
+                                      </button>
+                                    )}
                                   </div>
-                                )}
+                                  {(reversal || corrections.length > 0 || returns.length > 0) && (
+                                    <p className="text-[10px] font-black text-[#FFD700] uppercase tracking-tighter">
+                                      Net: ${net.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                                    </p>
+                                  )}
+                                </div>
+                                
+                                <button 
+                                  disabled={!!reversal || !!item.adjusts_id || returns.length > 0}
+                                  onClick={() => handleReverseSale({ entry: item, reversal, corrections, returns, net })}
+                                  className={cn(
+                                    "p-1.5 rounded-lg transition-all text-slate-700 hover:text-rose-500 hover:bg-rose-500/10 opacity-0 group-hover:opacity-100",
+                                    (reversal || item.adjusts_id || returns.length > 0) && "invisible"
+                                  )}
+                                  title="Reverse Item"
+                                >
+                                  <RotateCcw size={14} />
+                                </button>
                               </div>
-                              
-                              <button 
-                                disabled={reversingId === item.id}
-                                onClick={() => handleReverseSale(item)}
-                                className={cn(
-                                  "p-1.5 rounded-lg transition-all text-slate-700 hover:text-rose-500 hover:bg-rose-500/10 opacity-0 group-hover:opacity-100",
-                                  reversingId === item.id && "opacity-100"
-                                )}
-                                title="Reverse Item"
-                              >
-                                {reversingId === item.id ? (
-                                  <Loader2 className="animate-spin" size={14} />
-                                ) : (
-                                  <Trash2 size={14} />
-                                )}
-                              </button>
                             </div>
+
+                            {/* Compensating entries posted against this line */}
+                            {[...corrections, ...returns, ...(reversal ? [reversal] : [])].map(adj => (
+                              <div key={adj.id} className="mt-2 ml-12 flex items-center justify-between gap-4 text-[10px] font-black uppercase tracking-tighter">
+                                <span className={adj.adjustment_kind === 'reversal' ? 'text-rose-500' : adj.adjustment_kind === 'return' ? 'text-sky-400' : 'text-amber-400'}>
+                                  {adj.adjustment_kind === 'reversal' ? 'Reversed' : adj.adjustment_kind === 'return' ? (adj.quantity ? `Returned x${Math.abs(safeNum(adj.quantity))}` : 'Returned') : 'Corrected'} • {reasonLabel(adj.reason_code)} • by {adj.adjusted_by} • {new Date(adj.created_at).toLocaleString()}
+                                </span>
+                                <span className={safeNum(adj.amount) < 0 ? 'text-rose-500' : 'text-emerald-400'}>
+                                  {safeNum(adj.amount) < 0 ? '-' : '+'}${Math.abs(safeNum(adj.amount)).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                                </span>
+                              </div>
+                            ))}
                           </div>
                         ))}
                       </div>
@@ -955,6 +957,53 @@ export default function Sales() {
           ))
         )}
       </div>
+
+      {adjustment && (
+        <AdjustmentDialog
+          mode={adjustment.mode}
+          title={adjustment.title}
+          summary={adjustment.summary}
+          currentAmount={adjustment.currentAmount}
+          initialAmount={adjustment.currentAmount}
+          onClose={() => setAdjustment(null)}
+          onSubmit={async (request, amount) => {
+            await adjustment.submit(request, amount);
+            setAdjustment(null);
+            fetchSales();
+          }}
+        />
+      )}
+
+      {showWarranty && <WarrantyDrawer items={items} onClose={() => setShowWarranty(false)} />}
+
+      {/* Receipt Reprint Modal */}
+      {receiptTransaction?.header && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-[#0a0a0a]/95 backdrop-blur-md" onClick={() => setReceiptTransaction(null)} />
+          <div className="relative bg-[#0d0d0d] border border-white/10 w-full max-w-md rounded-[2.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-300">
+            <Receipt
+              sale={receiptTransaction.header}
+              lines={receiptLinesFromLedger(receiptTransaction.items, receiptSerials)}
+              branding={branding}
+              verifyUrl={receiptLink}
+            />
+            <div className="p-8 flex gap-3 bg-[#0a0a0a]">
+              <button 
+                onClick={() => window.print()}
+                className="flex-1 py-4 bg-white text-[#0a0a0a] rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-slate-100 transition-all"
+              >
+                Reprint
+              </button>
+              <button 
+                onClick={() => setReceiptTransaction(null)}
+                className="flex-1 py-4 border border-white/10 text-white rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-white/5 transition-all"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
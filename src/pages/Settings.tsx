@@ -11,6 +11,7 @@ import {
   EyeOff
 } from 'lucide-react';
 import { cn } from '../lib/utils';
+import BrandingSettings from '../components/BrandingSettings';
 
 export default function Settings() {
   const [currentPin, setCurrentPin] = useState('');
@@ -58,7 +59,7 @@ export default function Settings() {
         </div>
         <div>
           <h1 className="text-3xl font-black text-white tracking-tighter uppercase font-sans">System Settings</h1>
-          <p className="text-slate-500 font-bold text-[10px] uppercase tracking-widest mt-1">Configure Vault Access & Security Controls</p>
+          <p className="text-slate-500 font-bold text-[10px] uppercase tracking-widest mt-1">Configure Vault Access, Security & Branding</p>
         </div>
       </div>
 
@@ -150,6 +151,8 @@ export default function Settings() {
         </div>
       </div>
 
+      <BrandingSettings />
+
       <div className="p-6 bg-blue-500/5 rounded-3xl border border-blue-500/10">
         <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em] mb-3 flex items-center gap-2">
           <ShieldCheck size={14} />
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { supabase, isConfigured } from '../lib/supabase';
-import { LedgerEntry, InventoryItem } from '../types';
+import { isConfigured, listLedger, listInventory, listSaleHeaders, listGoodsReceived, listSuppliers } from '../lib/data';
+import { LedgerEntry, InventoryItem, Sale, GoodsReceivedNote, Supplier } from '../types';
 import { 
   Receipt, 
   ShieldCheck, 
@@ -59,7 +59,10 @@ import {
 } from 'recharts';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { drawPdfFooter, drawPdfHeader, drawPdfSection, pdfTableStyles, setPdfTone } from '../lib/pdfTemplate';
+import { useBranding } from '../lib/useBranding';
 import { cn } from '../lib/utils';
+import { saleLineCost } from '../lib/costing';
 import Loading from '../components/Loading';
 
 // ============================================================================
@@ -355,9 +358,13 @@ const SAMPLE_TAX_DOCUMENTS: TaxDocument[] = [
 ];
 
 export default function TaxManager() {
+  const branding = useBranding();
   const [loading, setLoading] = useState(true);
   const [ledger, setLedger] = useState<LedgerEntry[]>([]);
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [saleHeaders, setSaleHeaders] = useState<Sale[]>([]);
+  const [goodsReceived, setGoodsReceived] = useState<GoodsReceivedNote[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [selectedCurrency, setSelectedCurrency] = useState<'TZS' | 'USD'>('TZS');
   const usdExchangeRate = 2650; // 1 USD = 2,650 TZS
 
@@ -402,6 +409,28 @@ export default function TaxManager() {
   // Document Vault State
   const [documents, setDocuments] = useState<TaxDocument[]>(SAMPLE_TAX_DOCUMENTS);
 
+  // Goods received notes are filed in the vault as purchase invoices alongside uploaded documents
+  const vaultDocuments = useMemo<TaxDocument[]>(() => {
+    const grnDocuments = goodsReceived.map((grn): TaxDocument => {
+      const supplier = suppliers.find(s => s.id === grn.supplier_id);
+      return {
+        id: grn.grn_no,
+        name: `${grn.grn_no} — ${supplier?.name || 'Unknown Supplier'}`,
+        type: 'Invoice',
+        uploadDate: String(grn.received_at).slice(0, 10),
+        amount: Number(grn.total) || 0,
+        vatAmount: Number(grn.tax_amount) || 0,
+        supplierTin: supplier?.tax_id || undefined,
+        efdReceiptNo: grn.supplier_invoice_no || undefined,
+        status: grn.supplier_invoice_no ? 'Verified' : 'Missing EFD',
+        verificationNotes: grn.supplier_invoice_no
+          ? `Goods received against supplier invoice ${grn.supplier_invoice_no}.`
+          : 'Goods received without a supplier tax invoice. Input VAT non-claimable.'
+      };
+    });
+    return [...grnDocuments, ...documents];
+  }, [goodsReceived, suppliers, documents]);
+
   // Fetch Ledger data from Supabase / single source of truth
   useEffect(() => {
     fetchLedgerData();
@@ -411,9 +440,12 @@ export default function TaxManager() {
     setLoading(true);
     try {
       if (isConfigured) {
-        const [ledgerRes, invRes] = await Promise.all([
-          supabase.from('ledger').select('*').order('created_at', { ascending: false }),
-          supabase.from('inventory').select('*')
+        const [ledgerRes, invRes, salesRes, grnRes, supplierRes] = await Promise.all([
+          listLedger(),
+          listInventory(),
+          listSaleHeaders(),
+          listGoodsReceived(),
+          listSuppliers()
         ]);
         if (!ledgerRes.error && ledgerRes.data) {
           setLedger(ledgerRes.data);
@@ -421,6 +453,15 @@ export default function TaxManager() {
         if (!invRes.error && invRes.data) {
           setInventory(invRes.data);
         }
+        if (!salesRes.error && salesRes.data) {
+          setSaleHeaders(salesRes.data);
+        }
+        if (!grnRes.error && grnRes.data) {
+          setGoodsReceived(grnRes.data);
+        }
+        if (!supplierRes.error && supplierRes.data) {
+          setSuppliers(supplierRes.data);
+        }
       }
     } catch (err) {
       console.error('Error loading ledger:', err);
@@ -444,18 +485,59 @@ export default function TaxManager() {
 
   const ledgerMetrics = useMemo(() => {
     let totalSalesRevenue = 0;
+    // Cost of goods sold, from the unit cost captured on each sale line
+    let totalCostOfSales = 0;
     let totalOperatingExpenses = 0;
     let totalCapitalWithdrawals = 0;
     let totalSalaryExpenses = 0;
     let efdSupportedExpenses = 0;
     let nonEfdExpenses = 0;
+    // Output VAT actually charged at the till, per sale header
+    let recordedOutputVat = 0;
+    let revenueWithRecordedVat = 0;
+    // Compensating entries (reversals / corrections) kept for the audit trail
+    let reversalCount = 0;
+    let correctionCount = 0;
+    let adjustedAmount = 0;
+    // Stock purchases, documented by goods received notes
+    let totalPurchases = 0;
+    let recordedInputVat = 0;
+    let undocumentedInputVat = 0;
+
+    goodsReceived.forEach((grn) => {
+      totalPurchases += Number(grn.subtotal) || 0;
+      // Input VAT is only claimable against a supplier tax invoice
+      if (grn.supplier_invoice_no) {
+        recordedInputVat += Number(grn.tax_amount) || 0;
+      } else {
+        undocumentedInputVat += Number(grn.tax_amount) || 0;
+      }
+    });
+
+    const taxedSaleIds = new Set<string>();
+    saleHeaders.forEach((header) => {
+      if (Number(header.tax_rate) > 0) {
+        taxedSaleIds.add(header.id);
+        recordedOutputVat += Number(header.tax_amount) || 0;
+      }
+    });
 
     ledger.forEach((entry) => {
       const amt = Number(entry.amount) || 0;
       const type = (entry.transaction_type || '').toLowerCase();
 
+      if (entry.adjustment_kind) {
+        if (entry.adjustment_kind === 'reversal') reversalCount += 1;
+        else correctionCount += 1;
+        adjustedAmount += Math.abs(amt);
+      }
+
       if (type === 'sale') {
         totalSalesRevenue += amt;
+        totalCostOfSales += saleLineCost(entry);
+        if (entry.sale_id && taxedSaleIds.has(entry.sale_id)) {
+          revenueWithRecordedVat += amt;
+        }
       } else if (type === 'expense') {
         totalOperatingExpenses += amt;
         const desc = (entry.description || '').toLowerCase();
@@ -473,7 +555,7 @@ export default function TaxManager() {
     });
 
     // Accounting Gross Profit and Taxable Net Profit from Ledger
-    const netAccountingProfit = totalSalesRevenue - totalOperatingExpenses;
+    const netAccountingProfit = totalSalesRevenue - totalCostOfSales - totalOperatingExpenses;
     
     // Add back non-EFD supported expenses for CIT tax base adjustment (TRA Sec 11)
     const nonDeductibleAdjustments = nonEfdExpenses * 0.4; // 40% of undocumented expenses disallowed
@@ -486,12 +568,21 @@ export default function TaxManager() {
       totalSalaryExpenses,
       efdSupportedExpenses,
       nonEfdExpenses,
+      totalCostOfSales,
       netAccountingProfit,
       nonDeductibleAdjustments,
       taxableNetProfit,
+      recordedOutputVat,
+      revenueWithRecordedVat,
+      reversalCount,
+      correctionCount,
+      adjustedAmount,
+      totalPurchases,
+      recordedInputVat,
+      undocumentedInputVat,
       entryCount: ledger.length
     };
-  }, [ledger]);
+  }, [ledger, saleHeaders, goodsReceived]);
 
   // ============================================================================
   // DYNAMIC COMPUTATION BASED ON TRA CONFIGURABLE RULE ENGINE
@@ -504,10 +595,12 @@ export default function TaxManager() {
     const vatRule = traRules.find(r => r.code.startsWith('VAT')) || DEFAULT_TRA_RULES[0];
     if (vatRule && vatRule.active) {
       const vatRate = vatRule.rate / 100;
-      // Output VAT included in gross sales: Taxable basis = Revenue / (1 + Rate)
-      const outputVat = ledgerMetrics.totalSalesRevenue * (vatRate / (1 + vatRate));
-      // Input VAT claimable on EFD supported expenses
-      const inputVatClaimable = (ledgerMetrics.efdSupportedExpenses * 0.8) * (vatRate / (1 + vatRate));
+      // Sales with a recorded till tax use it as-is (ledger lines are net of that tax);
+      // the rest is treated as VAT-inclusive: Taxable basis = Revenue / (1 + Rate)
+      const untaxedRevenue = ledgerMetrics.totalSalesRevenue - ledgerMetrics.revenueWithRecordedVat;
+      const outputVat = ledgerMetrics.recordedOutputVat + untaxedRevenue * (vatRate / (1 + vatRate));
+      // Input VAT claimable: as invoiced on GRNs, plus an estimate on EFD supported expenses
+      const inputVatClaimable = ledgerMetrics.recordedInputVat + (ledgerMetrics.efdSupportedExpenses * 0.8) * (vatRate / (1 + vatRate));
       const netVatPayable = Math.max(0, outputVat - inputVatClaimable);
 
       list.push({
@@ -515,7 +608,7 @@ export default function TaxManager() {
         code: vatRule.code,
         legalBasis: vatRule.legalBasis,
         grossAmount: ledgerMetrics.totalSalesRevenue,
-        taxableBasis: ledgerMetrics.totalSalesRevenue / (1 + vatRate),
+        taxableBasis: ledgerMetrics.revenueWithRecordedVat + untaxedRevenue / (1 + vatRate),
         calculatedTax: netVatPayable,
         alreadyPaid: inputVatClaimable,
         outstanding: netVatPayable,
@@ -525,7 +618,7 @@ export default function TaxManager() {
         confidenceScore: ledger.length > 0 ? 98 : 45,
         mappedLedgerAccounts: ['Account 4000 - Sales Revenue', 'Account 5000 - Cost of Sales / Expenses'],
         status: ledger.length > 0 ? 'Ready' : 'Insufficient Data',
-        reasoning: `Output VAT computed from Ledger sales (${formatMoney(outputVat)}), minus verifiable EFD Input VAT credit (${formatMoney(inputVatClaimable)}).`
+        reasoning: `Output VAT computed from Ledger sales (${formatMoney(outputVat)}), minus verifiable Input VAT credit (${formatMoney(inputVatClaimable)}), of which ${formatMoney(ledgerMetrics.recordedInputVat)} is invoiced on goods received notes.`
       });
     }
 
@@ -762,6 +855,19 @@ export default function TaxManager() {
       legalReference: 'VAT Act 2014, Sec 78'
     });
 
+    if (ledgerMetrics.reversalCount + ledgerMetrics.correctionCount > 0) {
+      list.push({
+        id: 'risk-004',
+        title: 'Ledger Reversals & Corrections Register',
+        severity: 'Info',
+        category: 'Audit Trail Integrity',
+        impact: `${ledgerMetrics.reversalCount} reversal(s) and ${ledgerMetrics.correctionCount} correction(s) posted as compensating entries, each with a reason code and operator. Original entries remain on the ledger.`,
+        recommendation: 'Review reason codes monthly and retain supporting documents (return slips, corrected invoices) for each adjustment.',
+        affectedAmount: ledgerMetrics.adjustedAmount,
+        legalReference: 'Tax Administration Act 2015, Sec 35 (Record Keeping)'
+      });
+    }
+
     return list;
   }, [ledgerMetrics, taxCalculations]);
 
@@ -793,29 +899,18 @@ export default function TaxManager() {
     try {
       const doc = new jsPDF();
       const pageWidth = doc.internal.pageSize.getWidth();
+      const y = drawPdfHeader(doc, branding, 'TRA Compliance Report', `TIN: ${profile.tin} | VRN: ${profile.vrn} | Entity: ${profile.businessName}`);
 
-      // Header Banner
-      doc.setFillColor(15, 23, 42); // slate-900
-      doc.rect(0, 0, pageWidth, 35, 'F');
-
-      doc.setTextColor(255, 255, 255);
-      doc.setFontSize(16);
-      doc.setFont('helvetica', 'bold');
-      doc.text('TANZANIA REVENUE AUTHORITY (TRA) COMPLIANCE REPORT', 14, 16);
-
-      doc.setFontSize(10);
-      doc.setFont('helvetica', 'normal');
-      doc.text(`TIN: ${profile.tin} | VRN: ${profile.vrn} | Entity: ${profile.businessName}`, 14, 26);
-      doc.text(`Generated on: ${new Date().toLocaleDateString('en-TZ')} | Currency: ${selectedCurrency}`, pageWidth - 14, 26, { align: 'right' });
+      setPdfTone(doc, branding, 'muted');
+      doc.setFontSize(9);
+      doc.text(`Generated on: ${new Date().toLocaleDateString('en-TZ')} | Currency: ${selectedCurrency}`, 15, y - 3);
 
       // Section 1: Business Profile Overview
-      doc.setTextColor(30, 41, 59);
-      doc.setFontSize(12);
-      doc.setFont('helvetica', 'bold');
-      doc.text('1. TAXPAYER IDENTIFICATION & BUSINESS PROFILE', 14, 45);
+      drawPdfSection(doc, branding, '1. TAXPAYER IDENTIFICATION & BUSINESS PROFILE', y + 6);
 
       autoTable(doc, {
-        startY: 50,
+        ...pdfTableStyles(branding),
+        startY: y + 11,
         head: [['Field / Attribute', 'Taxpayer Profile Data', 'TRA Statutory Status']],
         body: [
           ['Taxpayer Name', profile.businessName, 'ACTIVE'],
@@ -825,16 +920,12 @@ export default function TaxManager() {
           ['EFD / VFD Integration', profile.efdStatus, 'EFDMS ONLINE'],
           ['Accounting Basis', 'General Ledger (Single Source of Truth)', 'COMPLIANT'],
         ],
-        theme: 'striped',
-        headStyles: { fillColor: [30, 58, 138], textColor: [255, 255, 255], fontStyle: 'bold' },
         styles: { fontSize: 9, cellPadding: 3 }
       });
 
       // Section 2: Tax Liability Computation Summary
-      const currentY = (doc as any).lastAutoTable.previousAutoTable.finalY + 12;
-      doc.setFontSize(12);
-      doc.setFont('helvetica', 'bold');
-      doc.text('2. AUDITED TAX COMPUTATION SUMMARY (FROM GENERAL LEDGER)', 14, currentY);
+      const currentY = (doc as any).lastAutoTable.finalY + 12;
+      drawPdfSection(doc, branding, '2. AUDITED TAX COMPUTATION SUMMARY (FROM GENERAL LEDGER)', currentY);
 
       const taxRows = taxCalculations.map(t => [
         t.taxHead,
@@ -847,11 +938,10 @@ export default function TaxManager() {
       ]);
 
       autoTable(doc, {
+        ...pdfTableStyles(branding),
         startY: currentY + 5,
         head: [['Tax Head', 'Legal Basis', 'Gross Ledger', 'Taxable Basis', 'Net Tax Due', 'Due Date', 'Risk']],
         body: taxRows,
-        theme: 'grid',
-        headStyles: { fillColor: [15, 23, 42], textColor: [255, 255, 255], fontStyle: 'bold' },
         styles: { fontSize: 8.5, cellPadding: 3 },
         foot: [[
           'TOTAL STATUTORY TAX DUE',
@@ -861,15 +951,12 @@ export default function TaxManager() {
           formatMoney(totalTaxLiability),
           'TRA PORTAL',
           'VERIFIED'
-        ]],
-        footStyles: { fillColor: [241, 245, 249], textColor: [15, 23, 42], fontStyle: 'bold' }
+        ]]
       });
 
       // Section 3: Statutory Audit Declaration
-      const finalY = (doc as any).lastAutoTable.previousAutoTable.finalY + 15;
-      doc.setFontSize(10);
-      doc.setFont('helvetica', 'bold');
-      doc.text('AUDITOR & TAXPAYER DECLARATION', 14, finalY);
+      const finalY = (doc as any).lastAutoTable.finalY + 15;
+      drawPdfSection(doc, branding, 'AUDITOR & TAXPAYER DECLARATION', finalY);
 
       doc.setFontSize(8.5);
       doc.setFont('helvetica', 'normal');
@@ -882,6 +969,8 @@ export default function TaxManager() {
       doc.text('______________________________', pageWidth - 80, finalY + 28);
       doc.text('Certified Auditor / Tax Consultant', pageWidth - 80, finalY + 33);
 
+      drawPdfFooter(doc, branding, 'Statutory Compliance Report');
+
       doc.save(`TRA_Tax_Compliance_Report_${profile.tin}_2026.pdf`);
     } catch (err) {
       console.error('Error generating PDF:', err);
@@ -1439,6 +1528,7 @@ export default function TaxManager() {
                 <div className="bg-slate-950 p-4 rounded-xl border border-slate-800 text-xs space-y-2 font-mono">
                   <div className="flex justify-between"><span>Audited Ledger Records:</span><span className="text-emerald-400">{ledgerMetrics.entryCount} Entries</span></div>
                   <div className="flex justify-between"><span>Total Sales Revenue (Ledger 4000):</span><span className="text-white">{formatMoney(ledgerMetrics.totalSalesRevenue)}</span></div>
+                  <div className="flex justify-between"><span>Cost of Sales (Ledger 5000):</span><span className="text-white">{formatMoney(ledgerMetrics.totalCostOfSales)}</span></div>
                   <div className="flex justify-between"><span>Operating Expenses (Ledger 5000/6000):</span><span className="text-white">{formatMoney(ledgerMetrics.totalOperatingExpenses)}</span></div>
                   <div className="flex justify-between"><span>Accounting Net Profit:</span><span className="text-emerald-400">{formatMoney(ledgerMetrics.netAccountingProfit)}</span></div>
                 </div>
@@ -1623,7 +1713,7 @@ export default function TaxManager() {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-800/60 text-xs">
-                  {documents.map((doc) => (
+                  {vaultDocuments.map((doc) => (
                     <tr key={doc.id} className="hover:bg-slate-800/40">
                       <td className="p-4 font-bold text-white">
                         <div>{doc.name}</div>
@@ -1878,6 +1968,11 @@ export default function TaxManager() {
                       <span className="font-mono text-emerald-400">{formatMoney(Number(entry.amount))}</span>
                     </div>
                     <div className="text-slate-400 text-[11px]">{entry.description || 'General Ledger Entry'}</div>
+                    {entry.adjustment_kind && (
+                      <div className="text-[10px] text-amber-400 font-mono">
+                        {entry.adjustment_kind.toUpperCase()} of {entry.adjusts_id} | Reason: {entry.reason_code} | By: {entry.adjusted_by}
+                      </div>
+                    )}
                     <div className="text-[10px] text-slate-500 font-mono">Date: {entry.created_at?.slice(0, 10)} | EFD Status: VERIFIED</div>
                   </div>
                 ))}
@@ -9,13 +9,60 @@ export interface InventoryItem {
   name: string;
   code: string;
   category: string;
-  cost_price: number;
-  selling_price: number;
-  quantity: number;
+  cost_price: number; // Per base unit
+  selling_price: number; // Per base unit
+  quantity: number; // In base units
   min_stock_level: number;
   created_at: string;
   active: boolean;
   category_id: number;
+  base_unit?: string | null; // What quantity counts, e.g. Bottle; 'pcs' when unset
+  units?: ItemUnit[] | null;
+  serialised?: boolean; // Each unit carries a serial captured at receiving and at sale
+  warranty_months?: number | null; // Manufacturer warranty from the date of sale
+  batch_tracked?: boolean; // Received in lots with an expiry date and sold first-expiry-first-out
+  in_transit?: number; // Units dispatched and not yet received: inbound to the location fetched, or all of them
+  bin?: string | null; // Shelf or bin the item is kept in; a stocktake can count one bin at a time
+}
+
+// A pack the item is bought or sold in, holding `factor` base units (a carton of 12 bottles).
+export interface ItemUnit {
+  name: string;
+  factor: number;
+  selling_price?: number | null; // Per pack; null sells at factor x the base price
+  purchase: boolean;
+  sale: boolean;
+}
+
+// One row per change to InventoryItem.quantity. On-hand stock is the sum of quantity_delta.
+export type StockMovementType = 'opening' | 'sale' | 'reversal' | 'return' | 'adjustment' | 'receiving' | 'stocktake' | 'transfer';
+
+export interface InventoryMovement {
+  id: string;
+  inventory_item_id: string;
+  movement_type: StockMovementType;
+  quantity_delta: number;
+  quantity_before: number;
+  quantity_after: number;
+  reason?: string | null;
+  performed_by?: string | null;
+  source_type?: string | null; // Kind of document that caused the move: 'sale', 'ledger', 'inventory', ...
+  source_id?: string | null;
+  unit_cost?: number | null; // Cost per unit moved: received at, or consumed at under the costing method
+  location_id?: string | null; // Where the stock moved; null on rows from before locations (the default location)
+  created_at: string;
+}
+
+// A batch of units still carried at the cost they came in at. Outflows consume the oldest first.
+export interface InventoryCostLayer {
+  id: string;
+  inventory_item_id: string;
+  unit_cost: number;
+  quantity_received: number;
+  quantity_remaining: number;
+  source_type?: string | null;
+  source_id?: string | null;
+  created_at: string;
 }
 
 export interface LedgerEntry {
@@ -24,19 +71,828 @@ export interface LedgerEntry {
   inventory_item_id?: string;
   quantity?: number;
   amount: number;
-  transaction_type: 'sale' | 'expense' | 'capital_withdrawal' | 'CAPITAL_WITHDRAWAL' | 'capital_deduction';
+  unit_cost?: number | null; // Sale rows: cost per unit captured when the sale was posted
+  transaction_type: 'sale' | 'purchase' | 'expense' | 'capital_withdrawal' | 'CAPITAL_WITHDRAWAL' | 'capital_deduction';
   fund_source: string;
   description?: string;
   created_at: string;
+  sale_id?: string | null; // References Sale.id (the originating QueuedSale.id)
+  grn_id?: string | null; // References GoodsReceivedNote.id for purchase rows
+  shift_id?: string | null; // References CashShift.id for drawer over/short rows
+  return_id?: string | null; // References SaleReturn.id for rows posted by a customer return
+  adjusts_id?: string | null; // Original entry this compensating row reverses, corrects or returns
+  adjustment_kind?: LedgerAdjustmentKind | null;
+  reason_code?: AdjustmentReasonCode | null;
+  adjusted_by?: string | null;
   inventory?: InventoryItem;
 }
 
+export type LedgerAdjustmentKind = 'reversal' | 'correction' | 'return';
+
+export type AdjustmentReasonCode =
+  | 'CUSTOMER_RETURN'
+  | 'PRICING_ERROR'
+  | 'KEYING_ERROR'
+  | 'DUPLICATE_ENTRY'
+  | 'DAMAGED_GOODS'
+  | 'MANAGER_VOID'
+  | 'OTHER';
+
+export type LedgerAdjustmentResult =
+  | { status: 'reversed'; count: number }
+  | { status: 'corrected'; net: number }
+  | { status: 'unchanged' }
+  | { status: 'already_reversed'; entryId: string }
+  | { status: 'not_found' }
+  | { status: 'invalid'; errors: string[] }
+  | { status: 'error'; message: string };
+
 export interface BusinessSummary {
   category_id: string;
   category_name: string;
   total_revenue: number;
-  total_profit: number;
+  total_profit: number; // Revenue less cost of goods sold and expenses
   total_expenses: number;
+  total_cogs?: number;
   capital_health?: number;
   available_profit?: number; // New field for clarity
 }
+
+export interface CartLine {
+  item: InventoryItem;
+  quantity: number; // In `unit`, or base units without one
+  customPrice?: number;
+  unit?: CartUnit;
+  serials?: string[]; // One per base unit for serialised items
+}
+
+// The pack a cart line is sold in, with its price when it went into the cart. Stock moves by
+// quantity x factor base units.
+export interface CartUnit {
+  name: string;
+  factor: number;
+  price: number;
+}
+
+// A cart put on hold at the till, kept in the terminal's offline store until it is recalled.
+export interface ParkedCart {
+  id: string;
+  name: string;
+  cart: CartLine[];
+  customerId: string; // '' is the walk-in customer
+  discountType: 'percent' | 'flat';
+  discountValue: number;
+  parkedBy: string;
+  parkedAt: string;
+  quoteId?: string; // The quote the cart was converted from
+}
+
+export interface QueuedSale {
+  id: string;
+  cart: CartLine[];
+  paymentMethod: string; // The single tender's method, or 'Split'
+  payments?: SalePayment[]; // Tenders as taken; sales queued before split tender carry one paymentMethod tender for the total
+  timestamp: string;
+  subtotal: number;
+  discount: number;
+  discountType: 'percent' | 'flat';
+  discountValue: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+  discountCategoryId: string | number;
+  customerName: string;
+  customerId?: string; // Customer account charged with any 'Credit' tender
+  creditLimitOverride?: boolean; // Manager PIN approved a credit sale beyond the customer's limit
+  expiryOverride?: boolean; // Manager PIN approved selling from an expired batch
+  cashierName: string;
+  shiftId?: string; // Cash shift open on the terminal when the sale was rung up
+  terminalId?: string;
+  receiptNo?: string;
+  amountPaid?: number;
+  changeAmount?: number;
+  quoteId?: string; // The quote the cart was converted from; closed as converted once the sale posts
+}
+
+export type TenderMethod = 'Cash' | 'Card' | 'Mobile Money' | 'Credit';
+
+// One tender on a sale. The method is also the fund source it is reported under; 'Credit' is the
+// part left on the customer's account. Cash may exceed what is due, the excess being change.
+export interface SalePayment {
+  method: string;
+  amount: number;
+  reference?: string | null; // Card slip / mobile money transaction id
+  provider?: MobileMoneyProvider | null; // Mobile money tenders only
+}
+
+export type MobileMoneyProvider = 'mpesa' | 'tigopesa' | 'airtelmoney';
+
+export type MobileMoneyRequestStatus = 'pending' | 'confirmed' | 'failed' | 'cancelled';
+
+// A push payment request sent to the customer's phone through a mobile money gateway.
+export interface MobileMoneyRequest {
+  id: string;
+  provider: MobileMoneyProvider;
+  msisdn: string; // Customer phone number
+  amount: number;
+  reference: string; // Our reference shown to the customer, e.g. the receipt number
+  status: MobileMoneyRequestStatus;
+  transaction_id: string | null; // Provider transaction id, once confirmed
+  message: string | null; // Why the request failed, if it did
+  created_at: string;
+  updated_at: string;
+}
+
+// Persisted sale header, one per POS transaction. Ledger lines reference it via sale_id.
+export interface Sale {
+  id: string;
+  receipt_no: string;
+  terminal_id: string;
+  cashier_name: string | null;
+  customer_name: string | null;
+  customer_id?: string | null;
+  credit_limit_override?: boolean;
+  expiry_override?: boolean;
+  shift_id?: string | null;
+  location_id?: string | null; // The location the terminal was bound to; stock left from there
+  payment_method: string;
+  payments: SalePayment[];
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  discount: number;
+  total: number;
+  amount_paid: number;
+  change_amount: number;
+  created_at: string;
+}
+
+export interface StockConflict {
+  inventory_item_id: string;
+  name?: string;
+  requested: number;
+  available: number;
+}
+
+// Response body of POST /api/sales. `duplicate` means the sale id was already
+// posted and nothing was written, so retries are safe.
+export type SalePostResult =
+  | { status: 'posted'; saleId: string; duplicate?: boolean }
+  | { status: 'conflict'; saleId: string; conflicts: StockConflict[] }
+  | { status: 'invalid'; saleId?: string; errors: string[] }
+  | { status: 'error'; saleId?: string; message: string };
+
+export interface ReceiptLine {
+  key: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  notes?: string[]; // Printed under the line: serial numbers, warranty
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  tax_id?: string | null; // TIN / VRN printed on the supplier's tax invoices
+  address?: string | null;
+  active: boolean;
+  created_at: string;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  id: string;
+  purchase_order_id: string;
+  inventory_item_id: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  expected_date?: string | null;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  lines: PurchaseOrderLine[];
+}
+
+export interface GoodsReceivedLine {
+  id: string;
+  grn_id: string;
+  inventory_item_id: string;
+  purchase_order_line_id?: string | null;
+  quantity: number;
+  unit_cost: number; // Net of VAT
+  line_total: number;
+  cost_before: number; // Item cost_price before and after this receipt was costed in
+  cost_after: number;
+}
+
+// Goods Received Note: the source document for a stock purchase and its input VAT.
+export interface GoodsReceivedNote {
+  id: string;
+  grn_no: string;
+  supplier_id: string;
+  purchase_order_id?: string | null;
+  supplier_invoice_no?: string | null;
+  received_by: string;
+  received_at: string;
+  fund_source: 'CAPITAL' | 'PROFIT';
+  subtotal: number;
+  tax_rate: number; // Percent, like the POS tax rate
+  tax_amount: number;
+  total: number;
+  costing_method: CostingMethod;
+  notes?: string | null;
+  location_id?: string | null; // Where the goods went into stock
+  lines: GoodsReceivedLine[];
+}
+
+export type CostingMethod = 'weighted_average' | 'fifo' | 'last_cost';
+
+// Body of POST /api/purchasing/receipts.
+export interface GoodsReceiptRequest {
+  supplierId: string;
+  purchaseOrderId?: string;
+  supplierInvoiceNo?: string;
+  fundSource: GoodsReceivedNote['fund_source'];
+  taxRate: number;
+  notes?: string;
+  locationId?: string; // The default location when omitted
+  lines: {
+    inventoryItemId: string;
+    purchaseOrderLineId?: string;
+    quantity: number;
+    unitCost: number;
+    serials?: string[];
+    batchNo?: string; // Batch-tracked items: the lot received on this line
+    expiryDate?: string; // YYYY-MM-DD, the last day the lot may be sold
+  }[];
+}
+
+// Customer account. `balance` is what the customer owes: credit sales less payments received.
+export interface Customer {
+  id: string;
+  name: string;
+  phone?: string | null;
+  email?: string | null;
+  tax_id?: string | null;
+  address?: string | null;
+  credit_limit: number; // 0 means the customer cannot buy on credit
+  balance: number;
+  active: boolean;
+  created_at: string;
+}
+
+export type CustomerTransactionKind = 'charge' | 'payment' | 'refund';
+
+// One line of a customer's account statement. Charges come from credit sales; payments and
+// refunds from returns are allocated to the oldest open charges, which is what `outstanding`
+// tracks for aging. A refund beyond what is owed leaves a negative balance: store credit.
+export interface CustomerTransaction {
+  id: string;
+  customer_id: string;
+  kind: CustomerTransactionKind;
+  amount: number; // Positive for charges, negative for payments and refunds
+  outstanding: number; // Charges: amount not yet paid. Payments: 0
+  balance_after: number;
+  sale_id?: string | null;
+  reference?: string | null; // Receipt number for charges; cheque / transfer reference for payments; return number for refunds
+  method?: string | null;
+  limit_override?: boolean;
+  performed_by?: string | null;
+  note?: string | null;
+  created_at: string;
+}
+
+// Body of POST /api/customers/:id/payments.
+export interface CustomerPaymentRequest {
+  amount: number;
+  method: string;
+  reference?: string;
+  note?: string;
+}
+
+export type AgingBucket = 'current' | 'days_31_60' | 'days_61_90' | 'days_over_90';
+
+export interface CustomerAging {
+  customer_id: string;
+  customer_name: string;
+  credit_limit: number;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+}
+
+export type CashShiftStatus = 'open' | 'closed';
+
+// A cashier's session on a terminal, from opening float to the closing count. Expected and
+// counted amounts are keyed by tender method and frozen when the shift is closed.
+export interface CashShift {
+  id: string;
+  shift_no: string;
+  terminal_id: string;
+  cashier_name: string;
+  status: CashShiftStatus;
+  opening_float: number;
+  opened_at: string;
+  closed_at?: string | null;
+  closed_by?: string | null;
+  denominations?: Record<string, number> | null; // Face value -> number of notes/coins counted
+  expected?: Record<string, number> | null;
+  counted?: Record<string, number> | null;
+  over_short?: number | null; // Counted less expected across tenders; negative is short
+  notes?: string | null;
+}
+
+export type DrawerMovementKind = 'pay_in' | 'pay_out' | 'safe_drop';
+
+// Cash put into or taken out of the drawer other than through a sale.
+export interface DrawerMovement {
+  id: string;
+  shift_id: string;
+  kind: DrawerMovementKind;
+  amount: number;
+  reason?: string | null;
+  performed_by?: string | null;
+  created_at: string;
+}
+
+export interface ShiftTenderLine {
+  method: string;
+  expected: number;
+  counted: number | null; // null for tenders that are not counted (sales on account)
+  variance: number | null;
+}
+
+// Everything an X (mid-shift) or Z (closing) report prints.
+export interface ShiftReport {
+  shift: CashShift;
+  movements: DrawerMovement[];
+  sales: Sale[];
+  returns: SaleReturn[]; // Refunds paid out on the shift, whichever shift the sale was on
+  tenders: ShiftTenderLine[];
+}
+
+// Body of POST /api/shifts/:id/close. `counted` holds the non-cash tenders (card batch,
+// mobile money statement); cash is the total of `denominations`.
+export interface ShiftCloseRequest {
+  denominations: Record<string, number>;
+  counted?: Record<string, number>;
+  categoryId: string | number; // Category the over/short is posted against
+  notes?: string;
+}
+
+export type ReturnDisposition = 'restock' | 'write_off';
+
+// 'original' pays back the tenders the sale was taken with; 'store_credit' credits the customer's account.
+export type RefundMethod = 'original' | 'store_credit';
+
+export interface SaleReturnLine {
+  id: string;
+  return_id: string;
+  ledger_entry_id: string; // The sale row the units came off
+  inventory_item_id: string;
+  quantity: number;
+  amount: number; // Refunded for the line, after its share of the sale's discount and tax
+  unit_cost?: number | null; // Cost the units went out at; restocked units come back at it
+  disposition: ReturnDisposition;
+}
+
+// A customer return against a persisted sale. Refunds are SalePayments keyed like the sale's
+// tenders; store credit is a 'Credit' refund.
+export interface SaleReturn {
+  id: string;
+  return_no: string;
+  sale_id: string;
+  receipt_no: string;
+  terminal_id: string;
+  shift_id?: string | null;
+  customer_id?: string | null;
+  refund_method: RefundMethod;
+  refunds: SalePayment[];
+  total: number;
+  reason_code: AdjustmentReasonCode;
+  note?: string | null;
+  performed_by: string;
+  location_id?: string | null; // The returning terminal's location; restocked units go back there
+  created_at: string;
+  lines: SaleReturnLine[];
+}
+
+// A sale row as seen from the returns desk.
+export interface ReturnableLine {
+  entry_id: string;
+  inventory_item_id: string;
+  name: string;
+  quantity_sold: number;
+  quantity_returned: number;
+  quantity_returnable: number; // 0 once the line is fully returned or reversed
+  unit_price: number; // Net of corrections, before the sale's discount and tax
+  unit_refund: number; // What one unit refunds after its share of discount and tax
+  reversed: boolean;
+  serials?: string[]; // Serialised items: the units of this sale not yet returned
+}
+
+// Response of GET /api/returns/lookup: the sale, its lines and what can still be refunded per tender.
+export interface ReturnLookup {
+  sale: Sale;
+  lines: ReturnableLine[];
+  returns: SaleReturn[];
+  refundable: Record<string, number>; // tenderKey -> amount taken less change and earlier refunds
+}
+
+// Body of POST /api/returns.
+export interface SaleReturnRequest {
+  saleId: string;
+  lines: { entryId: string; quantity: number; disposition: ReturnDisposition; serials?: string[] }[]; // serials: one per restocked unit of a serialised item
+  refundMethod: RefundMethod;
+  customerId?: string; // Account given store credit; defaults to the sale's customer
+  reasonCode: AdjustmentReasonCode;
+  note?: string;
+  terminalId?: string;
+  shiftId?: string; // Shift whose drawer pays the refund
+}
+
+export type QuoteKind = 'quotation' | 'proforma';
+
+export type QuoteStatus = 'open' | 'converted' | 'cancelled';
+
+export interface QuoteLine {
+  id: string;
+  quote_id: string;
+  inventory_item_id: string;
+  description: string; // Item name as quoted
+  quantity: number;
+  list_price: number; // Selling price when the quote was issued
+  unit_price: number; // Price quoted, after any override
+  line_total: number;
+}
+
+// A priced cart issued to a customer, either as a quotation or a pro-forma invoice. Stock is not
+// reserved; an open quote past valid_until is expired and converts at current prices.
+export interface Quote {
+  id: string;
+  quote_no: string;
+  kind: QuoteKind;
+  status: QuoteStatus;
+  customer_id?: string | null;
+  customer_name: string;
+  valid_until: string; // YYYY-MM-DD, last day the quoted prices hold
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  discount: number;
+  total: number;
+  notes?: string | null;
+  terminal_id?: string | null;
+  created_by: string;
+  created_at: string;
+  closed_by?: string | null; // Who converted or cancelled it
+  closed_at?: string | null;
+  lines: QuoteLine[];
+}
+
+// Body of POST /api/quotes.
+export interface QuoteRequest {
+  kind: QuoteKind;
+  customerId?: string;
+  customerName: string;
+  validUntil: string;
+  taxRate: number;
+  discount: number;
+  notes?: string;
+  terminalId?: string;
+  lines: { inventoryItemId: string; quantity: number; unitPrice: number }[];
+}
+
+export type PdfScheme = 'dark' | 'light';
+
+// 1-bit logo for thermal receipts: rows top to bottom, 8 dots per byte, MSB first, 1 = black.
+export interface ReceiptLogoRaster {
+  width: number;
+  height: number;
+  data: string; // base64
+}
+
+// The business's identity, edited once in Settings and applied to on-screen receipts, thermal
+// output and generated PDFs.
+export interface BrandingProfile {
+  business_name: string;
+  logo?: string | null; // PNG or JPEG data URL
+  logo_raster?: ReceiptLogoRaster | null; // The same logo dithered for the receipt printer
+  address?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  tin?: string | null;
+  vrn?: string | null;
+  receipt_footer?: string | null;
+  accent_color: string; // #RRGGBB used for headings and table heads
+  pdf_scheme: PdfScheme;
+  updated_at?: string | null;
+  updated_by?: string | null;
+}
+
+// Body of PUT /api/branding.
+export interface BrandingRequest {
+  businessName: string;
+  logo?: string | null;
+  logoRaster?: ReceiptLogoRaster | null;
+  address?: string;
+  phone?: string;
+  email?: string;
+  tin?: string;
+  vrn?: string;
+  receiptFooter?: string;
+  accentColor: string;
+  pdfScheme: PdfScheme;
+}
+
+// A vehicle an inventory item fits. Year bounds are inclusive; a null bound leaves that side open.
+export interface VehicleFitment {
+  id: string;
+  inventory_item_id: string;
+  make: string;
+  model: string;
+  year_from?: number | null;
+  year_to?: number | null;
+  engine?: string | null; // Engine code or size, e.g. 1NZ-FE or 1.5
+  notes?: string | null;
+  created_at: string;
+}
+
+export type PartNumberKind = 'oem' | 'aftermarket';
+
+// Another number the same part is sold under. Items that share a number are interchangeable.
+export interface PartCrossReference {
+  id: string;
+  inventory_item_id: string;
+  part_number: string;
+  kind: PartNumberKind;
+  brand?: string | null;
+  created_at: string;
+}
+
+export interface FitmentCatalogue {
+  fitments: VehicleFitment[];
+  cross_references: PartCrossReference[];
+}
+
+// The vehicle a POS search is narrowed to. Blank fields match any vehicle.
+export interface VehicleQuery {
+  make: string;
+  model: string;
+  year: string;
+  engine: string;
+}
+
+export type FitmentInput = Pick<VehicleFitment, 'make' | 'model' | 'year_from' | 'year_to' | 'engine' | 'notes'>;
+export type CrossReferenceInput = Pick<PartCrossReference, 'part_number' | 'kind' | 'brand'>;
+
+// Body of PUT /api/fitment/items/:itemId; replaces everything recorded for the item.
+export interface ItemFitmentRequest {
+  fitments: FitmentInput[];
+  crossReferences: CrossReferenceInput[];
+}
+
+// One CSV row. A row with make and model adds a fitment; a row with part_number adds a cross
+// reference; a row may do both.
+export interface FitmentImportRow {
+  line: number;
+  code: string;
+  make?: string;
+  model?: string;
+  year_from?: number | null;
+  year_to?: number | null;
+  engine?: string;
+  notes?: string;
+  part_number?: string;
+  part_kind?: string;
+  brand?: string;
+}
+
+export interface FitmentImportResult {
+  fitments: number;
+  cross_references: number;
+  duplicates: number;
+  errors: string[];
+}
+
+// One serialised unit. It is registered in stock when received and marked sold with the sale
+// that took it; a unit sold from stock that pre-dates serial tracking is registered at the sale.
+export type SerialStatus = 'in_stock' | 'sold';
+
+export interface SerialNumber {
+  id: string;
+  inventory_item_id: string;
+  serial_no: string;
+  status: SerialStatus;
+  grn_id?: string | null;
+  received_at?: string | null;
+  sale_id?: string | null;
+  receipt_no?: string | null;
+  customer_name?: string | null;
+  sold_at?: string | null;
+  warranty_expires_at?: string | null; // sold_at plus the item's warranty_months at the time of sale
+}
+
+export interface SerialFilter {
+  id?: string;
+  itemId?: string;
+  saleId?: string;
+  serialNo?: string;
+  status?: SerialStatus;
+}
+
+export type WarrantyClaimStatus = 'open' | 'with_supplier' | 'resolved';
+
+export type WarrantyOutcome = 'repaired' | 'replaced' | 'credited' | 'rejected';
+
+// A customer's claim against a sold unit, followed through the supplier's RMA.
+export interface WarrantyClaim {
+  id: string;
+  claim_no: string;
+  serial_id: string;
+  inventory_item_id: string;
+  serial_no: string;
+  sale_id?: string | null;
+  customer_name?: string | null;
+  fault: string;
+  status: WarrantyClaimStatus;
+  supplier_id?: string | null;
+  rma_no?: string | null;
+  outcome?: WarrantyOutcome | null;
+  outcome_note?: string | null;
+  reported_by: string;
+  created_at: string;
+  updated_at: string;
+  resolved_at?: string | null;
+}
+
+// A serial looked up at the counter, with the sale it went out on and its claims.
+export interface SerialLookup {
+  serial: SerialNumber;
+  sale: Sale | null;
+  claims: WarrantyClaim[];
+}
+
+export interface WarrantyClaimRequest {
+  serialId: string;
+  fault: string;
+}
+
+export interface WarrantyClaimUpdate {
+  status: Exclude<WarrantyClaimStatus, 'open'>;
+  supplierId?: string;
+  rmaNo?: string;
+  outcome?: WarrantyOutcome;
+  outcomeNote?: string;
+}
+
+// A lot of a batch-tracked item, held at one location. Sales take from the lot there that expires
+// first; a quarantined lot has been taken out of stock and written off.
+export type StockBatchStatus = 'available' | 'quarantined';
+
+export interface StockBatch {
+  id: string;
+  inventory_item_id: string;
+  batch_no: string;
+  expiry_date: string; // YYYY-MM-DD
+  quantity_received: number;
+  quantity_remaining: number;
+  status: StockBatchStatus;
+  grn_id?: string | null; // The GRN that first received the lot
+  received_at: string;
+  quarantined_at?: string | null;
+  quarantined_by?: string | null;
+  quarantine_reason?: string | null;
+  write_off_amount?: number | null; // Cost expensed to the item's category when quarantined
+  location_id: string;
+}
+
+export interface BatchFilter {
+  id?: string;
+  itemId?: string;
+  status?: StockBatchStatus;
+  locationId?: string;
+}
+
+export interface BatchQuarantineRequest {
+  reason?: string;
+}
+
+// A shop, warehouse or other place stock is held. Stock no location was given for, and all stock
+// from before locations, is at the default location.
+export type StockLocationKind = 'shop' | 'warehouse';
+
+export interface StockLocation {
+  id: string;
+  code: string;
+  name: string;
+  kind: StockLocationKind;
+  is_default: boolean;
+  active: boolean;
+  created_at: string;
+}
+
+// On-hand units of an item at one location. An item's quantity is the sum over its locations.
+export interface LocationStock {
+  location_id: string;
+  inventory_item_id: string;
+  quantity: number;
+}
+
+// The location a POS terminal sells from. An unbound terminal sells from the default location.
+export interface TerminalLocation {
+  terminal_id: string;
+  location_id: string;
+  updated_at: string;
+}
+
+// Stock leaves the source location when dispatched and arrives when received; in between it is
+// in transit and counts at neither.
+export type StockTransferStatus = 'in_transit' | 'received';
+
+export interface StockTransfer {
+  id: string;
+  transfer_no: string;
+  from_location_id: string;
+  to_location_id: string;
+  status: StockTransferStatus;
+  notes?: string | null;
+  dispatched_by: string;
+  dispatched_at: string;
+  received_by?: string | null;
+  received_at?: string | null;
+  lines: StockTransferLine[];
+}
+
+export interface StockTransferLine {
+  id: string;
+  transfer_id: string;
+  inventory_item_id: string;
+  quantity: number; // Base units
+  unit_cost: number; // What the units left the source location at; they arrive at the same cost
+}
+
+// Body of POST /api/locations/transfers.
+export interface StockTransferRequest {
+  fromLocationId: string;
+  toLocationId: string;
+  notes?: string;
+  lines: { inventoryItemId: string; quantity: number }[];
+}
+
+// A stock count at one location. Starting it freezes what the books expect on each line, and the
+// count is compared against that snapshot, so sales made while counting do not show as variance.
+export type StocktakeStatus = 'counting' | 'approved' | 'cancelled';
+
+export interface Stocktake {
+  id: string;
+  stocktake_no: string;
+  location_id: string;
+  status: StocktakeStatus;
+  category_id?: string | null; // Only this category is on the sheet
+  bin?: string | null; // Only this bin is on the sheet
+  notes?: string | null;
+  started_by: string;
+  started_at: string;
+  closed_by?: string | null; // Who approved or cancelled it
+  closed_at?: string | null;
+  variance_value?: number | null; // Cost booked at approval; positive is shrinkage
+  lines: StocktakeLine[];
+}
+
+export interface StocktakeLine {
+  id: string;
+  stocktake_id: string;
+  inventory_item_id: string;
+  bin?: string | null;
+  expected_quantity: number; // On hand at the location when the count started
+  counted_quantity?: number | null; // null until counted
+  unit_cost: number; // Cost price when the count started
+  counted_by?: string | null;
+  counted_at?: string | null;
+}
+
+// Body of POST /api/stocktakes.
+export interface StocktakeRequest {
+  locationId?: string; // The default location when omitted
+  categoryId?: string;
+  bin?: string;
+  notes?: string;
+}
+
+// Body of PUT /api/stocktakes/:id/counts. Each count replaces the line's previous one.
+export interface StocktakeCountRequest {
+  counts: { inventoryItemId: string; countedQuantity: number }[];
+}
@@ -0,0 +1,59 @@
+-- Atomic POS sale posting, called by POST /api/sales through supabase.rpc('post_sale').
+--
+-- p_entries: ledger rows (sale lines plus the optional discount expense), shaped like public.ledger.
+-- p_stock:   [{ "inventory_item_id": "...", "quantity": n }] decrements to apply.
+--
+-- Inventory rows are locked in id order before anything is written, so two terminals selling the
+-- same item serialise here instead of racing on a read-modify-write. If any line lacks stock the
+-- function writes nothing and returns the conflicts.
+
+create or replace function public.post_sale(p_entries jsonb, p_stock jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_line record;
+  v_item record;
+  v_conflicts jsonb := '[]'::jsonb;
+begin
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    select i.name, i.quantity into v_item
+    from public.inventory i
+    where i.id::text = v_line.inventory_item_id
+    for update;
+
+    if not found or coalesce(v_item.quantity, 0) < v_line.quantity then
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'inventory_item_id', v_line.inventory_item_id,
+        'name', v_item.name,
+        'requested', v_line.quantity,
+        'available', coalesce(v_item.quantity, 0)
+      );
+    end if;
+  end loop;
+
+  if jsonb_array_length(v_conflicts) > 0 then
+    return jsonb_build_object('status', 'conflict', 'conflicts', v_conflicts);
+  end if;
+
+  insert into public.ledger (category_id, inventory_item_id, quantity, amount, transaction_type, fund_source, description, created_at)
+  select e.category_id, e.inventory_item_id, e.quantity, e.amount, e.transaction_type, e.fund_source, e.description, e.created_at
+  from jsonb_populate_recordset(null::public.ledger, p_entries) as e;
+
+  update public.inventory i
+  set quantity = i.quantity - s.quantity
+  from (
+    select inventory_item_id, sum(quantity) as quantity
+    from jsonb_to_recordset(p_stock) as x(inventory_item_id text, quantity numeric)
+    group by inventory_item_id
+  ) as s
+  where i.id::text = s.inventory_item_id;
+
+  return jsonb_build_object('status', 'posted');
+end;
+$$;
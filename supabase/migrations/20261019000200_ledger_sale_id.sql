@@ -0,0 +1,67 @@
+-- Every ledger row written by a POS sale carries the originating QueuedSale.id, and post_sale is
+-- idempotent on it: a terminal retrying after a lost response or partial failure gets
+-- 'duplicate' back instead of double-counting revenue and stock.
+
+alter table public.ledger add column if not exists sale_id text;
+
+create index if not exists ledger_sale_id_idx on public.ledger (sale_id);
+
+drop function if exists public.post_sale(jsonb, jsonb);
+
+create or replace function public.post_sale(p_sale_id text, p_entries jsonb, p_stock jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_line record;
+  v_item record;
+  v_conflicts jsonb := '[]'::jsonb;
+begin
+  -- Serialise concurrent retries of the same sale before checking whether it was already posted.
+  perform pg_advisory_xact_lock(hashtext('post_sale:' || p_sale_id));
+
+  if exists (select 1 from public.ledger where sale_id = p_sale_id) then
+    return jsonb_build_object('status', 'duplicate');
+  end if;
+
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    select i.name, i.quantity into v_item
+    from public.inventory i
+    where i.id::text = v_line.inventory_item_id
+    for update;
+
+    if not found or coalesce(v_item.quantity, 0) < v_line.quantity then
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'inventory_item_id', v_line.inventory_item_id,
+        'name', v_item.name,
+        'requested', v_line.quantity,
+        'available', coalesce(v_item.quantity, 0)
+      );
+    end if;
+  end loop;
+
+  if jsonb_array_length(v_conflicts) > 0 then
+    return jsonb_build_object('status', 'conflict', 'conflicts', v_conflicts);
+  end if;
+
+  insert into public.ledger (category_id, inventory_item_id, quantity, amount, transaction_type, fund_source, description, created_at, sale_id)
+  select e.category_id, e.inventory_item_id, e.quantity, e.amount, e.transaction_type, e.fund_source, e.description, e.created_at, p_sale_id
+  from jsonb_populate_recordset(null::public.ledger, p_entries) as e;
+
+  update public.inventory i
+  set quantity = i.quantity - s.quantity
+  from (
+    select inventory_item_id, sum(quantity) as quantity
+    from jsonb_to_recordset(p_stock) as x(inventory_item_id text, quantity numeric)
+    group by inventory_item_id
+  ) as s
+  where i.id::text = s.inventory_item_id;
+
+  return jsonb_build_object('status', 'posted');
+end;
+$$;
@@ -0,0 +1,111 @@
+-- First-class sale header. One row per POS transaction (id = QueuedSale.id); ledger lines and the
+-- discount expense reference it through ledger.sale_id. Replaces the archive's old habit of
+-- grouping ledger rows by identical created_at strings.
+
+create table if not exists public.sales (
+  id text primary key,
+  receipt_no text not null unique,
+  terminal_id text not null default 'POS-01',
+  cashier_name text,
+  customer_name text,
+  payment_method text not null,
+  payments jsonb not null default '[]'::jsonb,
+  subtotal numeric not null default 0,
+  tax_rate numeric not null default 0,
+  tax_amount numeric not null default 0,
+  discount numeric not null default 0,
+  total numeric not null default 0,
+  amount_paid numeric not null default 0,
+  change_amount numeric not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists sales_created_at_idx on public.sales (created_at desc);
+
+-- Backfill headers for sales posted since ledger.sale_id was introduced.
+insert into public.sales (id, receipt_no, payment_method, payments, subtotal, discount, total, amount_paid, created_at)
+select
+  l.sale_id,
+  'LEGACY-' || left(l.sale_id, 8),
+  max(l.fund_source) filter (where l.transaction_type = 'sale'),
+  jsonb_build_array(jsonb_build_object(
+    'method', max(l.fund_source) filter (where l.transaction_type = 'sale'),
+    'amount', coalesce(sum(l.amount) filter (where l.transaction_type = 'sale'), 0) - coalesce(sum(l.amount) filter (where l.transaction_type = 'expense'), 0)
+  )),
+  coalesce(sum(l.amount) filter (where l.transaction_type = 'sale'), 0),
+  coalesce(sum(l.amount) filter (where l.transaction_type = 'expense'), 0),
+  coalesce(sum(l.amount) filter (where l.transaction_type = 'sale'), 0) - coalesce(sum(l.amount) filter (where l.transaction_type = 'expense'), 0),
+  coalesce(sum(l.amount) filter (where l.transaction_type = 'sale'), 0) - coalesce(sum(l.amount) filter (where l.transaction_type = 'expense'), 0),
+  min(l.created_at)::timestamptz
+from public.ledger l
+where l.sale_id is not null
+group by l.sale_id
+on conflict (id) do nothing;
+
+alter table public.ledger
+  drop constraint if exists ledger_sale_id_fkey,
+  add constraint ledger_sale_id_fkey foreign key (sale_id) references public.sales (id);
+
+drop function if exists public.post_sale(text, jsonb, jsonb);
+
+create or replace function public.post_sale(p_sale jsonb, p_entries jsonb, p_stock jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_sale_id text := p_sale->>'id';
+  v_line record;
+  v_item record;
+  v_conflicts jsonb := '[]'::jsonb;
+begin
+  -- Serialise concurrent retries of the same sale before checking whether it was already posted.
+  perform pg_advisory_xact_lock(hashtext('post_sale:' || v_sale_id));
+
+  if exists (select 1 from public.sales where id = v_sale_id) then
+    return jsonb_build_object('status', 'duplicate');
+  end if;
+
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    select i.name, i.quantity into v_item
+    from public.inventory i
+    where i.id::text = v_line.inventory_item_id
+    for update;
+
+    if not found or coalesce(v_item.quantity, 0) < v_line.quantity then
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'inventory_item_id', v_line.inventory_item_id,
+        'name', v_item.name,
+        'requested', v_line.quantity,
+        'available', coalesce(v_item.quantity, 0)
+      );
+    end if;
+  end loop;
+
+  if jsonb_array_length(v_conflicts) > 0 then
+    return jsonb_build_object('status', 'conflict', 'conflicts', v_conflicts);
+  end if;
+
+  insert into public.sales
+  select * from jsonb_populate_record(null::public.sales, p_sale);
+
+  insert into public.ledger (category_id, inventory_item_id, quantity, amount, transaction_type, fund_source, description, created_at, sale_id)
+  select e.category_id, e.inventory_item_id, e.quantity, e.amount, e.transaction_type, e.fund_source, e.description, e.created_at, v_sale_id
+  from jsonb_populate_recordset(null::public.ledger, p_entries) as e;
+
+  update public.inventory i
+  set quantity = i.quantity - s.quantity
+  from (
+    select inventory_item_id, sum(quantity) as quantity
+    from jsonb_to_recordset(p_stock) as x(inventory_item_id text, quantity numeric)
+    group by inventory_item_id
+  ) as s
+  where i.id::text = s.inventory_item_id;
+
+  return jsonb_build_object('status', 'posted');
+end;
+$$;
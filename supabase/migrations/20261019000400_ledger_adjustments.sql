@@ -0,0 +1,180 @@
+-- Non-destructive reversals and amount corrections. Ledger rows are no longer deleted or
+-- updated in place: a compensating row is posted that links to the original through
+-- adjusts_id and records why (reason_code) and who (adjusted_by).
+--
+--   reversal   : negates the original's net amount and quantity (stock is restored for
+--                sale lines). At most one per original.
+--   correction : posts the delta between the original's current net amount and the
+--                corrected amount. Carries no inventory item or quantity so it never
+--                affects stock or COGS.
+
+do $$
+declare
+  v_id_type text;
+begin
+  select format_type(a.atttypid, a.atttypmod) into v_id_type
+  from pg_attribute a
+  where a.attrelid = 'public.ledger'::regclass and a.attname = 'id';
+
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'ledger' and column_name = 'adjusts_id'
+  ) then
+    execute format('alter table public.ledger add column adjusts_id %s references public.ledger (id)', v_id_type);
+  end if;
+end;
+$$;
+
+alter table public.ledger
+  add column if not exists adjustment_kind text,
+  add column if not exists reason_code text,
+  add column if not exists adjusted_by text;
+
+alter table public.ledger
+  drop constraint if exists ledger_adjustment_kind_check,
+  add constraint ledger_adjustment_kind_check check (adjustment_kind is null or adjustment_kind in ('reversal', 'correction')),
+  drop constraint if exists ledger_adjustment_audit_check,
+  add constraint ledger_adjustment_audit_check check (
+    adjusts_id is null
+    or (adjustment_kind is not null and nullif(reason_code, '') is not null and nullif(adjusted_by, '') is not null)
+  );
+
+create index if not exists ledger_adjusts_id_idx on public.ledger (adjusts_id);
+create unique index if not exists ledger_single_reversal_idx on public.ledger (adjusts_id) where adjustment_kind = 'reversal';
+
+-- Reverses the given originals plus, when p_sale_id is set, every unreversed original of that sale.
+create or replace function public.reverse_ledger_entries(
+  p_entry_ids jsonb,
+  p_sale_id text,
+  p_reason_code text,
+  p_note text,
+  p_user text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_entry record;
+  v_net numeric;
+  v_count integer := 0;
+begin
+  for v_entry in
+    select l.*
+    from public.ledger l
+    where (
+      l.id::text in (select jsonb_array_elements_text(coalesce(p_entry_ids, '[]'::jsonb)))
+      or (p_sale_id is not null and l.sale_id = p_sale_id)
+    )
+    order by l.id
+    for update
+  loop
+    if v_entry.adjusts_id is not null then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        continue;
+      end if;
+      return jsonb_build_object('status', 'invalid', 'message', 'Adjustment entries cannot themselves be reversed.');
+    end if;
+
+    if exists (select 1 from public.ledger r where r.adjusts_id = v_entry.id and r.adjustment_kind = 'reversal') then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        continue;
+      end if;
+      return jsonb_build_object('status', 'already_reversed', 'entry_id', v_entry.id);
+    end if;
+
+    select v_entry.amount + coalesce(sum(c.amount), 0) into v_net
+    from public.ledger c
+    where c.adjusts_id = v_entry.id and c.adjustment_kind = 'correction';
+
+    insert into public.ledger (
+      category_id, inventory_item_id, quantity, amount, transaction_type, fund_source,
+      description, created_at, sale_id, adjusts_id, adjustment_kind, reason_code, adjusted_by
+    ) values (
+      v_entry.category_id,
+      v_entry.inventory_item_id,
+      case when v_entry.quantity is null then null else -v_entry.quantity end,
+      -v_net,
+      v_entry.transaction_type,
+      v_entry.fund_source,
+      'Reversal: ' || coalesce(v_entry.description, v_entry.transaction_type) || coalesce(' - ' || nullif(p_note, ''), ''),
+      now(),
+      v_entry.sale_id,
+      v_entry.id,
+      'reversal',
+      p_reason_code,
+      p_user
+    );
+
+    if v_entry.transaction_type = 'sale' and v_entry.inventory_item_id is not null and coalesce(v_entry.quantity, 0) > 0 then
+      update public.inventory
+      set quantity = quantity + v_entry.quantity
+      where id::text = v_entry.inventory_item_id::text;
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  if v_count = 0 then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  return jsonb_build_object('status', 'reversed', 'count', v_count);
+end;
+$$;
+
+create or replace function public.correct_ledger_amount(
+  p_entry_id text,
+  p_amount numeric,
+  p_reason_code text,
+  p_note text,
+  p_user text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_entry record;
+  v_net numeric;
+begin
+  select l.* into v_entry
+  from public.ledger l
+  where l.id::text = p_entry_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  if v_entry.adjusts_id is not null then
+    return jsonb_build_object('status', 'invalid', 'message', 'Adjustment entries cannot themselves be corrected.');
+  end if;
+  if exists (select 1 from public.ledger r where r.adjusts_id = v_entry.id and r.adjustment_kind = 'reversal') then
+    return jsonb_build_object('status', 'already_reversed', 'entry_id', v_entry.id);
+  end if;
+
+  select v_entry.amount + coalesce(sum(c.amount), 0) into v_net
+  from public.ledger c
+  where c.adjusts_id = v_entry.id and c.adjustment_kind = 'correction';
+
+  if p_amount = v_net then
+    return jsonb_build_object('status', 'unchanged');
+  end if;
+
+  insert into public.ledger (
+    category_id, amount, transaction_type, fund_source, description, created_at,
+    sale_id, adjusts_id, adjustment_kind, reason_code, adjusted_by
+  ) values (
+    v_entry.category_id,
+    p_amount - v_net,
+    v_entry.transaction_type,
+    v_entry.fund_source,
+    'Correction: ' || coalesce(v_entry.description, v_entry.transaction_type) || ' (' || v_net || ' -> ' || p_amount || ')' || coalesce(' - ' || nullif(p_note, ''), ''),
+    now(),
+    v_entry.sale_id,
+    v_entry.id,
+    'correction',
+    p_reason_code,
+    p_user
+  );
+
+  return jsonb_build_object('status', 'corrected', 'net', p_amount);
+end;
+$$;
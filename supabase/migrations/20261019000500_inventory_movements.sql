@@ -0,0 +1,253 @@
+-- Stock movement journal. Every change to inventory.quantity goes through record_stock_movement,
+-- which locks the item, applies the delta and writes one inventory_movements row with the
+-- quantities either side of it, who did it, why, and the document that caused it. On-hand stock
+-- is therefore sum(quantity_delta) per item; a gap between one row's quantity_after and the next
+-- row's quantity_before marks a change made outside the journal.
+
+create table if not exists public.inventory_movements (
+  id uuid primary key default gen_random_uuid(),
+  inventory_item_id text not null,
+  movement_type text not null check (movement_type in ('opening', 'sale', 'reversal', 'adjustment', 'receiving', 'stocktake', 'transfer')),
+  quantity_delta numeric not null,
+  quantity_before numeric not null,
+  quantity_after numeric not null,
+  reason text,
+  performed_by text,
+  source_type text,
+  source_id text,
+  created_at timestamptz not null default now(),
+  constraint inventory_movements_balance_check check (quantity_after = quantity_before + quantity_delta)
+);
+
+create index if not exists inventory_movements_item_idx on public.inventory_movements (inventory_item_id, created_at);
+create index if not exists inventory_movements_source_idx on public.inventory_movements (source_type, source_id);
+
+-- Open the journal with the stock on hand today so derived and stored quantities agree.
+insert into public.inventory_movements (inventory_item_id, movement_type, quantity_delta, quantity_before, quantity_after, reason, source_type, source_id)
+select i.id::text, 'opening', i.quantity, 0, i.quantity, 'Opening balance at journal start', 'inventory', i.id::text
+from public.inventory i
+where coalesce(i.quantity, 0) <> 0
+  and not exists (select 1 from public.inventory_movements m where m.inventory_item_id = i.id::text);
+
+-- Returns the movement row, or null when the item does not exist.
+create or replace function public.record_stock_movement(
+  p_item_id text,
+  p_delta numeric,
+  p_movement_type text,
+  p_reason text,
+  p_user text,
+  p_source_type text,
+  p_source_id text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_before numeric;
+  v_movement public.inventory_movements;
+begin
+  select coalesce(i.quantity, 0) into v_before
+  from public.inventory i
+  where i.id::text = p_item_id
+  for update;
+
+  if not found then
+    return null;
+  end if;
+
+  update public.inventory
+  set quantity = v_before + p_delta
+  where id::text = p_item_id;
+
+  insert into public.inventory_movements (
+    inventory_item_id, movement_type, quantity_delta, quantity_before, quantity_after,
+    reason, performed_by, source_type, source_id
+  ) values (
+    p_item_id, p_movement_type, p_delta, v_before, v_before + p_delta,
+    nullif(p_reason, ''), nullif(p_user, ''), p_source_type, p_source_id
+  )
+  returning * into v_movement;
+
+  return to_jsonb(v_movement);
+end;
+$$;
+
+-- Sets an item's on-hand quantity to p_quantity (manual edits, opening stock, stocktake counts).
+create or replace function public.adjust_stock(
+  p_item_id text,
+  p_quantity numeric,
+  p_movement_type text,
+  p_reason text,
+  p_user text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_before numeric;
+begin
+  select coalesce(i.quantity, 0) into v_before
+  from public.inventory i
+  where i.id::text = p_item_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  if v_before = p_quantity then
+    return jsonb_build_object('status', 'unchanged');
+  end if;
+
+  return jsonb_build_object(
+    'status', 'adjusted',
+    'movement', public.record_stock_movement(p_item_id, p_quantity - v_before, p_movement_type, p_reason, p_user, 'inventory', p_item_id)
+  );
+end;
+$$;
+
+-- post_sale and reverse_ledger_entries as before, with their stock updates routed through the journal.
+create or replace function public.post_sale(p_sale jsonb, p_entries jsonb, p_stock jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_sale_id text := p_sale->>'id';
+  v_line record;
+  v_item record;
+  v_conflicts jsonb := '[]'::jsonb;
+begin
+  -- Serialise concurrent retries of the same sale before checking whether it was already posted.
+  perform pg_advisory_xact_lock(hashtext('post_sale:' || v_sale_id));
+
+  if exists (select 1 from public.sales where id = v_sale_id) then
+    return jsonb_build_object('status', 'duplicate');
+  end if;
+
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    select i.name, i.quantity into v_item
+    from public.inventory i
+    where i.id::text = v_line.inventory_item_id
+    for update;
+
+    if not found or coalesce(v_item.quantity, 0) < v_line.quantity then
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'inventory_item_id', v_line.inventory_item_id,
+        'name', v_item.name,
+        'requested', v_line.quantity,
+        'available', coalesce(v_item.quantity, 0)
+      );
+    end if;
+  end loop;
+
+  if jsonb_array_length(v_conflicts) > 0 then
+    return jsonb_build_object('status', 'conflict', 'conflicts', v_conflicts);
+  end if;
+
+  insert into public.sales
+  select * from jsonb_populate_record(null::public.sales, p_sale);
+
+  insert into public.ledger (category_id, inventory_item_id, quantity, amount, transaction_type, fund_source, description, created_at, sale_id)
+  select e.category_id, e.inventory_item_id, e.quantity, e.amount, e.transaction_type, e.fund_source, e.description, e.created_at, v_sale_id
+  from jsonb_populate_recordset(null::public.ledger, p_entries) as e;
+
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    perform public.record_stock_movement(
+      v_line.inventory_item_id, -v_line.quantity, 'sale',
+      'Receipt ' || coalesce(p_sale->>'receipt_no', v_sale_id), p_sale->>'cashier_name', 'sale', v_sale_id
+    );
+  end loop;
+
+  return jsonb_build_object('status', 'posted');
+end;
+$$;
+
+create or replace function public.reverse_ledger_entries(
+  p_entry_ids jsonb,
+  p_sale_id text,
+  p_reason_code text,
+  p_note text,
+  p_user text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_entry record;
+  v_net numeric;
+  v_reversal_id text;
+  v_count integer := 0;
+begin
+  for v_entry in
+    select l.*
+    from public.ledger l
+    where (
+      l.id::text in (select jsonb_array_elements_text(coalesce(p_entry_ids, '[]'::jsonb)))
+      or (p_sale_id is not null and l.sale_id = p_sale_id)
+    )
+    order by l.id
+    for update
+  loop
+    if v_entry.adjusts_id is not null then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        continue;
+      end if;
+      return jsonb_build_object('status', 'invalid', 'message', 'Adjustment entries cannot themselves be reversed.');
+    end if;
+
+    if exists (select 1 from public.ledger r where r.adjusts_id = v_entry.id and r.adjustment_kind = 'reversal') then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        continue;
+      end if;
+      return jsonb_build_object('status', 'already_reversed', 'entry_id', v_entry.id);
+    end if;
+
+    select v_entry.amount + coalesce(sum(c.amount), 0) into v_net
+    from public.ledger c
+    where c.adjusts_id = v_entry.id and c.adjustment_kind = 'correction';
+
+    insert into public.ledger (
+      category_id, inventory_item_id, quantity, amount, transaction_type, fund_source,
+      description, created_at, sale_id, adjusts_id, adjustment_kind, reason_code, adjusted_by
+    ) values (
+      v_entry.category_id,
+      v_entry.inventory_item_id,
+      case when v_entry.quantity is null then null else -v_entry.quantity end,
+      -v_net,
+      v_entry.transaction_type,
+      v_entry.fund_source,
+      'Reversal: ' || coalesce(v_entry.description, v_entry.transaction_type) || coalesce(' - ' || nullif(p_note, ''), ''),
+      now(),
+      v_entry.sale_id,
+      v_entry.id,
+      'reversal',
+      p_reason_code,
+      p_user
+    )
+    returning id::text into v_reversal_id;
+
+    if v_entry.transaction_type = 'sale' and v_entry.inventory_item_id is not null and coalesce(v_entry.quantity, 0) > 0 then
+      perform public.record_stock_movement(
+        v_entry.inventory_item_id::text, v_entry.quantity, 'reversal',
+        p_reason_code || coalesce(' - ' || nullif(p_note, ''), ''), p_user, 'ledger', v_reversal_id
+      );
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  if v_count = 0 then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  return jsonb_build_object('status', 'reversed', 'count', v_count);
+end;
+$$;
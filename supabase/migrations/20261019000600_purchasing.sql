@@ -0,0 +1,243 @@
+-- Suppliers, purchase orders and goods received notes (GRNs).
+--
+-- A GRN is the source document for buying stock. receive_goods posts one atomically: it writes the
+-- GRN and its lines, brings each line into stock through record_stock_movement ('receiving'),
+-- re-costs the item with the configured costing method, advances the purchase order it was
+-- received against, and posts the net purchase to the ledger as 'purchase' rows per category.
+-- Input VAT stays on the GRN header (tax_amount), as output VAT does on sales.
+
+create table if not exists public.suppliers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  contact_name text,
+  phone text,
+  email text,
+  tax_id text,
+  address text,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create sequence if not exists public.purchase_order_no_seq;
+create sequence if not exists public.goods_received_no_seq;
+
+create table if not exists public.purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  po_number text not null unique default 'PO-' || lpad(nextval('public.purchase_order_no_seq')::text, 6, '0'),
+  supplier_id uuid not null references public.suppliers (id),
+  status text not null default 'draft' check (status in ('draft', 'ordered', 'partially_received', 'received', 'cancelled')),
+  expected_date date,
+  notes text,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.purchase_order_lines (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references public.purchase_orders (id) on delete cascade,
+  inventory_item_id text not null,
+  quantity_ordered numeric not null check (quantity_ordered > 0),
+  quantity_received numeric not null default 0,
+  unit_cost numeric not null default 0 check (unit_cost >= 0)
+);
+
+create index if not exists purchase_order_lines_order_idx on public.purchase_order_lines (purchase_order_id);
+
+create table if not exists public.goods_received_notes (
+  id uuid primary key default gen_random_uuid(),
+  grn_no text not null unique default 'GRN-' || lpad(nextval('public.goods_received_no_seq')::text, 6, '0'),
+  supplier_id uuid not null references public.suppliers (id),
+  purchase_order_id uuid references public.purchase_orders (id),
+  supplier_invoice_no text,
+  received_by text not null,
+  received_at timestamptz not null default now(),
+  fund_source text not null check (fund_source in ('CAPITAL', 'PROFIT')),
+  subtotal numeric not null default 0,
+  tax_rate numeric not null default 0,
+  tax_amount numeric not null default 0,
+  total numeric not null default 0,
+  costing_method text not null check (costing_method in ('weighted_average', 'last_cost')),
+  notes text
+);
+
+create index if not exists goods_received_notes_received_at_idx on public.goods_received_notes (received_at desc);
+
+create table if not exists public.goods_received_lines (
+  id uuid primary key default gen_random_uuid(),
+  grn_id uuid not null references public.goods_received_notes (id) on delete cascade,
+  inventory_item_id text not null,
+  purchase_order_line_id uuid references public.purchase_order_lines (id),
+  quantity numeric not null check (quantity > 0),
+  unit_cost numeric not null check (unit_cost >= 0),
+  line_total numeric not null,
+  cost_before numeric not null,
+  cost_after numeric not null
+);
+
+create index if not exists goods_received_lines_grn_idx on public.goods_received_lines (grn_id);
+
+alter table public.ledger
+  add column if not exists grn_id uuid references public.goods_received_notes (id);
+
+create index if not exists ledger_grn_id_idx on public.ledger (grn_id);
+
+-- p_order: purchase_orders columns; p_lines: [{ inventory_item_id, quantity_ordered, unit_cost }].
+create or replace function public.create_purchase_order(p_order jsonb, p_lines jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_order public.purchase_orders;
+begin
+  insert into public.purchase_orders (supplier_id, status, expected_date, notes, created_by)
+  values (
+    (p_order->>'supplier_id')::uuid,
+    coalesce(p_order->>'status', 'draft'),
+    nullif(p_order->>'expected_date', '')::date,
+    p_order->>'notes',
+    p_order->>'created_by'
+  )
+  returning * into v_order;
+
+  insert into public.purchase_order_lines (purchase_order_id, inventory_item_id, quantity_ordered, unit_cost)
+  select v_order.id, l.inventory_item_id, l.quantity_ordered, coalesce(l.unit_cost, 0)
+  from jsonb_to_recordset(p_lines) as l(inventory_item_id text, quantity_ordered numeric, unit_cost numeric);
+
+  return to_jsonb(v_order) || jsonb_build_object('lines', (
+    select coalesce(jsonb_agg(to_jsonb(pl)), '[]'::jsonb)
+    from public.purchase_order_lines pl
+    where pl.purchase_order_id = v_order.id
+  ));
+end;
+$$;
+
+-- p_grn:     goods_received_notes columns except id / grn_no.
+-- p_lines:   [{ inventory_item_id, purchase_order_line_id, quantity, unit_cost }].
+-- p_entries: net purchase ledger rows per category; descriptions are prefixed with the GRN number.
+create or replace function public.receive_goods(p_grn jsonb, p_lines jsonb, p_entries jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_grn public.goods_received_notes;
+  v_order public.purchase_orders;
+  v_line record;
+  v_item record;
+  v_cost_after numeric;
+  v_method text := p_grn->>'costing_method';
+begin
+  if nullif(p_grn->>'purchase_order_id', '') is not null then
+    select * into v_order
+    from public.purchase_orders
+    where id = (p_grn->>'purchase_order_id')::uuid
+    for update;
+
+    if not found then
+      return jsonb_build_object('status', 'invalid', 'message', 'Purchase order not found.');
+    end if;
+    if v_order.supplier_id <> (p_grn->>'supplier_id')::uuid then
+      return jsonb_build_object('status', 'invalid', 'message', 'Purchase order belongs to a different supplier.');
+    end if;
+    if v_order.status not in ('ordered', 'partially_received') then
+      return jsonb_build_object('status', 'invalid', 'message', 'Purchase order ' || v_order.po_number || ' is ' || v_order.status || ' and cannot be received against.');
+    end if;
+  end if;
+
+  for v_line in
+    select l.inventory_item_id, nullif(l.purchase_order_line_id, '')::uuid as purchase_order_line_id
+    from jsonb_to_recordset(p_lines) as l(inventory_item_id text, purchase_order_line_id text)
+  loop
+    if not exists (select 1 from public.inventory i where i.id::text = v_line.inventory_item_id) then
+      return jsonb_build_object('status', 'invalid', 'message', 'Inventory item ' || v_line.inventory_item_id || ' not found.');
+    end if;
+    if v_line.purchase_order_line_id is not null and not exists (
+      select 1 from public.purchase_order_lines pl
+      where pl.id = v_line.purchase_order_line_id and pl.purchase_order_id = v_order.id
+    ) then
+      return jsonb_build_object('status', 'invalid', 'message', 'Purchase order line ' || v_line.purchase_order_line_id || ' is not on the purchase order.');
+    end if;
+  end loop;
+
+  insert into public.goods_received_notes (
+    supplier_id, purchase_order_id, supplier_invoice_no, received_by, received_at, fund_source,
+    subtotal, tax_rate, tax_amount, total, costing_method, notes
+  ) values (
+    (p_grn->>'supplier_id')::uuid,
+    nullif(p_grn->>'purchase_order_id', '')::uuid,
+    p_grn->>'supplier_invoice_no',
+    p_grn->>'received_by',
+    coalesce((p_grn->>'received_at')::timestamptz, now()),
+    p_grn->>'fund_source',
+    (p_grn->>'subtotal')::numeric,
+    (p_grn->>'tax_rate')::numeric,
+    (p_grn->>'tax_amount')::numeric,
+    (p_grn->>'total')::numeric,
+    v_method,
+    p_grn->>'notes'
+  )
+  returning * into v_grn;
+
+  for v_line in
+    select l.inventory_item_id, nullif(l.purchase_order_line_id, '')::uuid as purchase_order_line_id, l.quantity, l.unit_cost
+    from jsonb_to_recordset(p_lines) as l(inventory_item_id text, purchase_order_line_id text, quantity numeric, unit_cost numeric)
+  loop
+    select i.quantity, i.cost_price into v_item
+    from public.inventory i
+    where i.id::text = v_line.inventory_item_id
+    for update;
+
+    v_cost_after := case
+      when v_method = 'last_cost' or coalesce(v_item.quantity, 0) <= 0 then v_line.unit_cost
+      else round(
+        (v_item.quantity * coalesce(v_item.cost_price, 0) + v_line.quantity * v_line.unit_cost) / (v_item.quantity + v_line.quantity),
+        4
+      )
+    end;
+
+    if v_line.purchase_order_line_id is not null then
+      update public.purchase_order_lines
+      set quantity_received = quantity_received + v_line.quantity
+      where id = v_line.purchase_order_line_id;
+    end if;
+
+    insert into public.goods_received_lines (
+      grn_id, inventory_item_id, purchase_order_line_id, quantity, unit_cost, line_total, cost_before, cost_after
+    ) values (
+      v_grn.id, v_line.inventory_item_id, v_line.purchase_order_line_id, v_line.quantity, v_line.unit_cost,
+      v_line.quantity * v_line.unit_cost, coalesce(v_item.cost_price, 0), v_cost_after
+    );
+
+    update public.inventory set cost_price = v_cost_after where id::text = v_line.inventory_item_id;
+
+    perform public.record_stock_movement(
+      v_line.inventory_item_id, v_line.quantity, 'receiving',
+      v_grn.grn_no || coalesce(' / invoice ' || nullif(v_grn.supplier_invoice_no, ''), ''),
+      v_grn.received_by, 'grn', v_grn.id::text
+    );
+  end loop;
+
+  if v_order.id is not null then
+    update public.purchase_orders
+    set status = case
+      when not exists (
+        select 1 from public.purchase_order_lines pl
+        where pl.purchase_order_id = v_order.id and pl.quantity_received < pl.quantity_ordered
+      ) then 'received'
+      else 'partially_received'
+    end
+    where id = v_order.id;
+  end if;
+
+  insert into public.ledger (category_id, amount, transaction_type, fund_source, description, created_at, grn_id)
+  select e.category_id, e.amount, 'purchase', v_grn.fund_source,
+    'Purchase ' || v_grn.grn_no || coalesce(' - ' || nullif(e.description, ''), ''),
+    v_grn.received_at, v_grn.id
+  from jsonb_populate_recordset(null::public.ledger, p_entries) as e;
+
+  return jsonb_build_object('status', 'received', 'grn', to_jsonb(v_grn) || jsonb_build_object('lines', (
+    select coalesce(jsonb_agg(to_jsonb(gl)), '[]'::jsonb)
+    from public.goods_received_lines gl
+    where gl.grn_id = v_grn.id
+  )));
+end;
+$$;
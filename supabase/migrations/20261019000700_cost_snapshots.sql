@@ -0,0 +1,462 @@
+-- Cost of goods sold captured at posting time.
+--
+-- Stock is carried in cost layers: every inflow through record_stock_movement opens a layer at the
+-- cost it came in at, every outflow consumes the oldest layers first. The costing method, now a
+-- stored setting rather than a server variable, decides what an outflow costs and what
+-- inventory.cost_price holds:
+--   weighted_average  outflows at cost_price; inflows re-average it
+--   fifo              outflows at the cost of the layers they consume; cost_price is the open layers' average
+--   last_cost         outflows at cost_price; receipts set it to the latest purchase cost
+-- The cost of each movement is kept on inventory_movements.unit_cost, and post_sale copies it onto
+-- the sale's ledger rows so historical margins no longer move when a cost price is edited.
+
+create table if not exists public.stock_settings (
+  id boolean primary key default true check (id),
+  costing_method text not null default 'weighted_average' check (costing_method in ('weighted_average', 'fifo', 'last_cost')),
+  updated_at timestamptz not null default now(),
+  updated_by text
+);
+
+insert into public.stock_settings (id) values (true) on conflict (id) do nothing;
+
+alter table public.goods_received_notes drop constraint if exists goods_received_notes_costing_method_check;
+alter table public.goods_received_notes
+  add constraint goods_received_notes_costing_method_check check (costing_method in ('weighted_average', 'fifo', 'last_cost'));
+
+-- clock_timestamp() so layers opened in one transaction still sort in the order they were opened.
+create table if not exists public.inventory_cost_layers (
+  id uuid primary key default gen_random_uuid(),
+  inventory_item_id text not null,
+  unit_cost numeric not null check (unit_cost >= 0),
+  quantity_received numeric not null check (quantity_received > 0),
+  quantity_remaining numeric not null check (quantity_remaining >= 0),
+  source_type text,
+  source_id text,
+  created_at timestamptz not null default clock_timestamp()
+);
+
+create index if not exists inventory_cost_layers_open_idx
+  on public.inventory_cost_layers (inventory_item_id, created_at)
+  where quantity_remaining > 0;
+
+-- Stock on hand today becomes one opening layer per item at its current cost price.
+insert into public.inventory_cost_layers (inventory_item_id, unit_cost, quantity_received, quantity_remaining, source_type, source_id)
+select i.id::text, greatest(coalesce(i.cost_price, 0), 0), i.quantity, i.quantity, 'inventory', i.id::text
+from public.inventory i
+where coalesce(i.quantity, 0) > 0
+  and not exists (select 1 from public.inventory_cost_layers c where c.inventory_item_id = i.id::text);
+
+alter table public.inventory_movements add column if not exists unit_cost numeric;
+alter table public.ledger add column if not exists unit_cost numeric;
+
+-- Sales posted before this migration get today's cost price, frozen from here on.
+update public.ledger l
+set unit_cost = coalesce(i.cost_price, 0)
+from public.inventory i
+where i.id::text = l.inventory_item_id::text
+  and l.transaction_type = 'sale'
+  and l.quantity is not null
+  and l.unit_cost is null;
+
+drop function if exists public.record_stock_movement(text, numeric, text, text, text, text, text);
+
+-- As before, plus costing. p_unit_cost is what an inflow cost (defaults to the item's cost price);
+-- an outflow's cost is worked out here. Returns the movement row, or null when the item does not exist.
+create or replace function public.record_stock_movement(
+  p_item_id text,
+  p_delta numeric,
+  p_movement_type text,
+  p_reason text,
+  p_user text,
+  p_source_type text,
+  p_source_id text,
+  p_unit_cost numeric default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_before numeric;
+  v_cost numeric;
+  v_method text;
+  v_unit_cost numeric;
+  v_remaining numeric;
+  v_consumed numeric := 0;
+  v_take numeric;
+  v_layer record;
+  v_layered numeric;
+  v_movement public.inventory_movements;
+begin
+  select coalesce(i.quantity, 0), coalesce(i.cost_price, 0) into v_before, v_cost
+  from public.inventory i
+  where i.id::text = p_item_id
+  for update;
+
+  if not found then
+    return null;
+  end if;
+
+  select s.costing_method into v_method from public.stock_settings s;
+  v_method := coalesce(v_method, 'weighted_average');
+
+  if p_delta > 0 then
+    v_unit_cost := round(coalesce(p_unit_cost, v_cost), 4);
+
+    insert into public.inventory_cost_layers (inventory_item_id, unit_cost, quantity_received, quantity_remaining, source_type, source_id)
+    values (p_item_id, v_unit_cost, p_delta, p_delta, p_source_type, p_source_id);
+
+    if v_method = 'weighted_average' then
+      v_cost := case
+        when v_before <= 0 then v_unit_cost
+        else round((v_before * v_cost + p_delta * v_unit_cost) / (v_before + p_delta), 4)
+      end;
+    elsif v_method = 'last_cost' and p_movement_type = 'receiving' then
+      v_cost := v_unit_cost;
+    end if;
+  elsif p_delta < 0 then
+    v_remaining := -p_delta;
+
+    for v_layer in
+      select c.id, c.unit_cost, c.quantity_remaining
+      from public.inventory_cost_layers c
+      where c.inventory_item_id = p_item_id and c.quantity_remaining > 0
+      order by c.created_at, c.id
+      for update
+    loop
+      exit when v_remaining <= 0;
+      v_take := least(v_remaining, v_layer.quantity_remaining);
+      update public.inventory_cost_layers set quantity_remaining = quantity_remaining - v_take where id = v_layer.id;
+      v_consumed := v_consumed + v_take * v_layer.unit_cost;
+      v_remaining := v_remaining - v_take;
+    end loop;
+
+    -- Units the layers do not cover are costed at the current cost price.
+    v_consumed := v_consumed + v_remaining * v_cost;
+    v_unit_cost := case when v_method = 'fifo' then round(v_consumed / -p_delta, 4) else v_cost end;
+  end if;
+
+  if v_method = 'fifo' then
+    select round(sum(c.quantity_remaining * c.unit_cost) / nullif(sum(c.quantity_remaining), 0), 4) into v_layered
+    from public.inventory_cost_layers c
+    where c.inventory_item_id = p_item_id and c.quantity_remaining > 0;
+    v_cost := coalesce(v_layered, v_cost);
+  end if;
+
+  update public.inventory
+  set quantity = v_before + p_delta,
+      cost_price = v_cost
+  where id::text = p_item_id;
+
+  insert into public.inventory_movements (
+    inventory_item_id, movement_type, quantity_delta, quantity_before, quantity_after,
+    reason, performed_by, source_type, source_id, unit_cost
+  ) values (
+    p_item_id, p_movement_type, p_delta, v_before, v_before + p_delta,
+    nullif(p_reason, ''), nullif(p_user, ''), p_source_type, p_source_id, v_unit_cost
+  )
+  returning * into v_movement;
+
+  return to_jsonb(v_movement);
+end;
+$$;
+
+-- post_sale as before; each sale row keeps the unit cost its stock movement went out at.
+create or replace function public.post_sale(p_sale jsonb, p_entries jsonb, p_stock jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_sale_id text := p_sale->>'id';
+  v_line record;
+  v_item record;
+  v_movement jsonb;
+  v_conflicts jsonb := '[]'::jsonb;
+begin
+  -- Serialise concurrent retries of the same sale before checking whether it was already posted.
+  perform pg_advisory_xact_lock(hashtext('post_sale:' || v_sale_id));
+
+  if exists (select 1 from public.sales where id = v_sale_id) then
+    return jsonb_build_object('status', 'duplicate');
+  end if;
+
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    select i.name, i.quantity into v_item
+    from public.inventory i
+    where i.id::text = v_line.inventory_item_id
+    for update;
+
+    if not found or coalesce(v_item.quantity, 0) < v_line.quantity then
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'inventory_item_id', v_line.inventory_item_id,
+        'name', v_item.name,
+        'requested', v_line.quantity,
+        'available', coalesce(v_item.quantity, 0)
+      );
+    end if;
+  end loop;
+
+  if jsonb_array_length(v_conflicts) > 0 then
+    return jsonb_build_object('status', 'conflict', 'conflicts', v_conflicts);
+  end if;
+
+  insert into public.sales
+  select * from jsonb_populate_record(null::public.sales, p_sale);
+
+  insert into public.ledger (category_id, inventory_item_id, quantity, amount, transaction_type, fund_source, description, created_at, sale_id)
+  select e.category_id, e.inventory_item_id, e.quantity, e.amount, e.transaction_type, e.fund_source, e.description, e.created_at, v_sale_id
+  from jsonb_populate_recordset(null::public.ledger, p_entries) as e;
+
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    v_movement := public.record_stock_movement(
+      v_line.inventory_item_id, -v_line.quantity, 'sale',
+      'Receipt ' || coalesce(p_sale->>'receipt_no', v_sale_id), p_sale->>'cashier_name', 'sale', v_sale_id
+    );
+
+    update public.ledger
+    set unit_cost = (v_movement->>'unit_cost')::numeric
+    where sale_id = v_sale_id and inventory_item_id::text = v_line.inventory_item_id;
+  end loop;
+
+  return jsonb_build_object('status', 'posted');
+end;
+$$;
+
+-- reverse_ledger_entries as before; a reversed sale row gives back the cost it was sold at, and
+-- the returned units re-enter stock at that cost.
+create or replace function public.reverse_ledger_entries(
+  p_entry_ids jsonb,
+  p_sale_id text,
+  p_reason_code text,
+  p_note text,
+  p_user text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_entry record;
+  v_net numeric;
+  v_reversal_id text;
+  v_count integer := 0;
+begin
+  for v_entry in
+    select l.*
+    from public.ledger l
+    where (
+      l.id::text in (select jsonb_array_elements_text(coalesce(p_entry_ids, '[]'::jsonb)))
+      or (p_sale_id is not null and l.sale_id = p_sale_id)
+    )
+    order by l.id
+    for update
+  loop
+    if v_entry.adjusts_id is not null then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        continue;
+      end if;
+      return jsonb_build_object('status', 'invalid', 'message', 'Adjustment entries cannot themselves be reversed.');
+    end if;
+
+    if exists (select 1 from public.ledger r where r.adjusts_id = v_entry.id and r.adjustment_kind = 'reversal') then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        continue;
+      end if;
+      return jsonb_build_object('status', 'already_reversed', 'entry_id', v_entry.id);
+    end if;
+
+    select v_entry.amount + coalesce(sum(c.amount), 0) into v_net
+    from public.ledger c
+    where c.adjusts_id = v_entry.id and c.adjustment_kind = 'correction';
+
+    insert into public.ledger (
+      category_id, inventory_item_id, quantity, amount, unit_cost, transaction_type, fund_source,
+      description, created_at, sale_id, adjusts_id, adjustment_kind, reason_code, adjusted_by
+    ) values (
+      v_entry.category_id,
+      v_entry.inventory_item_id,
+      case when v_entry.quantity is null then null else -v_entry.quantity end,
+      -v_net,
+      v_entry.unit_cost,
+      v_entry.transaction_type,
+      v_entry.fund_source,
+      'Reversal: ' || coalesce(v_entry.description, v_entry.transaction_type) || coalesce(' - ' || nullif(p_note, ''), ''),
+      now(),
+      v_entry.sale_id,
+      v_entry.id,
+      'reversal',
+      p_reason_code,
+      p_user
+    )
+    returning id::text into v_reversal_id;
+
+    if v_entry.transaction_type = 'sale' and v_entry.inventory_item_id is not null and coalesce(v_entry.quantity, 0) > 0 then
+      perform public.record_stock_movement(
+        v_entry.inventory_item_id::text, v_entry.quantity, 'reversal',
+        p_reason_code || coalesce(' - ' || nullif(p_note, ''), ''), p_user, 'ledger', v_reversal_id,
+        v_entry.unit_cost
+      );
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  if v_count = 0 then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  return jsonb_build_object('status', 'reversed', 'count', v_count);
+end;
+$$;
+
+-- receive_goods as before, with costing left to record_stock_movement. The GRN records the
+-- costing method in force when it was received.
+create or replace function public.receive_goods(p_grn jsonb, p_lines jsonb, p_entries jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_grn public.goods_received_notes;
+  v_order public.purchase_orders;
+  v_line record;
+  v_cost_before numeric;
+  v_cost_after numeric;
+  v_method text;
+begin
+  select s.costing_method into v_method from public.stock_settings s;
+
+  if nullif(p_grn->>'purchase_order_id', '') is not null then
+    select * into v_order
+    from public.purchase_orders
+    where id = (p_grn->>'purchase_order_id')::uuid
+    for update;
+
+    if not found then
+      return jsonb_build_object('status', 'invalid', 'message', 'Purchase order not found.');
+    end if;
+    if v_order.supplier_id <> (p_grn->>'supplier_id')::uuid then
+      return jsonb_build_object('status', 'invalid', 'message', 'Purchase order belongs to a different supplier.');
+    end if;
+    if v_order.status not in ('ordered', 'partially_received') then
+      return jsonb_build_object('status', 'invalid', 'message', 'Purchase order ' || v_order.po_number || ' is ' || v_order.status || ' and cannot be received against.');
+    end if;
+  end if;
+
+  for v_line in
+    select l.inventory_item_id, nullif(l.purchase_order_line_id, '')::uuid as purchase_order_line_id
+    from jsonb_to_recordset(p_lines) as l(inventory_item_id text, purchase_order_line_id text)
+  loop
+    if not exists (select 1 from public.inventory i where i.id::text = v_line.inventory_item_id) then
+      return jsonb_build_object('status', 'invalid', 'message', 'Inventory item ' || v_line.inventory_item_id || ' not found.');
+    end if;
+    if v_line.purchase_order_line_id is not null and not exists (
+      select 1 from public.purchase_order_lines pl
+      where pl.id = v_line.purchase_order_line_id and pl.purchase_order_id = v_order.id
+    ) then
+      return jsonb_build_object('status', 'invalid', 'message', 'Purchase order line ' || v_line.purchase_order_line_id || ' is not on the purchase order.');
+    end if;
+  end loop;
+
+  insert into public.goods_received_notes (
+    supplier_id, purchase_order_id, supplier_invoice_no, received_by, received_at, fund_source,
+    subtotal, tax_rate, tax_amount, total, costing_method, notes
+  ) values (
+    (p_grn->>'supplier_id')::uuid,
+    nullif(p_grn->>'purchase_order_id', '')::uuid,
+    p_grn->>'supplier_invoice_no',
+    p_grn->>'received_by',
+    coalesce((p_grn->>'received_at')::timestamptz, now()),
+    p_grn->>'fund_source',
+    (p_grn->>'subtotal')::numeric,
+    (p_grn->>'tax_rate')::numeric,
+    (p_grn->>'tax_amount')::numeric,
+    (p_grn->>'total')::numeric,
+    coalesce(v_method, 'weighted_average'),
+    p_grn->>'notes'
+  )
+  returning * into v_grn;
+
+  for v_line in
+    select l.inventory_item_id, nullif(l.purchase_order_line_id, '')::uuid as purchase_order_line_id, l.quantity, l.unit_cost
+    from jsonb_to_recordset(p_lines) as l(inventory_item_id text, purchase_order_line_id text, quantity numeric, unit_cost numeric)
+  loop
+    select coalesce(i.cost_price, 0) into v_cost_before
+    from public.inventory i
+    where i.id::text = v_line.inventory_item_id;
+
+    perform public.record_stock_movement(
+      v_line.inventory_item_id, v_line.quantity, 'receiving',
+      v_grn.grn_no || coalesce(' / invoice ' || nullif(v_grn.supplier_invoice_no, ''), ''),
+      v_grn.received_by, 'grn', v_grn.id::text, v_line.unit_cost
+    );
+
+    select coalesce(i.cost_price, 0) into v_cost_after
+    from public.inventory i
+    where i.id::text = v_line.inventory_item_id;
+
+    if v_line.purchase_order_line_id is not null then
+      update public.purchase_order_lines
+      set quantity_received = quantity_received + v_line.quantity
+      where id = v_line.purchase_order_line_id;
+    end if;
+
+    insert into public.goods_received_lines (
+      grn_id, inventory_item_id, purchase_order_line_id, quantity, unit_cost, line_total, cost_before, cost_after
+    ) values (
+      v_grn.id, v_line.inventory_item_id, v_line.purchase_order_line_id, v_line.quantity, v_line.unit_cost,
+      v_line.quantity * v_line.unit_cost, v_cost_before, v_cost_after
+    );
+  end loop;
+
+  if v_order.id is not null then
+    update public.purchase_orders
+    set status = case
+      when not exists (
+        select 1 from public.purchase_order_lines pl
+        where pl.purchase_order_id = v_order.id and pl.quantity_received < pl.quantity_ordered
+      ) then 'received'
+      else 'partially_received'
+    end
+    where id = v_order.id;
+  end if;
+
+  insert into public.ledger (category_id, amount, transaction_type, fund_source, description, created_at, grn_id)
+  select e.category_id, e.amount, 'purchase', v_grn.fund_source,
+    'Purchase ' || v_grn.grn_no || coalesce(' - ' || nullif(e.description, ''), ''),
+    v_grn.received_at, v_grn.id
+  from jsonb_populate_recordset(null::public.ledger, p_entries) as e;
+
+  return jsonb_build_object('status', 'received', 'grn', to_jsonb(v_grn) || jsonb_build_object('lines', (
+    select coalesce(jsonb_agg(to_jsonb(gl)), '[]'::jsonb)
+    from public.goods_received_lines gl
+    where gl.grn_id = v_grn.id
+  )));
+end;
+$$;
+
+-- Profit is now revenue less the captured cost of goods sold and expenses.
+drop view if exists public.business_summary;
+
+create view public.business_summary as
+select
+  c.id as category_id,
+  c.name as category_name,
+  coalesce(sum(case when l.transaction_type = 'sale' then l.amount end), 0) as total_revenue,
+  coalesce(sum(case when l.transaction_type = 'sale' then l.amount end), 0)
+    - coalesce(sum(case when l.transaction_type = 'sale' and l.adjustment_kind is distinct from 'correction' then l.quantity * l.unit_cost end), 0)
+    - coalesce(sum(case when l.transaction_type = 'expense' then l.amount end), 0) as total_profit,
+  coalesce(sum(case when l.transaction_type = 'expense' then l.amount end), 0) as total_expenses,
+  c.initial_capital
+    - coalesce(sum(case when lower(l.transaction_type) in ('capital_withdrawal', 'capital_deduction') then l.amount end), 0) as capital_health,
+  coalesce(max(l.created_at), now()) as last_updated,
+  coalesce(sum(case when l.transaction_type = 'sale' and l.adjustment_kind is distinct from 'correction' then l.quantity * l.unit_cost end), 0) as total_cogs
+from public.categories c
+left join public.ledger l on l.category_id = c.id::text
+group by c.id, c.name, c.initial_capital;
@@ -0,0 +1,186 @@
+-- Customer accounts: a persisted customer master with a credit limit and a running balance.
+--
+-- A credit sale charges the customer's account inside post_sale: the balance goes up by the sale
+-- total and a 'charge' row is written to customer_transactions with that amount outstanding.
+-- receive_customer_payment settles the oldest open charges first, so each charge's outstanding
+-- amount (and its age) drives the aging report. customers.balance always equals the sum of
+-- customer_transactions.amount for the customer.
+
+create table if not exists public.customers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  phone text,
+  email text,
+  tax_id text,
+  address text,
+  credit_limit numeric not null default 0 check (credit_limit >= 0),
+  balance numeric not null default 0,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.customer_transactions (
+  id uuid primary key default gen_random_uuid(),
+  customer_id uuid not null references public.customers (id),
+  kind text not null check (kind in ('charge', 'payment')),
+  amount numeric not null,
+  outstanding numeric not null default 0 check (outstanding >= 0),
+  balance_after numeric not null,
+  sale_id text references public.sales (id),
+  reference text,
+  method text,
+  limit_override boolean not null default false,
+  performed_by text,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists customer_transactions_customer_idx on public.customer_transactions (customer_id, created_at);
+create index if not exists customer_transactions_open_idx on public.customer_transactions (customer_id, created_at) where outstanding > 0;
+
+alter table public.sales add column if not exists customer_id uuid references public.customers (id);
+alter table public.sales add column if not exists credit_limit_override boolean not null default false;
+
+-- post_sale as before; a credit sale against a customer is charged to their account.
+create or replace function public.post_sale(p_sale jsonb, p_entries jsonb, p_stock jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_sale_id text := p_sale->>'id';
+  v_sale public.sales;
+  v_line record;
+  v_item record;
+  v_movement jsonb;
+  v_balance numeric;
+  v_conflicts jsonb := '[]'::jsonb;
+begin
+  -- Serialise concurrent retries of the same sale before checking whether it was already posted.
+  perform pg_advisory_xact_lock(hashtext('post_sale:' || v_sale_id));
+
+  if exists (select 1 from public.sales where id = v_sale_id) then
+    return jsonb_build_object('status', 'duplicate');
+  end if;
+
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    select i.name, i.quantity into v_item
+    from public.inventory i
+    where i.id::text = v_line.inventory_item_id
+    for update;
+
+    if not found or coalesce(v_item.quantity, 0) < v_line.quantity then
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'inventory_item_id', v_line.inventory_item_id,
+        'name', v_item.name,
+        'requested', v_line.quantity,
+        'available', coalesce(v_item.quantity, 0)
+      );
+    end if;
+  end loop;
+
+  if jsonb_array_length(v_conflicts) > 0 then
+    return jsonb_build_object('status', 'conflict', 'conflicts', v_conflicts);
+  end if;
+
+  insert into public.sales
+  select * from jsonb_populate_record(null::public.sales, p_sale)
+  returning * into v_sale;
+
+  insert into public.ledger (category_id, inventory_item_id, quantity, amount, transaction_type, fund_source, description, created_at, sale_id)
+  select e.category_id, e.inventory_item_id, e.quantity, e.amount, e.transaction_type, e.fund_source, e.description, e.created_at, v_sale_id
+  from jsonb_populate_recordset(null::public.ledger, p_entries) as e;
+
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    v_movement := public.record_stock_movement(
+      v_line.inventory_item_id, -v_line.quantity, 'sale',
+      'Receipt ' || coalesce(p_sale->>'receipt_no', v_sale_id), p_sale->>'cashier_name', 'sale', v_sale_id
+    );
+
+    update public.ledger
+    set unit_cost = (v_movement->>'unit_cost')::numeric
+    where sale_id = v_sale_id and inventory_item_id::text = v_line.inventory_item_id;
+  end loop;
+
+  -- The credit limit was checked (or overridden by a manager) at the till; the charge always posts.
+  if v_sale.payment_method = 'Credit' and v_sale.customer_id is not null then
+    update public.customers
+    set balance = balance + v_sale.total
+    where id = v_sale.customer_id
+    returning balance into v_balance;
+
+    insert into public.customer_transactions (customer_id, kind, amount, outstanding, balance_after, sale_id, reference, limit_override, performed_by, created_at)
+    values (v_sale.customer_id, 'charge', v_sale.total, v_sale.total, v_balance, v_sale.id, v_sale.receipt_no, v_sale.credit_limit_override, v_sale.cashier_name, v_sale.created_at);
+  end if;
+
+  return jsonb_build_object('status', 'posted');
+end;
+$$;
+
+create or replace function public.receive_customer_payment(
+  p_customer_id uuid,
+  p_amount numeric,
+  p_method text,
+  p_reference text,
+  p_user text,
+  p_note text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_customer public.customers;
+  v_charge record;
+  v_remaining numeric := p_amount;
+  v_applied numeric;
+  v_payment public.customer_transactions;
+begin
+  select * into v_customer
+  from public.customers
+  where id = p_customer_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+
+  if p_amount > v_customer.balance then
+    return jsonb_build_object('status', 'invalid', 'message',
+      format('Payment of %s exceeds the outstanding balance of %s.', p_amount, v_customer.balance));
+  end if;
+
+  -- Oldest charges are settled first.
+  for v_charge in
+    select id, outstanding
+    from public.customer_transactions
+    where customer_id = p_customer_id and outstanding > 0
+    order by created_at, id
+    for update
+  loop
+    exit when v_remaining <= 0;
+    v_applied := least(v_remaining, v_charge.outstanding);
+    update public.customer_transactions set outstanding = outstanding - v_applied where id = v_charge.id;
+    v_remaining := v_remaining - v_applied;
+  end loop;
+
+  update public.customers
+  set balance = balance - p_amount
+  where id = p_customer_id
+  returning * into v_customer;
+
+  insert into public.customer_transactions (customer_id, kind, amount, outstanding, balance_after, reference, method, performed_by, note)
+  values (p_customer_id, 'payment', -p_amount, 0, v_customer.balance, p_reference, p_method, p_user, p_note)
+  returning * into v_payment;
+
+  return jsonb_build_object('status', 'received', 'transaction', to_jsonb(v_payment));
+end;
+$$;
@@ -0,0 +1,96 @@
+-- Split tender: a sale can be settled with several tenders (cash, card, mobile money, and a part
+-- left on the customer's account). Tenders are kept on sales.payments as [{method, amount,
+-- reference}] and sales.payment_method is 'Split' when more than one method was used. Cash may
+-- exceed the amount due; the excess is sales.change_amount.
+--
+-- Only the 'Credit' tenders of a sale are charged to the customer's account.
+
+-- post_sale as before; the account charge is the sum of the sale's 'Credit' tenders.
+create or replace function public.post_sale(p_sale jsonb, p_entries jsonb, p_stock jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_sale_id text := p_sale->>'id';
+  v_sale public.sales;
+  v_line record;
+  v_item record;
+  v_movement jsonb;
+  v_balance numeric;
+  v_on_account numeric;
+  v_conflicts jsonb := '[]'::jsonb;
+begin
+  -- Serialise concurrent retries of the same sale before checking whether it was already posted.
+  perform pg_advisory_xact_lock(hashtext('post_sale:' || v_sale_id));
+
+  if exists (select 1 from public.sales where id = v_sale_id) then
+    return jsonb_build_object('status', 'duplicate');
+  end if;
+
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    select i.name, i.quantity into v_item
+    from public.inventory i
+    where i.id::text = v_line.inventory_item_id
+    for update;
+
+    if not found or coalesce(v_item.quantity, 0) < v_line.quantity then
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'inventory_item_id', v_line.inventory_item_id,
+        'name', v_item.name,
+        'requested', v_line.quantity,
+        'available', coalesce(v_item.quantity, 0)
+      );
+    end if;
+  end loop;
+
+  if jsonb_array_length(v_conflicts) > 0 then
+    return jsonb_build_object('status', 'conflict', 'conflicts', v_conflicts);
+  end if;
+
+  insert into public.sales
+  select * from jsonb_populate_record(null::public.sales, p_sale)
+  returning * into v_sale;
+
+  insert into public.ledger (category_id, inventory_item_id, quantity, amount, transaction_type, fund_source, description, created_at, sale_id)
+  select e.category_id, e.inventory_item_id, e.quantity, e.amount, e.transaction_type, e.fund_source, e.description, e.created_at, v_sale_id
+  from jsonb_populate_recordset(null::public.ledger, p_entries) as e;
+
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    v_movement := public.record_stock_movement(
+      v_line.inventory_item_id, -v_line.quantity, 'sale',
+      'Receipt ' || coalesce(p_sale->>'receipt_no', v_sale_id), p_sale->>'cashier_name', 'sale', v_sale_id
+    );
+
+    update public.ledger
+    set unit_cost = (v_movement->>'unit_cost')::numeric
+    where sale_id = v_sale_id and inventory_item_id::text = v_line.inventory_item_id;
+  end loop;
+
+  -- The credit limit was checked (or overridden by a manager) at the till; the charge always posts.
+  select coalesce(sum((p->>'amount')::numeric), 0) into v_on_account
+  from jsonb_array_elements(v_sale.payments) as p
+  where p->>'method' = 'Credit';
+
+  if v_on_account > 0 and v_sale.customer_id is not null then
+    update public.customers
+    set balance = balance + v_on_account
+    where id = v_sale.customer_id
+    returning balance into v_balance;
+
+    insert into public.customer_transactions (customer_id, kind, amount, outstanding, balance_after, sale_id, reference, limit_override, performed_by, created_at)
+    values (v_sale.customer_id, 'charge', v_on_account, v_on_account, v_balance, v_sale.id, v_sale.receipt_no, v_sale.credit_limit_override, v_sale.cashier_name, v_sale.created_at);
+  end if;
+
+  return jsonb_build_object('status', 'posted');
+end;
+$$;
@@ -0,0 +1,157 @@
+-- Cash drawer shifts.
+--
+-- A cashier opens a shift on a terminal with a float; sales rung up during it carry its id
+-- (sales.shift_id). Pay-ins, pay-outs and safe drops are journalled in drawer_movements. Closing
+-- freezes the expected and counted amounts per tender on the shift (the API computes them from
+-- the shift's sales and movements) and posts any over/short to the ledger as a Cash-funded
+-- 'expense' row with shift_id set: a shortage is a positive expense, an overage a negative one.
+
+create sequence if not exists public.cash_shift_no_seq;
+
+create table if not exists public.cash_shifts (
+  id uuid primary key default gen_random_uuid(),
+  shift_no text not null unique default 'SHIFT-' || lpad(nextval('public.cash_shift_no_seq')::text, 6, '0'),
+  terminal_id text not null,
+  cashier_name text not null,
+  status text not null default 'open' check (status in ('open', 'closed')),
+  opening_float numeric not null default 0 check (opening_float >= 0),
+  opened_at timestamptz not null default now(),
+  closed_at timestamptz,
+  closed_by text,
+  denominations jsonb,
+  expected jsonb,
+  counted jsonb,
+  over_short numeric,
+  notes text
+);
+
+create unique index if not exists cash_shifts_open_terminal_idx on public.cash_shifts (terminal_id) where status = 'open';
+
+create table if not exists public.drawer_movements (
+  id uuid primary key default gen_random_uuid(),
+  shift_id uuid not null references public.cash_shifts (id),
+  kind text not null check (kind in ('pay_in', 'pay_out', 'safe_drop')),
+  amount numeric not null check (amount > 0),
+  reason text,
+  performed_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists drawer_movements_shift_idx on public.drawer_movements (shift_id, created_at);
+
+alter table public.sales add column if not exists shift_id uuid references public.cash_shifts (id);
+create index if not exists sales_shift_id_idx on public.sales (shift_id);
+
+alter table public.ledger add column if not exists shift_id uuid references public.cash_shifts (id);
+
+create or replace function public.open_cash_shift(p_shift jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_open public.cash_shifts;
+  v_shift public.cash_shifts;
+begin
+  -- Serialise opens on the same terminal so the check below cannot race.
+  perform pg_advisory_xact_lock(hashtext('cash_shift:' || (p_shift->>'terminal_id')));
+
+  select * into v_open
+  from public.cash_shifts
+  where terminal_id = p_shift->>'terminal_id' and status = 'open';
+
+  if found then
+    return jsonb_build_object('status', 'invalid', 'message',
+      format('%s is still open on %s.', v_open.shift_no, v_open.terminal_id));
+  end if;
+
+  insert into public.cash_shifts (terminal_id, cashier_name, opening_float, notes)
+  values (
+    p_shift->>'terminal_id',
+    p_shift->>'cashier_name',
+    coalesce((p_shift->>'opening_float')::numeric, 0),
+    p_shift->>'notes'
+  )
+  returning * into v_shift;
+
+  return jsonb_build_object('status', 'opened', 'shift', to_jsonb(v_shift));
+end;
+$$;
+
+create or replace function public.record_drawer_movement(p_movement jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_shift public.cash_shifts;
+  v_movement public.drawer_movements;
+begin
+  select * into v_shift
+  from public.cash_shifts
+  where id = (p_movement->>'shift_id')::uuid
+  for update;
+
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+
+  if v_shift.status <> 'open' then
+    return jsonb_build_object('status', 'invalid', 'message', format('%s is already closed.', v_shift.shift_no));
+  end if;
+
+  insert into public.drawer_movements (shift_id, kind, amount, reason, performed_by)
+  values (
+    v_shift.id,
+    p_movement->>'kind',
+    (p_movement->>'amount')::numeric,
+    p_movement->>'reason',
+    p_movement->>'performed_by'
+  )
+  returning * into v_movement;
+
+  return jsonb_build_object('status', 'recorded', 'movement', to_jsonb(v_movement));
+end;
+$$;
+
+-- p_close: { closed_by, closed_at, denominations, expected, counted, over_short, notes }.
+-- p_entry: the over/short ledger row, or null when the drawer balanced.
+create or replace function public.close_cash_shift(p_shift_id uuid, p_close jsonb, p_entry jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_shift public.cash_shifts;
+begin
+  select * into v_shift
+  from public.cash_shifts
+  where id = p_shift_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+
+  if v_shift.status <> 'open' then
+    return jsonb_build_object('status', 'invalid', 'message', format('%s is already closed.', v_shift.shift_no));
+  end if;
+
+  update public.cash_shifts
+  set status = 'closed',
+      closed_at = (p_close->>'closed_at')::timestamptz,
+      closed_by = p_close->>'closed_by',
+      denominations = p_close->'denominations',
+      expected = p_close->'expected',
+      counted = p_close->'counted',
+      over_short = (p_close->>'over_short')::numeric,
+      notes = coalesce(p_close->>'notes', notes)
+  where id = p_shift_id
+  returning * into v_shift;
+
+  if p_entry is not null and jsonb_typeof(p_entry) = 'object' then
+    insert into public.ledger (category_id, amount, transaction_type, fund_source, description, created_at, shift_id)
+    select e.category_id, e.amount, e.transaction_type, e.fund_source, e.description, e.created_at, p_shift_id
+    from jsonb_populate_record(null::public.ledger, p_entry) as e;
+  end if;
+
+  return jsonb_build_object('status', 'closed', 'shift', to_jsonb(v_shift));
+end;
+$$;
@@ -0,0 +1,321 @@
+-- Customer returns taken at the till.
+--
+-- A return is made against a persisted sale. Each returned line posts a negative 'sale' row
+-- (adjustment_kind 'return', adjusts_id = the sale row) carrying the cost the units went out at,
+-- so revenue and COGS both come back; the sale's discount expense is given back pro rata the same
+-- way. Restocked units re-enter stock through a 'return' movement at their original cost;
+-- written-off units stay out and their cost is posted as an expense. Refunds are paid to the
+-- sale's tenders, or to the customer's account as store credit (a 'refund' transaction).
+-- Lines with returns can no longer be reversed from the Sales archive.
+
+create sequence if not exists public.sale_return_no_seq;
+
+create table if not exists public.sale_returns (
+  id uuid primary key default gen_random_uuid(),
+  return_no text not null unique default 'RTN-' || lpad(nextval('public.sale_return_no_seq')::text, 6, '0'),
+  sale_id text not null references public.sales (id),
+  receipt_no text not null,
+  terminal_id text not null,
+  shift_id uuid references public.cash_shifts (id),
+  customer_id uuid references public.customers (id),
+  refund_method text not null check (refund_method in ('original', 'store_credit')),
+  refunds jsonb not null default '[]'::jsonb,
+  total numeric not null default 0,
+  reason_code text not null,
+  note text,
+  performed_by text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists sale_returns_sale_id_idx on public.sale_returns (sale_id);
+create index if not exists sale_returns_shift_id_idx on public.sale_returns (shift_id);
+
+create table if not exists public.sale_return_lines (
+  id uuid primary key default gen_random_uuid(),
+  return_id uuid not null references public.sale_returns (id) on delete cascade,
+  inventory_item_id text not null,
+  quantity numeric not null check (quantity > 0),
+  amount numeric not null,
+  unit_cost numeric,
+  disposition text not null check (disposition in ('restock', 'write_off'))
+);
+
+do $$
+declare
+  v_id_type text;
+begin
+  select format_type(a.atttypid, a.atttypmod) into v_id_type
+  from pg_attribute a
+  where a.attrelid = 'public.ledger'::regclass and a.attname = 'id';
+
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'sale_return_lines' and column_name = 'ledger_entry_id'
+  ) then
+    execute format('alter table public.sale_return_lines add column ledger_entry_id %s not null references public.ledger (id)', v_id_type);
+  end if;
+end;
+$$;
+
+create index if not exists sale_return_lines_return_idx on public.sale_return_lines (return_id);
+create index if not exists sale_return_lines_entry_idx on public.sale_return_lines (ledger_entry_id);
+
+alter table public.ledger add column if not exists return_id uuid references public.sale_returns (id);
+create index if not exists ledger_return_id_idx on public.ledger (return_id);
+
+alter table public.ledger
+  drop constraint if exists ledger_adjustment_kind_check,
+  add constraint ledger_adjustment_kind_check check (adjustment_kind is null or adjustment_kind in ('reversal', 'correction', 'return'));
+
+alter table public.inventory_movements
+  drop constraint if exists inventory_movements_movement_type_check,
+  add constraint inventory_movements_movement_type_check check (
+    movement_type in ('opening', 'sale', 'reversal', 'return', 'adjustment', 'receiving', 'stocktake', 'transfer')
+  );
+
+alter table public.customer_transactions
+  drop constraint if exists customer_transactions_kind_check,
+  add constraint customer_transactions_kind_check check (kind in ('charge', 'payment', 'refund'));
+
+-- p_return: the sale_returns row without id / return_no / created_at.
+-- p_lines: sale_return_lines rows without id / return_id.
+-- p_entries: ledger rows; descriptions are prefixed with the return number.
+create or replace function public.post_sale_return(p_return jsonb, p_lines jsonb, p_entries jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_sale public.sales;
+  v_line record;
+  v_entry record;
+  v_label text;
+  v_returnable numeric;
+  v_on_account numeric;
+  v_remaining numeric;
+  v_applied numeric;
+  v_charge record;
+  v_balance numeric;
+  v_return public.sale_returns;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_return->>'sale_id'
+  for update;
+
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+
+  for v_line in
+    select * from jsonb_to_recordset(p_lines)
+      as x(ledger_entry_id text, inventory_item_id text, quantity numeric, disposition text)
+  loop
+    select l.* into v_entry
+    from public.ledger l
+    where l.id::text = v_line.ledger_entry_id
+      and l.sale_id = v_sale.id
+      and l.transaction_type = 'sale'
+      and l.adjusts_id is null
+    for update;
+
+    if not found then
+      return jsonb_build_object('status', 'invalid', 'message',
+        format('Ledger entry %s is not a line of receipt %s.', v_line.ledger_entry_id, v_sale.receipt_no));
+    end if;
+
+    v_label := coalesce(v_entry.description, 'The line');
+
+    if exists (select 1 from public.ledger r where r.adjusts_id = v_entry.id and r.adjustment_kind = 'reversal') then
+      return jsonb_build_object('status', 'invalid', 'message', format('%s has been reversed and cannot be returned.', v_label));
+    end if;
+
+    select coalesce(v_entry.quantity, 0) - coalesce(sum(rl.quantity), 0) into v_returnable
+    from public.sale_return_lines rl
+    where rl.ledger_entry_id = v_entry.id;
+
+    if v_line.quantity > v_returnable then
+      return jsonb_build_object('status', 'invalid', 'message',
+        format('Only %s unit(s) of %s can still be returned.', v_returnable, v_label));
+    end if;
+
+    if v_line.disposition = 'restock' and not exists (select 1 from public.inventory i where i.id::text = v_line.inventory_item_id) then
+      return jsonb_build_object('status', 'invalid', 'message', format('%s is no longer in inventory and can only be written off.', v_label));
+    end if;
+  end loop;
+
+  select coalesce(sum((p->>'amount')::numeric), 0) into v_on_account
+  from jsonb_array_elements(coalesce(p_return->'refunds', '[]'::jsonb)) p
+  where p->>'method' = 'Credit';
+
+  if v_on_account > 0 and not exists (select 1 from public.customers c where c.id::text = p_return->>'customer_id') then
+    return jsonb_build_object('status', 'invalid', 'message', 'A refund to a customer account needs an existing customer.');
+  end if;
+
+  insert into public.sale_returns (
+    sale_id, receipt_no, terminal_id, shift_id, customer_id, refund_method, refunds, total, reason_code, note, performed_by
+  ) values (
+    v_sale.id,
+    p_return->>'receipt_no',
+    p_return->>'terminal_id',
+    (p_return->>'shift_id')::uuid,
+    (p_return->>'customer_id')::uuid,
+    p_return->>'refund_method',
+    coalesce(p_return->'refunds', '[]'::jsonb),
+    coalesce((p_return->>'total')::numeric, 0),
+    p_return->>'reason_code',
+    p_return->>'note',
+    p_return->>'performed_by'
+  )
+  returning * into v_return;
+
+  insert into public.sale_return_lines (return_id, ledger_entry_id, inventory_item_id, quantity, amount, unit_cost, disposition)
+  select v_return.id, l.ledger_entry_id, l.inventory_item_id, l.quantity, l.amount, l.unit_cost, l.disposition
+  from jsonb_populate_recordset(null::public.sale_return_lines, p_lines) as l;
+
+  -- Restocked units come back at the cost they went out at; written-off units never re-enter stock.
+  for v_line in
+    select * from jsonb_to_recordset(p_lines)
+      as x(inventory_item_id text, quantity numeric, unit_cost numeric, disposition text)
+    where x.disposition = 'restock'
+  loop
+    perform public.record_stock_movement(
+      v_line.inventory_item_id, v_line.quantity, 'return',
+      v_return.return_no || ' / receipt ' || v_sale.receipt_no, v_return.performed_by, 'return', v_return.id::text,
+      v_line.unit_cost
+    );
+  end loop;
+
+  insert into public.ledger (
+    category_id, inventory_item_id, quantity, amount, unit_cost, transaction_type, fund_source,
+    description, created_at, sale_id, adjusts_id, adjustment_kind, reason_code, adjusted_by, return_id
+  )
+  select
+    e.category_id, e.inventory_item_id, e.quantity, e.amount, e.unit_cost, e.transaction_type, e.fund_source,
+    'Return ' || v_return.return_no || coalesce(': ' || e.description, ''),
+    v_return.created_at, v_sale.id, e.adjusts_id, e.adjustment_kind, e.reason_code, e.adjusted_by, v_return.id
+  from jsonb_populate_recordset(null::public.ledger, p_entries) as e;
+
+  -- Refunds to the account settle this sale's charge first, then the oldest; any excess is store credit.
+  if v_on_account > 0 then
+    v_remaining := v_on_account;
+    for v_charge in
+      select id, outstanding
+      from public.customer_transactions
+      where customer_id = v_return.customer_id and outstanding > 0
+      order by (sale_id is not distinct from v_sale.id) desc, created_at, id
+      for update
+    loop
+      exit when v_remaining <= 0;
+      v_applied := least(v_remaining, v_charge.outstanding);
+      update public.customer_transactions set outstanding = outstanding - v_applied where id = v_charge.id;
+      v_remaining := v_remaining - v_applied;
+    end loop;
+
+    update public.customers
+    set balance = balance - v_on_account
+    where id = v_return.customer_id
+    returning balance into v_balance;
+
+    insert into public.customer_transactions (customer_id, kind, amount, outstanding, balance_after, sale_id, reference, method, performed_by, note, created_at)
+    values (
+      v_return.customer_id, 'refund', -v_on_account, 0, v_balance, v_sale.id, v_return.return_no,
+      case when v_return.refund_method = 'store_credit' then 'Store Credit' else 'Credit' end,
+      v_return.performed_by, v_return.note, v_return.created_at
+    );
+  end if;
+
+  return jsonb_build_object('status', 'returned', 'sale_return', to_jsonb(v_return) || jsonb_build_object(
+    'lines', (select coalesce(jsonb_agg(to_jsonb(rl)), '[]'::jsonb) from public.sale_return_lines rl where rl.return_id = v_return.id)
+  ));
+end;
+$$;
+
+-- reverse_ledger_entries as before, except that lines with customer returns are refused: the
+-- reversal would negate units and amounts that have already been given back.
+create or replace function public.reverse_ledger_entries(
+  p_entry_ids jsonb,
+  p_sale_id text,
+  p_reason_code text,
+  p_note text,
+  p_user text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_entry record;
+  v_net numeric;
+  v_reversal_id text;
+  v_count integer := 0;
+begin
+  for v_entry in
+    select l.*
+    from public.ledger l
+    where (
+      l.id::text in (select jsonb_array_elements_text(coalesce(p_entry_ids, '[]'::jsonb)))
+      or (p_sale_id is not null and l.sale_id = p_sale_id)
+    )
+    order by l.id
+    for update
+  loop
+    if v_entry.adjusts_id is not null then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        continue;
+      end if;
+      return jsonb_build_object('status', 'invalid', 'message', 'Adjustment entries cannot themselves be reversed.');
+    end if;
+
+    if exists (select 1 from public.ledger r where r.adjusts_id = v_entry.id and r.adjustment_kind = 'reversal') then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        continue;
+      end if;
+      return jsonb_build_object('status', 'already_reversed', 'entry_id', v_entry.id);
+    end if;
+
+    if exists (select 1 from public.ledger r where r.adjusts_id = v_entry.id and r.adjustment_kind = 'return') then
+      return jsonb_build_object('status', 'invalid', 'message',
+        'Lines with customer returns cannot be reversed; take any further returns at the till.');
+    end if;
+
+    select v_entry.amount + coalesce(sum(c.amount), 0) into v_net
+    from public.ledger c
+    where c.adjusts_id = v_entry.id and c.adjustment_kind = 'correction';
+
+    insert into public.ledger (
+      category_id, inventory_item_id, quantity, amount, unit_cost, transaction_type, fund_source,
+      description, created_at, sale_id, adjusts_id, adjustment_kind, reason_code, adjusted_by
+    ) values (
+      v_entry.category_id,
+      v_entry.inventory_item_id,
+      case when v_entry.quantity is null then null else -v_entry.quantity end,
+      -v_net,
+      v_entry.unit_cost,
+      v_entry.transaction_type,
+      v_entry.fund_source,
+      'Reversal: ' || coalesce(v_entry.description, v_entry.transaction_type) || coalesce(' - ' || nullif(p_note, ''), ''),
+      now(),
+      v_entry.sale_id,
+      v_entry.id,
+      'reversal',
+      p_reason_code,
+      p_user
+    )
+    returning id::text into v_reversal_id;
+
+    if v_entry.transaction_type = 'sale' and v_entry.inventory_item_id is not null and coalesce(v_entry.quantity, 0) > 0 then
+      perform public.record_stock_movement(
+        v_entry.inventory_item_id::text, v_entry.quantity, 'reversal',
+        p_reason_code || coalesce(' - ' || nullif(p_note, ''), ''), p_user, 'ledger', v_reversal_id,
+        v_entry.unit_cost
+      );
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  if v_count = 0 then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  return jsonb_build_object('status', 'reversed', 'count', v_count);
+end;
+$$;
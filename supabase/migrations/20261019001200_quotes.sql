@@ -0,0 +1,83 @@
+-- Quotations and pro-forma invoices.
+--
+-- A quote is a priced POS cart issued to a customer until valid_until. It does not reserve stock
+-- or touch the ledger; converting one loads it back into a cart, which posts as an ordinary sale.
+-- Lines keep the list price at issue next to the quoted price so price changes can be reported.
+
+create sequence if not exists public.quote_no_seq;
+
+create table if not exists public.quotes (
+  id uuid primary key default gen_random_uuid(),
+  quote_no text not null unique default 'QT-' || lpad(nextval('public.quote_no_seq')::text, 6, '0'),
+  kind text not null default 'quotation' check (kind in ('quotation', 'proforma')),
+  status text not null default 'open' check (status in ('open', 'converted', 'cancelled')),
+  customer_id uuid references public.customers (id),
+  customer_name text not null,
+  valid_until date not null,
+  subtotal numeric not null default 0,
+  tax_rate numeric not null default 0,
+  tax_amount numeric not null default 0,
+  discount numeric not null default 0,
+  total numeric not null default 0,
+  notes text,
+  terminal_id text,
+  created_by text not null,
+  created_at timestamptz not null default now(),
+  closed_by text,
+  closed_at timestamptz
+);
+
+create index if not exists quotes_created_at_idx on public.quotes (created_at desc);
+
+create table if not exists public.quote_lines (
+  id uuid primary key default gen_random_uuid(),
+  quote_id uuid not null references public.quotes (id) on delete cascade,
+  inventory_item_id text not null,
+  description text not null,
+  quantity numeric not null check (quantity > 0),
+  list_price numeric not null default 0,
+  unit_price numeric not null default 0 check (unit_price >= 0),
+  line_total numeric not null default 0
+);
+
+create index if not exists quote_lines_quote_idx on public.quote_lines (quote_id);
+
+-- p_quote: quotes columns; p_lines: [{ inventory_item_id, description, quantity, list_price, unit_price, line_total }].
+create or replace function public.create_quote(p_quote jsonb, p_lines jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_quote public.quotes;
+begin
+  insert into public.quotes (
+    kind, customer_id, customer_name, valid_until, subtotal, tax_rate, tax_amount, discount, total,
+    notes, terminal_id, created_by
+  )
+  values (
+    coalesce(p_quote->>'kind', 'quotation'),
+    nullif(p_quote->>'customer_id', '')::uuid,
+    p_quote->>'customer_name',
+    (p_quote->>'valid_until')::date,
+    coalesce((p_quote->>'subtotal')::numeric, 0),
+    coalesce((p_quote->>'tax_rate')::numeric, 0),
+    coalesce((p_quote->>'tax_amount')::numeric, 0),
+    coalesce((p_quote->>'discount')::numeric, 0),
+    coalesce((p_quote->>'total')::numeric, 0),
+    p_quote->>'notes',
+    p_quote->>'terminal_id',
+    p_quote->>'created_by'
+  )
+  returning * into v_quote;
+
+  insert into public.quote_lines (quote_id, inventory_item_id, description, quantity, list_price, unit_price, line_total)
+  select v_quote.id, l.inventory_item_id, l.description, l.quantity, coalesce(l.list_price, 0), coalesce(l.unit_price, 0), coalesce(l.line_total, 0)
+  from jsonb_to_recordset(p_lines) as l(inventory_item_id text, description text, quantity numeric, list_price numeric, unit_price numeric, line_total numeric);
+
+  return to_jsonb(v_quote) || jsonb_build_object('lines', (
+    select coalesce(jsonb_agg(to_jsonb(ql)), '[]'::jsonb)
+    from public.quote_lines ql
+    where ql.quote_id = v_quote.id
+  ));
+end;
+$$;
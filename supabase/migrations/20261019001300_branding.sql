@@ -0,0 +1,22 @@
+-- One business profile (name, logo, contact and tax numbers, footer, colours) shared by the
+-- on-screen and thermal receipts and every generated PDF. Null columns fall back to the app's
+-- defaults, so the row can be seeded empty.
+
+create table if not exists public.branding_settings (
+  id boolean primary key default true check (id),
+  business_name text,
+  logo text,          -- data: URL shown on screen and in PDFs
+  logo_raster jsonb,  -- { width, height, data } 1-bit thermal raster, data base64
+  address text,
+  phone text,
+  email text,
+  tin text,
+  vrn text,
+  receipt_footer text,
+  accent_color text check (accent_color ~ '^#[0-9a-fA-F]{6}$'),
+  pdf_scheme text check (pdf_scheme in ('dark', 'light')),
+  updated_at timestamptz not null default now(),
+  updated_by text
+);
+
+insert into public.branding_settings (id) values (true) on conflict (id) do nothing;
@@ -0,0 +1,73 @@
+-- Vehicle fitment catalogue for parts search.
+--
+-- vehicle_fitments says which make/model/years/engine an inventory item fits; a null year bound
+-- is open-ended and a null engine fits every engine. part_cross_references lists the OEM and
+-- aftermarket numbers an item is sold under; items sharing a number are interchangeable.
+
+create table if not exists public.vehicle_fitments (
+  id uuid primary key default gen_random_uuid(),
+  inventory_item_id text not null,
+  make text not null,
+  model text not null,
+  year_from integer,
+  year_to integer,
+  engine text,
+  notes text,
+  created_at timestamptz not null default now(),
+  check (year_from is null or year_to is null or year_from <= year_to)
+);
+
+create index if not exists vehicle_fitments_item_idx on public.vehicle_fitments (inventory_item_id);
+create index if not exists vehicle_fitments_vehicle_idx on public.vehicle_fitments (lower(make), lower(model));
+
+create table if not exists public.part_cross_references (
+  id uuid primary key default gen_random_uuid(),
+  inventory_item_id text not null,
+  part_number text not null,
+  kind text not null check (kind in ('oem', 'aftermarket')),
+  brand text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists part_cross_references_item_idx on public.part_cross_references (inventory_item_id);
+create index if not exists part_cross_references_number_idx
+  on public.part_cross_references (upper(regexp_replace(part_number, '[^A-Za-z0-9]', '', 'g')));
+
+-- Replaces everything recorded for one item in a single transaction.
+-- p_fitments: [{ make, model, year_from, year_to, engine, notes }]; p_cross_references: [{ part_number, kind, brand }].
+create or replace function public.replace_item_fitment(p_item_id text, p_fitments jsonb, p_cross_references jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  delete from public.vehicle_fitments where inventory_item_id = p_item_id;
+  delete from public.part_cross_references where inventory_item_id = p_item_id;
+
+  insert into public.vehicle_fitments (inventory_item_id, make, model, year_from, year_to, engine, notes)
+  select p_item_id, f.make, f.model, f.year_from, f.year_to, f.engine, f.notes
+  from jsonb_to_recordset(coalesce(p_fitments, '[]'::jsonb))
+    as f(make text, model text, year_from integer, year_to integer, engine text, notes text);
+
+  insert into public.part_cross_references (inventory_item_id, part_number, kind, brand)
+  select p_item_id, r.part_number, r.kind, r.brand
+  from jsonb_to_recordset(coalesce(p_cross_references, '[]'::jsonb))
+    as r(part_number text, kind text, brand text);
+end;
+$$;
+
+-- Fitment rows go when their item is deleted.
+create or replace function public.delete_item_fitment()
+returns trigger
+language plpgsql
+as $$
+begin
+  delete from public.vehicle_fitments where inventory_item_id = old.id::text;
+  delete from public.part_cross_references where inventory_item_id = old.id::text;
+  return old;
+end;
+$$;
+
+drop trigger if exists inventory_delete_fitment on public.inventory;
+create trigger inventory_delete_fitment
+  after delete on public.inventory
+  for each row execute function public.delete_item_fitment();
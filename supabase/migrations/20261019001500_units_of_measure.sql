@@ -0,0 +1,9 @@
+-- Units of measure.
+--
+-- inventory.quantity, cost_price and selling_price stay in the item's base unit (a bottle, a
+-- litre). units lists the packs it is also bought or sold in:
+-- [{ name, factor, selling_price, purchase, sale }], factor being base units per pack. Sales post
+-- base-unit quantities, so stock, costing and returns need no change.
+
+alter table public.inventory add column if not exists base_unit text;
+alter table public.inventory add column if not exists units jsonb;
@@ -0,0 +1,144 @@
+-- Serial numbers and warranty claims.
+--
+-- Items flagged serialised carry one serial_numbers row per unit: registered 'in_stock' when a
+-- GRN receives it and marked 'sold' by the sale that takes it, with the warranty expiry worked out
+-- from the item's warranty_months. Units sold from stock that pre-dates tracking are registered
+-- at the sale. Rows are kept when the item is deleted so warranty history survives.
+-- warranty_claims follow a customer's claim on a sold unit through the supplier's RMA.
+
+alter table public.inventory add column if not exists serialised boolean not null default false;
+alter table public.inventory add column if not exists warranty_months integer check (warranty_months is null or warranty_months >= 0);
+
+create table if not exists public.serial_numbers (
+  id uuid primary key default gen_random_uuid(),
+  inventory_item_id text not null,
+  serial_no text not null,
+  status text not null check (status in ('in_stock', 'sold')),
+  grn_id uuid references public.goods_received_notes (id),
+  received_at timestamptz,
+  sale_id text references public.sales (id),
+  receipt_no text,
+  customer_name text,
+  sold_at timestamptz,
+  warranty_expires_at timestamptz,
+  unique (inventory_item_id, serial_no)
+);
+
+create index if not exists serial_numbers_serial_idx on public.serial_numbers (serial_no);
+create index if not exists serial_numbers_sale_idx on public.serial_numbers (sale_id);
+
+create sequence if not exists public.warranty_claim_no_seq;
+
+create table if not exists public.warranty_claims (
+  id uuid primary key default gen_random_uuid(),
+  claim_no text not null unique default 'WC-' || lpad(nextval('public.warranty_claim_no_seq')::text, 6, '0'),
+  serial_id uuid not null references public.serial_numbers (id),
+  inventory_item_id text not null,
+  serial_no text not null,
+  sale_id text references public.sales (id),
+  customer_name text,
+  fault text not null,
+  status text not null default 'open' check (status in ('open', 'with_supplier', 'resolved')),
+  supplier_id uuid references public.suppliers (id),
+  rma_no text,
+  outcome text check (outcome is null or outcome in ('repaired', 'replaced', 'credited', 'rejected')),
+  outcome_note text,
+  reported_by text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  resolved_at timestamptz
+);
+
+create index if not exists warranty_claims_serial_idx on public.warranty_claims (serial_id);
+
+-- post_sale, then the serials on p_stock ([{ inventory_item_id, quantity, serials }]) are marked
+-- sold in the same transaction. A serial another sale already took refuses the whole sale.
+create or replace function public.post_sale_with_serials(p_sale jsonb, p_entries jsonb, p_stock jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_serial text;
+  v_result jsonb;
+begin
+  select x.serial into v_serial
+  from jsonb_to_recordset(p_stock) as l(inventory_item_id text, serials jsonb)
+  cross join lateral jsonb_array_elements_text(coalesce(l.serials, '[]'::jsonb)) as x(serial)
+  join public.serial_numbers n on n.inventory_item_id = l.inventory_item_id and n.serial_no = x.serial
+  where n.status = 'sold' and n.sale_id is distinct from p_sale->>'id'
+  limit 1;
+
+  if found then
+    return jsonb_build_object('status', 'invalid', 'message', format('Serial %s has already been sold.', v_serial));
+  end if;
+
+  v_result := public.post_sale(p_sale, p_entries, p_stock);
+  if v_result->>'status' <> 'posted' then
+    return v_result;
+  end if;
+
+  insert into public.serial_numbers (
+    inventory_item_id, serial_no, status, sale_id, receipt_no, customer_name, sold_at, warranty_expires_at
+  )
+  select
+    l.inventory_item_id, x.serial, 'sold', p_sale->>'id', p_sale->>'receipt_no', nullif(p_sale->>'customer_name', ''),
+    (p_sale->>'created_at')::timestamptz,
+    (p_sale->>'created_at')::timestamptz + make_interval(months => nullif(i.warranty_months, 0))
+  from jsonb_to_recordset(p_stock) as l(inventory_item_id text, serials jsonb)
+  cross join lateral jsonb_array_elements_text(coalesce(l.serials, '[]'::jsonb)) as x(serial)
+  left join public.inventory i on i.id::text = l.inventory_item_id
+  on conflict (inventory_item_id, serial_no) do update set
+    status = 'sold',
+    sale_id = excluded.sale_id,
+    receipt_no = excluded.receipt_no,
+    customer_name = excluded.customer_name,
+    sold_at = excluded.sold_at,
+    warranty_expires_at = excluded.warranty_expires_at;
+
+  return v_result;
+end;
+$$;
+
+-- receive_goods, then the serials on p_lines are registered in stock against the new GRN. A unit
+-- that went out before (a supplier replacement) comes back under its old row.
+create or replace function public.receive_goods_with_serials(p_grn jsonb, p_lines jsonb, p_entries jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_serial text;
+  v_result jsonb;
+begin
+  select x.serial into v_serial
+  from jsonb_to_recordset(p_lines) as l(inventory_item_id text, serials jsonb)
+  cross join lateral jsonb_array_elements_text(coalesce(l.serials, '[]'::jsonb)) as x(serial)
+  join public.serial_numbers n on n.inventory_item_id = l.inventory_item_id and n.serial_no = x.serial
+  where n.status = 'in_stock'
+  limit 1;
+
+  if found then
+    return jsonb_build_object('status', 'invalid', 'message', format('Serial %s is already in stock.', v_serial));
+  end if;
+
+  v_result := public.receive_goods(p_grn, p_lines, p_entries);
+  if v_result->>'status' <> 'received' then
+    return v_result;
+  end if;
+
+  insert into public.serial_numbers (inventory_item_id, serial_no, status, grn_id, received_at)
+  select l.inventory_item_id, x.serial, 'in_stock', (v_result->'grn'->>'id')::uuid, (p_grn->>'received_at')::timestamptz
+  from jsonb_to_recordset(p_lines) as l(inventory_item_id text, serials jsonb)
+  cross join lateral jsonb_array_elements_text(coalesce(l.serials, '[]'::jsonb)) as x(serial)
+  on conflict (inventory_item_id, serial_no) do update set
+    status = 'in_stock',
+    grn_id = excluded.grn_id,
+    received_at = excluded.received_at,
+    sale_id = null,
+    receipt_no = null,
+    customer_name = null,
+    sold_at = null,
+    warranty_expires_at = null;
+
+  return v_result;
+end;
+$$;
@@ -0,0 +1,197 @@
+-- Batch and expiry tracking.
+--
+-- Items flagged batch_tracked are received in lots (stock_batches) carrying the expiry printed on
+-- the pack. Sales take from the lot that expires first; selling from an expired lot needs a
+-- manager, recorded on the sale as expiry_override. An expired lot is quarantined: what is left of
+-- it leaves stock and its cost is expensed to the item's category. Units beyond the lots on record
+-- are stock that pre-dates batch tracking.
+
+alter table public.inventory add column if not exists batch_tracked boolean not null default false;
+alter table public.sales add column if not exists expiry_override boolean not null default false;
+
+create table if not exists public.stock_batches (
+  id uuid primary key default gen_random_uuid(),
+  inventory_item_id text not null,
+  batch_no text not null,
+  expiry_date date not null,
+  quantity_received numeric not null,
+  quantity_remaining numeric not null check (quantity_remaining >= 0),
+  status text not null default 'available' check (status in ('available', 'quarantined')),
+  grn_id uuid references public.goods_received_notes (id),
+  received_at timestamptz not null default now(),
+  quarantined_at timestamptz,
+  quarantined_by text,
+  quarantine_reason text,
+  write_off_amount numeric,
+  unique (inventory_item_id, batch_no)
+);
+
+create index if not exists stock_batches_expiry_idx on public.stock_batches (expiry_date);
+
+-- post_sale_with_serials, then the lots that expire first are drawn down for each item on
+-- p_stock. An expired lot in the way refuses the sale unless p_sale carries expiry_override.
+create or replace function public.post_sale_with_batches(p_sale jsonb, p_entries jsonb, p_stock jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_line record;
+  v_batch record;
+  v_remaining numeric;
+  v_take numeric;
+  v_sale_day date := (p_sale->>'created_at')::timestamptz::date;
+  v_override boolean := coalesce((p_sale->>'expiry_override')::boolean, false);
+  v_result jsonb;
+begin
+  if not v_override then
+    for v_line in
+      select s.inventory_item_id, sum(s.quantity) as quantity
+      from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+      group by s.inventory_item_id
+    loop
+      v_remaining := v_line.quantity;
+      for v_batch in
+        select b.batch_no, b.expiry_date, b.quantity_remaining, i.name
+        from public.stock_batches b
+        left join public.inventory i on i.id::text = b.inventory_item_id
+        where b.inventory_item_id = v_line.inventory_item_id and b.status = 'available' and b.quantity_remaining > 0
+        order by b.expiry_date, b.received_at
+      loop
+        exit when v_remaining <= 0;
+        if v_batch.expiry_date < v_sale_day then
+          return jsonb_build_object('status', 'invalid', 'message', format(
+            'Batch %s of %s expired on %s; a manager must approve selling it.', v_batch.batch_no, v_batch.name, v_batch.expiry_date
+          ));
+        end if;
+        v_remaining := v_remaining - least(v_remaining, v_batch.quantity_remaining);
+      end loop;
+    end loop;
+  end if;
+
+  v_result := public.post_sale_with_serials(p_sale, p_entries, p_stock);
+  if v_result->>'status' <> 'posted' then
+    return v_result;
+  end if;
+
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    v_remaining := v_line.quantity;
+    for v_batch in
+      select b.id, b.quantity_remaining
+      from public.stock_batches b
+      where b.inventory_item_id = v_line.inventory_item_id and b.status = 'available' and b.quantity_remaining > 0
+      order by b.expiry_date, b.received_at
+      for update
+    loop
+      exit when v_remaining <= 0;
+      v_take := least(v_remaining, v_batch.quantity_remaining);
+      update public.stock_batches set quantity_remaining = quantity_remaining - v_take where id = v_batch.id;
+      v_remaining := v_remaining - v_take;
+    end loop;
+  end loop;
+
+  return v_result;
+end;
+$$;
+
+-- receive_goods_with_serials, then each line's batch_no / expiry_date is added to its lot. A lot
+-- keeps the expiry it was first received with, and a quarantined lot takes no more stock.
+create or replace function public.receive_goods_with_batches(p_grn jsonb, p_lines jsonb, p_entries jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_batch record;
+  v_result jsonb;
+begin
+  select b.batch_no, b.status, b.expiry_date, l.expiry_date as received_expiry into v_batch
+  from jsonb_to_recordset(p_lines) as l(inventory_item_id text, batch_no text, expiry_date date)
+  join public.stock_batches b on b.inventory_item_id = l.inventory_item_id and b.batch_no = l.batch_no
+  where b.status = 'quarantined' or b.expiry_date <> l.expiry_date
+  limit 1;
+
+  if found then
+    return jsonb_build_object('status', 'invalid', 'message', case
+      when v_batch.status = 'quarantined' then format('Batch %s is quarantined.', v_batch.batch_no)
+      else format('Batch %s is recorded with expiry %s.', v_batch.batch_no, v_batch.expiry_date)
+    end);
+  end if;
+
+  v_result := public.receive_goods_with_serials(p_grn, p_lines, p_entries);
+  if v_result->>'status' <> 'received' then
+    return v_result;
+  end if;
+
+  insert into public.stock_batches (inventory_item_id, batch_no, expiry_date, quantity_received, quantity_remaining, grn_id, received_at)
+  select l.inventory_item_id, l.batch_no, l.expiry_date, sum(l.quantity), sum(l.quantity),
+    (v_result->'grn'->>'id')::uuid, (p_grn->>'received_at')::timestamptz
+  from jsonb_to_recordset(p_lines) as l(inventory_item_id text, quantity numeric, batch_no text, expiry_date date)
+  where l.batch_no is not null
+  group by l.inventory_item_id, l.batch_no, l.expiry_date
+  on conflict (inventory_item_id, batch_no) do update set
+    quantity_received = public.stock_batches.quantity_received + excluded.quantity_received,
+    quantity_remaining = public.stock_batches.quantity_remaining + excluded.quantity_remaining;
+
+  return v_result;
+end;
+$$;
+
+-- Takes what is left of an available lot out of stock and expenses its cost, at the unit cost
+-- the movement went out at, to the item's category. Only what is still on hand can be taken.
+create or replace function public.quarantine_batch(p_batch_id uuid, p_reason text, p_user text)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_batch public.stock_batches;
+  v_item record;
+  v_take numeric;
+  v_movement jsonb;
+  v_write_off numeric := 0;
+begin
+  select * into v_batch from public.stock_batches where id = p_batch_id for update;
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  if v_batch.status <> 'available' then
+    return jsonb_build_object('status', 'invalid', 'message', format('Batch %s is already %s.', v_batch.batch_no, v_batch.status));
+  end if;
+
+  select i.name, coalesce(i.quantity, 0) as quantity, i.category_id into v_item
+  from public.inventory i
+  where i.id::text = v_batch.inventory_item_id;
+
+  v_take := least(v_batch.quantity_remaining, greatest(coalesce(v_item.quantity, 0), 0));
+  if v_take > 0 then
+    v_movement := public.record_stock_movement(
+      v_batch.inventory_item_id, -v_take, 'adjustment',
+      format('Batch %s quarantined: %s', v_batch.batch_no, p_reason), p_user, 'batch', v_batch.id::text
+    );
+    v_write_off := round(coalesce((v_movement->>'unit_cost')::numeric, 0) * v_take, 2);
+  end if;
+
+  if v_write_off > 0 then
+    insert into public.ledger (category_id, amount, transaction_type, fund_source, description, created_at)
+    values (
+      v_item.category_id, v_write_off, 'expense', 'PROFIT',
+      format('Write-off: %s batch %s (x%s) - %s', v_item.name, v_batch.batch_no, v_take, p_reason), now()
+    );
+  end if;
+
+  update public.stock_batches
+  set status = 'quarantined',
+      quantity_remaining = 0,
+      quarantined_at = now(),
+      quarantined_by = p_user,
+      quarantine_reason = p_reason,
+      write_off_amount = v_write_off
+  where id = v_batch.id
+  returning * into v_batch;
+
+  return jsonb_build_object('status', 'quarantined', 'batch', to_jsonb(v_batch));
+end;
+$$;
@@ -0,0 +1,352 @@
+-- Stock locations and inter-branch transfers.
+--
+-- inventory.quantity stays the item's on-hand total; location_stock splits it by location. Every
+-- movement lands at a location: the one set for the transaction in retailos.stock_location, else
+-- (for a sale reversal) the location the sale left from, else the default location. Stock from
+-- before locations starts at the default location. A transfer takes stock out of its source when
+-- dispatched and puts it into its destination when received; in between it is in transit and
+-- counts at neither.
+
+create table if not exists public.stock_locations (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique,
+  name text not null,
+  kind text not null default 'shop' check (kind in ('shop', 'warehouse')),
+  is_default boolean not null default false,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists stock_locations_default_idx on public.stock_locations (is_default) where is_default;
+
+insert into public.stock_locations (code, name, kind, is_default)
+select 'MAIN', 'Main Shop', 'shop', true
+where not exists (select 1 from public.stock_locations where is_default);
+
+create or replace function public.default_stock_location()
+returns uuid
+language sql
+stable
+as $$
+  select id from public.stock_locations where is_default;
+$$;
+
+create table if not exists public.location_stock (
+  location_id uuid not null references public.stock_locations (id),
+  inventory_item_id text not null,
+  quantity numeric not null default 0,
+  primary key (location_id, inventory_item_id)
+);
+
+insert into public.location_stock (location_id, inventory_item_id, quantity)
+select public.default_stock_location(), i.id::text, i.quantity
+from public.inventory i
+where coalesce(i.quantity, 0) <> 0
+on conflict (location_id, inventory_item_id) do nothing;
+
+create table if not exists public.terminal_locations (
+  terminal_id text primary key,
+  location_id uuid not null references public.stock_locations (id),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.inventory_movements add column if not exists location_id uuid references public.stock_locations (id);
+alter table public.sales add column if not exists location_id uuid references public.stock_locations (id);
+alter table public.goods_received_notes add column if not exists location_id uuid references public.stock_locations (id);
+alter table public.sale_returns add column if not exists location_id uuid references public.stock_locations (id);
+
+create table if not exists public.stock_transfers (
+  id uuid primary key default gen_random_uuid(),
+  transfer_no text not null unique,
+  from_location_id uuid not null references public.stock_locations (id),
+  to_location_id uuid not null references public.stock_locations (id),
+  status text not null default 'in_transit' check (status in ('in_transit', 'received')),
+  notes text,
+  dispatched_by text not null,
+  dispatched_at timestamptz not null default now(),
+  received_by text,
+  received_at timestamptz
+);
+
+create table if not exists public.stock_transfer_lines (
+  id uuid primary key default gen_random_uuid(),
+  transfer_id uuid not null references public.stock_transfers (id),
+  inventory_item_id text not null,
+  quantity numeric not null check (quantity > 0),
+  unit_cost numeric not null
+);
+
+create index if not exists stock_transfer_lines_transfer_idx on public.stock_transfer_lines (transfer_id);
+
+create or replace function public.apply_movement_location()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.location_id is null then
+    new.location_id := coalesce(
+      nullif(current_setting('retailos.stock_location', true), '')::uuid,
+      case when new.source_type = 'ledger' then (
+        select s.location_id from public.ledger l join public.sales s on s.id::text = l.sale_id::text where l.id::text = new.source_id
+      ) end,
+      public.default_stock_location()
+    );
+  end if;
+
+  insert into public.location_stock (location_id, inventory_item_id, quantity)
+  values (new.location_id, new.inventory_item_id, new.quantity_delta)
+  on conflict (location_id, inventory_item_id) do update set quantity = public.location_stock.quantity + excluded.quantity;
+  return new;
+end;
+$$;
+
+drop trigger if exists inventory_movements_location on public.inventory_movements;
+create trigger inventory_movements_location
+before insert on public.inventory_movements
+for each row execute function public.apply_movement_location();
+
+-- Sets an item's on-hand quantity at a location (the default location when p_location_id is null).
+create or replace function public.adjust_stock_at_location(
+  p_item_id text,
+  p_location_id uuid,
+  p_quantity numeric,
+  p_movement_type text,
+  p_reason text,
+  p_user text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_location uuid := coalesce(p_location_id, public.default_stock_location());
+  v_before numeric;
+  v_movement jsonb;
+begin
+  perform 1 from public.inventory i where i.id::text = p_item_id for update;
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+
+  select coalesce(sum(s.quantity), 0) into v_before
+  from public.location_stock s
+  where s.location_id = v_location and s.inventory_item_id = p_item_id;
+  if v_before = p_quantity then
+    return jsonb_build_object('status', 'unchanged');
+  end if;
+
+  perform set_config('retailos.stock_location', v_location::text, true);
+  v_movement := public.record_stock_movement(p_item_id, p_quantity - v_before, p_movement_type, p_reason, p_user, 'inventory', p_item_id);
+  perform set_config('retailos.stock_location', '', true);
+  return jsonb_build_object('status', 'adjusted', 'movement', v_movement);
+end;
+$$;
+
+-- post_sale_with_batches, with stock checked and taken at p_sale's location_id.
+create or replace function public.post_sale_at_location(p_sale jsonb, p_entries jsonb, p_stock jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_location uuid := coalesce(nullif(p_sale->>'location_id', '')::uuid, public.default_stock_location());
+  v_line record;
+  v_available numeric;
+  v_conflicts jsonb := '[]'::jsonb;
+  v_result jsonb;
+begin
+  perform pg_advisory_xact_lock(hashtext('post_sale:' || (p_sale->>'id')));
+  if exists (select 1 from public.sales where id::text = p_sale->>'id') then
+    return jsonb_build_object('status', 'duplicate');
+  end if;
+
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity, max(i.name) as name
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    left join public.inventory i on i.id::text = s.inventory_item_id
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    select coalesce(sum(ls.quantity), 0) into v_available
+    from public.location_stock ls
+    where ls.location_id = v_location and ls.inventory_item_id = v_line.inventory_item_id;
+    if v_available < v_line.quantity then
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'inventory_item_id', v_line.inventory_item_id,
+        'name', v_line.name,
+        'requested', v_line.quantity,
+        'available', v_available
+      );
+    end if;
+  end loop;
+
+  if jsonb_array_length(v_conflicts) > 0 then
+    return jsonb_build_object('status', 'conflict', 'conflicts', v_conflicts);
+  end if;
+
+  perform set_config('retailos.stock_location', v_location::text, true);
+  v_result := public.post_sale_with_batches(p_sale || jsonb_build_object('location_id', v_location), p_entries, p_stock);
+  perform set_config('retailos.stock_location', '', true);
+  return v_result;
+end;
+$$;
+
+-- receive_goods_with_batches into p_grn's location_id.
+create or replace function public.receive_goods_at_location(p_grn jsonb, p_lines jsonb, p_entries jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_location uuid := coalesce(nullif(p_grn->>'location_id', '')::uuid, public.default_stock_location());
+  v_result jsonb;
+begin
+  perform set_config('retailos.stock_location', v_location::text, true);
+  v_result := public.receive_goods_with_batches(p_grn, p_lines, p_entries);
+  perform set_config('retailos.stock_location', '', true);
+
+  if v_result->>'status' = 'received' then
+    update public.goods_received_notes set location_id = v_location where id = (v_result->'grn'->>'id')::uuid;
+    v_result := jsonb_set(v_result, '{grn,location_id}', to_jsonb(v_location));
+  end if;
+  return v_result;
+end;
+$$;
+
+-- post_sale_return, restocking at p_return's location_id.
+create or replace function public.post_sale_return_at_location(p_return jsonb, p_lines jsonb, p_entries jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_location uuid := coalesce(nullif(p_return->>'location_id', '')::uuid, public.default_stock_location());
+  v_result jsonb;
+begin
+  perform set_config('retailos.stock_location', v_location::text, true);
+  v_result := public.post_sale_return(p_return, p_lines, p_entries);
+  perform set_config('retailos.stock_location', '', true);
+
+  if v_result->>'status' = 'returned' then
+    update public.sale_returns set location_id = v_location where id = (v_result->'sale_return'->>'id')::uuid;
+    v_result := jsonb_set(v_result, '{sale_return,location_id}', to_jsonb(v_location));
+  end if;
+  return v_result;
+end;
+$$;
+
+create or replace function public.stock_transfer_json(p_transfer_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(t) || jsonb_build_object('lines', coalesce((
+    select jsonb_agg(to_jsonb(l) order by l.inventory_item_id) from public.stock_transfer_lines l where l.transfer_id = t.id
+  ), '[]'::jsonb))
+  from public.stock_transfers t
+  where t.id = p_transfer_id;
+$$;
+
+-- Takes the lines out of the source location; refused when it does not hold them. Each line
+-- keeps the unit cost its stock left at.
+create or replace function public.dispatch_stock_transfer(p_transfer jsonb, p_lines jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_from public.stock_locations;
+  v_to public.stock_locations;
+  v_line record;
+  v_available numeric;
+  v_transfer public.stock_transfers;
+  v_movement jsonb;
+  v_next integer;
+begin
+  select * into v_from from public.stock_locations where id = (p_transfer->>'from_location_id')::uuid;
+  select * into v_to from public.stock_locations where id = (p_transfer->>'to_location_id')::uuid;
+  if v_from.id is null or v_to.id is null then
+    return jsonb_build_object('status', 'invalid', 'message', 'Both locations must exist.');
+  end if;
+  if v_from.id = v_to.id then
+    return jsonb_build_object('status', 'invalid', 'message', 'A transfer needs two different locations.');
+  end if;
+  if not v_from.active or not v_to.active then
+    return jsonb_build_object('status', 'invalid', 'message', format('%s is inactive.', case when not v_from.active then v_from.name else v_to.name end));
+  end if;
+
+  for v_line in
+    select l.inventory_item_id, sum(l.quantity) as quantity, max(i.name) as name, bool_or(i.id is not null) as found
+    from jsonb_to_recordset(p_lines) as l(inventory_item_id text, quantity numeric)
+    left join public.inventory i on i.id::text = l.inventory_item_id
+    group by l.inventory_item_id
+    order by l.inventory_item_id
+  loop
+    if not v_line.found then
+      return jsonb_build_object('status', 'invalid', 'message', format('Inventory item %s not found.', v_line.inventory_item_id));
+    end if;
+    perform 1 from public.inventory i where i.id::text = v_line.inventory_item_id for update;
+    select coalesce(sum(s.quantity), 0) into v_available
+    from public.location_stock s
+    where s.location_id = v_from.id and s.inventory_item_id = v_line.inventory_item_id;
+    if v_available < v_line.quantity then
+      return jsonb_build_object('status', 'invalid', 'message', format('Only %s of %s at %s.', v_available, v_line.name, v_from.name));
+    end if;
+  end loop;
+
+  perform pg_advisory_xact_lock(hashtext('stock_transfers'));
+  select coalesce(max(substr(transfer_no, 5)::integer), 0) + 1 into v_next from public.stock_transfers;
+
+  insert into public.stock_transfers (transfer_no, from_location_id, to_location_id, notes, dispatched_by)
+  values ('TRF-' || lpad(v_next::text, 6, '0'), v_from.id, v_to.id, p_transfer->>'notes', p_transfer->>'dispatched_by')
+  returning * into v_transfer;
+
+  perform set_config('retailos.stock_location', v_from.id::text, true);
+  for v_line in
+    select l.inventory_item_id, l.quantity
+    from jsonb_to_recordset(p_lines) as l(inventory_item_id text, quantity numeric)
+  loop
+    v_movement := public.record_stock_movement(
+      v_line.inventory_item_id, -v_line.quantity, 'transfer',
+      format('%s to %s', v_transfer.transfer_no, v_to.name), v_transfer.dispatched_by, 'transfer', v_transfer.id::text
+    );
+    insert into public.stock_transfer_lines (transfer_id, inventory_item_id, quantity, unit_cost)
+    values (v_transfer.id, v_line.inventory_item_id, v_line.quantity, coalesce((v_movement->>'unit_cost')::numeric, 0));
+  end loop;
+  perform set_config('retailos.stock_location', '', true);
+
+  return jsonb_build_object('status', 'dispatched', 'transfer', public.stock_transfer_json(v_transfer.id));
+end;
+$$;
+
+-- Puts an in-transit transfer's lines into its destination at the cost they left at.
+create or replace function public.receive_stock_transfer(p_transfer_id uuid, p_user text)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_transfer public.stock_transfers;
+  v_from_name text;
+  v_line public.stock_transfer_lines;
+begin
+  select * into v_transfer from public.stock_transfers where id = p_transfer_id for update;
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  if v_transfer.status <> 'in_transit' then
+    return jsonb_build_object('status', 'invalid', 'message', format('%s has already been received.', v_transfer.transfer_no));
+  end if;
+
+  select name into v_from_name from public.stock_locations where id = v_transfer.from_location_id;
+
+  perform set_config('retailos.stock_location', v_transfer.to_location_id::text, true);
+  for v_line in select * from public.stock_transfer_lines where transfer_id = v_transfer.id loop
+    perform public.record_stock_movement(
+      v_line.inventory_item_id, v_line.quantity, 'transfer',
+      format('%s from %s', v_transfer.transfer_no, v_from_name), p_user, 'transfer', v_transfer.id::text, v_line.unit_cost
+    );
+  end loop;
+  perform set_config('retailos.stock_location', '', true);
+
+  update public.stock_transfers
+  set status = 'received', received_by = p_user, received_at = now()
+  where id = v_transfer.id;
+
+  return jsonb_build_object('status', 'received', 'transfer', public.stock_transfer_json(v_transfer.id));
+end;
+$$;
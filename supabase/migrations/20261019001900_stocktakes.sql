@@ -0,0 +1,245 @@
+-- Stocktakes (cycle counts).
+--
+-- Starting a count freezes, per line, what the location holds of each in-scope item. Counts are
+-- compared against that snapshot, and approval moves each line by counted - expected, so sales made
+-- while counting are neither lost nor counted twice. The net cost of the variance is booked per
+-- category as a PROFIT expense: shrinkage positive, stock found negative.
+
+alter table public.inventory add column if not exists bin text;
+
+create table if not exists public.stocktakes (
+  id uuid primary key default gen_random_uuid(),
+  stocktake_no text not null unique,
+  location_id uuid not null references public.stock_locations (id),
+  status text not null default 'counting' check (status in ('counting', 'approved', 'cancelled')),
+  category_id text,
+  bin text,
+  notes text,
+  started_by text not null,
+  started_at timestamptz not null default now(),
+  closed_by text,
+  closed_at timestamptz,
+  variance_value numeric
+);
+
+create unique index if not exists stocktakes_open_idx on public.stocktakes (location_id) where status = 'counting';
+
+create table if not exists public.stocktake_lines (
+  id uuid primary key default gen_random_uuid(),
+  stocktake_id uuid not null references public.stocktakes (id),
+  inventory_item_id text not null,
+  bin text,
+  expected_quantity numeric not null,
+  counted_quantity numeric,
+  unit_cost numeric not null,
+  counted_by text,
+  counted_at timestamptz,
+  unique (stocktake_id, inventory_item_id)
+);
+
+create or replace function public.stocktake_json(p_stocktake_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(t) || jsonb_build_object('lines', coalesce((
+    select jsonb_agg(to_jsonb(l) order by coalesce(l.bin, ''), l.id) from public.stocktake_lines l where l.stocktake_id = t.id
+  ), '[]'::jsonb))
+  from public.stocktakes t
+  where t.id = p_stocktake_id;
+$$;
+
+-- The sheet is every active item in scope with what the location holds of it right now.
+create or replace function public.start_stocktake(p_stocktake jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_location public.stock_locations;
+  v_open text;
+  v_stocktake public.stocktakes;
+  v_next integer;
+begin
+  select * into v_location from public.stock_locations where id = (p_stocktake->>'location_id')::uuid;
+  if v_location.id is null then
+    return jsonb_build_object('status', 'invalid', 'message', 'Location not found.');
+  end if;
+  if not v_location.active then
+    return jsonb_build_object('status', 'invalid', 'message', format('%s is inactive.', v_location.name));
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('stocktakes'));
+  select stocktake_no into v_open from public.stocktakes where location_id = v_location.id and status = 'counting';
+  if v_open is not null then
+    return jsonb_build_object('status', 'invalid', 'message', format('%s is still being counted at %s.', v_open, v_location.name));
+  end if;
+  if not exists (
+    select 1 from public.inventory i
+    where i.active
+      and (p_stocktake->>'category_id' is null or i.category_id::text = p_stocktake->>'category_id')
+      and (p_stocktake->>'bin' is null or lower(i.bin) = lower(p_stocktake->>'bin'))
+  ) then
+    return jsonb_build_object('status', 'invalid', 'message', 'No active items match this count.');
+  end if;
+
+  select coalesce(max(substr(stocktake_no, 5)::integer), 0) + 1 into v_next from public.stocktakes;
+  insert into public.stocktakes (stocktake_no, location_id, category_id, bin, notes, started_by)
+  values (
+    'STK-' || lpad(v_next::text, 6, '0'), v_location.id, p_stocktake->>'category_id', p_stocktake->>'bin',
+    p_stocktake->>'notes', p_stocktake->>'started_by'
+  )
+  returning * into v_stocktake;
+
+  insert into public.stocktake_lines (stocktake_id, inventory_item_id, bin, expected_quantity, unit_cost)
+  select v_stocktake.id, i.id::text, i.bin, coalesce(s.quantity, 0), coalesce(i.cost_price, 0)
+  from public.inventory i
+  left join public.location_stock s on s.inventory_item_id = i.id::text and s.location_id = v_location.id
+  where i.active
+    and (p_stocktake->>'category_id' is null or i.category_id::text = p_stocktake->>'category_id')
+    and (p_stocktake->>'bin' is null or lower(i.bin) = lower(p_stocktake->>'bin'))
+  order by lower(coalesce(i.bin, '')), lower(i.name);
+
+  return jsonb_build_object('status', 'started', 'stocktake', public.stocktake_json(v_stocktake.id));
+end;
+$$;
+
+-- Each count replaces the line's previous one.
+create or replace function public.record_stocktake_counts(p_stocktake_id uuid, p_counts jsonb, p_user text)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_stocktake public.stocktakes;
+  v_missing text;
+begin
+  select * into v_stocktake from public.stocktakes where id = p_stocktake_id for update;
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  if v_stocktake.status <> 'counting' then
+    return jsonb_build_object('status', 'invalid', 'message', format('%s is already %s.', v_stocktake.stocktake_no, v_stocktake.status));
+  end if;
+
+  select c.inventory_item_id into v_missing
+  from jsonb_to_recordset(p_counts) as c(inventory_item_id text, counted_quantity numeric)
+  where not exists (
+    select 1 from public.stocktake_lines l where l.stocktake_id = v_stocktake.id and l.inventory_item_id = c.inventory_item_id
+  )
+  limit 1;
+  if v_missing is not null then
+    return jsonb_build_object('status', 'invalid', 'message', format('Inventory item %s is not on %s.', v_missing, v_stocktake.stocktake_no));
+  end if;
+
+  update public.stocktake_lines l
+  set counted_quantity = c.counted_quantity, counted_by = p_user, counted_at = now()
+  from jsonb_to_recordset(p_counts) as c(inventory_item_id text, counted_quantity numeric)
+  where l.stocktake_id = v_stocktake.id and l.inventory_item_id = c.inventory_item_id;
+
+  return jsonb_build_object('status', 'counted', 'stocktake', public.stocktake_json(v_stocktake.id));
+end;
+$$;
+
+-- A line is never taken below zero at the location. The variance is valued at the cost the stock
+-- actually moved at.
+create or replace function public.approve_stocktake(p_stocktake_id uuid, p_user text)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_stocktake public.stocktakes;
+  v_location_name text;
+  v_uncounted integer;
+  v_line record;
+  v_on_hand numeric;
+  v_delta numeric;
+  v_movement jsonb;
+  v_variances jsonb := '[]'::jsonb;
+  v_category record;
+  v_total numeric := 0;
+begin
+  select * into v_stocktake from public.stocktakes where id = p_stocktake_id for update;
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  if v_stocktake.status <> 'counting' then
+    return jsonb_build_object('status', 'invalid', 'message', format('%s is already %s.', v_stocktake.stocktake_no, v_stocktake.status));
+  end if;
+  select count(*) into v_uncounted from public.stocktake_lines where stocktake_id = v_stocktake.id and counted_quantity is null;
+  if v_uncounted > 0 then
+    return jsonb_build_object('status', 'invalid', 'message', format('%s %s not counted yet.', v_uncounted, case when v_uncounted = 1 then 'line is' else 'lines are' end));
+  end if;
+
+  select name into v_location_name from public.stock_locations where id = v_stocktake.location_id;
+  perform set_config('retailos.stock_location', v_stocktake.location_id::text, true);
+  for v_line in
+    select l.*, i.category_id::text as category_id
+    from public.stocktake_lines l
+    join public.inventory i on i.id::text = l.inventory_item_id
+    where l.stocktake_id = v_stocktake.id and l.counted_quantity <> l.expected_quantity
+    order by l.inventory_item_id
+  loop
+    perform 1 from public.inventory i where i.id::text = v_line.inventory_item_id for update;
+    select coalesce(sum(s.quantity), 0) into v_on_hand
+    from public.location_stock s
+    where s.location_id = v_stocktake.location_id and s.inventory_item_id = v_line.inventory_item_id;
+    v_delta := greatest(v_line.counted_quantity - v_line.expected_quantity, -greatest(v_on_hand, 0));
+    continue when v_delta = 0;
+
+    v_movement := public.record_stock_movement(
+      v_line.inventory_item_id, v_delta, 'stocktake',
+      format('%s count at %s', v_stocktake.stocktake_no, v_location_name), p_user, 'stocktake', v_stocktake.id::text
+    );
+    v_variances := v_variances || jsonb_build_object(
+      'category_id', v_line.category_id,
+      'value', -v_delta * coalesce((v_movement->>'unit_cost')::numeric, 0)
+    );
+  end loop;
+  perform set_config('retailos.stock_location', '', true);
+
+  for v_category in
+    select category_id, round(sum(value), 2) as amount, count(*) as items
+    from jsonb_to_recordset(v_variances) as v(category_id text, value numeric)
+    group by category_id
+    having round(sum(value), 2) <> 0
+  loop
+    insert into public.ledger (category_id, amount, transaction_type, fund_source, description, created_at)
+    values (
+      v_category.category_id, v_category.amount, 'expense', 'PROFIT',
+      format('%s stock %s at %s (%s item%s)', v_stocktake.stocktake_no,
+        case when v_category.amount > 0 then 'shrinkage' else 'gain' end, v_location_name,
+        v_category.items, case when v_category.items = 1 then '' else 's' end),
+      now()
+    );
+    v_total := v_total + v_category.amount;
+  end loop;
+
+  update public.stocktakes
+  set status = 'approved', closed_by = p_user, closed_at = now(), variance_value = v_total
+  where id = v_stocktake.id;
+
+  return jsonb_build_object('status', 'approved', 'stocktake', public.stocktake_json(v_stocktake.id));
+end;
+$$;
+
+create or replace function public.cancel_stocktake(p_stocktake_id uuid, p_user text)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_stocktake public.stocktakes;
+begin
+  select * into v_stocktake from public.stocktakes where id = p_stocktake_id for update;
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  if v_stocktake.status <> 'counting' then
+    return jsonb_build_object('status', 'invalid', 'message', format('%s is already %s.', v_stocktake.stocktake_no, v_stocktake.status));
+  end if;
+
+  update public.stocktakes
+  set status = 'cancelled', closed_by = p_user, closed_at = now()
+  where id = v_stocktake.id;
+
+  return jsonb_build_object('status', 'cancelled', 'stocktake', public.stocktake_json(v_stocktake.id));
+end;
+$$;
@@ -0,0 +1,166 @@
+-- Reversing an on-account sale gives its charge back.
+--
+-- What the customer paid for the reversed lines (line value scaled by the sale's total/subtotal,
+-- as returns refund it) comes off the account first, up to the part of the sale's 'Credit' tender
+-- not already refunded to the account. It is posted as a 'refund' transaction with method
+-- 'Reversal' and settles this sale's charge first, then the oldest, like a refund to account.
+
+create or replace function public.credit_reversed_sale(p_sale_id text, p_line_value numeric, p_user text, p_note text)
+returns void
+language plpgsql
+as $$
+declare
+  v_sale public.sales;
+  v_on_account numeric;
+  v_credited numeric;
+  v_credit numeric;
+  v_remaining numeric;
+  v_applied numeric;
+  v_charge record;
+  v_balance numeric;
+begin
+  select * into v_sale from public.sales where id = p_sale_id for update;
+  if v_sale.customer_id is null then
+    return;
+  end if;
+
+  select coalesce(sum((p->>'amount')::numeric), 0) into v_on_account
+  from jsonb_array_elements(coalesce(v_sale.payments, '[]'::jsonb)) as p
+  where p->>'method' = 'Credit';
+
+  select coalesce(-sum(amount), 0) into v_credited
+  from public.customer_transactions
+  where sale_id = p_sale_id and kind = 'refund';
+
+  v_credit := round(least(
+    p_line_value * case when v_sale.subtotal > 0 then v_sale.total / v_sale.subtotal else 1 end,
+    v_on_account - v_credited
+  ), 2);
+  if v_credit <= 0 then
+    return;
+  end if;
+
+  v_remaining := v_credit;
+  for v_charge in
+    select id, outstanding
+    from public.customer_transactions
+    where customer_id = v_sale.customer_id and outstanding > 0
+    order by (sale_id is not distinct from p_sale_id) desc, created_at, id
+    for update
+  loop
+    exit when v_remaining <= 0;
+    v_applied := least(v_remaining, v_charge.outstanding);
+    update public.customer_transactions set outstanding = outstanding - v_applied where id = v_charge.id;
+    v_remaining := v_remaining - v_applied;
+  end loop;
+
+  update public.customers
+  set balance = balance - v_credit
+  where id = v_sale.customer_id
+  returning balance into v_balance;
+
+  insert into public.customer_transactions (customer_id, kind, amount, outstanding, balance_after, sale_id, reference, method, performed_by, note, created_at)
+  values (v_sale.customer_id, 'refund', -v_credit, 0, v_balance, p_sale_id, v_sale.receipt_no, 'Reversal', p_user, nullif(p_note, ''), now());
+end;
+$$;
+
+-- reverse_ledger_entries as before, plus the account credit for reversed sale lines.
+create or replace function public.reverse_ledger_entries(
+  p_entry_ids jsonb,
+  p_sale_id text,
+  p_reason_code text,
+  p_note text,
+  p_user text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_entry record;
+  v_net numeric;
+  v_reversal_id text;
+  v_count integer := 0;
+  v_sale_values jsonb := '{}'::jsonb;
+  v_sale record;
+begin
+  for v_entry in
+    select l.*
+    from public.ledger l
+    where (
+      l.id::text in (select jsonb_array_elements_text(coalesce(p_entry_ids, '[]'::jsonb)))
+      or (p_sale_id is not null and l.sale_id = p_sale_id)
+    )
+    order by l.id
+    for update
+  loop
+    if v_entry.adjusts_id is not null then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        continue;
+      end if;
+      return jsonb_build_object('status', 'invalid', 'message', 'Adjustment entries cannot themselves be reversed.');
+    end if;
+
+    if exists (select 1 from public.ledger r where r.adjusts_id = v_entry.id and r.adjustment_kind = 'reversal') then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        continue;
+      end if;
+      return jsonb_build_object('status', 'already_reversed', 'entry_id', v_entry.id);
+    end if;
+
+    if exists (select 1 from public.ledger r where r.adjusts_id = v_entry.id and r.adjustment_kind = 'return') then
+      return jsonb_build_object('status', 'invalid', 'message',
+        'Lines with customer returns cannot be reversed; take any further returns at the till.');
+    end if;
+
+    select v_entry.amount + coalesce(sum(c.amount), 0) into v_net
+    from public.ledger c
+    where c.adjusts_id = v_entry.id and c.adjustment_kind = 'correction';
+
+    insert into public.ledger (
+      category_id, inventory_item_id, quantity, amount, unit_cost, transaction_type, fund_source,
+      description, created_at, sale_id, adjusts_id, adjustment_kind, reason_code, adjusted_by
+    ) values (
+      v_entry.category_id,
+      v_entry.inventory_item_id,
+      case when v_entry.quantity is null then null else -v_entry.quantity end,
+      -v_net,
+      v_entry.unit_cost,
+      v_entry.transaction_type,
+      v_entry.fund_source,
+      'Reversal: ' || coalesce(v_entry.description, v_entry.transaction_type) || coalesce(' - ' || nullif(p_note, ''), ''),
+      now(),
+      v_entry.sale_id,
+      v_entry.id,
+      'reversal',
+      p_reason_code,
+      p_user
+    )
+    returning id::text into v_reversal_id;
+
+    if v_entry.transaction_type = 'sale' and v_entry.inventory_item_id is not null and coalesce(v_entry.quantity, 0) > 0 then
+      perform public.record_stock_movement(
+        v_entry.inventory_item_id::text, v_entry.quantity, 'reversal',
+        p_reason_code || coalesce(' - ' || nullif(p_note, ''), ''), p_user, 'ledger', v_reversal_id,
+        v_entry.unit_cost
+      );
+    end if;
+
+    if v_entry.transaction_type = 'sale' and v_entry.sale_id is not null then
+      v_sale_values := v_sale_values || jsonb_build_object(
+        v_entry.sale_id, coalesce((v_sale_values->>v_entry.sale_id)::numeric, 0) + v_net
+      );
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  for v_sale in select key as sale_id, value::numeric as line_value from jsonb_each_text(v_sale_values) loop
+    perform public.credit_reversed_sale(v_sale.sale_id, v_sale.line_value, p_user, p_note);
+  end loop;
+
+  if v_count = 0 then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  return jsonb_build_object('status', 'reversed', 'count', v_count);
+end;
+$$;
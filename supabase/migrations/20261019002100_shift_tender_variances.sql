@@ -0,0 +1,50 @@
+-- Shift over/short per tender.
+--
+-- A closing count now posts one over/short row per counted tender with a variance, funded by that
+-- tender (Cash, Card, Mobile Money, ...), instead of a single Cash row for the net. Tenders left
+-- uncounted carry no variance; the server refuses to close while a tender that took payments on the
+-- shift is uncounted.
+
+drop function if exists public.close_cash_shift(uuid, jsonb, jsonb);
+
+-- p_close: { closed_by, closed_at, denominations, expected, counted, over_short, notes }.
+-- p_entries: the over/short ledger rows, empty when every counted tender balanced.
+create or replace function public.close_cash_shift(p_shift_id uuid, p_close jsonb, p_entries jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_shift public.cash_shifts;
+begin
+  select * into v_shift
+  from public.cash_shifts
+  where id = p_shift_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+
+  if v_shift.status <> 'open' then
+    return jsonb_build_object('status', 'invalid', 'message', format('%s is already closed.', v_shift.shift_no));
+  end if;
+
+  update public.cash_shifts
+  set status = 'closed',
+      closed_at = (p_close->>'closed_at')::timestamptz,
+      closed_by = p_close->>'closed_by',
+      denominations = p_close->'denominations',
+      expected = p_close->'expected',
+      counted = p_close->'counted',
+      over_short = (p_close->>'over_short')::numeric,
+      notes = coalesce(p_close->>'notes', notes)
+  where id = p_shift_id
+  returning * into v_shift;
+
+  insert into public.ledger (category_id, amount, transaction_type, fund_source, description, created_at, shift_id)
+  select e.category_id, e.amount, e.transaction_type, e.fund_source, e.description, e.created_at, p_shift_id
+  from jsonb_populate_recordset(null::public.ledger, coalesce(p_entries, '[]'::jsonb)) as e;
+
+  return jsonb_build_object('status', 'closed', 'shift', to_jsonb(v_shift));
+end;
+$$;
@@ -0,0 +1,170 @@
+-- Serialised units back in stock.
+--
+-- A restocked return names the units coming back (serials on its lines, each sold on the sale),
+-- and a reversed sale line gives back as many of the sale's units of the item as it sold. Either
+-- way the unit is 'in_stock' again with its sale and warranty cleared, so it can be sold anew.
+
+create or replace function public.restock_serials(p_serial_ids uuid[])
+returns void
+language sql
+as $$
+  update public.serial_numbers
+  set status = 'in_stock', sale_id = null, receipt_no = null, customer_name = null, sold_at = null, warranty_expires_at = null
+  where id = any(p_serial_ids);
+$$;
+
+-- post_sale_return_at_location as before, plus the restocked serials.
+create or replace function public.post_sale_return_at_location(p_return jsonb, p_lines jsonb, p_entries jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_location uuid := coalesce(nullif(p_return->>'location_id', '')::uuid, public.default_stock_location());
+  v_result jsonb;
+  v_serial text;
+begin
+  -- Returns against the sale queue here, so two cannot both take back the same unit.
+  perform 1 from public.sales where id = p_return->>'sale_id' for update;
+
+  select x.serial into v_serial
+  from jsonb_to_recordset(p_lines) as l(inventory_item_id text, serials jsonb)
+  cross join lateral jsonb_array_elements_text(coalesce(l.serials, '[]'::jsonb)) as x(serial)
+  where not exists (
+    select 1 from public.serial_numbers n
+    where n.inventory_item_id = l.inventory_item_id and n.serial_no = x.serial
+      and n.status = 'sold' and n.sale_id = p_return->>'sale_id'
+  )
+  limit 1;
+
+  if found then
+    return jsonb_build_object('status', 'invalid', 'message', format('Serial %s is not a unit sold on this receipt.', v_serial));
+  end if;
+
+  perform set_config('retailos.stock_location', v_location::text, true);
+  v_result := public.post_sale_return(p_return, p_lines, p_entries);
+  perform set_config('retailos.stock_location', '', true);
+
+  if v_result->>'status' = 'returned' then
+    update public.sale_returns set location_id = v_location where id = (v_result->'sale_return'->>'id')::uuid;
+    v_result := jsonb_set(v_result, '{sale_return,location_id}', to_jsonb(v_location));
+
+    perform public.restock_serials(array(
+      select n.id
+      from jsonb_to_recordset(p_lines) as l(inventory_item_id text, disposition text, serials jsonb)
+      cross join lateral jsonb_array_elements_text(coalesce(l.serials, '[]'::jsonb)) as x(serial)
+      join public.serial_numbers n on n.inventory_item_id = l.inventory_item_id and n.serial_no = x.serial
+      where l.disposition = 'restock' and n.sale_id = p_return->>'sale_id'
+    ));
+  end if;
+  return v_result;
+end;
+$$;
+
+-- reverse_ledger_entries as before, plus the reversed lines' serials.
+create or replace function public.reverse_ledger_entries(
+  p_entry_ids jsonb,
+  p_sale_id text,
+  p_reason_code text,
+  p_note text,
+  p_user text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_entry record;
+  v_net numeric;
+  v_reversal_id text;
+  v_count integer := 0;
+  v_sale_values jsonb := '{}'::jsonb;
+  v_sale record;
+begin
+  for v_entry in
+    select l.*
+    from public.ledger l
+    where (
+      l.id::text in (select jsonb_array_elements_text(coalesce(p_entry_ids, '[]'::jsonb)))
+      or (p_sale_id is not null and l.sale_id = p_sale_id)
+    )
+    order by l.id
+    for update
+  loop
+    if v_entry.adjusts_id is not null then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        continue;
+      end if;
+      return jsonb_build_object('status', 'invalid', 'message', 'Adjustment entries cannot themselves be reversed.');
+    end if;
+
+    if exists (select 1 from public.ledger r where r.adjusts_id = v_entry.id and r.adjustment_kind = 'reversal') then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        continue;
+      end if;
+      return jsonb_build_object('status', 'already_reversed', 'entry_id', v_entry.id);
+    end if;
+
+    if exists (select 1 from public.ledger r where r.adjusts_id = v_entry.id and r.adjustment_kind = 'return') then
+      return jsonb_build_object('status', 'invalid', 'message',
+        'Lines with customer returns cannot be reversed; take any further returns at the till.');
+    end if;
+
+    select v_entry.amount + coalesce(sum(c.amount), 0) into v_net
+    from public.ledger c
+    where c.adjusts_id = v_entry.id and c.adjustment_kind = 'correction';
+
+    insert into public.ledger (
+      category_id, inventory_item_id, quantity, amount, unit_cost, transaction_type, fund_source,
+      description, created_at, sale_id, adjusts_id, adjustment_kind, reason_code, adjusted_by
+    ) values (
+      v_entry.category_id,
+      v_entry.inventory_item_id,
+      case when v_entry.quantity is null then null else -v_entry.quantity end,
+      -v_net,
+      v_entry.unit_cost,
+      v_entry.transaction_type,
+      v_entry.fund_source,
+      'Reversal: ' || coalesce(v_entry.description, v_entry.transaction_type) || coalesce(' - ' || nullif(p_note, ''), ''),
+      now(),
+      v_entry.sale_id,
+      v_entry.id,
+      'reversal',
+      p_reason_code,
+      p_user
+    )
+    returning id::text into v_reversal_id;
+
+    if v_entry.transaction_type = 'sale' and v_entry.inventory_item_id is not null and coalesce(v_entry.quantity, 0) > 0 then
+      perform public.record_stock_movement(
+        v_entry.inventory_item_id::text, v_entry.quantity, 'reversal',
+        p_reason_code || coalesce(' - ' || nullif(p_note, ''), ''), p_user, 'ledger', v_reversal_id,
+        v_entry.unit_cost
+      );
+      -- As many of the sale's units of the item as the line sold go back into stock.
+      perform public.restock_serials(array(
+        select n.id
+        from public.serial_numbers n
+        where n.inventory_item_id = v_entry.inventory_item_id::text and n.sale_id = v_entry.sale_id and n.status = 'sold'
+        order by n.serial_no
+        limit v_entry.quantity::integer
+      ));
+    end if;
+
+    if v_entry.transaction_type = 'sale' and v_entry.sale_id is not null then
+      v_sale_values := v_sale_values || jsonb_build_object(
+        v_entry.sale_id, coalesce((v_sale_values->>v_entry.sale_id)::numeric, 0) + v_net
+      );
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  for v_sale in select key as sale_id, value::numeric as line_value from jsonb_each_text(v_sale_values) loop
+    perform public.credit_reversed_sale(v_sale.sale_id, v_sale.line_value, p_user, p_note);
+  end loop;
+
+  if v_count = 0 then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  return jsonb_build_object('status', 'reversed', 'count', v_count);
+end;
+$$;
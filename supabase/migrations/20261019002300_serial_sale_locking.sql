@@ -0,0 +1,73 @@
+-- Serialised sales under concurrency.
+--
+-- post_sale_with_serials as before, except that the serial rows are locked before the sold check
+-- and the upsert never overwrites a unit another sale has sold, so two tills selling the same
+-- serial at once cannot both succeed.
+
+create or replace function public.post_sale_with_serials(p_sale jsonb, p_entries jsonb, p_stock jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_serial text;
+  v_result jsonb;
+  v_expected integer;
+  v_written integer;
+begin
+  -- Registered units are locked before the check, so a concurrent sale of one waits for this sale.
+  perform 1
+  from jsonb_to_recordset(p_stock) as l(inventory_item_id text, serials jsonb)
+  cross join lateral jsonb_array_elements_text(coalesce(l.serials, '[]'::jsonb)) as x(serial)
+  join public.serial_numbers n on n.inventory_item_id = l.inventory_item_id and n.serial_no = x.serial
+  order by n.id
+  for update of n;
+
+  select x.serial into v_serial
+  from jsonb_to_recordset(p_stock) as l(inventory_item_id text, serials jsonb)
+  cross join lateral jsonb_array_elements_text(coalesce(l.serials, '[]'::jsonb)) as x(serial)
+  join public.serial_numbers n on n.inventory_item_id = l.inventory_item_id and n.serial_no = x.serial
+  where n.status = 'sold' and n.sale_id is distinct from p_sale->>'id'
+  limit 1;
+
+  if found then
+    return jsonb_build_object('status', 'invalid', 'message', format('Serial %s has already been sold.', v_serial));
+  end if;
+
+  v_result := public.post_sale(p_sale, p_entries, p_stock);
+  if v_result->>'status' <> 'posted' then
+    return v_result;
+  end if;
+
+  select count(*) into v_expected
+  from jsonb_to_recordset(p_stock) as l(serials jsonb)
+  cross join lateral jsonb_array_elements_text(coalesce(l.serials, '[]'::jsonb)) as x(serial);
+
+  insert into public.serial_numbers (
+    inventory_item_id, serial_no, status, sale_id, receipt_no, customer_name, sold_at, warranty_expires_at
+  )
+  select
+    l.inventory_item_id, x.serial, 'sold', p_sale->>'id', p_sale->>'receipt_no', nullif(p_sale->>'customer_name', ''),
+    (p_sale->>'created_at')::timestamptz,
+    (p_sale->>'created_at')::timestamptz + make_interval(months => nullif(i.warranty_months, 0))
+  from jsonb_to_recordset(p_stock) as l(inventory_item_id text, serials jsonb)
+  cross join lateral jsonb_array_elements_text(coalesce(l.serials, '[]'::jsonb)) as x(serial)
+  left join public.inventory i on i.id::text = l.inventory_item_id
+  on conflict (inventory_item_id, serial_no) do update set
+    status = 'sold',
+    sale_id = excluded.sale_id,
+    receipt_no = excluded.receipt_no,
+    customer_name = excluded.customer_name,
+    sold_at = excluded.sold_at,
+    warranty_expires_at = excluded.warranty_expires_at
+  where public.serial_numbers.status <> 'sold' or public.serial_numbers.sale_id = excluded.sale_id;
+  get diagnostics v_written = row_count;
+
+  -- A unit another sale registered as sold while this one posted is never taken over: the whole
+  -- sale rolls back and the till retries it, when the check above refuses it.
+  if v_written < v_expected then
+    raise exception 'A serial on sale % has already been sold.', p_sale->>'id';
+  end if;
+
+  return v_result;
+end;
+$$;
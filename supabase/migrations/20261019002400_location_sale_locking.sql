@@ -0,0 +1,60 @@
+-- Location sales under concurrency.
+--
+-- post_sale_at_location as before, except that the inventory rows are locked before the location
+-- stock check rather than only later in post_sale.
+
+-- post_sale_with_batches, with stock checked and taken at p_sale's location_id.
+create or replace function public.post_sale_at_location(p_sale jsonb, p_entries jsonb, p_stock jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_location uuid := coalesce(nullif(p_sale->>'location_id', '')::uuid, public.default_stock_location());
+  v_line record;
+  v_available numeric;
+  v_conflicts jsonb := '[]'::jsonb;
+  v_result jsonb;
+begin
+  perform pg_advisory_xact_lock(hashtext('post_sale:' || (p_sale->>'id')));
+  if exists (select 1 from public.sales where id::text = p_sale->>'id') then
+    return jsonb_build_object('status', 'duplicate');
+  end if;
+
+  -- The items are locked before the location's stock is read, in the order post_sale locks them,
+  -- so two tills cannot both sell the last unit at a location.
+  perform 1
+  from public.inventory i
+  where i.id::text in (select s.inventory_item_id from jsonb_to_recordset(p_stock) as s(inventory_item_id text))
+  order by i.id::text
+  for update;
+
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity, max(i.name) as name
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    left join public.inventory i on i.id::text = s.inventory_item_id
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    select coalesce(sum(ls.quantity), 0) into v_available
+    from public.location_stock ls
+    where ls.location_id = v_location and ls.inventory_item_id = v_line.inventory_item_id;
+    if v_available < v_line.quantity then
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'inventory_item_id', v_line.inventory_item_id,
+        'name', v_line.name,
+        'requested', v_line.quantity,
+        'available', v_available
+      );
+    end if;
+  end loop;
+
+  if jsonb_array_length(v_conflicts) > 0 then
+    return jsonb_build_object('status', 'conflict', 'conflicts', v_conflicts);
+  end if;
+
+  perform set_config('retailos.stock_location', v_location::text, true);
+  v_result := public.post_sale_with_batches(p_sale || jsonb_build_object('location_id', v_location), p_entries, p_stock);
+  perform set_config('retailos.stock_location', '', true);
+  return v_result;
+end;
+$$;
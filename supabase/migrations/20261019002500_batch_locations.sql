@@ -0,0 +1,209 @@
+-- Lots held at a location.
+--
+-- A lot is stock at one location: it is received into the GRN's location, sold from the sale's
+-- location and quarantined where it is held. The same batch number at another location is another
+-- row, with the same expiry. Lots from before this migration are at their GRN's location, else the
+-- default location.
+
+alter table public.stock_batches add column if not exists location_id uuid references public.stock_locations (id);
+
+update public.stock_batches b
+set location_id = coalesce(
+  (select g.location_id from public.goods_received_notes g where g.id = b.grn_id),
+  public.default_stock_location()
+)
+where b.location_id is null;
+
+alter table public.stock_batches alter column location_id set not null;
+alter table public.stock_batches drop constraint if exists stock_batches_inventory_item_id_batch_no_key;
+create unique index if not exists stock_batches_item_batch_location_idx on public.stock_batches (inventory_item_id, batch_no, location_id);
+
+-- The location set for the transaction in retailos.stock_location, else the default location.
+create or replace function public.current_stock_location()
+returns uuid
+language sql
+stable
+as $$
+  select coalesce(nullif(current_setting('retailos.stock_location', true), '')::uuid, public.default_stock_location());
+$$;
+
+-- post_sale_with_batches as before, except that only the lots at the sale's location are drawn
+-- down (post_sale_at_location sets it for the transaction).
+create or replace function public.post_sale_with_batches(p_sale jsonb, p_entries jsonb, p_stock jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_location uuid := public.current_stock_location();
+  v_line record;
+  v_batch record;
+  v_remaining numeric;
+  v_take numeric;
+  v_sale_day date := (p_sale->>'created_at')::timestamptz::date;
+  v_override boolean := coalesce((p_sale->>'expiry_override')::boolean, false);
+  v_result jsonb;
+begin
+  if not v_override then
+    for v_line in
+      select s.inventory_item_id, sum(s.quantity) as quantity
+      from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+      group by s.inventory_item_id
+    loop
+      v_remaining := v_line.quantity;
+      for v_batch in
+        select b.batch_no, b.expiry_date, b.quantity_remaining, i.name
+        from public.stock_batches b
+        left join public.inventory i on i.id::text = b.inventory_item_id
+        where b.inventory_item_id = v_line.inventory_item_id and b.location_id = v_location
+          and b.status = 'available' and b.quantity_remaining > 0
+        order by b.expiry_date, b.received_at
+      loop
+        exit when v_remaining <= 0;
+        if v_batch.expiry_date < v_sale_day then
+          return jsonb_build_object('status', 'invalid', 'message', format(
+            'Batch %s of %s expired on %s; a manager must approve selling it.', v_batch.batch_no, v_batch.name, v_batch.expiry_date
+          ));
+        end if;
+        v_remaining := v_remaining - least(v_remaining, v_batch.quantity_remaining);
+      end loop;
+    end loop;
+  end if;
+
+  v_result := public.post_sale_with_serials(p_sale, p_entries, p_stock);
+  if v_result->>'status' <> 'posted' then
+    return v_result;
+  end if;
+
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    v_remaining := v_line.quantity;
+    for v_batch in
+      select b.id, b.quantity_remaining
+      from public.stock_batches b
+      where b.inventory_item_id = v_line.inventory_item_id and b.location_id = v_location
+        and b.status = 'available' and b.quantity_remaining > 0
+      order by b.expiry_date, b.received_at
+      for update
+    loop
+      exit when v_remaining <= 0;
+      v_take := least(v_remaining, v_batch.quantity_remaining);
+      update public.stock_batches set quantity_remaining = quantity_remaining - v_take where id = v_batch.id;
+      v_remaining := v_remaining - v_take;
+    end loop;
+  end loop;
+
+  return v_result;
+end;
+$$;
+
+-- receive_goods_with_batches as before, except that lines add to the lot at the GRN's location
+-- (receive_goods_at_location sets it for the transaction). The expiry is checked against the batch
+-- wherever it is held; only a lot quarantined at this location refuses more stock.
+create or replace function public.receive_goods_with_batches(p_grn jsonb, p_lines jsonb, p_entries jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_location uuid := public.current_stock_location();
+  v_batch record;
+  v_result jsonb;
+begin
+  select b.batch_no, b.status, b.expiry_date, l.expiry_date as received_expiry into v_batch
+  from jsonb_to_recordset(p_lines) as l(inventory_item_id text, batch_no text, expiry_date date)
+  join public.stock_batches b on b.inventory_item_id = l.inventory_item_id and b.batch_no = l.batch_no
+  where (b.status = 'quarantined' and b.location_id = v_location) or b.expiry_date <> l.expiry_date
+  limit 1;
+
+  if found then
+    return jsonb_build_object('status', 'invalid', 'message', case
+      when v_batch.expiry_date <> v_batch.received_expiry then format('Batch %s is recorded with expiry %s.', v_batch.batch_no, v_batch.expiry_date)
+      else format('Batch %s is quarantined.', v_batch.batch_no)
+    end);
+  end if;
+
+  v_result := public.receive_goods_with_serials(p_grn, p_lines, p_entries);
+  if v_result->>'status' <> 'received' then
+    return v_result;
+  end if;
+
+  insert into public.stock_batches (inventory_item_id, batch_no, expiry_date, quantity_received, quantity_remaining, grn_id, received_at, location_id)
+  select l.inventory_item_id, l.batch_no, l.expiry_date, sum(l.quantity), sum(l.quantity),
+    (v_result->'grn'->>'id')::uuid, (p_grn->>'received_at')::timestamptz, v_location
+  from jsonb_to_recordset(p_lines) as l(inventory_item_id text, quantity numeric, batch_no text, expiry_date date)
+  where l.batch_no is not null
+  group by l.inventory_item_id, l.batch_no, l.expiry_date
+  on conflict (inventory_item_id, batch_no, location_id) do update set
+    quantity_received = public.stock_batches.quantity_received + excluded.quantity_received,
+    quantity_remaining = public.stock_batches.quantity_remaining + excluded.quantity_remaining;
+
+  return v_result;
+end;
+$$;
+
+-- quarantine_batch as before, except that what is taken out is capped by, and leaves from, the
+-- stock at the lot's location.
+create or replace function public.quarantine_batch(p_batch_id uuid, p_reason text, p_user text)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_batch public.stock_batches;
+  v_item record;
+  v_on_hand numeric;
+  v_take numeric;
+  v_movement jsonb;
+  v_write_off numeric := 0;
+begin
+  select * into v_batch from public.stock_batches where id = p_batch_id for update;
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  if v_batch.status <> 'available' then
+    return jsonb_build_object('status', 'invalid', 'message', format('Batch %s is already %s.', v_batch.batch_no, v_batch.status));
+  end if;
+
+  select i.name, i.category_id into v_item
+  from public.inventory i
+  where i.id::text = v_batch.inventory_item_id
+  for update;
+
+  select coalesce(sum(s.quantity), 0) into v_on_hand
+  from public.location_stock s
+  where s.location_id = v_batch.location_id and s.inventory_item_id = v_batch.inventory_item_id;
+
+  v_take := least(v_batch.quantity_remaining, greatest(v_on_hand, 0));
+  if v_take > 0 then
+    perform set_config('retailos.stock_location', v_batch.location_id::text, true);
+    v_movement := public.record_stock_movement(
+      v_batch.inventory_item_id, -v_take, 'adjustment',
+      format('Batch %s quarantined: %s', v_batch.batch_no, p_reason), p_user, 'batch', v_batch.id::text
+    );
+    perform set_config('retailos.stock_location', '', true);
+    v_write_off := round(coalesce((v_movement->>'unit_cost')::numeric, 0) * v_take, 2);
+  end if;
+
+  if v_write_off > 0 then
+    insert into public.ledger (category_id, amount, transaction_type, fund_source, description, created_at)
+    values (
+      v_item.category_id, v_write_off, 'expense', 'PROFIT',
+      format('Write-off: %s batch %s (x%s) - %s', v_item.name, v_batch.batch_no, v_take, p_reason), now()
+    );
+  end if;
+
+  update public.stock_batches
+  set status = 'quarantined',
+      quantity_remaining = 0,
+      quarantined_at = now(),
+      quarantined_by = p_user,
+      quarantine_reason = p_reason,
+      write_off_amount = v_write_off
+  where id = v_batch.id
+  returning * into v_batch;
+
+  return jsonb_build_object('status', 'quarantined', 'batch', to_jsonb(v_batch));
+end;
+$$;
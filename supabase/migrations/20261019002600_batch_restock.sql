@@ -0,0 +1,456 @@
+-- Lots in step with stock.
+--
+-- A sale records the lots it drew down (sale_batches), and a restocked return or a reversed sale
+-- line puts its units back into them, at the return's location or the sale's. A transfer takes
+-- its lots out of the source soonest expiry first (stock_transfer_batches) and puts them into the
+-- same batches at the destination when received. Units go into a batch where the location holds
+-- it, else into a lot opened for them there; a batch quarantined there takes none.
+
+create table if not exists public.sale_batches (
+  id uuid primary key default gen_random_uuid(),
+  sale_id text not null references public.sales (id),
+  batch_id uuid not null references public.stock_batches (id) on delete cascade,
+  inventory_item_id text not null,
+  quantity numeric not null,
+  quantity_restocked numeric not null default 0
+);
+
+create index if not exists sale_batches_sale_idx on public.sale_batches (sale_id, inventory_item_id);
+
+create table if not exists public.stock_transfer_batches (
+  id uuid primary key default gen_random_uuid(),
+  transfer_id uuid not null references public.stock_transfers (id),
+  batch_id uuid not null references public.stock_batches (id) on delete cascade,
+  inventory_item_id text not null,
+  quantity numeric not null
+);
+
+create index if not exists stock_transfer_batches_transfer_idx on public.stock_transfer_batches (transfer_id);
+
+-- Puts p_quantity of p_batch_id's batch into stock at p_location_id.
+create or replace function public.restock_lot(p_batch_id uuid, p_location_id uuid, p_quantity numeric)
+returns void
+language sql
+as $$
+  insert into public.stock_batches (inventory_item_id, batch_no, expiry_date, quantity_received, quantity_remaining, grn_id, location_id)
+  select b.inventory_item_id, b.batch_no, b.expiry_date, p_quantity, p_quantity, b.grn_id, p_location_id
+  from public.stock_batches b
+  where b.id = p_batch_id
+  on conflict (inventory_item_id, batch_no, location_id) do update set
+    quantity_remaining = public.stock_batches.quantity_remaining + excluded.quantity_remaining
+  where public.stock_batches.status = 'available';
+$$;
+
+-- Up to p_quantity of the item the sale took from lots goes back to them, the last lot taken
+-- first. Units beyond what it took from lots pre-date batch tracking.
+create or replace function public.restock_sale_batches(p_sale_id text, p_item_id text, p_quantity numeric, p_location_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_take record;
+  v_back numeric;
+  v_remaining numeric := p_quantity;
+begin
+  for v_take in
+    select t.id, t.batch_id, t.quantity - t.quantity_restocked as open
+    from public.sale_batches t
+    join public.stock_batches b on b.id = t.batch_id
+    where t.sale_id = p_sale_id and t.inventory_item_id = p_item_id and t.quantity_restocked < t.quantity
+    order by b.expiry_date desc, b.received_at desc
+    for update of t
+  loop
+    exit when v_remaining <= 0;
+    v_back := least(v_remaining, v_take.open);
+    perform public.restock_lot(v_take.batch_id, p_location_id, v_back);
+    update public.sale_batches set quantity_restocked = quantity_restocked + v_back where id = v_take.id;
+    v_remaining := v_remaining - v_back;
+  end loop;
+end;
+$$;
+
+-- post_sale_with_batches as before, plus the lots drawn down recorded against the sale.
+create or replace function public.post_sale_with_batches(p_sale jsonb, p_entries jsonb, p_stock jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_location uuid := public.current_stock_location();
+  v_line record;
+  v_batch record;
+  v_remaining numeric;
+  v_take numeric;
+  v_sale_day date := (p_sale->>'created_at')::timestamptz::date;
+  v_override boolean := coalesce((p_sale->>'expiry_override')::boolean, false);
+  v_result jsonb;
+begin
+  if not v_override then
+    for v_line in
+      select s.inventory_item_id, sum(s.quantity) as quantity
+      from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+      group by s.inventory_item_id
+    loop
+      v_remaining := v_line.quantity;
+      for v_batch in
+        select b.batch_no, b.expiry_date, b.quantity_remaining, i.name
+        from public.stock_batches b
+        left join public.inventory i on i.id::text = b.inventory_item_id
+        where b.inventory_item_id = v_line.inventory_item_id and b.location_id = v_location
+          and b.status = 'available' and b.quantity_remaining > 0
+        order by b.expiry_date, b.received_at
+      loop
+        exit when v_remaining <= 0;
+        if v_batch.expiry_date < v_sale_day then
+          return jsonb_build_object('status', 'invalid', 'message', format(
+            'Batch %s of %s expired on %s; a manager must approve selling it.', v_batch.batch_no, v_batch.name, v_batch.expiry_date
+          ));
+        end if;
+        v_remaining := v_remaining - least(v_remaining, v_batch.quantity_remaining);
+      end loop;
+    end loop;
+  end if;
+
+  v_result := public.post_sale_with_serials(p_sale, p_entries, p_stock);
+  if v_result->>'status' <> 'posted' then
+    return v_result;
+  end if;
+
+  for v_line in
+    select s.inventory_item_id, sum(s.quantity) as quantity
+    from jsonb_to_recordset(p_stock) as s(inventory_item_id text, quantity numeric)
+    group by s.inventory_item_id
+    order by s.inventory_item_id
+  loop
+    v_remaining := v_line.quantity;
+    for v_batch in
+      select b.id, b.quantity_remaining
+      from public.stock_batches b
+      where b.inventory_item_id = v_line.inventory_item_id and b.location_id = v_location
+        and b.status = 'available' and b.quantity_remaining > 0
+      order by b.expiry_date, b.received_at
+      for update
+    loop
+      exit when v_remaining <= 0;
+      v_take := least(v_remaining, v_batch.quantity_remaining);
+      update public.stock_batches set quantity_remaining = quantity_remaining - v_take where id = v_batch.id;
+      insert into public.sale_batches (sale_id, batch_id, inventory_item_id, quantity)
+      values (p_sale->>'id', v_batch.id, v_line.inventory_item_id, v_take);
+      v_remaining := v_remaining - v_take;
+    end loop;
+  end loop;
+
+  return v_result;
+end;
+$$;
+
+-- post_sale_return_at_location as before, plus the restocked units put back into the sale's lots.
+create or replace function public.post_sale_return_at_location(p_return jsonb, p_lines jsonb, p_entries jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_location uuid := coalesce(nullif(p_return->>'location_id', '')::uuid, public.default_stock_location());
+  v_result jsonb;
+  v_serial text;
+  v_line record;
+begin
+  -- Returns against the sale queue here, so two cannot both take back the same unit.
+  perform 1 from public.sales where id = p_return->>'sale_id' for update;
+
+  select x.serial into v_serial
+  from jsonb_to_recordset(p_lines) as l(inventory_item_id text, serials jsonb)
+  cross join lateral jsonb_array_elements_text(coalesce(l.serials, '[]'::jsonb)) as x(serial)
+  where not exists (
+    select 1 from public.serial_numbers n
+    where n.inventory_item_id = l.inventory_item_id and n.serial_no = x.serial
+      and n.status = 'sold' and n.sale_id = p_return->>'sale_id'
+  )
+  limit 1;
+
+  if found then
+    return jsonb_build_object('status', 'invalid', 'message', format('Serial %s is not a unit sold on this receipt.', v_serial));
+  end if;
+
+  perform set_config('retailos.stock_location', v_location::text, true);
+  v_result := public.post_sale_return(p_return, p_lines, p_entries);
+  perform set_config('retailos.stock_location', '', true);
+
+  if v_result->>'status' = 'returned' then
+    update public.sale_returns set location_id = v_location where id = (v_result->'sale_return'->>'id')::uuid;
+    v_result := jsonb_set(v_result, '{sale_return,location_id}', to_jsonb(v_location));
+
+    perform public.restock_serials(array(
+      select n.id
+      from jsonb_to_recordset(p_lines) as l(inventory_item_id text, disposition text, serials jsonb)
+      cross join lateral jsonb_array_elements_text(coalesce(l.serials, '[]'::jsonb)) as x(serial)
+      join public.serial_numbers n on n.inventory_item_id = l.inventory_item_id and n.serial_no = x.serial
+      where l.disposition = 'restock' and n.sale_id = p_return->>'sale_id'
+    ));
+
+    for v_line in
+      select l.inventory_item_id, sum(l.quantity) as quantity
+      from jsonb_to_recordset(p_lines) as l(inventory_item_id text, disposition text, quantity numeric)
+      where l.disposition = 'restock'
+      group by l.inventory_item_id
+      order by l.inventory_item_id
+    loop
+      perform public.restock_sale_batches(p_return->>'sale_id', v_line.inventory_item_id, v_line.quantity, v_location);
+    end loop;
+  end if;
+  return v_result;
+end;
+$$;
+
+-- reverse_ledger_entries as before, plus the reversed lines' units put back into the sale's lots.
+create or replace function public.reverse_ledger_entries(
+  p_entry_ids jsonb,
+  p_sale_id text,
+  p_reason_code text,
+  p_note text,
+  p_user text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_entry record;
+  v_net numeric;
+  v_reversal_id text;
+  v_count integer := 0;
+  v_sale_values jsonb := '{}'::jsonb;
+  v_sale record;
+begin
+  for v_entry in
+    select l.*
+    from public.ledger l
+    where (
+      l.id::text in (select jsonb_array_elements_text(coalesce(p_entry_ids, '[]'::jsonb)))
+      or (p_sale_id is not null and l.sale_id = p_sale_id)
+    )
+    order by l.id
+    for update
+  loop
+    if v_entry.adjusts_id is not null then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        continue;
+      end if;
+      return jsonb_build_object('status', 'invalid', 'message', 'Adjustment entries cannot themselves be reversed.');
+    end if;
+
+    if exists (select 1 from public.ledger r where r.adjusts_id = v_entry.id and r.adjustment_kind = 'reversal') then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        continue;
+      end if;
+      return jsonb_build_object('status', 'already_reversed', 'entry_id', v_entry.id);
+    end if;
+
+    if exists (select 1 from public.ledger r where r.adjusts_id = v_entry.id and r.adjustment_kind = 'return') then
+      return jsonb_build_object('status', 'invalid', 'message',
+        'Lines with customer returns cannot be reversed; take any further returns at the till.');
+    end if;
+
+    select v_entry.amount + coalesce(sum(c.amount), 0) into v_net
+    from public.ledger c
+    where c.adjusts_id = v_entry.id and c.adjustment_kind = 'correction';
+
+    insert into public.ledger (
+      category_id, inventory_item_id, quantity, amount, unit_cost, transaction_type, fund_source,
+      description, created_at, sale_id, adjusts_id, adjustment_kind, reason_code, adjusted_by
+    ) values (
+      v_entry.category_id,
+      v_entry.inventory_item_id,
+      case when v_entry.quantity is null then null else -v_entry.quantity end,
+      -v_net,
+      v_entry.unit_cost,
+      v_entry.transaction_type,
+      v_entry.fund_source,
+      'Reversal: ' || coalesce(v_entry.description, v_entry.transaction_type) || coalesce(' - ' || nullif(p_note, ''), ''),
+      now(),
+      v_entry.sale_id,
+      v_entry.id,
+      'reversal',
+      p_reason_code,
+      p_user
+    )
+    returning id::text into v_reversal_id;
+
+    if v_entry.transaction_type = 'sale' and v_entry.inventory_item_id is not null and coalesce(v_entry.quantity, 0) > 0 then
+      perform public.record_stock_movement(
+        v_entry.inventory_item_id::text, v_entry.quantity, 'reversal',
+        p_reason_code || coalesce(' - ' || nullif(p_note, ''), ''), p_user, 'ledger', v_reversal_id,
+        v_entry.unit_cost
+      );
+      -- As many of the sale's units of the item as the line sold go back into stock.
+      perform public.restock_serials(array(
+        select n.id
+        from public.serial_numbers n
+        where n.inventory_item_id = v_entry.inventory_item_id::text and n.sale_id = v_entry.sale_id and n.status = 'sold'
+        order by n.serial_no
+        limit v_entry.quantity::integer
+      ));
+      if v_entry.sale_id is not null then
+        perform public.restock_sale_batches(
+          v_entry.sale_id, v_entry.inventory_item_id::text, v_entry.quantity,
+          coalesce((select s.location_id from public.sales s where s.id = v_entry.sale_id), public.default_stock_location())
+        );
+      end if;
+    end if;
+
+    if v_entry.transaction_type = 'sale' and v_entry.sale_id is not null then
+      v_sale_values := v_sale_values || jsonb_build_object(
+        v_entry.sale_id, coalesce((v_sale_values->>v_entry.sale_id)::numeric, 0) + v_net
+      );
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  for v_sale in select key as sale_id, value::numeric as line_value from jsonb_each_text(v_sale_values) loop
+    perform public.credit_reversed_sale(v_sale.sale_id, v_sale.line_value, p_user, p_note);
+  end loop;
+
+  if v_count = 0 then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  return jsonb_build_object('status', 'reversed', 'count', v_count);
+end;
+$$;
+
+-- dispatch_stock_transfer as before, plus the lots taken out of the source soonest expiry first.
+create or replace function public.dispatch_stock_transfer(p_transfer jsonb, p_lines jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_from public.stock_locations;
+  v_to public.stock_locations;
+  v_line record;
+  v_available numeric;
+  v_transfer public.stock_transfers;
+  v_movement jsonb;
+  v_next integer;
+  v_batch record;
+  v_remaining numeric;
+  v_take numeric;
+begin
+  select * into v_from from public.stock_locations where id = (p_transfer->>'from_location_id')::uuid;
+  select * into v_to from public.stock_locations where id = (p_transfer->>'to_location_id')::uuid;
+  if v_from.id is null or v_to.id is null then
+    return jsonb_build_object('status', 'invalid', 'message', 'Both locations must exist.');
+  end if;
+  if v_from.id = v_to.id then
+    return jsonb_build_object('status', 'invalid', 'message', 'A transfer needs two different locations.');
+  end if;
+  if not v_from.active or not v_to.active then
+    return jsonb_build_object('status', 'invalid', 'message', format('%s is inactive.', case when not v_from.active then v_from.name else v_to.name end));
+  end if;
+
+  for v_line in
+    select l.inventory_item_id, sum(l.quantity) as quantity, max(i.name) as name, bool_or(i.id is not null) as found
+    from jsonb_to_recordset(p_lines) as l(inventory_item_id text, quantity numeric)
+    left join public.inventory i on i.id::text = l.inventory_item_id
+    group by l.inventory_item_id
+    order by l.inventory_item_id
+  loop
+    if not v_line.found then
+      return jsonb_build_object('status', 'invalid', 'message', format('Inventory item %s not found.', v_line.inventory_item_id));
+    end if;
+    perform 1 from public.inventory i where i.id::text = v_line.inventory_item_id for update;
+    select coalesce(sum(s.quantity), 0) into v_available
+    from public.location_stock s
+    where s.location_id = v_from.id and s.inventory_item_id = v_line.inventory_item_id;
+    if v_available < v_line.quantity then
+      return jsonb_build_object('status', 'invalid', 'message', format('Only %s of %s at %s.', v_available, v_line.name, v_from.name));
+    end if;
+  end loop;
+
+  perform pg_advisory_xact_lock(hashtext('stock_transfers'));
+  select coalesce(max(substr(transfer_no, 5)::integer), 0) + 1 into v_next from public.stock_transfers;
+
+  insert into public.stock_transfers (transfer_no, from_location_id, to_location_id, notes, dispatched_by)
+  values ('TRF-' || lpad(v_next::text, 6, '0'), v_from.id, v_to.id, p_transfer->>'notes', p_transfer->>'dispatched_by')
+  returning * into v_transfer;
+
+  perform set_config('retailos.stock_location', v_from.id::text, true);
+  for v_line in
+    select l.inventory_item_id, l.quantity
+    from jsonb_to_recordset(p_lines) as l(inventory_item_id text, quantity numeric)
+  loop
+    v_movement := public.record_stock_movement(
+      v_line.inventory_item_id, -v_line.quantity, 'transfer',
+      format('%s to %s', v_transfer.transfer_no, v_to.name), v_transfer.dispatched_by, 'transfer', v_transfer.id::text
+    );
+    insert into public.stock_transfer_lines (transfer_id, inventory_item_id, quantity, unit_cost)
+    values (v_transfer.id, v_line.inventory_item_id, v_line.quantity, coalesce((v_movement->>'unit_cost')::numeric, 0));
+  end loop;
+  perform set_config('retailos.stock_location', '', true);
+
+  for v_line in
+    select l.inventory_item_id, sum(l.quantity) as quantity
+    from jsonb_to_recordset(p_lines) as l(inventory_item_id text, quantity numeric)
+    group by l.inventory_item_id
+    order by l.inventory_item_id
+  loop
+    v_remaining := v_line.quantity;
+    for v_batch in
+      select b.id, b.quantity_remaining
+      from public.stock_batches b
+      where b.inventory_item_id = v_line.inventory_item_id and b.location_id = v_from.id
+        and b.status = 'available' and b.quantity_remaining > 0
+      order by b.expiry_date, b.received_at
+      for update
+    loop
+      exit when v_remaining <= 0;
+      v_take := least(v_remaining, v_batch.quantity_remaining);
+      update public.stock_batches set quantity_remaining = quantity_remaining - v_take where id = v_batch.id;
+      insert into public.stock_transfer_batches (transfer_id, batch_id, inventory_item_id, quantity)
+      values (v_transfer.id, v_batch.id, v_line.inventory_item_id, v_take);
+      v_remaining := v_remaining - v_take;
+    end loop;
+  end loop;
+
+  return jsonb_build_object('status', 'dispatched', 'transfer', public.stock_transfer_json(v_transfer.id));
+end;
+$$;
+
+-- receive_stock_transfer as before, plus the lots put into the destination.
+create or replace function public.receive_stock_transfer(p_transfer_id uuid, p_user text)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_transfer public.stock_transfers;
+  v_from_name text;
+  v_line public.stock_transfer_lines;
+  v_lot public.stock_transfer_batches;
+begin
+  select * into v_transfer from public.stock_transfers where id = p_transfer_id for update;
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  if v_transfer.status <> 'in_transit' then
+    return jsonb_build_object('status', 'invalid', 'message', format('%s has already been received.', v_transfer.transfer_no));
+  end if;
+
+  select name into v_from_name from public.stock_locations where id = v_transfer.from_location_id;
+
+  perform set_config('retailos.stock_location', v_transfer.to_location_id::text, true);
+  for v_line in select * from public.stock_transfer_lines where transfer_id = v_transfer.id loop
+    perform public.record_stock_movement(
+      v_line.inventory_item_id, v_line.quantity, 'transfer',
+      format('%s from %s', v_transfer.transfer_no, v_from_name), p_user, 'transfer', v_transfer.id::text, v_line.unit_cost
+    );
+  end loop;
+  perform set_config('retailos.stock_location', '', true);
+
+  for v_lot in select * from public.stock_transfer_batches where transfer_id = v_transfer.id order by id loop
+    perform public.restock_lot(v_lot.batch_id, v_transfer.to_location_id, v_lot.quantity);
+  end loop;
+
+  update public.stock_transfers
+  set status = 'received', received_by = p_user, received_at = now()
+  where id = v_transfer.id;
+
+  return jsonb_build_object('status', 'received', 'transfer', public.stock_transfer_json(v_transfer.id));
+end;
+$$;
@@ -0,0 +1,117 @@
+-- Stocktake variances on lots.
+--
+-- approve_stocktake as before, except that each variance also lands on the item's lots at the
+-- location: shrinkage comes off the lots that expire first, and found stock goes into the
+-- available lot received there last. Without a lot there, found stock counts as stock that
+-- pre-dates batch tracking.
+
+create or replace function public.approve_stocktake(p_stocktake_id uuid, p_user text)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_stocktake public.stocktakes;
+  v_location_name text;
+  v_uncounted integer;
+  v_line record;
+  v_on_hand numeric;
+  v_delta numeric;
+  v_movement jsonb;
+  v_variances jsonb := '[]'::jsonb;
+  v_category record;
+  v_total numeric := 0;
+  v_batch record;
+  v_remaining numeric;
+  v_take numeric;
+begin
+  select * into v_stocktake from public.stocktakes where id = p_stocktake_id for update;
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  if v_stocktake.status <> 'counting' then
+    return jsonb_build_object('status', 'invalid', 'message', format('%s is already %s.', v_stocktake.stocktake_no, v_stocktake.status));
+  end if;
+  select count(*) into v_uncounted from public.stocktake_lines where stocktake_id = v_stocktake.id and counted_quantity is null;
+  if v_uncounted > 0 then
+    return jsonb_build_object('status', 'invalid', 'message', format('%s %s not counted yet.', v_uncounted, case when v_uncounted = 1 then 'line is' else 'lines are' end));
+  end if;
+
+  select name into v_location_name from public.stock_locations where id = v_stocktake.location_id;
+  perform set_config('retailos.stock_location', v_stocktake.location_id::text, true);
+  for v_line in
+    select l.*, i.category_id::text as category_id
+    from public.stocktake_lines l
+    join public.inventory i on i.id::text = l.inventory_item_id
+    where l.stocktake_id = v_stocktake.id and l.counted_quantity <> l.expected_quantity
+    order by l.inventory_item_id
+  loop
+    perform 1 from public.inventory i where i.id::text = v_line.inventory_item_id for update;
+    select coalesce(sum(s.quantity), 0) into v_on_hand
+    from public.location_stock s
+    where s.location_id = v_stocktake.location_id and s.inventory_item_id = v_line.inventory_item_id;
+    v_delta := greatest(v_line.counted_quantity - v_line.expected_quantity, -greatest(v_on_hand, 0));
+    continue when v_delta = 0;
+
+    v_movement := public.record_stock_movement(
+      v_line.inventory_item_id, v_delta, 'stocktake',
+      format('%s count at %s', v_stocktake.stocktake_no, v_location_name), p_user, 'stocktake', v_stocktake.id::text
+    );
+
+    if v_delta < 0 then
+      v_remaining := -v_delta;
+      for v_batch in
+        select b.id, b.quantity_remaining
+        from public.stock_batches b
+        where b.inventory_item_id = v_line.inventory_item_id and b.location_id = v_stocktake.location_id
+          and b.status = 'available' and b.quantity_remaining > 0
+        order by b.expiry_date, b.received_at
+        for update
+      loop
+        exit when v_remaining <= 0;
+        v_take := least(v_remaining, v_batch.quantity_remaining);
+        update public.stock_batches set quantity_remaining = quantity_remaining - v_take where id = v_batch.id;
+        v_remaining := v_remaining - v_take;
+      end loop;
+    else
+      update public.stock_batches
+      set quantity_remaining = quantity_remaining + v_delta
+      where id = (
+        select b.id
+        from public.stock_batches b
+        where b.inventory_item_id = v_line.inventory_item_id and b.location_id = v_stocktake.location_id and b.status = 'available'
+        order by b.received_at desc
+        limit 1
+      );
+    end if;
+
+    v_variances := v_variances || jsonb_build_object(
+      'category_id', v_line.category_id,
+      'value', -v_delta * coalesce((v_movement->>'unit_cost')::numeric, 0)
+    );
+  end loop;
+  perform set_config('retailos.stock_location', '', true);
+
+  for v_category in
+    select category_id, round(sum(value), 2) as amount, count(*) as items
+    from jsonb_to_recordset(v_variances) as v(category_id text, value numeric)
+    group by category_id
+    having round(sum(value), 2) <> 0
+  loop
+    insert into public.ledger (category_id, amount, transaction_type, fund_source, description, created_at)
+    values (
+      v_category.category_id, v_category.amount, 'expense', 'PROFIT',
+      format('%s stock %s at %s (%s item%s)', v_stocktake.stocktake_no,
+        case when v_category.amount > 0 then 'shrinkage' else 'gain' end, v_location_name,
+        v_category.items, case when v_category.items = 1 then '' else 's' end),
+      now()
+    );
+    v_total := v_total + v_category.amount;
+  end loop;
+
+  update public.stocktakes
+  set status = 'approved', closed_by = p_user, closed_at = now(), variance_value = v_total
+  where id = v_stocktake.id;
+
+  return jsonb_build_object('status', 'approved', 'stocktake', public.stocktake_json(v_stocktake.id));
+end;
+$$;
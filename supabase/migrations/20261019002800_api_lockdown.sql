@@ -0,0 +1,107 @@
+-- API lockdown.
+--
+-- Everything these migrations add is reached through server.ts, which signs in with the service
+-- role and takes the audit user from the session. PostgREST exposes the public schema to the anon
+-- key shipped in the browser bundle, so the tables get row level security with no policies (the
+-- service role bypasses it) and the functions, sequences and summary view are taken away from
+-- anon and authenticated. Functions created later start out the same way.
+
+alter table public.branding_settings enable row level security;
+alter table public.cash_shifts enable row level security;
+alter table public.customer_transactions enable row level security;
+alter table public.customers enable row level security;
+alter table public.drawer_movements enable row level security;
+alter table public.goods_received_lines enable row level security;
+alter table public.goods_received_notes enable row level security;
+alter table public.inventory_cost_layers enable row level security;
+alter table public.inventory_movements enable row level security;
+alter table public.location_stock enable row level security;
+alter table public.part_cross_references enable row level security;
+alter table public.purchase_order_lines enable row level security;
+alter table public.purchase_orders enable row level security;
+alter table public.quote_lines enable row level security;
+alter table public.quotes enable row level security;
+alter table public.sale_batches enable row level security;
+alter table public.sale_return_lines enable row level security;
+alter table public.sale_returns enable row level security;
+alter table public.sales enable row level security;
+alter table public.serial_numbers enable row level security;
+alter table public.stock_batches enable row level security;
+alter table public.stock_locations enable row level security;
+alter table public.stock_settings enable row level security;
+alter table public.stock_transfer_batches enable row level security;
+alter table public.stock_transfer_lines enable row level security;
+alter table public.stock_transfers enable row level security;
+alter table public.stocktake_lines enable row level security;
+alter table public.stocktakes enable row level security;
+alter table public.suppliers enable row level security;
+alter table public.terminal_locations enable row level security;
+alter table public.vehicle_fitments enable row level security;
+alter table public.warranty_claims enable row level security;
+
+do $$
+declare
+  v_function regprocedure;
+begin
+  for v_function in
+    select p.oid::regprocedure
+    from pg_proc p
+    join pg_namespace n on n.oid = p.pronamespace
+    where n.nspname = 'public' and p.proname = any (array[
+      'adjust_stock',
+      'adjust_stock_at_location',
+      'apply_movement_location',
+      'approve_stocktake',
+      'cancel_stocktake',
+      'close_cash_shift',
+      'correct_ledger_amount',
+      'create_purchase_order',
+      'create_quote',
+      'credit_reversed_sale',
+      'current_stock_location',
+      'default_stock_location',
+      'delete_item_fitment',
+      'dispatch_stock_transfer',
+      'open_cash_shift',
+      'post_sale',
+      'post_sale_at_location',
+      'post_sale_return',
+      'post_sale_return_at_location',
+      'post_sale_with_batches',
+      'post_sale_with_serials',
+      'quarantine_batch',
+      'receive_customer_payment',
+      'receive_goods',
+      'receive_goods_at_location',
+      'receive_goods_with_batches',
+      'receive_goods_with_serials',
+      'receive_stock_transfer',
+      'record_drawer_movement',
+      'record_stock_movement',
+      'record_stocktake_counts',
+      'replace_item_fitment',
+      'restock_lot',
+      'restock_sale_batches',
+      'restock_serials',
+      'reverse_ledger_entries',
+      'start_stocktake',
+      'stock_transfer_json',
+      'stocktake_json'
+    ])
+  loop
+    execute format('revoke execute on function %s from public, anon, authenticated', v_function);
+    execute format('grant execute on function %s to service_role', v_function);
+  end loop;
+end;
+$$;
+
+revoke all on sequence public.cash_shift_no_seq from anon, authenticated;
+revoke all on sequence public.goods_received_no_seq from anon, authenticated;
+revoke all on sequence public.purchase_order_no_seq from anon, authenticated;
+revoke all on sequence public.quote_no_seq from anon, authenticated;
+revoke all on sequence public.sale_return_no_seq from anon, authenticated;
+revoke all on sequence public.warranty_claim_no_seq from anon, authenticated;
+
+revoke all on public.business_summary from anon, authenticated;
+
+alter default privileges in schema public revoke execute on functions from public, anon, authenticated;
@@ -0,0 +1,123 @@
+-- Reversing a sale again.
+--
+-- reverse_ledger_entries as before, except that a sale whose every line was reversed before
+-- returns already_reversed instead of not_found.
+
+create or replace function public.reverse_ledger_entries(
+  p_entry_ids jsonb,
+  p_sale_id text,
+  p_reason_code text,
+  p_note text,
+  p_user text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_entry record;
+  v_net numeric;
+  v_reversal_id text;
+  v_count integer := 0;
+  v_already_reversed text;
+  v_sale_values jsonb := '{}'::jsonb;
+  v_sale record;
+begin
+  for v_entry in
+    select l.*
+    from public.ledger l
+    where (
+      l.id::text in (select jsonb_array_elements_text(coalesce(p_entry_ids, '[]'::jsonb)))
+      or (p_sale_id is not null and l.sale_id = p_sale_id)
+    )
+    order by l.id
+    for update
+  loop
+    if v_entry.adjusts_id is not null then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        continue;
+      end if;
+      return jsonb_build_object('status', 'invalid', 'message', 'Adjustment entries cannot themselves be reversed.');
+    end if;
+
+    if exists (select 1 from public.ledger r where r.adjusts_id = v_entry.id and r.adjustment_kind = 'reversal') then
+      if p_sale_id is not null and v_entry.sale_id = p_sale_id then
+        v_already_reversed := coalesce(v_already_reversed, v_entry.id::text);
+        continue;
+      end if;
+      return jsonb_build_object('status', 'already_reversed', 'entry_id', v_entry.id);
+    end if;
+
+    if exists (select 1 from public.ledger r where r.adjusts_id = v_entry.id and r.adjustment_kind = 'return') then
+      return jsonb_build_object('status', 'invalid', 'message',
+        'Lines with customer returns cannot be reversed; take any further returns at the till.');
+    end if;
+
+    select v_entry.amount + coalesce(sum(c.amount), 0) into v_net
+    from public.ledger c
+    where c.adjusts_id = v_entry.id and c.adjustment_kind = 'correction';
+
+    insert into public.ledger (
+      category_id, inventory_item_id, quantity, amount, unit_cost, transaction_type, fund_source,
+      description, created_at, sale_id, adjusts_id, adjustment_kind, reason_code, adjusted_by
+    ) values (
+      v_entry.category_id,
+      v_entry.inventory_item_id,
+      case when v_entry.quantity is null then null else -v_entry.quantity end,
+      -v_net,
+      v_entry.unit_cost,
+      v_entry.transaction_type,
+      v_entry.fund_source,
+      'Reversal: ' || coalesce(v_entry.description, v_entry.transaction_type) || coalesce(' - ' || nullif(p_note, ''), ''),
+      now(),
+      v_entry.sale_id,
+      v_entry.id,
+      'reversal',
+      p_reason_code,
+      p_user
+    )
+    returning id::text into v_reversal_id;
+
+    if v_entry.transaction_type = 'sale' and v_entry.inventory_item_id is not null and coalesce(v_entry.quantity, 0) > 0 then
+      perform public.record_stock_movement(
+        v_entry.inventory_item_id::text, v_entry.quantity, 'reversal',
+        p_reason_code || coalesce(' - ' || nullif(p_note, ''), ''), p_user, 'ledger', v_reversal_id,
+        v_entry.unit_cost
+      );
+      -- As many of the sale's units of the item as the line sold go back into stock.
+      perform public.restock_serials(array(
+        select n.id
+        from public.serial_numbers n
+        where n.inventory_item_id = v_entry.inventory_item_id::text and n.sale_id = v_entry.sale_id and n.status = 'sold'
+        order by n.serial_no
+        limit v_entry.quantity::integer
+      ));
+      if v_entry.sale_id is not null then
+        perform public.restock_sale_batches(
+          v_entry.sale_id, v_entry.inventory_item_id::text, v_entry.quantity,
+          coalesce((select s.location_id from public.sales s where s.id = v_entry.sale_id), public.default_stock_location())
+        );
+      end if;
+    end if;
+
+    if v_entry.transaction_type = 'sale' and v_entry.sale_id is not null then
+      v_sale_values := v_sale_values || jsonb_build_object(
+        v_entry.sale_id, coalesce((v_sale_values->>v_entry.sale_id)::numeric, 0) + v_net
+      );
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  for v_sale in select key as sale_id, value::numeric as line_value from jsonb_each_text(v_sale_values) loop
+    perform public.credit_reversed_sale(v_sale.sale_id, v_sale.line_value, p_user, p_note);
+  end loop;
+
+  if v_count = 0 and v_already_reversed is not null then
+    return jsonb_build_object('status', 'already_reversed', 'entry_id', v_already_reversed);
+  end if;
+  if v_count = 0 then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  return jsonb_build_object('status', 'reversed', 'count', v_count);
+end;
+$$;